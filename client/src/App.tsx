@@ -6,8 +6,19 @@ import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import AdminDashboard from "@/pages/admin";
 import AdminSubmissions from "@/pages/admin-submissions";
+import AdminSubmissionDetail from "@/pages/admin-submission-detail";
+import AdminParticipantHistory from "@/pages/admin-participant-history";
+import AdminEmailTemplates from "@/pages/admin-email-templates";
+import AdminAnalytics from "@/pages/admin-analytics";
+import AdminTeamReport from "@/pages/admin-team-report";
 import Documentation from "@/pages/documentation";
 import AuthPage from "@/pages/auth-page";
+import ResetPasswordPage from "@/pages/reset-password";
+import ValueComparisonPage from "@/pages/value-comparison";
+import AdminAccount from "@/pages/admin-account";
+import AdminAudit from "@/pages/admin-audit";
+import AdminPrivacy from "@/pages/admin-privacy";
+import AdminRetention from "@/pages/admin-retention";
 import { AuthProvider } from "@/hooks/use-auth";
 import { ProtectedRoute } from "@/lib/protected-route";
 
@@ -16,8 +27,19 @@ function Router() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/login" component={AuthPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <Route path="/compare" component={ValueComparisonPage} />
       <ProtectedRoute path="/admin" component={AdminDashboard} />
       <ProtectedRoute path="/admin/submissions" component={AdminSubmissions} />
+      <ProtectedRoute path="/admin/submissions/:id" component={AdminSubmissionDetail} />
+      <ProtectedRoute path="/admin/participants/:id" component={AdminParticipantHistory} />
+      <ProtectedRoute path="/admin/analytics" component={AdminAnalytics} />
+      <ProtectedRoute path="/admin/team-report/:companyCode" component={AdminTeamReport} />
+      <ProtectedRoute path="/admin/email-templates" component={AdminEmailTemplates} />
+      <ProtectedRoute path="/admin/account" component={AdminAccount} />
+      <ProtectedRoute path="/admin/audit" component={AdminAudit} />
+      <ProtectedRoute path="/admin/privacy" component={AdminPrivacy} />
+      <ProtectedRoute path="/admin/retention" component={AdminRetention} />
       <ProtectedRoute path="/admin/documentation" component={Documentation} />
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,364 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Deck, LeadershipValue } from "@/types";
+import { hasRole } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Layers, Link2, PencilIcon, PlusIcon, TrashIcon } from "lucide-react";
+import { useState } from "react";
+
+interface DeckManagerProps {
+  leadershipValues: LeadershipValue[];
+}
+
+type DeckFormData = {
+  name: string;
+  slug: string;
+  description: string;
+  shuffle: boolean;
+  valueIds: number[];
+};
+
+const emptyForm: DeckFormData = {
+  name: "",
+  slug: "",
+  description: "",
+  shuffle: false,
+  valueIds: [],
+};
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+const DeckManager = ({ leadershipValues }: DeckManagerProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canEdit = hasRole(user, "editor");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingDeck, setEditingDeck] = useState<Deck | null>(null);
+  const [isSlugEdited, setIsSlugEdited] = useState(false);
+  const [formData, setFormData] = useState<DeckFormData>(emptyForm);
+
+  // Fetch all decks
+  const { data: decks = [], isLoading } = useQuery<Deck[]>({
+    queryKey: ["/api/decks"],
+    throwOnError: false,
+  });
+
+  // Create or update a deck
+  const saveMutation = useMutation({
+    mutationFn: async (deck: DeckFormData) => {
+      const body = { ...deck, description: deck.description || null };
+      return editingDeck
+        ? apiRequest("PUT", `/api/decks/${editingDeck.id}`, body)
+        : apiRequest("POST", "/api/decks", body);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: editingDeck ? "Deck updated successfully" : "Deck created successfully",
+      });
+      setIsDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/decks"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.includes("slug already exists")
+          ? "A deck with this slug already exists"
+          : "Failed to save deck",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Delete a deck
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/decks/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Deck deleted successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/decks"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete deck",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingDeck(null);
+    setIsSlugEdited(false);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (deck: Deck) => {
+    setEditingDeck(deck);
+    setIsSlugEdited(true);
+    setFormData({
+      name: deck.name,
+      slug: deck.slug,
+      description: deck.description || "",
+      shuffle: deck.shuffle,
+      valueIds: deck.valueIds,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleNameChange = (name: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      name,
+      slug: isSlugEdited ? prev.slug : slugify(name),
+    }));
+  };
+
+  const toggleValue = (valueId: number, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      valueIds: checked
+        ? [...prev.valueIds, valueId]
+        : prev.valueIds.filter((id) => id !== valueId),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(formData);
+  };
+
+  const handleDelete = (deck: Deck) => {
+    if (window.confirm(`Are you sure you want to delete the "${deck.name}" deck?`)) {
+      deleteMutation.mutate(deck.id);
+    }
+  };
+
+  const handleCopyLink = async (deck: Deck) => {
+    const link = `${window.location.origin}/?deck=${deck.slug}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({
+        title: "Link Copied",
+        description: link,
+      });
+    } catch (error) {
+      console.error("Error copying deck link:", error);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Card Decks
+          </CardTitle>
+          <CardDescription>
+            Participants without a deck link see every value.
+          </CardDescription>
+        </div>
+        {canEdit && (
+          <Button size="sm" onClick={openCreateDialog}>
+            <PlusIcon className="h-4 w-4" />
+            Add Deck
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse h-10 bg-slate-100 rounded" />
+        ) : decks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No decks have been created yet.</p>
+        ) : (
+          <div className="divide-y">
+            {decks.map((deck) => (
+              <div key={deck.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3">
+                <div>
+                  <div className="font-medium">{deck.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    <span className="font-mono">?deck={deck.slug}</span> · {deck.valueIds.length} value
+                    {deck.valueIds.length !== 1 ? "s" : ""}
+                    {deck.shuffle && " · shuffled"}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleCopyLink(deck)}>
+                    <Link2 className="h-4 w-4 mr-1" />
+                    Copy Link
+                  </Button>
+                  {canEdit && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => openEditDialog(deck)}>
+                        <PencilIcon className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleDelete(deck)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <TrashIcon className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Add / Edit Deck Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingDeck ? "Edit Deck" : "Add New Deck"}</DialogTitle>
+            <DialogDescription>
+              Choose which leadership values participants see when they use this deck's link.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label htmlFor="deck-name" className="text-sm font-medium">
+                    Deck Name
+                  </label>
+                  <Input
+                    id="deck-name"
+                    placeholder="e.g., Frontline Managers"
+                    value={formData.name}
+                    onChange={(e) => handleNameChange(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="deck-slug" className="text-sm font-medium">
+                    Slug
+                  </label>
+                  <Input
+                    id="deck-slug"
+                    placeholder="e.g., frontline-managers"
+                    value={formData.slug}
+                    onChange={(e) => {
+                      setIsSlugEdited(true);
+                      setFormData((prev) => ({ ...prev, slug: e.target.value }));
+                    }}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="deck-description" className="text-sm font-medium">
+                  Description (Optional)
+                </label>
+                <Textarea
+                  id="deck-description"
+                  placeholder="Who is this deck for?"
+                  value={formData.description}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+                  rows={2}
+                />
+              </div>
+              <label className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  className="mt-0.5"
+                  checked={formData.shuffle}
+                  onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, shuffle: checked === true }))}
+                />
+                <span>
+                  <span className="font-medium">Shuffle cards</span>
+                  <span className="block text-muted-foreground">
+                    Deal each participant the cards in a random order instead of the card order set on the dashboard
+                  </span>
+                </span>
+              </label>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">
+                    Values ({formData.valueIds.length} selected)
+                  </span>
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => setFormData((prev) => ({ ...prev, valueIds: leadershipValues.map((value) => value.id) }))}
+                    >
+                      Select all
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => setFormData((prev) => ({ ...prev, valueIds: [] }))}
+                    >
+                      Clear
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-64 overflow-y-auto border rounded-md p-3">
+                  {leadershipValues.map((value) => (
+                    <label key={value.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={formData.valueIds.includes(value.id)}
+                        onCheckedChange={(checked) => toggleValue(value.id, checked === true)}
+                      />
+                      {value.value}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : editingDeck ? "Save Changes" : "Add Deck"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default DeckManager;
@@ -0,0 +1,21 @@
+import { Badge } from "@/components/ui/badge";
+import { EmailOutboxMessage, EmailStatus } from "@/types";
+
+const emailStatusLabels: Record<EmailStatus, string> = {
+  pending: "Retrying",
+  sending: "Sending",
+  sent: "Sent",
+  failed: "Failed",
+};
+
+// Delivery status of an outbox email; hovering shows the last error
+const EmailStatusBadge = ({ email }: { email: EmailOutboxMessage }) => (
+  <Badge
+    variant={email.status === "failed" ? "destructive" : email.status === "sent" ? "default" : "secondary"}
+    title={email.lastError || undefined}
+  >
+    {emailStatusLabels[email.status]}
+  </Badge>
+);
+
+export default EmailStatusBadge;
@@ -0,0 +1,332 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Organization } from "@/types";
+import { hasRole } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Building2, PencilIcon, PlusIcon, TrashIcon } from "lucide-react";
+import { useState } from "react";
+
+type OrganizationFormData = {
+  code: string;
+  name: string;
+  startsOn: string;
+  endsOn: string;
+  participantCap: string;
+};
+
+const emptyForm: OrganizationFormData = {
+  code: "",
+  name: "",
+  startsOn: "",
+  endsOn: "",
+  participantCap: "",
+};
+
+const getStatus = (organization: Organization) => {
+  const today = new Date().toISOString().slice(0, 10);
+  if (organization.startsOn && today < organization.startsOn) return "Scheduled";
+  if (organization.endsOn && today > organization.endsOn) return "Ended";
+  if (organization.participantCap != null && organization.submissionCount >= organization.participantCap) return "Full";
+  return "Active";
+};
+
+const OrganizationManager = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canEdit = hasRole(user, "editor");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingOrganization, setEditingOrganization] = useState<Organization | null>(null);
+  const [formData, setFormData] = useState<OrganizationFormData>(emptyForm);
+
+  // Fetch all organizations
+  const { data: organizations = [], isLoading } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+    throwOnError: false,
+  });
+
+  // Create or update an organization
+  const saveMutation = useMutation({
+    mutationFn: async (organization: OrganizationFormData) => {
+      const body = {
+        code: organization.code,
+        name: organization.name,
+        startsOn: organization.startsOn || null,
+        endsOn: organization.endsOn || null,
+        participantCap: organization.participantCap ? parseInt(organization.participantCap) : null,
+      };
+      return editingOrganization
+        ? apiRequest("PUT", `/api/organizations/${editingOrganization.id}`, body)
+        : apiRequest("POST", "/api/organizations", body);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: editingOrganization
+          ? "Organization updated successfully"
+          : "Organization created successfully",
+      });
+      setIsDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.includes("already exists")
+          ? "An organization with this company code already exists"
+          : error.message.includes("End date")
+            ? "End date must be on or after the start date"
+            : "Failed to save organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Delete an organization
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/organizations/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Organization deleted successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingOrganization(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (organization: Organization) => {
+    setEditingOrganization(organization);
+    setFormData({
+      code: organization.code,
+      name: organization.name,
+      startsOn: organization.startsOn || "",
+      endsOn: organization.endsOn || "",
+      participantCap: organization.participantCap?.toString() || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(formData);
+  };
+
+  const handleDelete = (organization: Organization) => {
+    if (
+      window.confirm(
+        `Are you sure you want to delete ${organization.name}? Existing submissions keep their company code.`
+      )
+    ) {
+      deleteMutation.mutate(organization.id);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            Organizations
+          </CardTitle>
+          <CardDescription>
+            Company codes participants can enter when submitting their results.
+          </CardDescription>
+        </div>
+        {canEdit && (
+          <Button size="sm" onClick={openCreateDialog}>
+            <PlusIcon className="h-4 w-4" />
+            Add Organization
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse h-10 bg-slate-100 rounded" />
+        ) : organizations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No organizations have been created yet.</p>
+        ) : (
+          <div className="divide-y">
+            {organizations.map((organization) => (
+              <div
+                key={organization.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3"
+              >
+                <div>
+                  <div className="font-medium flex items-center gap-2">
+                    {organization.name}
+                    <Badge variant={getStatus(organization) === "Active" ? "default" : "secondary"}>
+                      {getStatus(organization)}
+                    </Badge>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    <span className="font-mono">{organization.code}</span>
+                    {" · "}
+                    {organization.submissionCount}
+                    {organization.participantCap != null && ` / ${organization.participantCap}`} participants
+                    {(organization.startsOn || organization.endsOn) &&
+                      ` · ${organization.startsOn || "…"} to ${organization.endsOn || "…"}`}
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openEditDialog(organization)}>
+                      <PencilIcon className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleDelete(organization)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <TrashIcon className="h-4 w-4 mr-1" />
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Add / Edit Organization Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingOrganization ? "Edit Organization" : "Add New Organization"}</DialogTitle>
+            <DialogDescription>
+              Codes are case-insensitive, so participants can type them however they like.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label htmlFor="organization-name" className="text-sm font-medium">
+                    Display Name
+                  </label>
+                  <Input
+                    id="organization-name"
+                    name="name"
+                    placeholder="e.g., Acme Corporation"
+                    value={formData.name}
+                    onChange={handleInputChange}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="organization-code" className="text-sm font-medium">
+                    Company Code
+                  </label>
+                  <Input
+                    id="organization-code"
+                    name="code"
+                    placeholder="e.g., ACME"
+                    value={formData.code}
+                    onChange={handleInputChange}
+                    className="uppercase"
+                    required
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label htmlFor="organization-starts-on" className="text-sm font-medium">
+                    Start Date
+                  </label>
+                  <Input
+                    id="organization-starts-on"
+                    name="startsOn"
+                    type="date"
+                    value={formData.startsOn}
+                    onChange={handleInputChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="organization-ends-on" className="text-sm font-medium">
+                    End Date
+                  </label>
+                  <Input
+                    id="organization-ends-on"
+                    name="endsOn"
+                    type="date"
+                    value={formData.endsOn}
+                    onChange={handleInputChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="organization-cap" className="text-sm font-medium">
+                    Participant Cap
+                  </label>
+                  <Input
+                    id="organization-cap"
+                    name="participantCap"
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    value={formData.participantCap}
+                    onChange={handleInputChange}
+                  />
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending
+                  ? "Saving..."
+                  : editingOrganization
+                    ? "Save Changes"
+                    : "Add Organization"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default OrganizationManager;
@@ -0,0 +1,264 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { TwoFactorSetup, TwoFactorStatus } from "@/types";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Copy, ShieldCheck } from "lucide-react";
+import { useState } from "react";
+
+// What the card is asking for a code for, if anything
+type PendingAction = "enable" | "regenerate" | "disable" | null;
+
+const CodeInput = ({ value, onChange }: { value: string; onChange: (value: string) => void }) => (
+  <InputOTP maxLength={6} value={value} onChange={onChange} autoFocus>
+    <InputOTPGroup>
+      {Array.from({ length: 6 }, (_, index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+const TwoFactorSettings = () => {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+    throwOnError: false,
+  });
+
+  const onChanged = () => {
+    setPendingAction(null);
+    setCode("");
+    queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  };
+
+  const onInvalidCode = () => {
+    setCode("");
+    toast({
+      title: "Error",
+      description: "That code didn't work. Check your authenticator app and try again.",
+      variant: "destructive",
+    });
+  };
+
+  // Create a new secret and show its QR code
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/setup");
+      return (await res.json()) as TwoFactorSetup;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setRecoveryCodes(null);
+      setPendingAction("enable");
+      setCode("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to start two-factor setup",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Confirm the first code, which turns two-factor on
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/enable", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      onChanged();
+      toast({
+        title: "Success!",
+        description: "Two-factor authentication is now on",
+      });
+    },
+    onError: onInvalidCode,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/recovery-codes", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      onChanged();
+    },
+    onError: onInvalidCode,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", "/api/user/two-factor", { code });
+    },
+    onSuccess: () => {
+      setRecoveryCodes(null);
+      onChanged();
+      toast({
+        title: "Success!",
+        description: "Two-factor authentication is now off",
+      });
+    },
+    onError: onInvalidCode,
+  });
+
+  const handleConfirm = () => {
+    if (pendingAction === "enable") enableMutation.mutate();
+    if (pendingAction === "regenerate") regenerateMutation.mutate();
+    if (pendingAction === "disable") disableMutation.mutate();
+  };
+
+  const handleCopyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast({
+        title: "Codes Copied",
+        description: "Keep them somewhere safe, like a password manager.",
+      });
+    } catch (error) {
+      console.error("Error copying recovery codes:", error);
+    }
+  };
+
+  const isConfirming = enableMutation.isPending || regenerateMutation.isPending || disableMutation.isPending;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge>On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {status?.required && !status.enabled
+            ? "An owner requires two-factor authentication. Set it up to continue using the admin portal."
+            : "Sign in with a code from an authenticator app as well as your password"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="animate-pulse h-10 bg-slate-100 rounded" />
+        ) : (
+          <>
+            {recoveryCodes && (
+              <div className="rounded-md border p-4 space-y-3">
+                <p className="text-sm font-medium">
+                  Save these recovery codes. Each one signs you in once if you lose your phone, and they won't be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <div key={recoveryCode}>{recoveryCode}</div>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={handleCopyRecoveryCodes}>
+                    <Copy className="h-4 w-4" />
+                    Copy Codes
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+                    I've Saved Them
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {setup && pendingAction === "enable" && (
+              <div className="flex flex-col sm:flex-row gap-6 items-start">
+                <img src={setup.qrCode} alt="Two-factor QR code" className="w-40 h-40 border rounded-md" />
+                <div className="space-y-2 text-sm">
+                  <p>Scan the QR code with an authenticator app, then enter the 6-digit code it shows.</p>
+                  <p className="text-muted-foreground">
+                    Can't scan it? Enter this key instead:
+                    <code className="block mt-1 break-all">{setup.secret}</code>
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {pendingAction ? (
+              <div className="space-y-4">
+                {pendingAction !== "enable" && (
+                  <p className="text-sm">Enter the 6-digit code from your authenticator app to continue.</p>
+                )}
+                <CodeInput value={code} onChange={setCode} />
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant={pendingAction === "disable" ? "destructive" : "default"}
+                    onClick={handleConfirm}
+                    disabled={code.length !== 6 || isConfirming}
+                  >
+                    {pendingAction === "enable"
+                      ? "Turn On"
+                      : pendingAction === "regenerate"
+                        ? "Generate New Codes"
+                        : "Turn Off"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      setPendingAction(null);
+                      setSetup(null);
+                      setCode("");
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : status?.enabled ? (
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  {status.recoveryCodesRemaining} of 10 recovery codes left
+                </p>
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={() => setPendingAction("regenerate")}>
+                    New Recovery Codes
+                  </Button>
+                  {!status.required && (
+                    <Button type="button" variant="destructive" size="sm" onClick={() => setPendingAction("disable")}>
+                      Turn Off
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <Button type="button" onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+                {setupMutation.isPending ? "Starting..." : "Set Up Two-Factor"}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
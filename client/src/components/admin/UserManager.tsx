@@ -0,0 +1,476 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AdminUser, SecuritySettings, UserInvite, UserRole } from "@/types";
+import { canManageRole, hasRole, userRoles } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Copy, LogOut, ShieldOff, TrashIcon, UserPlus, Users } from "lucide-react";
+import { useState } from "react";
+
+const roleDescriptions: Record<UserRole, string> = {
+  viewer: "Can view values, submissions and reports",
+  editor: "Can also manage values, decks, organizations and email templates",
+  admin: "Can also export submissions and manage editors and viewers",
+  owner: "Full access, including managing admins and owners",
+};
+
+const getInviteStatus = (invite: UserInvite) => {
+  if (invite.acceptedAt) return "Accepted";
+  if (new Date(invite.expiresAt) <= new Date()) return "Expired";
+  return "Pending";
+};
+
+const UserManager = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const [inviteRole, setInviteRole] = useState<UserRole>("viewer");
+  const [inviteNote, setInviteNote] = useState("");
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+
+  const manageableRoles = userRoles.filter((role) => canManageRole(user, role));
+
+  // Fetch users and invites
+  const { data: users = [], isLoading } = useQuery<AdminUser[]>({
+    queryKey: ["/api/users"],
+    throwOnError: false,
+  });
+
+  const { data: invites = [] } = useQuery<UserInvite[]>({
+    queryKey: ["/api/invites"],
+    throwOnError: false,
+  });
+
+  const { data: securitySettings } = useQuery<SecuritySettings>({
+    queryKey: ["/api/settings/security"],
+    throwOnError: false,
+  });
+
+  const pendingInvites = invites.filter((invite) => getInviteStatus(invite) === "Pending");
+
+  // Change a user's role
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: UserRole }) => {
+      return apiRequest("PUT", `/api/users/${id}/role`, { role });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "User role updated successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update user role",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Remove a user
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/users/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "User removed successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Sign a user out of every session
+  const signOutMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/users/${id}/sessions`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "User signed out of all sessions",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to sign out user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Clear two-factor for a user who has lost their phone and recovery codes
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/users/${id}/two-factor`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Two-factor reset. The user can set it up again next time they log in.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reset two-factor",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Owners can require two-factor for every admin
+  const securityMutation = useMutation({
+    mutationFn: async (settings: SecuritySettings) => {
+      return apiRequest("PUT", "/api/settings/security", settings);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Security settings updated successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/security"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.includes("your own account first")
+          ? "Turn on two-factor for your own account first"
+          : "Failed to update security settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Create an invite and show its link once
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/invites", {
+        role: inviteRole,
+        note: inviteNote.trim() || null,
+      });
+      return (await res.json()) as { token: string };
+    },
+    onSuccess: ({ token }) => {
+      setInviteLink(`${window.location.origin}/login?invite=${token}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/invites"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create invite",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Revoke a pending invite
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/invites/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Invite revoked successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/invites"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke invite",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openInviteDialog = () => {
+    setInviteRole("viewer");
+    setInviteNote("");
+    setInviteLink(null);
+    setIsInviteDialogOpen(true);
+  };
+
+  const handleCopyInviteLink = async () => {
+    if (!inviteLink) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      toast({
+        title: "Link Copied",
+        description: "Send it to the person you're inviting. It works once and expires in 7 days.",
+      });
+    } catch (error) {
+      console.error("Error copying invite link:", error);
+    }
+  };
+
+  const handleResetTwoFactor = (target: AdminUser) => {
+    if (window.confirm(`Reset two-factor for ${target.username}? They will be signed out and can log in with just their password.`)) {
+      resetTwoFactorMutation.mutate(target.id);
+    }
+  };
+
+  const handleDelete = (target: AdminUser) => {
+    if (window.confirm(`Are you sure you want to remove ${target.username}? They will no longer be able to log in.`)) {
+      deleteMutation.mutate(target.id);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Users
+          </CardTitle>
+          <CardDescription>
+            New users can only register with an invite link.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openInviteDialog}>
+          <UserPlus className="h-4 w-4" />
+          Invite User
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {hasRole(user, "owner") && (
+          <div className="flex items-center justify-between gap-4 rounded-md border p-3 mb-4">
+            <div>
+              <label htmlFor="require-two-factor" className="text-sm font-medium">
+                Require two-factor authentication
+              </label>
+              <p className="text-sm text-muted-foreground">
+                Admins without it must set it up before they can use the admin portal
+              </p>
+            </div>
+            <Switch
+              id="require-two-factor"
+              checked={securitySettings?.requireTwoFactor ?? false}
+              onCheckedChange={(requireTwoFactor) => securityMutation.mutate({ requireTwoFactor })}
+              disabled={!securitySettings || securityMutation.isPending}
+            />
+          </div>
+        )}
+        {isLoading ? (
+          <div className="animate-pulse h-10 bg-slate-100 rounded" />
+        ) : (
+          <div className="divide-y">
+            {users.map((target) => {
+              const canManage = target.id !== user?.id && canManageRole(user, target.role);
+              return (
+                <div key={target.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3">
+                  <div>
+                    <div className="font-medium flex items-center gap-2">
+                      <span>
+                        {target.username}
+                        {target.id === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                      </span>
+                      {target.totpEnabledAt && <Badge variant="outline">2FA</Badge>}
+                    </div>
+                    <div className="text-sm text-muted-foreground">{roleDescriptions[target.role]}</div>
+                  </div>
+                  <div className="flex gap-2 items-center">
+                    {canManage ? (
+                      <>
+                        <Select
+                          value={target.role}
+                          onValueChange={(role) => roleMutation.mutate({ id: target.id, role: role as UserRole })}
+                          disabled={roleMutation.isPending}
+                        >
+                          <SelectTrigger className="w-[120px] h-9">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {manageableRoles.map((role) => (
+                              <SelectItem key={role} value={role} className="capitalize">
+                                {role}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {target.totpEnabledAt && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleResetTwoFactor(target)}
+                            disabled={resetTwoFactorMutation.isPending}
+                            title="Reset two-factor authentication"
+                          >
+                            <ShieldOff className="h-4 w-4 mr-1" />
+                            Reset 2FA
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => signOutMutation.mutate(target.id)}
+                          disabled={signOutMutation.isPending}
+                          title="Sign out of all sessions"
+                        >
+                          <LogOut className="h-4 w-4 mr-1" />
+                          Sign Out
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleDelete(target)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <TrashIcon className="h-4 w-4 mr-1" />
+                          Remove
+                        </Button>
+                      </>
+                    ) : (
+                      <Badge variant="secondary" className="capitalize">{target.role}</Badge>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            {pendingInvites.map((invite) => (
+              <div key={`invite-${invite.id}`} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3">
+                <div>
+                  <div className="font-medium flex items-center gap-2">
+                    {invite.note || "Invited user"}
+                    <Badge variant="outline">Invite pending</Badge>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    <span className="capitalize">{invite.role}</span> · expires{" "}
+                    {new Date(invite.expiresAt).toLocaleDateString()}
+                  </div>
+                </div>
+                {canManageRole(user, invite.role) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(invite.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Invite Dialog */}
+      <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              Invite links work once and expire after 7 days.
+            </DialogDescription>
+          </DialogHeader>
+          {inviteLink ? (
+            <div className="space-y-4 py-4">
+              <p className="text-sm">
+                Copy this link now and send it to the person you're inviting. It won't be shown again.
+              </p>
+              <div className="flex gap-2">
+                <Input value={inviteLink} readOnly className="font-mono text-xs" />
+                <Button type="button" variant="outline" onClick={handleCopyInviteLink}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <DialogFooter>
+                <Button type="button" onClick={() => setIsInviteDialogOpen(false)}>
+                  Done
+                </Button>
+              </DialogFooter>
+            </div>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                inviteMutation.mutate();
+              }}
+            >
+              <div className="space-y-4 py-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Role</label>
+                  <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as UserRole)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {manageableRoles.map((role) => (
+                        <SelectItem key={role} value={role} className="capitalize">
+                          {role}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">{roleDescriptions[inviteRole]}</p>
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="invite-note" className="text-sm font-medium">
+                    Who is this for? (Optional)
+                  </label>
+                  <Input
+                    id="invite-note"
+                    placeholder="e.g., Jane from the facilitation team"
+                    value={inviteNote}
+                    onChange={(e) => setInviteNote(e.target.value)}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsInviteDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={inviteMutation.isPending}>
+                  {inviteMutation.isPending ? "Creating..." : "Create Invite Link"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default UserManager;
@@ -0,0 +1,150 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { LeadershipValue } from "@/types";
+import { useMutation } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, GripVertical, ListOrdered } from "lucide-react";
+import { useState } from "react";
+
+interface ValueOrderDialogProps {
+  leadershipValues: LeadershipValue[]; // Active values, in their current order
+}
+
+const move = <T,>(items: T[], from: number, to: number): T[] => {
+  const result = [...items];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+};
+
+/**
+ * Sets the order participants are dealt the cards in, by dragging values into place
+ */
+const ValueOrderDialog = ({ leadershipValues }: ValueOrderDialogProps) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [order, setOrder] = useState<LeadershipValue[]>([]);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: LeadershipValue[]) => {
+      return apiRequest("PUT", "/api/leadership-values/order", {
+        valueIds: values.map((value) => value.id),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Card order saved",
+      });
+      setIsOpen(false);
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/leadership-values"),
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save the card order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) setOrder(leadershipValues);
+    setIsOpen(open);
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (draggedIndex === null || draggedIndex === index) return;
+    setOrder((prev) => move(prev, draggedIndex, index));
+    setDraggedIndex(index);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={leadershipValues.length < 2}>
+          <ListOrdered className="h-4 w-4" />
+          Card Order
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Card Order</DialogTitle>
+          <DialogDescription>
+            Drag values into the order participants should see them, first card at the top.
+            Decks use the same order unless they're set to shuffle.
+          </DialogDescription>
+        </DialogHeader>
+        <ol className="max-h-[60vh] overflow-y-auto border rounded-md divide-y">
+          {order.map((value, index) => (
+            <li
+              key={value.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move";
+                setDraggedIndex(index);
+              }}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDragEnd={() => setDraggedIndex(null)}
+              className={cn(
+                "flex items-center gap-2 px-2 py-1.5 text-sm bg-white cursor-grab",
+                draggedIndex === index && "opacity-50"
+              )}
+            >
+              <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+              <span className="w-6 text-right text-muted-foreground">{index + 1}</span>
+              <span className="flex-1 font-medium">{value.value}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label={`Move ${value.value} up`}
+                disabled={index === 0}
+                onClick={() => setOrder((prev) => move(prev, index, index - 1))}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label={`Move ${value.value} down`}
+                disabled={index === order.length - 1}
+                onClick={() => setOrder((prev) => move(prev, index, index + 1))}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate(order)} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Order"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ValueOrderDialog;
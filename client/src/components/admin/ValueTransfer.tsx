@@ -0,0 +1,275 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ValueImportPreview, ValueImportResult } from "@/types";
+import { hasRole, type ValueTransferFormat } from "@shared/schema";
+import { useMutation } from "@tanstack/react-query";
+import { Download, Upload } from "lucide-react";
+import { useState } from "react";
+
+type ImportFile = { name: string; format: ValueTransferFormat; content: string };
+
+const EXPORT_FORMATS: { value: ValueTransferFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "json", label: "JSON" },
+];
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Export and import buttons for editing leadership values in bulk, e.g. in a spreadsheet
+ */
+const ValueTransfer = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canEdit = hasRole(user, "editor");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [importFile, setImportFile] = useState<ImportFile | null>(null);
+
+  const handleExport = async (format: ValueTransferFormat) => {
+    try {
+      const response = await apiRequest("GET", `/api/leadership-values/export?format=${format}`);
+      const blob = await response.blob();
+      const downloadUrl = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = downloadUrl;
+      link.download = `leadership-values.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(downloadUrl);
+    } catch (error) {
+      console.error("Export error:", error);
+      toast({
+        title: "Export Failed",
+        description: "Could not export leadership values. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (file: ImportFile) => {
+      const res = await apiRequest("POST", "/api/leadership-values/import/preview", {
+        format: file.format,
+        content: file.content,
+      });
+      return (await res.json()) as ValueImportPreview;
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not read this file. Please check it and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: ImportFile) => {
+      const res = await apiRequest("POST", "/api/leadership-values/import", {
+        format: file.format,
+        content: file.content,
+      });
+      return (await res.json()).data as ValueImportResult;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Import Complete",
+        description: `${plural(result.created, "value")} added and ${plural(result.changed, "value")} updated.`,
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/leadership-values"),
+      });
+      closeDialog();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Nothing was imported. The values may have changed since the preview; try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const selected: ImportFile = {
+      name: file.name,
+      format: file.name.toLowerCase().endsWith(".json") ? "json" : "csv",
+      content: await file.text(),
+    };
+    setImportFile(selected);
+    previewMutation.mutate(selected);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setImportFile(null);
+    previewMutation.reset();
+  };
+
+  const preview = previewMutation.data;
+  const changeCount = preview ? preview.created.length + preview.changed.length : 0;
+  const canImport = !!importFile && !!preview && preview.errors.length === 0 && changeCount > 0;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Download className="h-4 w-4" />
+            Export Values
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {EXPORT_FORMATS.map((format) => (
+            <DropdownMenuItem key={format.value} onClick={() => handleExport(format.value)}>
+              {format.label}
+              <span className="ml-auto pl-4 text-xs text-muted-foreground">.{format.value}</span>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {canEdit && (
+        <Button variant="outline" size="sm" onClick={() => setIsDialogOpen(true)}>
+          <Upload className="h-4 w-4" />
+          Import Values
+        </Button>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Leadership Values</DialogTitle>
+            <DialogDescription>
+              Upload a CSV or JSON file with "Value" and "Description" columns, like the export.
+              Rows with an ID update that value; other rows update the value with the same name
+              or add a new one.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} />
+
+          {previewMutation.isPending && <div className="animate-pulse h-24 bg-slate-100 rounded" />}
+
+          {preview && (
+            <div className="space-y-4 max-h-[50vh] overflow-y-auto text-sm">
+              <div className="flex flex-wrap gap-2">
+                <Badge>{plural(preview.created.length, "new value")}</Badge>
+                <Badge variant="secondary">{preview.changed.length} changed</Badge>
+                <Badge variant="outline">{preview.unchanged} unchanged</Badge>
+                {preview.duplicates.length > 0 && (
+                  <Badge variant="outline">{plural(preview.duplicates.length, "duplicate")} skipped</Badge>
+                )}
+                {preview.errors.length > 0 && (
+                  <Badge variant="destructive">{plural(preview.errors.length, "error")}</Badge>
+                )}
+              </div>
+
+              {preview.errors.length > 0 && (
+                <div>
+                  <h4 className="font-medium text-destructive mb-1">Fix these before importing</h4>
+                  <ul className="space-y-1">
+                    {preview.errors.map((error, index) => (
+                      <li key={index}>
+                        {error.row !== null && <span className="text-muted-foreground">Row {error.row}: </span>}
+                        {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {preview.created.length > 0 && (
+                <div>
+                  <h4 className="font-medium mb-1">New</h4>
+                  <ul className="space-y-1">
+                    {preview.created.map((value) => (
+                      <li key={value.row}>
+                        <span className="font-medium">{value.value}</span>
+                        <span className="text-muted-foreground"> · {value.description}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {preview.changed.length > 0 && (
+                <div>
+                  <h4 className="font-medium mb-1">Changed</h4>
+                  <ul className="space-y-2">
+                    {preview.changed.map((change) => (
+                      <li key={change.row}>
+                        <div className="font-medium">
+                          {change.before.value !== change.after.value
+                            ? `${change.before.value} → ${change.after.value}`
+                            : change.after.value}
+                        </div>
+                        {change.before.description !== change.after.description && (
+                          <div className="text-muted-foreground">
+                            <span className="line-through">{change.before.description}</span>
+                            <br />
+                            {change.after.description}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {preview.duplicates.length > 0 && (
+                <div>
+                  <h4 className="font-medium mb-1">Duplicates (skipped)</h4>
+                  <ul className="space-y-1">
+                    {preview.duplicates.map((duplicate) => (
+                      <li key={duplicate.row}>
+                        Row {duplicate.row}: "{duplicate.value}" is already on row {duplicate.firstRow}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => importFile && importMutation.mutate(importFile)}
+              disabled={!canImport || importMutation.isPending}
+            >
+              {importMutation.isPending ? "Importing..." : `Import ${plural(changeCount, "change")}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ValueTransfer;
@@ -0,0 +1,39 @@
+import { ValueComparison } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface ValueChangesProps {
+  comparison: ValueComparison;
+  className?: string;
+}
+
+const columns = [
+  { key: 'kept', title: 'Kept', empty: 'None kept', chip: 'bg-green-50 text-green-800 border-green-200' },
+  { key: 'dropped', title: 'Dropped', empty: 'None dropped', chip: 'bg-slate-50 text-slate-500 border-slate-200 line-through' },
+  { key: 'added', title: 'Added', empty: 'None added', chip: 'bg-blue-50 text-blue-800 border-blue-200' },
+] as const;
+
+// Which core values were kept, dropped or added since a previous submission
+const ValueChanges = ({ comparison, className }: ValueChangesProps) => (
+  <div className={cn("grid grid-cols-1 sm:grid-cols-3 gap-4", className)}>
+    {columns.map((column) => (
+      <div key={column.key}>
+        <h4 className="text-sm font-medium mb-2">
+          {column.title} ({comparison[column.key].length})
+        </h4>
+        {comparison[column.key].length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">{column.empty}</p>
+        ) : (
+          <ul className="space-y-1">
+            {comparison[column.key].map((value) => (
+              <li key={value} className={cn("text-sm border rounded px-2 py-1", column.chip)}>
+                {value}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default ValueChanges;
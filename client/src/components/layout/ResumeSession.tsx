@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { getResumeUrl } from "@/hooks/use-exercise-session";
+import { Link2, Smartphone } from "lucide-react";
+
+interface ResumeSessionProps {
+  resumeCode: string | null;
+}
+
+const ResumeSession = ({ resumeCode }: ResumeSessionProps) => {
+  const { toast } = useToast();
+  const [isEnteringCode, setIsEnteringCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const handleCopyLink = async () => {
+    if (!resumeCode) return;
+
+    try {
+      await navigator.clipboard.writeText(getResumeUrl(resumeCode));
+      toast({
+        title: "Link Copied",
+        description: "Open this link on another device to continue where you left off.",
+      });
+    } catch (error) {
+      console.error("Error copying resume link:", error);
+      toast({
+        title: "Copy Failed",
+        description: `Your resume code is ${resumeCode}.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResume = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    // Reload so every step picks up the resumed state
+    window.location.assign(getResumeUrl(code.trim().toUpperCase()));
+  };
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm text-muted-foreground">
+      <div className="flex items-center gap-2">
+        <Smartphone className="h-4 w-4" />
+        {resumeCode ? (
+          <span>
+            Switching devices? Your resume code is{" "}
+            <span className="font-mono font-semibold text-primary">{resumeCode}</span>
+          </span>
+        ) : (
+          <span>Your progress is saved as you go.</span>
+        )}
+        {resumeCode && (
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={handleCopyLink}>
+            <Link2 className="h-4 w-4" />
+            Copy link
+          </Button>
+        )}
+      </div>
+
+      {isEnteringCode ? (
+        <form onSubmit={handleResume} className="flex gap-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Resume code"
+            className="h-8 w-36 font-mono uppercase"
+            autoFocus
+          />
+          <Button type="submit" size="sm" variant="outline" className="h-8">
+            Resume
+          </Button>
+        </form>
+      ) : (
+        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setIsEnteringCode(true)}>
+          Have a resume code?
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ResumeSession;
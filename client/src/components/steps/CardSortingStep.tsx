@@ -8,9 +8,10 @@ import { DndContext } from '@/hooks/use-draggable';
 interface CardSortingStepProps {
   leadershipValues: LeadershipValue[];
   onComplete: (sortedValues: SortedValues) => void;
+  onProgress?: (sortedValues: SortedValues) => void;
 }
 
-const CardSortingStep = ({ leadershipValues, onComplete }: CardSortingStepProps) => {
+const CardSortingStep = ({ leadershipValues, onComplete, onProgress }: CardSortingStepProps) => {
   const [sortedValues, setSortedValues] = useState<SortedValues>(() => {
     // Try to load saved state from localStorage
     const savedState = localStorage.getItem('sortedValues');
@@ -64,6 +65,7 @@ const CardSortingStep = ({ leadershipValues, onComplete }: CardSortingStepProps)
     localStorage.removeItem('selectedTopValues');
     localStorage.removeItem('coreValues');
     localStorage.setItem('sortedValues', JSON.stringify(newSortedValues));
+    onProgress?.(newSortedValues);
   };
 
   const isAllCardsSorted = sortedValues['card-pile'].length === 0;
@@ -1,51 +1,43 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { LeadershipValue, UserInfo } from "@/types";
+import { LeadershipValue, SubmissionReceipt, UserInfo } from "@/types";
 import { CheckCircle, Download, ExternalLink } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
-import { generatePDF } from "@/lib/pdf-generator";
-import { extractFirstName } from "@/lib/utils";
+import { downloadSubmissionPdf } from "@/lib/pdf-download";
+import { useToast } from "@/hooks/use-toast";
+import { clearExerciseSession } from "@/hooks/use-exercise-session";
 
 interface CompletionStepProps {
   coreValues: LeadershipValue[];
   userInfo: UserInfo;
+  receipt: SubmissionReceipt;
 }
 
 // Redirect URL - This could be set from an environment variable or admin settings
 const REDIRECT_URL = import.meta.env.VITE_REDIRECT_URL || "https://example.com/leadership-consulting";
 const REDIRECT_TIMEOUT = 10; // seconds
 
-const CompletionStep = ({ coreValues, userInfo }: CompletionStepProps) => {
+const CompletionStep = ({ coreValues, userInfo, receipt }: CompletionStepProps) => {
+  const { toast } = useToast();
   const [countdown, setCountdown] = useState(REDIRECT_TIMEOUT);
   const [pdfDownloaded, setPdfDownloaded] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
 
-  const handleDownloadPDF = () => {
-    const pdfBase64 = generatePDF(coreValues, userInfo);
-    const firstName = extractFirstName(userInfo.name);
-    
-    // Convert base64 to binary data using browser APIs
-    const binary = atob(pdfBase64.split(',')[1]);
-    const array = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) {
-      array[i] = binary.charCodeAt(i);
+  const handleDownloadPDF = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadSubmissionPdf(receipt.submissionId, userInfo.name, receipt.pdfToken);
+    } catch (error) {
+      console.error("Failed to download PDF:", error);
+      toast({
+        title: "Download Failed",
+        description: "Could not download your PDF. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      setIsDownloading(false);
     }
-    
-    // Create a blob from the binary data
-    const blob = new Blob([array], { type: 'application/pdf' });
-    
-    // Create a URL for the blob
-    const url = URL.createObjectURL(blob);
-    
-    // Create a link element and trigger download
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${firstName}_Leadership_Values.pdf`;
-    document.body.appendChild(link);
-    link.click();
-    
-    // Clean up
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
 
     setPdfDownloaded(true);
 
@@ -57,6 +49,7 @@ const CompletionStep = ({ coreValues, userInfo }: CompletionStepProps) => {
       localStorage.removeItem("selectedValues");
       localStorage.removeItem("coreValues");
       localStorage.removeItem("userInfo");
+      clearExerciseSession();
     } catch (error) {
       console.error("Error clearing localStorage:", error);
     }
@@ -122,14 +115,24 @@ const CompletionStep = ({ coreValues, userInfo }: CompletionStepProps) => {
           </div>
         </div>
 
+        <div className="bg-muted/20 p-4 mb-4 rounded-md">
+          <h3 className="font-medium text-primary mb-2">
+            Compared With Your Previous Results
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Taken the assessment before? Your results email links to how your
+            core values have changed since last time.
+          </p>
+        </div>
+
         <div className="flex justify-center">
           <Button
             onClick={handleDownloadPDF}
             className="px-6 inline-flex items-center bg-blue-600 hover:bg-blue-500"
-            disabled={pdfDownloaded}
+            disabled={pdfDownloaded || isDownloading}
           >
             <Download className="h-5 w-5 mr-2" />
-            {pdfDownloaded ? "PDF Downloaded" : "Download PDF"}
+            {pdfDownloaded ? "PDF Downloaded" : isDownloading ? "Preparing PDF..." : "Download PDF"}
           </Button>
         </div>
       </div>
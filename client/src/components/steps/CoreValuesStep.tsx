@@ -8,10 +8,11 @@ import { DndContext } from '@/hooks/use-draggable';
 interface CoreValuesStepProps {
   selectedValues: SelectedValues;
   onComplete: (coreValues: SelectedValues) => void;
+  onProgress?: (coreValues: SelectedValues) => void;
   onBack: () => void;
 }
 
-const CoreValuesStep = ({ selectedValues, onComplete, onBack }: CoreValuesStepProps) => {
+const CoreValuesStep = ({ selectedValues, onComplete, onProgress, onBack }: CoreValuesStepProps) => {
   const [coreValues, setCoreValues] = useState<SelectedValues>(() => {
     // Try to load saved state from localStorage
     const savedState = localStorage.getItem('coreValues');
@@ -69,6 +70,7 @@ const CoreValuesStep = ({ selectedValues, onComplete, onBack }: CoreValuesStepPr
     ];
     
     setCoreValues(newCoreValues);
+    onProgress?.(newCoreValues);
   };
 
   const isExactlyFiveSelected = coreValues.core.length === 5;
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -14,26 +15,46 @@ import {
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import ValueCard from "@/components/card/ValueCard";
-import { LeadershipValue, SelectedValues, UserInfo } from "@/types";
+import {
+  LeadershipValue,
+  OrganizationCodeValidation,
+  SortedValues,
+  Submission,
+  SubmissionReceipt,
+  UserInfo,
+} from "@/types";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { generatePDF } from "@/lib/pdf-generator";
 import { sendPdfEmail } from "@/lib/email-service";
+import { CONSENT_VERSIONS, CURRENT_CONSENT_VERSION } from "@shared/schema";
+import { CheckCircle2, XCircle } from "lucide-react";
 
 const formSchema = z.object({
   name: z.string().min(2, { message: "Name must be at least 2 characters" }),
   email: z.string().email({ message: "Please enter a valid email address" }),
   companyCode: z.string().optional(),
+  resultsConsent: z.boolean().refine((checked) => checked, {
+    message: "Please agree so we can store and send your results",
+  }),
+  marketingOptIn: z.boolean(),
 });
 
+const consentText = CONSENT_VERSIONS[CURRENT_CONSENT_VERSION];
+
 interface SubmissionStepProps {
+  sortedValues: SortedValues;
+  topValues: LeadershipValue[];
   coreValues: LeadershipValue[];
-  onComplete: (userInfo: UserInfo) => void;
+  deckId: number | null;
+  onComplete: (userInfo: UserInfo, receipt: SubmissionReceipt) => void;
   onBack: () => void;
 }
 
 const SubmissionStep = ({
+  sortedValues,
+  topValues,
   coreValues,
+  deckId,
   onComplete,
   onBack,
 }: SubmissionStepProps) => {
@@ -46,35 +67,90 @@ const SubmissionStep = ({
       name: "",
       email: "",
       companyCode: "",
+      resultsConsent: false,
+      marketingOptIn: false,
     },
   });
 
+  // Validate the company code live as the participant types
+  const companyCode = form.watch("companyCode");
+  const [codeValidation, setCodeValidation] = useState<OrganizationCodeValidation | null>(null);
+  const [isCheckingCode, setIsCheckingCode] = useState(false);
+
+  useEffect(() => {
+    form.clearErrors("companyCode");
+    const code = companyCode?.trim();
+    if (!code) {
+      setCodeValidation(null);
+      setIsCheckingCode(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsCheckingCode(true);
+    const timer = setTimeout(async () => {
+      try {
+        const res = await apiRequest("GET", `/api/organizations/validate/${encodeURIComponent(code)}`);
+        const result: OrganizationCodeValidation = await res.json();
+        if (!cancelled) setCodeValidation(result);
+      } catch (error) {
+        console.error("Failed to validate company code:", error);
+        if (!cancelled) setCodeValidation(null);
+      } finally {
+        if (!cancelled) setIsCheckingCode(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [companyCode]);
+
   async function onSubmit(values: z.infer<typeof formSchema>) {
+    if (values.companyCode?.trim() && codeValidation && !codeValidation.valid) {
+      form.setError("companyCode", { message: codeValidation.message });
+      return;
+    }
+
     setIsSubmitting(true);
     try {
       // Submit data to backend
-      await apiRequest("POST", "/api/submissions", {
+      const res = await apiRequest("POST", "/api/submissions", {
         name: values.name,
         email: values.email,
         companyCode: values.companyCode || null,
+        deckId,
         coreValues: coreValues.map((value) => value.value),
+        sortingJourney: {
+          definitelyMe: sortedValues["definitely-me"].map((value) => value.id),
+          mostlyMe: sortedValues["mostly-me"].map((value) => value.id),
+          notMe: sortedValues["not-me"].map((value) => value.id),
+          top10: topValues.map((value) => value.id),
+          core: coreValues.map((value) => value.id),
+        },
+        consent: {
+          version: CURRENT_CONSENT_VERSION,
+          results: values.resultsConsent,
+          marketing: values.marketingOptIn,
+        },
       });
+      const {
+        data,
+        pdfToken,
+        emailToken,
+      }: { data: Submission; pdfToken: string; emailToken: string } = await res.json();
 
-      const pdfBase64 = generatePDF(coreValues, {
-        name: values.name,
-        email: values.email,
-      });
-
-      const emailResult = await sendPdfEmail(
-        pdfBase64,
-        {
-          name: values.name,
-          email: values.email,
-        },
-        coreValues
-      );
+      // The server renders the PDF from the stored submission
+      const emailResult = await sendPdfEmail(data.id, emailToken);
 
-      if (emailResult.success) {
+      if (emailResult.success && emailResult.queued) {
+        toast({
+          title: "Email Queued",
+          description: "We couldn't send your PDF just yet, but we'll keep trying for the next few hours.",
+          variant: "default",
+        });
+      } else if (emailResult.success) {
         toast({
           title: "Email Sent",
           description: "Your PDF has been sent to your email.",
@@ -93,6 +169,9 @@ const SubmissionStep = ({
         name: values.name,
         email: values.email,
         companyCode: values.companyCode,
+      }, {
+        submissionId: data.id,
+        pdfToken,
       });
     } catch (error) {
       console.error("Failed to submit:", error);
@@ -162,10 +241,54 @@ const SubmissionStep = ({
                         {...field} 
                       />
                     </FormControl>
+                    {!isCheckingCode && codeValidation && !form.formState.errors.companyCode && (
+                      <p
+                        className={`flex items-center gap-1 text-sm ${
+                          codeValidation.valid ? "text-green-600" : "text-destructive"
+                        }`}
+                      >
+                        {codeValidation.valid ? (
+                          <CheckCircle2 className="h-4 w-4" />
+                        ) : (
+                          <XCircle className="h-4 w-4" />
+                        )}
+                        {codeValidation.message}
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="resultsConsent"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 pt-2">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel className="font-normal">{consentText.results}</FormLabel>
+                      <FormMessage />
+                    </div>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="marketingOptIn"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel className="font-normal">{consentText.marketing}</FormLabel>
+                      <FormDescription>Optional</FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
             </form>
           </Form>
         </div>
@@ -203,7 +326,7 @@ const SubmissionStep = ({
         <Button
           type="submit"
           onClick={form.handleSubmit(onSubmit)}
-          disabled={isSubmitting}
+          disabled={isSubmitting || isCheckingCode}
           className="px-6 bg-blue-600 hover:bg-blue-500"
         >
           {isSubmitting ? "Submitting..." : "Generate My PDF"}
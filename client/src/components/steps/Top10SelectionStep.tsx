@@ -8,10 +8,11 @@ import { DndContext } from '@/hooks/use-draggable';
 interface Top10SelectionStepProps {
   sortedValues: SortedValues;
   onComplete: (selectedValues: SelectedValues) => void;
+  onProgress?: (selectedValues: SelectedValues) => void;
   onBack: () => void;
 }
 
-const Top10SelectionStep = ({ sortedValues, onComplete, onBack }: Top10SelectionStepProps) => {
+const Top10SelectionStep = ({ sortedValues, onComplete, onProgress, onBack }: Top10SelectionStepProps) => {
   // Combine definitely-me and mostly-me categories
   const availableValues = [...sortedValues['definitely-me'], ...sortedValues['mostly-me']];
 
@@ -75,6 +76,7 @@ const Top10SelectionStep = ({ sortedValues, onComplete, onBack }: Top10Selection
     localStorage.removeItem('coreValues');
 
     setSelectedValues(newSelectedValues);
+    onProgress?.(newSelectedValues);
   };
 
   const isExactlyTenSelected = selectedValues.selected.length === 10;
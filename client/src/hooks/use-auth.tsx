@@ -4,23 +4,37 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser } from "@shared/schema";
-import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { CurrentUser as SelectUser } from "@shared/schema";
+import {
+  getQueryFn,
+  apiRequest,
+  queryClient,
+  setAuthTokens,
+  clearAuthTokens,
+  getRefreshToken,
+  AuthTokens,
+} from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { z } from "zod";
 
-type AuthResponse = {
+type AuthResponse = AuthTokens & {
   user: SelectUser;
-  token: string;
+};
+
+// Returned by login instead of tokens when the account has two-factor turned on
+type TwoFactorChallenge = {
+  twoFactorRequired: true;
+  challengeToken: string;
 };
 
 type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<AuthResponse, Error, LoginData>;
+  loginMutation: UseMutationResult<AuthResponse | TwoFactorChallenge, Error, LoginData>;
+  twoFactorMutation: UseMutationResult<AuthResponse, Error, TwoFactorData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<AuthResponse, Error, LoginData>;
+  logoutAllMutation: UseMutationResult<void, Error, void>;
+  registerMutation: UseMutationResult<AuthResponse, Error, RegisterData>;
   checkAuth: () => void;
 };
 
@@ -29,6 +43,16 @@ type LoginData = {
   password: string;
 };
 
+type TwoFactorData = {
+  challengeToken: string;
+  code: string;
+};
+
+// Registration needs an invite token, except when creating the first account
+type RegisterData = LoginData & {
+  inviteToken?: string;
+};
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -41,42 +65,65 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   } = useQuery<SelectUser | null, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
-    enabled: !!localStorage.getItem('authToken'), // Only fetch if token exists
+    enabled: !!getRefreshToken(), // Only fetch if signed in
   });
 
-  const loginMutation = useMutation<AuthResponse, Error, LoginData>({
+  const onLoggedIn = (data: AuthResponse) => {
+    // Store tokens in localStorage
+    setAuthTokens(data);
+    queryClient.setQueryData(["/api/user"], data.user);
+    toast({
+      title: "Login successful",
+      description: "You are now logged in to the admin portal.",
+    });
+  };
+
+  const loginMutation = useMutation<AuthResponse | TwoFactorChallenge, Error, LoginData>({
     mutationFn: async (credentials: LoginData) => {
       const res = await apiRequest("POST", "/api/login", credentials);
       const data = await res.json();
       return data;
     },
-    onSuccess: (data: { user: SelectUser; token: string }) => {
-      // Store token in localStorage
-      localStorage.setItem('authToken', data.token);
-      queryClient.setQueryData(["/api/user"], data.user);
+    onSuccess: (data) => {
+      // The login page asks for the two-factor code next
+      if ("twoFactorRequired" in data) return;
+      onLoggedIn(data);
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Login successful",
-        description: "You are now logged in to the admin portal.",
+        title: "Login failed",
+        description: error.message.includes("Invalid") ? "Please check your credentials and try again." : error.message,
+        variant: "destructive",
       });
     },
+  });
+
+  const twoFactorMutation = useMutation<AuthResponse, Error, TwoFactorData>({
+    mutationFn: async (data: TwoFactorData) => {
+      const res = await apiRequest("POST", "/api/login/two-factor", data);
+      return res.json();
+    },
+    onSuccess: onLoggedIn,
     onError: (error: Error) => {
       toast({
         title: "Login failed",
-        description: error.message.includes("Invalid") ? "Please check your credentials and try again." : error.message,
+        description: error.message.startsWith("429")
+          ? "Too many attempts. Please try again later."
+          : "That code didn't work. Check it and try again.",
         variant: "destructive",
       });
     },
   });
 
-  const registerMutation = useMutation<AuthResponse, Error, LoginData>({
-    mutationFn: async (credentials: LoginData) => {
+  const registerMutation = useMutation<AuthResponse, Error, RegisterData>({
+    mutationFn: async (credentials: RegisterData) => {
       const res = await apiRequest("POST", "/api/register", credentials);
       const data = await res.json();
       return data;
     },
-    onSuccess: (data: { user: SelectUser; token: string }) => {
-      // Store token in localStorage
-      localStorage.setItem('authToken', data.token);
+    onSuccess: (data: AuthResponse) => {
+      // Store tokens in localStorage
+      setAuthTokens(data);
       queryClient.setQueryData(["/api/user"], data.user);
       toast({
         title: "Account created",
@@ -94,9 +141,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const logoutMutation = useMutation({
     mutationFn: async () => {
-      // Remove token from localStorage
-      localStorage.removeItem('authToken');
-      await apiRequest("POST", "/api/logout");
+      // Revoke the session on the server, then forget the tokens
+      const refreshToken = getRefreshToken();
+      clearAuthTokens();
+      await apiRequest("POST", "/api/logout", { refreshToken });
     },
     onSuccess: () => {
       queryClient.setQueryData(["/api/user"], null);
@@ -107,7 +155,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onError: (error: Error) => {
       // Even if logout fails on server, clear local state
-      localStorage.removeItem('authToken');
+      clearAuthTokens();
       queryClient.setQueryData(["/api/user"], null);
       toast({
         title: "Logged out",
@@ -116,6 +164,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  // Revoke every session for the current user, including this one
+  const logoutAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/users/${user!.id}/sessions`);
+      clearAuthTokens();
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/user"], null);
+      toast({
+        title: "Signed out everywhere",
+        description: "All of your sessions have been signed out.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not sign out your other sessions. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   return (
     <AuthContext.Provider
       value={{
@@ -123,7 +193,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorMutation,
         logoutMutation,
+        logoutAllMutation,
         registerMutation,
         checkAuth,
       }}
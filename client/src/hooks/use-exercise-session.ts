@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ExerciseSession, ExerciseSessionWithDeck, SelectedValues, SortedValues } from "@/types";
+
+const SESSION_CODE_KEY = "sessionCode";
+const RESUME_PARAM = "resume";
+const AUTOSAVE_DELAY = 1000; // ms
+
+export interface ExerciseSnapshot {
+  currentStep: number;
+  sortedValues: SortedValues | null;
+  selectedValues: SelectedValues | null;
+  coreValues: SelectedValues | null;
+  deckId: number | null;
+}
+
+/**
+ * Keeps the wizard state in a server-side exercise session so it can be
+ * resumed on another device, and hydrates from it when the page is opened
+ * with a `?resume=CODE` link.
+ */
+export function useExerciseSession(
+  snapshot: ExerciseSnapshot,
+  onHydrate: (session: ExerciseSessionWithDeck) => void
+) {
+  const { toast } = useToast();
+  const [resumeParam] = useState(() =>
+    new URLSearchParams(window.location.search).get(RESUME_PARAM)?.trim().toUpperCase() || null
+  );
+  const [resumeCode, setResumeCode] = useState<string | null>(() =>
+    resumeParam || localStorage.getItem(SESSION_CODE_KEY)
+  );
+  const [isHydrating, setIsHydrating] = useState(!!resumeParam);
+  const pendingSave = useRef<Promise<void>>(Promise.resolve());
+
+  // Hydrate from the server when a resume code is present in the URL
+  useEffect(() => {
+    if (!resumeParam) return;
+
+    const hydrate = async () => {
+      try {
+        const res = await apiRequest("GET", `/api/sessions/${encodeURIComponent(resumeParam)}`);
+        const session: ExerciseSessionWithDeck = await res.json();
+        onHydrate(session);
+        localStorage.setItem(SESSION_CODE_KEY, session.resumeCode);
+      } catch (error) {
+        console.error("Error resuming exercise session:", error);
+        setResumeCode(localStorage.getItem(SESSION_CODE_KEY));
+        toast({
+          title: "Session Not Found",
+          description:
+            error instanceof Error && error.message.startsWith("429")
+              ? "Too many attempts to resume a session. Please try again later."
+              : `We couldn't find a saved session for code "${resumeParam}".`,
+          variant: "destructive",
+        });
+      } finally {
+        // Drop the code from the address bar so a refresh doesn't re-hydrate over newer progress
+        const params = new URLSearchParams(window.location.search);
+        params.delete(RESUME_PARAM);
+        const search = params.toString();
+        window.history.replaceState(null, "", `${window.location.pathname}${search ? `?${search}` : ""}`);
+        setIsHydrating(false);
+      }
+    };
+
+    hydrate();
+  }, [resumeParam]);
+
+  // Autosave the wizard state once the participant has made some progress
+  useEffect(() => {
+    if (isHydrating || !snapshot.sortedValues) return;
+
+    const timer = setTimeout(() => {
+      // Chain saves so a session is never created twice
+      pendingSave.current = pendingSave.current.then(async () => {
+        try {
+          const code = resumeCode || localStorage.getItem(SESSION_CODE_KEY);
+          if (code) {
+            await apiRequest("PATCH", `/api/sessions/${encodeURIComponent(code)}`, snapshot);
+            return;
+          }
+
+          const res = await apiRequest("POST", "/api/sessions", snapshot);
+          const { data }: { data: ExerciseSession } = await res.json();
+          localStorage.setItem(SESSION_CODE_KEY, data.resumeCode);
+          setResumeCode(data.resumeCode);
+        } catch (error) {
+          console.error("Error saving exercise session:", error);
+          // The session may have expired or been removed; start a fresh one on the next save
+          if (error instanceof Error && error.message.startsWith("404")) {
+            localStorage.removeItem(SESSION_CODE_KEY);
+            setResumeCode(null);
+          }
+        }
+      });
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [
+    isHydrating,
+    resumeCode,
+    snapshot.currentStep,
+    snapshot.sortedValues,
+    snapshot.selectedValues,
+    snapshot.coreValues,
+    snapshot.deckId,
+  ]);
+
+  return { resumeCode, isHydrating };
+}
+
+/**
+ * Builds a link to the current page (keeping e.g. the deck) that resumes the given session.
+ */
+export function getResumeUrl(resumeCode: string) {
+  const url = new URL(window.location.href);
+  url.searchParams.set(RESUME_PARAM, resumeCode);
+  return url.toString();
+}
+
+export function clearExerciseSession() {
+  localStorage.removeItem(SESSION_CODE_KEY);
+}
@@ -1,13 +1,12 @@
-import { LeadershipValue, UserInfo } from "@/types";
-
 /**
- * Send email with PDF attachment to user and CC to john@leadershipvalues.com
+ * Ask the server to email the results PDF for a submission to the participant.
+ * The email token is returned when the submission is created and works once.
+ * `queued` is set when the first delivery attempt failed and the server will retry.
  */
 export const sendPdfEmail = async (
-  pdfBase64: string,
-  userInfo: UserInfo,
-  coreValues: LeadershipValue[]
-): Promise<{ success: boolean; error?: any }> => {
+  submissionId: number,
+  emailToken: string
+): Promise<{ success: boolean; queued?: boolean; error?: any }> => {
   try {
     const apiUrl = `${import.meta.env.VITE_SERVER_URL}/api/send-pdf-email`;
     
@@ -17,9 +16,8 @@ export const sendPdfEmail = async (
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        pdfBase64,
-        userInfo,
-        coreValues,
+        submissionId,
+        emailToken,
       }),
     });
     
@@ -30,9 +28,9 @@ export const sendPdfEmail = async (
       return { success: false, error: data.error };
     }
     
-    return { success: true };
+    return { success: true, queued: data.queued === true };
   } catch (error) {
     console.error('Failed to send email:', error);
     return { success: false, error };
   }
-}; 
\ No newline at end of file
+}; 
@@ -0,0 +1,46 @@
+import { apiRequest } from "@/lib/queryClient";
+import { extractFirstName } from "@/lib/utils";
+
+/**
+ * Downloads the server-rendered results PDF for a submission. Participants pass
+ * the token returned when they submitted; admins are authorised by their login.
+ */
+export const downloadSubmissionPdf = async (
+  submissionId: number,
+  name: string,
+  token?: string
+): Promise<void> => {
+  const query = token ? `?token=${encodeURIComponent(token)}` : "";
+  const res = await apiRequest("GET", `/api/submissions/${submissionId}/pdf${query}`);
+  const blob = await res.blob();
+
+  // Create a URL for the blob and trigger the download
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${extractFirstName(name)}_Leadership_Values.pdf`;
+  document.body.appendChild(link);
+  link.click();
+
+  // Clean up
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Downloads the server-rendered team values report for a company code
+ */
+export const downloadTeamReportPdf = async (companyCode: string): Promise<void> => {
+  const res = await apiRequest("GET", `/api/team-report/${encodeURIComponent(companyCode)}/pdf`);
+  const blob = await res.blob();
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${companyCode}_Team_Values_Report.pdf`;
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -23,6 +23,9 @@ export function ProtectedRoute({
         <div className="flex items-center justify-center min-h-screen">
           <Loader2 className="h-8 w-8 animate-spin text-primary" />
         </div>
+      ) : user?.twoFactorSetupRequired && path !== "/admin/account" ? (
+        // An owner requires two-factor; the account page is where it's set up
+        <Redirect to="/admin/account" />
       ) : user ? (
         <Component />
       ) : (
@@ -10,6 +10,86 @@ export function getApiUrl(path: string): string {
   return `${API_SERVER_URL}${normalizedPath}`;
 }
 
+const ACCESS_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+export type AuthTokens = {
+  token: string;
+  refreshToken: string;
+};
+
+export function getRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+export function setAuthTokens({ token, refreshToken }: AuthTokens) {
+  localStorage.setItem(ACCESS_TOKEN_KEY, token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+}
+
+export function clearAuthTokens() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+// Shared so that requests failing together wait on a single refresh
+let refreshPromise: Promise<boolean> | null = null;
+
+/**
+ * Swaps the stored refresh token for a new access token. On failure the
+ * session is over, so the stored tokens are cleared and the user is signed out.
+ */
+async function refreshAccessToken(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = getRefreshToken();
+      if (!refreshToken) return false;
+
+      const res = await fetch(getApiUrl('/api/token/refresh'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (res.ok) {
+        setAuthTokens(await res.json());
+        return true;
+      }
+
+      // Another tab may have rotated the token first; use its tokens instead of signing out
+      if (getRefreshToken() !== refreshToken) return true;
+
+      clearAuthTokens();
+      queryClient.setQueryData(["/api/user"], null);
+      return false;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+/**
+ * Fetches with the stored access token, refreshing it and retrying once if
+ * the server says it has expired.
+ */
+async function fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+    const headers: Record<string, string> = { ...(init.headers as Record<string, string>) };
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+    return fetch(url, { ...init, headers });
+  };
+
+  const res = await send();
+  if (res.status === 401 && getRefreshToken() && await refreshAccessToken()) {
+    return send();
+  }
+  return res;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -25,18 +105,12 @@ export async function apiRequest(
   // If the URL starts with /api, use the API server URL
   const fullUrl = url.startsWith('/api') ? getApiUrl(url) : url;
   
-  // Get token from localStorage
-  const token = localStorage.getItem('authToken');
-  
   const headers: Record<string, string> = {};
   if (data) {
     headers["Content-Type"] = "application/json";
   }
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
   
-  const res = await fetch(fullUrl, {
+  const res = await fetchWithAuth(fullUrl, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
@@ -56,17 +130,7 @@ export const getQueryFn: <T>(options: {
     // If the URL starts with /api, use the API server URL
     const fullUrl = urlPath.startsWith('/api') ? getApiUrl(urlPath) : urlPath;
     
-    // Get token from localStorage
-    const token = localStorage.getItem('authToken');
-    
-    const headers: Record<string, string> = {};
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`;
-    }
-    
-    const res = await fetch(fullUrl, {
-      headers,
-    });
+    const res = await fetchWithAuth(fullUrl);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
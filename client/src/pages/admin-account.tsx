@@ -0,0 +1,230 @@
+import AppLayout from "@/components/layout/AppLayout";
+import TwoFactorSettings from "@/components/admin/TwoFactorSettings";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { Link } from "wouter";
+import * as z from "zod";
+
+const emailSchema = z.object({
+  email: z.union([z.literal(""), z.string().trim().email("Please enter a valid email address")]),
+});
+
+const passwordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Current password is required"),
+    newPassword: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.newPassword === values.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+const AdminAccount = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const emailForm = useForm<z.infer<typeof emailSchema>>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: {
+      email: user?.email ?? "",
+    },
+  });
+
+  const passwordForm = useForm<z.infer<typeof passwordSchema>>({
+    resolver: zodResolver(passwordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  // Save the email address reset links are sent to
+  const emailMutation = useMutation({
+    mutationFn: async ({ email }: z.infer<typeof emailSchema>) => {
+      const res = await apiRequest("PUT", "/api/user/email", { email: email || null });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/user"], data.data);
+      toast({
+        title: "Success!",
+        description: "Email address updated successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409")
+          ? "This email address is already used by another account"
+          : "Failed to update email address",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Change the password; the server signs out every other session
+  const passwordMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: z.infer<typeof passwordSchema>) => {
+      return apiRequest("POST", "/api/user/password", { currentPassword, newPassword });
+    },
+    onSuccess: () => {
+      passwordForm.reset();
+      toast({
+        title: "Password changed",
+        description: "Your other sessions have been signed out.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.includes("incorrect")
+          ? "Your current password is incorrect"
+          : "Failed to change password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AppLayout>
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-6">
+          <div className="mb-4">
+            <Link href="/admin">
+                <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </div>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-primary">
+              Account
+            </h1>
+            <p className="text-muted-foreground">
+              {user?.username} · <span className="capitalize">{user?.role}</span>
+            </p>
+          </div>
+        </div>
+
+        <TwoFactorSettings />
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Email Address</CardTitle>
+            <CardDescription>
+              Used to send you a reset link if you forget your password
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...emailForm}>
+              <form
+                onSubmit={emailForm.handleSubmit((values) => emailMutation.mutate(values))}
+                className="flex flex-col sm:flex-row gap-4 sm:items-start"
+              >
+                <FormField
+                  control={emailForm.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input type="email" autoComplete="email" placeholder="you@example.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" disabled={emailMutation.isPending}>
+                  {emailMutation.isPending ? "Saving..." : "Save Email"}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Change Password</CardTitle>
+            <CardDescription>
+              Changing your password signs you out on every other device
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...passwordForm}>
+              <form
+                onSubmit={passwordForm.handleSubmit((values) => passwordMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <FormField
+                  control={passwordForm.control}
+                  name="currentPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Current Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="current-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={passwordForm.control}
+                  name="newPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={passwordForm.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" disabled={passwordMutation.isPending}>
+                  {passwordMutation.isPending ? "Changing..." : "Change Password"}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default AdminAccount;
@@ -0,0 +1,322 @@
+import AppLayout from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AnalyticsInterval,
+  AnalyticsSummary,
+  CompanyCodeBreakdown,
+  CoreValueFrequency,
+  Organization,
+  SubmissionVolume,
+} from "@/types";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react";
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Link } from "wouter";
+
+// Enough bars to cover a typical core value spread without the chart becoming unreadable
+const MAX_CHART_VALUES = 20;
+
+const coreValueChartConfig = {
+  count: { label: "Times chosen", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const volumeChartConfig = {
+  count: { label: "Submissions", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatPeriod = (period: string, interval: AnalyticsInterval) =>
+  new Date(`${period}T00:00:00`).toLocaleDateString("en-US",
+    interval === "month" ? { year: "numeric", month: "short" } : { month: "short", day: "numeric" }
+  );
+
+const AdminAnalytics = () => {
+  const [selectedCompanyCode, setSelectedCompanyCode] = useState<string>("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [volumeInterval, setVolumeInterval] = useState<AnalyticsInterval>("week");
+
+  const params = new URLSearchParams();
+  if (selectedCompanyCode !== "all") params.set("companyCode", selectedCompanyCode);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  const query = params.toString();
+
+  // Fetch organizations and company codes for the filter
+  const { data: organizations = [] } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+    throwOnError: false,
+  });
+
+  const { data: companyCodes = [] } = useQuery<string[]>({
+    queryKey: ["/api/submissions/company-codes"],
+    throwOnError: false,
+  });
+
+  // Free-text codes recorded before organizations existed
+  const legacyCompanyCodes = companyCodes.filter(
+    (code) => !organizations.some((organization) => organization.code === code)
+  );
+
+  // Fetch the aggregations for the current filters
+  const { data: summary } = useQuery<AnalyticsSummary>({
+    queryKey: [`/api/analytics/summary?${query}`],
+    throwOnError: false,
+  });
+
+  const { data: coreValues = [], isLoading: coreValuesLoading } = useQuery<CoreValueFrequency[]>({
+    queryKey: [`/api/analytics/core-values?${query}`],
+    throwOnError: false,
+  });
+
+  const { data: volume = [], isLoading: volumeLoading } = useQuery<SubmissionVolume[]>({
+    queryKey: [`/api/analytics/volume?${query}&interval=${volumeInterval}`],
+    throwOnError: false,
+  });
+
+  const { data: companyBreakdown = [] } = useQuery<CompanyCodeBreakdown[]>({
+    queryKey: [`/api/analytics/company-codes?${query}`],
+    throwOnError: false,
+  });
+
+  const getCompanyLabel = (companyCode: string | null) => {
+    if (!companyCode) return "No company code";
+    const organization = organizations.find((organization) => organization.code === companyCode);
+    return organization ? `${organization.name} (${companyCode})` : companyCode;
+  };
+
+  const chartedValues = coreValues.slice(0, MAX_CHART_VALUES);
+  const chartedVolume = volume.map((entry) => ({ ...entry, label: formatPeriod(entry.period, volumeInterval) }));
+
+  const clearFilters = () => {
+    setSelectedCompanyCode("all");
+    setFrom("");
+    setTo("");
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <div className="mb-4">
+            <Link href="/admin">
+                <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </div>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-primary">
+              Analytics
+            </h1>
+            <p className="text-muted-foreground">
+              Which values participants choose, and when they take the exercise
+            </p>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-end">
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Organization
+                </label>
+                <Select value={selectedCompanyCode} onValueChange={setSelectedCompanyCode}>
+                  <SelectTrigger className="w-full sm:w-[250px]">
+                    <SelectValue placeholder="Select organization" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Submissions</SelectItem>
+                    {organizations.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Organizations</SelectLabel>
+                        {organizations.map((organization) => (
+                          <SelectItem key={organization.id} value={organization.code}>
+                            {organization.name} ({organization.code})
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    {legacyCompanyCodes.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Other Company Codes</SelectLabel>
+                        {legacyCompanyCodes.map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {code}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label htmlFor="analytics-from" className="text-sm font-medium mb-2 block">
+                  From
+                </label>
+                <Input id="analytics-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div>
+                <label htmlFor="analytics-to" className="text-sm font-medium mb-2 block">
+                  To
+                </label>
+                <Input id="analytics-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+              <Button variant="outline" onClick={clearFilters}>
+                Clear
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Totals */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+          {[
+            { label: "Submissions", value: summary?.submissions },
+            { label: "Participants", value: summary?.participants },
+            { label: "Company Codes", value: summary?.companyCodes },
+          ].map((stat) => (
+            <Card key={stat.label}>
+              <CardContent className="pt-6">
+                <div className="text-sm text-muted-foreground">{stat.label}</div>
+                <div className="text-3xl font-bold">{stat.value ?? "–"}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Core value frequency */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Most Chosen Core Values</CardTitle>
+            <CardDescription>
+              How many participants chose each value as one of their core values
+              {coreValues.length > MAX_CHART_VALUES && ` (top ${MAX_CHART_VALUES} of ${coreValues.length})`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {coreValuesLoading ? (
+              <div className="animate-pulse h-64 bg-slate-100 rounded" />
+            ) : chartedValues.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No submissions match these filters.</p>
+            ) : (
+              <ChartContainer
+                config={coreValueChartConfig}
+                className="aspect-auto w-full"
+                style={{ height: Math.max(200, chartedValues.length * 28) }}
+              >
+                <BarChart data={chartedValues} layout="vertical" margin={{ left: 24 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} />
+                  <YAxis type="category" dataKey="value" width={140} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Volume over time */}
+        <Card className="mb-6">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>Submissions Over Time</CardTitle>
+              <CardDescription>Completed exercises per {volumeInterval}</CardDescription>
+            </div>
+            <Select value={volumeInterval} onValueChange={(value) => setVolumeInterval(value as AnalyticsInterval)}>
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Daily</SelectItem>
+                <SelectItem value="week">Weekly</SelectItem>
+                <SelectItem value="month">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {volumeLoading ? (
+              <div className="animate-pulse h-64 bg-slate-100 rounded" />
+            ) : chartedVolume.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No submissions match these filters.</p>
+            ) : (
+              <ChartContainer config={volumeChartConfig} className="aspect-auto h-[280px] w-full">
+                <BarChart data={chartedVolume}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Breakdown by company code */}
+        <Card>
+          <CardHeader>
+            <CardTitle>By Company Code</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead className="text-right">Submissions</TableHead>
+                  <TableHead className="text-right">Participants</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {companyBreakdown.map((entry) => (
+                  <TableRow key={entry.companyCode ?? ""}>
+                    <TableCell>{getCompanyLabel(entry.companyCode)}</TableCell>
+                    <TableCell className="text-right">{entry.submissions}</TableCell>
+                    <TableCell className="text-right">{entry.participants}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default AdminAnalytics;
@@ -0,0 +1,308 @@
+import AppLayout from "@/components/layout/AppLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AdminUser, AuditLogEntry, AuditLogPage } from "@/types";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, ChevronLeft, ChevronRight } from "lucide-react";
+import { useState } from "react";
+import { Link } from "wouter";
+
+// The kinds of record the server audits (see server/routes.ts)
+const TARGET_TYPES = [
+  { value: "leadership_value", label: "Leadership values" },
+  { value: "deck", label: "Decks" },
+  { value: "organization", label: "Organizations" },
+  { value: "email_template", label: "Email templates" },
+  { value: "email", label: "Emails" },
+  { value: "submission", label: "Submissions" },
+  { value: "participant", label: "Participant data requests" },
+  { value: "company_code", label: "Team reports" },
+  { value: "user", label: "Users and sign-ins" },
+  { value: "invite", label: "Invites" },
+  { value: "settings", label: "Settings" },
+];
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const formatSnapshot = (snapshot: unknown) =>
+  snapshot == null ? "—" : JSON.stringify(snapshot, null, 2);
+
+const AdminAudit = () => {
+  const [action, setAction] = useState("all");
+  const [targetType, setTargetType] = useState("all");
+  const [actorId, setActorId] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+
+  const params = new URLSearchParams({ page: String(page) });
+  if (action !== "all") params.set("action", action);
+  if (targetType !== "all") params.set("targetType", targetType);
+  if (actorId !== "all") params.set("actorId", actorId);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  const { data, isLoading } = useQuery<AuditLogPage>({
+    queryKey: [`/api/audit-log?${params.toString()}`],
+    throwOnError: false,
+  });
+
+  const { data: users = [] } = useQuery<AdminUser[]>({
+    queryKey: ["/api/users"],
+    throwOnError: false,
+  });
+
+  const entries = data?.entries ?? [];
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  // Any filter change starts again from the newest entries
+  const withFirstPage = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setAction("all");
+    setTargetType("all");
+    setActorId("all");
+    setFrom("");
+    setTo("");
+    setPage(1);
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <div className="mb-4">
+            <Link href="/admin">
+                <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </div>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-primary">
+              Audit Log
+            </h1>
+            <p className="text-muted-foreground">
+              Changes made in the admin portal, exports and sign-ins
+            </p>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col sm:flex-row sm:flex-wrap gap-4 items-start sm:items-end">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Action</label>
+                <Select value={action} onValueChange={withFirstPage(setAction)}>
+                  <SelectTrigger className="w-full sm:w-[230px]">
+                    <SelectValue placeholder="Select action" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All actions</SelectItem>
+                    {(data?.actions ?? []).map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Record</label>
+                <Select value={targetType} onValueChange={withFirstPage(setTargetType)}>
+                  <SelectTrigger className="w-full sm:w-[200px]">
+                    <SelectValue placeholder="Select record type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All records</SelectItem>
+                    {TARGET_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">User</label>
+                <Select value={actorId} onValueChange={withFirstPage(setActorId)}>
+                  <SelectTrigger className="w-full sm:w-[180px]">
+                    <SelectValue placeholder="Select user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All users</SelectItem>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={String(user.id)}>
+                        {user.username}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label htmlFor="audit-from" className="text-sm font-medium mb-2 block">
+                  From
+                </label>
+                <Input id="audit-from" type="date" value={from} onChange={(e) => withFirstPage(setFrom)(e.target.value)} />
+              </div>
+              <div>
+                <label htmlFor="audit-to" className="text-sm font-medium mb-2 block">
+                  To
+                </label>
+                <Input id="audit-to" type="date" value={to} onChange={(e) => withFirstPage(setTo)(e.target.value)} />
+              </div>
+              <Button variant="outline" onClick={clearFilters}>
+                Clear
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Entries */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Entries</CardTitle>
+            <CardDescription>
+              {data ? `${data.total} ${data.total === 1 ? "entry" : "entries"}, newest first` : "Loading entries..."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="animate-pulse h-64 bg-slate-100 rounded m-6" />
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground p-6">No entries match these filters.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>IP</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow
+                      key={entry.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedEntry(entry)}
+                    >
+                      <TableCell className="whitespace-nowrap">{formatTimestamp(entry.createdAt)}</TableCell>
+                      <TableCell>{entry.actorUsername ?? "Unknown"}</TableCell>
+                      <TableCell className="font-mono text-xs">{entry.action}</TableCell>
+                      <TableCell>
+                        {entry.targetType}
+                        {entry.targetId && <span className="text-muted-foreground"> #{entry.targetId}</span>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{entry.ip ?? "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.success ? "secondary" : "destructive"}>
+                          {entry.success ? "Success" : "Failed"}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {data && data.total > data.pageSize && (
+          <div className="flex items-center justify-end gap-3 mt-4">
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {pageCount}
+            </span>
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+              Newer
+            </Button>
+            <Button variant="outline" size="sm" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+              Older
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        {/* Entry details */}
+        <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+          <DialogContent className="max-w-3xl">
+            {selectedEntry && (
+              <>
+                <DialogHeader>
+                  <DialogTitle className="font-mono text-base">{selectedEntry.action}</DialogTitle>
+                  <DialogDescription>
+                    {selectedEntry.actorUsername ?? "Unknown user"} on {formatTimestamp(selectedEntry.createdAt)}
+                    {selectedEntry.ip && ` from ${selectedEntry.ip}`}
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {[
+                    { label: "Before", snapshot: selectedEntry.before },
+                    { label: "After", snapshot: selectedEntry.after },
+                  ].map(({ label, snapshot }) => (
+                    <div key={label}>
+                      <div className="text-sm font-medium mb-2">{label}</div>
+                      <pre className="text-xs bg-slate-50 border rounded p-3 max-h-96 overflow-auto whitespace-pre-wrap break-all">
+                        {formatSnapshot(snapshot)}
+                      </pre>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default AdminAudit;
@@ -0,0 +1,314 @@
+import AppLayout from "@/components/layout/AppLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { EmailTemplateContent, EmailTemplateSettings, Organization } from "@/types";
+import { hasRole } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ArrowLeft, RotateCcw, Save } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+
+const PREVIEW_DELAY_MS = 400;
+
+const AdminEmailTemplates = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canEdit = hasRole(user, "editor");
+  // "default" or an organization id
+  const [scope, setScope] = useState<string>("default");
+  const [formData, setFormData] = useState<EmailTemplateContent>({ subject: "", body: "" });
+  const [preview, setPreview] = useState<{ subject: string; html: string } | null>(null);
+
+  const organizationId = scope === "default" ? null : parseInt(scope);
+
+  // Fetch the built-in template, saved templates and placeholders
+  const { data: settings, isLoading } = useQuery<EmailTemplateSettings>({
+    queryKey: ["/api/email-templates/results"],
+    throwOnError: false,
+  });
+
+  // Fetch organizations for per-organization overrides
+  const { data: organizations = [] } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+    throwOnError: false,
+  });
+
+  const savedDefault = settings?.templates.find((template) => template.organizationId === null);
+  const savedTemplate = settings?.templates.find((template) => template.organizationId === organizationId);
+  // What participants in this scope currently receive
+  const effectiveTemplate = savedTemplate ?? savedDefault ?? settings?.builtIn;
+
+  // Load the saved template whenever the scope changes or templates are refetched
+  useEffect(() => {
+    if (effectiveTemplate) {
+      setFormData({ subject: effectiveTemplate.subject, body: effectiveTemplate.body });
+    }
+  }, [scope, settings]);
+
+  // Re-render the preview shortly after the admin stops typing
+  useEffect(() => {
+    if (!formData.subject.trim() || !formData.body.trim()) {
+      setPreview(null);
+      return;
+    }
+
+    let isCancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await apiRequest("POST", "/api/email-templates/results/preview", {
+          ...formData,
+          organizationId,
+        });
+        const data = await res.json();
+        if (!isCancelled) setPreview(data);
+      } catch (error) {
+        console.error("Error previewing email template:", error);
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [formData, organizationId]);
+
+  // Save the template for the selected scope
+  const saveMutation = useMutation({
+    mutationFn: async (template: EmailTemplateContent) => {
+      return apiRequest("PUT", "/api/email-templates/results", { ...template, organizationId });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Email template saved successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/email-templates/results"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save email template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Remove the override, or reset the default to the built-in template
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const query = organizationId === null ? "" : `?organizationId=${organizationId}`;
+      return apiRequest("DELETE", `/api/email-templates/results${query}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: organizationId === null
+          ? "Default template reset to the built-in template"
+          : "Organization override removed",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/email-templates/results"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reset email template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(formData);
+  };
+
+  const handleReset = () => {
+    const message = organizationId === null
+      ? "Reset the default template to the built-in template?"
+      : "Remove this organization's override? Its participants will receive the default template.";
+    if (window.confirm(message)) {
+      resetMutation.mutate();
+    }
+  };
+
+  const selectedOrganization = organizations.find((organization) => organization.id === organizationId);
+
+  return (
+    <AppLayout>
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <div className="mb-4">
+            <Link href="/admin">
+                <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </div>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-primary">
+              Email Templates
+            </h1>
+            <p className="text-muted-foreground">
+              Edit the results email participants receive with their PDF
+            </p>
+          </div>
+        </div>
+
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center">
+              <div className="flex-1">
+                <label className="text-sm font-medium mb-2 block">
+                  Template For
+                </label>
+                <Select value={scope} onValueChange={setScope}>
+                  <SelectTrigger className="w-full sm:w-[300px]">
+                    <SelectValue placeholder="Select template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Default (all participants)</SelectItem>
+                    {organizations.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Organization Overrides</SelectLabel>
+                        {organizations.map((organization) => (
+                          <SelectItem key={organization.id} value={organization.id.toString()}>
+                            {organization.name} ({organization.code})
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {savedTemplate ? (
+                  <Badge>Customized</Badge>
+                ) : organizationId === null ? (
+                  <Badge variant="secondary">Built-in template</Badge>
+                ) : (
+                  <Badge variant="secondary">Using the default template</Badge>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="animate-pulse h-64 bg-slate-100 rounded" />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {selectedOrganization ? `${selectedOrganization.name} Template` : "Default Template"}
+                </CardTitle>
+                <CardDescription>
+                  Placeholders:{" "}
+                  {settings?.placeholders.map((placeholder) => (
+                    <code key={placeholder} className="mr-2 text-xs">{`{{${placeholder}}}`}</code>
+                  ))}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <label htmlFor="template-subject" className="text-sm font-medium">
+                      Subject
+                    </label>
+                    <Input
+                      id="template-subject"
+                      value={formData.subject}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, subject: e.target.value }))}
+                      readOnly={!canEdit}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="template-body" className="text-sm font-medium">
+                      Body (HTML)
+                    </label>
+                    <Textarea
+                      id="template-body"
+                      value={formData.body}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, body: e.target.value }))}
+                      rows={18}
+                      className="font-mono text-xs"
+                      readOnly={!canEdit}
+                      required
+                    />
+                  </div>
+                  {canEdit && (
+                    <div className="flex justify-between gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleReset}
+                        disabled={!savedTemplate || resetMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                        {organizationId === null ? "Reset to Built-in" : "Remove Override"}
+                      </Button>
+                      <Button type="submit" disabled={saveMutation.isPending}>
+                        <Save className="h-4 w-4" />
+                        {saveMutation.isPending ? "Saving..." : "Save Template"}
+                      </Button>
+                    </div>
+                  )}
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  Rendered for a sample participant. The results PDF is attached when sent.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {preview ? (
+                  <div className="space-y-3">
+                    <div className="text-sm">
+                      <span className="font-medium">Subject:</span> {preview.subject}
+                    </div>
+                    <iframe
+                      title="Email preview"
+                      srcDoc={preview.html}
+                      sandbox=""
+                      className="w-full h-[480px] border rounded-md bg-white"
+                    />
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Enter a subject and body to see a preview.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default AdminEmailTemplates;
@@ -0,0 +1,118 @@
+import ValueChanges from "@/components/card/ValueChanges";
+import AppLayout from "@/components/layout/AppLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ParticipantHistory } from "@/types";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react";
+import { Link, useParams } from "wouter";
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+const AdminParticipantHistory = () => {
+  const { id = "" } = useParams<{ id: string }>();
+
+  const { data: history, isLoading, error } = useQuery<ParticipantHistory>({
+    queryKey: [`/api/participants/${id}`],
+    throwOnError: false,
+  });
+
+  const submissionCount = history?.submissions.length ?? 0;
+
+  return (
+    <AppLayout>
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-6">
+          <div className="mb-4">
+            <Link href="/admin/submissions">
+                <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </div>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-primary">
+              {history?.participant.name ?? "Participant"}
+            </h1>
+            <p className="text-muted-foreground">
+              {history
+                ? `${history.participant.email}, ${submissionCount} ${submissionCount === 1 ? "assessment" : "assessments"}`
+                : "Loading history..."}
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="animate-pulse h-64 bg-slate-100 rounded" />
+        ) : error || !history ? (
+          <Card>
+            <CardContent className="p-6">
+              <div className="text-center text-muted-foreground">
+                <h3 className="text-lg font-medium mb-2">Participant Not Found</h3>
+                <p>This participant doesn't exist or could not be loaded.</p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {history.submissions.map((submission, index) => (
+              <Card key={submission.id}>
+                <CardHeader>
+                  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="flex items-center gap-2">
+                        {formatDate(submission.createdAt)}
+                        {index === 0 && <Badge variant="secondary">Latest</Badge>}
+                      </CardTitle>
+                      <CardDescription>
+                        {submission.companyCode ? `Company code ${submission.companyCode}` : "No company code"}
+                      </CardDescription>
+                    </div>
+                    <Link href={`/admin/submissions/${submission.id}`}>
+                      <Button variant="link" className="px-0">
+                        View submission
+                      </Button>
+                    </Link>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <ol className="flex flex-wrap gap-2">
+                    {submission.coreValues.map((value, rank) => (
+                      <li key={value}>
+                        <Badge>
+                          {rank + 1}. {value}
+                        </Badge>
+                      </li>
+                    ))}
+                  </ol>
+                  {submission.comparison ? (
+                    <div className="border-t pt-4">
+                      <p className="text-sm text-muted-foreground mb-3">
+                        Changes since {formatDate(submission.comparison.previousSubmittedAt)}
+                      </p>
+                      <ValueChanges comparison={submission.comparison} />
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground border-t pt-4">First assessment</p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default AdminParticipantHistory;
@@ -0,0 +1,182 @@
+import AppLayout from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ParticipantErasure } from "@/types";
+import { useMutation } from "@tanstack/react-query";
+import { ArrowLeft, Download, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { Link } from "wouter";
+
+const AdminPrivacy = () => {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+  const [lastErasure, setLastErasure] = useState<{ email: string; erasure: ParticipantErasure } | null>(null);
+
+  const address = email.trim();
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await apiRequest("GET", `/api/participants/export?email=${encodeURIComponent(address)}`);
+      const blob = await response.blob();
+      const downloadUrl = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = downloadUrl;
+      link.download = `participant-data-${address.toLowerCase()}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(downloadUrl);
+
+      toast({
+        title: "Export Successful",
+        description: `Everything stored about ${address} has been downloaded.`,
+      });
+    } catch (error) {
+      console.error("Export error:", error);
+      toast({
+        title: "Export Failed",
+        description: "Could not export this participant's data. Check the email address and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const eraseMutation = useMutation({
+    mutationFn: async (participantEmail: string) => {
+      const res = await apiRequest("POST", "/api/participants/erase", { email: participantEmail });
+      return (await res.json()).data as ParticipantErasure;
+    },
+    onSuccess: (erasure, participantEmail) => {
+      setLastErasure({ email: participantEmail, erasure });
+      setEmail("");
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          typeof query.queryKey[0] === "string" &&
+          /^\/api\/(submissions|analytics|email-outbox|team-report|organizations)/.test(query.queryKey[0]),
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not erase this participant's data. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleErase = () => {
+    if (window.confirm(`Permanently delete every submission and email for ${address}? This can't be undone.`)) {
+      eraseMutation.mutate(address);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-6">
+          <div className="mb-4">
+            <Link href="/admin">
+                <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </div>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-primary">
+              Participant Data
+            </h1>
+            <p className="text-muted-foreground">
+              Handle access and erasure requests from participants
+            </p>
+          </div>
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Find a Participant</CardTitle>
+            <CardDescription>
+              Submissions and emails are matched on the email address, ignoring case
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <label htmlFor="participant-email" className="text-sm font-medium mb-2 block">
+              Email Address
+            </label>
+            <Input
+              id="participant-email"
+              type="email"
+              placeholder="participant@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <div className="flex flex-col sm:flex-row gap-2 mt-4">
+              <Button
+                variant="outline"
+                onClick={handleExport}
+                disabled={!address || isExporting}
+                className="flex items-center"
+              >
+                <Download className="h-4 w-4" />
+                {isExporting ? "Exporting..." : "Export Data"}
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleErase}
+                disabled={!address || eraseMutation.isPending}
+                className="flex items-center"
+              >
+                <Trash2 className="h-4 w-4" />
+                {eraseMutation.isPending ? "Erasing..." : "Erase Data"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {lastErasure && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Erasure Complete</CardTitle>
+              <CardDescription>{lastErasure.email}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="text-sm space-y-1">
+                <li>{lastErasure.erasure.submissions} submission(s) deleted</li>
+                <li>{lastErasure.erasure.emails} email(s) and their delivery logs deleted</li>
+                <li>{lastErasure.erasure.auditEntries} audit log entry snapshot(s) cleared</li>
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>What's Included</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground space-y-2">
+            <p>
+              The export is a JSON file with the participant's submissions, including their recorded consent,
+              and every results email sent to them with its delivery log.
+            </p>
+            <p>
+              Erasing deletes the same records. Audit log entries about them are kept, but the record
+              snapshots they hold are cleared. Emails already delivered can't be recalled.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default AdminPrivacy;
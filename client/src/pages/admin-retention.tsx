@@ -0,0 +1,421 @@
+import AppLayout from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RetentionAction, RetentionReport, RetentionRun, RetentionSettings } from "@/types";
+import { hasRole } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Eye, Play, Plus, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+
+const actionLabels: Record<RetentionAction, string> = {
+  anonymize: "Anonymize (keep values for analytics, remove name and email)",
+  delete: "Delete entirely",
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+// Months are edited as text so the field can be left empty for "keep indefinitely"
+const toMonths = (text: string): number | null => (text.trim() ? Number(text) : null);
+const fromMonths = (months: number | null) => (months === null ? "" : String(months));
+
+type CompanyCodeRule = { companyCode: string; months: string };
+
+const AdminRetention = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canEdit = hasRole(user, "owner");
+
+  const { data: savedSettings, isLoading } = useQuery<RetentionSettings>({
+    queryKey: ["/api/settings/retention"],
+    throwOnError: false,
+  });
+
+  const { data: lastRun } = useQuery<RetentionRun | null>({
+    queryKey: ["/api/retention/last-run"],
+    throwOnError: false,
+  });
+
+  const { data: companyCodes = [] } = useQuery<string[]>({
+    queryKey: ["/api/submissions/company-codes"],
+    throwOnError: false,
+  });
+
+  const [enabled, setEnabled] = useState(false);
+  const [action, setAction] = useState<RetentionAction>("anonymize");
+  const [defaultMonths, setDefaultMonths] = useState("");
+  const [rules, setRules] = useState<CompanyCodeRule[]>([]);
+  const [report, setReport] = useState<RetentionReport | null>(null);
+
+  const resetForm = (settings: RetentionSettings) => {
+    setEnabled(settings.enabled);
+    setAction(settings.action);
+    setDefaultMonths(fromMonths(settings.defaultMonths));
+    setRules(settings.companyCodes.map((rule) => ({ companyCode: rule.companyCode, months: fromMonths(rule.months) })));
+  };
+
+  useEffect(() => {
+    if (savedSettings) resetForm(savedSettings);
+  }, [savedSettings]);
+
+  const formSettings: RetentionSettings = {
+    enabled,
+    action,
+    defaultMonths: toMonths(defaultMonths),
+    companyCodes: rules.map((rule) => ({ companyCode: rule.companyCode, months: toMonths(rule.months) })),
+  };
+  const isDirty = !!savedSettings && JSON.stringify(formSettings) !== JSON.stringify(savedSettings);
+
+  const updateRule = (index: number, update: Partial<CompanyCodeRule>) => {
+    setRules(rules.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, ...update } : rule)));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: RetentionSettings) => {
+      const res = await apiRequest("PUT", "/api/settings/retention", settings);
+      return (await res.json()).data as RetentionSettings;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Retention settings updated successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/retention"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.includes("Invalid retention settings")
+          ? "Check the retention periods: each must be a whole number of months, and each company code can only appear once"
+          : "Failed to update retention settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Dry run against the settings as currently edited, saved or not
+  const previewMutation = useMutation({
+    mutationFn: async (settings: RetentionSettings) => {
+      const res = await apiRequest("POST", "/api/retention/preview", settings);
+      return (await res.json()) as RetentionReport;
+    },
+    onSuccess: setReport,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not preview the purge. Check the retention periods and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/retention/run");
+      return (await res.json()).data as RetentionRun;
+    },
+    onSuccess: (run) => {
+      toast({
+        title: "Purge Complete",
+        description: `${run.submissions} submission(s) ${run.action === "delete" ? "deleted" : "anonymized"}.`,
+      });
+      setReport(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/retention/last-run"] });
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          typeof query.queryKey[0] === "string" && /^\/api\/(submissions|analytics|email-outbox|team-report)/.test(query.queryKey[0]),
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not apply the retention policy. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRun = () => {
+    const verb = savedSettings?.action === "delete" ? "Permanently delete" : "Anonymize";
+    if (window.confirm(`${verb} every submission older than its retention period now? This can't be undone.`)) {
+      runMutation.mutate();
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-6">
+          <div className="mb-4">
+            <Link href="/admin">
+                <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </div>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-primary">
+              Data Retention
+            </h1>
+            <p className="text-muted-foreground">
+              How long submissions are kept before they are anonymized or deleted
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="animate-pulse h-64 bg-slate-100 rounded" />
+        ) : (
+          <>
+            {/* Policy */}
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle>Policy</CardTitle>
+                <CardDescription>
+                  {canEdit
+                    ? "Leave a period empty to keep those submissions indefinitely"
+                    : "Only owners can change the retention policy"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+                  <div>
+                    <label htmlFor="retention-enabled" className="text-sm font-medium">
+                      Purge expired submissions every night
+                    </label>
+                    <p className="text-sm text-muted-foreground">
+                      Runs at 03:00 server time. Turn it off to keep everything while you check the preview.
+                    </p>
+                  </div>
+                  <Switch id="retention-enabled" checked={enabled} onCheckedChange={setEnabled} disabled={!canEdit} />
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">When a submission expires</label>
+                    <Select value={action} onValueChange={(value) => setAction(value as RetentionAction)} disabled={!canEdit}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(actionLabels) as RetentionAction[]).map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {actionLabels[option]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label htmlFor="retention-default-months" className="text-sm font-medium mb-2 block">
+                      Default retention (months)
+                    </label>
+                    <Input
+                      id="retention-default-months"
+                      type="number"
+                      min={1}
+                      placeholder="Keep indefinitely"
+                      value={defaultMonths}
+                      onChange={(e) => setDefaultMonths(e.target.value)}
+                      disabled={!canEdit}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <div>
+                      <div className="text-sm font-medium">Company codes</div>
+                      <p className="text-sm text-muted-foreground">
+                        Periods that replace the default for one organization, e.g. 24 months where a contract requires it
+                      </p>
+                    </div>
+                    {canEdit && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRules([...rules, { companyCode: "", months: "" }])}
+                      >
+                        <Plus className="h-4 w-4" />
+                        Add
+                      </Button>
+                    )}
+                  </div>
+                  {rules.length === 0 ? (
+                    <p className="text-sm text-muted-foreground italic">Every company code uses the default.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {rules.map((rule, index) => (
+                        <div key={index} className="flex gap-2">
+                          <Input
+                            placeholder="Company code"
+                            list="retention-company-codes"
+                            value={rule.companyCode}
+                            onChange={(e) => updateRule(index, { companyCode: e.target.value })}
+                            disabled={!canEdit}
+                          />
+                          <Input
+                            type="number"
+                            min={1}
+                            placeholder="Keep indefinitely"
+                            value={rule.months}
+                            onChange={(e) => updateRule(index, { months: e.target.value })}
+                            disabled={!canEdit}
+                            className="w-48"
+                          />
+                          {canEdit && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRules(rules.filter((_, ruleIndex) => ruleIndex !== index))}
+                              title="Remove"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                      <datalist id="retention-company-codes">
+                        {companyCodes.map((code) => (
+                          <option key={code} value={code} />
+                        ))}
+                      </datalist>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => previewMutation.mutate(formSettings)}
+                    disabled={previewMutation.isPending}
+                    className="flex items-center"
+                  >
+                    <Eye className="h-4 w-4" />
+                    {previewMutation.isPending ? "Checking..." : "Preview Purge"}
+                  </Button>
+                  {canEdit && (
+                    <>
+                      <Button
+                        onClick={() => saveMutation.mutate(formSettings)}
+                        disabled={!isDirty || saveMutation.isPending}
+                      >
+                        {saveMutation.isPending ? "Saving..." : "Save Policy"}
+                      </Button>
+                      {isDirty && savedSettings && (
+                        <Button variant="ghost" onClick={() => resetForm(savedSettings)}>
+                          Discard Changes
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Dry run */}
+            {report && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Preview</CardTitle>
+                  <CardDescription>
+                    {report.total === 0
+                      ? "Nothing would be purged right now."
+                      : `${report.total} submission(s) would be ${report.action === "delete" ? "deleted" : "anonymized"} if the purge ran now.`}
+                  </CardDescription>
+                </CardHeader>
+                {report.groups.length > 0 && (
+                  <CardContent className="p-0">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Company Code</TableHead>
+                          <TableHead>Retention</TableHead>
+                          <TableHead>Submitted Before</TableHead>
+                          <TableHead>Oldest</TableHead>
+                          <TableHead className="text-right">Submissions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.groups.map((group) => (
+                          <TableRow key={group.companyCode ?? ""}>
+                            <TableCell>
+                              {group.companyCode ?? <span className="italic text-muted-foreground">None</span>}
+                            </TableCell>
+                            <TableCell>{group.months} months</TableCell>
+                            <TableCell>{formatDate(group.cutoff)}</TableCell>
+                            <TableCell>{formatDate(group.oldest)}</TableCell>
+                            <TableCell className="text-right">{group.count}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                )}
+              </Card>
+            )}
+
+            {/* Last run */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Last Purge</CardTitle>
+                <CardDescription>
+                  {lastRun
+                    ? `${formatDate(lastRun.ranAt)} (${lastRun.trigger === "manual" ? "run by hand" : "nightly"}): ${lastRun.submissions} submission(s) ${lastRun.action === "delete" ? "deleted" : "anonymized"}`
+                    : "The retention policy hasn't been applied yet."}
+                </CardDescription>
+              </CardHeader>
+              {canEdit && (
+                <CardContent>
+                  <Button
+                    variant="destructive"
+                    onClick={handleRun}
+                    disabled={isDirty || runMutation.isPending}
+                    className="flex items-center"
+                  >
+                    <Play className="h-4 w-4" />
+                    {runMutation.isPending ? "Purging..." : "Purge Now"}
+                  </Button>
+                  {isDirty && (
+                    <p className="text-sm text-muted-foreground mt-2">Save or discard your changes first.</p>
+                  )}
+                </CardContent>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default AdminRetention;
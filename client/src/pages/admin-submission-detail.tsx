@@ -0,0 +1,372 @@
+import EmailStatusBadge from "@/components/admin/EmailStatusBadge";
+import AppLayout from "@/components/layout/AppLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { downloadSubmissionPdf } from "@/lib/pdf-download";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { EmailOutboxMessage, SubmissionDetail } from "@/types";
+import { hasRole } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ArrowLeft, FileText, Mail, RotateCw } from "lucide-react";
+import { Link, useParams } from "wouter";
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const AdminSubmissionDetail = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  // The email outbox holds every participant's details, so it is limited to admins
+  const canAdminister = hasRole(user, "admin");
+  const { id = "" } = useParams<{ id: string }>();
+  const detailQueryKey = [`/api/submissions/${id}`];
+
+  const { data: detail, isLoading, error } = useQuery<SubmissionDetail>({
+    queryKey: detailQueryKey,
+    throwOnError: false,
+  });
+
+  const resendEmailMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/submissions/${id}/resend-email`);
+      return (await res.json()).data as EmailOutboxMessage;
+    },
+    onSuccess: (message) => {
+      toast({
+        title: message.status === "sent" ? "Email Sent" : "Email Queued",
+        description: message.status === "sent"
+          ? `The results email was delivered to ${message.recipient}.`
+          : `Delivery failed: ${message.lastError || "unknown error"}. It will be retried automatically.`,
+        variant: message.status === "sent" ? "default" : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: detailQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/email-outbox"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not resend the results email. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Re-queue an undelivered email
+  const retryEmailMutation = useMutation({
+    mutationFn: async (emailId: number) => {
+      const res = await apiRequest("POST", `/api/email-outbox/${emailId}/retry`);
+      return (await res.json()) as EmailOutboxMessage;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: detailQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/email-outbox"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not retry the email. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDownloadPdf = async () => {
+    if (!detail) return;
+    try {
+      await downloadSubmissionPdf(detail.submission.id, detail.submission.name);
+    } catch (error) {
+      console.error("PDF download error:", error);
+      toast({
+        title: "Download Failed",
+        description: "Could not generate the PDF. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const journeySections = detail?.journey
+    ? [
+        { title: "Definitely Me", values: detail.journey.definitelyMe },
+        { title: "Mostly Me", values: detail.journey.mostlyMe },
+        { title: "Not Me", values: detail.journey.notMe },
+      ]
+    : [];
+  const coreValueNames = new Set(detail?.coreValues.map((coreValue) => coreValue.value));
+
+  return (
+    <AppLayout>
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <div className="mb-4">
+            <Link href="/admin/submissions">
+                <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-primary">
+                {detail?.submission.name ?? "Submission"}
+              </h1>
+              <p className="text-muted-foreground">
+                {detail ? `Submitted ${formatDate(detail.submission.createdAt)}` : "Loading submission..."}
+                {detail?.submission.anonymizedAt &&
+                  `, anonymized ${formatDate(detail.submission.anonymizedAt)} under the retention policy`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleDownloadPdf} disabled={!detail} className="flex items-center">
+                <FileText className="h-4 w-4" />
+                Download PDF
+              </Button>
+              {canAdminister && (
+                <Button
+                  onClick={() => resendEmailMutation.mutate()}
+                  disabled={!detail || !!detail.submission.anonymizedAt || resendEmailMutation.isPending}
+                  className="flex items-center"
+                >
+                  <Mail className="h-4 w-4" />
+                  {resendEmailMutation.isPending ? "Sending..." : "Resend Results Email"}
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="animate-pulse h-64 bg-slate-100 rounded" />
+        ) : error || !detail ? (
+          <Card>
+            <CardContent className="p-6">
+              <div className="text-center text-muted-foreground">
+                <h3 className="text-lg font-medium mb-2">Submission Not Found</h3>
+                <p>This submission doesn't exist or could not be loaded.</p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Participant */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Participant</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="space-y-3 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground">Email</dt>
+                    <dd>
+                      <a href={`mailto:${detail.submission.email}`} className="text-primary hover:underline break-all">
+                        {detail.submission.email}
+                      </a>
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Organization</dt>
+                    <dd>
+                      {detail.organization
+                        ? `${detail.organization.name} (${detail.organization.code})`
+                        : detail.submission.companyCode || <span className="italic text-muted-foreground">None</span>}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Deck</dt>
+                    <dd>{detail.deck?.name ?? "All values"}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Submitted</dt>
+                    <dd>{formatDate(detail.submission.createdAt)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Consent</dt>
+                    <dd>
+                      {detail.submission.consentVersion ? (
+                        <>
+                          {detail.submission.marketingOptIn ? "Results and marketing emails" : "Results only"}
+                          <span className="block text-xs text-muted-foreground">
+                            Version {detail.submission.consentVersion}
+                            {detail.submission.consentedAt && `, ${formatDate(detail.submission.consentedAt)}`}
+                          </span>
+                        </>
+                      ) : (
+                        <span className="italic text-muted-foreground">Not recorded</span>
+                      )}
+                    </dd>
+                  </div>
+                </dl>
+                <div className="flex flex-col items-start mt-3">
+                  {detail.submission.participantId && detail.participantSubmissions > 1 && (
+                    <Link href={`/admin/participants/${detail.submission.participantId}`}>
+                      <Button variant="link" className="px-0 h-auto py-1">
+                        View history ({detail.participantSubmissions} assessments)
+                      </Button>
+                    </Link>
+                  )}
+                  {detail.submission.companyCode && (
+                    <Link href={`/admin/team-report/${encodeURIComponent(detail.submission.companyCode)}`}>
+                      <Button variant="link" className="px-0 h-auto py-1">
+                        View team report
+                      </Button>
+                    </Link>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Core values */}
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Core Values</CardTitle>
+                <CardDescription>In the order the participant ranked them</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ol className="space-y-4">
+                  {detail.coreValues.map((coreValue, index) => (
+                    <li key={coreValue.value} className="flex gap-3">
+                      <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-primary text-primary-foreground text-sm font-semibold">
+                        {index + 1}
+                      </span>
+                      <div>
+                        <div className="font-medium">{coreValue.value}</div>
+                        {coreValue.description && (
+                          <p className="text-sm text-muted-foreground">{coreValue.description}</p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </CardContent>
+            </Card>
+
+            {/* Sorting journey */}
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <CardTitle>Sorting Journey</CardTitle>
+                <CardDescription>How the participant sorted the cards on the way to their core values</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!detail.journey ? (
+                  <p className="text-sm text-muted-foreground">
+                    Sorting data wasn't recorded for this submission.
+                  </p>
+                ) : (
+                  <div className="space-y-6">
+                    <div>
+                      <h3 className="text-sm font-medium mb-2">Top 10 ({detail.journey.top10.length})</h3>
+                      <div className="flex flex-wrap gap-2">
+                        {detail.journey.top10.map((value) => (
+                          <Badge key={value} variant={coreValueNames.has(value) ? "default" : "secondary"}>
+                            {value}
+                          </Badge>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-2">Highlighted values became core values.</p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                      {journeySections.map((section) => (
+                        <div key={section.title}>
+                          <h3 className="text-sm font-medium mb-2">
+                            {section.title} ({section.values.length})
+                          </h3>
+                          {section.values.length === 0 ? (
+                            <p className="text-sm text-muted-foreground italic">None</p>
+                          ) : (
+                            <ul className="text-sm space-y-1">
+                              {section.values.map((value) => (
+                                <li key={value}>{value}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Results emails */}
+            {detail.emails && (
+              <Card className="lg:col-span-3">
+                <CardHeader>
+                  <CardTitle>Results Emails</CardTitle>
+                  <CardDescription>Every time the results email was requested or resent</CardDescription>
+                </CardHeader>
+                <CardContent className={detail.emails.length > 0 ? "p-0" : undefined}>
+                  {detail.emails.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">The participant hasn't requested their results email.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Requested</TableHead>
+                          <TableHead>Recipient</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Attempts</TableHead>
+                          <TableHead>Delivered</TableHead>
+                          <TableHead className="text-right">Retry</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {detail.emails.map((email) => (
+                          <TableRow key={email.id}>
+                            <TableCell className="text-muted-foreground">{formatDate(email.createdAt)}</TableCell>
+                            <TableCell>{email.recipient}</TableCell>
+                            <TableCell>
+                              <EmailStatusBadge email={email} />
+                            </TableCell>
+                            <TableCell>{email.attempts}</TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {email.sentAt ? formatDate(email.sentAt) : "—"}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {(email.status === "failed" || email.status === "pending") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => retryEmailMutation.mutate(email.id)}
+                                  disabled={retryEmailMutation.isPending}
+                                  title="Retry now"
+                                >
+                                  <RotateCw className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default AdminSubmissionDetail;
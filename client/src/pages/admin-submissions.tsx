@@ -1,3 +1,4 @@
+import EmailStatusBadge from "@/components/admin/EmailStatusBadge";
 import AppLayout from "@/components/layout/AppLayout";
 import { Button } from "@/components/ui/button";
 import {
@@ -6,10 +7,28 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
@@ -21,28 +40,101 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { Submission } from "@/types";
-import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { EmailOutboxMessage, LeadershipValue, Organization, Submission, SubmissionPage } from "@/types";
+import { hasRole, type SubmissionExportFormat } from "@shared/schema";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { downloadSubmissionPdf } from "@/lib/pdf-download";
 import {
   ArrowLeft,
   Download,
+  FileText,
+  RotateCw,
+  Search,
+  Users,
 } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link } from "wouter";
 
+type ExportFormat = { value: SubmissionExportFormat; label: string; extension: string };
+
+const EXPORT_FORMATS: ExportFormat[] = [
+  { value: "csv", label: "CSV", extension: "csv" },
+  { value: "xlsx", label: "Excel Workbook", extension: "xlsx" },
+  { value: "json", label: "JSON", extension: "json" },
+  { value: "ndjson", label: "NDJSON", extension: "ndjson" },
+];
+
+const PAGE_SIZE = 25;
+const SEARCH_DELAY_MS = 300;
+
+// The first and last pages plus the current page and its neighbours, with gaps marked
+const getPageNumbers = (page: number, pageCount: number): (number | "ellipsis")[] => {
+  const pages: (number | "ellipsis")[] = [];
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    if (pageNumber === 1 || pageNumber === pageCount || Math.abs(pageNumber - page) <= 1) {
+      pages.push(pageNumber);
+    } else if (pages[pages.length - 1] !== "ellipsis") {
+      pages.push("ellipsis");
+    }
+  }
+  return pages;
+};
+
 const AdminSubmissions = () => {
   const { toast } = useToast();
+  const { user } = useAuth();
+  // Exports and the email outbox hold every participant's details, so they are limited to admins
+  const canAdminister = hasRole(user, "admin");
   const [selectedCompanyCode, setSelectedCompanyCode] = useState<string>("all");
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [coreValue, setCoreValue] = useState<string>("all");
+  const [page, setPage] = useState(1);
 
-  // Fetch all submissions
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+  if (search) params.set("search", search);
+  if (selectedCompanyCode !== "all") params.set("companyCode", selectedCompanyCode);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  if (coreValue !== "all") params.set("coreValue", coreValue);
+
+  // Fetch the current page of matching submissions
   const {
-    data: submissions = [],
+    data: submissionPage,
     isLoading: submissionsLoading,
     error: submissionsError,
-  } = useQuery<Submission[]>({
-    queryKey: ["/api/submissions"],
+  } = useQuery<SubmissionPage>({
+    queryKey: [`/api/submissions?${params.toString()}`],
+    placeholderData: keepPreviousData,
+    throwOnError: false,
+  });
+  const submissions = submissionPage?.submissions ?? [];
+  const total = submissionPage?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Values for the "chose value" filter, including archived ones past participants may have chosen
+  const { data: leadershipValues = [] } = useQuery<LeadershipValue[]>({
+    queryKey: ["/api/leadership-values?status=all"],
+    throwOnError: false,
+  });
+
+  // Fetch organizations
+  const { data: organizations = [] } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
     throwOnError: false,
   });
 
@@ -55,23 +147,85 @@ const AdminSubmissions = () => {
     throwOnError: false,
   });
 
-  // Filter submissions by company code
-  const filteredSubmissions = selectedCompanyCode === "all" 
-    ? submissions 
-    : submissions.filter(sub => sub.companyCode === selectedCompanyCode);
+  // Fetch the email outbox, newest first
+  const { data: outboxMessages = [] } = useQuery<EmailOutboxMessage[]>({
+    queryKey: ["/api/email-outbox"],
+    enabled: canAdminister,
+    throwOnError: false,
+  });
+
+  // Re-queue an undelivered email
+  const retryEmailMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/email-outbox/${id}/retry`);
+      return (await res.json()) as EmailOutboxMessage;
+    },
+    onSuccess: (message) => {
+      toast({
+        title: message.status === "sent" ? "Email Sent" : "Email Queued",
+        description: message.status === "sent"
+          ? `The results email was delivered to ${message.recipient}.`
+          : `Delivery failed again: ${message.lastError || "unknown error"}. It will be retried automatically.`,
+        variant: message.status === "sent" ? "default" : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/email-outbox"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not retry the email. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getLatestEmail = (submission: Submission) =>
+    outboxMessages.find((message) => message.submissionId === submission.id);
+
+  // Free-text codes recorded before organizations existed
+  const legacyCompanyCodes = companyCodes.filter(
+    (code) => !organizations.some((organization) => organization.code === code)
+  );
+
+  const selectedOrganization = organizations.find(
+    (organization) => organization.code === selectedCompanyCode
+  );
+  const selectedCompanyLabel = selectedOrganization
+    ? selectedOrganization.name
+    : `company code "${selectedCompanyCode}"`;
+
+  // Any filter change starts again from the newest submissions
+  const withFirstPage = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const hasFilters = !!searchInput || selectedCompanyCode !== "all" || !!from || !!to || coreValue !== "all";
+
+  const clearFilters = () => {
+    setSearchInput("");
+    setSearch("");
+    setSelectedCompanyCode("all");
+    setFrom("");
+    setTo("");
+    setCoreValue("all");
+    setPage(1);
+  };
 
-  const handleExport = async () => {
+  const handleExport = async (format: ExportFormat) => {
     try {
-      const url = selectedCompanyCode === "all" 
-        ? "/api/submissions/export"
-        : `/api/submissions/export?companyCode=${selectedCompanyCode}`;
-      
-      const response = await apiRequest("GET", url);
+      // Export everything matching the current filters, not just this page
+      const exportParams = new URLSearchParams(params);
+      exportParams.delete("page");
+      exportParams.delete("limit");
+      exportParams.set("format", format.value);
+
+      const response = await apiRequest("GET", `/api/submissions/export?${exportParams.toString()}`);
       const blob = await response.blob();
       const downloadUrl = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = downloadUrl;
-      link.download = `submissions${selectedCompanyCode !== 'all' ? `_${selectedCompanyCode}` : ''}.csv`;
+      link.download = `submissions${selectedCompanyCode !== 'all' ? `_${selectedCompanyCode}` : ''}.${format.extension}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -79,7 +233,7 @@ const AdminSubmissions = () => {
       
       toast({
         title: "Export Successful",
-        description: "CSV file has been downloaded.",
+        description: `${format.label} file has been downloaded.`,
       });
     } catch (error) {
       console.error("Export error:", error);
@@ -91,6 +245,18 @@ const AdminSubmissions = () => {
     }
   };
 
+  const handleDownloadPdf = async (submission: Submission) => {
+    try {
+      await downloadSubmissionPdf(submission.id, submission.name);
+    } catch (error) {
+      console.error("PDF download error:", error);
+      toast({
+        title: "Download Failed",
+        description: "Could not generate the PDF. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -127,35 +293,123 @@ const AdminSubmissions = () => {
             <CardTitle>Filters & Export</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center">
-              <div className="flex-1">
+            <div className="flex flex-col sm:flex-row sm:flex-wrap gap-4 items-start sm:items-end">
+              <div className="w-full sm:w-auto">
+                <label htmlFor="submissions-search" className="text-sm font-medium mb-2 block">
+                  Search
+                </label>
+                <div className="relative">
+                  <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="submissions-search"
+                    placeholder="Name or email"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    className="pl-8 sm:w-[220px]"
+                  />
+                </div>
+              </div>
+              <div>
                 <label className="text-sm font-medium mb-2 block">
-                  Filter by Company Code
+                  Filter by Organization
                 </label>
-                <Select value={selectedCompanyCode} onValueChange={setSelectedCompanyCode}>
-                  <SelectTrigger className="w-full sm:w-[150px]">
-                    <SelectValue className="p-20" placeholder="Select company code" />
+                <Select value={selectedCompanyCode} onValueChange={withFirstPage(setSelectedCompanyCode)}>
+                  <SelectTrigger className="w-full sm:w-[250px]">
+                    <SelectValue className="p-20" placeholder="Select organization" />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Submissions</SelectItem>
-                    {companyCodes.map((code) => (
-                      <SelectItem key={code} value={code}>
-                        {code}
+                    {organizations.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Organizations</SelectLabel>
+                        {organizations.map((organization) => (
+                          <SelectItem key={organization.id} value={organization.code}>
+                            {organization.name} ({organization.code})
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    {legacyCompanyCodes.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Other Company Codes</SelectLabel>
+                        {legacyCompanyCodes.map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {code}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Chose Value
+                </label>
+                <Select value={coreValue} onValueChange={withFirstPage(setCoreValue)}>
+                  <SelectTrigger className="w-full sm:w-[200px]">
+                    <SelectValue placeholder="Select value" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any value</SelectItem>
+                    {leadershipValues.map((value) => (
+                      <SelectItem key={value.id} value={value.value}>
+                        {value.value}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
-              <div className="flex gap-2">
-                <Button onClick={handleExport} className="flex items-center">
-                  <Download className="h-4 w-4" />
-                  Export CSV
+              <div>
+                <label htmlFor="submissions-from" className="text-sm font-medium mb-2 block">
+                  From
+                </label>
+                <Input id="submissions-from" type="date" value={from} onChange={(e) => withFirstPage(setFrom)(e.target.value)} />
+              </div>
+              <div>
+                <label htmlFor="submissions-to" className="text-sm font-medium mb-2 block">
+                  To
+                </label>
+                <Input id="submissions-to" type="date" value={to} onChange={(e) => withFirstPage(setTo)(e.target.value)} />
+              </div>
+              {hasFilters && (
+                <Button variant="outline" onClick={clearFilters}>
+                  Clear
                 </Button>
+              )}
+              <div className="flex gap-2 sm:ml-auto">
+                {canAdminister && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button className="flex items-center">
+                        <Download className="h-4 w-4" />
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {EXPORT_FORMATS.map((format) => (
+                        <DropdownMenuItem key={format.value} onClick={() => handleExport(format)}>
+                          {format.label}
+                          <span className="ml-auto pl-4 text-xs text-muted-foreground">.{format.extension}</span>
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                {selectedCompanyCode !== "all" && (
+                  <Link href={`/admin/team-report/${encodeURIComponent(selectedCompanyCode)}`}>
+                    <Button variant="outline" className="flex items-center">
+                      <Users className="h-4 w-4" />
+                      Team Report
+                    </Button>
+                  </Link>
+                )}
               </div>
             </div>
             <div className="mt-4 text-sm text-muted-foreground">
-              Showing {filteredSubmissions.length} submission{filteredSubmissions.length !== 1 ? 's' : ''}
-              {selectedCompanyCode !== 'all' && ` for company code "${selectedCompanyCode}"`}
+              {total} submission{total !== 1 ? 's' : ''}
+              {selectedCompanyCode !== 'all' && ` for ${selectedCompanyLabel}`}
+              {hasFilters && ' matching these filters'}
             </div>
           </CardContent>
         </Card>
@@ -184,15 +438,15 @@ const AdminSubmissions = () => {
               </div>
             </CardContent>
           </Card>
-        ) : filteredSubmissions.length === 0 ? (
+        ) : submissions.length === 0 ? (
           <Card>
             <CardContent className="p-6">
               <div className="text-center text-muted-foreground">
                 <h3 className="text-lg font-medium mb-2">No Submissions Found</h3>
                 <p>
-                  {selectedCompanyCode === 'all' 
-                    ? 'No submissions have been recorded yet.'
-                    : `No submissions found for company code "${selectedCompanyCode}".`
+                  {hasFilters
+                    ? 'No submissions match these filters.'
+                    : 'No submissions have been recorded yet.'
                   }
                 </p>
               </div>
@@ -209,13 +463,17 @@ const AdminSubmissions = () => {
                     <TableHead>Company Code</TableHead>
                     <TableHead>Core Values</TableHead>
                     <TableHead>Date Submitted</TableHead>
+                    {canAdminister && <TableHead>Results Email</TableHead>}
+                    <TableHead className="text-right">PDF</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredSubmissions.map((submission) => (
+                  {submissions.map((submission) => (
                     <TableRow key={submission.id}>
                       <TableCell>
-                        {submission.name}
+                        <Link href={`/admin/submissions/${submission.id}`} className="text-primary hover:underline">
+                          {submission.name}
+                        </Link>
                       </TableCell>
                       <TableCell className="">
                         {submission.email}
@@ -237,6 +495,42 @@ const AdminSubmissions = () => {
                       <TableCell className="text-muted-foreground">
                         {formatDate(submission.createdAt)}
                       </TableCell>
+                      {canAdminister && (
+                        <TableCell>
+                          {(() => {
+                            const email = getLatestEmail(submission);
+                            if (!email) {
+                              return <span className="text-muted-foreground italic text-sm">Not requested</span>;
+                            }
+                            return (
+                              <div className="flex items-center gap-1">
+                                <EmailStatusBadge email={email} />
+                                {(email.status === "failed" || email.status === "pending") && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => retryEmailMutation.mutate(email.id)}
+                                    disabled={retryEmailMutation.isPending}
+                                    title="Retry now"
+                                  >
+                                    <RotateCw className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            );
+                          })()}
+                        </TableCell>
+                      )}
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDownloadPdf(submission)}
+                          title="Download PDF"
+                        >
+                          <FileText className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -244,6 +538,53 @@ const AdminSubmissions = () => {
             </CardContent>
           </Card>
         )}
+
+        {pageCount > 1 && (
+          <Pagination className="mt-4">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage(Math.max(1, page - 1));
+                  }}
+                  className={page <= 1 ? "pointer-events-none opacity-50" : undefined}
+                />
+              </PaginationItem>
+              {getPageNumbers(page, pageCount).map((pageNumber, index) =>
+                pageNumber === "ellipsis" ? (
+                  <PaginationItem key={`ellipsis-${index}`}>
+                    <PaginationEllipsis />
+                  </PaginationItem>
+                ) : (
+                  <PaginationItem key={pageNumber}>
+                    <PaginationLink
+                      href="#"
+                      isActive={pageNumber === page}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setPage(pageNumber);
+                      }}
+                    >
+                      {pageNumber}
+                    </PaginationLink>
+                  </PaginationItem>
+                )
+              )}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage(Math.min(pageCount, page + 1));
+                  }}
+                  className={page >= pageCount ? "pointer-events-none opacity-50" : undefined}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
       </div>
     </AppLayout>
   );
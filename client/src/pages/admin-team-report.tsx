@@ -0,0 +1,199 @@
+import AppLayout from "@/components/layout/AppLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { downloadTeamReportPdf } from "@/lib/pdf-download";
+import { TeamReport } from "@/types";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Download } from "lucide-react";
+import { Link, useParams } from "wouter";
+
+const AdminTeamReport = () => {
+  const { toast } = useToast();
+  const { companyCode = "" } = useParams<{ companyCode: string }>();
+
+  // Fetch the synthesized report for this company code
+  const { data: report, isLoading, error } = useQuery<TeamReport>({
+    queryKey: [`/api/team-report/${encodeURIComponent(companyCode)}`],
+    throwOnError: false,
+  });
+
+  const handleDownloadPdf = async () => {
+    try {
+      await downloadTeamReportPdf(companyCode);
+    } catch (error) {
+      console.error("Team report download error:", error);
+      toast({
+        title: "Download Failed",
+        description: "Could not generate the team report. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <div className="mb-4">
+            <Link href="/admin/submissions">
+                <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-primary">
+                Team Values Report
+              </h1>
+              <p className="text-muted-foreground">
+                {report?.organizationName ? `${report.organizationName} (${companyCode})` : companyCode}
+              </p>
+            </div>
+            <Button onClick={handleDownloadPdf} disabled={!report} className="flex items-center">
+              <Download className="h-4 w-4" />
+              Download PDF
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="animate-pulse h-64 bg-slate-100 rounded" />
+        ) : error || !report ? (
+          <Card>
+            <CardContent className="p-6">
+              <div className="text-center text-muted-foreground">
+                <h3 className="text-lg font-medium mb-2">No Team Report</h3>
+                <p>No submissions have been recorded for this company code yet.</p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-sm text-muted-foreground">Members</div>
+                  <div className="text-3xl font-bold">{report.members.length}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-sm text-muted-foreground">Alignment Score</div>
+                  <div className="text-3xl font-bold">
+                    {report.alignmentScore === null ? "–" : `${report.alignmentScore} / 100`}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Average overlap between every pair of members' core values
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+              {/* Most shared values */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Most Shared Values</CardTitle>
+                  <CardDescription>How many members chose each value as a core value</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {report.sharedValues.map((value) => (
+                    <div key={value.value}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="font-medium">{value.value}</span>
+                        <span className="text-muted-foreground">
+                          {value.count} of {report.members.length}
+                        </span>
+                      </div>
+                      <Progress value={value.share * 100} />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              {/* Values nobody chose */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Values Nobody Chose</CardTitle>
+                  <CardDescription>Worth discussing as a team: blind spots or deliberate trade-offs?</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.unchosenValues.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Every value was chosen by someone.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {report.unchosenValues.map((value) => (
+                        <Badge key={value} variant="secondary">{value}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Member-by-value matrix */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Member-by-Value Matrix</CardTitle>
+                <CardDescription>Numbers show where each member ranked the value among their core values</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0 overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="sticky left-0 bg-background">Member</TableHead>
+                      {report.sharedValues.map((value) => (
+                        <TableHead key={value.value} className="text-center whitespace-nowrap">
+                          {value.value}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.members.map((member) => (
+                      <TableRow key={member.email}>
+                        <TableCell className="sticky left-0 bg-background whitespace-nowrap">
+                          {member.name}
+                        </TableCell>
+                        {report.sharedValues.map((value) => {
+                          const rank = member.coreValues.indexOf(value.value);
+                          return (
+                            <TableCell
+                              key={value.value}
+                              className={rank === -1 ? "text-center" : "text-center font-medium bg-blue-50"}
+                            >
+                              {rank === -1 ? "" : rank + 1}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+export default AdminTeamReport;
@@ -1,4 +1,10 @@
 import AppLayout from "@/components/layout/AppLayout";
+import DeckManager from "@/components/admin/DeckManager";
+import OrganizationManager from "@/components/admin/OrganizationManager";
+import UserManager from "@/components/admin/UserManager";
+import ValueOrderDialog from "@/components/admin/ValueOrderDialog";
+import ValueTransfer from "@/components/admin/ValueTransfer";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -17,19 +23,35 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { LeadershipValue } from "@/types";
+import { LeadershipValue, LeadershipValueRevision } from "@/types";
+import { hasRole } from "@shared/schema";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import {
+  Archive,
+  ArchiveRestore,
+  History,
   LogOut,
+  Mail,
   PencilIcon,
+  PieChart,
   PlusIcon,
+  ScrollText,
+  ShieldCheck,
+  Timer,
   RotateCcw,
-  TrashIcon,
+  UserCog,
   BarChart3, // Add this import
 } from "lucide-react";
 import { useState } from "react";
@@ -38,7 +60,8 @@ import { Link, useLocation } from "wouter";
 const AdminDashboard = () => {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
-  const { user, logoutMutation } = useAuth();
+  const { user, logoutMutation, logoutAllMutation } = useAuth();
+  const canEdit = hasRole(user, "editor");
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedValue, setSelectedValue] = useState<LeadershipValue | null>(
@@ -48,16 +71,34 @@ const AdminDashboard = () => {
     value: "",
     description: "",
   });
+  const [valueFilter, setValueFilter] = useState<"active" | "archived">("active");
+  const [historyValue, setHistoryValue] = useState<LeadershipValue | null>(null);
 
-  // Fetch all leadership values
+  // Fetch all leadership values in card order, including archived ones
   const {
-    data: leadershipValues = [],
+    data: allValues = [],
     isLoading,
     error,
   } = useQuery<LeadershipValue[]>({
-    queryKey: ["/api/leadership-values"],
+    queryKey: ["/api/leadership-values?status=all"],
     throwOnError: false,
   });
+  const leadershipValues = allValues.filter((value) => !value.archivedAt);
+  const archivedValues = allValues.filter((value) => value.archivedAt);
+  const listedValues = valueFilter === "active" ? leadershipValues : archivedValues;
+
+  const { data: revisions = [], isLoading: isLoadingRevisions } = useQuery<LeadershipValueRevision[]>({
+    queryKey: [`/api/leadership-values/${historyValue?.id}/revisions`],
+    enabled: !!historyValue,
+    throwOnError: false,
+  });
+
+  // Covers every filtered list of values, including the one participants see
+  const invalidateValues = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) =>
+        typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/leadership-values"),
+    });
 
   // Add leadership value mutation
   const addMutation = useMutation({
@@ -70,7 +111,7 @@ const AdminDashboard = () => {
         description: "Leadership value added successfully",
       });
       setIsAddDialogOpen(false);
-      queryClient.invalidateQueries({ queryKey: ["/api/leadership-values"] });
+      invalidateValues();
       resetForm();
     },
     onError: (error) => {
@@ -100,7 +141,7 @@ const AdminDashboard = () => {
         description: "Leadership value updated successfully",
       });
       setIsEditDialogOpen(false);
-      queryClient.invalidateQueries({ queryKey: ["/api/leadership-values"] });
+      invalidateValues();
       resetForm();
     },
     onError: (error) => {
@@ -112,22 +153,43 @@ const AdminDashboard = () => {
     },
   });
 
-  // Delete leadership value mutation
-  const deleteMutation = useMutation({
+  // Archive leadership value mutation
+  const archiveMutation = useMutation({
     mutationFn: async (id: number) => {
       return apiRequest("DELETE", `/api/leadership-values/${id}`);
     },
     onSuccess: () => {
       toast({
         title: "Success!",
-        description: "Leadership value deleted successfully",
+        description: "Leadership value archived successfully",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/leadership-values"] });
+      invalidateValues();
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to delete leadership value",
+        description: "Failed to archive leadership value",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Restore leadership value mutation
+  const restoreMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("POST", `/api/leadership-values/${id}/restore`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Leadership value restored successfully",
+      });
+      invalidateValues();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to restore leadership value",
         variant: "destructive",
       });
     },
@@ -169,12 +231,14 @@ const AdminDashboard = () => {
     setIsEditDialogOpen(true);
   };
 
-  // Handle deleting a leadership value
-  const handleDeleteValue = (id: number) => {
+  // Handle archiving a leadership value
+  const handleArchiveValue = (id: number) => {
     if (
-      window.confirm("Are you sure you want to delete this leadership value?")
+      window.confirm(
+        "Archive this leadership value? Participants won't see it in new exercises, but past results keep it."
+      )
     ) {
-      deleteMutation.mutate(id);
+      archiveMutation.mutate(id);
     }
   };
 
@@ -195,6 +259,16 @@ const AdminDashboard = () => {
     });
   };
 
+  const handleLogoutAll = () => {
+    if (window.confirm("Sign out of every browser and device you're signed in on, including this one?")) {
+      logoutAllMutation.mutate(undefined, {
+        onSuccess: () => {
+          setLocation("/");
+        }
+      });
+    }
+  };
+
   return (
     <AppLayout>
       <div className="max-w-5xl mx-auto">
@@ -205,6 +279,7 @@ const AdminDashboard = () => {
             </h1>
             <p className="text-muted-foreground">
               Manage leadership value cards
+              {user && ` · Signed in as ${user.username} (${user.role})`}
             </p>
           </div>
           <div className="flex flex-col sm:flex-row gap-2">
@@ -214,6 +289,12 @@ const AdminDashboard = () => {
                 Back to App
               </Button>
             </Link>
+            <Link href="/admin/account">
+              <Button variant="outline" size="sm" className="w-full justify-start">
+                <UserCog className="h-4 w-4" />
+                Account
+              </Button>
+            </Link>
             <Button
               variant="outline"
               size="sm"
@@ -224,83 +305,154 @@ const AdminDashboard = () => {
               <LogOut className="h-4 w-4" />
               {logoutMutation.isPending ? "Logging out..." : "Logout"}
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleLogoutAll}
+              disabled={logoutAllMutation.isPending}
+              className="flex items-center justify-start"
+            >
+              <LogOut className="h-4 w-4" />
+              Sign Out Everywhere
+            </Button>
           </div>
         </div>
 
-        <div className="flex gap-3">
+        <div className="flex flex-wrap gap-3">
           <Link href="/admin/submissions">
             <Button variant="outline" size="sm">
               <BarChart3 className="h-4 w-4" />
               View Submissions
             </Button>
           </Link>
-          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-            <DialogTrigger className="" asChild>
-              <Button size="sm">
-                <PlusIcon className="h-4 w-4" />
-                Add New Value
+          <Link href="/admin/analytics">
+            <Button variant="outline" size="sm">
+              <PieChart className="h-4 w-4" />
+              Analytics
+            </Button>
+          </Link>
+          <Link href="/admin/email-templates">
+            <Button variant="outline" size="sm">
+              <Mail className="h-4 w-4" />
+              Email Templates
+            </Button>
+          </Link>
+          {hasRole(user, "admin") && (
+            <Link href="/admin/audit">
+              <Button variant="outline" size="sm">
+                <ScrollText className="h-4 w-4" />
+                Audit Log
+              </Button>
+            </Link>
+          )}
+          {hasRole(user, "admin") && (
+            <Link href="/admin/privacy">
+              <Button variant="outline" size="sm">
+                <ShieldCheck className="h-4 w-4" />
+                Participant Data
+              </Button>
+            </Link>
+          )}
+          {hasRole(user, "admin") && (
+            <Link href="/admin/retention">
+              <Button variant="outline" size="sm">
+                <Timer className="h-4 w-4" />
+                Data Retention
               </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Add New Leadership Value</DialogTitle>
-                <DialogDescription>
-                  Create a new leadership value card to be used in the
-                  assessment.
-                </DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleAddValue}>
-                <div className="space-y-4 py-4">
-                  <div className="space-y-2">
-                    <label htmlFor="value" className="text-sm font-medium">
-                      Value Name
-                    </label>
-                    <Input
-                      id="value"
-                      name="value"
-                      placeholder="e.g., Integrity"
-                      value={formData.value}
-                      onChange={handleInputChange}
-                      required
-                    />
+            </Link>
+          )}
+          <ValueTransfer />
+          {canEdit && <ValueOrderDialog leadershipValues={leadershipValues} />}
+          {canEdit && (
+            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+              <DialogTrigger className="" asChild>
+                <Button size="sm">
+                  <PlusIcon className="h-4 w-4" />
+                  Add New Value
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add New Leadership Value</DialogTitle>
+                  <DialogDescription>
+                    Create a new leadership value card to be used in the
+                    assessment.
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleAddValue}>
+                  <div className="space-y-4 py-4">
+                    <div className="space-y-2">
+                      <label htmlFor="value" className="text-sm font-medium">
+                        Value Name
+                      </label>
+                      <Input
+                        id="value"
+                        name="value"
+                        placeholder="e.g., Integrity"
+                        value={formData.value}
+                        onChange={handleInputChange}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label
+                        htmlFor="description"
+                        className="text-sm font-medium"
+                      >
+                        Description
+                      </label>
+                      <Textarea
+                        id="description"
+                        name="description"
+                        placeholder="Enter description of this leadership value"
+                        value={formData.description}
+                        onChange={handleInputChange}
+                        required
+                        rows={4}
+                      />
+                    </div>
                   </div>
-                  <div className="space-y-2">
-                    <label
-                      htmlFor="description"
-                      className="text-sm font-medium"
+                  <DialogFooter>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setIsAddDialogOpen(false)}
                     >
-                      Description
-                    </label>
-                    <Textarea
-                      id="description"
-                      name="description"
-                      placeholder="Enter description of this leadership value"
-                      value={formData.description}
-                      onChange={handleInputChange}
-                      required
-                      rows={4}
-                    />
-                  </div>
-                </div>
-                <DialogFooter>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => setIsAddDialogOpen(false)}
-                  >
-                    Cancel
-                  </Button>
-                  <Button type="submit" disabled={addMutation.isPending}>
-                    {addMutation.isPending ? "Adding..." : "Add Value"}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </DialogContent>
-          </Dialog>
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={addMutation.isPending}>
+                      {addMutation.isPending ? "Adding..." : "Add Value"}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
 
         <Separator className="my-6" />
 
+        {hasRole(user, "admin") && <UserManager />}
+
+        <OrganizationManager />
+
+        <DeckManager leadershipValues={leadershipValues} />
+
+        <div className="flex justify-end mb-4">
+          <Select
+            value={valueFilter}
+            onValueChange={(value) => setValueFilter(value as "active" | "archived")}
+          >
+            <SelectTrigger className="w-full sm:w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active values ({leadershipValues.length})</SelectItem>
+              <SelectItem value="archived">Archived values ({archivedValues.length})</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
         {isLoading ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {Array(9)
@@ -383,12 +535,21 @@ const AdminDashboard = () => {
               </div>
             </div>
           </div>
+        ) : listedValues.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            {valueFilter === "archived"
+              ? "No archived values. Archived values stay in past results but aren't shown to participants."
+              : "No active values yet."}
+          </p>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {leadershipValues.map((value: LeadershipValue) => (
+            {listedValues.map((value: LeadershipValue) => (
               <Card key={value.id} className="overflow-hidden">
                 <CardHeader className="pb-3">
-                  <CardTitle className="text-lg">{value.value}</CardTitle>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    {value.value}
+                    {value.archivedAt && <Badge variant="secondary">Archived</Badge>}
+                  </CardTitle>
                 </CardHeader>
                 <CardContent>
                   <p className="text-sm text-muted-foreground">
@@ -397,22 +558,44 @@ const AdminDashboard = () => {
                 </CardContent>
                 <CardFooter className="bg-muted/10 flex justify-end pt-3 space-x-2">
                   <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => openEditDialog(value)}
-                  >
-                    <PencilIcon className="h-4 w-4 mr-1" />
-                    Edit
-                  </Button>
-                  <Button
-                    variant="destructive"
+                    variant="ghost"
                     size="sm"
-                    onClick={() => handleDeleteValue(value.id)}
-                    disabled={deleteMutation.isPending}
+                    onClick={() => setHistoryValue(value)}
                   >
-                    <TrashIcon className="h-4 w-4 mr-1" />
-                    Delete
+                    <History className="h-4 w-4 mr-1" />
+                    History
                   </Button>
+                  {canEdit && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openEditDialog(value)}
+                    >
+                      <PencilIcon className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                  )}
+                  {canEdit && !value.archivedAt && (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleArchiveValue(value.id)}
+                      disabled={archiveMutation.isPending}
+                    >
+                      <Archive className="h-4 w-4 mr-1" />
+                      Archive
+                    </Button>
+                  )}
+                  {canEdit && value.archivedAt && (
+                    <Button
+                      size="sm"
+                      onClick={() => restoreMutation.mutate(value.id)}
+                      disabled={restoreMutation.isPending}
+                    >
+                      <ArchiveRestore className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                  )}
                 </CardFooter>
               </Card>
             ))}
@@ -477,6 +660,54 @@ const AdminDashboard = () => {
           </form>
         </DialogContent>
       </Dialog>
+
+      {/* Revision History Dialog */}
+      <Dialog open={!!historyValue} onOpenChange={(open) => !open && setHistoryValue(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revision History</DialogTitle>
+            <DialogDescription>
+              Earlier wording of this value. Submissions keep the wording
+              participants saw when they submitted.
+            </DialogDescription>
+          </DialogHeader>
+          {historyValue && (
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto py-2">
+              <div>
+                <p className="text-xs font-medium uppercase text-muted-foreground mb-1">
+                  Current
+                </p>
+                <p className="font-medium">{historyValue.value}</p>
+                <p className="text-sm text-muted-foreground">{historyValue.description}</p>
+              </div>
+              {isLoadingRevisions ? (
+                <div className="animate-pulse h-16 bg-slate-100 rounded" />
+              ) : revisions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  This value hasn't been edited since revisions started being kept.
+                </p>
+              ) : (
+                revisions.map((revision) => (
+                  <div key={revision.id} className="border-t pt-4">
+                    <p className="text-xs font-medium uppercase text-muted-foreground mb-1">
+                      Until {new Date(revision.replacedAt).toLocaleString("en-US", {
+                        year: "numeric",
+                        month: "short",
+                        day: "numeric",
+                        hour: "numeric",
+                        minute: "2-digit",
+                      })}
+                      {revision.replacedByUsername && ` · changed by ${revision.replacedByUsername}`}
+                    </p>
+                    <p className="font-medium">{revision.value}</p>
+                    <p className="text-sm text-muted-foreground">{revision.description}</p>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </AppLayout>
   );
 };
@@ -2,7 +2,9 @@ import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { Link, Redirect, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Link, Redirect, useSearch } from "wouter";
+import { useState } from "react";
 import * as z from "zod";
 
 import { Logo } from "@/components/layout/Logo";
@@ -24,16 +26,51 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
 });
 
+const registerSchema = z
+  .object({
+    username: z.string().trim().min(3, "Username must be at least 3 characters"),
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
 const AuthPage = () => {
   const { toast } = useToast();
-  const { user, loginMutation } = useAuth();
-  const [location] = useLocation();
+  const { user, loginMutation, twoFactorMutation, registerMutation } = useAuth();
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [isUsingRecoveryCode, setIsUsingRecoveryCode] = useState(false);
+  const inviteToken = new URLSearchParams(useSearch()).get("invite") || undefined;
+
+  // Check the invite link, or whether the first (owner) account still needs creating
+  const { data: invite, isError: isInviteInvalid } = useQuery<{ role: string; expiresAt: string }>({
+    queryKey: [`/api/invites/${inviteToken}`],
+    enabled: !!inviteToken,
+    throwOnError: false,
+  });
+  const { data: registrationStatus } = useQuery<{ open: boolean }>({
+    queryKey: ["/api/registration-status"],
+    enabled: !inviteToken,
+    throwOnError: false,
+  });
+
+  const isRegistering = !!invite || (!inviteToken && !!registrationStatus?.open);
+  // Set once the password is accepted for an account with two-factor turned on
+  const challengeToken =
+    loginMutation.data && "twoFactorRequired" in loginMutation.data ? loginMutation.data.challengeToken : null;
 
   const form = useForm<z.infer<typeof loginSchema>>({
     resolver: zodResolver(loginSchema),
@@ -43,10 +80,41 @@ const AuthPage = () => {
     },
   });
 
+  const registerForm = useForm<z.infer<typeof registerSchema>>({
+    resolver: zodResolver(registerSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
   const onSubmit = async (values: z.infer<typeof loginSchema>) => {
     loginMutation.mutate(values);
   };
 
+  const onSubmitTwoFactor = (code: string) => {
+    if (!challengeToken || !code.trim()) return;
+    twoFactorMutation.mutate(
+      { challengeToken, code: code.trim() },
+      { onError: () => setTwoFactorCode("") }
+    );
+  };
+
+  const cancelTwoFactor = () => {
+    loginMutation.reset();
+    setTwoFactorCode("");
+    setIsUsingRecoveryCode(false);
+  };
+
+  const onRegister = async (values: z.infer<typeof registerSchema>) => {
+    registerMutation.mutate({
+      username: values.username,
+      password: values.password,
+      inviteToken,
+    });
+  };
+
   // If user is already logged in, redirect to admin page
   if (user) {
     return <Redirect to="/admin" />;
@@ -67,56 +135,190 @@ const AuthPage = () => {
                 />
               </Link>
             </div>
-            <CardTitle className="text-2xl font-bold">Admin Login</CardTitle>
+            <CardTitle className="text-2xl font-bold">
+              {isRegistering ? "Create Account" : challengeToken ? "Two-Factor Authentication" : "Admin Login"}
+            </CardTitle>
             <CardDescription>
-              Enter your credentials to access the admin portal
+              {invite
+                ? `You've been invited to the admin portal as ${invite.role === "viewer" ? "a" : "an"} ${invite.role}`
+                : isRegistering
+                  ? "Create the owner account for this admin portal"
+                  : challengeToken
+                    ? isUsingRecoveryCode
+                      ? "Enter one of your recovery codes"
+                      : "Enter the 6-digit code from your authenticator app"
+                    : "Enter your credentials to access the admin portal"}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Form {...form}>
+            {isInviteInvalid && (
+              <p className="text-sm text-destructive mb-4 text-center">
+                This invite link is invalid or has expired. Ask an admin for a new one.
+              </p>
+            )}
+            {challengeToken ? (
               <form
-                onSubmit={form.handleSubmit(onSubmit)}
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  onSubmitTwoFactor(twoFactorCode);
+                }}
                 className="space-y-6"
               >
-                <FormField
-                  control={form.control}
-                  name="username"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Username</FormLabel>
-                      <FormControl>
-                        <Input placeholder="admin" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Password</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="password"
-                          placeholder="••••••••"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                {isUsingRecoveryCode ? (
+                  <Input
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="off"
+                    autoFocus
+                  />
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={6}
+                      value={twoFactorCode}
+                      onChange={setTwoFactorCode}
+                      onComplete={onSubmitTwoFactor}
+                      autoFocus
+                    >
+                      <InputOTPGroup>
+                        {Array.from({ length: 6 }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
                 <Button
                   type="submit"
                   className="w-full"
-                  disabled={loginMutation.isPending}
+                  disabled={twoFactorMutation.isPending || !twoFactorCode.trim()}
                 >
-                  {loginMutation.isPending ? "Logging in..." : "Log in"}
+                  {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
                 </Button>
+                <div className="flex justify-between">
+                  <Button type="button" variant="link" size="sm" className="px-0" onClick={cancelTwoFactor}>
+                    Back
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="px-0"
+                    onClick={() => {
+                      setIsUsingRecoveryCode(!isUsingRecoveryCode);
+                      setTwoFactorCode("");
+                    }}
+                  >
+                    {isUsingRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                  </Button>
+                </div>
               </form>
-            </Form>
+            ) : isRegistering ? (
+              <Form {...registerForm}>
+                <form
+                  onSubmit={registerForm.handleSubmit(onRegister)}
+                  className="space-y-6"
+                >
+                  <FormField
+                    control={registerForm.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="username" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={registerForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" placeholder="••••••••" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={registerForm.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirm Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" placeholder="••••••••" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={registerMutation.isPending}
+                  >
+                    {registerMutation.isPending ? "Creating account..." : "Create account"}
+                  </Button>
+                </form>
+              </Form>
+            ) : (
+              <Form {...form}>
+                <form
+                  onSubmit={form.handleSubmit(onSubmit)}
+                  className="space-y-6"
+                >
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input placeholder="admin" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            placeholder="••••••••"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={loginMutation.isPending}
+                  >
+                    {loginMutation.isPending ? "Logging in..." : "Log in"}
+                  </Button>
+                  <div className="text-center">
+                    <Link href="/reset-password" className="text-sm text-muted-foreground hover:underline">
+                      Forgot your password?
+                    </Link>
+                  </div>
+                </form>
+              </Form>
+            )}
           </CardContent>
           <CardFooter className="flex justify-center flex-col gap-2">
             <Link href="/">
@@ -119,7 +119,8 @@ VITE_SERVER_URL=http://localhost:3001</code></pre>
           </p>
           <ul>
             <li><code>users</code>: Stores admin information</li>
-            <li><code>leadership_values</code>: Stores all leadership value cards</li>
+            <li><code>leadership_values</code>: Stores all leadership value cards, including archived ones</li>
+            <li><code>leadership_value_revisions</code>: Stores the earlier wording of each leadership value</li>
             <li><code>submissions</code>: Stores user submissions with their selected core values</li>
           </ul>
 
@@ -161,7 +162,7 @@ VITE_SERVER_URL=http://localhost:3001</code></pre>
 
           <h4>PDF Generation</h4>
           <ul>
-            <li>Modify the PDF template in <code>client/src/lib/pdf-generator.ts</code></li>
+            <li>Modify the PDF template in <code>server/pdf-generator.ts</code> (PDFs are rendered on the server from the stored submission)</li>
           </ul>
 
           <h3>Deployment</h3>
@@ -2,12 +2,22 @@ import { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import AppLayout from '@/components/layout/AppLayout';
 import Stepper from '@/components/layout/Stepper';
+import ResumeSession from '@/components/layout/ResumeSession';
 import CardSortingStep from '@/components/steps/CardSortingStep';
 import Top10SelectionStep from '@/components/steps/Top10SelectionStep';
 import CoreValuesStep from '@/components/steps/CoreValuesStep';
 import SubmissionStep from '@/components/steps/SubmissionStep';
 import CompletionStep from '@/components/steps/CompletionStep';
-import { LeadershipValue, SelectedValues, SortedValues, UserInfo } from '@/types';
+import { useExerciseSession } from '@/hooks/use-exercise-session';
+import {
+  Deck,
+  ExerciseSessionWithDeck,
+  LeadershipValue,
+  SelectedValues,
+  SortedValues,
+  SubmissionReceipt,
+  UserInfo,
+} from '@/types';
 
 const steps = ['Card Sorting', 'Top 10 Selection', 'Core Values', 'Complete'];
 
@@ -34,10 +44,20 @@ const STORAGE_KEYS = {
   STEP: 'currentStep',
   SORTED_VALUES: 'sortedValues',
   SELECTED_VALUES: 'selectedValues',
+  TOP_VALUES: 'selectedTopValues',
   CORE_VALUES: 'coreValues'
 };
 
 const Home = () => {
+  // Programs link participants to a specific deck with ?deck=<slug>
+  // or a resumed session switches to the deck it was started with
+  const [deckSlug, setDeckSlug] = useState(() => new URLSearchParams(window.location.search).get('deck'));
+
+  const { data: deck } = useQuery<Deck>({
+    queryKey: [`/api/decks/${encodeURIComponent(deckSlug ?? '')}`],
+    enabled: !!deckSlug,
+  });
+
   // Initialize state from localStorage if available
   const [currentStep, setCurrentStep] = useState(() => 
     getFromLocalStorage(STORAGE_KEYS.STEP, 0)
@@ -52,6 +72,7 @@ const Home = () => {
     getFromLocalStorage(STORAGE_KEYS.CORE_VALUES, null)
   );
   const [userInfo, setUserInfo] = useState<UserInfo | null>(null);
+  const [submissionReceipt, setSubmissionReceipt] = useState<SubmissionReceipt | null>(null);
 
   // Save state changes to localStorage
   useEffect(() => {
@@ -74,9 +95,47 @@ const Home = () => {
     if (userInfo) saveToLocalStorage('userInfo', userInfo);
   }, [userInfo]);
 
+  // Replace local progress with the state saved in a server-side session
+  const handleSessionHydrate = (session: ExerciseSessionWithDeck) => {
+    const restore = <T,>(key: string, value: T | null) => {
+      if (value) {
+        saveToLocalStorage(key, value);
+      } else {
+        localStorage.removeItem(key);
+      }
+    };
+
+    // Step components initialise from these keys when they mount
+    restore(STORAGE_KEYS.SORTED_VALUES, session.sortedValues);
+    restore(STORAGE_KEYS.SELECTED_VALUES, session.selectedValues);
+    restore(STORAGE_KEYS.TOP_VALUES, session.selectedValues);
+    restore(STORAGE_KEYS.CORE_VALUES, session.coreValues);
+
+    // Keep the deck in the address bar too, so a refresh deals the same cards
+    const params = new URLSearchParams(window.location.search);
+    if (session.deckSlug) {
+      params.set('deck', session.deckSlug);
+    } else {
+      params.delete('deck');
+    }
+    const search = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}`);
+    setDeckSlug(session.deckSlug);
+
+    setCurrentStep(session.currentStep);
+    setSortedValues(session.sortedValues);
+    setSelectedValues(session.selectedValues);
+    setCoreValues(session.coreValues);
+  };
+
+  const { resumeCode, isHydrating } = useExerciseSession(
+    { currentStep: currentStep ?? 0, sortedValues, selectedValues, coreValues, deckId: deck?.id ?? null },
+    handleSessionHydrate
+  );
+
   // Fetch leadership values from the API
   const { data: leadershipValues = [], isLoading, error } = useQuery<LeadershipValue[]>({
-    queryKey: ['/api/leadership-values'],
+    queryKey: [deckSlug ? `/api/leadership-values?deck=${encodeURIComponent(deckSlug)}` : '/api/leadership-values'],
     staleTime: 60 * 1000 // 1 minute
   });
 
@@ -84,6 +143,23 @@ const Home = () => {
     console.error('Error fetching leadership values:', error);
   }
 
+  // Track in-progress changes so they are autosaved; later steps are reset
+  // the same way the step components reset their own saved state
+  const handleCardSortingProgress = (values: SortedValues) => {
+    setSortedValues(values);
+    setSelectedValues(null);
+    setCoreValues(null);
+  };
+
+  const handleTop10SelectionProgress = (values: SelectedValues) => {
+    setSelectedValues(values);
+    setCoreValues(null);
+  };
+
+  const handleCoreValuesProgress = (values: SelectedValues) => {
+    setCoreValues(values);
+  };
+
   const handleCardSortingComplete = (values: SortedValues) => {
     setSortedValues(values);
     setCurrentStep(1);
@@ -99,8 +175,9 @@ const Home = () => {
     setCurrentStep(3);
   };
 
-  const handleSubmissionComplete = (info: UserInfo) => {
+  const handleSubmissionComplete = (info: UserInfo, receipt: SubmissionReceipt) => {
     setUserInfo(info);
+    setSubmissionReceipt(receipt);
     setCurrentStep(4);
   };
 
@@ -116,7 +193,11 @@ const Home = () => {
     <AppLayout>
       <Stepper currentStep={currentStep} steps={steps} onStepClick={handleStepClick} />
 
-      {isLoading && (
+      {!isHydrating && currentStep !== null && currentStep < 3 && (
+        <ResumeSession resumeCode={resumeCode} />
+      )}
+
+      {(isLoading || isHydrating) && (
         <div className="p-6">
           <div className="mb-6">
             <h2 className="text-2xl font-semibold text-primary mb-2">Sort Your Leadership Value Cards</h2>
@@ -199,41 +280,48 @@ const Home = () => {
         </div>
       )}
 
-      {currentStep === 0 && !isLoading && !error && leadershipValues.length > 0 && (
+      {currentStep === 0 && !isLoading && !isHydrating && !error && leadershipValues.length > 0 && (
         <CardSortingStep 
           leadershipValues={leadershipValues} 
           onComplete={handleCardSortingComplete} 
+          onProgress={handleCardSortingProgress}
         />
       )}
 
-      {currentStep === 1 && sortedValues && (
+      {currentStep === 1 && !isHydrating && sortedValues && (
         <Top10SelectionStep 
           sortedValues={sortedValues} 
           onComplete={handleTop10SelectionComplete}
+          onProgress={handleTop10SelectionProgress}
           onBack={() => moveBackToStep(0)}
         />
       )}
 
-      {currentStep === 2 && selectedValues && (
+      {currentStep === 2 && !isHydrating && selectedValues && (
         <CoreValuesStep 
           selectedValues={selectedValues} 
           onComplete={handleCoreValuesComplete}
+          onProgress={handleCoreValuesProgress}
           onBack={() => moveBackToStep(1)}
         />
       )}
 
-      {currentStep === 3 && coreValues && (
+      {currentStep === 3 && !isHydrating && sortedValues && selectedValues && coreValues && (
         <SubmissionStep 
+          sortedValues={sortedValues}
+          topValues={selectedValues.selected}
           coreValues={coreValues.core}
+          deckId={deck?.id ?? null}
           onComplete={handleSubmissionComplete}
           onBack={() => moveBackToStep(2)}
         />
       )}
 
-      {currentStep === 4 && coreValues && userInfo && (
+      {currentStep === 4 && coreValues && userInfo && submissionReceipt && (
         <CompletionStep 
           coreValues={coreValues.core}
           userInfo={userInfo}
+          receipt={submissionReceipt}
         />
       )}
     </AppLayout>
@@ -0,0 +1,211 @@
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { Link, useLocation, useSearch } from "wouter";
+import * as z from "zod";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+const requestSchema = z.object({
+  identifier: z.string().trim().min(1, "Username or email is required"),
+});
+
+const resetSchema = z
+  .object({
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+// Without a token this page asks for a reset link; with one (from the emailed link) it sets the new password
+const ResetPasswordPage = () => {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get("token");
+
+  const requestForm = useForm<z.infer<typeof requestSchema>>({
+    resolver: zodResolver(requestSchema),
+    defaultValues: {
+      identifier: "",
+    },
+  });
+
+  const resetForm = useForm<z.infer<typeof resetSchema>>({
+    resolver: zodResolver(resetSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (values: z.infer<typeof requestSchema>) => {
+      return apiRequest("POST", "/api/password-reset/request", values);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Request failed",
+        description: error.message.startsWith("429")
+          ? "Too many reset requests. Please try again later."
+          : "Could not send a reset link. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (values: z.infer<typeof resetSchema>) => {
+      return apiRequest("POST", "/api/password-reset/confirm", { token, password: values.password });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password reset",
+        description: "Log in with your new password.",
+      });
+      setLocation("/login");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reset failed",
+        description: error.message.includes("invalid or has expired")
+          ? "This reset link is invalid or has expired. Request a new one."
+          : "Could not reset your password. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mb-4 flex justify-center">
+            <Link href="/">
+              <img
+                src="/logo-extended.webp"
+                alt="A Brighter Day.Life Logo"
+                className="h-[34px]"
+              />
+            </Link>
+          </div>
+          <CardTitle className="text-2xl font-bold">
+            {token ? "Choose a New Password" : "Forgot Password"}
+          </CardTitle>
+          <CardDescription>
+            {token
+              ? "You'll be signed out of every device once your password is reset"
+              : "We'll email a reset link to the address saved on your account"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {token ? (
+            <Form {...resetForm}>
+              <form
+                onSubmit={resetForm.handleSubmit((values) => resetMutation.mutate(values))}
+                className="space-y-6"
+              >
+                <FormField
+                  control={resetForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" placeholder="••••••••" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={resetForm.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" placeholder="••••••••" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={resetMutation.isPending}
+                >
+                  {resetMutation.isPending ? "Resetting..." : "Reset password"}
+                </Button>
+              </form>
+            </Form>
+          ) : requestMutation.isSuccess ? (
+            <p className="text-sm text-center">
+              If that account has an email address saved, a reset link is on its way. The link works once and
+              expires in 1 hour. No email? Ask an admin to check the address on your account.
+            </p>
+          ) : (
+            <Form {...requestForm}>
+              <form
+                onSubmit={requestForm.handleSubmit((values) => requestMutation.mutate(values))}
+                className="space-y-6"
+              >
+                <FormField
+                  control={requestForm.control}
+                  name="identifier"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username or Email</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="username" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={requestMutation.isPending}
+                >
+                  {requestMutation.isPending ? "Sending..." : "Send reset link"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-center flex-col gap-2">
+          <Link href="/login">
+            <Button variant="link" size="sm">
+              Back to Login
+            </Button>
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
@@ -0,0 +1,91 @@
+import ValueChanges from "@/components/card/ValueChanges";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { SubmissionComparison } from "@/types";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+// Opened from the link in the results email, which is what shows the participant owns the address
+const ValueComparisonPage = () => {
+  const params = new URLSearchParams(useSearch());
+  const submissionId = params.get("submission");
+  const token = params.get("token");
+
+  const { data: result, isLoading, error } = useQuery<SubmissionComparison>({
+    queryKey: [`/api/submissions/${submissionId}/comparison?token=${encodeURIComponent(token ?? "")}`],
+    enabled: !!submissionId && !!token,
+    throwOnError: false,
+  });
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-8">
+      <Card className="w-full max-w-2xl">
+        <CardHeader className="text-center">
+          <div className="mb-4 flex justify-center">
+            <Link href="/">
+              <img
+                src="/logo-extended.webp"
+                alt="A Brighter Day.Life Logo"
+                className="h-[34px]"
+              />
+            </Link>
+          </div>
+          <CardTitle className="text-2xl font-bold">Compared With Your Previous Results</CardTitle>
+          {result?.comparison && (
+            <CardDescription>
+              Since {formatDate(result.comparison.previousSubmittedAt)}, here's how your core values have changed.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse h-32 bg-slate-100 rounded" />
+          ) : error || !result ? (
+            <p className="text-center text-muted-foreground">
+              This link is invalid or has expired. Please use the link from your most recent results email.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <div>
+                <h3 className="font-medium text-primary mb-2">
+                  Your core values on {formatDate(result.submittedAt)}
+                </h3>
+                <ol className="flex flex-wrap gap-2">
+                  {result.coreValues.map((value, rank) => (
+                    <li key={value}>
+                      <Badge>
+                        {rank + 1}. {value}
+                      </Badge>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+              {result.comparison ? (
+                <ValueChanges comparison={result.comparison} />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  This was your first assessment, so there's nothing to compare yet.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ValueComparisonPage;
@@ -2,6 +2,68 @@ export interface LeadershipValue {
   id: number;
   value: string;
   description: string;
+  archivedAt?: string | null; // Archived values are hidden from new exercises
+  position?: number; // Card pile order, lowest first
+}
+
+// What importing a file of leadership values would change; rows are numbered as in the file
+export interface ValueImportPreview {
+  created: { row: number; value: string; description: string }[];
+  changed: {
+    row: number;
+    id: number;
+    before: { value: string; description: string };
+    after: { value: string; description: string };
+  }[];
+  unchanged: number;
+  duplicates: { row: number; value: string; firstRow: number }[];
+  errors: { row: number | null; message: string }[]; // Null row for problems with the whole file
+}
+
+export interface ValueImportResult {
+  created: number;
+  changed: number;
+  unchanged: number;
+  duplicates: number;
+}
+
+// The text a leadership value had before one of its edits
+export interface LeadershipValueRevision {
+  id: number;
+  valueId: number;
+  value: string;
+  description: string;
+  replacedBy: number | null;
+  replacedByUsername: string | null;
+  replacedAt: string;
+}
+
+export interface Deck {
+  id: number;
+  name: string;
+  slug: string;
+  description: string | null;
+  shuffle: boolean; // Cards are dealt in random order instead of the set order
+  valueIds: number[];
+  createdAt: string;
+}
+
+export interface Organization {
+  id: number;
+  code: string;
+  name: string;
+  startsOn: string | null;
+  endsOn: string | null;
+  participantCap: number | null;
+  submissionCount: number;
+  createdAt: string;
+}
+
+export interface OrganizationCodeValidation {
+  valid: boolean;
+  status: "valid" | "not_found" | "not_started" | "ended" | "full";
+  message: string;
+  organization?: Pick<Organization, "code" | "name">;
 }
 
 export type Category = "card-pile" | "definitely-me" | "mostly-me" | "not-me";
@@ -20,17 +82,284 @@ export interface SelectedValues {
   "core": LeadershipValue[];
 }
 
+export interface SortingJourney {
+  definitelyMe: number[];
+  mostlyMe: number[];
+  notMe: number[];
+  top10: number[];
+  core: number[];
+}
+
 export interface UserInfo {
   name: string;
   email: string;
   companyCode?: string;
 }
 
+// Returned when a submission is recorded; the token authorises the participant's PDF download
+export interface SubmissionReceipt {
+  submissionId: number;
+  pdfToken: string;
+}
+
+// How core values changed since the participant's previous submission
+export interface ValueComparison {
+  previousSubmissionId: number;
+  previousSubmittedAt: string;
+  kept: string[];
+  dropped: string[];
+  added: string[];
+}
+
+// What the comparison link in the results email shows the participant
+export interface SubmissionComparison {
+  name: string;
+  submittedAt: string;
+  coreValues: string[];
+  comparison: ValueComparison | null; // Null on a participant's first submission
+}
+
 export interface Submission {
   id: number;
   name: string;
   email: string;
   companyCode?: string;
+  organizationId?: number | null;
+  participantId?: number | null;
+  deckId?: number | null;
+  coreValues: string[];
+  coreValueSnapshot?: LeadershipValue[] | null; // Core values as they read at submission time
+  sortingJourney?: SortingJourney | null;
+  consentVersion?: string | null; // Null for submissions recorded before consent was captured
+  marketingOptIn?: boolean;
+  consentedAt?: string | null;
+  anonymizedAt?: string | null; // Set once the retention policy removed the name and email
+  createdAt: string;
+}
+
+// One page of the admin submissions list
+export interface SubmissionPage {
+  submissions: Submission[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// One submission as shown on the admin detail page
+export interface SubmissionDetail {
+  submission: Submission;
+  coreValues: { value: string; description: string }[]; // In ranked order
+  journey: {
+    definitelyMe: string[];
+    mostlyMe: string[];
+    notMe: string[];
+    top10: string[];
+  } | null; // Value names; null for older submissions
+  organization: Pick<Organization, "id" | "code" | "name"> | null;
+  deck: Pick<Deck, "id" | "name" | "slug"> | null;
+  emails: EmailOutboxMessage[] | null; // Newest first; null for roles that can't see the outbox
+  participantSubmissions: number; // Including this one
+}
+
+// One person across repeated assessments, matched by email address
+export interface Participant {
+  id: number;
+  email: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ParticipantHistory {
+  participant: Participant;
+  submissions: (Submission & { comparison: ValueComparison | null })[]; // Newest first
+}
+
+export interface ExerciseSession {
+  id: number;
+  resumeCode: string;
+  currentStep: number;
+  sortedValues: SortedValues | null;
+  selectedValues: SelectedValues | null;
+  coreValues: SelectedValues | null;
+  deckId: number | null; // Deck being sorted, so resuming deals the same cards
+  createdAt: string;
+  updatedAt: string;
+}
+
+// As returned when resuming, with the slug the deck is loaded by
+export interface ExerciseSessionWithDeck extends ExerciseSession {
+  deckSlug: string | null;
+}
+
+export type EmailStatus = "pending" | "sending" | "sent" | "failed";
+
+export interface EmailOutboxMessage {
+  id: number;
+  kind: "results";
+  submissionId: number | null;
+  recipient: string;
+  subject: string;
+  status: EmailStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+export interface EmailTemplateContent {
+  subject: string;
+  body: string;
+}
+
+export interface EmailTemplate extends EmailTemplateContent {
+  id: number;
+  kind: "results";
+  organizationId: number | null;
+  updatedAt: string;
+}
+
+export interface EmailTemplateSettings {
+  builtIn: EmailTemplateContent;
+  placeholders: string[];
+  templates: EmailTemplate[];
+}
+
+export type AnalyticsInterval = "day" | "week" | "month";
+
+export interface AnalyticsSummary {
+  submissions: number;
+  participants: number;
+  companyCodes: number;
+}
+
+export interface CoreValueFrequency {
+  value: string;
+  count: number;
+}
+
+export interface SubmissionVolume {
+  period: string;
+  count: number;
+}
+
+export interface CompanyCodeBreakdown {
+  companyCode: string | null;
+  submissions: number;
+  participants: number;
+}
+
+export interface TeamReportMember {
+  name: string;
+  email: string;
   coreValues: string[];
+  submittedAt: string;
+}
+
+export interface TeamReport {
+  companyCode: string;
+  organizationName: string | null;
+  generatedAt: string;
+  members: TeamReportMember[];
+  sharedValues: { value: string; count: number; share: number }[];
+  unchosenValues: string[];
+  alignmentScore: number | null;
+}
+
+export type UserRole = "viewer" | "editor" | "admin" | "owner";
+
+export interface AdminUser {
+  id: number;
+  username: string;
+  role: UserRole;
+  email: string | null;
+  totpEnabledAt: string | null;
   createdAt: string;
 }
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+export interface SecuritySettings {
+  requireTwoFactor: boolean;
+}
+
+export type RetentionAction = "anonymize" | "delete";
+
+// Months are null to keep submissions indefinitely
+export interface RetentionSettings {
+  enabled: boolean;
+  action: RetentionAction;
+  defaultMonths: number | null;
+  companyCodes: { companyCode: string; months: number | null }[];
+}
+
+export interface RetentionReport {
+  generatedAt: string;
+  action: RetentionAction;
+  total: number;
+  groups: {
+    companyCode: string | null;
+    months: number;
+    cutoff: string;
+    count: number;
+    oldest: string;
+  }[];
+}
+
+export interface RetentionRun {
+  ranAt: string;
+  action: RetentionAction;
+  submissions: number;
+  trigger: "schedule" | "manual";
+}
+
+export interface UserInvite {
+  id: number;
+  role: UserRole;
+  note: string | null;
+  createdBy: number | null;
+  expiresAt: string;
+  acceptedAt: string | null;
+  acceptedBy: number | null;
+  createdAt: string;
+}
+
+export interface AuditLogEntry {
+  id: number;
+  actorId: number | null;
+  actorUsername: string | null;
+  action: string; // e.g. "leadership_value.update"
+  targetType: string;
+  targetId: string | null;
+  before: unknown;
+  after: unknown;
+  success: boolean;
+  ip: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  actions: string[];
+}
+
+// How many records erasing a participant's data removed
+export interface ParticipantErasure {
+  submissions: number;
+  emails: number;
+  auditEntries: number;
+}
@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction } from 'express';
+import { storage } from './storage';
+
+// Values under keys like these never reach the audit log
+const SENSITIVE_KEY_PATTERN = /password|token|secret|hash|recoveryCodes/i;
+
+type AuditActor = { id: number | null; username: string | null };
+
+export interface AuditOptions {
+  targetType: string;
+  /** Defaults to the :id route parameter */
+  targetId?: (req: Request, body: any) => string | number | null | undefined;
+  /** Snapshot taken before the handler runs, e.g. the record about to change */
+  before?: (req: Request) => Promise<unknown> | unknown;
+  /** Snapshot of the result; defaults to the `data` the handler responded with */
+  after?: (req: Request, body: any) => unknown;
+  /** Who acted, for routes that run before anyone is signed in; defaults to req.user */
+  actor?: (req: Request, body: any) => Promise<AuditActor | undefined> | AuditActor | undefined;
+  /** Also record requests the handler rejected, such as failed logins */
+  recordFailures?: boolean;
+}
+
+// Copy a snapshot with sensitive fields removed so it can be stored as JSON
+function redact(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(redact);
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([key]) => !SENSITIVE_KEY_PATTERN.test(key))
+        .map(([key, entry]) => [key, redact(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Middleware recording an audit log entry once the route has responded. Put it
+ * after the authentication middleware so the actor is known. Successful
+ * requests are always recorded; rejected ones only with recordFailures.
+ * Recording never affects the response: errors are logged and swallowed.
+ */
+export function audit(action: string, options: AuditOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    let before: unknown;
+    try {
+      before = options.before ? await options.before(req) : undefined;
+    } catch (error) {
+      console.error(`Audit snapshot failed for ${action}:`, error);
+    }
+
+    // Keep the body the handler sends so the entry can describe the result
+    let responseBody: any;
+    const json = res.json.bind(res);
+    res.json = (body: any) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on('finish', async () => {
+      const success = res.statusCode < 400;
+      if (!success && !options.recordFailures) return;
+
+      try {
+        const actor = options.actor
+          ? await options.actor(req, responseBody)
+          : req.user && { id: req.user.id, username: req.user.username };
+        const targetId = options.targetId ? options.targetId(req, responseBody) : req.params.id;
+
+        await storage.createAuditLogEntry({
+          actorId: actor?.id ?? null,
+          actorUsername: actor?.username ?? null,
+          action,
+          targetType: options.targetType,
+          targetId: targetId == null ? null : String(targetId),
+          before: redact(before),
+          after: success ? redact(options.after ? options.after(req, responseBody) : responseBody?.data) : null,
+          success,
+          ip: req.ip ?? null
+        });
+      } catch (error) {
+        console.error(`Failed to record audit entry for ${action}:`, error);
+      }
+    });
+
+    next();
+  };
+}
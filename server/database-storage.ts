@@ -2,16 +2,75 @@ import {
   users, 
   type User, 
   type InsertUser, 
+  type UserRole,
+  userInvites,
+  type UserInvite,
+  type UserInviteSummary,
+  authSessions,
+  type AuthSession,
+  passwordResetTokens,
+  type PasswordResetToken,
+  recoveryCodes,
+  appSettings,
+  auditLog,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type AuditLogFilters,
   leadershipValues, 
   type LeadershipValue, 
   type InsertLeadershipValue,
+  leadershipValueRevisions,
+  type LeadershipValueRevision,
+  decks,
+  deckValues,
+  type Deck,
+  type DeckWithValues,
+  type InsertDeck,
+  organizations,
+  type Organization,
+  type OrganizationWithStats,
+  type InsertOrganization,
+  participants,
+  type Participant,
   submissions,
   type Submission,
-  type InsertSubmission
+  type InsertSubmission,
+  type NewSubmission,
+  exerciseSessions,
+  type ExerciseSession,
+  type InsertExerciseSession,
+  type ExerciseState,
+  emailOutbox,
+  type EmailOutboxMessage,
+  type EmailOutboxSummary,
+  type InsertEmailOutboxMessage,
+  emailDeliveryAttempts,
+  type EmailDeliveryAttempt,
+  type InsertEmailDeliveryAttempt,
+  emailTemplates,
+  type EmailKind,
+  type EmailTemplate,
+  type InsertEmailTemplate,
+  type AnalyticsFilters,
+  type SubmissionSearch,
+  type AnalyticsInterval,
+  type AnalyticsSummary,
+  type CoreValueFrequency,
+  type SubmissionVolume,
+  type CompanyCodeBreakdown,
+  type ParticipantErasure,
+  type RetentionCutoffs,
+  type RetentionCandidate,
+  normalizeCompanyCode
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, isNotNull, desc } from "drizzle-orm";
-import { IStorage } from "./storage";
+import { eq, ne, gt, isNotNull, isNull, desc, asc, count, countDistinct, and, or, inArray, notInArray, lte, gte, lt, ilike, sql, getTableColumns, type SQL } from "drizzle-orm";
+import { IStorage, type RevisionEditor } from "./storage";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Submissions from before codes were normalized may have stored one as it was typed, e.g. " acme"
+const submissionCompanyCode = sql<string>`upper(trim(${submissions.companyCode}))`;
 
 export class DatabaseStorage implements IStorage {
   constructor() {
@@ -28,6 +87,11 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user || undefined;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -35,10 +99,341 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return user;
   }
+
+  async getAllUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async countUsers(): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(users);
+    return result.count;
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!updatedUser) {
+      throw new Error(`User with id ${id} not found`);
+    }
+
+    return updatedUser;
+  }
+
+  async updateUserEmail(id: number, email: string | null): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ email })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!updatedUser) {
+      throw new Error(`User with id ${id} not found`);
+    }
+
+    return updatedUser;
+  }
+
+  async updateUserPassword(id: number, password: string): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ password })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!updatedUser) {
+      throw new Error(`User with id ${id} not found`);
+    }
+
+    return updatedUser;
+  }
+
+  async updateUserTwoFactor(id: number, fields: Partial<Pick<User, "totpSecret" | "totpEnabledAt" | "totpLastUsedStep">>): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set(fields)
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!updatedUser) {
+      throw new Error(`User with id ${id} not found`);
+    }
+
+    return updatedUser;
+  }
+
+  async claimTotpStep(id: number, step: number): Promise<boolean> {
+    const result = await db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, id),
+        or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))
+      ))
+      .returning({ id: users.id });
+    return result.length > 0;
+  }
+
+  async deleteUser(id: number): Promise<void> {
+    const result = await db
+      .delete(users)
+      .where(eq(users.id, id))
+      .returning({ id: users.id });
+
+    if (result.length === 0) {
+      throw new Error(`User with id ${id} not found`);
+    }
+  }
+
+  // User invite methods
+  async createUserInvite(insertInvite: Omit<UserInvite, "id" | "acceptedAt" | "acceptedBy" | "createdAt">): Promise<UserInvite> {
+    const [invite] = await db
+      .insert(userInvites)
+      .values(insertInvite)
+      .returning();
+    return invite;
+  }
+
+  async getUserInviteById(id: number): Promise<UserInvite | undefined> {
+    const [invite] = await db.select().from(userInvites).where(eq(userInvites.id, id));
+    return invite || undefined;
+  }
+
+  async getUserInviteByTokenHash(tokenHash: string): Promise<UserInvite | undefined> {
+    const [invite] = await db.select().from(userInvites).where(eq(userInvites.tokenHash, tokenHash));
+    return invite || undefined;
+  }
+
+  async getAllUserInvites(): Promise<UserInviteSummary[]> {
+    const { tokenHash, ...summaryColumns } = getTableColumns(userInvites);
+    return db.select(summaryColumns).from(userInvites).orderBy(desc(userInvites.createdAt));
+  }
+
+  async deleteUserInvite(id: number): Promise<void> {
+    const result = await db
+      .delete(userInvites)
+      .where(eq(userInvites.id, id))
+      .returning({ id: userInvites.id });
+
+    if (result.length === 0) {
+      throw new Error(`Invite with id ${id} not found`);
+    }
+  }
+
+  async createUserFromInvite(tokenHash: string, insertUser: Omit<InsertUser, "role">): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      // Claiming the invite first means two people racing for the same link can't both register
+      const [invite] = await tx
+        .update(userInvites)
+        .set({ acceptedAt: new Date() })
+        .where(and(
+          eq(userInvites.tokenHash, tokenHash),
+          isNull(userInvites.acceptedAt),
+          gt(userInvites.expiresAt, new Date())
+        ))
+        .returning();
+
+      if (!invite) {
+        return undefined;
+      }
+
+      const [user] = await tx
+        .insert(users)
+        .values({ ...insertUser, role: invite.role })
+        .returning();
+
+      await tx
+        .update(userInvites)
+        .set({ acceptedBy: user.id })
+        .where(eq(userInvites.id, invite.id));
+
+      return user;
+    });
+  }
+
+  // Auth session methods
+  async createAuthSession(insertSession: Omit<AuthSession, "id" | "previousTokenHash" | "rotatedAt" | "revokedAt" | "createdAt">): Promise<AuthSession> {
+    const [session] = await db
+      .insert(authSessions)
+      .values(insertSession)
+      .returning();
+    return session;
+  }
+
+  async getAuthSession(id: number): Promise<AuthSession | undefined> {
+    const [session] = await db.select().from(authSessions).where(eq(authSessions.id, id));
+    return session || undefined;
+  }
+
+  async getAuthSessionByTokenHash(tokenHash: string): Promise<AuthSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(authSessions)
+      .where(or(
+        eq(authSessions.refreshTokenHash, tokenHash),
+        eq(authSessions.previousTokenHash, tokenHash)
+      ));
+    return session || undefined;
+  }
+
+  async rotateAuthSession(id: number, currentTokenHash: string, refreshTokenHash: string, expiresAt: Date): Promise<AuthSession | undefined> {
+    // Conditional on the current hash so two concurrent refreshes can't both succeed
+    const [session] = await db
+      .update(authSessions)
+      .set({
+        refreshTokenHash,
+        previousTokenHash: currentTokenHash,
+        expiresAt,
+        rotatedAt: new Date()
+      })
+      .where(and(
+        eq(authSessions.id, id),
+        eq(authSessions.refreshTokenHash, currentTokenHash),
+        isNull(authSessions.revokedAt)
+      ))
+      .returning();
+    return session || undefined;
+  }
+
+  async revokeAuthSession(id: number): Promise<void> {
+    await db
+      .update(authSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(authSessions.id, id), isNull(authSessions.revokedAt)));
+  }
+
+  async revokeUserAuthSessions(userId: number, exceptSessionId?: number): Promise<number> {
+    const conditions: SQL[] = [eq(authSessions.userId, userId), isNull(authSessions.revokedAt)];
+    if (exceptSessionId !== undefined) {
+      conditions.push(ne(authSessions.id, exceptSessionId));
+    }
+
+    const result = await db
+      .update(authSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: authSessions.id });
+    return result.length;
+  }
+
+  // Password reset methods
+  async createPasswordResetToken(insertToken: Omit<PasswordResetToken, "id" | "usedAt" | "createdAt">): Promise<PasswordResetToken> {
+    const [token] = await db
+      .insert(passwordResetTokens)
+      .values(insertToken)
+      .returning();
+    return token;
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    // A single conditional update, so a link clicked twice at once is only honoured once
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token || undefined;
+  }
+
+  // Recovery code methods
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      if (codeHashes.length > 0) {
+        await tx.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+      }
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const result = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt)
+      ))
+      .returning({ id: recoveryCodes.id });
+    return result.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return result.count;
+  }
+
+  // App settings methods
+  async getAppSetting(key: string): Promise<unknown | undefined> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting?.value;
+  }
+
+  async saveAppSetting(key: string, value: unknown, updatedBy: number | null): Promise<void> {
+    await db
+      .insert(appSettings)
+      .values({ key, value, updatedBy })
+      .onConflictDoUpdate({
+        target: appSettings.key,
+        set: { value, updatedBy, updatedAt: new Date() }
+      });
+  }
+
+  // Audit log methods
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [auditLogEntry] = await db.insert(auditLog).values(entry).returning();
+    return auditLogEntry;
+  }
+
+  async getAuditLog(
+    { action, targetType, actorId, from, to }: AuditLogFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (action) conditions.push(eq(auditLog.action, action));
+    if (targetType) conditions.push(eq(auditLog.targetType, targetType));
+    if (actorId) conditions.push(eq(auditLog.actorId, actorId));
+    if (from) conditions.push(gte(auditLog.createdAt, new Date(`${from}T00:00:00Z`)));
+    if (to) {
+      const dayAfter = new Date(`${to}T00:00:00Z`);
+      dayAfter.setUTCDate(dayAfter.getUTCDate() + 1);
+      conditions.push(lt(auditLog.createdAt, dayAfter));
+    }
+    const where = and(...conditions);
+
+    const entries = await db
+      .select()
+      .from(auditLog)
+      .where(where)
+      .orderBy(desc(auditLog.id))
+      .limit(limit)
+      .offset(offset);
+    const [result] = await db.select({ total: count() }).from(auditLog).where(where);
+    return { entries, total: result.total };
+  }
+
+  async getAuditLogActions(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ action: auditLog.action })
+      .from(auditLog)
+      .orderBy(asc(auditLog.action));
+    return rows.map(row => row.action);
+  }
   
   // Leadership Values methods
   async getAllLeadershipValues(): Promise<LeadershipValue[]> {
-    return db.select().from(leadershipValues).orderBy(desc(leadershipValues.id));
+    return db.select().from(leadershipValues).orderBy(asc(leadershipValues.position), asc(leadershipValues.id));
   }
   
   async getLeadershipValueById(id: number): Promise<LeadershipValue | undefined> {
@@ -49,17 +444,74 @@ export class DatabaseStorage implements IStorage {
   async createLeadershipValue(insertValue: InsertLeadershipValue): Promise<LeadershipValue> {
     const [value] = await db
       .insert(leadershipValues)
-      .values(insertValue)
+      .values({ ...insertValue, position: sql`(select coalesce(max(${leadershipValues.position}), 0) + 1 from ${leadershipValues})` })
       .returning();
     return value;
   }
   
-  async updateLeadershipValue(id: number, insertValue: InsertLeadershipValue): Promise<LeadershipValue> {
-    const [updatedValue] = await db
+  async updateLeadershipValue(id: number, insertValue: InsertLeadershipValue, editor: RevisionEditor | null): Promise<LeadershipValue> {
+    return db.transaction(tx => this.updateLeadershipValueIn(tx, id, insertValue, editor));
+  }
+
+  private async updateLeadershipValueIn(
+    tx: Transaction,
+    id: number,
+    insertValue: InsertLeadershipValue,
+    editor: RevisionEditor | null
+  ): Promise<LeadershipValue> {
+    const [existingValue] = await tx
+      .select()
+      .from(leadershipValues)
+      .where(eq(leadershipValues.id, id))
+      .for("update");
+
+    if (!existingValue) {
+      throw new Error(`Leadership value with id ${id} not found`);
+    }
+
+    if (existingValue.value !== insertValue.value || existingValue.description !== insertValue.description) {
+      await tx.insert(leadershipValueRevisions).values({
+        valueId: id,
+        value: existingValue.value,
+        description: existingValue.description,
+        replacedBy: editor?.id ?? null,
+        replacedByUsername: editor?.username ?? null
+      });
+    }
+
+    const [updatedValue] = await tx
       .update(leadershipValues)
       .set(insertValue)
       .where(eq(leadershipValues.id, id))
       .returning();
+    return updatedValue;
+  }
+
+  async importLeadershipValues(
+    created: InsertLeadershipValue[],
+    changed: { id: number; value: InsertLeadershipValue }[],
+    editor: RevisionEditor | null
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const { id, value } of changed) {
+        await this.updateLeadershipValueIn(tx, id, value, editor);
+      }
+      if (created.length > 0) {
+        // New values go to the end of the card pile, in file order
+        const [{ lastPosition }] = await tx
+          .select({ lastPosition: sql<number>`coalesce(max(${leadershipValues.position}), 0)::int` })
+          .from(leadershipValues);
+        await tx.insert(leadershipValues).values(created.map((value, index) => ({ ...value, position: lastPosition + index + 1 })));
+      }
+    });
+  }
+  
+  async setLeadershipValueArchived(id: number, archived: boolean): Promise<LeadershipValue> {
+    const [updatedValue] = await db
+      .update(leadershipValues)
+      .set({ archivedAt: archived ? new Date() : null })
+      .where(eq(leadershipValues.id, id))
+      .returning();
       
     if (!updatedValue) {
       throw new Error(`Leadership value with id ${id} not found`);
@@ -67,20 +519,213 @@ export class DatabaseStorage implements IStorage {
     
     return updatedValue;
   }
-  
-  async deleteLeadershipValue(id: number): Promise<void> {
+
+  async reorderLeadershipValues(valueIds: number[]): Promise<LeadershipValue[]> {
+    return db.transaction(async (tx) => {
+      const current = await tx
+        .select()
+        .from(leadershipValues)
+        .orderBy(asc(leadershipValues.position), asc(leadershipValues.id))
+        .for("update");
+
+      const byId = new Map(current.map(value => [value.id, value]));
+      const listed = valueIds.map(id => {
+        const value = byId.get(id);
+        if (!value) {
+          throw new Error(`Leadership value with id ${id} not found`);
+        }
+        return value;
+      });
+      const rest = current.filter(value => !valueIds.includes(value.id));
+
+      const reordered = [...listed, ...rest].map((value, index) => ({ ...value, position: index + 1 }));
+      for (const value of reordered) {
+        if (value.position !== byId.get(value.id)!.position) {
+          await tx.update(leadershipValues).set({ position: value.position }).where(eq(leadershipValues.id, value.id));
+        }
+      }
+      return reordered;
+    });
+  }
+
+  async getLeadershipValueRevisions(valueId: number): Promise<LeadershipValueRevision[]> {
+    return db
+      .select()
+      .from(leadershipValueRevisions)
+      .where(eq(leadershipValueRevisions.valueId, valueId))
+      .orderBy(desc(leadershipValueRevisions.id));
+  }
+
+  async getLeadershipValuesByDeck(deckId: number): Promise<LeadershipValue[]> {
+    const rows = await db
+      .select({ value: leadershipValues })
+      .from(leadershipValues)
+      .innerJoin(deckValues, eq(deckValues.valueId, leadershipValues.id))
+      .where(and(eq(deckValues.deckId, deckId), isNull(leadershipValues.archivedAt)))
+      .orderBy(asc(leadershipValues.position), asc(leadershipValues.id));
+    return rows.map(row => row.value);
+  }
+
+  // Deck methods
+  private async withValueIds(deck: Deck): Promise<DeckWithValues> {
+    const members = await db
+      .select({ valueId: deckValues.valueId })
+      .from(deckValues)
+      .where(eq(deckValues.deckId, deck.id));
+    return { ...deck, valueIds: members.map(member => member.valueId) };
+  }
+
+  async getAllDecks(): Promise<DeckWithValues[]> {
+    const allDecks = await db.select().from(decks).orderBy(asc(decks.name));
+    const members = await db.select().from(deckValues);
+    return allDecks.map(deck => ({
+      ...deck,
+      valueIds: members.filter(member => member.deckId === deck.id).map(member => member.valueId)
+    }));
+  }
+
+  async getDeckById(id: number): Promise<DeckWithValues | undefined> {
+    const [deck] = await db.select().from(decks).where(eq(decks.id, id));
+    return deck ? this.withValueIds(deck) : undefined;
+  }
+
+  async getDeckBySlug(slug: string): Promise<DeckWithValues | undefined> {
+    const [deck] = await db.select().from(decks).where(eq(decks.slug, slug));
+    return deck ? this.withValueIds(deck) : undefined;
+  }
+
+  async createDeck(insertDeck: InsertDeck): Promise<DeckWithValues> {
+    const { valueIds, ...deckData } = insertDeck;
+    return db.transaction(async (tx) => {
+      const [deck] = await tx.insert(decks).values(deckData).returning();
+      if (valueIds.length > 0) {
+        await tx.insert(deckValues).values(valueIds.map(valueId => ({ deckId: deck.id, valueId })));
+      }
+      return { ...deck, valueIds };
+    });
+  }
+
+  async updateDeck(id: number, insertDeck: InsertDeck): Promise<DeckWithValues> {
+    const { valueIds, ...deckData } = insertDeck;
+    return db.transaction(async (tx) => {
+      const [deck] = await tx
+        .update(decks)
+        .set(deckData)
+        .where(eq(decks.id, id))
+        .returning();
+
+      if (!deck) {
+        throw new Error(`Deck with id ${id} not found`);
+      }
+
+      // Replace the deck's membership wholesale
+      await tx.delete(deckValues).where(eq(deckValues.deckId, id));
+      if (valueIds.length > 0) {
+        await tx.insert(deckValues).values(valueIds.map(valueId => ({ deckId: id, valueId })));
+      }
+      return { ...deck, valueIds };
+    });
+  }
+
+  async deleteDeck(id: number): Promise<void> {
     const result = await db
-      .delete(leadershipValues)
-      .where(eq(leadershipValues.id, id))
-      .returning({ id: leadershipValues.id });
-      
+      .delete(decks)
+      .where(eq(decks.id, id))
+      .returning({ id: decks.id });
+
     if (result.length === 0) {
-      throw new Error(`Leadership value with id ${id} not found`);
+      throw new Error(`Deck with id ${id} not found`);
     }
   }
   
+  // Organization methods
+  async getAllOrganizations(): Promise<OrganizationWithStats[]> {
+    const rows = await db
+      .select({ organization: organizations, submissionCount: count(submissions.id) })
+      .from(organizations)
+      .leftJoin(submissions, eq(submissions.organizationId, organizations.id))
+      .groupBy(organizations.id)
+      .orderBy(asc(organizations.name));
+    return rows.map(row => ({ ...row.organization, submissionCount: row.submissionCount }));
+  }
+
+  async getOrganizationById(id: number): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization || undefined;
+  }
+
+  async getOrganizationByCode(code: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.code, code));
+    return organization || undefined;
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const [organization] = await db
+      .insert(organizations)
+      .values(insertOrganization)
+      .returning();
+    return organization;
+  }
+
+  async updateOrganization(id: number, insertOrganization: InsertOrganization): Promise<Organization> {
+    const [updatedOrganization] = await db
+      .update(organizations)
+      .set(insertOrganization)
+      .where(eq(organizations.id, id))
+      .returning();
+
+    if (!updatedOrganization) {
+      throw new Error(`Organization with id ${id} not found`);
+    }
+
+    return updatedOrganization;
+  }
+
+  async deleteOrganization(id: number): Promise<void> {
+    const result = await db
+      .delete(organizations)
+      .where(eq(organizations.id, id))
+      .returning({ id: organizations.id });
+
+    if (result.length === 0) {
+      throw new Error(`Organization with id ${id} not found`);
+    }
+  }
+
+  async getSubmissionCountByOrganization(organizationId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(submissions)
+      .where(eq(submissions.organizationId, organizationId));
+    return result.count;
+  }
+
+  // Participant methods
+  async upsertParticipant(email: string, name: string): Promise<Participant> {
+    const now = new Date();
+    const [participant] = await db
+      .insert(participants)
+      .values({ email, name, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({ target: participants.email, set: { updatedAt: now } })
+      .returning();
+    return participant;
+  }
+
+  async getParticipantById(id: number): Promise<Participant | undefined> {
+    const [participant] = await db.select().from(participants).where(eq(participants.id, id));
+    return participant || undefined;
+  }
+
+  async getSubmissionsByParticipant(participantId: number): Promise<Submission[]> {
+    return db
+      .select()
+      .from(submissions)
+      .where(eq(submissions.participantId, participantId))
+      .orderBy(desc(submissions.createdAt), desc(submissions.id));
+  }
+
   // Submission methods
-  async createSubmission(insertSubmission: InsertSubmission): Promise<Submission> {
+  async createSubmission(insertSubmission: NewSubmission): Promise<Submission> {
     const [submission] = await db
       .insert(submissions)
       .values({
@@ -96,12 +741,66 @@ export class DatabaseStorage implements IStorage {
     return submission || undefined;
   }
   
+  async consumeSubmissionEmailToken(id: number, tokenHash: string): Promise<boolean> {
+    // Clearing the hash in the same statement that matches it makes the token single-use
+    const result = await db
+      .update(submissions)
+      .set({ emailTokenHash: null })
+      .where(and(eq(submissions.id, id), eq(submissions.emailTokenHash, tokenHash)))
+      .returning({ id: submissions.id });
+    return result.length > 0;
+  }
+
+  async restoreSubmissionEmailToken(id: number, tokenHash: string): Promise<void> {
+    await db
+      .update(submissions)
+      .set({ emailTokenHash: tokenHash })
+      .where(and(eq(submissions.id, id), isNull(submissions.emailTokenHash)));
+  }
+
   async getAllSubmissions(): Promise<Submission[]> {
     return db.select().from(submissions).orderBy(desc(submissions.createdAt));
   }
 
+  async searchSubmissions(
+    filters: SubmissionSearch,
+    page?: { limit: number; offset: number }
+  ): Promise<{ submissions: Submission[]; total: number }> {
+    const conditions: SQL[] = [];
+    const dateAndCompany = this.analyticsConditions(filters);
+    if (dateAndCompany) conditions.push(dateAndCompany);
+    if (filters.search) {
+      // Escape LIKE wildcards so they match literally
+      const pattern = `%${filters.search.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      conditions.push(or(ilike(submissions.name, pattern), ilike(submissions.email, pattern))!);
+    }
+    if (filters.coreValue) {
+      conditions.push(sql`${submissions.coreValues} @> ${JSON.stringify([filters.coreValue])}::jsonb`);
+    }
+    const where = and(...conditions);
+
+    const query = db
+      .select()
+      .from(submissions)
+      .where(where)
+      .orderBy(desc(submissions.createdAt), desc(submissions.id));
+
+    if (!page) {
+      const rows = await query;
+      return { submissions: rows, total: rows.length };
+    }
+
+    const rows = await query.limit(page.limit).offset(page.offset);
+    const [result] = await db.select({ total: count() }).from(submissions).where(where);
+    return { submissions: rows, total: result.total };
+  }
+
   async getSubmissionsByCompanyCode(companyCode: string): Promise<Submission[]> {
-    return db.select().from(submissions).where(eq(submissions.companyCode, companyCode)).orderBy(desc(submissions.createdAt));
+    return db
+      .select()
+      .from(submissions)
+      .where(eq(submissionCompanyCode, normalizeCompanyCode(companyCode)))
+      .orderBy(desc(submissions.createdAt));
   }
 
   async getUniqueCompanyCodes(): Promise<string[]> {
@@ -111,4 +810,407 @@ export class DatabaseStorage implements IStorage {
       .where(isNotNull(submissions.companyCode));
     return result.map(row => row.companyCode).filter((code): code is string => Boolean(code));
   }
+
+  // Exercise session methods
+  async createExerciseSession(insertSession: InsertExerciseSession): Promise<ExerciseSession> {
+    const [session] = await db
+      .insert(exerciseSessions)
+      .values(insertSession)
+      .returning();
+    return session;
+  }
+
+  async getExerciseSessionByCode(resumeCode: string): Promise<ExerciseSession | undefined> {
+    const [session] = await db.select().from(exerciseSessions).where(eq(exerciseSessions.resumeCode, resumeCode));
+    return session || undefined;
+  }
+
+  async updateExerciseSession(resumeCode: string, state: Partial<ExerciseState>): Promise<ExerciseSession> {
+    const [updatedSession] = await db
+      .update(exerciseSessions)
+      .set({ ...state, updatedAt: new Date() })
+      .where(eq(exerciseSessions.resumeCode, resumeCode))
+      .returning();
+
+    if (!updatedSession) {
+      throw new Error(`Exercise session with code ${resumeCode} not found`);
+    }
+
+    return updatedSession;
+  }
+
+  // Email outbox methods
+  async createOutboxMessage(insertMessage: InsertEmailOutboxMessage): Promise<EmailOutboxMessage> {
+    const [message] = await db
+      .insert(emailOutbox)
+      .values(insertMessage)
+      .returning();
+    return message;
+  }
+
+  async getOutboxMessageById(id: number): Promise<EmailOutboxMessage | undefined> {
+    const [message] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return message || undefined;
+  }
+
+  async getOutboxSummaries(submissionId?: number): Promise<EmailOutboxSummary[]> {
+    const { html, ...summaryColumns } = getTableColumns(emailOutbox);
+    return db
+      .select(summaryColumns)
+      .from(emailOutbox)
+      .where(submissionId === undefined ? undefined : eq(emailOutbox.submissionId, submissionId))
+      .orderBy(desc(emailOutbox.createdAt));
+  }
+
+  async getDueOutboxMessageIds(now: Date, limit: number): Promise<number[]> {
+    const rows = await db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(and(inArray(emailOutbox.status, ["pending", "sending"]), lte(emailOutbox.nextAttemptAt, now)))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit);
+    return rows.map(row => row.id);
+  }
+
+  async claimOutboxMessage(id: number, now: Date, leaseUntil: Date): Promise<EmailOutboxMessage | undefined> {
+    // Claiming pushes nextAttemptAt out as a lease, so a crashed send is retried once the lease expires
+    const [message] = await db
+      .update(emailOutbox)
+      .set({ status: "sending", nextAttemptAt: leaseUntil })
+      .where(and(
+        eq(emailOutbox.id, id),
+        inArray(emailOutbox.status, ["pending", "sending"]),
+        lte(emailOutbox.nextAttemptAt, now)
+      ))
+      .returning();
+    return message || undefined;
+  }
+
+  async updateOutboxMessage(id: number, update: Partial<InsertEmailOutboxMessage>): Promise<EmailOutboxMessage> {
+    const [updatedMessage] = await db
+      .update(emailOutbox)
+      .set(update)
+      .where(eq(emailOutbox.id, id))
+      .returning();
+
+    if (!updatedMessage) {
+      throw new Error(`Outbox message with id ${id} not found`);
+    }
+
+    return updatedMessage;
+  }
+
+  async requeueOutboxMessage(id: number, now: Date): Promise<EmailOutboxMessage | undefined> {
+    // Conditional on the status so a message the worker has claimed can't be sent twice
+    const [message] = await db
+      .update(emailOutbox)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: now })
+      .where(and(eq(emailOutbox.id, id), inArray(emailOutbox.status, ["pending", "failed"])))
+      .returning();
+    return message || undefined;
+  }
+
+  async createEmailDeliveryAttempt(insertAttempt: InsertEmailDeliveryAttempt): Promise<EmailDeliveryAttempt> {
+    const [attempt] = await db
+      .insert(emailDeliveryAttempts)
+      .values(insertAttempt)
+      .returning();
+    return attempt;
+  }
+
+  async getEmailDeliveryAttempts(outboxId: number): Promise<EmailDeliveryAttempt[]> {
+    return db
+      .select()
+      .from(emailDeliveryAttempts)
+      .where(eq(emailDeliveryAttempts.outboxId, outboxId))
+      .orderBy(asc(emailDeliveryAttempts.attemptedAt));
+  }
+
+  // Data-subject methods
+  private participantConditions(email: string) {
+    const address = email.toLowerCase();
+    return {
+      participant: eq(participants.email, address),
+      submission: sql`lower(${submissions.email}) = ${address}`,
+      recipient: sql`lower(${emailOutbox.recipient}) = ${address}`
+    };
+  }
+
+  async getParticipantRecords(email: string): Promise<{ participant: Participant | undefined; submissions: Submission[]; emails: EmailOutboxMessage[] }> {
+    const conditions = this.participantConditions(email);
+    const [participant] = await db.select().from(participants).where(conditions.participant);
+    const participantSubmissions = await db
+      .select()
+      .from(submissions)
+      .where(conditions.submission)
+      .orderBy(desc(submissions.createdAt));
+    const submissionIds = participantSubmissions.map(submission => submission.id);
+    const emails = await db
+      .select()
+      .from(emailOutbox)
+      .where(submissionIds.length > 0
+        ? or(conditions.recipient, inArray(emailOutbox.submissionId, submissionIds))
+        : conditions.recipient)
+      .orderBy(desc(emailOutbox.createdAt));
+    return { participant, submissions: participantSubmissions, emails };
+  }
+
+  async eraseParticipantData(email: string): Promise<ParticipantErasure> {
+    const conditions = this.participantConditions(email);
+    // Escape LIKE wildcards so the address matches literally
+    const mentionsAddress = `%${email.toLowerCase().replace(/[\\%_]/g, match => `\\${match}`)}%`;
+
+    return db.transaction(async (tx) => {
+      const submissionIds = (await tx
+        .select({ id: submissions.id })
+        .from(submissions)
+        .where(conditions.submission))
+        .map(row => row.id);
+
+      // Delivery attempts go with their outbox rows
+      const emailIds = (await tx
+        .delete(emailOutbox)
+        .where(submissionIds.length > 0
+          ? or(conditions.recipient, inArray(emailOutbox.submissionId, submissionIds))
+          : conditions.recipient)
+        .returning({ id: emailOutbox.id }))
+        .map(row => row.id);
+
+      const scrubbedEntries = await tx
+        .update(auditLog)
+        .set({ before: null, after: null })
+        .where(or(
+          sql`lower(concat(${auditLog.before}::text, ${auditLog.after}::text)) like ${mentionsAddress}`,
+          ...this.auditTargets(submissionIds, emailIds)
+        ))
+        .returning({ id: auditLog.id });
+
+      if (submissionIds.length > 0) {
+        await tx.delete(submissions).where(inArray(submissions.id, submissionIds));
+      }
+      await tx.delete(participants).where(conditions.participant);
+
+      return {
+        submissions: submissionIds.length,
+        emails: emailIds.length,
+        auditEntries: scrubbedEntries.length
+      };
+    });
+  }
+
+  // Audit entries about the given submissions or emails
+  private auditTargets(submissionIds: number[], emailIds: number[]): SQL[] {
+    const targets: SQL[] = [];
+    if (submissionIds.length > 0) {
+      targets.push(and(eq(auditLog.targetType, "submission"), inArray(auditLog.targetId, submissionIds.map(String)))!);
+    }
+    if (emailIds.length > 0) {
+      targets.push(and(eq(auditLog.targetType, "email"), inArray(auditLog.targetId, emailIds.map(String)))!);
+    }
+    return targets;
+  }
+
+  private async getSubmissionParticipantIds(tx: Transaction, submissionIds: number[]): Promise<number[]> {
+    const rows = await tx
+      .selectDistinct({ participantId: submissions.participantId })
+      .from(submissions)
+      .where(and(inArray(submissions.id, submissionIds), isNotNull(submissions.participantId)));
+    return rows.map(row => row.participantId!);
+  }
+
+  // Participants left without submissions once theirs were anonymized or deleted
+  private async deleteOrphanedParticipants(tx: Transaction, participantIds: number[]) {
+    if (participantIds.length === 0) return;
+    await tx
+      .delete(participants)
+      .where(and(
+        inArray(participants.id, participantIds),
+        sql`not exists (select 1 from ${submissions} where ${submissions.participantId} = ${participants.id})`
+      ));
+  }
+
+  // Retention methods
+  async getExpiredSubmissions(cutoffs: RetentionCutoffs, includeAnonymized: boolean): Promise<RetentionCandidate[]> {
+    const ownRules = Object.entries(cutoffs.companyCodes);
+    const rules: SQL[] = ownRules.flatMap(([companyCode, cutoff]) =>
+      cutoff ? [and(eq(submissionCompanyCode, companyCode), lt(submissions.createdAt, cutoff))!] : []
+    );
+    if (cutoffs.default) {
+      rules.push(and(
+        ownRules.length > 0
+          ? or(isNull(submissions.companyCode), notInArray(submissionCompanyCode, ownRules.map(([companyCode]) => companyCode)))
+          : undefined,
+        lt(submissions.createdAt, cutoffs.default)
+      )!);
+    }
+    if (rules.length === 0) return [];
+
+    return db
+      .select({ id: submissions.id, companyCode: submissions.companyCode, createdAt: submissions.createdAt })
+      .from(submissions)
+      .where(and(or(...rules), includeAnonymized ? undefined : isNull(submissions.anonymizedAt)))
+      .orderBy(asc(submissions.createdAt));
+  }
+
+  async anonymizeSubmissions(ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    return db.transaction(async (tx) => {
+      const emailIds = (await tx
+        .delete(emailOutbox)
+        .where(inArray(emailOutbox.submissionId, ids))
+        .returning({ id: emailOutbox.id }))
+        .map(row => row.id);
+
+      await tx
+        .update(auditLog)
+        .set({ before: null, after: null })
+        .where(or(...this.auditTargets(ids, emailIds)));
+
+      const participantIds = await this.getSubmissionParticipantIds(tx, ids);
+      const anonymized = await tx
+        .update(submissions)
+        .set({
+          name: "Anonymized participant",
+          // Unique per submission so participant counts in analytics don't collapse into one
+          email: sql`'anonymized-' || ${submissions.id} || '@invalid'`,
+          participantId: null,
+          emailTokenHash: null,
+          marketingOptIn: false,
+          anonymizedAt: new Date()
+        })
+        .where(inArray(submissions.id, ids))
+        .returning({ id: submissions.id });
+      await this.deleteOrphanedParticipants(tx, participantIds);
+      return anonymized.length;
+    });
+  }
+
+  async deleteSubmissions(ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    return db.transaction(async (tx) => {
+      const emailIds = (await tx
+        .select({ id: emailOutbox.id })
+        .from(emailOutbox)
+        .where(inArray(emailOutbox.submissionId, ids)))
+        .map(row => row.id);
+
+      await tx
+        .update(auditLog)
+        .set({ before: null, after: null })
+        .where(or(...this.auditTargets(ids, emailIds)));
+
+      // Emails and their delivery attempts go with the submissions
+      const participantIds = await this.getSubmissionParticipantIds(tx, ids);
+      const deleted = await tx
+        .delete(submissions)
+        .where(inArray(submissions.id, ids))
+        .returning({ id: submissions.id });
+      await this.deleteOrphanedParticipants(tx, participantIds);
+      return deleted.length;
+    });
+  }
+
+  // Email template methods
+  async getEmailTemplates(kind: EmailKind): Promise<EmailTemplate[]> {
+    return db.select().from(emailTemplates).where(eq(emailTemplates.kind, kind));
+  }
+
+  async getEmailTemplate(kind: EmailKind, organizationId: number | null): Promise<EmailTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(emailTemplates)
+      .where(and(
+        eq(emailTemplates.kind, kind),
+        organizationId === null ? isNull(emailTemplates.organizationId) : eq(emailTemplates.organizationId, organizationId)
+      ));
+    return template || undefined;
+  }
+
+  async saveEmailTemplate(kind: EmailKind, insertTemplate: InsertEmailTemplate): Promise<EmailTemplate> {
+    const [template] = await db
+      .insert(emailTemplates)
+      .values({ ...insertTemplate, kind })
+      .onConflictDoUpdate({
+        target: [emailTemplates.kind, emailTemplates.organizationId],
+        set: { subject: insertTemplate.subject, body: insertTemplate.body, updatedAt: new Date() }
+      })
+      .returning();
+    return template;
+  }
+
+  async deleteEmailTemplate(kind: EmailKind, organizationId: number | null): Promise<void> {
+    const result = await db
+      .delete(emailTemplates)
+      .where(and(
+        eq(emailTemplates.kind, kind),
+        organizationId === null ? isNull(emailTemplates.organizationId) : eq(emailTemplates.organizationId, organizationId)
+      ))
+      .returning({ id: emailTemplates.id });
+
+    if (result.length === 0) {
+      throw new Error(`Email template for ${kind} not found`);
+    }
+  }
+
+  // Analytics methods
+  private analyticsConditions({ companyCode, from, to }: AnalyticsFilters): SQL | undefined {
+    const conditions: SQL[] = [];
+    if (companyCode) conditions.push(eq(submissions.companyCode, companyCode));
+    if (from) conditions.push(gte(submissions.createdAt, new Date(`${from}T00:00:00Z`)));
+    if (to) {
+      const dayAfter = new Date(`${to}T00:00:00Z`);
+      dayAfter.setUTCDate(dayAfter.getUTCDate() + 1);
+      conditions.push(lt(submissions.createdAt, dayAfter));
+    }
+    return and(...conditions);
+  }
+
+  async getAnalyticsSummary(filters: AnalyticsFilters): Promise<AnalyticsSummary> {
+    const [result] = await db
+      .select({
+        submissions: count(),
+        participants: countDistinct(sql`lower(${submissions.email})`),
+        companyCodes: countDistinct(submissions.companyCode)
+      })
+      .from(submissions)
+      .where(this.analyticsConditions(filters));
+    return result;
+  }
+
+  async getCoreValueFrequency(filters: AnalyticsFilters): Promise<CoreValueFrequency[]> {
+    // Unnest each submission's core values so they can be counted across submissions
+    const coreValue = sql<string>`core_value`;
+    return db
+      .select({ value: coreValue, count: sql<number>`count(*)::int` })
+      .from(sql`${submissions} cross join jsonb_array_elements_text(${submissions.coreValues}) as core_value`)
+      .where(this.analyticsConditions(filters))
+      .groupBy(coreValue)
+      .orderBy(sql`count(*) desc`, coreValue);
+  }
+
+  async getSubmissionVolume(filters: AnalyticsFilters, interval: AnalyticsInterval): Promise<SubmissionVolume[]> {
+    // The interval is one of a fixed set, so it is safe to inline
+    const period = sql<string>`to_char(date_trunc('${sql.raw(interval)}', ${submissions.createdAt}), 'YYYY-MM-DD')`;
+    return db
+      .select({ period, count: count() })
+      .from(submissions)
+      .where(this.analyticsConditions(filters))
+      .groupBy(period)
+      .orderBy(period);
+  }
+
+  async getCompanyCodeBreakdown(filters: AnalyticsFilters): Promise<CompanyCodeBreakdown[]> {
+    return db
+      .select({
+        companyCode: submissions.companyCode,
+        submissions: count(),
+        participants: countDistinct(sql`lower(${submissions.email})`)
+      })
+      .from(submissions)
+      .where(this.analyticsConditions(filters))
+      .groupBy(submissions.companyCode)
+      .orderBy(desc(count()));
+  }
 }
\ No newline at end of file
@@ -0,0 +1,154 @@
+import cron from "node-cron";
+import { storage } from "./storage";
+import { sendEmail, type EmailAttachment } from "./email";
+import { getPdfFilename, renderSubmissionPDF } from "./pdf-generator";
+import { type EmailKind, type EmailOutboxMessage } from "@shared/schema";
+
+// Delay before each retry; a message is marked failed once these run out
+const RETRY_DELAYS_MS = [
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  15 * 60 * 1000, // 15 minutes
+  60 * 60 * 1000, // 1 hour
+  6 * 60 * 60 * 1000, // 6 hours
+];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+// How long a claimed message is left alone before another run may pick it up again
+const SEND_LEASE_MS = 5 * 60 * 1000;
+
+const BATCH_SIZE = 20;
+
+/**
+ * Adds an email to the outbox. It is picked up by the next outbox run,
+ * or straight away if the caller passes the message to deliverOutboxMessage.
+ */
+export async function enqueueEmail(email: {
+  kind: EmailKind;
+  submissionId?: number;
+  recipient: string;
+  subject: string;
+  html: string;
+}): Promise<EmailOutboxMessage> {
+  return storage.createOutboxMessage({ ...email, status: "pending", nextAttemptAt: new Date() });
+}
+
+async function getAttachments(message: EmailOutboxMessage): Promise<EmailAttachment[]> {
+  if (message.kind !== "results" || message.submissionId == null) {
+    return [];
+  }
+
+  const submission = await storage.getSubmissionById(message.submissionId);
+  if (!submission) {
+    throw new Error(`Submission ${message.submissionId} no longer exists`);
+  }
+
+  // The PDF is rendered at send time rather than stored, since it is several megabytes
+  return [{ filename: getPdfFilename(submission.name), content: await renderSubmissionPDF(submission, true) }];
+}
+
+/**
+ * Attempts to send one outbox message, recording the attempt and scheduling
+ * a retry on failure. Returns the updated message, or undefined when the
+ * message is not due or is already being sent elsewhere.
+ */
+export async function deliverOutboxMessage(id: number): Promise<EmailOutboxMessage | undefined> {
+  const now = new Date();
+  const message = await storage.claimOutboxMessage(id, now, new Date(now.getTime() + SEND_LEASE_MS));
+  if (!message) {
+    return undefined;
+  }
+
+  let error: string | undefined;
+  let providerMessageId: string | undefined;
+
+  try {
+    const result = await sendEmail({
+      to: message.recipient,
+      subject: message.subject,
+      html: message.html,
+      attachments: await getAttachments(message),
+    });
+
+    if (result.success) {
+      providerMessageId = result.data?.id;
+    } else {
+      error = result.error || "Unknown error";
+    }
+  } catch (sendError) {
+    error = sendError instanceof Error ? sendError.message : String(sendError);
+  }
+
+  const attempts = message.attempts + 1;
+  await storage.createEmailDeliveryAttempt({
+    outboxId: message.id,
+    success: !error,
+    error: error ?? null,
+    providerMessageId: providerMessageId ?? null,
+  });
+
+  if (!error) {
+    return storage.updateOutboxMessage(message.id, {
+      status: "sent",
+      attempts,
+      lastError: null,
+      sentAt: new Date(),
+    });
+  }
+
+  console.error(`Email ${message.id} attempt ${attempts} failed:`, error);
+
+  if (attempts >= MAX_ATTEMPTS) {
+    return storage.updateOutboxMessage(message.id, { status: "failed", attempts, lastError: error });
+  }
+
+  return storage.updateOutboxMessage(message.id, {
+    status: "pending",
+    attempts,
+    lastError: error,
+    nextAttemptAt: new Date(Date.now() + RETRY_DELAYS_MS[attempts - 1]),
+  });
+}
+
+/**
+ * Puts a failed or pending message back at the front of the queue
+ * with a fresh set of attempts. Returns undefined if the message doesn't
+ * exist or is being sent or already sent.
+ */
+export async function requeueOutboxMessage(id: number): Promise<EmailOutboxMessage | undefined> {
+  return storage.requeueOutboxMessage(id, new Date());
+}
+
+/**
+ * Sends every message that is due
+ */
+export async function processOutbox(): Promise<void> {
+  const ids = await storage.getDueOutboxMessageIds(new Date(), BATCH_SIZE);
+  for (const id of ids) {
+    try {
+      await deliverOutboxMessage(id);
+    } catch (error) {
+      console.error(`Error delivering email ${id}:`, error);
+    }
+  }
+}
+
+/**
+ * Starts the background worker that retries queued emails every minute
+ */
+export function startOutboxWorker() {
+  let isRunning = false;
+
+  return cron.schedule("* * * * *", async () => {
+    // Skip a tick rather than overlap when a batch is slow
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await processOutbox();
+    } catch (error) {
+      console.error("Error processing email outbox:", error);
+    } finally {
+      isRunning = false;
+    }
+  });
+}
@@ -0,0 +1,194 @@
+import { Resend } from 'resend';
+import nodemailer from 'nodemailer';
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  cc?: string;
+  subject: string;
+  html: string;
+  attachments: EmailAttachment[];
+}
+
+/**
+ * Delivers a fully addressed email. Implementations throw when delivery fails
+ * and resolve with the provider's message id when there is one.
+ */
+export interface EmailTransport {
+  name: string;
+  send(email: OutgoingEmail): Promise<{ id?: string }>;
+}
+
+export const createResendTransport = (apiKey: string): EmailTransport => {
+  const resend = new Resend(apiKey);
+
+  return {
+    name: 'resend',
+    async send(email) {
+      const { data, error } = await resend.emails.send({
+        from: email.from,
+        to: [email.to],
+        cc: email.cc ? [email.cc] : undefined,
+        subject: email.subject,
+        html: email.html,
+        attachments: email.attachments,
+      });
+
+      // Resend reports API failures in the response rather than by throwing
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return { id: data?.id };
+    },
+  };
+};
+
+export const createSmtpTransport = (options: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}): EmailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(email) {
+      const info = await transporter.sendMail(email);
+      return { id: info.messageId };
+    },
+  };
+};
+
+export interface FileEmailIndexEntry {
+  id: string;
+  file: string;
+  from: string;
+  to: string;
+  cc?: string;
+  subject: string;
+  attachments: string[];
+  createdAt: string;
+}
+
+/**
+ * Writes each email to `<directory>/<id>.eml` and appends it to
+ * `<directory>/index.json`, for local development and automated tests
+ */
+export const createFileTransport = (directory: string): EmailTransport => {
+  // Builds the raw MIME message without sending it anywhere
+  const composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  const indexPath = path.join(directory, 'index.json');
+  // Index updates are chained so concurrent sends don't overwrite each other
+  let indexWrite: Promise<void> = Promise.resolve();
+
+  const readIndex = async (): Promise<FileEmailIndexEntry[]> => {
+    let content: string;
+    try {
+      content = await readFile(indexPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    // A corrupt index only loses the listing; the .eml files are still there
+    try {
+      const entries = JSON.parse(content);
+      if (Array.isArray(entries)) return entries;
+    } catch {
+      // Not JSON; start again below
+    }
+    console.error(`Starting a new email index: ${indexPath} could not be read`);
+    return [];
+  };
+
+  const appendToIndex = (entry: FileEmailIndexEntry) => {
+    const next = indexWrite.then(async () => {
+      const entries = await readIndex();
+      entries.push(entry);
+      await writeFile(indexPath, JSON.stringify(entries, null, 2));
+    });
+    // One failed write fails its own send, not every send after it
+    indexWrite = next.catch(() => {});
+    return next;
+  };
+
+  return {
+    name: 'file',
+    async send(email) {
+      const id = randomUUID();
+      const file = `${new Date().toISOString().replace(/[:.]/g, '-')}-${id}.eml`;
+      const info = await composer.sendMail(email);
+
+      await mkdir(directory, { recursive: true });
+      await writeFile(path.join(directory, file), info.message as Buffer);
+      await appendToIndex({
+        id,
+        file,
+        from: email.from,
+        to: email.to,
+        cc: email.cc,
+        subject: email.subject,
+        attachments: email.attachments.map(attachment => attachment.filename),
+        createdAt: new Date().toISOString(),
+      });
+
+      return { id };
+    },
+  };
+};
+
+// Without EMAIL_TRANSPORT, Resend if it has a key; the file transport only outside production,
+// where it would quietly write real emails to disk and mark them sent
+const getDefaultTransport = (env: NodeJS.ProcessEnv) => {
+  if (env.RESEND_API_KEY) return 'resend';
+  if (env.NODE_ENV !== 'production') return 'file';
+  throw new Error('Set EMAIL_TRANSPORT (or RESEND_API_KEY) to send email in production');
+};
+
+/**
+ * Picks the transport from EMAIL_TRANSPORT ("resend", "smtp" or "file").
+ * Without it, Resend is used when RESEND_API_KEY is set and the file transport
+ * otherwise, except in production, where it throws.
+ */
+export const createEmailTransportFromEnv = (env: NodeJS.ProcessEnv = process.env): EmailTransport => {
+  const transport = env.EMAIL_TRANSPORT || getDefaultTransport(env);
+
+  switch (transport) {
+    case 'resend':
+      if (!env.RESEND_API_KEY) {
+        throw new Error('RESEND_API_KEY is required for the resend email transport');
+      }
+      return createResendTransport(env.RESEND_API_KEY);
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required for the smtp email transport');
+      }
+      return createSmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || 587,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    case 'file':
+      return createFileTransport(path.resolve(env.EMAIL_FILE_DIR || '.emails'));
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${transport}"`);
+  }
+};
@@ -1,45 +1,63 @@
-import { Resend } from 'resend';
 import dotenv from 'dotenv';
+import { createEmailTransportFromEnv, type EmailAttachment, type EmailTransport } from './email-transports';
+
+export type { EmailAttachment } from './email-transports';
 
 dotenv.config();
 
-const resend = new Resend(process.env.RESEND_API_KEY);
 const fromEmail = process.env.EMAIL_FROM_ADDRESS;
 const fromName = process.env.EMAIL_FROM_NAME;
 const ccEmail = process.env.CC_EMAIL;
 
-export interface EmailAttachment {
-  filename: string;
-  content: Buffer;
-}
+let transport: EmailTransport | undefined;
+
+/**
+ * Sets up the email transport from the environment. The server calls this at startup
+ * so a misconfigured transport stops it there rather than failing every send.
+ */
+export const getTransport = () => {
+  if (!transport) {
+    transport = createEmailTransportFromEnv();
+  }
+  return transport;
+};
+
+// Escape text before interpolating it into email HTML
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
 
 export const sendEmail = async ({
   to,
   subject,
   html,
   attachments = [],
+  copyToCc = true,
 }: {
   to: string;
   subject: string;
   html: string;
   attachments?: EmailAttachment[];
+  // Set to false for emails only the recipient should see, such as password reset links
+  copyToCc?: boolean;
 }) => {
   try {
-    const result = await resend.emails.send({
-    from: `${fromName} <${fromEmail}>`,
-      to: [to],
-      cc: [ccEmail || ''],
+    const data = await getTransport().send({
+      from: `${fromName} <${fromEmail}>`,
+      to,
+      cc: (copyToCc && ccEmail) || undefined,
       subject,
       html,
-      attachments: attachments.map(attachment => ({
-        filename: attachment.filename,
-        content: attachment.content
-      })),
+      attachments,
     });
 
-    return { success: true, data: result };
+    return { success: true, data };
   } catch (error) {
     console.error('Failed to send email:', error);
-    return { success: false, error };
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
-}; 
\ No newline at end of file
+};
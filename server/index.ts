@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
+import { startOutboxWorker } from "./email-outbox";
+import { startRetentionWorker } from "./retention";
+import { getTransport } from "./email";
 
 // Define API server port
 const SERVER_PORT = process.env.SERVER_PORT || 5000;
@@ -19,11 +22,16 @@ export function log(message: string, source = "express") {
 }
 
 const app = express();
+// Set when running behind a reverse proxy (e.g. TRUST_PROXY=1) so rate limits see the real client IP
+if (process.env.TRUST_PROXY) {
+  const trustProxy = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", isNaN(trustProxy) ? process.env.TRUST_PROXY : trustProxy);
+}
 app.use(cors({
   origin: CLIENT_URL,
   credentials: false // JWT doesn't need credentials
 }));
-app.use(express.json({limit:'50mb'}));
+app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -57,6 +65,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  log(`Using the ${getTransport().name} email transport`, "email");
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -76,4 +86,7 @@ app.use((req, res, next) => {
     log(`API server running on port ${SERVER_PORT}`);
     log(`Allowing CORS from client URL: ${CLIENT_URL}`);
   });
+
+  startOutboxWorker();
+  startRetentionWorker();
 })();
@@ -1,25 +1,35 @@
 import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import { storage } from './storage';
-import { User as SelectUser } from '@shared/schema';
-import { scrypt, randomBytes, timingSafeEqual } from 'crypto';
+import { User as SelectUser, type CurrentUser, type PublicUser, type UserRole, hasRole } from '@shared/schema';
+import { getSecuritySettings } from './settings';
+import { scrypt, randomBytes, timingSafeEqual, createHash } from 'crypto';
 import { promisify } from 'util';
 
 const scryptAsync = promisify(scrypt);
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key';
-const JWT_EXPIRES_IN = '7d';
+// Access tokens are short-lived; the client renews them with its refresh token
+const ACCESS_TOKEN_EXPIRES_IN = '15m';
+// A session ends after this long without a refresh
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Tabs refreshing at the same moment may replay the token that was just rotated; don't treat that as theft
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+const SUBMISSION_TOKEN_EXPIRES_IN = '30d';
+// Time allowed between entering the password and entering the two-factor code
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
 
 // Extend Express Request type to include user
 declare global {
   namespace Express {
     interface Request {
       user?: SelectUser;
+      authSessionId?: number;
     }
   }
 }
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString('hex');
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString('hex')}.${salt}`;
@@ -32,91 +42,339 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-// Generate JWT token
-export function generateToken(user: SelectUser): string {
+// Strip the password hash and two-factor secret before a user is sent to the client
+export function toPublicUser({ password, totpSecret, totpLastUsedStep, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+// Whether an owner requires two-factor and this user hasn't turned it on yet
+async function isTwoFactorSetupRequired(user: SelectUser): Promise<boolean> {
+  return !user.totpEnabledAt && (await getSecuritySettings()).requireTwoFactor;
+}
+
+// The signed-in user as returned by login and /api/user
+export async function toCurrentUser(user: SelectUser): Promise<CurrentUser> {
+  return { ...toPublicUser(user), twoFactorSetupRequired: await isTwoFactorSetupRequired(user) };
+}
+
+// Hash an opaque token for storage; only the hash is kept in the database
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Generate a random single-use token along with the hash to store
+export function generateOneTimeToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('hex');
+  return { token, tokenHash: hashToken(token) };
+}
+
+export type AuthTokens = {
+  token: string;
+  refreshToken: string;
+};
+
+// Generate a short-lived access token tied to a session
+export function generateToken(user: SelectUser, sessionId: number): string {
   return jwt.sign(
     { 
       userId: user.id, 
-      username: user.username 
+      username: user.username,
+      sessionId
     },
     JWT_SECRET,
-    { expiresIn: JWT_EXPIRES_IN }
+    { expiresIn: ACCESS_TOKEN_EXPIRES_IN }
   );
 }
 
 // Verify JWT token
-export function verifyToken(token: string): { userId: number; username: string } | null {
+export function verifyToken(token: string): { userId: number; username: string; sessionId: number } | null {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: number; username: string };
-    return decoded;
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: number; username: string; sessionId?: number };
+    // Tokens issued before sessions existed can't be revoked, so they're no longer accepted
+    if (typeof decoded.sessionId !== 'number') {
+      return null;
+    }
+    return { userId: decoded.userId, username: decoded.username, sessionId: decoded.sessionId };
   } catch (error) {
     return null;
   }
 }
 
-// Middleware to authenticate requests
-export async function authenticateToken(req: Request, res: Response, next: NextFunction) {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+// Start a session for a user and issue its first access and refresh tokens
+export async function createSession(user: SelectUser, userAgent?: string): Promise<AuthTokens> {
+  const { token: refreshToken, tokenHash } = generateOneTimeToken();
+  const session = await storage.createAuthSession({
+    userId: user.id,
+    refreshTokenHash: tokenHash,
+    userAgent: userAgent ?? null,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+  });
 
-  if (!token) {
-    return res.status(401).json({ message: 'Access token required' });
+  return { token: generateToken(user, session.id), refreshToken };
+}
+
+// Exchange a refresh token for a new access token and a new refresh token.
+// Replaying an already-rotated refresh token revokes the whole session.
+export async function refreshSession(refreshToken: string): Promise<AuthTokens | null> {
+  const tokenHash = hashToken(refreshToken);
+  const session = await storage.getAuthSessionByTokenHash(tokenHash);
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return null;
   }
 
-  const decoded = verifyToken(token);
-  if (!decoded) {
-    return res.status(403).json({ message: 'Invalid or expired token' });
+  if (session.refreshTokenHash !== tokenHash) {
+    const rotatedRecently = session.rotatedAt && Date.now() - session.rotatedAt.getTime() < REFRESH_REUSE_GRACE_MS;
+    if (!rotatedRecently) {
+      console.warn(`Refresh token reuse detected for session ${session.id}; revoking it`);
+      await storage.revokeAuthSession(session.id);
+    }
+    return null;
   }
 
+  const user = await storage.getUser(session.userId);
+  if (!user) {
+    return null;
+  }
+
+  const { token: nextRefreshToken, tokenHash: nextTokenHash } = generateOneTimeToken();
+  const rotatedSession = await storage.rotateAuthSession(
+    session.id,
+    tokenHash,
+    nextTokenHash,
+    new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+  );
+  if (!rotatedSession) {
+    return null;
+  }
+
+  return { token: generateToken(user, session.id), refreshToken: nextRefreshToken };
+}
+
+// End the session a refresh token belongs to
+export async function revokeSession(refreshToken: string): Promise<void> {
+  const session = await storage.getAuthSessionByTokenHash(hashToken(refreshToken));
+  if (session) {
+    await storage.revokeAuthSession(session.id);
+  }
+}
+
+// Generate a token proving the password was correct, to be exchanged along with a two-factor code
+export function generateTwoFactorChallenge(userId: number): string {
+  return jwt.sign(
+    {
+      userId,
+      purpose: 'two-factor'
+    },
+    JWT_SECRET,
+    { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN }
+  );
+}
+
+// Verify a two-factor challenge token
+export function verifyTwoFactorChallenge(token: string): { userId: number } | null {
   try {
-    const user = await storage.getUser(decoded.userId);
-    if (!user) {
-      return res.status(403).json({ message: 'User not found' });
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId?: number; purpose?: string };
+    if (decoded.purpose !== 'two-factor' || typeof decoded.userId !== 'number') {
+      return null;
     }
+    return { userId: decoded.userId };
+  } catch (error) {
+    return null;
+  }
+}
 
-    req.user = user;
-    next();
+// Generate a token that lets a participant access their own submission's results
+export function generateSubmissionToken(submissionId: number): string {
+  return jwt.sign(
+    {
+      submissionId,
+      purpose: 'submission'
+    },
+    JWT_SECRET,
+    { expiresIn: SUBMISSION_TOKEN_EXPIRES_IN }
+  );
+}
+
+// Verify a participant submission token
+export function verifySubmissionToken(token: string): { submissionId: number } | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { submissionId?: number; purpose?: string };
+    if (decoded.purpose !== 'submission' || typeof decoded.submissionId !== 'number') {
+      return null;
+    }
+    return { submissionId: decoded.submissionId };
   } catch (error) {
-    return res.status(500).json({ message: 'Authentication error' });
+    return null;
+  }
+}
+
+// Generate a token for the comparison link in the results email. It is only ever sent to the
+// submission's email address, so holding it shows the participant owns that address.
+export function generateComparisonToken(submissionId: number): string {
+  return jwt.sign(
+    {
+      submissionId,
+      purpose: 'comparison'
+    },
+    JWT_SECRET,
+    { expiresIn: SUBMISSION_TOKEN_EXPIRES_IN }
+  );
+}
+
+// Verify a comparison link token
+export function verifyComparisonToken(token: string): { submissionId: number } | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { submissionId?: number; purpose?: string };
+    if (decoded.purpose !== 'comparison' || typeof decoded.submissionId !== 'number') {
+      return null;
+    }
+    return { submissionId: decoded.submissionId };
+  } catch (error) {
+    return null;
+  }
+}
+
+// Authenticates the access token. When an owner requires two-factor, users who haven't
+// enrolled are turned away unless enforceTwoFactor is off (for the routes that let them enrol).
+function authenticate(enforceTwoFactor: boolean) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const authHeader = req.headers['authorization'];
+    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+
+    if (!token) {
+      return res.status(401).json({ message: 'Access token required' });
+    }
+
+    // 401 tells the client to try its refresh token
+    const decoded = verifyToken(token);
+    if (!decoded) {
+      return res.status(401).json({ message: 'Invalid or expired token' });
+    }
+
+    try {
+      const session = await storage.getAuthSession(decoded.sessionId);
+      if (!session || session.revokedAt || session.userId !== decoded.userId) {
+        return res.status(401).json({ message: 'Session has ended' });
+      }
+
+      const user = await storage.getUser(decoded.userId);
+      if (!user) {
+        return res.status(401).json({ message: 'User not found' });
+      }
+
+      if (enforceTwoFactor && await isTwoFactorSetupRequired(user)) {
+        return res.status(403).json({ message: 'Two-factor authentication must be set up before continuing' });
+      }
+
+      req.user = user;
+      req.authSessionId = session.id;
+      next();
+    } catch (error) {
+      return res.status(500).json({ message: 'Authentication error' });
+    }
+  };
+}
+
+// Middleware to authenticate requests
+export const authenticateToken = authenticate(true);
+
+// Middleware for the signed-in user's own account routes, usable before two-factor is set up
+export const authenticateAccount = authenticate(false);
+
+// Change a signed-in user's password and sign out their other sessions
+export async function changePassword(
+  user: SelectUser,
+  currentPassword: string,
+  newPassword: string,
+  currentSessionId?: number
+): Promise<{ success: true } | { error: string }> {
+  if (!(await comparePasswords(currentPassword, user.password))) {
+    return { error: 'Current password is incorrect' };
   }
+
+  await storage.updateUserPassword(user.id, await hashPassword(newPassword));
+  await storage.revokeUserAuthSessions(user.id, currentSessionId);
+  return { success: true };
+}
+
+// Middleware allowing only users with at least the given role; use after authenticateToken
+export function requireRole(minimum: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasRole(req.user, minimum)) {
+      return res.status(403).json({ message: `This action requires the ${minimum} role` });
+    }
+    next();
+  };
 }
 
 // Login endpoint
-export async function loginUser(username: string, password: string): Promise<{ user: SelectUser; token: string } | null> {
+export async function loginUser(
+  username: string,
+  password: string,
+  userAgent?: string
+): Promise<({ user: CurrentUser } & AuthTokens) | { twoFactorRequired: true; challengeToken: string } | null> {
   try {
     const user = await storage.getUserByUsername(username);
     if (!user || !(await comparePasswords(password, user.password))) {
       return null;
     }
 
-    const token = generateToken(user);
-    return { user, token };
+    // No session until the second step succeeds
+    if (user.totpEnabledAt) {
+      return { twoFactorRequired: true, challengeToken: generateTwoFactorChallenge(user.id) };
+    }
+
+    const tokens = await createSession(user, userAgent);
+    return { user: await toCurrentUser(user), ...tokens };
   } catch (error) {
     console.error('Login error:', error);
     return null;
   }
 }
 
-// Register endpoint
-export async function registerUser(username: string, password: string): Promise<{ user: SelectUser; token: string } | null> {
-  try {
-    // Check if user already exists
-    const existingUser = await storage.getUserByUsername(username);
-    if (existingUser) {
-      return null;
+// Register endpoint. Registration needs an invite, except for the very first user, who becomes the owner.
+export async function registerUser(
+  username: string,
+  password: string,
+  inviteToken?: string,
+  userAgent?: string
+): Promise<({ user: CurrentUser } & AuthTokens) | { error: string }> {
+  // Check if user already exists
+  const existingUser = await storage.getUserByUsername(username);
+  if (existingUser) {
+    return { error: 'Username already exists' };
+  }
+
+  // Hash password and create user
+  const hashedPassword = await hashPassword(password);
+  let user: SelectUser | undefined;
+
+  if (inviteToken) {
+    user = await storage.createUserFromInvite(hashToken(inviteToken), { username, password: hashedPassword });
+    if (!user) {
+      return { error: 'Invalid or expired invite' };
     }
+  } else if ((await storage.countUsers()) === 0) {
+    user = await storage.createUser({ username, password: hashedPassword, role: 'owner' });
+  } else {
+    return { error: 'An invite is required to register' };
+  }
 
-    // Hash password and create user
-    const hashedPassword = await hashPassword(password);
-    const user = await storage.createUser({
-      username,
-      password: hashedPassword,
-    });
+  const tokens = await createSession(user, userAgent);
+  return { user: await toCurrentUser(user), ...tokens };
+}
 
-    const token = generateToken(user);
-    return { user, token };
-  } catch (error) {
-    console.error('Registration error:', error);
-    return null;
+// Middleware allowing either the participant's submission token (?token=) or an admin login
+export function authenticateSubmissionAccess(req: Request, res: Response, next: NextFunction) {
+  const { token } = req.query;
+
+  if (typeof token === 'string' && token) {
+    const decoded = verifySubmissionToken(token);
+    if (!decoded || decoded.submissionId !== parseInt(req.params.id)) {
+      return res.status(403).json({ message: 'Invalid or expired token' });
+    }
+    return next();
   }
+
+  return authenticateToken(req, res, next);
 }
@@ -0,0 +1,45 @@
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import { db } from "./db";
+import { normalizeEmail, participants, submissions } from "@shared/schema";
+
+// Usage: npx tsx server/link-participants.ts
+// Links submissions recorded before participants were tracked to a participant per email address.
+// Safe to run more than once: only unlinked submissions are touched.
+async function linkParticipants() {
+  try {
+    const unlinked = await db
+      .select({ id: submissions.id, name: submissions.name, email: submissions.email })
+      .from(submissions)
+      .where(and(isNull(submissions.participantId), isNull(submissions.anonymizedAt)))
+      .orderBy(asc(submissions.createdAt));
+
+    // Oldest first, so each address gets the name from its first submission, like new participants do
+    const byEmail = new Map<string, { name: string; submissionIds: number[] }>();
+    for (const submission of unlinked) {
+      const email = normalizeEmail(submission.email);
+      const group = byEmail.get(email) ?? { name: submission.name.trim(), submissionIds: [] };
+      group.submissionIds.push(submission.id);
+      byEmail.set(email, group);
+    }
+
+    await db.transaction(async (tx) => {
+      for (const [email, group] of Array.from(byEmail.entries())) {
+        // Participants who have submitted since tracking began keep the name they were created with
+        await tx.insert(participants).values({ email, name: group.name }).onConflictDoNothing();
+        const [participant] = await tx.select().from(participants).where(eq(participants.email, email));
+        await tx
+          .update(submissions)
+          .set({ participantId: participant.id })
+          .where(inArray(submissions.id, group.submissionIds));
+      }
+    });
+
+    console.log(`Linked ${unlinked.length} submission(s) to ${byEmail.size} participant(s).`);
+  } catch (error) {
+    console.error("Error linking participants:", error);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+linkParticipants();
@@ -0,0 +1,50 @@
+import { storage } from './storage';
+import {
+  normalizeCompanyCode,
+  type Organization,
+  type OrganizationCodeValidation
+} from '@shared/schema';
+
+// Dates are compared as YYYY-MM-DD strings in UTC, matching the `date` columns
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Checks a participant-entered company code against the organizations table,
+ * including its active window and participant cap.
+ */
+export async function validateCompanyCode(rawCode: string): Promise<OrganizationCodeValidation & { organization?: Organization }> {
+  const code = normalizeCompanyCode(rawCode);
+  const organization = code ? await storage.getOrganizationByCode(code) : undefined;
+
+  if (!organization) {
+    return {
+      valid: false,
+      status: 'not_found',
+      message: "We couldn't find that company code. Please check it with your facilitator."
+    };
+  }
+
+  if (organization.startsOn && today() < organization.startsOn) {
+    return { valid: false, status: 'not_started', message: "This company code isn't active yet." };
+  }
+
+  if (organization.endsOn && today() > organization.endsOn) {
+    return { valid: false, status: 'ended', message: 'This company code has expired.' };
+  }
+
+  if (organization.participantCap != null) {
+    const submissionCount = await storage.getSubmissionCountByOrganization(organization.id);
+    if (submissionCount >= organization.participantCap) {
+      return { valid: false, status: 'full', message: 'This company code has reached its participant limit.' };
+    }
+  }
+
+  return {
+    valid: true,
+    status: 'valid',
+    message: `Company code accepted: ${organization.name}`,
+    organization
+  };
+}
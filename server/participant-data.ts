@@ -0,0 +1,22 @@
+import type { ParticipantData } from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Collects everything stored about an email address for a data-subject access
+ * request: its submissions, and every email sent to it or about its submissions
+ * with the delivery log
+ */
+export async function buildParticipantData(email: string): Promise<ParticipantData> {
+  const records = await storage.getParticipantRecords(email);
+
+  return {
+    email,
+    exportedAt: new Date().toISOString(),
+    participant: records.participant ?? null,
+    submissions: records.submissions.map(({ emailTokenHash, ...submission }) => submission),
+    emails: await Promise.all(records.emails.map(async message => ({
+      ...message,
+      deliveryAttempts: await storage.getEmailDeliveryAttempts(message.id)
+    })))
+  };
+}
@@ -0,0 +1,59 @@
+import type { ParticipantHistory, Submission, ValueComparison } from "@shared/schema";
+import { storage } from "./storage";
+
+const coreValueNames = (submission: Submission): string[] =>
+  Array.isArray(submission.coreValues) ? (submission.coreValues as string[]) : [];
+
+// Values are matched by id when both submissions captured them, so a renamed value still counts as kept
+const coreValueKeys = (submission: Submission, byId: boolean): string[] =>
+  byId ? submission.coreValueSnapshot!.map(value => String(value.id)) : coreValueNames(submission);
+
+/**
+ * Which core values were kept, dropped or added between two submissions,
+ * named as each submission recorded them
+ */
+export function compareCoreValues(previous: Submission, current: Submission): ValueComparison {
+  const byId = !!previous.coreValueSnapshot && !!current.coreValueSnapshot;
+  const previousKeys = coreValueKeys(previous, byId);
+  const currentKeys = coreValueKeys(current, byId);
+  const previousNames = coreValueNames(previous);
+  const currentNames = coreValueNames(current);
+
+  return {
+    previousSubmissionId: previous.id,
+    previousSubmittedAt: new Date(previous.createdAt).toISOString(),
+    kept: currentNames.filter((_, index) => previousKeys.includes(currentKeys[index])),
+    dropped: previousNames.filter((_, index) => !currentKeys.includes(previousKeys[index])),
+    added: currentNames.filter((_, index) => !previousKeys.includes(currentKeys[index]))
+  };
+}
+
+/**
+ * Compares a submission with the same participant's submission before it, if any
+ */
+export async function getValueComparison(submission: Submission): Promise<ValueComparison | null> {
+  if (!submission.participantId) return null;
+
+  // Newest first, so the previous submission is the next one in the list
+  const history = await storage.getSubmissionsByParticipant(submission.participantId);
+  const index = history.findIndex(candidate => candidate.id === submission.id);
+  const previous = index === -1 ? undefined : history[index + 1];
+  return previous ? compareCoreValues(previous, submission) : null;
+}
+
+/**
+ * Lists a participant's submissions, each compared with the one before it
+ */
+export async function buildParticipantHistory(participantId: number): Promise<ParticipantHistory | undefined> {
+  const participant = await storage.getParticipantById(participantId);
+  if (!participant) return undefined;
+
+  const history = await storage.getSubmissionsByParticipant(participantId);
+  return {
+    participant,
+    submissions: history.map(({ emailTokenHash, ...submission }, index) => ({
+      ...submission,
+      comparison: history[index + 1] ? compareCoreValues(history[index + 1], history[index]) : null
+    }))
+  };
+}
@@ -0,0 +1,73 @@
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { escapeHtml, sendEmail } from "./email";
+import { generateOneTimeToken, hashPassword, hashToken } from "./jwt-auth";
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+const CLIENT_URL = process.env.CLIENT_URL || "http://localhost:3000";
+
+const composeResetEmail = (username: string, resetUrl: string) => ({
+  subject: "Reset your Leadership Values admin password",
+  html: `
+    <p>Hi ${escapeHtml(username)},</p>
+    <p>Someone asked to reset the password for your Leadership Values admin account. If it was you, choose a new password here:</p>
+    <p><a href="${escapeHtml(resetUrl)}">Reset your password</a></p>
+    <p>This link works once and expires in 1 hour. If you didn't ask for a reset, you can ignore this email; your password won't change.</p>
+  `,
+});
+
+async function sendResetLink(user: User, email: string): Promise<void> {
+  const { token, tokenHash } = generateOneTimeToken();
+  await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash,
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+  });
+
+  const resetUrl = `${CLIENT_URL}/reset-password?token=${token}`;
+  const result = await sendEmail({
+    to: email,
+    ...composeResetEmail(user.username, resetUrl),
+    copyToCc: false,
+  });
+  if (!result.success) {
+    console.error(`Failed to send password reset email to user ${user.id}:`, result.error);
+  }
+}
+
+/**
+ * Emails a reset link to the account matching a username or email address.
+ * Sent directly rather than through the outbox, so the link's token is never
+ * stored in plain text. Callers should respond the same way whether or not an
+ * account matched, so the form can't be used to discover accounts. For the
+ * same reason the link is created and sent in the background, so response
+ * times don't give it away either.
+ */
+export async function requestPasswordReset(identifier: string): Promise<void> {
+  const user = identifier.includes("@")
+    ? await storage.getUserByEmail(identifier.toLowerCase())
+    : await storage.getUserByUsername(identifier);
+  if (!user?.email) {
+    return;
+  }
+
+  sendResetLink(user, user.email).catch(err => {
+    console.error(`Error sending password reset email to user ${user.id}:`, err);
+  });
+}
+
+/**
+ * Sets a new password from a reset link and signs the user out everywhere.
+ * Returns false if the link is invalid, expired or already used.
+ */
+export async function resetPassword(token: string, password: string): Promise<boolean> {
+  const resetToken = await storage.consumePasswordResetToken(hashToken(token));
+  if (!resetToken) {
+    return false;
+  }
+
+  await storage.updateUserPassword(resetToken.userId, await hashPassword(password));
+  await storage.revokeUserAuthSessions(resetToken.userId);
+  return true;
+}
@@ -1,6 +1,19 @@
-import { LeadershipValue, UserInfo } from "@/types";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
+import { storage } from "./storage";
+import { type Submission, type TeamReport, type ValueComparison } from "@shared/schema";
+import { extractFirstName } from "@/lib/utils";
+import { getValueComparison } from "./participant-history";
+
+export interface PdfValue {
+  value: string;
+  description: string;
+}
+
+export interface PdfUserInfo {
+  name: string;
+  email: string;
+}
 
 const logo =
   "iVBORw0KGgoAAAANSUhEUgAAAfQAAAGQCAYAAABYs5LGAAEe+UlEQVR4nOzdeZxcZZno8d9z6pyqrqreks4GCSFhCRCWALIn0BVFGcRBHQ0iLqAzog6jDN4BHbeuMICOCm73quNVxAVQcp1RUAQFUkGCEPYlgSxANrL3XvtZnvvHqequ7nRCEpJ0p/N+P5+kk6qzvGfp85x3FwzDMAzDOODJcCfAMAzDMIw3zwR0wzAMwxgFTEA3DMMwjFHABHTDMAzDGAVMQDcMwzCMUcAEdMMwDMMYBUxANwzDMIxRwAR0wzAMwxgFTEA3DMMwjFHABHTDMAzDGAVMQDcMwzCMUcAEdMMwDMMYBUxANwzDMIxRwAR0wzAMwxgFTEA3DMMwjFHABHTDMAzDGAVMQDcMwzCMUcAEdMMwDMMYBUxANwzDMIxRwAR0wzAMwxgFTEA3DMMwjFHABHTDMAzDGAVMQDcMwzCMUcAEdMMwDMMYBUxANwzDMIxRwAR0wzAMwxgFTEA3DMMwjFHABHTDMAzDGAVMQDcMwzCMUcAEdMMwDMMYBUxANwzDMIxRwAR0wzAMwxgFTEA3DMMwjFHABHTDMAzDGAVMQDcMwzCMUcAEdMMwDMMYBUxANwzDMIxRwAR0wzAMwxgFTEA3DMMwjFHABHTDMAzDGAVMQDcMwzCMUcAEdMMwDMMYBUxANwzDMIxRwAR0wzAMwxgFTEA3DMMwjFHAGu4EGKHWVmhrG+5UGIZhGAcqE9BHiFQK0unhToVhGIZxoIoMdwIOdq0z4YoUXP2JsQ2FzfXHorSf/y43WLRouFNmGIZhHEhMQB9mV6QgPQ8pjG24TEW+M/t0Z+vbZ7vLrfVBsGjZcKfOMAzDOFCYIvfhNhPudeOiom8R4SiQr2a3NR6Rvh5p+/fhTtzOmTp/wzCMkcPk0IdZJgOTJ8aifi56qSonAC0qVo+9obwoEg30578f7hQOra0N0mmEjeH/12wc3vQYhmEc7EwOfQQQX0FVQKTSkfC92YnNR6UOG5ndChe2wZffYcvWF8Yf9Zmrxn/tjz+pn/HgHRatrcOdMsMwjIOXCegjgIgEYLkAKAIyXYULXMeJtM0b5sQN0tYGs0+3pTc69ggrkB+ick1JEm85e25cUqnhTp1hGMbBywT0YSYCX7wx4gdoL+BXPq5D5V3lllhL+uvISMn5ts6C9FegdGJibOBwAzAHiEDgQzDcyTMMwziomYA+AtQ1FAOBrUg1oCvAmWUveSwWpE4eztT1S38eSs9GnVJn7B8R3gPYQMELIpsfXBjRTGaYE2gYhnEQMwF9mLW1wU03lRFhC4pb81V9gL6NMv359mGW+iCSsxtPBfkUSpTwzWNLfWd267vsrJi+84ZhGMPHBPThtgZYhKWq60FdKtlzwnH2U52FsQ2pY4cveVV6F1J4NjFGsT4LchgIiFiCvC5JOpg0MhvwGYZhHCxMQB9uCWA8KrAecAmviRBWSh8RqHNSasLwXqdKwzwtWPWtwMWgFqigBBAstSYH7ZxrKtENwzCGkwnow208MBPFD9aI0AUgIhAG9TFIcIY31RnWQVxSM2HLoZOaVPkk4SuIAAqaVWRx7G8FL33J8KXPMAzDMAF92M2fH07KUh/NdqnyGqCqCmGZdh3ImW5DtCl92fAUaavC2W+LWpGG4D3AmYO+3mZF/EeYBjTv/7QZhmEY/UxAHwnWIF7OBmQFiFb+SBhOObFUjrbQ1Fe3vn/djRTs5CSUD4E00Jc7B+BvyVjP+sxWNLNiWFJnGIZhVJiAPhJEUCKqELwMKmG8VCUMntM9daYxcf+Pnd42DyihftyZA8wO0xYS8ITgvug218/8N5gW7oZhGMPLBPQRILMKIsd46jmRpQhZqIwAG/6IisXpPImwYf+lqXVmWHdeOCKeRPg4SF01WSCostKxy09xLJJZtf/SZRiGYQzNBPQRYNEiiG0uS6P0bkRZH8bLAU5lDHDo/ktT6vjwT95uuADk9LANXN/XAehie5O3jgdM7twwDGMkMAF9pFgOuk07FV0jWptBR4Bju3Pjxqb/ef8lJ/0RJD8p2Qx8EGis+UpBOxH+GC/nC3LJMNXtG4ZhGAOYgD5SXIQGM6QT5HkFr/JptQFaixfIsTy+f65XWxv477BwD3VOAFoBSxCh/z1jlSXeIi40wdwwDGOkMAF9hEhfAvUP5wJBngTN0j/biQIJhGMyq/dTAH0NCs8kLS8bvRho6Wt4H9YEBAT62zHrO3vSH9ovqTEMwzB2gQnoI0UcGAuqPAN0EbY8U8ACSQjM8Mbb1r5u6d46E1LTIW8nJwAXAaBITaX+OvW5nxyaeXbfpsUwDMPYdSagjxCZNZDpRetK2TUKLw76OqJw5Ow50fr0dft2gJn0DTD7H2wrEg3eg3AYQP8eJRDl3mSQX81bYNGyfZkSwzAMY3ccVAG9tRXa/glpG4HDlC5aBJn7oD6a80H/CjXtygUFOZS1NLB43wb01IlIORJtJOAiVBLVvVeSsyVAF8TcQj79i32ZCsMwDGN32cOdgP2lrQ1mn2Yz55CYoz3oVz5U9CKn+pr+HMxfMNypC2VeBqKo01N+1EvEuoGm8BsFGKdjJMnEfVeP3toKbruDH0SPIsHJIgOK2kF0ceKQ7GMPLwuC+fP3VSoMwzCMPXHQBPT0PyGFgtNUyCWv1LEEXsJ+OPq6tyw9L5eFkRHUFy0CtiJOnbfaI/YcyLnhrGYioC1uzGlI/2LfBfTUKeA2O5ZbcOYCk7RvsDpVIKfws8SEQinzg32VAsMwDGNPHTxF7k8DG6RehX8Aucmtq/ttvi75vc6jxh3/hSvjtj6BLPzlcCcS0hk0Gi9vFfQRUD/8VAVo8LJ2Szq9b4aAbW2F1DngZ50oIu+ofFwZhlYU+FNiQv5xQE3u3DAMY+Q5aAJ6Zh1qT3U3AP8PKINOUvhwYFm/y41v+JdCJDluTrNtVeb+Hjbz54Pd6XoKDwHtINUB1G1UJuyr/aZOh9R5SMmJzgRmgVTvDQXdpsptTkO5K53eVykwDMMw3oyDJqCnF8DiNW5g15d+BrqYsCw5AhwB3JS3krd1Txlz1nWfSogG0Hb58KU1E6B143KPgT4PKpXGcQIylsUI6/b+PlOzobzVUUFaQZIDa8/1oeQh2UWLn3BN3blhGMYIddAE9EWLIJOBxMR8h1Nf/jKwslKULEAM5B2I/LLQkvxE4ZVkc/rDWK0zhyetmR9Dckm+AHIX4FY+VlXibAB6935L99TJiGtHEyhnAzG0b5S6TlR+FJd8IZPZ23s1DMMw9paDJqBDWJztlFytezX3tKV6Heg2oDr3eASYBvKtfC55S8eYcZMzd7HdLCn7JZ2/ATzEynoPIjxfefEAcPbZTl9GrG06CeXoyicK4mHpj+LR7BO0m7pzwzCMkeygCugAqfPg0WfcIJHvvQ/4KkhP+I0QBnaSIJepbf2yp655dvHFWGTh15DWWfs5oeeh8UhpowTcAVoAVIQsTYT5573s/hWxoBiNTcRiYqWbnII+L5b+vO7VYjH9m729R8MwDGNvOugC+qJlMPfzaKxc9JLtPbejwU2gvWFeXCFs2R0FznWz0VvzftOlZ81OxDJf3rcDugwmk6BuXa6sorcDS4AAZT3vQDly7+6rrQ3OfX9EfDtyGMpYwrebMsgtY4/ftvL6JwOTOzcMwxjhDrqAXpW6Cn1sXTGXOCT7A+AWkGxN0TaEQe0Ihe/kGuqv7Z3R1KKKLFy4/9KYXgots7ZusSLy78BP7frykxC2BdjrLImIZU0CbERKKP8Vo3QvzyAjse68rQ3aLq28ht2L6L1YunH/vnQZhmGMJAf9A1AV8psSDYXNyf8F1jWg9YNGSFPAFbg9PjH3xfik3OZ0OqyP31/pg0plwD7S1gbXfTJhFzYnr0bk6yD3xCdl/zkxMbdZZORNkdp3bX6PbD1sfJ1ErCMFnYrwastJW17en9fHMAxjpDhoRorbkXQa0ul8rwg35zcny6JynSINlcFcIHzpcRQ+mN+cbHRzznVfPqd3TarND+buh6AhUsmNtgErCGdKnwnpyxFWIETQjNqa+d0YKVl58fIBXrkkXiHQlt8SpHUKcKIVNpZ/IEilmkmlWoBtZDLdfa3/Z59W9s481nmonIvd5CTLtyYm5jaNpJx52zxIzYTUB5D8pmR9YXN8OtPlAlG5SNCpQFKUX/M6V9M73Kk1DMPY/w76HDqEwTKdhsKWeDK/sf5KkK8QjqNee34UxEf14QjuVfWv96y84ed+sK+HjFUF7kP4O5Q/IBSg46QWh0JkIpZMQnW8wngJtEEtbLBsIhHPcqIaa2hol6idQ+gg0M0SyIa6RF0vDY0CLweQBLpJp19n/vz+8wDhz5GQy22bB+l5gIUUjksk8l5yDirvAy4EDgm/wUfpQPXjLc7We9Pz0ZEwlK9hGMb+ZAJ6jYW3wpnT4on82PoPgdyA0IIOaGeggCfwN0v5bGJd54uPPuXu9Zx62zxI3wX8BSmeFLODVfaYUkNyQqCcKnCKwvHAoUBcLCtu2XZMoo5lRaOBFbHjEokEIhLBssqCuIoWBQoK7QgvqvK8oM9aTvxVy2nvtJzmXMRpF3hFM5kwmC9atHePaXdVc+RzzoxY2YaG8X5DbA7oR4CzQMaFJSh948xvQ/RrjUd0/ZdT7xb3ZfXEkFpbYWIqLD2pIyz3soFXMjs/ka2tkErB84QdEuNAFmgHZgHNjIy3KsMwDggmoA+iC5FStM7JJhvfBfwnMB22C+oBsMSy3H9qWNuz3M77geyFKVn7cqMg7TMmJUWCU9BgjmKlBE5VGAuoWJZrRaNeJBbzrFjMshzbQSwHJUJ/lbfW/NTKMUjN5yVgOfBXgQdUvMeija9ujTiHKxyPyPBkcSulBMKDUCCZLI6rOz8Q60pU5gLRmkWrx7JV4T/cCdaPDjlkk7/Pg3lbG3w0DSsrvzsXoKTTcGIaSlg0AzEgjvLntPYVfbwzDVsQosBP0sqCmiKRXwFxLFqAjSjLgctRphN+/540bEZYD5yFsiBtAr1hGNsxAX0IC7+NnH1q1M7WN55FxPpP4C1UBnWpnDDVsJj3b0jw6Zbx217KLEfnzt39fbXOhNTxkJ6HuPVOxGtwxuUbkheBfABkpsAEBQtULNsuReLxciQety3bjiISYYhrKDJ0WFPta2KnlTYCQWX9TtAVIvxB7PjvLDux2kmOLWQyz2gms2q/xI7WmZD+dzh3siWlGXXJYnvyHEU+jXIuIs1otU2DSGUsoADVFaBfbTyy6x6n3i2lUnuxZOHf2mANMC8F01PCBoQyypZ74OS3RWnXOoQoOaJIrglHD0FlPKLNiNVEQBOiTYQvIRHC+8cGpLKlEkoZoUT4ctULdAHdIJ0onYh2MsHK4taVyYpLNyWmBC4vLvSYcHGYmz8ZpTsDt94KvQLProHVw1y8YhjGsDABfQf0LuBsyNvJ6YXNyZuBiyvBpHrOFEFRHopGih9vOKFnPexea/S2Nkj/C/Ao0j5t/ISI71/oW/YngVNBbAFVFLEjZTuRKNuJpC2RSJzdCOI7PD4dMAZeQJiDV2ADyu0Kt0cbX11mx6YEsE1FNu/O5neLKvA6uM86kZ7JTSeA/BMiHwYaK4sMasuACzyBBte2jNn2OIeHE8zulYTcg1BEaQUWYWEVlUguAf4kVCah/mEQOQb0aITJhFUfk4B6BpaAVO1mykQq95UHFIAtoBtBNqC8jgTrUNYQiWwAawuJ5BZOiOVZ+gBsELj1r4qshg+8X3joF8oC05jAMA4WJqDvxMKFYRVnz0vNk91S9F8Q/glkDKgVxnZVEBf09059+XONya7XU28LB6/ZmdZWSF8Jc6ZHrMKhycZyd91FKFeKcIpCQhBRBbHEtZPJop1IRMW2owwaN0DCh/+boqCoVkNRNRh5wBqQOyKW83M7rmut+OFBOn2fzp+/95qQt7VBahqcc7ITKTQmJ7i90Y8IXAHMIMzJ1naaq1Yd5FB+Hm/PftOJljfc+FPPn//zPUxAqi2sxDgxDedicWxBeSKowyeBnT+EQE9GOBXlJOAQhGbCxpJx+s9WbW+InXXxq6ZfUHXD9QMHVRfVEqgfdqoPHIIgjmqAahHUAw0G7CPM2RdQ7UB1M563Ec9dj+gKvGAZZW8zsVKeGc15Noqycgos/K4y/jU4froprjeMUcoE9J2otllqa0XyTrNTbIheBnwRqmO1hVE9LMIOfpjclv3iY08VsnM/v+MHe+tMSH8Omf0Bx8qvSZzsebHPAe8lLJoVwjgdRGLRgtPQqFY0lgCtBPLweV7JjO/9a1fJtWt/YFLgxYjqTVay5U92YlM2nVadP/8N3lh2QessyNyHuJ7jdHc2p0TlWpRqpcXgAY8q55hVQnCz01C+veHV7kJmCTr3S3uw86+2ha0Hjk3DSQjb8nGm6OF4vTPwImcjOoew4WE1110tvahO5rOTcy+KqKLqoQpB4OF7EPiCH+QJ3CRB4BL4PhokCTQCBGHQFoEg3F91cpzwUu9gf9XLJdW0ARSBlcCTRIKHidgvsa1xPV5jO9OeC/jAW5X3XwbtMyBjArthjCYmoO+C1pmQvg6ZfZ5jFTYlT3MT0S8BcwUS2p8z60WDLyYT2Z/WzSiWBj+Cqy8HXznVsnLj6pvcZOzDIP+CcESlJX346LasktPQULaTyRgiTt/n/TF8X1+zMEr0l8gHQLfC3TbydbuxcdXDj+b9uXOX7NHGW2dB5hHE7XKkd3PjYYEduUrgI8B4hgrkIopqDvijnXS/mVidf2HxppKXWbUbGc3WVpiVAi8FE1LCmXkhrwkkewjK+Yj8HcgxoIcQ9uWDsISgP4TrkOe9EkjVJwgU3y/iuRa+G+B7UQIfgiBsqKhq9y8PbN9IMUAkoBrclcq/a9cZXPPQp/qFRTjSn4WqBVKsTEC0CXgGyGBFnsDu7GDbjDx/7/msWwGRiJLJhAMSDHf3BsMw9pgJ6LuotTVsgX7uYRGre0pzg9qRq1A+RbUvdNjQbKNT717aWOxcnLpkYNF7X/H98qajvWL0y4r1fiDWn/tGrWi0GG1uCiwnGqcmuO1u/fjeUq1nrxRDBAJPg34h2jRh8fU3/rm8u8//tjZIJZDT5yYcb0zsrV7OmQ+cQthorO9tpRKqlLDofznCD2Je+Y66qdleG09TrW9crdGntRU+koYzUsLTLuTdyUzqPQusi0HfBowjbKy2C7nvarrUIwg8PDfAK/t4roXn2mgQQTXSt53wZaTSPkEC0CzQTdgALluZGCgLmqt81ouQJSCLSA4hC0EOlfJO0uOgRBGiCElU6kHrCUsXGoAGRMah2gDEKyf4RZQljI08D9nXOHzaNg5vKvGDb5rieMM4gJmAvptaZ0LmPnBfdGLdh4w5RYTPVYZ9SRBmpH8XLQQfqT90W14OryyfhtJJsUjJjs9yc9FvoZwHSF+LbQgi8XjeaWqyrUikrjas7bPi9V2kGrYCDCvaUWAjcKOT3HirHd/kptNvPK1q60xIfwlSl0HP480TyrHop0X4BGFjskoQrRyzoCABqt3Az22v/JPE0bkVi//oBun/RBc9twuJntYKx6bg1jQ85wleMUapOA0reD/w98BMwnrwalG6DMwsDzwF4eEHLp5bxi0pbtnG9yKVAF7dhlVpeV8mbLTXjfAqyqsoryC8xmENG4mUuljemaPOzjJpWp5DtMTCRS6ZRUqiPWDmTJiVFrb9BV53hKgPR3fs+FjXNEE2Gr5PThblpJRybxqWLYPcOIvrv2zxmMSJbE3i9dQz2WnEam5kQ28zdqQZxQe6EF4jFnmNzdPyXNc04ob7NQzjjZmAvgfavgipGJx9UVRcN95YjkcvVORjhIEiJ8K8sSu3LJX3EyxsQ+acFbO6Jze+jUC+DTKjkisPz72IZycThWhjU12liL3ycf/fI0BNjzcUlQ5Eb442rvx+xMnmUyl0Zzn1hd+AOSdErPIpsemFzfU3Ae8GcWp6DEB/NO0FHhbV70XLpcXx7mzxr68Gmr5zF0sD2tqgnIJJKeG4bJysNwvKlwDvAyZQ7TrWf/4FHXLW+6ASxD3KRZ9y0cH3ncq1s4Cg8hLQA2wGNgDLgKWgL6GsxCn04Poehck+cxIerzytnDJDuOdVoTGunHKe8hYGDsvX2gqTUpB/FXosiCi0FHZ8vF0xKEfCpDQAE6fBykz/yVKFWxDqXoTCBuGMuLKmU9nQK4ydEyG6KkK8UeiVOnxHKMV7+cwx3i6cacMwRpiREjAOSG1fgdThSOofofBKcqyu4YhcS3Lst36Ue/TCibne1PGQa0k4hXH1bxflu8B0EKu/SlQ8p74+6zQ0JAcG8xETyPtUO673t5ujF/i2ndh4k5PY5GUy2/fDb50F6SvgnNNjkWyi4Wy1rG8RFrE7/UuJVjqulYHnnKD0XTvq/SVxVK4jczua/sUuBvJ5bXBLGpZ6Qjlfh1c8FfgE8Fb6qkXCHfb/0AH/IGxB7uO7RcoFpVS0CTynkguv9tsvA1tQngYeB32aeMfrtLRspDymh2fLyrGr4NJ3KscfD9NnCaUpyjkJuH4EFWe3tkLTORBdJSxbqix78w0dDcMYXiMucBxoqo3d0p9C+Ct67UNJvvWjHAt/AanxWB0Tx71DLeuHIFNAI/1riu/UJ3NOU2McLKemiH1EXxPtL4QPEHpQvhdtWvnNiJPNDU75whth9rlOrLdhzNtVuBk4gu0bvpWApcAvI2X318mObLuTdYP0C+gu19Gn2uCf05DIxSgWT8IKPgZ6Cf3j8QtSE8j73kn6BAS+i1t2KeXBLccgiKAiiAYo24BXgCeAv+L7T5LzOuGQIpmbXD56vnDMMfB0h3Lbb2FcB5xw9K7VR7e2wtgU5HqhaZ3QHq80dAfiblgx0HF0f2IjZYivFnIOjC1AdrJSaoKjgRW7esIMwxiNRnTwOFCpgpt1pPeV5jMV+Qlw7ICcOQR2MpmLNjXVIQdOMK9S7evZpkAW5fpIXft3Hn2q10+nFegifQmcfVSdlZtUf7Gq9UNExtfUN0NYz7wU1Z/Gy7k/Oh3l9c6pnp+auxsN3u5YCEemhGcLwriew0GuQng/MJmwoV1IhgziEAbyIsWcR6nghLnxautzKYG+iMgfsfMPkhu3grpt22jaAOefH/CeawQ5RMl8bcfpm9YKx50Ibjeseh6WPAt3rhbKrwjZOSpPfVbrzjufYGxKJNst2rROpD0ueGHzCk24SJ1Cxwz6OhPaZUishqyDthRUspOVYhMcIyovP6iFtXbYkn/i44J1jnLlWCWVgmOOgdV5mOzAq6+awG8Yo9BBP33q3tY6C2hH8l2JEwPku1KpMw97rAsCatXF8k5jY6Vb2oEVzCEcyyzMp4soWo9wbVAau/nc2VN+k07jZjKPkvo40vFS40kKN4GMD4duFUW0E+U5gV/bJb3XsbJb4sWCl9mKZn6wG8F8XhskUkJvfgzjs+8FriYckMamrxRAwrz59nXkAb5XppgvU8pHCfz6yqutC7IK9DFU/5t4/HF6Ij1IqUw5DsteV7YugCefhEW3Dd1wrK0Nli8H34etM+HCy4T8GmHKiqDuha1RKDdgJxtItCe58NMNdeqMCYpbxkvEb9HsuGaJESNKFBEH0ShFoiS2VNsbqECgfnOOOFnNJ7JilbIktmRZL10SP25rMNPuknw2T9CcU+3JWo+5WffCz3ve+RMg0x7WoT/4oLJ1Kxx3ErQfDZn/2O17wDCMkeeACSIHgrY2SJ+EdEwf06IR+1ZULmLQObYcuxhtaQmsiJ2ofnYgBfMBtJJZD99KVtvizXMarGcyjz6nua0J68wZ9d8W+DThOXhV4D4nX/6TVfKW2F65K3ZUOUh/F+Z/Zzf2eXkbTE/DCXmIZM8ArkO5kHBKlP7ifJFwANXBufLAz1PMeRTzMQLfJszJe8DfgDtJdGfYMPMVJj3rcc9PlO7DYMVTQ4+P3toK06bBvHnQ1CQsnkk0pWqtWCp4vvpd9bH6SN30QDgO4ThRmQE6GaGFcC61RsLuZTVtCnY62txgtX3ZA8Lqix6EHpAu0A5R2aywFmGdKOtRXnNsd23JKebLEV8iXSeov/h2Cs2HWRy2Ucn8Wtk6HmY6MHMXqw0MwxgRDsxAMkKpQmFlPJ4r1F8nKtcixEVFtNIzSizc6JixpUhdXZK+AWMO0GDeR7US1QPgTxGn9xOPPpPd8uc/+nrNh5gpyEmWsCGaLb0WaXI7nJybt9e6mv5v4JjdHBzm5BS8K22xKddIMv8B0GuBqdT0Y68EcioN7WqTWaZUKFHI2vhurNJHvBN4DPQ2xHuUnsO2ceQSnzPerVz1EfifX+04LfUz4P3vhGnNYjVPFXtVe721dvzEqFOYaol3KnAicBxhg7y4CHGUKGBp2Ccd+n//qj8HB/NwobBExEfVD9fHAg1Utax9/dzDbaiqVAaxiYQt8kVBXaAMUkTICbIRkRWCrIhEosvcjvyabPfWLhp6Olm9rIfCCcq8JLz/ncrpl4TzDZox4Q1jxDvAg8nI0TYP0p9H2u3xF4D8gnCUcKs6OCwQ2PXJbLSpKQkSgRHXNW3PDMyluyi3OEnm24mXy3gF5TGEOShLARtJ3/nG/daHdL3CbKBz21SsoA2YRziqW9iHXJSw4nlw8boEuMU8hV6hXI6B2oQt1e8BboPCI7ylrofNLiw5U0m/weVYsEA4/3zlzpVSlxM7XhefoWirqqZEOF7gcA1nRYf+7nFBzb+HIIB6gKhqKQh8TwPfCVRzGvhWEPhJDQI0CNxAAxtVu/IeVa68Tln921dRJYJo//76x+hXRAKpnrLwLxelN9BgE8o6YDnos1jyDAGr2Nzt8VbCSV7+7d+Ee+9Vk2s3jJHpwA4mI4gug8782ImBHbkDJFV9XlbDi+VEC7FxLYhlxavrHPi58xphT3UVYYPYvZc7iULm4b+Wg8yvtsLUNzGq6KxWuDQtHHqGhZRmU+/eBJxGWExdE5monuyaLmiBSyFXpJiNoRolHJVtCcL/IV5+hGS+gxOmBnzjG2G991AJnDkTTjsNTvmh2OMXie3GG+zYxCPsdv+toG8FThAYAyQqw6/XDFYz8AxVfvqqqqqBGwS+rUGQ8z0vGgSeG/i+XfmsAFrScCKaImgxTDtdQAfQCdIB2hWOJkchHIyHsPufSAECH600l5eIothAHaJ1IHVoUAcSJ3z5aCI8hkagASSBqAe0g74MsoSkv4JD67t4dXmWx5/0+cOP9+BiGoaxL5lGcXuBKpSejMeCqH0lylm1nwNhf/PGBl8sq56+j0ZRMKe/Z70qh6rbcE3Q2fRk5uFCz/yfbX1zG/5ORijlHfK9F4PcSDgxzsBGb8CgnLnieXly3eAW6ys54OWg3ycS3MVZiXa2dAupubrTApK77gp/jh1L86pVLXROeRvw92S9VsJpUwcce02JeWV4P1FFfQ2Cgu974vuu+p4bCTzP8gM/UA0U1QLKKtD1iKxHWA26Eax2oAPRTqAT7BzjPY8tFwTcsRLes9oiADZ2Q2tO2bim/xVi6zjluKvgqsr/Lwc+9Gd49FGhZRwsmyh4dTC5IfzeeUX5zCXKWf8Isz9icXgyiuuOQWU8FuPBT5CV41hV3IpM3UbrUZuBognqhjGymID+JrXOBNqhNCZ2LFk+jFCH0j+zqapasWgxEovFquuMtmAOlWOqFL8LtLqR4N3pLx91eypVCObOfW33NzizFealhe7uBrT0cZDPI4yrFC/3jYkLDA7mPqVCkVx3BPUdoAMNFhB4/5v8lFUUmzx++AV44QXdYY78/vvh6RfF7nTqYqXJ053N5XeBvA/hKFEadbtBasJUEFZA+IEGvu97nu+6geeWJPD9QNXPKtqF8jrwMuhyLGs5Td56Vvk5xtoFjkoUWLOyxIN3BFxxtfBEVEgsVc46Ep5/XrlqPtAKY0+CxV0BqpAtQU8Zerv6U5JPwGtbofou9RwQvALr1imJBGytVwIbVkTD7yOdkH0Fli2AZQsCyuUiP/7xJspHbqYnAF0SsGhFhPn/ESFA+GrE5bXm3b+mhmHsU6MusOxvbfPCSVvaj57wTYTP0Vc1GVbniogba2kpWLFYA5V6zlEYzyv6RohVhEVO3LrUTlhbRZ7Y/bHB71JBco1Ecv8G/C/CVuz9Dd9qdklfS291yecKFHrjaOAAz6JyA72Fe5nTVOLmtO60cVclR17fOykSKYw5GdVLBf4BmNa/jzAFNWsFqlryfdfz3LLlu2V839XA97srxdUrEF4AeRmsVdQnNvLkxoCjbXj3FOWee+Cl44Wj6+DCscpf/jJyW5b3Df87Wu9fwziwmd/MN6HtUkhfinRMm3CCwu+AaWHenP5xQOLx3ujYljpQB0Z1NK/SSljPRjT4hF0/4bdvvfBZf9GiXSx6n9YKrWl4x8njiLvXgl5FOF7awPryyp6q/0K1TK7bpZiPI5pHuZdo8WuMd17kwQcU6VFuHmIQmNZWOCQF7zlJ6vJjYpHsxOMc8T8KvEtEpqoSqRlzvvJTvSAI/MB3S265hOeWCXyvS1W3AM8CfwV9BvG3MT7oJj+myJKNwpR1yjP3KNsmwFgLjm3ccd29YRjGbjJF7m9C+k7Ib4k7uoEPIzK52hZKVat90txIMiH9wXxYk7tf9Ncnk/TFutzS4P5Uanz3Lgf06zNCPt9MXe+XQP6Z6mQq0rfdyo5qitlVS2S7XEr5JNCF8m3K3neo25Zn7vnKRafveH+XflM45HRtXvfi0aCXIf4VwGE1u6juM1DVkueWPc8t4bpFCXyvG9XnEB4G61EIlnJ8tpvVqyGXAz3VYlwxYNlTsGD+9qUUD+/aKTEMw9gVJqC/CfpnxGuJTsHm7VRaXYd5SFFUiUQdNxKNxqC/rHgYk7tfVIeDq+Rqz3ULHael00c8BJ7On79ixyvOaoUr0kJT9xjqS58H+QQDJ3HZUc68SLbLo5SvB1YjzOcYWcDqdUW+cr3y0Yu339e0WZD6Anz8Uok//cw4Z+0LFyNcJSLHqWp1n9Uidt/3vZJbKnpuuRBUcuJPI9xPznsMq3sD6nfyWh08MidgztXQ1QV/+QuE3dUMwzD2i1EfYPaVtnlw7aeSUmhJvk/gl0CUsERdKkXOQbSxMWc3NCSpDPwx+kvbq/oGm1EVfuQ0rr3acdr9nR7+QhWKhQT53n9D+DI1g6X01ZkPHjAmzJmX+oK56mdojt3HJcfrgClJa7W1wVFfwF77gp1sqDsBuE6E99H/civhAQQl33P9cqngu6ViSdV/HuR+LP7EltJL2K8FuA7YnvD8/yiZzJs5YYZhGG+ayaHvgdZWSH0EmBCxxefvgSj9DdvDEdsty4vE6ypzZ8tBkDev1T8bisDZuMdMxomvgwe3L3ae1grpjNDTW0eQ/xgi19AXzAfVmQ8M5mGdeRjMl6HyWdpzi7nze8oHfj50sv7lP7GOP1Fivdsao42xjwp8RkSmqfbNgqdB4BfdUqFcLhU18N0tSnA/yu/ozi2jzFai65QtK5W1r8Lml2H16t1v8GcYhrEPmIC+B1InQuoYpKtQdyhwHn19kKXSGE6JOE5Z7Gis2pvpICwMCUcqUzkcd/NxuBvXDbnU59OwGqW+eD6WXA+EvQF2VmeOeuR7ihRzSWAFqp9ma/ZvrHwqIDNEMK/McRuZ8FYrvlaOtmOdXxRknkJMVQXwNfDL5WLBLRXzfuC7q7Dkbiy9g5byGh6JBUSzwurXlNJjsPFlWLNmL50mwzCMveOACuhtXwU2A5PC/6fTNQ/8+4DeQSscAswBQKslsG1fAdYDReBwILYHvYQ2A8+BP4NzCUfYqo6nXa15DSJ1UUWw0YG9rA4WlZoHAZp9t+Escd1Fqu1FkVz/Qpe3QeNsi4lbTgduIBypTKpb6FtuYD/zgGI+TyGXAFaifIpt+cf5y08DFg0RzGfOhAv+ROS8Tqf+mfa3S4zrgZMULAH1fb9QKuY9t1zIB77/JMivyPb8jXVHb2DeqoA7/5/yhxng3mBy4oZhjGgHVKRRH+E5hFMIHljQFJl9rhtXJAo48oo6WhJbwvGwA0R8acDnMMpiaeHBB6T8+N0F//pfBfAYQidwHkoTmjoeUicjTEGJv3GAX3gXnHO4Y/dGm7+LWJ8AjYiIBeGkooq6dePHla1oLAkHVeX5ANW2BAoLncSYS53EmHaR34ZfzmyFWzJCufNIPPenCLPDQWMGF7MzsBFcuZiltzOG6iZUP0l79gFWPOVz2zXbJ2DaLLj4gxI98Zx41I9+yHYTacLXQQ0Cv+wWC+ViMZfXwH8U5DaK+iDj60ssX6p0rVJYbSYlMQzjgHFABJrAg/sWxO0zjk0eichpIMeLMBWYoCpx0ChhaUMknG1LFfABH6EsSlaRblHdgrAFZLOKbgJdF/P8jVaxWCDAlSm4kZjlRR/JwkTIdKCZ+yHz0sCuwno/kqtPjismk3cJcp6ifY3hBMCO5OvGj7fEitRVuq8dEOd5b6sEdAW22WLNufH7T63MZGBRqg3q0sJR2+qJ+N8FuaJvpcHnqjZ37rt5ejoE32tH5F9xNv6Bn/2mvKOcuXzwB1aivn6MbceuFfQTAk2q6pWKhWK5mC35vvcwuP+Xdh6jx+3lyTuVs6bArd/eJ+fDMAxjXxrxRe6trVDcGueMY5PnIdZtQAtghwN+YNWMn62VKbeg/0VF+mfEVlVLAiBANUAJQNxSxO4mWb8WdKV087Kl1jKvRddInW6YfVS5M3WER+Z1gswEmF/NrDkgFuOAQxUCCafvDGORKpZtI2KF3Z8O0mAOYclEJaiPc/GPSacnrUqns7row2lYWo4RBJ8CeR99jQwGnaoBfc2DEtnuAN8DlW/Qetjveex5f4fF7PPmSWJ83WG267QJehmKlL1SvpTPlj239ArC94hEf8/Wco7NRWXpgsrQp/vwhBiGYexDIz6gA9iNrtg5d4OXjT1PWCseDkItBOHQ4dU/OiAoVJqch72iwzpZS1Qt7R/FM05YbzsFrLMVFV+0UGhJbgJdh598QuGhk6e6S868ptzNzLyfycBDW0XPPE7GScB4DWfX6qOglu0EB1mz9jckgZwC8T/2XjpfWF4WtPsC4Dqgnv5uAEOfNFWPXE8Jt+wgfB/Kt7HhhYBbb91+2XnzsN57mSR6Jh1mu4mbgXdr4BcL+azvlvIdqvyY9vyviNVt5AMzAuZdpKx5bp8dt2EYxv4SeeNFhteaNfDWtwcceYzfgXC3X3SeEaFYidYO4RjfVdWA0D/P2cDNSaVCW0TEklC1zlYqbwM20AwyDawzBN6jQeR814ni1JdXvu0dQfnM05JWIZs8G7gUwRpUR652PO5b0Whfv/S9fU4OMOFE5cJWW+L//blHrmarHzkC4XvAEfTVmNc2goOaLmoBpXyOQrYO0T9T9r/Etlw3f/iBcu+9A/c0bRZ87GpJFidMs936b6nqO71yqZjLduc8r/hnsK4mJneztrOL3scC2l+A3/9mP5wCwzCMfe+AyKHPnQutrV6Qntfbm5rW+4fyW5J/8l7mEKYyrdibPAE4TeE44Cj6WkqLgFo1M2NV6nO1Ei9qc4Nhjl37l6v+tEDqgbNBjz1jenJNHfkH/E1YAlMBq69HWnUqbhFfbLtEmPs/qGl/AQmKTizly7HCoeU4W/kSyonhUkPlzGuK2j23QL7XRvUl3OSXaW/Ywq0XKqsH5apTlyNzP2YlexsmOI7z9UCDdxZyvWW3lF+m2v0t6oMH+Lvjszz8sHL7VRiGYYw2B0RAh7BRWnorpE5G0xflvOhjrCfHOjmav7GeX+br41E/4Yyxfe8IFZkqqlMVPUxEJqkyBkgCMZQYSB1SaUSnWp18QxF8UTwV8VB1QXOEneFeBTKRePCkIy7+ZsciznhqO5hLOCyaQEQsq44dFR8fTMLh4hQoI/K7n3S9t/TalskfIyzZcBjqHOmgwWPyPQFB0I2dv5bJwUvMm6F8dVAwnzkT3nmZJK2GCbbj3OC6pXcUcj3tvufeRcT+NkHnZopbfH68WHn++X16yIZhGMPlgA86bdcA65HMUjSzFOhBeBphBnr/k1Faz3SiqDYEa6knIMk44tRLYv58oq0p7NRMHFwilDTIPCmlRcvUTbeJq90U6aAH6HKmldqd8Z6feQRlOXLGcUmn0JT8P8DHoKbIXVWxxI+NG6+W49hw8HZZq86NThjQ73qo8/SrLl56/VGByq8Ii9qtIevNtaaoPZ/tJd8TA26kPftNtj3scvOXtu8P/rUu6iauqItl423lYvaqYqF3hQYyn435B/jU6QX+4UK2y9EbhmGMMgdMDn1H5oc9jBQgnQZKKBtRWiDzVJkLMuUSUGYl7XgICZRJ6Dd+BI+/BEuOB1ygBJknYdEy+M8fAiUsCoCgmeVo5r8gk4HUVDjzRARIAANr6UVALE9EAsA+SEN5pcBcIRxwZ+mjnSd+/ea170sEKmmE6WF1x06DueKW8hR6HeCPOA3/RXFFmd/etf3O5s3Dmtzu2N3OBwq5zg+Ui7k/QM8NSGQ5Xa8G/HqJCeaGYRwUDviAXmuoAWFqp/Wo+QmExfhDTUVdWWfImbJSbShHAJvDmcAGx2xBA6S67sEX0hWtPde+Krfc4F3y3KLuWV9FeGs4eAyy/eAxNdcmCMrke0D1dSy9ETZ2sGjZ9oF53jyYN0905Wun5n351yBwf4REfgz5LlgDd6X35aEahmGMKKMqoO8X2UrNel/AHzhOu/Z1oTtIaV8LQQ/01sXdJ92defn0i7C4Et1BvXm4YvWHTzFbxCv7iHyTlvalLH08IDPE29ptt8H3HxqnrvdhVb6GbLsHnVzi598xuXLDMA461hsvYgywFiGcl6M89AJiodXugLp9fe8oFg4i01fevvSGb2z+1ju+PKER+ArKJAZPh1qzYvVfeKU8hWwcld/jeHcw60gP1x1qZ7BkQ4yifTbonczK38WUYoH5cwMTzA3DOBiZHPruigNxFOiBMK4MCE9B4KgGfjip9kE1baoKgqIq0KHK1x6+4Bcb6Z71H6An0zd5zXbBvO9fBEGZXI+gupSY+20aO4q863Jl2RDDt6XTYE9VylMf5XfHdPLStbBp0748PsMwjBHNBPTd5YF4qqi2Dw5OqoqI+BpoHmgYPHLdaKb9LeE8hf974zc33v3I2SddhOjHCAfLZVAThoH15hBUitoB+Ra2u5TWM4cO5lBtMFEG3QZpWGYGiNlDQ1wYwzAORCag766JqByCb+VZFejAiF2ZF0bUcy1isZ1tZbSpjqMfgC5+uHPWfy264BvT6eXzaGV+8/7hXQeuVv1HuVigkHVAbqXo3c0Lj8CNV+7Crrd7YRrqDerNBKxdeSOrHaHwjfb1Rtt7s9valWMVwlEincpPj7AKaW/vc2fL7umb7t5af1e2sTvX4o22sbPPh2yA+ya2P1Rad/de2eEv626mZ0/X29G6e3Ld9+Y9M6KZgL6b5n8benrs4LpP2asdx+9RpEl0wKTnVuD5leA28ofW3Qu0ZiyYjX4Qabv2uU9ueiEy/RbgtL6ltv81H9SqvVdQXUVdx3do7sjx2S/sSVoOBWYRnvtqzjMHPAUU9mB79cDphHMH7Oxh4ALdwHpgK+FMf0M5EphRk75a1fNRAErAWmATO36YHAUczcCH1Vpg6U7SaQFjgXMIz1MLUAdkgRXAEuCFSvp29DA9vbJebZB7Htg4aNnGyrI2/deiADxJWHF1Grv3gK22Pn2asLrrDKpdR3d9fa+y/25gCnB85bsdXYsi4bXYSHhua7/bFQ7hcTYNse0ykAc6gc1UqvB2cx+HAzMZeD91Ed7v1YYnFnAs4ciWtYrAY5Wfgx0KnMTAFr9rgZfZ8cuHDZxCeG9Uj8EivDdef4PjqCM8T0n675WA8Fp11iw3rXIsA1si71j1PD5HeI+fVtnXrqreM0sIBxgb8UxA3wO3XNQj+azfXhhTvxXRRgVrwGDunieV8vdhS+N+Ug3LSvhg+M79W2YveSFy5GWgl1aWkaFnnOtr1e5R6C3hlQsgX2d9dC0dK/ckLQJcAfwrAwP6xsrnz7N7D2OL8IH5TcKH/84upk/4gO4CHge+y/bztgnwPuAadt4Twq1srx24D/gJ4UiFg10CfGbQdu4CPruD7SaBDwIfJ3wRGMPARrF5wheIe4HvVfY5+OFtA/OBUyv/18p6/w4sqFleCAcP+gFhMKtei9eADwOHAT9nzwL6FYQvHTezfZB6o/W3EQ4G9RRwPtBG+HKxo3R4lT89QAb4ITsParUEaACuJwyOg9PiV7ZdIrzWzwN3A38lDD5vtA8LuJrwmtYOb/0qcDnwCv0vZm+ppKP2WLsJ758/M/D3wq5s94qabeaALwMv7eRY48AXCV8Wq+tB+Pt4106OR4BxwI3AMQx8+buM8KWjeu3fSXjNdjWgV9Pxz5W0f4PwntmddbuBeYT33IjPqZuAvidmIPjagepWVI4CVQRRDUdMUc+LqKovIqP6/NaMBOcCv71p7SU/u2HNR44F/QLQTN/EK4NXrB1ApligmKsD7uBY+zd8//vKggVDrPSGEsDb6M89VtPWDJzAnv1CWoQBaQy7VtoyFTiRcF6BjxE+XGv3GSXMIYd98YdWfVhNIcxFn074QFo1aFtOzbaqdlTPUw9cS/hwrac/91Sbu48T5oCuquz340Okv7rcOPpzUTHCczP43FZLA5rpf0h30T8B0q6e06pqmqs5/ib6c4O7IiC8T6vnq5qGaq5wR/usXouZwNmE12LJLu6zGtSHSmf1fFmEpS1nEAawXwNfI3z52dH9agETCYPnuJr0B4T32HGE90vVQ4TX/iT6r8UY4P2ELyqlmmUnA++tSXNQ2dZfdnKc1fNUz8AcuhLepzsjleNprqxbG9CtmmUgvNd255pD+OIUqWyjke1/Z3ZGK+seML3BDpiEjiTpBQSZ5XQgrKC2eLI6Io3vR9TzAhhYHj2a9I/sCihPRcrxr9zwx2NtsL9CmDujkhHdSat2v0i+x0L1RZz8/2bjy7B0ZyXGO2QRPsSOqPl/hP564vPYcbDbmWpO2qr5I4QPCZ/+B1l1maozgc8TPsyH2l41bdV1ardXux+Ac4Eb6H/Y1W6Lmm3tKNcfIcwVX0N1qtr+YF7NKSoDj2F2Jf1DFU/WHu/O9rujY2XQOsLQ59ka9N3g5avL1G7/jf7saDsRtr+2wRDrzQJu4o1LbGrVpm2odNZKEOauvw013Ty3p4QvAYcP2q5NGLTOpv/aVUup7q45luryc6jOeNif1ksIg3rtubqdsHTjjZ5lQ53vXTX4mg51Xw1eZneu+eDrvSf3zIg3qnOQ+8xqeGcqX+7Qhic0LI5JAEhYvKyo2oHnFqxorC5s6T666MCi9m1KMH/+hvdu4vhzvgT8PdVfhO2PvPaB4JPvLeO5LipfJ7lhGQsWsMNW7W/sLcCEHexrNmEw25N69MFeJyxedgkD9qGV7VcDbvWB+XfA9wlLBoZSDahLgT9VPqvWO59C/8PEISxqPIWd55KGIoQP/qsZmBNVYAthzm0bYV3yuZV9VXNI7wLuABax94sa3cr+a++Qxkoaa2UJ6y5rlysNkZ6AsMpjMf2lAIMFhEXnHUN8V93eq8BvK/9OACcTBsdqSYJV+f95hDnp3T0vAeHLwuOE9eYTCF9Ea6s/IsDbCUtKbmToe9YmzNGPp/961ZpNeD6r6wbA/wBXEr4oQH+1yNmE7Se0sr13E74MSGW9alXASFN9CV1LWIUy1LWo/o69PsT31frxDOF9MWRZImF1Q9deSfF+YAL6nhgPzER0g78YsXqBpFZ6nVcy5JZfLFl2IukDtqrqqJmkRVUr974KdKnw9Qvv/Ie/Pjzlo3+H8EnArsmV7zh3XirkKeWjID+jO/8Hlr0iLF26J4GjWpR2LmEuXAgfZFH6H8RTCet9B9cX7i4FVhPWR1YfAkngUuAWwiBQzQUcQhhMdxTQq9t7irDusZo7P4awDn4u/Q/5OGF1wgO7mf4YYV3o9EGfryEsOn6YsO3DRMJ68E/TnzuaAFxIWLyc34197oqngIsYWJR6FWFJQq1fArcRPnirXiN8kRp8HjoJ6/ef3sl+q209hqrPVWA54XmA8NxP4f9Ta8Y4AAFBFH0qiUtoJBonUDqDGzmIK6DVuoTGLciWir+TFUGiY9opNvvzs/Mzb6FBnNp0idHAHdBj/9ZPDvH/0d8j92eUhBAXI2TToY9h50qAiqDf0e8RCiIpCg1WC9CjoQ4BfdSIcW8oTBa+b1q1KHx9tSaEE+48akgwu+itaBM187wNcfyAnwPsAAAA///snXmcFNXV97+nep+eGYZFQERAEGVTVMAF0GmMa2ISTcQlJi7RxKiJWdSYqHGaxCxqjIlmeXyy6RtNYjCaxCXRqDQq7oIimwoCss8w+/RaXXXeP24X3dPMDAyggg+/z6cZeqlbt+reuueec37nnL0m9x1A4hVIzEUjTemlGAalx/BST267th1U1+kmm9wei4JIVgXyit4XjE6845mWQ0eD/pAtWqpurZ+Xuh4cJ02qzYfq62SjvyA1JMM//9p9zPk2+oTZYh1deO8CT9HZ/xvCCPxdtanydv4uZiF5HFhE54fehxGU23POUvP3MowQaytrbwy9W1SkcP4T6cw0z2MsB09gBIGLWbB/Q9FPX2ruL3cb7AokMc/N64W/b2IsBeXYiNEQvd++Tmc2eDlszDUlu3l517steGOxBkNK3Fx23MEYAbqji3y+0Jd6jEC6ARMdUdreYIy1qysMxQhfr6+P0Pn+RTFaeuncSwIPFM5Zyp04GmP9CWKEe2VJu8sKbZduqHY3uBiB2924p+g+6gSK0QbdzZkUOxdW+IFir0DfAcydC4kXgKGaR/UxCiZoNc+PUV8dx+dksp5/stTjvOeiaGZ3Bf7zbMsht/gfvWUfJkz9ISJj6TYbXMm1q2uTbHVw8i0gP6Zj8zoSd+9M7nXBLEjDKZq8H6NohvM0kaMpMq53JRRjBk520bbNji366yhqBaWkod48r4phs48t6ZdiQus8Td/rm4PRfF8v+VwxIXb9dqD/uwql/d4V2JF2Gum8uRKMiXxXWDfdwms+xv3h8XG8667FWGdKIRiTf3XhtyngQQyLuzTKYHpZHxVj6n+VzvO0EvgMZp6cWPbdbMymZk9Yu/aEPr7v2CvQdxCJ+RBozmkgnUsAaxDcLSZlEVD1u5m0oFrYHe7Z802L7D4B5ok4V81LjmpG9OsIJxSXux5C1MAhk0qTSweBu4kM/Tcda/JdFl7ZfggQo0j0asZoda+XnFwx/sLhO3OiHrAvxqxdpAkagbxqB9uLUnQXeP3vynfcE7yNTjmxbTVGmysfpwzwCua+PYkxtf6Ern3O5SgVQqWf9Qa76wMSwmivpejObL8j8Py0c9nabDwMGEHnexvAzHePPd6ACVErdTUohhdxQNmxKYzvf4uigZlnx2N4FqWbt+UYjX6P0U73Yq8PfYcxdy4E+ufFbrRX2QSfR62zCqZoMVFs4GRzATefz1mBwB59n4uyXB1g4crk4Gv+uGHaqts2XPIlhMvRHhKvFE3tLrlMinR7EJiLnf9f1r3nct+vd7Z7AzDat2dSXgWsxwimVoxW7vm0J9C7ePRSLdaDD2OG9liw+wPfpsg4BrMIvkbRN9fd+UqZt975PPdAqTVBMeSf3gq9URR98xT+1mPIZl21dQ+GPNVEMRZ6W+cUjE+3T9lvPUb9BwULsxEq7weF9x30bHqFrcfCj0lGMrjs8zUUE7fsCgjwDmaj4N03F6Od74eZR944DqNzQpx1mLnxMub6/IXfDsSEUL5ddq65GOE/paSNMRhrjOdGsIE/YKw5H2UI5lnuynKnGELmHrWh2aMFzYeNxBvosYOzyTTR+0FPBvoWCHAAqOsG8+l0RzAYdFG19kRyXEnYnSuwLOWEv/Xd1ZcvfKRx8mmKfBdvATLehh785naGZKuF664C4gxPrmP23cqquTvTPcGQ3YZQTCazHKO1BDGkIC9LVxBjwnwIo6lsj3AsD1kRTOjSE4Xz+TH++2o6L/grMAlpumLXlkIxQmhUoe1IoY8X0JlxnsckHNleeMftW9Z/z4LRHcmnqfB9VxuZ7s4TBb6H0fBKEcbclw8CgtEu72JrVrhiWMpfxWzmekIYMxZgNlZTgO9QzBTo8Sae6eI8OwPFWE3ydB4vL29BqeVnLMaH7o3RYoxb4G0M52AoZi564WuPlfRVMc/GXzDEOW+OlcaKe/P3YbqtKLlbYTBmA+ylLvagGF5LT4S+SgzxMs3WAr0ZQyD0NlN7BPYK9J1A/E6Ixx33yH07nkpvqHoZOBkRFEVMtJo46VRQo9GM+HwVYHzp0nW6ld0Ppdo1vPfMvElXnzzvzmc4pv040J9hFo8CehDmqhmSbS5OPgD8lOi7L7G5Q0ncs7M99GMWrb6F9xmM9pHGaBerMAQmry9eOE9yJ85ZgdFoSuFdu4MJg/khZtHvaSHwtMETMElLPE13XzqbeBWj7c+lZ22/HH6KSV08eCQ+T1MNA+dhxrGrdLQA99J1pjoPnpWiq359kPPcz9ZsfjD92sjWvuhyCEaAP1Q4JozZKHqRE15bbwOPsms1dDBzstyC4MP027u3EYz/3NPicxRZ8BsxmnrJM8lRmGejdANnYzIQXop5NqA4r7zXwxiLwe4uyBRzP47s5rsvUQxD7AoWxdwV5Whg23Nmt8Negb4TmDsXEgmIxdKp1IbK3woyHTRq5LmCgubdQD7ZkQtU9ylkLNozKrCVauYI7wDfuOnRkU9zUtsRKD9DPH+09MxoV7VJtuawMwGEX+NkHmR1Ddx74852UTCsei9OWDBmVc+XmKaY4tPzR4/AaNg95UjfFsq119Jr98LOjscwhHuq5+q10Ycik7zcIgBGA4vTe3KSsHUmNm8T4Z2nAjifrhdED/PoPmuZ19ee0np+kEKhqwdrey0NnrXkoJLPysdjDSbJjxe3vStR3p537tIxrMaEM3rIYOa4i9HSF2GEuPc8HIIx0a8vO89yTGTGQWx9zzZgEsnszsx2D551oSs55iUG2p42yqFlf/cY7BXovUBtLcQOh9hUiE1FmI8w0ixmkYGpuen66OOicgYUUsAiiGDlU+mgr6IiZ/kDhd22spVGu9tAVYu5cFyBlc/M67jy5Hs++1/Ou2Qcor9h69zUnQ4veeeSTqbJJCuAf9M++Cd8or2VMVN3xYOiGG3kcIqLXwtmUQPzML9KMfUjmIf/WMxitqPnbMWEUTkYTXofjGbomS/3A67GbB6uwuz0u4InRLoSvN655mNibOftYF/LNb6uzuVlGOtu8etpnmrZqzfH7moo3Yel5di2/xy6HwswZuivYeLHt6et3iJE5zHwxi9H8T6OwfjPvbnzLmaz5fncX8Wkj/VCz6owG96X6Dw+Lsbs/gWMBl9qgbgXo53vCdhCxe3iu642x10d392c2V633G6FvQJ9O1E7DuJfh9gkxN4YIJ0OVmkf+uMS0Q2s86/Mt1hR7lRDotkfNQJbVcFxQvmOZHuwpsYBfKY424d7Pd3AFIQ189gF3mjMVF/1wyUzn+OcS0cjzi/wspgJnqWheCWdhbmSS3eQbg+BLkP0e+QDDTxUqizsFITO5nbFLESCib8Gw+huophG08IQ6KrZOs57e7EUk6ylo/A+gDHlxzH+TQuzOM/E+L1/1815vM/WY7RwC2M9GFDyvYNxHeyIpuvQmfzmjVMY89yX+keli789LZal15DFMKfn01kwDMEIwPLsb+8HPB/0pXSdyMels5YKW3MLKLSxoPD/gykWf/HGYg3vD0lKMO4RLye+17c8xcx3Smd2O5h504eiaXg5RkBVlhxzLCbvQKnG7W0GllOsiOgRB5+l6wpsuyOE4vNTPi6eq6X0fpajAzib4rpRvunZFgdmt8Negb4d0L+Zwc4MqbAam6tGE9aTSTGDPgzHpQ8b5QcRSf6pX1v6uaY+kT+pcoMXel2okY6TSoWdcDjpC4erANm9CHIm+1tBHruAJfD8otzQq6bM/8WrjKk8BPK/Bo5EPZPtNoS5nU3R0RJC3c2gV9HWtoQD5sBZZ+2qTgtmgSsVQodjhIun6Xi5rb3duovRpkdSDGvrLRwMYaad4sP+T8ym4ccUU6wGMfG9f6B7IeBiNL5LC33+KYaI4yWCOQyzAVndyz56/dpU+L93PzzyWJhiQo3fYohTijHXfpxtF9QoRQ4T5nY/nTcBhxSu5YMQ6GDGZSNbF5TZXigmbO90TP+/jBkP714cgDF3v8X7Y47ej87JagQjWDdQJB8eR+exjGFIXd4zUDrfPUzAzPdyn7hHtmQbn+3umIPJMthVprg8PQt0F8M7WPH+dO2Dx16B3g3qZkJsHBxzZNBK9wn0twcFJtrJ4NmgJwL9UYkg6gArRHRxaFzG5YU8/ojvd3YgOAWRj6Hq1y251dRvt7UFrIA/Kz5/2Hy2WxDkTKxd4V+gQ3AfXJff98e3vHP+GtyKo0F/jnI4W3xzWwnz0vZc7FyKjhYL100j3ER0fYJFS/JctUM1zruCYFI5Tix5D4ZQNriL30LxwR6MWeRKMvztEMp388swxCYv/atgFtIB9My0VQxRSTA53c/GCF3PP3g2JgVotrsGuoFgFqpS076Luf4qzIYkg8nX7sXwXwWcTHFD0ZtzeQxw731vKqntSuyM394TaIIp27kBQ/jz3BLnYDaMXWW12xl4m1Fv7njjVU9xg3IQZlNR6hseSmcSnNeW91cx8+8Itq7W91GBN+884d1bfNjr7y7F3sQyXUD/hsRnwtEnVEQ6htacnqqK/t5OBh/AlJQchlJRcIUnxXG/32//+ld9ffLKKWh1smUN4sZRXUsZecq17bDd1p5jC0NWP9RqbKqFdDGKKrigG0GvC4Tar3y4Y9K7D7ZMPxGVu1Em4eVolzISnOl/kUSSt5N0NAtOXsD6BW1D7uGu12zu2GXCnML5jqFYxtNbvLwqWeUvD57mfBw9l83s6bxdwWu3VHuC3oVuKcbcWa6NH43RnHekrwvozMYWTPa4/SheS55iRrtSLkBpO9t7vj0dpZu/pZhNWukaeTidrUK7Al6OhI/ROTxOMYQ3z+R+OJ1TCXuCrLv57o2HF75WnhxnLz6C2CvQC6irgzl/BFUkPaSiz+bRA05KVkXvQ7kLlVOBqoLipQVNdq2IfCvUlv0niyAWM37xxItQ2dL2GuL+hIJZ1jyBRqt10umo3dHRiYjxYYj0ko2ECmQFfdxx/Ofc+O5X/jBz8Sy+9eYVlzqudSdGE5aiYt6DZp7PJWlvsnDyPlT/iD/9C/Z9OcvqxK7sumA0mekYX6GnXSYxJtfy1yY6E4ukcGxXCUi259ze39ISixXASRQTVHjt5tj+EDnFzJcnS96DYfJ/lq5LmW6rr8swgqkU/YCLKSbH8a5lFGbjsKevCbKN1/bAI0t5BDhvLIKY8qIVO9lHbxPqzZ0LMAK7FDkMeVMwYxWjs8Bvp/v57m3ivOudTOe66b1FoNC/GSWvo+jdnNzRsXg/4W2cdsWc2S2w1+QO1F0A8ZlIZnMk0LSw6kit1EsFOQ2hGpOlvbDIbZFgyxG9Nrq59ZFQY9aVs4qCYcZ3UP1bLu/k0/el+0eHAt9UiHhtqOLLt7eHLb8/6QuHC+QVI17ff596J1+51+cNCr9t1vCvHl5zbtM9G04c0OBGr8HEcFaxRZgrlFL5yn3meTtFe7OFkw8B92FrHN+mVh66b2eTx3SFQZhyqR5sjOn4XrY2uQYxNaxLQ7NGYXy8O0J6iWJM/UnMQtcPI8zPp7N2qxht2yuGsT1jq5ikNVdQNL/6Cu3/iq2zfm2rrXWY4hpjKAoDwcSeZzHpXTdhzLaX0znv+56GEGajtm8Pv7GB5zEciG3B4zdcR5EJLhiLyTiMv31HYGEsIYdh3B8nYwR6ee6BF4EXCv/vT7HYikdE/B3GFVMKwWjkP8DMUa/P4zBjvCOZ3yzM9f+IYoU3xWwWP4Nh2XfHEbEK19fdZmI9Jub9w0IQszk5uIff2BjLWesH0qOdxP9Zge6FoMWnInZ1wN+Uqx6tfaxLgLPB2gfUxxYbc8EqLWKj+nwgmrs+Mjj58rw3bSf+o63blrNANZmSt/S2VCY6AJELUUIipryquhrMtbRosG/flC8U8hZu3mf2u5HihaA0NSzvZzdL1c0rmg5ccNvmmfl3Wvaf0uBG6zDZykxNZPH85SUd24oAl0nR0erDyfsQHiTjfI+WVBO/r9OdKLrS03WMLrw8v3AbJlnGC90c8zzGj+jF5/ow7N//9PLc3uJ4H0VfZhDDUC71O3t+8X/SO5KRYIT2GxgzqffZKEzhjN4IdDBa3j0YotthJZ9HgEuAT2E00QrMJslLG+qdt/Tv7gwLYx25nq2zrXlQTAjhhXRdkrQrrMEkCPp04b1gNgyfxLDpe8sGF8y9vxFz3yMU547XR8UIujsK/RWMhl3qK09jyrd2Nd+DGItOaWhpNWZDUB6+1lt4z8/2MP09y9lMjOAvHxPPxTRnJ/qzM/DG4ia6D0NUjMvjTHqXMvpDw/9ZgZ64AuEAaHYH9HWDcg4iVwKjDIu7EEe+xb2MAB2i/AlXb66uallLJTqjvHpzCeJxNH5Oqq1ducHSSr9YfF5VQ0ZkK+o4oVxLixvq1zdlBUIVxvK9izV1VaXAspeieSGv8Abo7zelav5Sl/p6e3CVVfNI+ogvAldiTOyFa/aEeVmbRThk00mSrSFcxw/8Dde9isaOeubc7b4Pwtzrz3EUzZ6CeejepOvc4xZGm8rhbVLM6xiMBaKncpxdIYQJyYLOwq/U9+liMrs90Mu2FaMxP4exKHjEMh+GHHcPvavBrRgy1E2Y8qgDKJrZgxghUW7RqMdk2JvEh0ds6y2UYrrT7u6NV2azN89WOyYCwGP+e2byszDRC6t2oK+C0bihs+XG63c7Jm3wP0u+n0FnV8gmTL6FrgSRl2xmJkZgeYL1WODn3RzT2/5vr7UJzH0rj5rwnpHeki93Jbx729Oc8bAnbGqB/4MCfc7dEDsPSc2viGR9VUe7Ab1aRKapakkxCZO+tSDTHND3gFsq+ib/GlqZ6oidjM7dhqyaNQtYgn7v3GxzZj/5biZUkQPrQiCyRVPPO+FcU3MmUFOT9oVCkS3nN4J4pyaRltDrARRJgi5T1XvmNBz68MP5GRufbzjQWtp+wHF5DXwTY04rEZJd8O9L/O6o2qQ7cqQ7wqibB/0z2fyNNKfrufsb75cwByOUp9PZ/7WC7ouXKCZGuh0jjD2f6AgMc3g+PWsc3uLT03hoyd92jObxHczC29Vve1pU85h67hdgFn6rcP6xGPPlP8qO354F+lFMgprvUcwOVrowe/3fDNyMid3/BWY+lN9TbwPgbZ66Wwy932yvAPE0v9JNUk8LbWnb2/uslF+zNxalG7Lyc7yCMVUPoygch2OE/P+wbW11e/rp+ezfwYTKeelnwZjlJ9OZ7LaAYh6ErlA63712xmOiLsrZ7kqRId7T/S7VzHsKw9zeMSk/lzdfStvq6pjyTXtv8wJs73wsfab3CvTdDXV1EI+D87rPan6zz75uyH8p6KXAgELMuBQfae8ftVEeFfhx5frW+cFDs27897AtYe5h1mwAR+NXJJssn3435a9MApeqer5pFTefj+SamrLBmr7tvkg4Cvg823ivNPUtpoRCafYiUsCrIvrAxuyAv9/39pRNzfSTB1qOGdmofc4D6zKKPi5zvq3qmZfR9hwnS6otRy4dRcmg/I68U0djqoPE+6aZU+jfCMzi5/kwLYzfuTvTtmJMp0/QOa+7jalI1dOCkMEkregpTEkK5+7AaGzzMFpdE1svWvV0LnMJW/s1FWMafYqitcTDJIxwdgttvUZn0/i6bvqYw4RbrcD456dgmO7hQlsbMXH592J8mvtj3BT96Bxv72IEQmm8dBZjISlHptBmVclna+m6iIaLGaNSv7TQfYpeG6OhNnfzfXdophiv3FzoX6jkfCu76Ns7GNfM5LLvJhSO7a7QDRjhsYzuhaVi5s26Ql/+VeiDB8FYURro7CboKVudYu7Ns5iNh3feFEWBDmbOLqezmyXD1hsFb9OzgmISJzD8kNKxdDH3qqqba+0K71B0kSymcyx5hiKh1BOq3n0obX8V264K6PEOFrN95YBL0c6uLcTzvmKP2XnsDGrHwZzvI+nDo6F0e0UM5DsgR4KG8MRXYcoooigO6ApR/U3ITv85+l5HY+JNdMZfj4KxRwrnnKScfRrMiMOqBNsifRU2E2KvDlS0Ndecj8j1GJ+l55NSsaycv6oqE4hGI4jlL6OhdT1OJVT1gkldC82lMULoBXW5f15q+kuPZsZvzqTT1py1xwx52z7gUwjnY3btxdKnWwtyincGc1/y2TTJVh95O4SwCVd+Qabqf6h5s526+PvhMy9HBKO5lgqyVnomrQhm0+IVuvBGvJmeNR0vtatnpu4OLmbB8GK7u0MfOrPrpXD+rhaZgRiBW9rfLGZc3V625cErMTqYYoIZt3DMBoxg9rgBgzHzs6HsmgbRWfOjcHw5mz9Q+G1pFbp8ob3yzZcUrqU8xK+FzhsKDz7M/elNAhxv49CAEUSVdBZQglm4u0rV2x9z30rHwsZsqnraEFqY+RPq5ntvTDvoXBGtFBGK2QO9c3d1v8vR1TiVzvfSvpVqo5vZeg77Cn0ovQ5vLEsZ9fuw/cx3xYyDt1keSGcTvLdpLc1oWIUZs1KtOUnXm+dyBAr989bc7YVL58iB3RofeYGuCqxGWjb065sP+y8S4VqKPqzS6/cmRCvwD8G9pd/bm99iAMTnorNmAZ/+OnzqqyGcdAjN5dkwKQWrDIUscXfBzt416uog/jkkuy7k6+hbVYtYP6QzUQtEHH9FpCNQVRUSn7+0ylO5PbDcLOktlmsEFio8rSpPvpYevvzp9hPc15rHWw/XjxuF6KnARRjCTGkbnYW5brlzxU+MiT1LuiOIugFgNarf48tH/JlfIjwQV+Z2f/27GOWhVdsyF3Z1zM4c1x22Zf7ryv/YXR+21d/etFXeB++35Z+XflZa2703/drWb3sq5NKb69nR8LrS5Dfbe77u/MbbSw7bFrY1bu/XfN/Z8Sn/7fb617tqY3v6sqNz3sPOzpndHh9ZgV47DuI3wLRPBqz0xuhBdjL4A5BTQCs8YloBapRhTSPMA35ZEW1/JrIm3R7/NZpYDHOXlDR84JHC5b+soNI3GrUqyOWXM7iyjVw+S3UQ0m8o9zwNi5d2qbnPuRmmH+KzUgdVjrQ7gt8AOZvOYTGuFQhkA1XVeV84FEHEy++sIFah3zZmF53GmL6eB3luQdvQZctfOXDd2v36dKzO9OHVliMqXw8cONZV/5monoQwGvXCY0oE+NaJYkrhYGfTpNoFOxcGzSMkyFNH9cYFvP2STSJhSs/txV7sxV7sxYeGj6xAn1OHTJ0SkPTB0aPyyeBPgaMLKki5huKK8Iar3B1I5f5U0SfVFhibI34ROuuebhq/+B44ZLqfirbDQU9Bsck6r7BPZDH7JOt5O6Rsalbe/jtkm4RDRqunvdeOg3gdHHeqkHy7MpwLhE9F5euYRA0BCpJWwfZHo6lAVZUrPl8WpAW0BWOGWorIQoXFzbmKFblgNvvQho+7S5uGWM++PDlYPbp12Cu+MZOwfadjyod6pszCpkE6C3HoSpArrpMl3WGTSYZQ9YO0gt5LsPom1mY3s/5R5dff3tEh2ou92Iu92ItdiI+cQK8dB4k4kh5YHcjURE504RbgIExcORS13TzqrgR+H7Bz/wy3p959/hnbSSzxyGw9YEQtDI/BZROF1PiB5FOngX4BIYDKq6Bz8TkLiESayDVnmT4px39echkWs8gD7WhtdVzjqVky/pQB8tzSYwdPq37+KD/5LT5EFZ8jrrSQ1NZFA6clj9n3hfZEgo7EM7QtPumv6W/V/I3bFjjyStOk0JijB0YSjUePVmQ6yjRMIpH9KVZhKtHGpfP7rgS5ujbZdIZMMkDeDmJMTotw3Z/ga/s3Rx6Y5Mrff5Am9r34IFBbC2NjhsY1Cbht7/h+5BCrM3/HAksSey1rHzF85AT6nPvgmD5Bf3L/vp9W1TvxiBBeJBqSF/QthX+hzj0RSb8b3pR2rSNVY9PKzOvbwrfuglFfEvZ7yWKz7IcbuhL4DOgQDGFkIWK9Sd9+LzOgZh2tvnYcbSejzbT9N127+CfO8mF/lxNGPmk1bFqiExb9skS4CuJa+sqs2SwPD+OKTbf5/v1U31AiIVWVZ11bc1DFhoHzM4NGozoZkckoYzCkFY+1arTxovwuE+JbRem4qGtjZ23SHca8Llgom4G/4vpvpyr8HivWKM2PKLff3ruB+SBwch2MQFiW0L0LVS9RWwunx2FSTJgDnIZyVRwSe4X6RwJX1ZnAzvFxsw4cDzydUO6Ob5PUuxd7Dj5SAr1uJtxwk99KpqqOy0vgd8CwglBSjL/5DdD7A3buvxUNqXf94+18/CdoYslOblRnzoQbbxReTgZJ9Z9EqONi4FOgNUYjlgyBYDOhSAuBcCuWrwPUYxY3FUzZHahmELERDaISBokgGgb64+oQxBoM2hfDCO6P8b17RA8vRhZADMmthAy6NdHN+9SY1nNpm0y6oJGrgGQRfQ51bqd/bi6t+QxvPK384kNc4MfVwvgYXHltiJUaLW5KBFCXvOYZTo7Dwjl+9SzcOGPX96GuDgZO81EzrQob6JB2HrjZ2aMF35w5cOixwlPJMJIegp++4FtLY7SBiyMO8XiPhE9qa+GQ6TB0WogRtRWAw7p57Tw8Tz+U+1JbCxOmmv6MnFFBJTbfObmDN5/74PpQVwdL03B+XRVJ/Kyc08HaeTZvPt95sfHm9HHX+KmWKipR3nqijevO2DVErBG1cEECJtsWuWQ1au+PJVEsayP1wY00h7Ismafc8z48K73BzDoYMc3H+GmV+BFa57VTP8/pdt49kAySJkoOh6Xz2lk9T5m9Bz+DuwgfKYGuCSQVjtakw9G7MHWNU5h96Wso/wplMgkrmm8Pb0w7zzSqJt6AWT/ZRSf/xjdgn5uEYFIY9GaQTL9pCJcAMVT2QVRQ8lj+DoKhPMFIBL/fwvJB12x7KXlZGCuDoJ0SPBRZm6Wm9K6FdykcXNfBydvk0i7ZjB/Nmyx2Sg50Iejd5KruJ7KphROHu1x1Fczeli/ifcbMOpgZF3wNX0T0ahCnRKDngQ0oz2AH/0BrdT1/Pn7Xa+qqsLRjLMtS/wP4QK5g9T4L+aZsL9N290JtLTzyBLzeMZiG/A3AGZjwoDUErZs5qvp+BgSzPeYkrquDc6/1sTR5Jup+D3iL1ujlNEfr+daHcF/q6uDsq30sTZ2NcD0wh/rXvsmGl+weNya7EqrCg5srEPe3wKFY+nXGRJ/mLz/VTn04pw7OjVs4myaD3AG4kPo8nzng3V3SjwvnwOQpPgbbM5DcNQiTQAIIzag+SjJwO+sr3+U3J7ofqqb+T7XQjgNwU78BwoyNXsaY6OJu591D9Weiej3wDlJ5JVbFJj69C+baiFoYEdtjLVMfqcQy8TnotPG51JFjA3/K54MvuhZLoumO5ezPexXvpOzEHDTRBImF74Pr6Oc/B36ujBunjB+fYebMp8n0e4l8ZDL5yFkon0IYgJuvIZN3yaYcLJ+LL+AQCOYIBC38gRBYfiO4jX+g0zl0y/utwy86F1zZ6luMELfJ5/LYWbCzfpx8EFUvbC4LuhRX/kDUeQxf/WoWvODySgNcvNtMbs/c0A/Di0iDrC1c9gBgPMJxhHJ96Nd+PWfEHYjD1JixhSjwegLemGs0o8NjJvFrO50f4Jl1JnjxiVnw7TqT6qPT7l8qMMZ9UKIMLfzPM2s6mGDExQlYMte05/2/FF4f1iZMrMKIGKxMwOqy382sMxHZ/50F19SZVBrl2si4WjgsBusSxtkzPGZ8pOVtlWNYDBJ2CDv/VUwVtnl4mepy7s94tnklbYOe4/g65eke5oG6UrAejQEyVBEg2sN5Y3XGvvTQLLi6zlx/VxrW8FqYGIPlCXP/Tqoz9qmufuuN234xsC0B6Qt6MPAOtdOFMacWLQ11dYYrcP8sc++mxuCdROeF4fg6k2l9BCamxAcsLPlNeRvTY/BWyfc+x4crw0EOJi9VpMXEp4yrNd8vmWsyHVQCrVRieC8h/L5ivPcFdcX+DMSMfSMmi8AD23guZ9bBkVOFwc0fA/kVJtHMatD3UA4BvkylPYSRjRcwM97Go3HTp9qCUHulcM89v3tXQq62FobGYEHCODcnxuDJxNZzHaC2zjzBiVnwrcKcXlG4X9VAhhBphgMV2ERIFdofF4N/J8pdA/0xI5MipAFCCLW1yhEx87y2YPqzOGF+PT7W9Zz5Zp1JdzR7lrnXQ6fB2MPCXHVFhNWVbcy+2WFVYtvP0W6Cj5RAnzULao+0s088knw07+R8VtjJh9/IQh80fjckXu6lj3xHsGSJeYEyc2YH+chcQgNepjlyJ657EiZl5DiUQbhOAMcR7LQD4uLz2fiCefx+G58/iOUHy7IQ8SHimrA1fHjmdRHKBH8e1EER1BXUzeE4Fvm8TT4n5HNBXLdQ+U0E1Eu08QYwG7/7GIMDDUizQ1OL8uivvWvZHSHAYvy+08mn8mhFP8SpAz0H5Ux8qV9xfGwt78aU6+LwGhYK3B13eWOuecA/H7dYC/hx0URxIZ4Zh/cKrIsL4sJ84JWEqRqXSMDgyasRbkSxSAVWMK1gMbk6LjyLYAMBXA5KwMiEMDMOxLXTIldba84zMiasT8B8lIExYURCuXtG599dFhcWAQcm4eJvw4oKqC/hCXhtHRATmhNmgYrGYFBZW13htQSc8NUKqvg4Ig7K91k070UmTMuC/hSVIxnEPPbdRqyvZ0tSQETLtqKdMaIWauNwIIIf5ZI4LEQYh3YKgRxXCyfF4ZCY8F5CeT0hxOKmjljp9Xvwxi0IrE9BMUbZ7bQFHlELF8VhAYKLMi4GH48JTyWUuYX7VVcH/eLCACwm4/IWhkh2b9ycd3gtXByHVxGSQG1MmRETHi9pIw/40C2clRcBKyZ8Lqa8kTBCbz3wKsqBvIVwI6DYfTZs6euFcXNnwyijUBII72ByCI4vu1/lmBkHK7kvyLWYzcLTaODrZIIbiaSOAf09yvH4rdOYEvsLq2JKCvh4HKYU5uKmBAyPC1l0qyRa42rh/LiwbwyGJJR9EE6MwUEJpSHR2U0zohZmxIUIcCDKxXGhGbATygxvjpZo2OtQmhAujCvjYkI6oSTixfMLzwDXAk000cxaXOJxGBUT5mCxCpexmL4ATIwJs2d1nsOxOrggLryN4gCnxwVf82Ac+zZsxjCk42I+HX+dx+O6V6B/SJj7MvzoV7YLtvuhhkfPnm1e48YpRx6Z4tZblzJnzjLWHnU34dVj8FXWIpyKcBhKFNRPPh8gn3fIepXOLBtBsHx5LF8OET9IGCFvfNyWA2qhGkA1AGqjro3rWrhuCFUf6gYpZniyMPpjDnQx8BiZyqexq95g/2dbWbxYWdAEC98PE8YuhGz5N0/AbWTifjmecxuINN6LKZxRjfhG8Bbr+F5c+c/mGnzuDBSX47/9BKtJc8CR1aQbaumvQohn+XSimQQw+7/gb9iPkZzKV64YyVsNjUTkX3zi+uUsjilTY7A8mUdpNZRDN8ejCFlVHt04DL8cg19WAE1MGncGR4zfB6mfxyETH6GhzmVVAv4YN9rcC80BGutPot+4yZyAjda/xJjD53GbZpgUM4vXhGmQahzM/u4pDL36QJZ0tCDJR/jqdcuIxZRADAYcK4xsitDRcCIV4w7nYAStf5qKw19khGa5O9Y98ekzMRiuLk1kURWQCKp5VEMFB09mm3nyuhqd7jCzDg6/QRjZ2I+A83HOuXw0S+pbCchTnP/tN6irMwv8auC8OcJB7RF89bXUjJ/IxPF9of4dktYjTJi2sdMcHT8V/A1DGMnJqFaT0pfAKrqvvP9dOAdGHyu8uiGC5fs4515+CEiKtfXPss+kV6hTm9UJ2C8mDGgYjeokFrGAnG8zi5wzOPyKJbTH5/G/jvBCUzXB/ClcdPkERLKs2fQ4AyctIK75slQkgqXC4I4ZDBoXQ2nBabmfgdet44yYKQk1XzKgLajk2fSsTV2d2TS0bR6J6x4BspwN+bX4rU8zTsIgz3LJdQupiyszYls/rzMK1oMJHYeBTAXaUO6gqe87VKCkeYZwcjbCV1H9BGPbH+CeeI5bVBjU4qd102QOG3ccOq4K6ldg+/7N+Gkbt8yjWB1cfqPgbw+TaZjB0eMnAtW827CcQw57mNHTGgDjXojVwfipwoTGIVjuqYy+fARvNzTh6hyiRyzk+2rS2Ba3gUo6FSKdPJM+4w5nXcNKjj/s79z4VDNf/IFSC6ikUW0BWnDEYRTCwKN8vNxwCFU6mkPlNVT3ZdK4E1DxIQ3/4hPXvUoyYHgdF86BQ44RVm0ejl9P4vOXD8Ot34xLFOFkkAcRt43TMBr/49s3+T9sfOQEOvTM3/nA4Wns++wDq1YpEz/exsDXXsbJLSDn+z1UDwEmgxyNyeA2GKEvEAU3iIuirp+8HSlr2Us4IyWJciJApKBbKoLf/F/aMPHra4EXQBPUWIuwUq2sG5OlLQKzZyuLF+/OGnlXUNI+ZX7aos8GyFZWIWIBOVxpJIjyB4TR7gHAHQgu4Y5pnBVfS2VyKJK6GUTJcj7jWUACl8GTD6XB/jUio7G0DeiHT8/l6MmXMiw2n58BAxhKf24ChGj+PPrQxs9wOFimgfwGU2ktiHAoon1QvsCEaddRddr/ozLmMiAG83JVNOW/C3wRyCD4gKsI5n7Kv1K3c2I8Q0sCBk0cT875JTDekCfpi+rnGDTlKxw242VqAsrCjr60uj8COQOT2rMCuIya7HWksn/gyrjLt7rR1FcB7RUZSM4BJiGcy4SpeYTzgDU4PIOgTIsJo9CderiG18JpcSHcPAK/czvCsYX8ClFUL+X19muAf3FhXEkAQ9uqsXI3ABchJAvzugbbPZ9BU77CzLriZD30sPGgvwEmIrQikkW1WIjEExWTa4WalgFYvh8Dn8QULQohXEm/TJyc9QdGxtyCcDkB4SbgNkLOcJSZKLfwmj7PyI4huM7PgVos2lCtQuUSBqS/ybqqh1gLBKwC20Ud4LOoHAdSjWiACVNnMCB2Mfmael5D8DMSlZsRHGbETmHMJ1ayqE14O30iIt8HnYP4KlDGo/QDrefN1LfZKA8zLuZsJdAHAYciuByJ2dCvQOUVTsLl6jiMOyrNIZOfQPQwVN7jTSvIs9gMbfdRZV+GyrVABUIKJUrA+QJHTfkGFXULSQJT4mC39iWQvQ7lC8iW1LV9acydR6N8hX1ibzMTmBQXhjRPwLJ/ZXolHSghhCtIp67i3Op/UA9ktlhU/JjKj8cA/UAhmpvAk5nrqY13EAf+0TAVU5XudQboIoQcb7khLD0X4QJUHwUOBxmCaDXwSc769oW0Vb5BLUq/acKwxom41q8x5Yk3IFRhDPVP4g9cT9DfyH1xZWFix+f8B4yPpEDfLXHrrebv7NlmgZk5Mwc08ts/NXLn4sVUD7sHu6UfYg8jaA0m2DEcYTQqIxFGAEMQiaIEMJq2ZdjogKiiuBgPXTtKE7AG1XdB3sZKLyMZXIk9ZA1qJzlyFbS3K7Nnw6pVu7c23jMqkNxYXDuIXTUS4RsYbew/tIWWE0DJIIaQKFEgQ9iFyzDay1IN41WVq0fwbfYRdr+FcAyqt4JvNjifAq4nan+F6txX2RSwC5nIw4AFYkYjgxRcGVHgGNC/Y7u/xO/7AsiZCGeyX+5B3Fg781M+KjtOR7gCeB2LOsRXg+P8EPRKqjteJmo/xdi4MKL+q0Atqnfgun/C5zsZmEWj/TXqc5egWRtf8mSQzwMvY7k3INZwHPkhol9j/7anqY6tpDt+xSggGbax7Afw584CPQORUwAH5BuMrnmLFzqUYVOE447cud3yjDikk0qV/XVMjfE/YgfuIpA5BKxbELmJN5PzGRhbyyVAQ/05mGIyy1GuxbVasJxbgOlMmHoOfU6v4yhgQ6sPzX0LdDrwJHn3ZvxyKMj3MGRSc/UbEUalhIx9Psrngcfxy09wGYGrP0L0WoZ0vEZ19HUsoFktzCb5NHOn5E1UV/DCY8LBUz6D8GmURxDfj8GdAPojlGs4tOEZGvZpKqSIEiCAcjQqdVhuFVjfR/RjbM5Nppl/U1nYzpl88cVCIHkXXAWfVGIq7f0VO/gz/PZZiF5MJncTq/Ov8Z34GgbSeWxeTMClKM1yAIZMu55xoUaGF3Y2tbVK9PonmTL1Od6cmyRd4TAlJjRnj0C4BsNJ+REd0WeJJr8GfJoJ077LmOPPZ7/qPE8AkdxZKFcCi1G5CnAR/SEwHXLnMeboOk6JwYKk4st/w3zOI/gyt2MHj0ZkFmpdy9LGp5F0kryPQsXefqD7s+j5q5kwdQpwBcLnGJS9gy9FOyhaXCqA0BZ3j6tgaQCkH3A8/sCdwCry+Vmgh1CVPY6wbzGj4g6SrCZtXQtyOOjv6Oe7g6b80WDdBnoQ4vZhQKBhT8uCuVegf1jwGOOjDoaX6l2GnQsHjG+EVBPrF7p8eZKPxcvDdEiQiBXCjkSwJIxaVahGUDeMJYECuzuHSga0DXGStO+Xoc8ym7yVYcyQLCP3t/nzSiGzr/Lcd2DxJli5co+aqF3AxWitjxcWrBDmAX8UkZupqbS3lBoxkJIXhbAAwcuYlwIGu1EcGYspmJFAfAuQzCpcfyPCUlbNyRM5TTu3o0UTs4ogRhSg3EKk7yrstkqEj6NUY1FBlg58mTDC2RjN6S5EnscfASd5OOjVICew/r/zqD1KUZkAmsdnzcGxF+DKSiyrDZUVQN6kBpaxxssqiwgwH3VfxZE8YkWAZsZ3I8xH1ELfGFS2D8bOnYHSF6USQ9X6Es36L5Y3OwzS88jIMJZZ9zKzbs0OhwdNjgmD6w/E5VRgDVbwTvKBRQRzy1E+BnwCJUaY+7BQhLUod6HyLK71NGrlsfKPgkwHRuJHyWChuQNBpxkt3rqdamsOrfnXCMgE4CIUU6OrHRjYXoVY5wIK+gv81qvY7kJUpyJcBPIxkvbrNAeEKgHwgR6EcgPpigeISgcTYz4yyQmY9fNVsBaiLAU3h2geSzMsBvo6FPirgshfyIfvQ91K/NmZKFOwGMgIhBYobDpL56k3Tc2cUtbhBu4k2WcpkfpVhORkkAOwdDpLuJ/lZUb+VXNNbcEXpU9hL9fK/T8r/mbuXJBYjpNOzNH4suGUSBbE/STIPsA83OBvqYxuRDps1JqB6tH40xPYWP06c+PKxCvWgN4FVgK1nkXVwnIfQeRoVEexMWvRGAZ/cjQm8j2NWLcT0Lm4uhJXTgcZhOMeRkf2eQIhIegTwMG1fklz5O8oryDyOdABOPm+LAVG4N3TwqV5t0soROpYwJvsE/wt1cEkbzWfAoxB2RfExyYcAgyggkMQOlB5gvr8SvxWFqEBZRR5eyRR+x1isT1qndwr0D9s/OSmwn/+F4okHrhLHd55PYVDin/fbbRpLxLtN8CmMl/lEJQvw5aY4T88JLgBOKhSGbIPdKeh7bkQoBWVp41mzCCESagcgejnqVn/A2qG5lnVzdElpd1BjKENK424m1CmIFyD5iohPI+/3XIHM24WFr+qTD5tW95kATaR07V8Jqw81NaOYoP6UfXhR6jI9sP1HQY4KFU4zMBJCmjY6B56EGfVRRGrFc2sB3y4ehX+YBh0Hvff+kuOv1UYilKR9NHEOnMh+kmylvH4hf0Pcng/h2UIg7rp8gUJIZTsRy75I+A8TMnUHHA8yHSqsw9CvgIqzkSYBM5TzIyvY/asHYuRPgVYyHiE/igbce2DieQGAxaiDmoFUR3D7Zcqj/yvMkcfI8mj2Jv2RfQoxO2PyqjCoEWpwOJdlBoOAPqirMeJvMvGqCIdSYKpJRTSSdEX6I+Qtg7GEMTawNqPjPOxggj1A36UMTjNEWrI4oqgagErqJL78EfbaQECHRZhXVcgcZ2La29G9GkaBv2Z4cALKHGEhwEvwgR5kypfHrFypHPNoGYTuv21v94jG9wIAk5lIySXgA4FxvEibpeFc/+DUKO+wh3Y2l1SCzwUN+uFxmFpe5hmGYdJQf0auUALLhCpXIck1wJDwBrNaF4nMQvOjf+bh+OPctFlQ7DcqSADwBoJCkIlFQELcBHGolQDazk4spLAAGVFeiOZjhtx3TBYb9Ovj+Io5BWQFhoiK6g+WaGxFZxsYY6E+ZvZdvUMcUFXcudN7QwIKbHLWwv9COHDYjAguKRwCkWnheggJdPg7RCUHO6eUV+tM/YK9N0VJv6ysxCOx83fV4Fk2XeVGMZsImHef/EM8/3l718XP2QIwgrU+ir+MDRqgD6pj4PegXIpTaFXyPJoD/WVzOZJCyb3SmDeAJtDG36N6DiE6SiHoe56Zl79AE7rPdx0/Wr+sV19yxHtKNarNiZfQZsENoBT0x+0EiEEXAXqlYgMoXQAAawWPyl1CYX+B9FDMeV+J4Bs4Kxr/oHT+kcmVazgX2GX/e3HSeceR2QGqj8AriTjPMuLrb+kPbCAC+fYW7Hdr6qDY5M+2pOfQjkT5E0WzbsS0SATpv0/VM/ECj7F4teWMeGYCSAr8MkyjtmJylN/iisTL+8HEgAdBnojng3FuERagL7ccJvFr+5yeaO1P072ckwBIxfVNkxZVxD1kVsMf56tfOMKY1VQMjjk6Y8wQJQNkgZ1EYx2nkKoYSCCH5UIojeYzRZguCctKAGyTpC8m6Ui6PV8He9V5Lg/rryTgKeedFlnP8BmewbCUcBPQeoZUP8k6eBvmF7xJuuCpuUtxWMLY2zkhfHQq/Si+pfYtEgeHzBIXbLaUlgk+rIkvnVIWW0tHIDSTEdh/lWwvFE4sL9u+X78NKE+Z3HC9xx+itBPgvQtBBsKrbTioECQPH5SiPhRrWJZQnlPYX7LQL54+WXAmYVxbAc14hKxtjxbSA2oH2jjefI0o9x7aoYrH3uClXOV516CurhFJgn5JIi6xXnhuAhqEmVt7/1SBTI4Ia9Abue1chUQlU1U8hTwZdCzyW6uBz0WZF/QVwkE3mZVVJg1a49ShPYK9D0J2/JfPvLBdGO3geIikiIQzRFAcOQxfMkLDatXZ5DueIxBlVp2jAcvBFBBjZdzGpC0n0YDZ6H6WZBjQSch3IA/ezTLnM8zql/zdlV8Ln2yvHNaDpAr+NoBJYlr1WEVakKLFjRCaWVM3xbcCuWd9c/hBs5GOBPhuIL14Dv4s8fwSv5czuu/iedr3sNpugwr/ymEEzA+/PPQ7BSqcl9iRGzrFGkbEJJEUE4Agqg+yadOX8imtI9k+y+AWxGuZ8IxzwEHgP6WfQa2cUN8Oy6+G8yaBQ9eYfRh5W2EHyO0GVOzCmAhsp6wpbyR8WPnvolwNfASwq2gC3E5D5EfoqKQgUQc/tHg3WOLDEIbkJdiGF1BR8b27rEI6EZU6kAai/ceAW0kXJXEX6nkGrzxc8gVjl81F75/k3JefBm6+RLUPR3heOAYhEvQ3BF0OJewsP8iT9nrTYhA91CjeApgiXg7frauLW8wNgb9EFpYhyHIDmJhLoJqChEYdST0OewwfPoZLpuykE2ph8mhmEA+0EKYZwrDD6nccjddYjF4qc2Hm7sS+A4wF+QWVN8Gzkb4ASB43HV/SZKrwcAw4Jq5sKZCGXmqMOHUguu8eKlbIKWD2Mv72N3Wsz8KFUm0416EzwJngJ6EEAF9FfQGJoffY/89L1nUjtaH3Yu92D3gd5VTUCLvKP6mgv9RLYQoYZGCvlFcEXIWvOzAMqcCqAQ1EQHNwIh0AL/bl/tveQ/HuYmsnoPyNUz6mWMIOodR8Y7ga9r+/pV6RPN9ITtSETYDSQB8LKW64imy4afwZ17Bza/h/lveZfFzNsGkD7/Tl7/dsgHX/TE5+RzKV4DNwCRsZwrzHB8tyT60hRw6or8l4H4J9Z0JvILIKFxO4oRkkHfK1iYHLzo7grEfZHnFhvURh3TgPtDZCGOBi4BFBIMPEUB4IbF9151GySKoCotVeFaFu1RAm0BzCFny2Zdocp+mre/TdATeoN2/mhdfXkN7BYScIYieDGTQwM/J8BhtyTWFcsJGAAP8HcFUIcwC1fQnwjAbmm0LpQ/eGlcN7IfiUo8RghYaeolNA55iw4CngPn4M2u5/6erWPq8XRBnXWPcRCGX7IvjS6H5X+JkL8J1PgcsBSbg5mew4J+6awQ5noAL0jfvJ5QRNuMD9gVxEdYzPS6cUtf5mFXAHBSXBUAelX3BP5E/YvGACqfVhUnq6VjybUTONDI5kUG3bC770y/nZ0IWaggBNQUrQyNzMz5yuSEgpwIZ/O7tBO0nsO21BdeFuXAbSCOYVDg20JcaO0g+ZfH3lmomNlxFTf2tBOsPZfNKi3RzOYPAEN16gy3Hd3PvfUADQmtyCHAj8C7CScAlqHU6i178PGur5/FchXJhvHfn3g2wV6DvxZ4MIZ8P8MjmIPSrRkOnAYeBpFGWko669AGUNEaEhbGsKPMzQHYCJsUpINDUZLGofTR26E7OvuaH5N0KbHcTGv0n8C5goRokWQ25UNe96bmnUO2HwRFojzYBi4Ew6k4htx76NFrYoc9j+R/n7Gu+xgP/DfNm8gDs0B2cfc0t4FRhyyZS0ccwHH0LIcjGXBBf8jr6Jv9MZfpAgtqMm3kB5XlUQTRAI8JbZf2xgRw5kJWYFLZTieQGkkNQfwfiPoiSBUIgr5MJNuCgzIxtx8Wqn3C6msqGfvyzqT9vb+7Ppvo+DM9aKMtQ2oBR+CuGkh+s+LMRKu3rqLIf5agpnyK9WbBTUaASxEWDbfhCLpFoJWB8BwqE/bAGQXUlxlw/iFx6Au1NUJ2KgB6Dt7JXAANQxPcWxjk1GLJjsVD6ZoIol5EP/Zuzr7mQIcdZrEG6FQpjJ0fIJW/Fb/8/fL59cexGsu5zKPONaZgAZ53ELqOtGGV8KIPc/kQ2KxWZkcAE0Awqr3E8cEDZMf+ZBUMAmxcR3kLoz/9n777Do6ryP46/z52ZZNITkhA6BJCOiAIC0RALVhRdRVQEUVcs6FpWXBV/MiCWBfvuuuou9rWhIspaV+mCIODSpEMS0nsykzLlnt8fNyTEBIksGjJ8X8/D85DJnXvPvcnkc8+5p2BOIdoTTQigqnqguRyt/aC/4ZTza2g3xodmHVCNVqdgVkaQk6PxVZ4AdMIaDridskoFZjToCCAATg9tHCZhKgqr85vFoayWKqW3Ys3h15kC32DcxaCr2oOeAkxEq2ir819T1/so3RQd4MSa1iuyuguKM7Aec8WALsII5DLwVBudK8LYDnRzHd1j/wakyV20RlbTH/RDqy/xmxqlnCi6oXGCXovmA4YC4Wg2+QtRjjw0vTHM+0jy7AB+hzVm26qfRoVrzLISbHQCziPUUUaI/hrlPg1UH2Aj/tB1+GJMHB4OVLDrOl1BbR+p2ma6gxtCD7Q4erGa9jtSRbl+C9RwNHdTHe3EqjvcgvX8cQ1XPlpDoKgEZSSBGoaylRGmPwfPMOAkYBsB23fsXRxg4FA/6FNR5p+ptM/DptsAF4DKAb2U/BAv+10Nr+D6JZrHpleT71tAofcitD6VcM8LhHuWAO3Q9jG1JxkAfQnK3YFs9z+46p4PcbkCjf741nfn1Gh6Yuh3gQC6drp9Q/1Asf8edPRuwio+Bn0LmI+QkP860AvFRDTZKP0t+yMgzFtEqDcbpZMxPLdgU+Fo4wLQ8Shq0CqEuCiDIfjJjtqH2/0FWt2KNu8H1RbD1gcYBMqL0tARqy0iL7ycgPttwIViFol5nazOXEwBatCsxum0unAd+LkpDar2i3NmgDvaT5hXoXUaqNk4ot4mhGTQZ6B1BqgVZIQp7OV1fayshqOfVNoPXm7hwGCJpu8BNNCNksBcbCEraodSxgJf0jZkHYVLNFuXNH7XfBekTU+nXcnTKB4BLsPwdMDv2QYMR9ED+JoExwdEoumKYrfxMcq8HhiK0/EwzpD1oK8DDDSLKI/cTWlYgISCfEydB3TH772ZXJxgvxCre2kVSht09Bto/OyJSifSvQC4Da1nYg/pAwwF1R30QvLC19AzwsTn1Xi9uu736KfX4OClnpVu+lod7h6qCshCEW7kQGAjiqHAy2h8aOXFaunJYVD+8+RGfsgji02+dLWanu4S6KL1qEJTgiIBD4pMrAeL7a1vatBkgt4A+i/si8viry7r433FtFKSPH9HMQO4Gmu6278CKSjiUdpHmFOz3pnDifmPAbOA21Dqbqzm9jWgXOQ4C0kEnPjQ5GKNQ/ej0QxCo41KFBlAIQVxVqG0rgaVBRTgUwGKADMiQDUfElvZHfQNwFNYNyhZoJ+iPPQLujgCLGtXyKD8x9H6EZS6EbgNVAXWVL0uyiNyOfsCk52el4j29ALOQOtzserfe9H6cWIdX3GpQ6N+0v9i31Lo5dDY7N9S4L0P1P2gR2NNTVwJei2o+7CWAv4jBqdhqhUEbIeoMimNdQOQaYWWjjz4m0AM7TEod/rweObiDMSCvhhFKuBHsw3FTIzo3SSHmaSF5bGg4Dk07YCL0JwLLAYeQ+MCVU0g0o4DPyvD/Qx0P4PSnVCMQvEoqFWgnwZ9I5pi/AZ0QdMlXPOjnsc2T3vQV2HNcR4A9qCZy+8SV/AD1uwAMdoDZIMqpq2yJmvpA0SE+9C+p9G6E1pdhNLjQVUDO4En+F3b1XyCQikTrQpA70epaioNDabGRhGQhVKVVAGlaOLwAtlYEwf/5Lm4BtQ2rFEQLuv3jjVocxYFIeX8sKTpwJk/E/q5/ETb3iQyEIrmViAVSEOpCrS5CM3/URRexNcuWIpm7H3pdCl/EGtCnWtBX4eiGHiTgH0ubcP8XAuQWMCC/KexnoqPrf29+QqYDdyPppI4I4S+eEkJDzA/70nskfEofRGahwAPWi9Gq9nkRXjpgMLQfrQ3H3CShI8ksNrcVR5gYODlRDSRqNpWt2ygEL82qcG6HYugtPbvQDlVB+Jdl4Paj6YME82paLJDyvH4tgGdMNUylD4wo2YyVv//ziR51jMibS8Zaa1mOeaj3J4hxK+o2yhr0ZEkTzyKtoDVvUrX/m+cqxp0AftCPGz+tn4e866j4LYHwul+cn8MM4EERy7xju3MnJmEdVObiRlRzfyZcMUDNq54oAtGZXfQEZjePIqiMykLy2PLygDdlkChL5RCb2esz08GRkQNvYBtnhisAYQeKiMyWDQTxt8TCXQE5cXtyMTt8JO+BNJcMGxYBFE1vQj3dgFbgGrbPsIdu/ghsprX0qzQtcrTGVXVA8wI/GYBpREZlIfmsvnbAJOBk0Yqvq5KxO7pQcDRFnQpMRFZxOkMTo70HnIs7ahR1siJqBSDtd4uJLk7o40ocBRhd2QQE5qPx7RR6kvGWdERh28bX7yYTYK9YQfNUaNgYAoU+mLRuvYGq+6nYrWAQBUJIZkUOQKc8qCid00s3pr+2ANt0bjJDd9BlSOL6G99vOGyypU4zM4P3l6EeXuAqiA/fAsB5WH5jM5YNakM+kSYLAUumG4Q5Y0jqbIn2gijyrmT3UvK2LqkE+Bm06ostq6sr7+9XxENgT4Yvo5ANY6w3XQP2Us/h4+pLuuWz/C0AdoDZSSEZLF5pfWHffJiGDzSoL23HUZVd+um0CjGdGbS17GffiF+XC7YWWkQ0J2BcLSRiTvEjQoYRPo6Yj3uySEQUUIxkFjptHr+K5PNK9O5fLSP2JMUnUfcjKGeRvEFMA1UR5S2EQjZwe7wLLZ8G/jZpU+7jYLJSyDZ6yDc1xV7VVdMMwR7SAE19n1kOorYtKr+s3LtYug/0kGUrzPtKnujlEGNI4dE225+CC1n4SMallijab722sny9CHS2w1lc5Pr3IJpVLJ8RieghoTQTBLsVte4O1yKJZVxeEt7EmJLwNTFFETto8JRwKePBkgElC8E5e0CKBJCMklwVLO1wkAZySgctT/vSgC2eaKxHipUoUP2U+UIoH2KCG9brKVrivhubT77lsL4e9oC8WhVzIDRBQwYrSH/JuAp0I/hjnyaUAxs2MDbDcP3PNAbrSYRnfgpr7tM3jhMh+RjhAS6CB7v1bZbXtFE79QZM+qH/R3Q1DO7A0u0jqsNpCXAEhRLXUd/bW+XtuoCabVfvwyMBrocVK7mlGfGDEh2WWtpHdjXfKyBdx2a8RFPm2EtluKq/XoLkI41Hc4VLmuRj3E0fb2OxIwZMLy2vH1rX5uJ1WP94GtcoeEdq+84YJVvqavpVb+sc1CkoUnDOv/5rkOvkf2ethaD6V/79eG2b+ocTnBZTflpR7iPwxl7h2Li/TdjU0+h+RIz/FriIks5E1gH3ONq/jKfTf0eZQB7XI1HzzT1+1CFYpGr4Vj2tBkwwVX/85kJLHbB0ibKNGMGDHJZw8jS+HU/Vz/n2hmKyS4oKZgD+h7Qs6gJewwz2hopYxT3wfDPA7qDvhh/0hrmu8zWsta6BLo4fsyo7QncnOkcf8m2/4tRoyAtrf7rQw1NbE55Dt7XkUzR+nPHmDHj6C+ScOB4cOh9/9JzOrD9L9m2ufv+tfZxKGPvUEy67xYM40k0X1ISOYmq8HIKXD+/ytrPOdqfgSP9+bTUlKp3z4CLXVBYcCEGL6G0Hc0q0PsBJ6iTgO5o3sbtuIdv/lvFUtehFzc6xkigCyHEsciqoadhUxPQahO54S+RH1GNq/WNjz5mjBoFZyxRdKhwkFh1NnAlWnXFevRmosjBVF+yZcV7fLe2nC0rW02YgwS6EEIcu8ZNA7syMA3NplWara0nXI5paTOsxxXjp9nROFG1vXEUXt6d6z38Do5NEuhCCCFEEJBAF0IIIYKABLoQQggRBCTQhRBCiCAggS6EEEIEAQl0IYQQIghIoAshhBBBQAJdCCGECAKtJtCn39t+wIP3tr8Ja72jyMNtL4QQQhwBE8hdtrJi+ew5OS8sX+mubukCNVerCPQvFp5wX2pK1MPIcq9CCCF+Oztnz8kZ88icnB0tXZDmOOYD/YuFJ1yQmhL175YuhxBCiOPS5nPG7hi0fKXbbOmCHI7R0gU4nNSUqHtaugxCCCGOWwNSU6IubOlCNMcxH+jAKS1dACGEEMev1JTIwS1dhuZoDYEe3dIFEEIIcfxKTYmytXQZmqM1BLoQQgghDkMCXQghhAgCEujiuDLn6VwWfFxyVPZVUurnsSdz2LbjyIapHs2y/BZefLmAV98s/E2P+ejcHBZ9Vtrgta3bqnj8yRzKygMNXjdNzVvvFTHhhj1cfMUupk3fT3pGzW9ZXCFalAS6OK68/EYh/1lScVT2tXBRKbMey+GJZ3NbvCy/hfkflrDw36WH3/AoeumVQpaucDd4bc7Tucx8LIdPPm1YFtejOUy5PR2lFL1PcLJ4WXmj0BcimMlELUIcobFjYsnL93PJmNhf/VhVVSaXTdjNxKviuWpcm1/9eMeye+9qR78+YVx0Qf1111rzwrx8rp2QwN+e6tKCpROi5UgNXYgjFBdr5093t6N3L+dht62sMhk0fAtffVN+RMfy+TWLl1VIjRPo1yeMe+9qR0x0fcfjGq+mosKkV8/QFiyZEC1LaugiKJSW+Xl7fjFrvvdQWWnSo7uT6yfG07NH02Hr92venl/MN0vLqarWnHxSOL+/NoE2cQ0/Ek//NY8B/cIYNDCM1/5VRHqml2GnRDDp6nhKSvw8/bd8xl0ax8D+YXXv0RoWfV7KJ5+WUVrqp09vJ1GRNvIL/PTv27g8VdUm814rZNUaN4ZSjBweyfUT4wkNte63X5hXwJ691rPgRZ+VkpXlBWBg/zCuuKy+tl5U7Of1t4r4fr0HU8OAfmFcd008HdqH1G2zd18Nr7xZxB9uacvO3dUs+LiUQEAz+ZqEunPIL/Ax77VC/rupirAwg9FnRjP+8rhDXvtV37n5YGEJmVleIsJtnDEqiqvHtcFmsyainPd6IdXVJlOntG303kBA8+gTOYwYGsnZZzZvhOqGjZUs+LiUaXckERVl44OPSvhhYyVOp+L9j0ooLPQD0LlTCFOuT6x73+JlFXz4cQm5uT7i4+1ceG4MY86PQaljfsJMIZpFauii1Vu3wcPgkVt5ZE4ugQDEx9v59+eljDx7Gzt3N+6w5vWa/O6qXTz5XB6gcLsDPPx4NsPP2EZWtrfBti++XMCnX5Zxxvk7eOPtItau8/CfxVYtu7Q8wNxncht1irv7vkwmXL+XiooA7ds5+OSzMlyPZvPJ+z0bhCtARUWAc8fuYP6HJcTG2KlwB7jn/kwm37yvbpv0jBp27bGOkV/gZ/uuarbvqiY711e3zeatVZycspUX5hUQF2enbYKdN94uYkjqj2zcXFm3XcZ+L3OfyeWt94oZc9kuvl3tZuG/S8nJtc5767Yqhpz+I08+l4ffrzFNzUOzs5j0+73UeBvOfBkIaG77YwZnjdnB+h8qiW9jp7LKZOpdGdz5p8y67crK/Nw7fT/70ht3UFu6ooJH5+YSEdH8P0VbtlYx95lc3B6rPLl5PrbvqkYpRWFh/fXJ2G+dk9Zwx7QMLhq3k/1ZXpK7hVJY5Oeq6/Zwy50ZaN3sQwtxTJMaumj1tu2oZkC/MN74ZzKxMdavdHlFgJ4DN/HG20XMerBjg+3ffKeYO25ty0fv9sQwrNrZqjVuzr90J9NnZvPqi90abD/v1UIem9mRqTdZNUzTPHQCbNtRzQvzCvj7s12YPCEBgBqvyahzt/P6W0UMGRzRYPv5C0r486yO/OHWpLrXHpmTw+w5OexNryG5ayiPzexEeUWApOT/cv2kBG6+IbHBPgIBzcQb99K1SwiffXgCERFWU7TbHSD13O388f79fPVJrwbvefb5PL5b2pee3UMxTc2BSuotd2Rgs8HaZX1J7mY1X1dXm0y6cS/fr6/kvNH1tWivT7NuQyXvvNqdiy+sf549e04Of34ql8dndSQi3MaE8fG4Hs3h9beLeOi+Dg3K8cbbxfQ+wcnwYUe+gOLUm9oy9aa29DppM2efGc1fnmj4DH3+gmJeeqWQt15J5tKL6lsaXnuriJv/kM6Vl7ch7fSoIz6+EMcKqaGLVm/C+Hg+fKtnXZiD1aQOkJ/vb7R9+yQHD/9fx7owBxgxLJKrxrVh4aISqqob1kQ7dwrh1in1IXrw+35qy49VAJx3dkzda6EhBmelRfPV142fn/dIDuX2Wxo2RZ93jhWaO3Y2bzjcilVutm2v5v4/tq8Lc4DISBvXTUxg1Xdu3O6Gz95vmJRAz+6hdeejlGL7zmrWrPNw121JdWEO4HQaPDOnM7afzJUV5jRY9kXvBmEO4PNp/H5NcbF1zKS2Di44J4Z/vVNMIFB/M1ReEeCTT0u5dkI8v2ar9z9fLeSUk8IbhDnANePbEBdrO+J+DUIca6SGLoKCw6HYtbua1Ws9fPe9h4WLSqlwmzRVlx42NAKHo3GCDB8awatvFrFnbw39+9Y/Ez/pxLBmP2dtm2B9pLJzfLRLctS9npXtJS6u8cdt8KDwRvuOrA3l6urmtQX/sNFqUt+6rYqcg5rhAXbsqiZgQn6hn8jI+kQ+ZXB4o/0cuBkZNqRxbblD+xBOaKI/gsOhqKw0Wb3WzffrK/lmaQVLVzQeinfdxHgW/ruUxcsqOPsM64ZlwSeleH2aq6/4dXvtb9hYycD+Ybz8euMx9GFhBrl5vibeJUTrI4EuWr2M/V5unLqPZSvd9OweysD+YTw+qxNzDzE+PDa66WmZo2tf93ga1tBjDrF9U0YOj2ToKeHcelc6sx/qSEK8nf8sLuf9j0oaNQUDREX9741kpWVWTfit94qbbD0Y0C+MMGfD40Q3MTW1u3Z1yJhDlCkmpvF7nn8pn1mP5xAwNSf2D2PYkAjOOSua6TOzGmx39hnRdO4UwitvFtYF+ptvF3He6GiS2joa7fdoCQQ0brfJzl01/P2fBY2+3ybOTtfOIU28U4jWRwJdtHo33b6PPftqWLeiL/361Nesn3yu6UA/EIA/VV47JCwqsmGgqZ9pYv8pm03x2ovJnHHBdi4atwuA9u0c/PnhTlw3MaHR9kejh/WBG46P5/ekY/vmhVNTwR9Ze96HGhpXWhogLrY+1FesquCPD+xn2p1JTJ/Wvq5X/odNzH5nsykmXR3PE8/mUlTsp6w8wMrVbj74V49mlfdI2WyKyAiDiy6I4fmnu/6qxxKipckzdNHqrVrjYdylcQ3CvKbGrOvl/FOr17rx+ho3Z69c7SYi3KB79yMfy1xa5mfUeduZOqUtmdtPJGvniezeNLDJIVu/xIH4bapD3okDrPNevcbT6HuVVWazx6737V27n7WN95OV7a3raX/Aqtrj/enudnVhDrBrd9PTrU66Kh6/T/Pu+8W89W4x7ds5GN3MoWr/ixMHhLF6jafJ3uzS3C6CiQS6aPViY2zs2dcwvJ97IR+322zQCeuAvHw/011ZDb636js3731QwvjL4wgNOfKPRUlpgIJCP6VlASrcgdom38DP9oxvjvBwA2eoYvPWqrrXamqsJvLUlCh6JIfiejSb7Jz6gAoENPc8kMkZ529HN2NsVt/eTgYPCueZv+XVjXsHa5a6P0zLJPCT+4K42ib4vQdd+/wCH/941Wra9v/k2nfpHMKZadH887VC3ny3iAnj22C317cUfPVNOU88m1t3XgAOB1S4/7fJdCZfk8CP26t55vm8BqG+eWsVg0Zs5YOPWs98+kL8HGlyF63eTdcnMuvxHC69ahcD+4exaUsVhUV+Jl8Tz4KPS7nu5n28/PdudT2pLxkTy6o1bk4auZXBJ4ZTUOhn+bcV9OrpbDTE7ZdK7hrK1CmJPPWXPJ76S17d606nYlRKFM892YUunX75M1ubTXHZJXG8+mYR+7N8BAIaT6XJks96Y7crXvtHN8ZesYtBw7eQmhKF06nYsLGS7Gwfr/8judlN+39/pgvnXbqToak/kpoSSXi4wao1Hi4ZE8vIUxsOuRs7Jo7Zc3IYc/lOxv2uDdrUfLSolDunJjF9ZhY33LqPO29NatAL/oZJCVw5eQ9KwaSr4xvs745pGexN9zJ4UDhnpVk19+HDInnvwxLKygPcfH0io45geNmE8W1Y/m0FD8zI4q13i+nXx0lBoZ+Vq9wMGxrBBefFHH4nQrQCx/yi7Q/e297V0mUQx7bTRkTRt7eTrBwfxSUBhg+L5KnHO3N2WjROp/UMdeTwyLqZy0adHsXMBzoQEWEjO9tHWJjB9ZMSeXZOZ2JiGt/jDhsSQa+eTc8453QapKZE0jbRgWlqfj81nVVrPMx5uBM3XJvA2DGxnDc6ml49nXywsISNmyu5+or4w+47PNwgNSWKhPj68pxzVjQxMTaKSvwkxDu4cXJC3Ux4HdqFMOnqBNrE2igp9RMw4bQRkTw3twspIxr2Wo+NsZOaElnXCfBg7ZIcXHV5G0KdirKKAG3i7Ey7sx233NgWpRSDBoYzoJ/VNB8RbnD5JXH4A5qMDC9Op8FD93XgsrFxjBgWSU2NZmD/MLp2qX+E0T05lBf+WcCwUyK446Cx9wCdOobQq2co4y9vg6O25n5mahR+v6a03GTI4PC6fSW1dZCaEtmoNWXYkIhGvfGVUlx0gXVD4vVqysoDJCQ4mDolkUddnRo8LhDiEJY+MidnSUsX4nCO+TkPqwpPlnmcRKvw/XoPp5+znff/1YMLz21c65ty+z6++qaCvVsGtkDpjg3pmTX0O3kL//hbt199uJoQR9GssIT1M1q6EIcjt6ZCHCUHxo8fGBd+sPLyAGvXVdKn9+EXcglmz/w1n8REO5de/OuvUCfE8UaeoQtxlPTp7WTiVfHM/nMO3yytYPCJYYSGWhOX/GdxOX6/Zt7z3Vq6mL+539+6j9g4G3v2ePn8P2W8+mK3RuPihRD/u9YQ6NlAh8NuJcQx4MXnunDpRbF89mUZu/bU4PVq4uJs3HVbEhPGx5OY0Bo+ckeP368JDzfYvqOaNnF2Pn6vZ93EMkK0FrPn5DSe/vAY1Br+uiwCprR0IYRoDqUU558Tw/nnSM9pALtd8VwTM+QJ0YqYwKctXYjmOOZ7uQMbU1OiJgGNJ58WQgghfl0vnjt256stXYjmOOYDfflKdxmwPDUl6mxAetIIIYT4TSxbWfHKjbenT83I9JqH37rlHfPD1g44PSXSmZoSdfmD97bvTet4VCCEEKL10ctWVriXrXR//sicnPUtXZhfotUEuhBCCCEOTQJdCCGECAIS6EIIIUQQkEAXQgghgoAEuhBCCBEEJNCFEEKIICCBLoQQQgQBCXQhhBAiCEigCyGEEEFAAl0IIYQIAhLoQgghRBCQQBdCCCGCgAS6EEIIEQQk0IUQQoggIIEuhBBCBAEJdCGEECIISKALIYQQQUACXQghhAgCEuhCCCFEEJBAF0IIIYKABLoQQggRBCTQhRBCiCAggS6EEEIEAQl0IYQQIghIoAshhBBBQAJdCCGECAIS6EIIIUQQkEAXQgghgoAEuhBCCBEEJNCFEEKIICCBLoQQQgQBCXQhhBAiCEigCyGEEEFAAl0IIYQIAhLoQgghRBCQQBdCCCGCgAS6EEIIEQQk0IUQQoggIIEuhBBCBAEJdCGEECIISKAfgdRRo5JGjUob5g9oTF3/ulKKFcuXrFixbGlJy5VOCCHE8UgC/RfYvqv8pq1bt3bJyko/wTRrxhUUlODza0CBAnuIg4yMvNcG9BmYNWpEyrZTR7Z/o6XLLIQQ4vgggX4I9z3wkH3Hjn1GcnL/Af36D3nkm8XLCQS8w/fu2RNbXFJMaWk5VZU+TNMAQKOx2e04nU46d+hI967J+X379Fg/cfIY/+Yt6+98/LGHd69ds6KFz0oIIUSwkkBvwpVXT2kzY9bMZ774YuXgjz/+MiIzIy+5wlNDdXU1NTXVKG21s2sMtGldQq0DKEMBCpuyY1N2YmMiOC11sL7y6ktXFpVkXnfdhLG7WvC0hBBCBDEJ9IOcdPKpkV279T55+IjzJ61Zs2HSmrWbHWUVlQQCAbRSKBRoEwVoDSgF2qqdAxhKYSgDtMI0NQ6HDQwfJw/pbd43/fbVX33+3uQnZs/e2aInKYQQIihJoNdavyn9kg8WfDokP694+pJv1lKQ78HUoXhNL1pVg9IoDQqFUlZNHGWgFKCty6gAtAGYaGWiDEXA9BHqVIw+bzj3/unmZSd0T74x1q52tNyZCiGECEb2li5ASyurrjxrw4ZN18x//8MLFy9ZnZienoM2HRg2DXgJ0RpTKwI6gEaBUmilMZTCCm4r4FVdb3frP6Zpok2r7u71Bvj6q9V06tAp9fLLLh4BSKALIYQ4qmwtXYCWdu99D55lGI6pCQkd1emnnV517vmjq04aPLCqa7f2VW0SIkK0rjHcngoUYNgUSlnD01AaDKyau6GtmjpYV9QAm2FtiwKbsuGrMSkurCBl2ID+3bp2WLJi+dL8FjtpIYQQQee4rKGnnD5KjRiZ2quoqMK5Z3fBNo+7+voQRwQJ8ZE4Qu1l77/z8r5+Awc5ptx8z1OZGbld3n3nk/g1363rlF9QSHWND60VYGAqapvYldXqrmqb3ZXVNG+z2TC0gVIKw2anoLCY71ZvOiEjPS+qJc9fCCFE8Dnuauh/enBGn6HD0047eejpb4aHJ037YcPOydt+TB+/b1/m+Jzc/PHlZRV9tmzasD3EYe7+74Y1r/ywbs2Lt90xbUeHDkkxWvsTS0tKw7w1PkwUKBsoG0oZKKx/KAMO/B8DpQxsNjuGYccMBPB7qxnQt9fGQKBmY2Zmur+lr4cQQojg8P8AAAD//+x9Z3gW1db2vcvM09JIQu81SC8JHYKKBSyIgh0VsGChiiAgxEgRAbFRxQMoIoKAIEgvJpCEEgi9l0BIAqTXp8zM3t+PmQQQBDzfec/7cg7runIpyczs2TN79mr3utd/FSjuyJm8+85fSJ67fMWa9vFxe5Gf64HmAwyDghEKQoHy5YMQ2bk1Xnzp6QVLfpo9/Mup0Rkl52/efmpATEz8uIU//BKYV+AGqAJJKISUKMmdl6TSLYf96i8AUAj424CZX3+auWnT8pZffT3xwj8zD68hm+fnie779p/E5u3bkZmdjYLCAkgpEVwmGG3btEHndi1RLsS+2s9O9v5zT+ue3JM7l1GjowKHDh391rHjl5y79+zFwUOH4HYXl/69fPlyCI8IR6NG9VGzVln4ufC7Ssie/8Vbvif35D9O/mtC7qPGjq1TWJS5cNa3S1ruTjwIn8cAIdwsPaMMulBABUH6pXysXLUBQmq9Bw4c4LDZ0PezCdHFAPDh+33nPN3zdffDD3WZ/evKtUwQBkEoKJGQ12pywELE408mk4DH40Z6eiby84v+1v03ahqO4SPHVGzfLvKLmTNW3bd79/4mVzJzcSUvGx6fF5qmQVEUMJqMpH0nsHLJGoQ4XU9vXn8ipX1k7eQtW2OHPP7YA77/3+d4T+4JAHToFImIiHZs4sRPnj1yKO3lpUvW2d9666MOly7nqkXFHhQVF0HTNOu7kHC6ziIubh8Cg/xRvkIwIiJa9kw8lHVsy+bfh5w+kZQ2d/YX4n97Tvfkntzt8l+j0A8cOh7oweqWiXtPQNNsMKQOxqzpUwYpFAgJKAzQhBdbtsazcuXKtg4MrFkJwGkASNy93ecu9ixq37G7o2HD+l8fOX4WkjDLC5cgICjZlehNYx8CBuHIys1HYXHxzQ64qYz4KCpI0IDgnAIyY8Dgj7ucOX2ZFxUKaIaEYBICBoTQQamAEAKXrxTi/JksBCi2xsdPfdm4Q8dmnh49n3D2evndIb/8OCP3/+Mx3pN7ghYtO9A33vygTcNGDb/5ZNx3lbZujquQejELXg1w+3QAFKAElFplnZDIyc8FIQaEkQLGCXbE7W+44Idl9cPq12z04vMv7MrMyv44rF6Ny5MmRLv/l6d3T+7JXSv/NQo9+XwKiozD8GgSXHXBkB5IQiCJCXCTDIAQ0AmgaUBmtgdbNydWHTig3zQAT5Zc58jhPe6OkV32dXmwY8rFSxlV8wo06AIABAilV0EJN1HoBBK60JBZVIRCj/eO7rtjp8gyfd4cMP4f81c8P/vbxQE52cVcShWQqnnPRAKEgjIOSAlCTUCelAyFgqPoUhFSVsba4w4ceemlV551nzy+b/SBxIR7zWPuyT8lY6KiajuctepkZrGv3n7nk3rnklOIbhCTi4EwEIWhBCQqiWnmmiIBCBBCYUiC3Hw3cnKL2LnktPr79h2u/UrvHk88/9wTE2O2/TE7IT7m74Wv7sk9+SekTZsOQeHh7RrphrTWqwSRFAplCAhQjLi4mP0xMTF3lYH5X6PQa9augbqNm+H46Vjomg6uMhiGAUBCUgMSsoT4DYRRUKIgNS2L7d6zt25WgWwb4k8SSq41e8ancTPnbv2xYoUKI3MLLoIxAsYUy1G/Ppd+vUiAc4Cxv3Lhb5C6YU3aLV605p1Fi9fAMBiY4oCuEViMsxAEkITiKl+dBCEmOE+AgBIGTUgcPpGsLFv129tfz1/kW73k+0+mjo/O/icf5T35L5UiXdY5ferc3PkLNnResmQ2it0eEMqtNQgA0vz/ktVPCUq+BCpMI9NMQ5n9Dwgzz7mSWaB8+dW84KzM3Knf/mMZ+2HB9K+nfBbt+bdP8J78V0mVKjXDGzVqsykzuwCCEAgqQAVBgM2BHs90LmKctIiJibmrOEP+YxX6kKEf1h/y/sihoJhbrWLgnmpVq55v167NzEMHL7xz6NAZCAFIGAAxIKADBKa3LjkoZ+CUwaNrSE5JqX/x4pWXACRce/127Vth+859OJN8GW6vF5TS68YnhJhb2Z/0NrEoZO9EnfftP6xK89YPvzt9xjwYgoMrKnQDEETA3DxlCUmd5f+UUNAKEEhIKi0yHMDmcGD//sPYu/fggOzsvPkA7in0e3LHMmpsVO0jR09/N3nKnMjYHYfg8xFo0gADu2YNSogSdU4AQkpXJACKa+JXIMRasRIgkoBAwaIff0HZMv5jR3w43DXls+iof/cc78l/l5w6eRapF3/G4SNnoBNqeuiGjoqhAWjTrt5diRj/j1Po4REd8PyLb9UPCa3wfeK+g606dGizFcCemdMmZ15MyRjboVWXoOK8/BfPnUtDmUA/1Aur4W3bvkWxw8+F4yfPsW3btgfk5hQBnMKQDGkZOUhMPHLDONWqu9w1alTU4ncpimYYVr7QyqETmJzusP5RKhKSK1AUDspuXTE4YnRUwPOvvDFnxNhvHs0t0sG5y+KK16FLHygjsKsUQcGBCAkN1cpVqFCYn5/nd/HiBSUzMxuGT4AQDkoIhCGhqioYdWLL5h1oVKeiX6fISBIbE3PzQMI9uSfXyIjRY8o//3K/eZ9OmdspZnsSdMEBRqESBZRQ6LoOSQCmAIQaEBDw9/dDgL8/VFWFEBLZV3Lh8wgIIaFpBqSUkMJkWWSUWc48wYoVa13dn3zkYQD3FPo9+R8VzlUo3A5DZzDAIYkAlRKqage7zf78f1X+4xR6oyYR9pq1G8+aN/+H8C5d2qITuzrF336ZnzVt2jeJeVk5T2SlZ/o3uq9e4YsvP/vNz4u+nKva7ahdv2ntvn2e/27+/KXVC4okDFB4hURB8Y357qmTPp5+Jbfcg4yzSEVRQCiFFKKUMc700EuL1yyRoJTCz98fdpvtlvO4lFHADxy92HD/sTOEKS5AZ5BSgjHARgz4BzrxwAMdzzzbq0uxw6kmvvfmO+MWLJo9xuPVw7ds2e/85ZeVtS+mZpkbpwFIScCIHReS08iE0W9PU2Txo7ExMfdy6ffkltKqbQeEVKhVb97C35qs3xgHr4dAURgopaAUgJRQuRnVqlajHBo0qJLTqXOni02a1IG/nwpOCaQELl3xIT09H7+vWedMSjpY+/KlHPh8ohRQCklBwJGVVYztsfeq2e7Jv0PMKBEoAZHcjCpJaTGB3o3++X+gQlcdgeErf9tQO/lCBs3M8iAj43plPHvGlK/KBIV1DQ0NfqhSpQqJa36dP+aXRd8aANA8on3yW8PGDw0Lq7U8cd8ZSEIhQSFu8nIlQVmHy+bHuQLGTWy7Lkow7ma4XaK0b4v5W2kq+qDAQDidzlvOo3l4i5bbExLtOlEBqFe542HAz+VEn9d6H9K9Wb2X/TjnqM3GRWLMCuPHuY3f0HRB72vY9r73B721cMqXc5tcvlQARjkICAwhYRiUMMbKw4yD3pN7cksZPjYqvNBNvvtixuRAylxQbMzCiYjSnzJBZdC2Q0v36/1eimtYP3jjgAGDvjyWFApVpTDRHUBhsUB+vgdNm7UIe7n305Nnz/ypQXzcvuqGIaHpPjO/Lim8Xh27dif9r875nvyXCDEgqQ7KAUIYJCiIoZtp0T/7YneJ/Ecp9O9/S+yyO2HP7N1JR6oWFFEcO3URV/Iu9xgxNir2s0+i0wBgePTH98+etbwmbCpqhdWUQ97ob5Scn7QnTtYLq20cPHgCe/edAwTMjmm4sUR28Iio16Z+uaSlT1LoUABISMYgiUQpyvdPZDMUAn6qDZVCAxHgst9yLs8++9TYTQMmloek0GHWynMJUEOibcuGeLBdk68imoQeuPacSdHRBgADwMFdJ/K/rF+/3ryMjL1mSBQEQgoQqt5hBv+e3BOgdljjqPeHRdfz+hiE5CaSTZbkv72oXCkEnTt1XDJg4LN75n375axOEdG3q8c8DKDbxtiLjxdm5k4/cOREdVAJAQoCBkk48grv4eHuyf+8GAA0IiC52fpaSg4CFSAqhEEg70JmhP8Ihd62XSSmTl/c/vfNsbO3xR+q7S7mEMSJg8eSsX7L7mf7DHzfWatheJ9HH+1S99DhU7O3795fp1AKBJQNveFaTlWBy+GAqthgeAUUzhBUJuCG45Iv5uBCagY8BmDACodzZjZvoaZCJ1ZIR1grg0oDFcuVQc0q/jLI/9aPngIwfBqolNAJoFMCIihsXEH1yiFoEhZyy/NddhVC98BdlA0hLJYbKeF1e6FrRuliHTEiiqSnX4bXowGMWYh5UxijCAkNgsulyM/GR99yvBJp1qwtGjWOIG6PF5SZPPdmSZ9EhfIB2L9vt4yNiQEAfDQmily6nIuCfE8pMY8AAEbBFAaXy4bQED9MHhd9Xa5/ZFQUKcj3ITw8vMpzz/WYJnTYNR8+mzIxeoem+Uhy6hUIQiFhVh/YFAUBgf6Y8eW4v40ZGDk2iuTna8jIzIPm84FK0xwqXz4U+/bGyYSEmL8+d+RYciE1D+07t2/13HM9PyoqdEPTDGiaDn9/O1x+dvy6YtXwhPidx5P2xMs9u7bf9Dpt2rRHi/DWJP1KNihjFriMwKaqCC0bjC+nRv/teb07cATJLyiEu1iDFUuCNHwoXy4ESUl7ZELCDmRI+dw3X/4Qcex4KqS0m0RMlEDhNkjdi9DyTjza9f4lK376YtA3U9+6/HfGf7hTlTWzv1n//rlzZ6tnenSzBNOgYIRDyr8XPPpwVBTJyipCh/atm73wwjOfZOdpKC72gXMOQgj8/RUsWPDDmO0x8Qfq1KoI1UYw7pPbP7M3+79P8vLzoRnmxyKsCByjFHa7HSEhZfD1tPHXXWdUVBS5cqUYrSMiKvXs2X1aRkauUxgCqqrCFRAApz/d2af32xNTzp+Qu26xdj6KiiLJF9JRUOwFsWoACQBKKRhnCAzwQ0ioPyb96dv4YEQUad06IuDJJ7pNy83XyxUWFEHXDah2FcHBLrhs2PDOoA9nHD6wW8Zt/+vxbyfDRkYhO7uAtGrVyu+FF3t9UZAvywvDsAiuKIKDbVAUbHm3//tfHTmSJBPi//mxAGB0VBTJyHCjZXhE1V7PPfOF16OpefnF4JyAUA3+/k7YbMqcZ5/u/XudOnWwd88OufMmY/Z++U3i1XQU+3xwBoWS5PNXYBCz3Nf0wjgotWHv3jPjg8rUSH+qR28rPisRVCYQ8+fN+D+NO/qPUOjhrTs0yMrKWhi/c1/N3AIPNC+HwlR4NGD5im3IzC56pFbt2n/M/2GLc2/inprHTpxHYJkgSHbjxkEJAyMKVGYDsUsEhwSifv061x3TtlOkI+nw0YCLlzJAKYNk0spvW8xzBGZ83WR8L22tSqVEzZrVsGnTlqHbt/+Rfqs5XetDEwJQatb5GoKhwO1D9m28mHKBrGjYey9feKN3dzDGIKTZ8lVlQO3qFdOYhd97f9hHo3Zs39UzOzsfRLHBsMAgEoCqKKhTtxqqVA2eFfvHH98n7Ii5bfH8fQ1b1ur+VN/FGdk5KuWK9VsDXBFo27oufv5x7huxMTGJAPDRmI9fSdh5ZPDZM1cgpBmc1QGAcyhOBSEhTtxXr8qvRYXalBlfTHQDwOARUc7+g94fcSE568mN62NtAwZPCfO63bT38081HD3y4z6F+bmjV23eWVajJoufjTvh53QgJLTMb0VFed+dOnHgclxszB0x5o0YHeV4Z+CwYWeTc58+cTIF7qJicBBQIdGqddNsxukLCQk3ds0bNSbKLy0tp8xrfd+dvGd/av0du/cErO47slZeXj50TYNP0+FyOVCpSjk0uC+s3pPPvHa4QqWaQzp2eiB32pTo/D9fr1WrdoGv9X1n8Y7EAxUZt4FBBQGFy+VArdpVN5w4dWrculU/3VHtdsfISKVhk+YVnujx8vPZOXkv5uV4IKU0qz20IrRu2Tifc/5CQsKOtKPHU+tt35FYvrjYAKN2gFAQYuJAuJ2jR48H3W+/9XTilOh+f0uZl0i1ahXBqAEIHwACKQ1QKsDIne2ZI0ZFOTOz8kL6vv7e+FMnrzSJiUnwf/nVqNoXL11BsdsNxjmkEAgI8Ie/y7/+o116Fd4f2QRlQuwrM7PdU2ZNn3zLaMKrr7376fHTZx8pdHsBQmAYBoiU4IqCwAB/1KhRdXVKSuqkX3+ZXwwA/d5639Gv/6Bhx45eefq33zbbFi8fVi8zM5MJIaAqKvwD/FGxUrmODzz8XM+0lJNREeGt9yQl7boUt+NGcOqoMWPfXbMxtt+F1GwQcBBBQQBwzqCqCipXKov691X5cdPGDTP27trpad8p0tawUYtyL7z85qCEhKSH+709Puxs8kW1sLAI0soLV6hQDg0ahLXt8WyffmH3NRmekZG79eTxA8YNE7+FtOsQyZq1aF2h5wt9H76Unjtw7e+x7Pe1H9W7lH7ZZmgGhGFAVRWUKx+EsPo12j3x1EuvVqtRd2REqzb79ybuvBS34+8p9vYdItUGjcPL936tf/+zZ/O6bdr4h71Pn2H1rly+QgsKCsEUCkYBu8OGoKCgZm3ad83s2KljSmCZykNaRkRmzfjqk+uItLp3f2FYdn7xi9mFhUjNuOy/K/F4aT8OACCUIb/Qh+Mn0vtVq17uucjOT1p0YQJ169XG/Hkzmv+tCfyb5a5X6M1atlP8g6u1+G3dtprJFzNAmArVabO8UhVFXoFN2w4otrijDanwQteKQeAEITYUFt7IGVCQ50ZBfjG8Hh2qU0VoUGBe1Uplz103Zqu2nbKyc/pkZOeDMA5aEpI3WV0gYZaTEasFGwG1FD5D/fp1cfDA5rMxMTHa7eZmU23m2cRk3aKCQhCB/UdTsOz3vbWbRXTw379nR8HNzp02edwq3RBbpTSteiHNOnsKYL1KjZiYP3IB4EJqRtXvfljc7NSZFBDVAa8oKd8DQAB/fz/0f+OFz5u0bHM4YUdM/O3u+fCRk/Z8z8omJ06etevSjFFQ6AjwpwgK6gcBlHaaYwzlNm7a2uy31Qnw6SaIkBAOQ0p4hQau6niyW2TYOwOGFh3eFzc7t8ggT7/09tuz5674YO2aLY6iQgO6j0AYHjzW9f6alCPwUkZGo2lfzq3olRQGBYTBYFNtqFg2NGzokL7vbNu49OG42JjbJmk7Rka63hsy/K1FP677cPEv6525+UUwdAmFUeheDwYP6nfl8pUs5c/nRbTqFNC7z8AP4uMP9h8wbFrg2fOXlUKPF4IwEEJgCMPaYD04fTEH23cdrvfTkpW1enR7pFP3Z179cevm9dH7k3Zdtwnl5BTwfUlHG0yZMqs6iB1Emj16CRWoVbti/Se6v1B0KfXcl0mJCTddC9fdX5t2dR976oUt48bPCDh7Ns0pDA6AgEkDhlaAAe++knPpcoatbYfIoD82x1dNT8sDZXYAFiMiEZDSh2rVKxQ/0+uZ+XOmT5t5uzH/SvwDFdSvXwVBBXmQkoNJCpfKUbPGjZGzP0ur1pF+r70+9N29ifuHjRgxNSAp6bgK2OHRDPis4jkJQAgJSvPBpFFnb+JBzJvnj4ceiQxr1fbRIk3X/zhyaO+BhLibf4uJiftrzPtxWbPUy3nXgaSkkGBEolmTemG9X+5TlJ56ZkZmRo584KGeb02aNP/Dzdv2OPMKvBBCwrAqYCj1AhdzcfjEhcDYmL3NmjYK+2Hguy9deOiRh/p1fzzmBhRgYYG30qIflzfbnnAIoDaz+ZM09xZGKOw2hmeff7ju24MGu08fO7a4YdPwpxgLmDxs+Cd+x48n24t9FJIpoJRCCgkQiQvphdi990TI8hVrQx56KHJeu8jufb1e36bz547d0ftqEd4Or/Yd9EBwuUpzpkydE7on8aB/cSEgdA5DNwBhsmWCAGeTr2DP3sPBP/38a3BERJOfX+/30unw1h37xO2IOXRHg5njqS+/NuBZv4DyXwwaPM116PBRh9vjhmGYhoOZQiTgjMEwdChKapWde45VmffDL43u7xzZ9qmnnluReil15Mol/ygt0V34869VDh450SynIN9EJBkMjNlMzg4AlHHkF3mxeMmqOowZMAyv6WZIHQ8+FHmnt/6/Jne9Ql/x+8aeS1fEfL309+WQzAEKBUIQEEYhJABw+AwCn1uASwoubCBEhWEouJByo5N8/PgZ5OW6wZgdNhtFaNmySTVC2Oclfx/yYVRwl+69H/167lKn2ytAiGp6AtL00oESEverSr2kSUtwcDCq1agSl5UamHHDwH8SXSfbatep22zngQt+lJnKAJRBEBVHz6UidPfekX2HTBSP3R++a9ZXn62ZOun60NukiZ94AdzWoyaqEz6o8DEXNJ1BMlNHSQC6pqM424uVa+P9Phr6xsMhAfaDE8dFF97qelSxAaoTxdK8V0gCBg2ScTCuXhd5MAxAtflBEBu8ksAABZUcBAyEAprmxpatiY7uXdtP/cfSzbsPnrzSbva8ZZM2bdwGRXGASBWEERi6Bq9O4DUASTnAAqF5dQgioYNB8xKcTcl0LF68yfHh+289HOSnHP8k+tYUo23ad65/6PC5z39etgXZuToEtQGcQCcUBpVgNhcoV687p3e/If49er35/lffLP9o/cbt8AkJSRkE5RYfACktV5QwUykgCvLdGv9x6erQ48dODR4xZpZv7eofP104f1qpUqdcAVVc8GgqKHOAWSF3SAMHDyfb69537pNqtRtsTUpMiLvVnEZ8FKX2evn1h6bP+qnskVMpjDFXKRhNSglDaDCIDQIcEW0i2/qK9Dfycn1gzAHDIAAxQGCAcAOPPvbA2TEfDh6y7tf5tzVM/0patKi/YebsqRfcRDPXiSSgQoedk9NffP7BX57X6/m3HU898/p7s2Yu+XT9+o0oLPSCQIEkAoJaBqmFFFEUc26QEoaUSLtcgO9/WO2oWr3ilJ7PdM3t3XfQu5Gtqv90s3E4U6FpDFI6zUictPAxMKAJgfidRxyPPhI56f3h03bu3XM4Yv78n6fsSjoErrogCQdhDNx634QQSMogpYFiTWLXnmOB4z+d0zhq7Jvfa1K+phCy+9qxVcUBRvxAaRB0wyKWloCUEroEfD4DK1dtdc2e9fFXXR7uVnfJknVvTv9mlrMw3wsQBZJxSAIYUlwT7pMglCOvSGDpsnVVHujc+rvPpy/t1/Oxxpvv5H2NiZ7TZW9S0nfjPxtfLTu/AKrNBkNwSBggDGCcgVFqGjIAhK5C6sC2mL2BJ06dazlw0Ds/xh/MfrVdk+D9txurwCvv37g5sWlMzO7oxUv+EVDs8YJxK/hNTeIsaqGTDEiAKdAMwNB0FHty+dLlK0OPnDj2Zu+Xe3lUhX+y9Mc5WQDA7P7wGhweLwXnCijjkIJYLbFNjg/KGTRBoAuTP8EwvDCEAarcGsj8f0HueoV+6Ejy4PVbE8roxAlBOAAKg1j2OTU/ZIteBdQAJBRIKDAMwKaQetlSPhtMyNKS66WnZaCgwA2mqKhYuSw6R7bHlGvGS7uUWf3wsTODz1zIgCEpKLVoYmTJFmISvpSUQDBp9ahlQJXKVVDgU+dOmxJ96nbzGjsm+ssHH3vplZ9+3erHWMmCIyBUBVcCsDUuEVcyLo32ZhVk9Xl52C+TJ3y8hjLy+999fjpU+IgNPuqALik4zNAeIQC3DJXUlHRwIgYDWAjglgrdoAI616ExHQZhINLcCIVVxnet1WHS4xAYlECngE4lmBSgkkISBRJ25BcXILvAi4re4pHLVqyK3LhtF6gaCN3i0CeSQFCTOc+ggEEIBBQYhMAgOiQXpkcrOOJ27sHlK90G5xcaPwC4pUJPu5SHfQfP4XJmDqjihCQGBNUhCYVBdQhqQJKrqJnerw/i3Z7uHfWPBYsG7Nt3GmB+kIwBMAChlRp1xHq4JQRDUpj0wzoI4vedgNtY+f5rffq7iKJ+8MO3k9wAICmBZJZCYMRcX5IC4OA2P8TtPIgJ4we/XbtOlWPTJvw1A6BXk668Qt/gmLjdTHI7fAAYE2AgoJJDCBUgNhDCkJ6eg+yiLOgaA2VqKZkRiET5Cv7o8lBzZKftwrpbPcTbiCuATvpnzmvcLGLUgu8XDk3afxJcVQFqAySFlCZ9J7X+CwCQwoqRmQQ4gpoKNiU1E199syDokZPJX8TsvuyMbFX+uxtHKl2hpd+2WY4qAELAVRd8ugK7LWDEju37Oh09dRo2h8t0KKS8prODRcdskVdRqKBw4GxyFqbPXHpf2XLlXwFwnUI3YQ0KiLCDCAMleVxKSCndc36+gYxsjScdiB0859tlcHsJmOKEmb6QINegukoqbiQImKKCEIaEXQeq1Qur+V1GkXynrIusvdUz/21DcrdVv/06c/Xv66t5NAGbwx+arpmsmtwMVwshIYVh5qMJtfpcEDDKcTnDg2lfzmvy+hviu7cGfNRnzjfj/9JTN6R8ZEts0uzvv19aY3vcfvgMCsJsENb7kCgxrP6UqSjpaG398/Dx8/hx8YqBMyaPcNatUWHohPHRBYKa+wRldlCimBWTBKCkZHcSEDDMZy85IM2oqIAXxl2AJb5rS5eGj41S95/2jVu5Lr5+6pV8GNQOENVcRNRsDmF+wGZpgqAaBBUmWIoAhhDQDa2yEOhQcs2RY6LqPfhA0/E5+YWgCkGN6hVSE3f+Mark7+8MHhP4ar/hE9Zv3AWPRgCimKxvJSFxSkEotULkBIQSUMpAwOG029AgrJqvZfO6d+TRHDmwK//E0X2jOrVrblCpg0oKSph5Pa6A2Rw4cyETi5duCxn98Yz+38zZOv3I6Zytcxetbjpo1FjXnT5HIimIZCAGAzV46b8pGFRuAyPcLHsjd7hUiISkwmwaQ80fgxLLc7rhUEAIEKkB8EJSDYJpEExAUNO7ldQGn0GxZduerrt2H3CC2ADCAXDLOGOQkpgGA4E5JrTSjx5UAFSYCGrB8EdsEqlSI+yWpvb7Y6PKvDF00IQ16zaDqw5IQqz7MWBQDYJ6QeAFgZl+HD02ytZ/0OipC39c1j/p8GlVcgc0aW7nBBIKNPgpQJCTo2KIP0IDbFCgg2oamKAggkNKGwzqwoHjF9jiX1b0HTF25NSrdyQhiWH9CIDC9EaJhA6C1PQsJJ/P7NqocXj5jpF/HRYMa9Tcuf/AKZJX6AOYDYQpAAMoEwAxYHKtA506d6Y1atVxpqZlgnIbAAZCiZlRIgItWzQqTIjdNDpx53b9zhbFv0beHfiRunDJtk9jY3cNOnT0lFNxuGCUZDiJgKQm8yOnEg5O4FQo7AzgUgOgmWuzpH8DUWAIG9avTyj37dx5E7ftPtO7XcfI69hEJMy1SaUOIg1Qix4aliFHmR0nTl3EoiW/dk1Jy3GpjiBQrlgAK8M8x/ovgQAhwlqPAJgCQWw4dPQ8Nm1NeCrXIx/683yJFKDCABMGmDTxOJRIUGKisu2OAGzdehjf/7AW+fkGIG2W4W+ASR1MGua9wzAtSclBqQrGFTDFBk0wxO7YV/2PP5Lad4yMvKlz17ZDJJ3xj1X3b90WM2Pt+pjqXp0CVIGASS0tDB8oNNgVoEyQA6Fl/WBzEGhaMXThBRgFqApJHMjMcmPRomUtn33huUUjx4ypc7PxWkS058t+i2s7ecrcGtvjD8CQKgQ4AMX8sdJNlFHYVAV2mwJVNXkRICkos4EyJyjzAyMB2L/vJI4fv9j1ypU8JwBQooERAwqTFvu2ubbNeLvlBBIBQnUQpoFSHZTooEwHJX8LbvC/Ineth/7OsI9e/GXl7sEHTqb5+aQKUOtFw9zqrQjndVYc5QBRCTgAxgUKCn0ouMbfdBfDLz9XNvLpOpwugfYRtdyb1vxUShNnc1avvWHT3uYpaUXQdA6FcRBxTWlaSX2utWmYwHJTOZYv44/6NcovXzBz/Oo7md/O+Bi9VZv2ic890ePCuRNnamblMoAxaFIDpG6G+UGQ7QNyzmXg9M8ba6zaFl898oG2q5988c39WRnFH1YMdaVP+TT6luQxdulD1cAA+AJ88IAis7gIklJzAwcBV03SEHKHRAsEDETawOAHzuwACAjRQDi1vPRrRAcclKFCoAt+ukC2x4BXJ1b9v3mkYvPH0TNubI9NgLsIYIZJy6sqKjTd7DInqWIioyWgKgRlQhToOQI+KDAkARUcVKrgigvxu3aFTJ85+gsMuNpw58+Sm+dTL6QWNDqdnAaFB0ESZt0NA2cSrkCBABeFYn09AwaPGDj160VvHD1x0cl4ACgUqIxBE8VQ4Eb92qF4vOujl1uEN8oMDLBDQiJp/wUs+Xld5WMnUoLcPh8YV0C4AkGBk2dSHGvX72o1YFhUxW+mRqczDjhdHOXKBSK/mMDQGYTUQRkBdAIIBatWbQyc/dXQL04d6dxte0zMTQtuHnz0oS+GfjClElUCAdhNz5x4wYkEJQL+DgcC/FTcf3+7OukZWdPWbpsDUMXc+AQB5Qo0D0FE0yb67u2/H477NzINdugU6Xq138AhkybPeO/EuSw/oroAUHBmGs5ebzEcDhXBgQGoUL5cSq3qNfMDA/1RWJAXcPT4saoXLqbB7TUAqNB9BFIqINSMoOyISyrboGGNaYOGjdAYxYrtMSZo0m5nKBvsD0gbCooM+AwJCQqmcEjJIMCxOTYBwnBDKHZoPgFDCDidNjgUBqfLAU4ZitxuFLs98Hg1SMkso1eHLgUK3DqOnEyvfD7NV/7a+aoKEBzAUSGEwKcxuH0Ebp1Bhw8lLW+KvUX4feNGeIslBFTA0KEwhuAy/nDYOfz87Cj2acjJ9yIr1wufT4GNchi6ZhmGDJev5CIr63L/Dp06b9weE3MDYq1py9Z1nYGB36/6fWFVTQCK4gfCCQQxjebKwQFGp/btzj7+RFdfzWqBoApB8oV8fDv3J+eevQdrahqD5oUVNdWRmp6Gdeu2N6pRqX6D9h0iz8XtiCnVku0jI20v9x3Yc/Mfu9/bs/84CHGAchtUSSElMQ0crqFChUBUq14hs2HDsMsOh4r83ALHseOnax05nIwijxegCqS0QQEDpQYOHT6LCxdN7GqD6tUAtwcejw+5RT6cTs6FR/NCwoAkOgg47KoLdaqXRYBTAdGlaTwzH+rXrvQ/t8D/RXJXKvSOkZHBiUmprddv2++XW6TDkBSEsdIe5MzyJq8FpgEAiISgAgQGBAHycr1IS7uKFi8u1pGT44XX50H9RjVEq/CwpBP7y+oA8PbAqMZlK9abv2z11vKCOqCqEtIwAGr1k7Lyayj1AGCGVkFh4wx1albJ7ti2WULfZ8NvC1wqkcTdcadate7Q+7ke3RYsWLS5ToG3CJQx83OWCiQoDKoACkG+T0NhWi45tXBl1d83hVR+vnuPh5s3qD7Da+i/7921IyHuL7oG1a3ld+SDQa9vyMsDdh89FTp/2cqWOYXFELoBRSnJp5cE/G4vRBIwycGkCgLVDH0SYXXiuN7LVxmSX36x14aHHuqKS3n5gUvWbGizZfteq1JAAhLQdGDNuhjk5ubAAAFlAgoXqFzBHwEuB8qX9YeiUFQoGwQh4S1XoeIfo0cPCV7y69awnbuP1vB6BSg4QDhUp4LM3Fy+99CxireaQ1ijJs23/bHLptpcJkjPIOa9C4EG9Wqib+/HD7ZtVvfY8QM7vCNGRZX7fe3u8B3xR5xen2LWshICr14ExovRMqJe/uC+vRJaNa+38MPRnyyz28yYYGpqLt7r/8HgOf/4/sPd+44GceaCDxKAgdz8ImzaGt9iQtTwUd9MjR5QrmywFtmxVawrsGzD5au2tdgWsx+GV4AwCmbStSE5OZUdPZFa4XJm/l9aXikX8yqcPHtRkcQGIhVQIcCpAgIf6tSultr7xR6HO7ZtVBgQYDeSL1yumF9QbCLbqcm9TqzcdEhgIPxuQ4z0r5ZmLdu0id0RG7XvwCnuNUzsBGCAEgEpdYSW9UPLFo2zej3TLbFKxdBJg98ekGC32zDz21kdKFM/WLZiLdu6La7t/gOnXFI4IKGAMTOSpwuB39ZsDZ044Z3Zrdu327fdasjRrdsDB5o2iwjKyfUFbPljR9sfF6+FbnWVAzUbzXi8mpU+0aHYCMJq1UKzJvcldn3kgaz6YZUhQXH6dCpWrljeeuPm7UH5xRZYj+pghEI3gPQrOdi1+4YI9MkhQ97ekJNdjLS0jDLfL/6t1c79J63KHGmmmqSAu9gHIhUwCvj529CyZR1Edmq3q33bVrmVKruQV2hgzYZd5Odf1rQ9dizVv4SYz8oSIis7F8nn0oJ9HnlDVK9th0hepmzlNgt/Wl6pwO2DJHYAHFIaANHRsEF1DOr3WsypE0deW/3rgivBQXZQBmTn+hAa7Kz/aLeOCzdsiG0swUAEhTB7YWH5sjVk/pzPp7Vu3TEubkdMVsl4zcPb1PIvU272mg3z/STlIMR8xgSAEBr8XSpat25a+NbbrybUr1/2l1dffPUHReHo8fST9T4Y9tmU7/6x6r4fFv1SLTdfM5kxrXfl8xnQddNuGD70rWOUyg0G4Eo6eqrtm+9OZmlXPCDMdMAMQ4dfgAPjxw02WjaqG88EigUFDAY4FIKokf3/tQv7Xyx3pUJv0apjs4xLF/tfSLkI3QAIo9ZHZcqfQ7tXhQBgACEQ0kBOTgFSzqeV/rWw2I0r2VmQREPHjuG+Tyd+9vHCOZ8XpxTKFnt2nv5u7ryVTbLyCkEdfhabECldcCUerIQZyhGWTqJEIDBIQd2wGofrVuXf/J15xu+IkfE7YuIOnZH9NaHOWb12U+2MvGJogoFAhQC18mlWsxZhYsrT07PpV7OW2u6rV2voow91fvul14eNnT9r2rTZX4y7wXNzOOk3AL4BgLYPvvhopcoR63JPJoNxM4wlLbraEhvldkIIscKzxMoVm93gbsa8xOzkFwC/AMCAYVGtW7d+YOeGbQlgNidMyIuEIXVczrhszlExEBBox4MdWiCiaZPFEY0bnK9V3Q6fZmY7J0/4+MikCdEvAsB3vx3+/NyFtKEXktPNdAEl8AkBzjhidiRWyJSyRyghv95sDvd36frxssHjQrlqh6ETMwQHHX4ujvBmdfY+/nCLfv6EHACAY2cLun83b+mz6ZcKQeGELkyjg1GB++6rWfz8C70+m79w/sTItp/fMM6PC776bMWWpCcvfJLaLjNHmtENYtIYpaTk0sOHT0S4pWzsIOTQZ+OjXxkeFVW/S5cnvjt45HT79HQfKFVBBAHhEprmxsaN28pN/WryM/NmfbH0z2MV6rLr57NWVPVpACEMVBJQEzuNkDKBeLBL5IZXn2vVDwA+GhPVuMP93eH1eUCoFWUBASHmd+bn54DDof55iP8xGTEqKuTRx1/oNXHKXK6DmJgCchWzEhDgQN9Xn856+unuo+uWV+dce25Y9Z+3ANjS76331UHvvRX10+IVH/wRs1cBoTCkCRqjEjhzLgW/r49x9H93aE/O1CmTxkVrlcq7PgXw6eioqPDO9z+x59fV65BXZACEW/gJYX1+BDYF6BwZgVde6b7tt2U/vPlEZO3T197HmfM57ytERP28aoe/LHmi1Mztp6WnI9BPe3zU2KitEy0CLKedLACwAADeGzg6sk2bln9s330MzK6aoXuYkScBCgoDIWUceKLb/Umv9O624afvp89u+cYj50vGfuqFd+gzPZ75aF7u4pGXL+XYzZQVStOF+XkF0N03VvDVb9jcP+y+5h/PmP0bU9RQM6QPA4buReWqZfDKK8+v2x639p3pU8en3OS1HVi4Lubz9IyUBTvjj4AyFwhhgLQhKysHcXFJytmzF0t3hBEfRdmeeeH1XpOmzrd7vQJMsZnML9IAIQaCAile7/u4t+ez3afNnTlt3MPtokvTPRtXLz4E4NEjyfnfxMbEvJe47xQkNIAoAPHCuhAAIKCMMhvA7I/GRtV//KmX9qoqdxJqlmOasVsNlGmwO6ln8ucTXp8QHX1XdVu763LoI6OiKvV5Z8Do2J1HYBhm3TjnKjjnYJyb/yXMrCdnChjjYIyZv2cKGFFArFyM26MjJfVS6bVz8vORnpmBypVCUaFcmYlBQX4pH0RFNTp1Lnn+4lVrmydfygSzuyBBQAnMa3P1uh/OFVCugDEFqs0OxiVq1grFw482/qfn3Lg22dKta8dXRg5/KblVs1ow3LngMEBhgECHYXhBiLTmbvZKN6iC/aeSMXPeBsesOSvHPPJY/zG3G4cQCV7K003vTIP/+RqWkriBje52BgEBCCVgvORdcSiKCkVRoCgKGANCy9rx1NNddjz2eOenDiT+NrBRHcdIp0JGBjnJyGAnGTlpQvTFkss91LkBatUsC6JQGIxCcAKNSBRqEucu5lZJSXW/9Fe3sjPuCHJz3PB4DRiGAGBACC9Cgx0Ib9kyvkSZA8DPy7bh5NksgDpBqArGuImjoEDfPk8VbV79/Q8LZt6ozEukYqVyE5s0aZxR2oWPACAMucU+nDx7rnWBGy1Kjp0cHX28abOwrVWqBkFRGBhRQaUNjKgwDIqjx85VTE8vfuVm4xTk4ZmD+47V0H1mUopYQCCbwlGxQjBeeP6B0mOFNLn/KTXzi1JKgJn4EFAKm52CK/8+hFBBka/cxfScV46dPA+DckCxAVyFTzdgCB19Xnne3euZxwZ/N33C3L+6xj/mfO5b/esPn/Z57eWPH7i/HbgCcBuHZOZXRBUXNqzdqRbme18RBq6zViRMp5wpAoyahg2lAOdmVYvKCdpE3IcR7/fe2axJrTe/nhJ9+s/jT/9q8sKnnuiW57Q7zfQKNSNtjDJ43D74OdXnKEG1m927ojLY7NzcW4gZ+aKEgxEFdspRxt+G3i91P/JYty59mtQtO3LS+Ojz156/cvFMsSdm2cIXn3vcTaUP3PrGuKJAtanIzctDRsaNhTcTxn8yetPGmHKcO80906rX5pyhTZtm6BjZ/NfpU8cn/9Uz79Kl09ayISHrywT6m+FyYq4phyMIe/YcKPvNl9NK8Um5uV57elr+K7t27ee6YbIGEkYgmQGmGujV8xG8/NKTYxd+N23ytEnRN8VuVAh1olWLeujcoRkiOzRFx3aN0LFDM4SFVUNQGb/rji0BCRIKy2HhoISDMw7O/qmt7/+E3HUe+oW0Ar/te862PnjsHEA4KOVXG6IAJqMSvcZrLvkbIZCCWixUBkAkPG4fAlzkuYxiubask6zPKyhAZl4e6tWvhaULpu86fmh/cfeX3wpbtXFXk2Nn06ERFYQroIBlJd9MdRHzvphZ28sVgvDWjS7u3RM35P9n3u/0eyg+onX7btUqVm/57tvPfr1pa0KZy1kF8GgGuMJQEiugTAUIgUYEAI5CD8H2nacCsrOLhsxYvN89/bO3vz62P+EvWGnMnEVJ3frV+dxZuL3k8BLP3Lqi9Xxu/YlI6wsjhIFQaoLzLCITwzDgcnA88kDbw0fi1r7y2Tvdz93yYgCmT4me1qpV5/Y7dh9r7fGZmACzu5cDGdk+rN+w0zEmKspvXPT1ZXgFPmPioJHTG+k6gcPhB0PXAZhkIo0aVvdGtq1TWk42fGRU/UYNqnz+8/JtJu5AGqAwy3YaNGoEXXd+Wq9hG+XZVwdWltKwyp5QinCH5Ni4Jv5C69atfes3JYLanACotZFxpGXm4lLm9RjK72dOndWmbdsHjhxJa1+YZ8DGbQAMgKrIynLj+/kr7ENHRPlP+yy6NLUTFRXl3L/vrDM9LQ9utw6qqBbiWsKmqmjUoOH+mV9N+KT0FRLAgICh67A5XdB0L4QwIImELgSKigV8vn9P+rxDp0hSuWrtkK1/7Caa4GblAGPQDR1cVRHZLhy6N2/gC091/WVX/M2xAyUyZ/qnhXt2bv/myV5DQ46dShl68Uo+iKqCUgVEp8jJ9iB+xwnerGl4CIBSoh4JwJAwK2YkzBy4lGbtM6cI8FONvq/2jP9x3vTXPh0fffZmYzudqlGuXGBW+fLlq5w+f8kEzZq5DGsQcYsvxATUmVFAbt2RDkYACg3NGtfTX3w28kStysEH/uoKFcqHoF7tamDUjLiZaUETLKppGrzeG7cET7HR6tiRM05VcUCXBog0jbvQ0HIIC2u2OSfbs/uZl96tDPPRXOVAt6o53n31HdGl2wuZh/ZdQF72FYCY/AA27kRaWrZD89HWJWM1atw8ZPv2A6yo2DCNBxAIqYFxgjp1qqNh44aTXuzZfWZCXMxfEihN+TT6s/37js7PyS0yo5cW6Hbrpku+kycOZV17rLzmB4RYeAp61fC4w4jk/zW5qxR6y3aRtEpY07Cd+05QTXCU5FmktYhK49/SLA8xv72ScgSr+xmxctCQ8GoCHq+3HCEIbtO2E2/brkNYaq4PdcMaXmjbolJ+QdeuXfK1wK9WrvgdboOayGDBTFxtSa0rAXAd17upiMzPU6BRo/qiVasGh5bO++b/K3QTFxuDuNiYYy1bdTz924YN8oEHm7+3au22BjvijwZkZhfD49VLm8lQymFC5sxOQpoUOHwmJVDdlTi2Z78hxWsXq/P2xsfcEGOT1jMSJSvZMojkzeLlfynE2niotXEIEyB4O1BdiUIHB7XmUfonKVCrWmVf72ceSmo+7MXbKnMAmDIuOvVY5gcFi1dswbmUIvPD5SbRRm6+D2dOnXjgs49G9R4XHT3r2vNOn71S8/z5NJehExjS7OctpQ5/PztatY7YM+3TcZNLji0sMpzZuXrtnAIPVJsJwAEUcK7AkAxHj6V/FBAQ/GF456cghQ7DKj8ihIITBmLY4XaDxMUdDmZcAYi01o6EJnwo8hQhK+96TOO0cdHpu9OK9mxct7P5ibwrTimsHDdV4Pb6kHYps8OYj0a+Oe2z6NKwwKhRHz8169vVT+XmFkJhJvCOWMabn78DvXp2KQxv9NxVr44ANlWBv58fNAlwRqEJEyktQZCbW4iion8P33r7jp2dj3Z99Is+b0XbwGyQhJlIciKhMhvatmmQnHZ6V9Ku+NuzGALAvsQdBQt+3ph67MxZXMg8DIMChDIwagchDPuTjlb/6vM3vwDwTMk5UgJCEBiCQUireIqYuB1ddyM8vGX2zoTYt/5KmQPA9tg/cjRaZkiZssFbkXLJ5CMggGlBk6uK/WZCBCQxLEwOM8vmQCDhA6EedH/ywdTdO+OH3mreLgdDmUCltGKl9Bu3qjEM40Zb6OixCygu0mAIAcoMk5xKMhi6xOlTqe0LCws3tmj3OIQwyXbMyB6BkBKMEui6hsOHk/2LiykIcwAwEfdCUBQV+5B/Ddtlz15PTOv75sSqlKjm++AEQphllVWrVcxs37FVYp9eMbcsmZ00YdxFABf//Pu9u29yMIGVrpSW48AswiYBSJNs6Z5C/x+WsEYR9gZNWk+OnbvSAWkr7UF+bTz3qkd4jYdZ+q8Sz8/0kHzCwOVsH1IuGwiPaBf8+COPTF69MQ6VQyvPbNqymv/RE8nfLZ+7pnJhMYMuFSuMz66+aIuu1Ky/MvPXBBwSDIbwIThQwSNdIvS5X0wd/v2MybdcjHcqe3dv1yqXcS4CsOiyJsY+fH9W69iYHY/uSDhCz6dnwycoBKUggoJLDkklJAQMSMTvTnLVb9D9q+phTbfvjY+5wZqXkpRa2qbVas6vJId+JyIpIJi1ScH8LGRJXv0WF5HSJMo182z0Kqe8FKDwoccT92dOnTBx+N95VqFOJTaiwX2tLqfuC/AKAFQFKIXUBE6dTrev33LoOiBQTrEM+2HRymp5+W74dAOgCjijkDpF+eBgPNQhQqvZo1Ppe8zMykPq5Uxwp63UazPxUhRnz17A8RPHgykT0IXl4YqrmzIDAYMNwjAxHXaXEz7dACUcggrohgeSAl5xY5XjyNf7D2/XoceDZ4+ubQzYTO+CmKVE51NybQcOnmkzbFRUpakTzXzs8eP5jiNHLzh8Xh2cc2jEZC2UwouGjWsUlS2nxv5piFzG1NgK5UIeTEnPBKMMkgKSMig2By5cvIKMzH9P593iYkEzs32BWTkFhPBAlJAsCSlRtlwILl72fDFt4ri9f+ea1Wo4jpUpG3DB4bJXyy7wQXIOhTEwh4Lz6Zd4odsIvPZ4Qsy+BoyroFwAxIwKEsZgaF506dJexG5annerMWNjY0SB7p9XsXY7KFwBYwyGMHAnhrIEgaQUklohYquRjRASNWpWFfXDqm5dsXTBLcmqGAdsdmIi9EuwLWAAUSGFYlEvXy/7D52ARwe4zQlD94ASChCG4iIffl2+zqELn0MIDbrmhSGE2dfeYqbj1t4hBIXD5g/KuGWiU2gGAaEKvL6rDMxenwi6fCWTmSkrDkYpFE6h2CUUm3N9vQq25bd9UP+EmHsdBWDt60QFJXaQuy8bDeAuy6GP/WTcGzu27S2fn+MFJLOsTWa+EGIuBMpUUK6CcTsYt4FwGwRTIagCyjmYwsAVFZTbIagDmfk6ktMLUJifh+LsLNQK9T/YtG6NzXv2nnp/3uKYKmfTCsFZABTuBOMchDIQykGoYpbKmUWh5odGCCg4KFXg7+9Cxw7N0LJ5zbmhwY6028/u70t5hX6yefn0V95+9fGBo4a8uLbvS11RrqwNlHtAuInqNH1dCUYBRgnW/LaJ9Ok34M3Bw6NuUqtuVW8zszSHcmY2A2HUArnd/p4MSBgUVqOaqydQSktZ0m4mZjSagDCLKIYSk1OAUFQo60LTBpVQqfyNTXJuJWOHR33+eGTrNH8qYGPMMhZM9q6MjFxkZmV2f//DqLCS47NzvY+cPJXSLi/fDUU1GQCFlKCgaNO8TYa/gm+vvb7H50VBUQF8hscCKKoglENIMyqh2Fyg3A+KrQxUZzBsfqFQXSFQnEFgziAQpwvczwHuckCnBMymgqsqbFyFwhRImHX8f5ZmDarj2cdbo0o5FyjVLA+OQhcUaZfycfJkSk+fD81Kjv919WZcTMsE4wrsDhtUhYEwCUk0PPZE+8xPJ4y7Lsk/4ZPolPHR4z8vFxoMCMNcE4QDhMJm80f8zgOOj6Ki3vhwdNRfv9B/kbg9GvLzvSBUgcJt4JSBWMxvZUNDcH/H9n/7mkGcrHP6hexyufxgt9vBOYdBAS/RcCU/B3kF16doCcxvm3AOyRVQopiGu2AIDSmL2nUqIDjk9tQPlNDSChzAVCa01Ni9xYmmRQGDmaW3jBMQhUMQghbh4frYMdHTJo67dZc7IQEhCbhqVZsQK28MG6ShmiQqf5LcAjcEUyCIAsABQlQQQmEIgFEnbGoQHI7A/8feeYdHUb1v/z5nyu6mF9LpoRMg9E4AwQKIBWIvYO8iIIoiMXRERRQLCBZAsXxBREARUBIIJKGEXkILARJI79tmznn/mNklISEE9CfiO5/r2guymZ6Zec55yv3Aw8sHnl4+8PT0hqeHLzw9fWHx8IWnxQ+eFi8IoubC1mSrZJhlD6iMXRT/AZCVbYPVboMgaLNlzgWojMLD4ono6L9fPl33r8Kd9eO6HsQEUfTUBi83IDfUUR87njPsXFauvyCZQQStFIkIojb8FAT9X30YS6gmOuLyw7viVUTXfyIEHAIKS8uRee4cGGOQLTKat2x4KqdM7bTpj7Suh49lQpDMACQIVHNXacZNGzxo8V49jk8FQCCAyCAITtQP9UPL5pFfPDFy2OT3pl5eveuvMjU+Pr+ej/TxxjVfP1/PTx00ftx9+/v0bFkh0AoQosCldgUQmE2eKMgvJieOnx16Liu3xv6t7rwD93VyxZlwRYM+dnKcx8KlC6YqiiILVHB7T4j70akDVPMMEKqVBlFC0LhxA6z/9bdJSYmbr+o67tuz3bYt6Y9JjRuFWwVyMUYpUAFWu4qz2QV9cvJKGgBAn34xQlLyHtOpc/lQoMUYOeVQuBNms8AHDmyfPXXq9DU174lrZVQiBROInhRHIAgcgsghSACVKIgogAjaTEslDApRoRAVTjjhZHY4mR0Ks4ExO8zUCbPAYaLVr9qO1C3KztStk/r261oKagOnKjilUACU2R04cOQsGka2M/eOiaGvTJjcLjDMa3xm1nmAaNKcsiRAVW2IjKyvbt+WOGlfWkq1hjANGoahSeMwrT4XBKAiCJEAIiHjTL7p9Fnb8I7d+9RZwOiv4tIId/U2kEQZ3l4eiKgfdE3b69CuLURRcEs2a6JEtVTIuPNIdM8T0UJKTZs1x2/rNk5KSticV5f9cmgVMC4NOl6nB0NfQNCfR+Jal6JRkyYIDgmpfXX3frV1NI+bluDGXUP+GkYU3JU/Qwgg6JMZoj2TAmWa6Iqg6u89CohE8/mKmteaiwCXAC4S7dj171Rig8LLofKL3qcKmxXgKqge4ycQQIkILy9ftG/XoS6X9qohgJZATTWDTvUPOL0o2X2DccO43MdNigvesfOwZ7mVayNlFXqclbqNjTaT0B84PXnFVdqizT5JpXiwluBRWlYGgTrCh955e/OQ+qGKT0BA0c+bDnbLOFccwIkFToWBkkoxFf2BAtPU4LSEFQEcTr0+0wmziSKqRUhpl+hGqc9uS/g/M+aVmRofn9GjX0xGp559hslCQHSfHlGfpaSeDLPbVXDOoKocBBQWkxf27T8sdevRtf6Py5BfdSuum5jo8VLX13W+tUVBoO2tFRVUFEVwleiNIXR3O6/l3eW6uHD7FUE4wFQVTZo0wd7dv+3ftqVuXdJcJG1NYE1adN5/06A72Z5Pl4PJ2gicQFOU2rP/OKKaNa7fo0+M3KN3v05We9n4zHN5AJH0gQ0HFTg6dGprT0z8Y+zOHVuqzoJcSW6Uggn6HcYFSKKA8GA/+PoIIEQX8ah84lzvnqdJvsEtB+v+PYNiK0fzCH/U86w+7kpMTOCduvfZNeDWezJ++SOxXZldAXFVc0geOHLiJB5+5NG558/1P3jieJYvzNmt7IzD5lQgExFcUEFUB265qQ8Opq7fty0xoVrWcEiwR1lgqDlXoAjSUv1cZZIMVocTm7fsjHxt4oi5AB6/mr/JVVMlXKP9TTgAxhkUp4LS4jo1matGVlY2oDIIlOrvDQ7CGEQqQLjkfncNSzlxlYlqsVZVZZBlCRt+27h/e0Id7k2ildxppbOVSjmJUOszxrlL91APhXGqP6IEoiTqbYrrCIF+DPoPWobv5RYFXDk1Ate8opzAz9uCiDAfUNEJyUTBuAqVa4ZY0JPRXCW9XIVbpIpAk2t1KgrMsoLAeu4+TRBEQDaJQJmWfOd6Z1AioLCw1mjGteOqLIErOZHoc74b05gDN5BBf3785LEfffJLtzIbhwKqzXS4XhsLvQRBvwlccgSEaDfjxWi6pm+sjUoJiKrAVlGBxvV9p/ft2GF3SbG1LKfckXniXNbr2YV2OFUZDFy/IeEexRLoNykTdOEabbBAJQVEsKFhg4DSDm1bfvTlvOmL/8lrlJyYgOTEhMzINh3Pjpv5dXxhkfOzg4dOwSTKenMNCoFTOOy2sEcefnTuqy+MHlh5fZekJNU9HK5kwrqqxFkrVOTmliMrOxsC8YUoiFp4ijJ3TfvlcqMJtNgzFVwPl95bnhAE+gfAx9v7MmvWTv363hVto4L31Av27p1bolU3EEZBqRmnMvPw6EPD59rLc7efPlPgYZfOB1fYNb8mAdFkIJkTAwd24Tv/XJWVlHhJFjXRyo5kswxV1pJ4RFWAw+7ArTf3wn2x3VK9LbRYJq4Uv6qeCn7Jv67vGQfsDg6TTCHJQo3hmtTkrVnhjVu/0r9/t43rNuzSQhQgIJygqKwCew+dD6/frJOvHd7RKWmHwEQZkmABCIUIICzQF1GtwvcUnvarMbdj29bNSQNvb/tpcHDA5Jw8BYBZ99QosKsKtu7Yb+qR1KHdK2/GRc6dHn/imv44lXjjrbjGlKDZloTNKQkJCe4MfUkUYLGYIIgSLo46CERRhN3uwLH0K7ZFqMabcXENL2SfCXE6nXregybXzBiBr48XfLyrNtFzZ8gIAkSR6u5pDqgq6iyJ7FpfMkGUZS0vQX++REnW81Uugz4tp1SAJIpa8hbROgkyxtzVE7XiChW77jJ9AE0puawSpMXDQ3uHUn0krlJQlSA8rB4++ejVc4H+5JAouNz5bsVtTSxTH/twXXXWrRVFgAqtlB8+snTItS9/f0+4uk+7Zk2cE5SVlWP//jo3aKsz+nBaG9zr3ltX2agk6FVD/5gO4t/HDWPQj6TnSzn5NkEhMpieIErUi644AJq71j3Lq2SAXfcw10farrgJKBTmhNWhyOUO8haRTXekHzr+1s596bBBABHMEDkD585qcS4CqqlFcW2WJQoCQMoRFOKHIUN7H1+1fO6klYs//FtuiaLCsl6zZs3InjV7Rp0yvE8cSmNDBrVzpKen49Dhk/rAR4CW+MFRWlxGVIXXoAziqiHXoZX97Vcm43QWduw4CM719pVEe8pdgiS14XI9agMzPWSiVygQ1wvlGpg1Jf5sekb+5C5de2xat2knBGoG5QQqF8BhRsruk/KdDz0ZoKrWO2e98yOI6KmXEGliMhERwWgY4b0qw1/Ov3Tb/n5+CAsNBRUoFF2zXoDm1j6dkQV7iXXzV/M+mDotvvYOddfCti0JvHOvGEd0t0H4PWE3bArTPAUEIFzA75sSyITxDzwT3KD5vT+vfw9U9AW4rDWDcVrRvm0rLP3047iVyz+vMTN7a0IC+/DLVcr+AyeRV5APTkwgRNO6lkwmFBSX49sfVnd9fNSDo+dOj5/0V87l9Ulxje8Y+ch8SujQ4hJr54SEhN2u31ksAvz8TTBZTFAdmhuYaO43nD17Btay3AGvvRG3avaM+My67u+ViXEjp85a1M/udICKona/6kbRx8cHZnPVm03zCHAwVfd06YN4lTEwVdW8UHWksgfMNZN1uxgvg2sYTPSkNPdM3XVwdbPn7okI5a42z/pM/zL7btGyJWTTRlC7og+mtAY4Nqsd+/adWz9yaOTf5p0JCDTBy8cLF/Kc4Ex7h1NBgtVmw7lzJ1rnqTy6nkCu2KXtanFNGrTubbpgkaCVjt6I0/QbJoZ+MP00CsscYIIJRJIBUcvW1JqwELfx5lpgxG2Aq9gRfXnd0wlOCVSVw2ZVMT0+vuzxx5//MnlXBoornKCiCFE0QaRmiIKkiWyQyh8KTrnmASDajN9iEjCwT7eS9lHNZoeG+v8txnzC63Gd1v+Z/HlUlwFfPTT62UZ1Xc8sAx5mE2TZBMYJGBXBiAhGBHh7e7tbEVaGACCcgsKVaMj1ZgXUnQFfG2/PmPlackpqKKUyRFEGFSRwQdBjb6T2Gbrb2655X1wDgb/joWrQIBBtWteH2SRqnhZOQIkEyeSJ1F37TESi7xaV4tnMc7lgEMGhDUAogO6dovH1Z59/OTs+PufS7QYGWFA/3BuiyxWsN6ORzWbs3bcXF/IKR5fbmN9fP4OakSRyuFmLyM9atGjifjG5KhROnM4SisvJ6ENHcz0gmMGJCAYJLjGT9lGRaNIotNbtR4T5/dita7dd9fwDtO1SAgha/B+CjGPHcvHtdxtHDLz90c7Xeg5jX4+rf+e9T33xycKVQ9+etgB3Pfjc62MmxLmzH0UZ8PGT0bhJhHaOlOolYxQVNgdycvLvvJBTVGOjj8vx05o/sP/wcTiZCkHSXtyMM8gyRePIJlkXCstn17SeWx3SfZ2v7lxdymwXP1e3LnXtU1fK45TU1Z5XOn5BT+YV9IGyqje1qb58m9YNYDJrGedEr5snlCK3IA87dm4dmF3IB9X9DGonJ7doVsNGDc9TejEHSmFaUmRubmHn7duO9Pq79gVcDKMQQvU4uiYIBYmgsLwYxRV2KLWqGvw7uSEM+qkKfpNkoQ8UOhhUyeSOF0omGaIsQZI1xSNR1joJgVQy8u4SLOIaomo/CxQmswUKE+FwEjz+4lv+z7w8+b2Dh06DEBNESiFRQBSpWwbVVSZH9IQpTlVwWQWTGUQT0LNz28KK86effnr4zT99Mj3+L5/3q29Maj4s9uFvlq1OabPwh4S+nW56aO3x/LKvXnk9zre29fr0i5Gzzzn8LmQ7wZlJbz1I4aAiHAKBV4BFBUW12L4kihAlEYToSX56fM3uYMjOUVBSevk7/EyFfcK6DVteOJ/v8BJELxBQd10802t2a8tydw++qO750A27ViNMUENuWJ1J3bp5h5en1/sNI0K1uD7X7wdKUFBsEwpL0OvYyQrRybXsbypqf2cfkyeim4SXNA72qbHGOWXb5iO2Ysf4NuHhkJgKQhgIZVAJQ3GpHSt+3kIhhwW0bd+9ptWr8dqkOO8RDzwZ9vCTY4I7du11xTN+f1p8XrPIkK0tI+tXmAUt9ksJ0UrzIGN7yikcOpIB2eKtNZihDIwqCI/wR2TTyM9TtiVurW37IRZyZNiQ7gcbNaznBHVAQTlUwQEiSVC5CVZFQtr+U60atL9l+daTOeuWrdvYpE4nCuD51+J8JsxaFNmy2+1fxM/+Kmb3gSxknC3CqtW/3/HCuDHzXcslJWwu35a0dVyfPh3shCjujoYgApxExNo/knHXvaPf+3ntxg79YmJqvWY9eseIn3/z6y2nMwrGZJ7N1+u/nVpIWxTBuRX9YzqWzp49Z9ul61JBgCRJmsKarrImSZKWJFtXy1x50KV/QaB953QyqLU083IZcO3dBr2DYd0fiqrxeleCsApGK2CnNjhQXXytXpBU2LJlQ4Uzu5ZeTLSyTDtj2H30WON1W1Kiozp1r5MGcO++MeKTz40NG3n/02Hde8aYLv39nJnTtvfo1bGccRWEapn0nGu1/4eOnMKBQ+kTvvzxt0Hde8dcsbKiT0yM+OyY8aEzP/rl+eWrD6R+9tWaXj37xFSxdQmbN2esWPHzeE9PD1AigboafFEVheX5SDt6mjRr3yWgV7/a76l/GzeEQbfZEVBcbg+tcHIwQSufIa7sRNdHL61yvahd/7r/r7/oUNnQg4BzAVYbwZlzhdKRY2eb5eVXgFAtKUqTBQSEKsbcVcdOIYgizBYTLBagZfMgtGxVP27FV++v2Ldjy1Ulb9VE2+jeAjM3a7901c7mx3IcOG+VyfJfEtsuXPLH/UNin/xw9HOvd+3eO8br0vX69ImRx77yRuyRfYfjjqZnQVG1kj5OKLje2jQsIjR7xcrV1YQofHy84evtpZeYuW5wTSRn187jQosWHZv36lX1Bu/ZL8brsRfHd136v8QufyQf8Sl3ymDUApVIYITqLe5EgEiwOtlpBlTLqHZBXAMuevFvSSoPxq6R7QkJpd27tDvTtGEoTJKg1QGLojYzIxKStmVi/8FTEGULqCBA1dMtG4QGwdsjcN72pM3JNW03aUtCRdeodsc7t24CE+cQuBbGYVwAIxZs33HMv15YywWPPzu+6xtvxdXaEKZT1xi/B0eNmdZ7wMhdtwx/ZP2Y19/sVNvyLubPmrqyS3T0z/VDAyGAaTFRQiCKZmzbvgsnTp4F44JmDCiDLDI0bhhY1LVjkx1bExOumG20Ny157IgRN6UH+BII1KmVWREBjFAwTmFTCDYn7Wo+e+7Km0XPiC9HPPB011ffiOvaJyamWtJD75gYeeybkzuOePTFrjHDHni/nJmT5i1cOuDomXxqZRKcgicStx+Ql/+YEP3ihLimAJCUmMCOHNq9v03bBkd9vGRIolZDL1AZhHigqAz48afE9vUbNP/ytdcnR13uPLr1jKFPvjBxMJH9vvx1fXIDxWkG4RLAAAEcImFo1zZSbdvQ71iIr1zNtGpjTXrxo89WrzaBilQy4gCgqqr7PXb5HhSulV2TCa0dMajeE7wuMXR9n1qGkaj9SzUPCKRKQjOV2Lhh0yt9e3XN5qpDb9vKAQpQScbh46exZfvOSXfe++Q9HTr2qGagK/Pam3GtHn78lTsHD7k/JWbQPbtefuX1x2NiYqp096kfUU9pH9X0WL16fowIBFR2vXwlWB0c/1v5eyNGfb987LmJA7v0uLyR7dwthj7+7MSbh9z1SPLmrTtnfjj/y66RzVsv6NKtT0Dl5RITEmy7du46FhYWpIUZ9UbqRBDABRErVm+wNG7W5tPXJk2+ds3u68ANYdDz81UUFdqgqqo+uNRHmZWMdmU4LhZruXCPiokumEIJGDhACcqtHERQe6efPGNh1KT1KqZUfwm6jLguDahleWka8jCBKgzh9SwY1L/NicE3tdp7eF9ynfqdX4kvv/99iOAV8Wni7mMC9/QBPDxQ7ABW/JYsz/5wxSMd+45MfXLcglc27yqKzS7isTklPPZMLoud9s63T9gc3p9+98Mm34LiEhBBAidagplA7ZCoFR07tFT379lTTRkkINAXgYHaGEEQZG3kqmvfJ6fs9goOabTw06Vr7ztv5bF5Th57okCJjZ+37OWO/W9PXbN+e+y5HBtUIkEhApxUAtPdWIRIcCoCEpPPbHrohbeaZjlYbFa5vV/lfWu5MJVKAgXdKyJQXSbzr13PhkFyepfolmd8vLSsYA4CKmiDsuQdu3D85EnIJhNEUYQkSTCbJbRqFoqe3VuWbqklu75lS9O5Ll2bHwkNCoTEBG2kDws48UKpVaS/rEvs4eEdknrvwy+8l2vjIybGxVUppi+0s4EJu3Jib7/ntdc/Xfj7S18vSwr77vvN0e079Xy/Luf17pR4682DWyXWj/DJkwUCV7qBKIooLi5BhbUCClPBKQElCgL8LWjduu22cH/xsrrnldm/J7GgZ8+QzUNu6Wj3kgAzl7WW3oSBUz0TCgJ27jggTJ22MKZF9IDUvoPvTh379mdjVyVlxG4/Xh67YW9O7JL1h2LveWbKY51jhm+O7Dgodca7ix5f+evWkCIrE+0CgV0kcFIJRRUEGzfvbjcsdtTX5Zw3A4C506ZkLPnk4/E9urcDYxWglEGgEijxAIgXdqSdpB9+9mtH2dJg2b70iticEh5R5RpX8Oh5C5Y/UOawLPr085/D8gs4OPMAYWYITIbIABMcGDFsoH3WO3PGT5sSX0UGj7tspttVrg046VUONim5OCAQKIUgCJBNJjgVFXmFRXhx/Bs35ZWxWIXzqsX1+ouMwFVWpx/HVY9yXY5m14TIBFGwoKzUiWfGT+lzspDHFlbwWEXhXQDg0P5dFzpGN01o3qQBo3qTFBBA4RwQZKz7bZNvYZHy2ZPPz3giq0CNtXPetvLebJw3PnbWFnvr8IdXZOXgx7hpXzX4atn6sNCQJvN79uzXovKy702bWv7BjNnj7xg20MlZBSQRmtfVZIYgeSIrx44PP15RP7eQfvHsuHfvP1/MYq2cu/uZXijlDY+cccSOen72Q2cviIvenvp9o2PHC73PZuXjt/Vbw18eO67K+wYAGjYMR+NGoeCwAdSpNVTkAgg8cfJEHlm0aE00J/7Lftt4OvbsOR6bk89jr/KC/+PcEElxx4+fQUFBqS55qLplQqs8SURLd4M+Ea8K1RLiCNMTUfTsbUoBBjicDKFhPhMcqggIXnBCm80QQO9UoY9uKYWiKDCZZDCVAaoTwf4euKVf5+MtmjV/OtKDXKq4dc3sSN0xYWtSchAXTVpHOSpAoAKIJCIzx4qFyxLQOCJsSuP6/gjw1aQwFZXhXHY+Dh1Oh1UFmMkDhEhadilXoCilaB/dmIWH+n3h52OuVu/j5yeiXpAISpnWx52Y3deq0AZ8/n1ig07Hs7719RdBKVBu48g4m4e0A0dhswkwm/zAuEOr6YUEpmvmEy6hwqHi7Pmix5YuX/tYoA/QslHE7wDc14sxgLvalFYafLnqhP9qxqkvIesOnCvbtnrt5nuLS+0gRAYlAqgAlFVol0IQtPIhUZThbSFo1bLhPn9//FnbdgWZ7DyV7fy554G2rQoT9sFmE8CJyyshosyh4vOlm7E1+eT9HTs1vSew6S3LVmx5Kt9ikbBv12F8tfSP+06cygnfe+AkcgqsIJInMnPL8P2KjU0LOR/pT8j/rnRuISL5bNFPex48fvJCn/xiOzghUFUV4Fz3XmkKh6LqRFCgGbcP6Y6Jdbxus6fEc4Vh4gOjXywvzCuZ8EfiAYCKUKlL4YGCCiIEi4hyux3fr07Ar3/uRJMmTd729vKCh4cHHE4nKmxW5OYV4Fz2BZRZ7YBoBjUFaCI8ULQsbskEp9OBChtDQWFFnwoHbgUwHwAaNgg92qFL618OHNh/e06hHSCe4ERyx9RT9hxHZnZ++1692v0gmqVfPllx8FhoaCgyMzPx4eLV/bOyczptSzmK8goRoF6gepcyzhkos6Jv13bo2qH54uN7PKvlSmgThMq5Olr5Hr9Ko+qqHXd9KNWSaZ2KE9+vSMThg6enBXh7IqZvl9UA7nCt5y76ciWX6iVvgkDrLICiyddqlSSopPzIGMfZM/lYuyZh4t7kNDSs54XY4YMXA3jivenx5UUlZXMee+zO+2Z/8DWtKIcWa+YAIMFiDsD6TWmex9ML5+cUlCAk1Dd58cq0bRENgnA28wJmvvtL24oK6y179x/HsYyzsDOgxF6CZT9swGtjXnhcFOnr06bFu99DTRuHno/p0/GLHakHnz2Yfg5U1rx8TkbAqIDzBSX4bNG39Tu2a/5Nxol0OG321W9NX36cijJmvfNVK0bokEPHzuLIsbNQmQSJSgCR8cefiQGDBkTNd3DuIROyzLU//wBPNIkMgYcXQYXdrqk0QoAkeABcxZ8Je3Dk4Kl2HaNa//DnFi8wLSzxr3bB3xAG/Xx2HqwVds1gQ4V22Lrsqg5x1aNrP1RCN/wEulSrNigghEAQJEClsNqcKChWUG4XwAQLqInCqZaDUK38kuqjYsGtmibAJFJ4yITfNrh7hjX/xGN9G7fe8neec6uWDezhIX6sNKucCpChKMTdAYsSAoVTHDtXiPSzheBg+kcBERio4KFdIqL1IaaMQAaFt6cJdw7raV+84KOfPp09o5oY945tm3fc1XrAlwEBvqNzijmIaNIGQQSwwYTscoa1W4+CCgoAAkWVoDIORfWBLMiQIcDbCwgMCkb6iTyoIoEKAjAJjEtIP5WHY6czEejJcVvvGl5ERMtsJbphJaoCV0Lw3/EYfbNwzrRGjZp3OJ6Z0YoIEkC05pNcn4IR/YWtqCoCAv3Qp2/7Ez4msvNK2134ybRFI0Y91+fgicyex08UUQUCGNXuUTsXweCFnYfysTc9R/D2po9aPFNACYOzgqO02I5ymx1EFKHKZihUhV21I3n34foH952eq3JeIhDy+5WOoV/PFvYNf4az4kNnKRG0gacLLghQwEC4A21aNT6Z+Oe6yVdz3d6bFl+69Y/NM977aIViK7e9mrT3iORQOQiVIAgyOBcASKCiDBAzShzA3iPnof35BD15VdVLGD1BTR5ajJRRUKJCEqj2jKlOBPh48NiRd+3duPrb8Ts2i0ddx/DhO/GZsQ/nvDh4QIz/hj929cktU2FXFW1gLWhd084UlOF/v26Hp5fldpN5H0AAzhmKiophrbCDMRmUmCBIMgTOAdUJAgVN6gcrg/r2/vSp+2PfTk1JqFHTVhtYXiyTBbmYdFtno6752i/m9RAKLUFexNFjOTh+LAeBPl4ICW1RbVWKiyE/bYYOd65JXdxXnANck4CHq9cC9EGC4uTYtvUgKOdo1TAQgwYOdq93ZN/Ok116932zX79uUzdt2i1DH3gTLgEQoFIPHM4owtHMLfDzM/Xw9pZ6iBKD0w4UFqiw2pxQuQonNUERGQhUbEndRW7e0/mONlGdZ6FSE5x3Z8TnK4pz5UP3D398zrzv5NwyO6yMg1EVVNDKaRkzIW3fKRzadxq+Xp7DLR5mMAKUlFeg1O6AQgFFIGCiqr37IKG01Irvvl8T1rtXp6EA3AY9eevm3cNGPLqgcePgpw+nZ+mNvkRdUEeEKHsir9iODUlpAOFwsn9/ltwN4XK3Vti1h1+gIJRfvLHdyR3kooLSFeNQ0JKGCIFTUcAIx6HDR/DD/1KQm2cFpzIUBjAq6GphrviKVrJBdb1iSabo27tdRn72odHfLJiZ9Hefc272qZeffmToruimQdxDVWByUsgKhcgACgZCFRBRAZFVwAQIZgFUNgGiBZxa9Kx2gBFNy12WCIbe2i+/vCDrqT3JSTU2iklKSMjv179LatOm9cvMJrNeGysAEKE1tZHAuQRFkaA4zaDwhkh9QLgJVKWwcIYH7xyEPtHNYeY2SFC1YRcRoBIZCjzghA+c8IXKq4ZYXepXcM9gLroVryGhuEZmxscf6B/TrcTiYdLOrWpMxv1ilGUTOkZH2SLCPM7VabtT44+nHz7w8P33374lJMjMRNEBRu1QBAecggIHZVBFEVZGkVOs4NwFB86cdyIr34kKJoF4+MApSnAKHE5BhSoQlJQ7sTPtkJdNRZ3U2JK2bH0lpm/vbBCtIQ8VNAliCCIYtFpjXx8Lht3aq+zg3p2X7cp1OVK2JRR/t+Sj2U8+PuLTfr3bVfh4m2A2iXq5pp6nARngZgBmgMogsgwiC6CyACKYwCGDMRGciaBcgMgJJJVAdHJIiorWjULx+pgH02Q159HF86dven/GxXa4APDj0k9PP/HIsD133d7fZjExiKIdgqxCpQqchEERKRycIq+wHGfO5iI7qwA5OaWw2gFGtFAakSioyMHhgCypiAjxsw2M6b1kzaov41JTahaBcmWSE7cx1sJuF2fOdbuGrth55WoEzdlIwEQRkGUQSa/iqfE4yEV1Of3Arj6GD+juSi1BDhIAGRwyODQJXE4vGq6khISyRfPe+3jI0GEzOkS3LSO6XCvnWh6FAhWQAVUiyCuz4vT5YmScK0Xm+VIUWW3gsgQbAAclcFIRTipChYRtybvq3TR4wPhLj29XStL2wQPaT3ns0eFlwUF+kM0iGAVEkwmi7AFB9oYkB4CIASitkJCdpyArz45ShwAme0ARJThFaM8RVIiCiKDgEGXQ4JtPCAKqaDpsTUwoiGrbIHX4HQNK6wV5Q5YFaJ04neBEAaMMqiBAEUU4RQnMVGuqwL+CG8KgM6Z1vaKcQuAX6zCrfHC5TyWIJu/IBAZGVTC9vvxcTi4Op5+EotghcQWCyiEyCeAmACZwKuhdw5ygsMHXi6NbdIsTFfmnH/lh8awte3fU3rbxWpg3Z+rBssJTo155etjGvh2bnwr2ESCiAhR2MKJCFQBVJCAiIIp6cjh1tRTQysxAVBBY4eXhRP/ebfL79+k78fN3Zy3fnnD5zlRLPpmzuEfnVokB3gBhWuiYU62EjYJp7jamGUMKAkkQYJYE+FkYhg5oq/Tt3mRvgI/EwBQ9kYG6/14cAhiXwCDDKdSgPEtdhW1EX08EgQSuiLp35a/TtkXI3kaBvnbR6dQ1BMQqH8IJvESGLlGtD8+e8na1F87lmDdjyqnynMzHXnr63m2tmvrARK0Q4ADhTqjMAQZVbz5jAidmcGqBEwKclOqymRygDlBYUT/UG0Nv7lY4+JaBM6ZPefuXuux//96kjKj2/rvC63tzlStQiACFUm1IRUSoCkN0h5bOsFCffZ6e0jUFMObPiy/59usPXx3zUuyiITd1T4kI9GCUWUFdXeng6pKn64UzDs5VMFUFVALKRVBGQbh2LwncCQlWhPoA/bu1yhj/4l2bYM8atXzxrMsqiXwyb874u27vt+SW/p13hPgIkLn+TFAGRgggyKCCBYJogcnkpSkDUjMIlUFEUZMlJTaIYgVatgixx9596/LETT88t/zb+bV3m3EZQCpq+uaC1u2RU6rLS18Zs8UELy+z/soStQEykTWtdFHWZKsFDtCqrxMt1VIrl2WUaFUjACRQCIzodfG1QwHIgtaghWstDcAI0T6UQqUEKuVwEhV2VE0Z2bV9S/nPSz6e8ewTj37Su1vrUi8PAZwrWttZgYARJxSmgIGAEQlOppXIEirBoTpBRA5KVRBih7+PhH79ovkjj971R0py6sxLj3NLQkL5h+/NfueekX0/euz+m0ubBnvAhyiQGAeHAE4kqIIIJxVgIwLsABQqQKFasy1GGBgYwBWYJQfatQ7GC8+M3liQez5mxpS337h0f+/NnLb0/tjB8+64tXeJn4cWfuGEgVEORqHN+CnAhZoTB/9t3BAu96DgejiRVQjKtOYn2o3juuldV7n2F75rlM0owCiHyFXIAocoAn6+Aajn7Q1buR25hVaUKxROxQSVyJohFxjAbRBhQ4CvjP59ok5GRDR45tG+3Wst+/krbN+agLtuu+kQgJtTj6q3djyy75Ptu4822XnwBEqcBEzUSpEElYNyBnDtVapyFQQEDtUO2aygRWQYekU3zRs8sO9bHUOunAg1f1a885w1bpXTXtjll/VpwZk5paCSNyhRoTnQtdaInDMIpAKqU0FoPS/cMaAT7hnS7jsfH+/PC4tC1/sF+5nPF9j1UioVDCpUrc8iOJNg5VXLZLRqAgUENgAeIEyCwCkokcAVosfX/zozx02efPvAB4d+8vWacJvJQzMClRC4iib1fCqaBAur7oyPr1NLTgDYvS0Bz25LOPna5LjRb417auFP63YN2Lb7GHLzrWCKCpGKUKECYOBM0w43mSUocMLqKIUsKAjyFtG2dQu1Q9um3z54Z/fUEJM0/4o71nl/WnxpVl7BWzcNvn3o519sEphoAkAgEgqRiqBMQd++HUvnzJ7+1qK579RSIFU7896Nd8x7N/7lUU+PD33pySfmb0/dP2LPkWykZ1wAqAzGAFnS+lmDA5IoaWIsjEIQRDgcDoDbIQoKQsMD0DmqLfp3bnK6Y7uOLzYON11GK/8iM6fE22dOiX/6gVFjGr44+qHPknek3ZaUlo68Mhsge0ELjWmVGSoDiKC1ErardqjMCVkAQkM8EdM1GoNjen+1fMn8CWtXf1Hr3/miax161YeuMaYKUFRAqaOwTPPI+ujWvTW2bd8Fm0PVykmJNlmA6gAjChi3wqlW77NCCIUkmeAUBYAzyIxBVjkkhYOqV96/ABQH+nr/0rVjy0c27zyp62e4pLEBgENhTijECYdQvYRtyUfTnQGe4uuvj3vV8fv6pPEbNu83n8g4jwq7E1TSusdJogjOAMXpBPQ2znZHOQRqh6cH0Lp1Y3Tq3CY19pYeSd8unv/ezBq0HQBgWny8U1XxxphxE/O9wbum7tx77/YDGcgqtoGKJnBKIcgiVMUJpqpaAZMAyIRBYQooc6Bhw1AM7RONuwf3WbPsqwXPzpkdX6O3bWZ8vHNmfPxbWTllhTJo16Onc+5L2p+BguJSyLIJnGtqgKJAAOWaH5t/jBvCoDeLbIDjmVkQMvLA+LWrhrkyRCkHJOZAiCfFgF4d4Rfk/1FhkSNJgtJEFOnM37ccRGZOCVTRSxMZhhNgNoTVM2Ngzw6nOnRoMeq21p5/a8y8Nrq1FH7LtbNRkc0btL8pt93MA8fyvXYfOoXT53KgckXTPOeAqijg4PDx8UZ0s0bo06Mp6gXWe7tzuwYpn86eur6u+3t/WvznYya8Ud4usv6nG7af9EnZfRD5BUVQVBVgXItxM456ocHo1qUdOkc33NKuSdjHn8yf/ScFbC+/+sa7Y58dMmlLykkUFdlht9vd5TkAYLJICKtXtXOaLALhQd7o2r4piNkXHAJElUKw29EwIgDppr9nht4gwg+9u0Ui7VBrFOluw8qI3IEhfduVvjtz+qJr2f7sKfHHJ8W//ZRpZL3OPfq2nXLiREGL7VuP4uSJsygpLdYynEUBRNBkO33MEho2CUePLi0RXM/j+4CgiBVrv1/we8i9fa5awLpeUEBmaFjEnICA4NdzS2xapzwughKGJg1D4e/r9a6vj6XWNpt15asF754PCfJ84b5RY3+8qaDo1fSM3M5HT2UjbX86zmVd0GPODBQSuMogKASyICA80AvtO3RE85YRKLM7pvTpHn2oUwvf8xZKEq5m/99+9UHmos/nPhMRHtCzT++ukw6dOB+VknYQpzIvwGZ3goCCCxROuwLOOAICvdGyVRN079QKLRoHrm0YFrb0m8VzNyycP/2yZZSV8fXxRHS7piizC1CICHBAUBxoGRmBsvN161Hj5yOf6tezxbtEvWf8nr1nUViiQOECOOFQFRtEwQlfT4qw0OpaRMH1AtA1uo3u9uWQVRW0vAzhoX4wm6/8Gp8xLb4gv8g6/oEHnra1apPxVEZmNsrLy+B0asabA1AZR0SEN/y8PWrcxgez4rnFhJnPjX1zd9t2bW7OPJv9TMqOo9i5+yAKCwqhOghUVdHbuwJgHE0jgtC9e3e0al3/jGiSJ/Yb0G1fpCe5opbrzGnxmDkt/r2xYyYH3nfX6J+69M977ERW4c3bk3fixPETUB0MhDEIHGAKBSEc/oFeaN26OTp2ao22bSL3tW3aeEajQHnr5Yx5ZcKDvd5/+ZW3Asa9PO7CLccyXj6SfgYnT51GTm4u8gvyYbPZEBgSgPNXvNLXlxvAiQAcvsBif1yd+MO6zUdghydUXXWsKleeoWu67gwCnAiQ7RgR08YxYkjXpbNmz35t/pz4/K49Yzy+Wfv7438mHZ353do0z5wyBggCBFQgvJ4Ftw3ofqr43NHHvl8we/PB3dW0J/7P6R0TI3fv0z/qbHap+MrEV18ssbFBFTaOsgqGspIKiJKM4FAJkoTD01574/W2rSJwYMf2w9sraWPXlX4xMXLPPv2jjp0uFp8dN+ZZm1O4tbhMQWlpGURRRFCgJ/z85LzdySljT6fvPjFvRrxbQrRvTIxvl54xLU9mFqC0xAanwwHGmNugU5HCL8C3+Odl89xJT736xXg2bxPdNv3UeRDRpEl8MgKqqGjaMAhHD+06mLI94do6cVSiT+8YqXPnXlEH07MlK0M1dymBihaNw5wH9yYfSE1J+EsliK9MjmtTWOT0atqsbbd+/fu/WVHhRF6eHWXlVnhYTAgI8ITFTEo2rv9tbFZmem69AI+zc2fGX3Or3RfemNys2833rZ41d3VrG9PEVwQmgCpleGBEXxzfva7v0k9n/+1epfFvxLUoq2B+mdm5eGrc2AEeFnmM3caRm2dDaWkFzJKIMD8vBHqL8PKgRye9NWVCRP1gpO3cejgl6ervzUsZOyGuVXZusU/T1q2j+998S3xevoqi4nLY7XZ4+1gQEOABby/RlrBx09isk0fPBQWYzs+Kr7tUbJ+YGM+20V3aHj56Dg6FaDN0DhDOEODnhVPH9h48sj+1TvfmG3Fx/kXF9uanM/NRUmqDyrVwFmMqKGGQJY7GjSKKvvrsPXeeS89eMd6Nm7VrfeJsHiBqaocC54DDjhZNG/Ajh3cfSE5OsNZl/y9PiAsqLrE2yc7OhdVmdSdPchAwxuHhKaF9VLPcebOm1iozPW5SXD2bjTUNb9TKq1dM7/eZooYUFthw9swFCISiQYNQ1PMXUWG1f/rpRx/+1qBhsHXHtsQD27cmXFO454UJcY1yC0pDwhs2bnDb0Nvmlpc6pcKCYpSVVsAkWRARHgQ/XxGJW/6YdOzowf0B/t7F702LP3rlLVdlwhtxAU4VzfLySxEV1TZi+PDb5pZXOEyUMJjMMtpG1q9VT+J6c0MY9LOl/KY1v+/45vu1e0IKbAIUTsCh1XFe5HIG/WIsnXEGQjkkONE8RMaEx29NWvXdh0Onxce7Z0OvxsWZhz844d2vlv/6/IGTF6AyFS0a+WPYrb1OXThzYvSXc6dt3ZeaeN19L6/FxfnZnPBwKIDdzmGzOSBKInx8BIgiHB9Mia9TO8e6MG5SnK/NAU+bncFqs0OgFN7eJphkqMmJm3O3X9q0xKAKvWNizN379A9QFaC0zAmbzQFZEuHpZYIkgiVv3ZybvDXhL91TvfvFCLGjX7kjs9Dzh9W/pwowyyBEgKCI8JMdGP/8rRkpf/x415xp8X+7HnZlxsfFWRiDv1MBSkudsFntEEUBfp4meJooZBmOqfF/371Zmd4xMaZuvfsHlldwlFfYoChOWCxmeHnJkETw5C2bc7fX0FnO4Nrp1S+G9OrXPxiAUF7mRGFhKbSGSr7w8qQgBEUzr9Cr/Sr3J/bo2z/IbmOkorwCVqsdsijD398bsgxs37o5b2vi1XVlvBwxMTFi35j+QSq7WEwwLf7aB9z/BDeEQQeApb8dee/nTbvHHj1XDi5IEIgIViV2dWWDrv1PhYkCvduHYeIz/f4M9pIGXrrG+XI+a/GSX1/buf80GtQPyx1yc4etXTs3/iCQ/H115gYGV8vkuLjQyXFv+4qUVJt5vDD2zYA773tm99uzf2hU6KSwUwWKwmCGBZ1bBOLBu/s+MaRPw3+0+5+BgcE/yw2R5Q4AXTo0QUSYL0wStGQI7irj0EpI6pTl7v5Wy7i+nD9VcDBE+Hni1p4d8gZ2i3711i5N7jaMucH1Jr+gpEvS9r2fHz19fsYbk+OqdFa5856XRv3vp2S/UiuDomr1mxaLCZIItGgWis7RDa7XYRsYGPxD3DAGfdH8GQsaN/RO8/dQYCEiBJjBuBkqZDAuA0wCmFZ6xEAv+Wj1myrlcAocDs5xJrsQ6aec9KXX4qpllFhkOAf1jy7xkotfmvbGw8tqOh4Dg3+S196Ma3rPI8+8vfCbTX2//l/qa4PvH7PipNW5PtPqXP9dwpn1y1YnTEpOP+1rlT3AJR8Q7gEoKoJDBER1bPHbezPf/u16n4OBgcH/LVfsXPNvYfuWhPx5n83rXVBQ3vpCtlVwctHdH4hrjc51YRmXG75q7gUh0DqkgUPgAlSbCq44gu6OvcPHqainbr75Jl+Boizz9GlGBXJwx47t36z4cdm25G2JRszN4LrSKyaG9hl8Z7cjp8rGJe46TU7lOsiWHQcbJKedivztz4ORf2w5EJmZZ7OUQoZCLCDcBJkDHpINXTqEW4fe2vWn+4fctOp6n4eBgcH/LTdE2ZqLtJSdLw/q292zIDf5jrSjWYKdAExv06nCJWeot/DWuxC5XRCEgHIOwgkIp7A5VGxJPuRZXFb48ohHnn+6R1R47rw5pN+WhISsaVPjcwDUWCNpYPBP07Fbb7/m7aLnvv3Oj1Q1+0MlFpQWW3G+6Dwo0bpnaUp8WiMdyhlMcCIy2N92e/+YpZ++M3Xq9T4HAwOD/3tuGJc7ANx/28DC5QvnPnvXkO4rurcLg5+owAN2mOGESBgI5wAnYAAY5xclG/VyKc5UEO6AABsEUg4fL8DbArm0uDDZqTh/BPC3ZWMaGPxdjHvt9aF/JOwJLrOrUKkAlRCoEMFhggoZTq51jpMECjNlkHkZQnwY7ru9x/lvFsx6/YPp8dV0+w0MDP573FAzdABY8EF8jizh5QdGv+xo3jD8odS0o8jIzkOJwwFCTVA5BVMUvVmJ5oYnogRwBrPEEeAro3FYEFo2DkHzRv6HAny9ZzZpGLi1vjfJuN7nZmBQE2azqaJpowjm43kKRTY7OAcEQkGoDICDMSdE2GChTkhEQXi4CQ8M76H269X0/T3J3n+5dt/AwODG4IYpW7uUsa/FheYX2hqPGT/+3b1HL7TYczQT+eUOz5Jyq4cEQNRj6JIoQhRNhb6+vkqbVvXRpoUvtvzxZ9zBtN1pAX6mkg9nxR+6vmdiYFA7XXvFiC+Mmzg8IjLqk/+t3+91ID3Ds6KcQlUpTGYZKquASXTAQhzo0CbS3qVDu88S1y5evi9t+/5tWxIMr5OBwf8n3LAG3cVrb04Ozsotl8+cL8DMBXMfkGVxqIVcdD2IhOD7b3+O+3395uPhof4ICTIjZevm3KRaGpQYGPzb6BMTI3XuERPy0NgJsRfy1Tv37y/DieNnUVCQj9BwXzRrEogubYMQVk/eM3PyjLe++HhmnSRNDQwM/jvc8AbdwMDAwMDAwDDoBgYGBgYG/wkMg25gYGBgYPAfwDDoBgYGBgYG/wEMg25gYGBgYPAfwDDoBgYGBgYG/wEMg25gYGBgYPAfwDDoBgYGBgYG/wFuOIP+2Atv3v34C2/2AeCHG/D4DQwMDAxuCGy7UxMzvpg//cu01C03RLOuG8YgPvbCmy0ef+HNzwH0u97HYmBgYGDw/w3Fu1MTX/1i/vTP01K3XO9jqZUbottax259YRhzAwMDA4PrgG+nbv0+6ditX9frfSBX4gYx6P0GwjDmBgYGBgbXB/HxF95843ofxJW4QQx6317X+xgMDAwMDP6/5l8/qbwhDHqnbv2k630MBgYGBgb/X+N7vQ/gStwQBt3AwMDAwOA686+3l//6AzQwMDAwMDC4MoZBNzAwMDAw+A9gGHQDAwMDA4P/AIZBNzAwuG4cObAbT983AKdPHr3eh2JgcMNjGHQDA4PrRn7ueRzYkwLF6bzeh2JgcMMjXu8DMDAAAJu1Amt/Wop9u7bBZq1ASFgD3HrHA2jTvot7mZStG3Bo306Mfm5itfUXfzQN7Tv1RNfeNwEAOOdY+MHb6DdoOPwC6mHtiiUozM9F936DERQchsSNv2DEg8+gXnBYtW2lbtuEPalbMPq5iZBkEwDAWlGOX1d9g727kuB02NGgcXMMG/EoGjRuBgA4l3kSa1Z8jcHD7kXT5m2qbXN3SgJ2Jm/WtinJAACHw44Na77Hzu2bUVFehuDQCAwaMhIduvSutv6u5AT8uX4lci9kwcvbF91634SbbhsJUapa0fnt4rmIbBmFDp17YdX3X+DgnhQQQtC+c28Mjx0N2WRyL3v04B5s/v0nPPHiWzh6KA1rVy5Ffu55BIdEYFjsKLRo3aHacRQX5WPNiiU4vH8XOGOIbBmF20eOQlBIeLVls8+dxtoVS3Ai/SAEQUCzVu1x+8hRCAwKgdPhwKKPpuJc5kkAwA9LPoZfQD0AQMzgO6r83Wvi5LFD+HXVNziTcQyyyYw27btg2IhH4eVdtbKouKgA61YuxeH9O+F0OtGoaUvcdueDaNS0RZXlKl+LtB1bsH71dygrLUbrqE64d9SLMJkt2J+WjHUrl6KoMA9NIlsj9tHn4R8QVOtxGhj8kxgzdIPrjqoqeGnUbVj84TRYLJ6IaNgUh/btwNP39Ufixl/cy+1OScR3X31U4za+WTwXaTu2un/mnGPJgjlI2vwrnhjZF4kbV2PvriQcSEuBX0AQln7+Htb9tKzGbX323mTs353sNuYXss9i1F09sHj+NJjMFgSFRCBp86949M7uSNm6EQBQLzgMq75bhOVfzKtxmwvnTcGhvTvcxryoIA9P39sfs996AYX5ObBYPLA7eTOee2gwli58t8p5zHn7Jbw06jYc3LsDnl7eyMvNxvSJT+G5hwahtKSoyn5WfrsQyYkb8NKoIdi07n/w8vFDRUUZPpg+HvGvjq6y7In0A1iyYA42rvsR45++G2UlxfDxC8DWP9fh6Xv74/CBXVWXP3oADw7tjJXfLICPrz/8A4OwbuVSPDK8K44d3ldl2a1/rMVDwzpj1feLIYoiFEXBt4vn4uHhXXDy2CEwzpB5Kh25F7IAaMY/81Q6Mk+lo6y06jldyqrvFmHUXT3w528rYTKZUVFWioVz4zH67p7u7QHAsSP78ODQTvjyk5lwOByQTSb8vuY7PHpHN/y66psar8XK5Z9jxhvPgFACQgkWzZ+GOW+/hA1rf8Drz98Du90Gk9kD3y+Zj5cevQ2qqtR6rAYG/yTGDN3gunMgLQUH9+7Ap99sQvvOPQFohmzdT8vQuUfMX9r2soXvYsrcpeg36HYAAGMMlFJ07h6DX1d9g4efGg9CLvYoOn70AI4eTMNbsxe5v5v91vNgqoplv+yCf6A2I1MUJ8Y9eQfmxL2IHzYchMlswS3D78eaFV9jzJtz4Onl417/TMZx7N+djPj3v3Z/9278yzibeRILv9+MVlGd3Oc8b+YE/PLjV7h31IuQZRM2rPkBq75bhBdfn4X7Rr108ZrtScFLo4bg03cnYcKU+VXOeeW3C/DUmLfx4BOvuL9bPH86vpg/HVlnTiG8QZMqy3/92TtY8nOq21tRUlSAe29phxXLPsOkWZ/r103F5HGPILx+I8z7ch0sHp4AgIryMjx1bww+mD4eHy/7HQCQl5ON+FcfQ7uOPTBz/vfuZfNzz+P5h27GxrU/4qkxcZg5/3sk/bkOE54diZcnvoPIllFX/HseO7IP7099BYOH3YuJ0z+DKGqvsMyMY3j2gZuwPXE9hseOhqqqiBv7KLy9fTF/VTICg0IBAE6nA1MnPI53Jr+ADl16Ibx+1WuxfvW3WLZmFzw8vQAAX34yE1/Mn4H9acn46qdktyfi91++Q/yrj+HgnlS072wIWRr8OzBm6AbXHc45AKC00syMEIKhdz9cxTBeC+069XQbcwCgVLvlh414BJmn0nEgLbnK8r+uWgZPL2/EDL4DAJB15hRStm7A/Y+97DbmACCKEu5+4BltZnkyXdvmyFGwVpTjj99WVtnmbz9/Cx8/f/S9aRgAbca/+fefcc8jz7uNueucnx8/HV+sTIKsewd+/mExmjRvg3sffbHKNqOiu2Po3Y/gt5+/hdVaXuV3IWH18cDjL1f5rlf/WwEAp0+lV7tGDz81vkrowccvAFEdu1dJVNuzIwkZx49g1LMT3QYaADw8vXD7yFHYt3s7KsrLAADrflqKivJSjI+bV2XZwKBQfLb8Dzw1Jq7aMdSVFd8sgCSbMPat993GHAAaNm6OZWt2YXis5oXYs3MrTp88iqfGxLmNOQBIkoyX35gDRVWwbmV1D80jT7/qNuYA0K5jDzCmYtiIR6uEFdpGdwcA5Jw/d83nYmDwd2PM0A2uO1Edu6NFm2jEjX0Eg4beg649B6B9l94IqiG+fbW0atuxxu/7DhoOL29frF25FO06aV4BRXHi91++x4BbR7gNUfrhvQCA81lnsPqHL6psIzsrEwCQn38BjZu1QrOWUWjTvivW/O9r3D5yFADNI/Db6m9xy7B7YTKZAQBHDuwC5wxdew2sdlySLEOSZffP6Yf2YNCQ2CpeBBftO/fEym8XIOP4YbRudzHm3CqqEwipOlb38PAGADjstmrbad2uc7XvPDy8cSH7rPvno4fSAAAnjx1EXk5WlWUzM46BMRWFBbnw8PTCgT2piGjQBPUbRVbbritOfq0c3rcDbdp3rXGgVzmenX5oDwAgqmOPassFBoWifsOmOHJwd7XfNW3etsrPgj5ouDSfQBS07w2Xu8G/CcOgG1x3RFHC/CW/4YclH2PLpjVYu2IJOGfo1nsQ3py1EIH1Qq64Ddcs/1K8ff1q/N5stmDQ0JHYsOZHvPzmHFgsnkjesgEFeRcw9O6H3ctVlJUCALZs/AVSpYQyF5Eto6oYl+GxozDrredx6vhhNGnWGmmpiTh/LhNDRz7qXqa8tEQ/Nv9az0lVVVSUl1VL9HLh5aV9X64fo4ur9WrUZfmykmIAwPrVy0FodcdeZMso94ClvLTkiud2rZSVlqB+o2ZXXk4/3stdO08v32rXDQDMFo8al6/saTAw+LdiGHSDfwWeXj4Y/dxEjH5uIkpLipC48Rd8MH085k4di2nzvql1XYfdVuPME0C1mWplhtz1CFZ9txiJG1bjluH3Y93KpWjYpAXaVZrVWXT36xszFqBdp+qzvUsZeNtIfDjrNaxduRQvTJiBdT8tQ6uoTmjeqr17GS8fzciUFBXUui1BEODh6YXS0uIaf+9KHqtmkGuYzddGTbP/S3EZxvcX/YygkIjal/XxRc75s7Uuc614+fii+ArXzbUcAJSVFtdojMtKi+o0MHBzldfU4P+1c+9BUZ13GMcfQWAhgCgiqNWA4g20LihrEsC0XqIo3kCT4L3RZtTRVOuljc6oaDBTrdYoMzppa0xNbWa0HRPHxBpTI8YbRvAe0mqxGjVaVEBEEHbpH9ot29V4qXXlzffzF3POy9nfOTPwnPO+v7PwBNbQ8USouFHu/DkoOET900bphdSXdDRvr3O7j4+vqior5HA4XH634Jj71On9iO2coFZtYrTl9qtIe3Z+rJTBI1wCLrpdJ0nSkbw9br//72nm2p4KDFLPlKH684frVVp8RTs/+UCp6WNdxrTv1EVeXl7a//knbscsv16mje+tcr6X3TYmTsfy991xBuLwwT3ys/grKrrDA5/7g4rucOuG5GjePrd9FRXlKqt109HR2k3nvz6tf/zdfb3+i707dLR238Lta+2ocbiNvZPYzjadOHLArbtfkj7btkmFfzshSWoXc2up5Wi+e71Fly7o3JlCl/4FwAQEOjxu84a1Gj8s2WXNtrq6WoUnT7g0a0W2bq/Kygrl7t7u3Haj/Lp+s/INeXl7P9Rn9xsySnn7c7Qme5Hsdrv6Dhrusr9FZLTiEpK1fs1ynT5V4LLv3VWLNTK1iyr+qyltwLCxulJ0SQt/Nl41jhr16j/UZX+T8Obq0TdNG9et0rFD+53b7fZqrfzFz/XrFQtVUXHrBmfIy+NVePJLvf/OCpdQP3Jwj7b8aZ1SBo+46zTxoxSfkKzmLVvp7bcyXV4NczjsWp41UxMyejjr65c2SoFBDbR43mSXae2LF77WotkTtHnDWue2oOBbSyKFJ7+UdGvppOpmpXP/9i0btPG9Vc5jp4+YoOrqKv0y8yeqqrrpHHfqr8f05pyJ2rFtkyTJ2jVRkdHt9fby+Sq6dME57ubNSv0qa4bq+/io/5CRj+ryAE8EptzhcdHtO+ly0UUNT7HKaktSYGADFRzP0zfnzmjRyj84xyX16K+WUW00e0qGnu3eR75+FuXt36mXxkzR+bOFD/XZfQa+rNXL5uqPv1+tZ5J7q0mE+3Ty7EWr9drYfho75BnFJXRXUHCICk+eUOGpAk2dvUQWf9cp3djONrVu21F7dm5Vn4EZztCqbfrc5Tp3tlATh/eSNSFRDUJCVXA8X0UXz2v+0rXOKe6e/YbqSP5eZS9+XVs/XK/I1u11peiiDh3YrY5WmybNeOOhzvtBedevrwXLfqefjh+kjBSr4rsly9fPX18dz9c/L55X5tJ3nTMboY3DNX/pWs2dNkrDesfI2jVJNysrlJebo4hmLTVx+gLncTt06qLmLVtp8dwp2rntA50/W6iExF6aNGOh7PZqLZg1TnZ7tbol9VaLyGi1bhurWfNXaknmazpycK9iOyfoWmmx8g/sUkdrNw1/ZaokycvbWwuWrdO0cQOUkWJVnC1Zfn4WHT20XyVXivR61mo1/V7kY7l2wOPycI81j9m4yXN+KOl/eyEZT6yw8GYakD5GjcLCVVZaIrvdru/HP6cZ85a7vONb38dHvfu/KIvFX8VXi2SxBGjkq9PV7/aTVqzVpma1/0nXq6c4W3dFNGtx18/2DwhUaFiE2sXGacCwH90x0IMaNFTq0DEKC2+ua6XFqqqqVLuYOE2dvUTP9x54x+PeuHFdB3Z/qmlzlqpp86fd9vtZ/NVvyCi1iIpWaclVVVdXydo1UTMzV8jaNanWKdTTs937qEu351VZcUNl10oUGhah4eOmadKMLFks/m7HjrXa1DKqjdt2i3+A4mzJLp3mjcLCFW9Ldn6JTm1RrTu4dMA3btJU/dNGK7hBQ5WWXFWNwyFrQpJmznvL7dvtWjwdrb6DhsvXz08lVy/LEvCUBgwdo+nzliso+D8Nc97e3vrBC4NVU+NQWWmxotp0UGr6aDUMDZOXl5caN4lQp/jnlNQjxXnD0DbGqp4p6apXTyopuaqQhqF6cfQkTZ71pnxvN+ZJUqPQJkpNH63gkEYqKb4iR41DtsSempW5UnG2ZLfzvdu1CAwOUbwt2a3BztfPojhbshrdR9MmzLAmOyvT0zV8mzrR6bG7oDxT0lxP1wHcr0VzJurwF5/r/a2Hv7UxD0CdUZPYPuCJ/mN+oosD6qJvzp3Rpx9tUFrGq4Q5gMeGNXTgEdi94yN9tm2TLP4Bytm+WS0iozU448eeLgvAd0ideHzIy82pvPcowHN8fH1Vdq1E584WKjV9jFas/dj5RSsAjHDZ0wXcS514Qs/P3fWXeFt3T5cB3JUtsZdsib08XQaA/5/t9x7iWXXiCX1NdtY+SZs8XQcA4Dup/LfZWfM9XcS91IlAl6TJo/uMVR24QwIAGKU4LzcnfU121lf3HupZdeK1tdpemTwnbdzkOUmSQlQH6wcA1AkVebk5p9dkZ72Tn7vrkqeLuR8EIgAABiDQAQAwAIEOAIABCHQAAAxAoAMAYAACHQAAAxDoAAAYgEAHAMAABDoAAAYg0AEAMACBDgCAAQh0AAAMQKADAGAAAh0AAAMQ6AAAGIBABwDAAAQ6AAAGINABADAAgQ4AgAEIdAAADECgAwBgAAIdAAADEOgAABiAQAcAwAAEOgAABiDQAQAwAIEOAIABCHQAAAxAoAMAYAACHQAAAxDoAAAYgEAHAMAABDoAAAYg0AEAMACBDgCAAQh0AAAMQKADAGAAAh0AAAMQ6AAAGIBABwDAAAQ6AAAGINABADAAgQ4AgAEIdAAADECgAwBgAAIdAAAD/AvQ/f3Q/3pcOgAAAABJRU5ErkJggg==";
@@ -10,14 +23,16 @@ const signature =
 "iVBORw0KGgoAAAANSUhEUgAABdwAAALNCAYAAAA1GKPUAAAABHNCSVQICAgIfAhkiAAAIABJREFUeJzs3euV5Mh17v2Ha73flR4ItEApCwhZoJIFJ2jBKVogyIISLcDIghpZgKYF1bQALQuyjwX1fkBBlZWdFyBixw34/9aKNcNhd+YGEpfARsSOPwgAAAAAACC/o6TDyr/TRohDkr6t/PM/PhoAYOf+kDsAAAAAAABQlfbB//4HTcnzS4cb/30Pvl35bz8l/f3iv33/+O/3/h4AoGAk3AEAAAAAQHvxz/Ok+Z4T5SU5T8b/7eOfPy4aACAzEu4AAAAAAGxfe/bPOZlOIn175qT8d0n/T9MI+fl/AwASIOEOAAByunzQv1a79da09FuuTc8+f9DkoRMAsEXzPbX5aP909t/W1kXHNs3J+L/pc0T8t3zhAMA2kXAHAAAxNB/tPKH+p49/ljSa7nwU2P98/POydioAACVp9Xkv/UdN99s2XzjYgB8fjUQ8ABgg4Q4AAHzNI+ZafY5Cbz5a7eYk/N80PXB+yxkMAGB35oT6fK/9k7Zzj0U9fmjqD/1dn4MSfmSMBwCqQMIdAAA80urzIX/PD/zfJP33xz8pSQMAsHCeWP9HfU2yAyU6H5RAEh4AriDhDgAAZvNDf6up7mujckq/lOaHpP+S9Jt4yAQALNPq6wtsEuvYisuZgZTnA7BrJNwBANiny+T6XA4G6/0u6a+i7AwAYMILbOBz9Pv5SHgA2AUS7gAA7MM8Rf1PZ/8OW98l/YemBDwAYB8a/XqPZdR63b6t/PONGLSwxE9N+/Z8FDwAbBIJdwAAtqnV58N/Kx7+U/om6S/iQRIAtqYRyfXcfuhrKbcfkv7n4s/cKmfyLUZAK1w7XubZEOf+6ezPXfv/t4IEPIDNIuEOAMA2tB9tTrAjv//UlHgHANTnoK8vr0mux/Ht458/Jf397N+/X/kz+NrHm//9H/SZlK/5OP2paZbgnID/kTMYAAhBwh0AgDrNtWEZwV6275L+LEZtAUDpWn1Nrjc5g9mAeZT5D32OQP/28c8fIpka2zwy/nyE/J8+/tnmCMjDd03HzH+Lly4AKkPCHQCAOhwkPekzwd7kDAar/NSUdKe2OwCUodHX5HqbM5hKffv4598u/vetci4oy2VC/h81nRdtvpDuOh/9/rs4xgAUjoQ7AADlOmpKsv+rtlu/c0/+LOm33EEAwA7NSfV/Ei+tl5rLuvzQNEL9+9l/I9m5bXMSfk7Ez/9e0mzK8+T7j7yhAMCvSLgDAFCOuV7sv2pKtJf0YJPLt7N//9ud/++R8wfFnLVOSboDQHyUXVtuTqr/XZ+lXr5liwYlmxPxrb4m4nP7Lum/RPIdQEFIuAMAkFejr0n2PZlHyZUwHX2u13vUNAIyZv1eku4AYKsVC4c/8k2fo9Xnf/+RKxhsSquv/aecSfjvkv4qys4AyIyEOwAA6TWakuv/R2WMDIrpx0f7mz6notcyHX2ecfAnTb9XY/jZ/yJGEAKAL0aw3/ZD03327/q85/7IGA/2qdXXMk45ztHfNS24+luG7wawcyTcAQBIo9H2k+zfND3Yz7Vev+UMJoJG02/4fxWefP8p6Z9FEgQAlmj0ORusFQn22Td9loPZ4n0X29Ho60uyJuF3zwuu/lXTeQIAAACgYo2kTtIo6X1jbZD0Islpuy8Q7jlK6hW+DwEA1z1pus9s8R7KfRd712g6lnulPcffPr6Xl3YAAABARRpJz5o69Lkfzq3aqOmB6Fk85F9qFJZ471IHDACFajTdZ16V/76Xu72J+y725ai05/9J0znG+QUAAAAUqtG2kuxvmkbRPYkRQEsd5ff7n5R2WjUAlKQVo9hHTUnGTiz4CsxSznAZNI16BwAAAJDZQVPnfAsj8Uiw23nR+v3fZ4kUAPJ40nTdOyn//S/3PbcJ25XALhw1vZCKPbBl1DSAhr4wAAAAkNgWEgWjSLDH5LT+N2kyxAkAKWzpBfXadtI0erYTo9cBC43izyo9aTpn6SMDAAAAETWqe8r7SVOiw4nEbipO636jlyxRAkAce02yz/dbaq8D8TWKm3wn8Q4AAAAYm5MFtdZlf9P0kMADfz6dlv9eQ54QAcCU076S7CTYgTIcFW9wDIl3AAAAIFCrqWRM7od434d+Jx4ISjJo+W8IADXaQqm1tfdaEuxAuZ4U58UfiXcAAABghYOmh+dR+R/m17RRU5LjyX6XwEij5b8nANSiUd2l1ta0QSTYgRrF6t+fPj4XAAAAwBWxRsDEbKOmJAcP/vVYeozxmwIoWe2l1pa2N0332dZipwEoQow+/ygGvQAAAACSpoRBp7pG5VGPvW5PWvY7t5niA4B7jtp2yZjTx/Y5sbA4sHWN7K9ng7h2AAAAYKda1VWb/U3TdNXGflcgAxLuAGrjtN3R7LzIBvZtHoBjmXjvRH13AAAA7MA8/X1U/of7JW0U5WK2ahAJdwDlazTdh7Y2mv18YfHGZlcB2ADrZ4VR9OcAAACwUY3qmf5Okn0fSLgDKFmrumaBLb2/9qLGMoBlnOwS7y9itDsAAAA24knLEpu521wvliTAfnQi4Q6gPE513DeXtnnBU15iA/DVyWbQzij6dgAAAKjUQVOt81H5H/QftXk6O/anEwl3AOVwquO+uTTJzponACxZ1nh/SRs6AAAA4K9RHWVjRpEIACVlAJTBaRuJdpLsAFJoZFNu601crwAAAFCwVtNI8dwP+/faXDKGKe2YkXAHkJNT/Yl2kuwAcmk1XYNCnw8oJwkAAICiOIV3dGO3QZSMwXVLZmLwggaANae6E+0k2QGU5Fnhs2spMQMAAICs5vqJJScLRk0d5ybKHsAWHLTsWAIAK05l3zsf3Vc7cV8FUKZG4bNtXzX1DwEAAIBkGk1J7JLrs7+KaaFY5kkk3AGk0WpZCavS2knTfZ+ZPgBq8aSwZxXqugMAACCJRjYLE8VMCHSic4x1XrTsoQsAfDUqf32Ta42X1wBqdlDYS86TeNEIAACASFqVPSJvELXZ4W/UsqQTAKw1l17LfZ9c0+a67JRTALAVzyLpDgAAgEI8qdxE+0nTaPsm1sZjF45adrx1meIDUK9W9dRpn++pJJUAbNVR/tfkk6ZrOgAAAODNqdwkwfgRHyPvYGFJOZl3kYQCsNxB9ZSPeRP3VAD7EVpixiWPGAAAANVzKjfR/ipGlsDWQcsW0xpzBQigOqGL9KVojGYHsHdLB1xca1w7AQAA8NBcX7bERPtJU4e4ibTt2DenZcfhS6b4ANSjhlHto6jNjv04aBqo0Yp+JK5z8n8+IekOAACAq+ZEe4kj8UYxxR3xjVp2PDaZ4gNQh9JHtQ8fMQJ70GiawXEtSdqJviW+auV3/SbpDgAAgC9KTrSTFEAqTsuPSQC4JaQsQezWixeG2JdnPT4v3kTSHV8d5fdcNIpjCQAAYPdKTrT3YpQI0hq17NhsM8UHoGyNpsRd7vvnZWMUL/aq1/LzZMgUI8rlm3R/yxEsAAAA8is10T4nBZpI2w3c4sQDOQB/rcq7p46iPjv2a02yfW5NjkBRNN+ke58jWAAAAORRaqKdpAByOmj5OdHmCRFAwZaUrEh9T3UxNxgonE+y/V3TuQxc8k26uwyxAgAAIKGSE+0u2lYDyyyttzzkChBAsXwTe9xTgThC1lDo0oeLSvgk3VlEFQAAYKNKTbQPYqQwynDU8uO2zRMigAIdJL0q//2URDvwySnsXOpSB4yqPGn9MUU9dwAAgA0h0Q4ss3SBwyFXgACKc1AZi6OeRKIdmLUKP6e6xDGjPj4lxLocgQIAAMBOqYn2XixEhfJ0Wn4MN1kiBFCaEpLt8wLjrHsCTBrZ9H1d2rBRqV7rjy1KywAAAFSqE4l2YKk1pWS6PCECKEwJyfZeJNqBS1bnJUlRLOFzL6C0DAAAQGWcpvqtuZPrczuJRDvKtuZBaRTJLQCTQfnurYNIBgLX9LLrvwJL+Syi+pwlUgAAAKziVF6ivRPJSZRvzcP5U+LYjprOo068tAJKYpXUW9tGpb8OAbVwsjvX+rShYwPW1nM/ieckAACAYrUi0Q74clp+bL8mjOuo66NnXcIYAFzns0ieRevEvRW4xWeE8b3GDBL4uNZ3e3RdBwAAQEFa5Z3OTqIdtVvzcJ5yFFL3IJY2URwAftUq/f11EDNcgEcs11OgvjZ8NVr//NRkiBMAAAAXbo18JdEOLHfQupkhKUo4HDSNol+SfAOQ3kFpFyM/iRq/wBIvsj33KNuEEJ3WHW8vWaIEAACApGn0Q6/8CXYS7diCQcuP9T5BPEetG50HIL0lL8Ss2qu4vwJLPMn23BvSho8NWvtyllruAAAAGRxkP3KHRDv2rNfy431U/GPdp+4sgLSsk3r37rGMageWiTHrhNrtsLB2rY8uS5QAAAA7dNDU+Uo5fZ1EO7bOqawHbye/cxxAWqPi32ffRC1fYA3rWSeU9oClNfeNMVOMAAAAu+KU5uF+aetFoh31WztCNfYoU7cynrkNkeMC8JVT/PssiT5gHetZJ5T1gLVO645B1g4AAACIpFV5ifYm4vYCqawt2/IaOZ61U41TvggA8FXM+/JJU0IfwHIxSsm4lBuAXVh7nMbuewIAAOzOUesWcSTRDiy3Ntn+prij3PoVsVxrTcTYAHzlFO9eO4p60YAP61IyQ9rwsSNr+3zMsgAAADDQKDz5Zv3AwcM/tuSgdaNTT4p7DoSe728RYwPwK+vE3vm5TGIFWC/GAsZNyg3Arhy17lh0WaIEAADYiNIWRB00lbMBtuSgKam15lyIWT8zNNnOgxiQ1kEk24GSxCgl06XcAOzSqOXHI2VlAAAAPDmVk2gfRaId2+STbI9ZG90i2T5GjA/Ar2KMpO2TbgGwLdYzTpg1hhRetO645IUsAADACq3WJwBjJtpdzI0FMvJJtsdMglkk29/FKDwgtU72yT0SKYCfGC/A2pQbgN1aW1Ym5mxLAACAzWgUrwbs2nYSSTtsm0+yfYgYj1Wy/SQSdUBqlvduku2AvxilZF6SbgH2bs3xy7EJAABwx1ynPXeSfW6deNjHtvkk22MlwQ6yXRC5ixAjgPsG2Z3DLEgO+LMeuDKKPjHSWtMnpNQRAADADU7l1GnvNY2yB7bMJ9ke64HbJ5Z7jdHtQB5WCfc+deDAhsQoJUPJDqTmtO4Ypd8HAABwplU5ddoHMaIO++CT4D4pzvlhnWx/F+stALlYJdy5FwN+YpSSeU26BcBkbR33NkuUAAAAhWlUTp32UXTSsB9bT7aPEeIEsAwJdyAv6741M8aQ05qXR12eEAEAAMow12kvoXzMSYyExb5sPdn+Ls5pIKdeNufxkDpwYANilJJxKTcAuDBo+bHKTAwAALBbT5pGn+ZOtL+LBVGxP0f5veiKUbc1VrKdJB2Q17Pszuc+cexAzWKUkuGeitxetPx4ZeFUAACwO43sppmHtlexICr2xzfZ7iLEEivZ/i5KQwG5ra25S9IdsBGjlEyTcgOAKzqtO24BAAB2YS4fkzvJ/q4p4d/G3FigUK32kWwnMQeUYZTtuf0maroD98QoJfOcdAuA61qtO26bHEECAACk5ESddiA3J7/zxkWIJWaynZF4QDmc4pzjXbpNAKpBKRlsWat1x26bI0gAAIAUjiqnfEwn6rRjv3xrKbsIscRMts/nOoByjIpzrr+JhApwzrqUzLuYUYJytCLhDgAAdu6gdQvbxGzUacfe9dpPsn0UL9aA0rSKe58fxH0eiFFKpku5AcADjdYdv5RCAgAAm/KkMsrHjGJkA/btIP/Rbi5SPDGT7e+arj8AypPiJXwvEu/Yp4PirJcAlGbNMdzlCREAAMBWozLKx5zEiAbAN7l9UpwXVSmS7UOEuAHY6ZWmH9CLMhjYlxgvtDiHUJpWJNwBAMCOHDR1aHIn2ueHbMpJYO+O8ptlclKcB+wUyfZ3MbIVqEHKcnODmOmG7Wtlf+50CeMHlmrFcQwAAHaiVbzF0HioBtZz2meyvYsQO4A4UpeeG0UfAdtEKRnsSSv6hgAAYONCakNbtpPi1JoGatTJPxkVI9l+VJpk+yhmtgC1OShdiZm5DeJagW2JMWOkTbkBwApOJNwBAMCGPauMRVFfxIMzIIUlrt4U5zzyLWvj01goFahXo7SJ95PoO2AbWsXpWwOl6kT/EAAAbNBRZSyKOoiFnIBZI/9R5FtItg8R4geQXqPphX6KWTFtki0C4hple16M4mUUyrZ2dnWbJUoAAICFSlkUlfIxwFet/BPbvepPtr+LhVKBLWo03e972Sbg3zQl9YHadbK/n7YJ4wd8jOKYBqryh9wBAEDBWk0PvE3eMPSbpL9I+pk5DqAUz/Kf+v2bpD/bhfK/5lkwqUbI/YeozwnsxVHTtaU9+2//pOvXm5+S/v7x7z8+2nfRh8A2zOujWPpPTf1soFQHTQM61iDXBwAAipNjMbNbo9HauJsKVCX03HSR4ko9sn2MtB0AAJTMuuzSKErJoHxPWn9sAwAAFOVJ+RdFPYlp38ClRv4P2jFLMqVOtr+LF3EAgP3pxP0U+/Sidcf1kCdMAACAXzUqY1HUV+UvYQOUJuRF2EnxFhp2AXGFXCMAANiTo+zvp76l6YDU1g446fOECQAA8NWz8o9qHzUlFQF81cn/vHpTvKniLiAu33aKuD0AAJRqkH2/m/spatBo/fHdZYgTAADgfzUqY1T7i+j0A5cOCjs/X7WtZPu7KDUFANifZ9nfT9uUGwAE8Dn+2xyBAgAASNOb/9yj2t8Ur9QFULNWYednzGniLiCu0OsFAAB70si+v04pGdTEZ/0iBnIBAIDkjvJfeNGqsSgqcFunsHPLRYzNBcQW2ng5BwDYm0G299JRJCNRj0Z+xzgAAEBSnfIm2t81PTg0cTcTqFJoCZmYi6NKeZPtjMYDAOwNpWSwd53WH+OvOQIFAAD7VMqodhZFBa5rFTZlPObiqJLUB8QW2sbI2wYAQGkaUUoGGLX+OGcWNQAASKJT3kT7u6ZkHQkz4LpO4edXTDmT7e/iRR0AYH9eZXsvPYm+OOrSyu9Yb9OHCgAA9qRR/lHto+j0ALc0Cj9HXeQYcyfbmRYMANibJ9nfT3l5jdr49kEBAACieZb9NNS17UWMpAFueVLYORq7XruUP9l+Eus9oFwHTbNTBk3H66DpnGnyhQRgAw6y78Pz8hq1acSxDgAACtIobNFFi/am+IlAoFYHhSeyB8V/meUT40m21x9qcKJUTrcTYilehgHYLkrJAP7lFuk7AgAAc075R7V3kbcRqNlRfos/nbfYC54d5Pewf9JUPip0++b2Fnk7AV+9Hh+/Y7boANSMUjLAxPeZlhfeAADAjG+CzLIxqh24r1PYOXZS/Ifmg/xqys8jekO3kQcmlG5Jsn1uLk+IACp1kN1L67lRXgM1cvI73scMsQIAgI0KrQNt0brYGwlUrFH4wqhvil8X2jfZPr9sa2R3LYo9ih9Yy+f86HIECqBaL7Ltn1NKBrUaRf8RAABkcpB9x9w30QbgOovFi3vFf2AOSbbPsVnNshlFggDl8Tm+XY5AAVSplX0/nVIyqJGT/zHPcykAAAhyVPiI2dDWxd5IoGIWZZ5OSpOws0i2tx5/nwQBatHL7/zlxRGAJSglA3wa5HfMjzmCBQAA29Epb6KdUe3AfRZlnlKdZ76LuJ4n2+X5GSQIUAOfZPu7eCkNYLlOtn11XvihVq38j3vKyQAAAC+N/N/4W7Uu8jYCNbNavLhXmgflo/xeDFzG13l8BgkC1KCT37E8ZogVQJ2Osu+vM1MMtQp51mVAGAAAWC33wqiMagfuaxU+yvukdA/JIcn2c43HZ9xqzxG2E/Dl5H8st8mjBVAr6xKRzBRDrVr5H/dj+nABAEDNSlgYtYu9kUDFrM7RN03J6xSsku2S3aybwXwrAX+t/I9lprQDWKqTbZ+dmWKoWUifkkEbAABgsdwLozKqHbivlU3t8pQJOstk+7PH59xqXGtQCt9zZL5vAsASlJIBPjmFHfu8aAIAAIs8K28JGUboAbdZjWo/KW3pCSe/60p35bMOnp+19POBHA7yf9F9Ei+OACw3yLbvTikZ1GyU/7HfZ4gXAABUxmrRRd82itqzwD2tbEa1vyrtaBznGae78XlW16nRcBuBUCEJMKazA1jKcobYuyglg7p1Cjv+29QBAwCAuhxlk8jzbS+isw7cYjmqPXViznnG6m583pPn5/GQhJL18j+OGVkKYKlG9rNYKSWDWoXOmBzThwwAAGpiPdJlbQKQjjpwWyubl2E51kVwnrG6G59nWUqmt9tMIIhT2MM+L6sBLDXIth9PGUjUrFfY8e+SRwwAAKqQu4RM6rIWQE0OCn8QyPlA7Psiz935TItR/u9i+jvK0SrsWKZuO4ClnGz78aO4l6JercKPfwAAgF/kLCGTo6wFUJMn2YzkHpWnbErvEeujRR9bj8+81ZhVgxI0CjvPuY8CWMpyhtjc2pQbABjzXaR8bl3yiAEAQPGc7DvdS1uOshZALSxnneSaQRIj2X6Q3QvCwWpDgQAHhT3sU7cdwBrWM1opJYOadQo7/pkpCQAAvrAsUUHnHLDlZPMiLOe6CDGS7ZJtKZnGYDuBUCH34lE86ANYznKxca5BqF2j8P52lzhmAABQsEbhU+dCklxt7A0EKtXIbhGzQfkSyj4JxCXJ9qPH595qlOBACUIWKl9yzgDAzHKG2NzalBsAGAvtczO6HQAA/C+retA+jYVRgdueZTeqPVcy+SC/h5eliUOrF4VvoRsKGGgVdhy71AEDqJrVDLG5MVsVNQt54T23LnXQAACgTJ3yJNrfxWhS4Jaj7BLJg/KNavetQ/2mZS/iOo/PvtUYFYzcGoW9YOuTRwygZq1s+/WjGESDejUKH+TC6HYAAGC6+KJPh5zkFvCrg2yTyF3K4C/ETrZblpLpwjYVCBa6SOrS8wYAJErJAJcGhZ8DDCYDAGDnLEfPrm2UkAGua2X38PumvC+1Yifb5fn519q44juBWHr5H8PUbQewVifb/j2lZFCzTjb9SQAAsGM567Xz1h/4lfVsky5p9L/yfaG3JtneeXz+rdZ6bylgwynsGHapAwZQNcsZYnOikRfXqJXV+fCUOnAAAFAOi4VgfDvijL4DfmW1KOqcsM59nh3ltz1rku2Nx+ffar3/pgImQh/0OYYBrGU9y7VNGj1gJ7Sc29yG1IEDAIBy9MqTbKeEDPCro2xqRc6tSxr9db7J9rXXCKtEAQtbIbeDwl64UbcdwFqdbPv5lJJBzayej3MPeAEAABlYvbn3aZSQAb6yXhS1hFHtkn+yvV/5PZ3Hd9xqTP1FboP8j1/qtgNYq5FtP38UL/1QryfZnAe8dAIAYId8k2Ch7SSmlwKXWtktinpSGaPapWm7UiTbLWvODh7bCVh6Udgx7JJHDKB2g2z7+23S6AE7jWyekZktCQDADuVaHJUp7sBXjWwXRR0+PrMETn7b0Ht8l2Upmcbj+wErTmHHsM/5A2DfrNdxYlQvambVp3SJ4wYAAJnlWhyVzjfwleWiqCeVVabJKV2ysPP8rmutpH2I/QmdecZLbQBrNbIdhMN1CDXrZXMeDKkDBwAAeVl1ItYmAl2CbQNq0cp27YRBZY3KdkqXbLcsJfPm8f2AldA1VajbDsCH5Sy7d3EdQr2cOA8AAMBKB9l3qJe0UXQ4gNlBti+9SnyZ5TuDpvP8PssXF1yrkFPoPZrZGQDWsloYMvReDuRmubZZlzZ0AACQS+ioOd82iCmlwMzJdsr2q8o7v3r5bYvz/L7O8/t4OEJpQku9vaYPGUDlDrIvJQPU6KBpkBjnAQAAWOwouw7Emka9dmBy1PTyyercGjWNSCtNr7TJdstSMqPKe3mB/WjF8QsgPd/79q3GLDHUyrKfznkAAMAOWE6NS5FAA7bkoOnFk+W59aIyE2u+D+0u4DstZ+20AXEAISxGmPJwD2CtVrb9ky5l8IAhy756lzZ0AACQg1P6ZDsLtgETJ/tp2m3C+JcKqUnvAr638/zOa43ZOMgp9MVRlzxiALWzLJ8x91GAGjlxHgAAgBWc0iba505GiSNvgZSsy8ecVG5CzXdtiJPCXh5YlpI5iesW8ukVdvwO6UMGsAHWs+8YbIMaWc8E5zwAAGDjOqVPtvciaYV9CxnpfS+Z1iTchjVCku2hDySWpWRKrIWPfXAKO3Z5WQTAh+VL63eVOygAuMd6weDntOEDAIDUrBN+SxrlGLB3z7LttJ9U9joIOZPtzx7fe6u9BsYC+LJIePGyCIAPy5fWlNBAjXz7sbfakDZ8AACQWq/0yXaXYsOAQrWy7bC/q/zZIo3yJdsb2b3YYHQwcrEYVceLbgA+Otn2WSihgRpZPjPTnwQAYOMsOw6pkmdArRrZn3OlLop6zrfWpdX1YvD47luNqb/lOGo69ltNyaC5DRft1rH39vH/v6iOh97Ql3SMKAXgo5Ftv4X7KGpkvX4Bs80AANgo6ylxSx/2SbZjrzrZl4/pEsbvyzfZbrWYsmUpmcEgHixz0JRIf9J0nL/oM4FufW86qfwH317h29ikDhrAJlhed7mPokZOtv0OZpsBALBRuZLtNYwgBKw9SRplez4NqiN5ljvZ3nh+/63GC0Nbc1L9WV9Hpqe4J42aktilJ9olm5dGLnXQADbB8qU1L/5Qo1b2z8QAAGCDciTbe5Fsx/40sk8ejqojQShNDyg5k+2S7f7vjGLao6M+R6r3SpdUvzx3ek2J5ybitlprFb7tLPILwEcj25fWlJJBbXwHjtxqvHQCAGCjciXbgT05yL7O47umZGUtL66c/LbRMtluOSpvNIpp6+YR653yJdbnNmg6D59U78OtxYP+qHquGwDK8irbazJQk0a2yfZ31TNoBgAArJAj2e5SbBhQkGfZd84H1VXKxMlvOy2T7Y1sf4fWKK4tafQ5an2Q/XG/9hx50XT+1XSu3GN1z97K/gCQ1pPsrtGM6kVDAD4lAAAgAElEQVRtYjw3U7cdAIANItkOxNXK/hw7qb7zyMlvW3vjOAbPOFLEVqODykuuO207mWxxDHepgwawCQdRSgb7FeO5mbrtAABsUOpk+0mMBsV+NLKdcj23F9VXBqKT37b2xnFYL/BW2+9g4ahpP77KfsHfNW38iOFZ+7qv9Arfd0PyqAFshcU1iGsRamXdr99rXxIAgE3LkWzf8ohDYHaQf4L50YNpjeeQ78N5bxxHI9tRec44vhKd110flO5+ca2NqnNhU0tOPNwDyKeV7XNBkzJ4IJBvf/Zeq7FfDwAA7iDZDsQRo057jeVjZr4PJ32EWFjg7bFGU3mYF6UvNXbZ3vS5sCkJYruaySzKBsDHQbazmrgWoSa+/dl7zaXcAAAAEF/qZLvlYodAqVrFKa9RY/mYme/DSR8hFssF3t61nVF5jaYHvl55y8O8f3w/CfbrjrJ5kceibAB8vcjuev+aOHYghGU5wph9XQAAkJlvEsynkWzH1jWKU2pjUL2zQg7yH03uIsVjOeugixBjKnP99V5lJNh77btEzBJWo0q5HwPwdZTdtZ+yVqiJk33/h0VSAQDYoF7pkik83GPLDopzPtVcPkYKm0HjIsVkWUpmjBRjLOcLnFqXOvJp8yKntb5MSs1qRhpl3QCEsJwZSykZ1MLJvh80iudjAAA2p1e6pArJdmxZpzjJy5rLx0hlJtutS8m0keK0UlqCfdRnmRisZ3Xffk4dOIDN6GR3T6CUDGrhZN8n4uU3AAAb1CldgoVkO7bKKU4ZjkH1l9QoMdluXUqmxERBaQn2+Xh+Vv3HdG69tnvcAqhDI7t7C6VkUAunOP0jBh8AALAxTukSLX2aTQKSahWnTvuobXS+j/J/EeEixmW5wNtJZSSQG5WzyOn5vunFYqeWnOx+G34TAL4s+z5b6O9g+6wWKb9szDQDULRG04XqRdODHRct4DHrcgr3Wp9om4BUGsVJtJ80zTrZQiLM98HkpLjlWVqPmO61LmKs9zQqL8H+rs9SMW2k7d4zy/t2mzZ0ABvyLLtr0Uvi2AEfsZLtfcqNAIA1Wt1OeLTZogLKF6vTQEcCWxdrQdR3TeUdmmRbEldIsj1mDcuDbJPTY8RYr8X+pCk5YbkNFm0QpWJis7xvd2lDB7AhliXZRm1jgAG2LdZz85ByIwBgqaPujyxkmixwm3Xt4nutT7RNQGwHxVsQ9U3beklcarJdsi0l8674v1v7EbNvDfxY7aTpBZET/a0ULB/23xLHDmBbXlXPPRQIFSvZzrpmAIrU6fEFjDpwwHUhixeubX2ibQJic4ozovik7ZVAc/LfF7GT7a1nbLdajAUn54VOB+NYLdqoz3rsSMfyvl3KegMA6mRZ1opSMihdrGQ792IAxWm07IGDmzdwm+WolHuNEXTYglbxSne8aHsjW5z8HzxiJ9sl25eNVg9Ljab99qp0M4/WXstflOb3wa+sX5K7pNED2BLLkmyjttcHwrbETLbTpwJQlFbLLnh9pviAGnRKl6ChE42atYo3wnjQNke1OPlfL5oE8XWe8d1qnWccJddhP/9NqMdeBsuX5DFmZADYD8uSbG3a0IFVYq51xixBAEVxWnbxGjLFB9TAcgroo0QNyXbUqlG8WSCjttvJflbZ14ujZ3z3fsu1319qmZi5UY+9PL1sj1l+WwC+Wtldj5iNjpLFTLa7dJsBAI8tfZNOkg+4LWbHgfMQW9DINrl13k7yHw1dA9/9lvJ6MXjGeKs9enFy0PRQ1avMMjHzcdkv2Bbk0cn2925TBg9gc0bZPSsApYr5zNyl2wwAeKzX8odGknzAdakWSR3FeYj6HDR1gGN1rntt+7xYep++9sCdar/4jr6/1YYb33PUdCylWpTa9zr9IpKvpXOy/d27lMED2JxOdtcjalejVDGT7X3C7QCAh3otu3ix6ARwX4pFUjkPUaNO8TrWg7Z/Tiy9T1+2lMn2Rva/cXv2+U+a9sNo/B2W7U3Tsb7143ErnOyvRQDgy7IkW5c2dGAxku0AdqPX8guYyxMiUAXrkZ3XGsl21MYpXoJ01PZLdBzkX6LlVWlH/Fu/cBz0mWQvtVTMHCeLntbH+oH/JI4BAGF87/eXjVIyKJVTvD4dxz2AovRafgFjwRXgNutFAm+1NtH2AKGeFC/RvvU67bOQElV94lhTLRRdSmPR07rFGF239Zd/AOKyHLjD4ByUyClev4y1zQAUpdPyC9iQJ0SgCqnqtrtE2wOEaGW/aOZ5e9E+OtQ1JdsPKrvMi0U7X/R0D8fflsVItqc+5wBsSyO761KXNHJgGad4fTSS7QCK4rTuIZMLGHDbi+Ine7pUGwN4ahU30T5oP+Uaakq2S2mugTnaqM8kO7YhxgvyUfSTAYSxKsk2pA4cWMApXl+NXBWAoqwtfcGDJnBbq/hJnz7VxgAeGsVdLPhN+yqlFDL6Nse1IlU5rVRt1PQCgen42xNrNhrHCoAQViXZWEcCJXKK12djbTMARWm07kGeuu3AbQfFX8iPKXIoVaN164D4dKJdom0pRUiyvUsfrqQ05bRitzdNtXN5aNuuWMn2LuE2ANgey2eJ58SxA4/Efk6g3wagKGseNkaR6APuidmJmDsSnIMoTaP4HehO+zv2Q5LtLn24kmwXeEvd5iR7Y71TUKQYs3CGpFsAYIusSrJxPUJpYj8rkGwHUJS1N/Q2S5RAHVrFTQbRkUBpDlq32LZP67XPBGir+pLtjeLP8LFur5r2195e5uxdrzj36CbhNgDYnlZcj7BNMe67561NtiUAsMDa2nCUkgFuO2iaARKzI+FSbQzwwJxoj5lcHbTfF0xOdV4nhhsxldROIsm+d73iHFusbwQglNWzhEscN3DLQfH7hy7VxgDAEmtrw1HGArivU9yOBC+8UIIUifa9LYh6yameB47Dx3e+quyR7SdNSVYSougV5xjrU24EgE3qZHM9ek0cN3BLrLVScvZ9AeChtXUrXZYogTo0ituReEu2JcB1KRLto7jXOPntu5PSvaRoNNU5L31hVJLsuBRrfYFRDEoBEOYou3sf1yOUgGQ7gF1aW0qGZB9wX4yF1847zk2yLQF+5RQ30b7XBVEv+S6SlmJth/YjvtEzxlRt/Ihzr6WIcJtTvOOO4w1AqEE21yNeMqMER8Wf+ehSbQwALLW2lMy79j21H3ikVdzOBB1n5OIUP8H6IhLtkn+Zi1jJ9oOma0+vskvFvIskOx5zinf8dcm2AsBWWc2+oZQMSkCyHcBurR1BN+QJE6jGoHidCeq2Iwen+In2XszcmPXy24fWyfZG00N/zBk7Vm0USXYs4xTvOKSPDCBUI5vkJKVkUAInku0AdsqnNhwPs8BtreJ1Jt5ExxlpOcVPtA9i1tTsIP9k+yib+/NRU+K69Hrs8zXxWbyowXJO8Y5Hyr0BsGD1krtNHDdwySl+X9Al2hYAWG3QugtanydMoBprz6k1jZddSMUpfqL9TTwMngtZSCr0ZdyT6qjHPm8rSXb4sFqA8Faj3BuAUGvXVbvVmBGL3HzXIVrTXKqNAYC1fG7oJPyA21rF61B0ybYCe+YUP+k6ig7ypRzJ9lrqsc/HTCeS7PAXu35sn25TAGyUz7pqt+6ZzIhFTr3i9w1dqo0BAB+j1l3UhjxhAtUYFKdD8ZZyI7BLTvET7SdNI5PxVcpke01J9pOoyQ4bsZPto0huAQhnNSK4TRw3MDso7mzvublE2wMAXpy4eQOWYk5Vb9NtBnbGKU2ivRMJqWuOip9sb1RPuZjzY4bjBRZiJ9vfxUshAOFa2VyPKCWDXEIGkKxpLtH2AIC3tQ/eY54wgWr0itOp6FNuBHbDKU0CthOJ01tCEoG97u/Xg6bfuIaFT681EpiwkCLZ3qXaGACbZnG/Dl3PBfCV4n77LmbKAqiA0/qLm8sQJ1ALq5qLl41RnrDmlCbR3ot62/eEJttvaTSNbquhZMyt1i3ch8A9KR7+h2RbA2DLOtlck3hZjRyelKbfea//CwDFGLXu4kbSD7jPicQTyuZEor0UMZLtjdIsUBW7DSv2I3BLimT7SVzrAIRrxDMD6uWUpn94q/+Lehw1lc5qxctBbNiTuMAB1l5l37EYk24Btuig6QFsVJpEaZtioyrnZPuwcZDdImu5GwlMWEg1rd0l2h4A2zYo/Hr0ljxqIN1Aj2v9X9Sh0fT7XeuXnfS4RCZQHZ+b+lOWSIF68DCPksyJ9hRJp0Ek2pdy8t/P3ZXPa1V36Rj6GrCWKtn+mmqDAGzas2yuSYwWRUoHxRlsdq31ibYJ9jot+41P4hkAFfnDnf+v0fpRsz8k/dE3GGAHnmT/8P1DnHdY76Dp4e3/Kv5oge+S/iLpW+Tv2Qon/4eGP0v6zfDzSvS7pH/LHQSqdtT0AjD2te+HpH+W9DPy9wDYtoOm5/LQa9ZfJP1neDjAIo2m594UL3l+09QHLkGj67MwW8Pv+PHRLv3U9NxVi/mFTLvy71173gGq0mv9W8WXLJEC9YhRzsGl3ABUL+WI9lEcn2uFXCPclc87BnxeiY11YhAq1cj2dzGjB4ANixHCQ/KosWcp77VvStc3bD9ap6nPPny0kmeRDmft5SN297EdjdF+8TXI/3mgSR8uYOMgv4sGU9SA+95kewMl+YSlGt2ui2fdRpFo99HLf5+7CJ9ZYmMaqZ+Dpn3Xad/78CD7+/Ct1qXZJAAb1yr8ekRyCik51Z1sb/RrUn1MtD252vCxrSnzeV1gzH3CWAFTTn43cgD3Wd8cmVWCRxqlS7qOItHuy/c3Oun+Ph88Pzf0OOgDtulWoxa2n2f9+uA7an+J95TJdhYlBGBhLiUTek16Th04dqtTuv5m6MCzVlMfutPUx0zVRyi9Dd57dDnfAb6XjYGHqNKg9Qd7nyVSoB6t7G+IzCrBLY3SJdofJX1x20FhyfZH14AYZaxudc6f9XUEnU9f4t620qle79Gx1WaLLK2UyfYl5yUALNHJ5v4MxBbSn/VtS+61B019nWdN59Og7Y9WX9LedL3UzPPC/RrKahHovQ0eQWX+vyv/rZHfA9jfgiIBts/65vVDdS2KgjRaSf+uNIm0n5L+qmkBLhYFXO+gqZPrc234Kelf9Pga8FdNL0NiJKt/l/TfH/+8/P2dbI/Bf7vyHbht6bH1omlRzy1rlG7RNkn6D3FvBhDuqKk/F+KnWGQc8TVKe5+VpgWAL++1rT4XLP2Tbi9eWpvLhVB/Svr7gj83+67y+tB/Mvqco6bnEKAavm+bGHkG3Gc90pRyMjjXKl35kJOmURBc9/2FjLhdO4LWeX7Ptfaqxwl8qynw59+J5dYeW02WKNNIuWgbxyoASxZ9OkZ/IrbU99m5tZqeRXrVWwpmHmXef2xLp89FWbc+U87i+vYu1stBhXwuWNSqBB6zurGcdzQAp3RTI0m020iZbJ+5gO/rtW6UfOf5Xbe+n+NtnVdxL5HSJwE4VgFYsSi3wAtAxOaU7h5baxs0nYudPmd/0lcg4Y6dauR3oDPSFnjM+u079s2JRHuNjvL/3d4UNhq5Xfjdgz5H2azVyDbJyei8dXqt38dtjkAjyzHirk2xYQA2z2IxQV4AXtdoepnxLPZPKJ/+xpbboM+R6q22PXvQgtXMf5c4biCI79t0HoiBxyxv6swq2aeDpo5cqkQSiXZbIUnAN9n9Dk/6nLo6NyebhOHa0dX3GqPz1vHtw23N0vPM8iU4A08AWLG4j/JsPmk19XFe9euAgy5XUJVLuQh5iW3U58CUJ5FY99XK5vfYeukdbIzvDZ5kDPCY5c1+SBw78mo0JXRItNerlGR7TK1sj8EatrkUTv4Pjluy9DzrFv65LZ2fAMrXKvyatNeX1UdN98IXPU4I9+K67aNVnnrtudpJn+VgWnHMWBsU9vtsrQ+LHeBAB+Kx7AAMiWNHHo3STtkk0R5Hq+0n2yXbEkeMzlsu5GXOlkZmL9kP8xoIw4M/t6YxugqABYsFx/fysrrR52y9NdfzXoxI9tUp3fNIrjaIkesphZb/e04fMuCvld+Bvte36MBa1h0CbFcr+0V27zUS7fE4+f8uNSXbO9kdj/QrlgtN0GwlWbwm2W6xGOHcugTbBmAfOoVfk7aYgGr0Nbm+NkE3iprtIRqlfSZJ1UZNL2CetZ2+UI2c/H4/yuuiOp142ABisuwkDIljRxpOaesikmiPy8n/t+nTh+utkd0U472MzrMyyH9fb+VhZU2y/fjgz3EfBpCDxbVpC9ekRmHJ9fNrfi8Wsw7ltJ0SMoOmWX2MXi+P0/rzu8kQJxBkkN/Fq80QK1Aj644DtuGgaXTFqHSdThLt8Tn5/z59+nCD+PYfrjWXNvSqvYh9vSbZLtm90ORhD4Cl0Ptojdek85rrg8ITu3OSnZJ04axLr+Vogz5rr6N8T1p2DRjE8ysq5XsxazLECtRolG1HgulvdWtku3Df0oeRTnRUYgtJhPYZ4g3xJNuHIywTut/H9CGbW5JsH/V5rwx9QXHeSOgAsGJR5qpLHfRKrabtnJPrlv3aXlyTrTRKu3aU5XHwKsrD1K7R7evDq7YxUAQ71cr/AgdgGcsO5rvqS8xhclT6ziyJ9nRCftvazmmLBd7Oj9EmafT1Cl1k6l31P7S0erwPztdAaB/82TWNNQbKMpefmBvJFtTkoPDreUnlwQ6arredpmtljDKJJNnttZp+L+vfKlYjwb5t8+wXp+nY5PkV1fN9sz7kCBaoVC/7DkeTcgMQ5Enpp2eSaE8r5BzvM8QbqpPdsbrFhd5iOCg8gTEmj9qW0+NtPE+2WyS0zvcd19MytLr9wq/G6yn2KaTfMLc2ddAf5qRYJ5uSMI+uvS+iPIilRtNvd+s6WlIjwQ6gar43e0b5AMtZTBnlHKzLQdPDSOrO7KjpeCMxlMZBYSODXPKIw7H4ZB6+/bXz1qYO2pDT4+07T7ZLtqP22nibhhU6Pf6tSMqgdK3Cr0l9gjjPR633ijNq/da1nASrraOm3zHVbxjSBvH7A9iIQX4Xwi5DrECtLBNU580l3AYs0yh9ffZ3TYl2F3vj8EXoiGOXPGIbvv2Ga61JG3q1nGweYGvl9Hj7LpPtli+6XyJuG5brtez36jLFByw1KuyadJL9wIpWX2utp15naK7TzIARGwdNM2x7lT+SnVJBADbL98LYZYgVqFmsjitv/8uQoz77u0i057LXZLuT3bHbJY28XhYvbGuuk+/0ePsuk+2WL7lLqpG8Z2vur7wgQcksXgaGlGJr9bUczGgQj++1lVIxto6ajo1BeX7Ttf2SXiTZAWxYI/+LZJs8WqBuax4W13ZYSLrn45SnYzuq3qRt7Y7aZ7Ldsh42ScxlrBan7RLHbcVp2bF0nmy3qHV/3ri/5nXQ+nvskCVS4DGL++i48LtalZFYn9v5KPZm4TbgvppGsZ/fs52YyQBgB1r5Xyzb5NECdXtS3A6MS7YlOGgaQZKjczuK3zqno8Iell3yiO1Y1sMmibmMxT6/9XLjSZ+JmPM2L07W2G/OKr2WbdvlQ/uSv7e07W1B3zlxc34s5DxXfV+eDDmCBRZ4Ufh1yZ19XquvNdYHpS9p+OgazSh2W43qGcV+eV1uzfcGABQsZEpbmz5coHqj4nZmejFiIKZG0z7O8TBDRzW/kGR77TNRWtkdy5R7WMaqBvn5cddqXUJ6UJ7jdkmM15Ltli+2h1gbVyCn2/2TXNeukJkK3cLPd/pMUs5/d/z4353yv3TCtsRaz6mkNmo6p5x4HrHUauo73bpOl9zexPMLgJ3q5H/x5CYKrNcpTWe3TbM5u/GkfCNJBvF7luBJ+022W5U1ma9P9B8ea2Wzv7uzzwu5hqUc6d0viOdasr2R3cvQmmver3HUsuMidQmomGtkHLRuYfPObrOwY6Gz40ptc5mYZ9XdzynNeamYWo+bk/Y3SwwAvgiZqgxgPcsayI/aq/aRMIglZ9mYd5FoL4lT2ANH7Q+hneyO6zZp5HWyuk+MCk+0n7c+4jbP+gVxXEu2S7YvRV2EbSvNs9YdZ6muY0eF33ebG5+9dptTHvvYLqd6k6bX2qCpX9Ca7SFI03XLybZ8X67GMygAKOzhBIAfqzIBS1svOj1rHBVvgVt+r/o4+f+WW0i2W06B7xPHXiurBT8tFw6dm4u0zUtHNN9KtlveV18jbF9JDvJL6KQYqWgxCvjaaPxG4edDZ7ql2LpGeQdtWLY3kWCPpdF0nMS4X+dojGoHgDOD/C+oAPzl6Fj1IpF7j1PeBYj4fcrTKeyho/Zku2R3TpxEKZkleuW7Bi39HRvjbQ5Ntlu+FNr6cXpU3LroIZxsRgG7SJ/7rm1c0xFHqynR2Kv+JPu80OmTtn09zOWoeuuxPzpuGrvdBAD1C7moAvCXc+GkQVMnGlPHsFO+qb4nkWgvVS8eOixHDee65hw0JULmVnLywCnffWFNsxwBvjTZPuj2b2f5Ars13LbShI4e7yLG5gLiOm/j2WceZP8CazDfctRkvp84TefDoG0kTQeRYI/tSdtMss/txW5XAcB2hFxYAYTplLdzNH7E0ETdyjK1ylsj8aRp3/NgU6Ze/r/trVG4tbFcbyJ1iY5Ho8feVF6N7pwvYX1aY7TNS5Ll/Z3PeDHcpi0nDJzCz+dYZQJCrreXrfv4zJCR/I+aM98DKMmcVH/SdDz1yjv7MUYbRImYFGpf9HRJO4lBXABwU8gFFkC4UhbGGTQ9RG4hUXhL7kVQ545pp23v55r51jae21aS7ZLdtSlGCZJbWq1Lsg0q4/dKuZi2VesDt3npaOt739Mabs+Wzt1LTjb7qDGOy3oE+lwOqDP8zGttNN4PSO9ypPqrtpdUPz8vXjX1f9vQHYeH9pBkn9ubKLMFAHeFXGS3+mACpLR0On3K9qrpIaSJttVptcpfF3kUo+JKF3oubilh18ru2E+xeFZI4m5IEN89Jd4DlrRTwDZbJNsPsn15utWkgZPN/rm2EGmIGMf9W4TPvNWc8f6AvUafddU7Tdf6Gq+1PudBr+kY3ep1rSQHTfu6lAFUqVqv7fR5ASCakAttmz5cYJNKTrjMCye1sTY+khJGs7+LRHstSLZ/skxkDgnitSgd0SWI85b+Rkw1NJ9p5E8KT7ZLtsmNzmM7amB5bDnDuEJryZfQRsP9AX/XRqqX2p+O1QZ9lofZSj+kdHtNss8txUAKANiEkIttmz5cYLNKTrrf6tiXqFUZCaxB5e4jfHVUWIJ50LYecjvZnQexR9dZJe5CRmuH6BbGF7v5Hv9ra567hZ/bP/icJ8Nttx65XYpetseHlaUvXGpoznC/4LY9lX9Z0gaV3Q/fqr0n2d81XbvbsN0IAPsSctFlgQzAVi1J99I6/s1HDKPK2B9txG2FrdCEbZ8+5KgsF+7sIsfqDGN9V/rz1hnEHNIu15NotP5cGCJs76NzyrLefcj6AkeVO6K0V5nnRmccV+4214xHuEa/ln8ZlP83LqHNM0157k6PJPvX47AJ2ZkAsEchF94ufbjA5lkvIpa6DUqXgHcqpxPci45obUi2/2qQ3YNZTM4ozvPWRY75XO6SGq+6nihc+/svnRnwsvDzlpxTVsfou9ZPiz/q+mJ4g8q5/veyP1ZC1d6vudcGg/2zF/NLqk7TNWFQfYNMUrV5kdNm/W5GIJLsv7ZevFwEAC8hF9+1U4kBLPes/B0sizboc2SORWft+PF5pUxJ78UDUY2cwn/3rbG85rQR43SGcZ43i8TiEo3yXr/uJZkHj897pF/4OUvOKctjdFjwfbNGj5MvJ+VfoHDpvl7aLEZw1zhzb23rDfbTFjT6Okp9Lv1SSn+thsaxlAdJ9tvNee9VAEDQBXjIEC+wJxaLAZbWRk0PFM9anpxoPv58KfvishQD6uIU9vv3ySOOz7JMR8yX8c4oxmttiBj3LGfycUlCePD43Hv6hZ+x5JyynBWwJpHcrfjcnPXgl+7rNS20hEXumRwp26htl5Ob66i3ms6JTiTUrVu/6JeApSddn7VEK+MlMgBUL/RCDCCug7ZX9/SyDZqSdE6fD6wljjYZRaK9dqEjZPv0ISfRy+4ciXV+OKMY712HYsuVbH/Tsgdnn8++Zs2LhW5BXFrxeUvakkSy7wvvHHWWY8yIC31x5iLEVEMbP/Zdqzr6CnOZl1afI9M7fdZQH5V/n+6hbXXx5hLVkGR/U941DAbVcf0CgKL9QdNFNcQfJf0IDwXAA3MplTZzHHv0Q9J/SPotbxgI1Ctsaux/SvqLTShFaWWXbP43Sb8bfda5VvET4r9rij+W0OPP13dJ/yLp54M/NyeY1/rDxf8+aPqtliT4/6xl19VO0r+viuq2Jb/zs/wTzv+htOsBONm/CPwu6Z8D/n6uY71EPzXtT0n625X//4ceP0cd5DfS9B+u/L1GlMGz9F3Tb9wGfMZPTc/Tj67R8NdK+j+yK28Zw++S/lvSN32uF5Ij1q32dQEgi9C3u6yYDqTlxIijVG0USYOt6BV2LLjkEadjdT2JVQM9VVmKLlL80vJFQ63bm5Y/sPuOkj63ZlS4WxhX6xnXtfaolMz8siDkO4aF22XhKTBWn310zx7qtdP2106azute032i1deXFm3g57dCDPNApVH5j6Fb7VXTvfD8mpurv3ASeR0AMDco7OLMwqlAHk5ldyJrboPodG6FRQLNpQ46oU4254zF4orXpKwB7SLEL+UrrbEm2S75JUrHs7+/5rdyC2M6yPY+1975rnZF/PfasHDbQsU6N3xr9raR4qHRUrU5sf6i6QVkq2XX0D7gO7sFn4/lGtWZZJ9jL73sHABgpUHhF2gA+TiV3bGsqQ1ipNGWWIy2dKmDTqiRXYLsOUJ8qUfLNhG2IcYI5CVtbbK98fye4ePvx0i2S7YLgd4bIGJZA31QfJaLHPv+Nudi1JCP2bqPfVjSGjG0dG3UdJ52+rp2kI8mII4h4HvxqdF0DSp5ds2brgBD3w0AACAASURBVCfZZ0/K98KyvxMXACCQxbQlLtJAfk/Ku8DOFtqgz9FN3cc+bcU1rkaNSLY/YnW9GCLEljrZHmPwQMrR+Zfbsvaa5dsX7FZup1sRk+XLilHX90mMpGuM8+Ey5hjnRucZSx8hlljtpK/JVUrgbLvNI9Y7hSfWb+kDYmsixLMXB02/6aD8x9mt9qbpRUDzYDt8jyGLFmOwBADgTKfwi7VLHDOA2xpNyROmdtu3N5GQr4FFotOlDjoxy2RmEyG+3jC+HL93rmS7TxInZLR0t+LvukQxXWvtle9YU29+TYtdajHGudF7xBFr/8Vqg67fq3OdqzT737fXulIwoZqAeClb6OdJZc9MGTXdA5oF29Iq3wzlUZSQAYAkLB66++RRA1jiSXWNPqu9jfq6sJbTr4trIS6S7Y9ZJjO7CPF1RrEtbdb1563rjq/ZDp8H6C5BbG5lTIPhd3dXPj/m9P1r32clRumWwSMOp7qS1I9egnQFxEhb1t40JVw7Tedxc/ljJtTLbxv6HMFWrNW0z0q95pw+4ltz/+0yxvsqBgoBQDJH2dxouHAD5ZqnXr6q3A7rHtooEvIxOYX/Ri5xzDlYlJJ7V5wyLM4otjWtM4w/Z4mK1jPe2PcEtzImy6TytWO0i7y97crtXcqiv35t/8QsPzRGiHlNO2n58VfyqNk9tsvEemmjcX3Px1E8My/RqPzFT3utn6nQKO/MIErIAEAGFhdwlzpoAN7mke8ld2T32OZ6o/ND5jw1urQHzRI5he/7Pexny6RdGyG21C8ER9klP3Im251nzFYvX26dU+3KeKyTyufndKpFMpuV27xEjFkTPgvrLj2+50R3zhf8b1p3Taeee77fqeTE+i2D/La3lu3LoVH5i5++6v7ip/c8K9810ed+DAAwYnFjG5JHDcDCUVMn0PfhgZaujbo+Qn7vo6V6he3XvSTbJbvz3LpOda4yLJZ1dEOPw9S/RYwR0yHnlHXC83wkX6p646eV27yU9bG19vdZU4Jn/uzOOOY1zbdkAkn3eK3WxPo1rfz2QZc+1Co4lT3DZMnip/cclPcZaxDPCQCQVS+bC3qTOG4AtubSM70oPVNju1zUtVXdD7WPHESyfQ2rUh2j7B/eBqPY1rRXw/hDj8Mc2xArseh7TlmOth/OPtcp3f3M8piaWS5w7PP7rPld5lHzjXHMa1roy0CL+8pe2zxL77wP0qzY97UYtX7fxCjBVrNWZT9rjJqO49D+Ycz1Qpa0LjB+AIABJ5uLep84bgBxtaLszFba/CDc63OEWat6WYxE3FOy3bJWt+WocCluWZN7v73VS4M+Q/zv8qu/PesixeR7TlkmlU/6TPKlPras6+Na19hf8/usHZV5Pqo8x2jVNfXal8hZ/qH0dj5a3anuvsRaPi+u99TXuKfRNuuyX5OqhNmtNmpf5yUAFM1yWnGTNnQAxhpNDxQlT++k2bbakvFHhT+w7e0BuJfNsWI9gtd69O7S1hrF32WKP+T4jVVKxjcm63JCT8o3hd/6mmJ9H14a39pRmS8Xf7em8+GeRvsttzfPmOv0uZ5M478rN8H3BdieF6qcZ86WXKppkH9d9mtyj2r3LakFAIjI6sbQpw4cQLC53mrJHWJannZtinjORHWr8PvV3pLtreyOhcYwrhyLpL7Lboq1yxD73HxH4MWqUR1yTlmOQp9LAIwRtnHJPrBknbh2C7937e9x/rk51mIImemxVKttJt4H/bpIe2Owv7bK51o1ZIk0vyeVXZpp1HTcN4bbfFCeGXvnbc8vdwCgaJY3xSZt6AA8tCp/aiet7JZ6WrlFDfK9JdsluwSr5YNcrsUJrUbouwyxzy2kRnUfIZ6Qc6o1jGNU/oU6rViXknELvnPtwrLXfvfUyaZ+wXZZalV2EvGyDfocpd59xN9a7pAdabR+/1u/pC7dUWU/V5w0nb8x+oBt5u0eI20XAMCIk91FP8aiUQDCHPQ54oS6pLSYbdTnQ75T+AO+1SJ2e0y2d7L5TQfjuCx+z7XNaiSsyxC7xe8QI+6QcypGfXKrfTx6/D3nuR+usUxcL4lrbb3yN/2aSGwNY17Sco7kPHx8f85ZgYO+loKbR6i3sTZ653zKO+1htHENJWNeZXt9PlfCqHZKyABAof5w9u/zg4+Vf5H0zfDzAKw3J9n/VfYLHcbwQ9J/Sfrt49+P+uxEnv/7P+rzYb/RvkYQ1eyHpO+S/v7xz+8f/+2eVlNCoQn87p+a7kvfAz+nJo3sksz/LLt955R+ZOpPTdvwI/BznPKVzvsp6Y8f/1xrHr1s6bumc8onHmlKEpR2X/qLpP/UlMhsV/7dPyr8+JKm83Y0+BxJ+rOm++kt88J+7YrP/P3jcy9/9zeleaH58+P7f0/wXUsc9Flq7bxvIn3tt5z79uAz/3b27z/0eVx9l//5Bn+t1r/s/Kbp+rhV87OFyxzHLT8k/VXTdeJHpO9oZdM/9fVT0z3rt0zfDwBYyXJxplG8bQVyaJR/5NXa1ssm8dLoc4SX0+c06l6fo8Fq2i97aYOmEUJOnwmbRnajoPc4sl2yu6d3hjHlqNtu9fu3ieO+bK1n3NYjyd8V/iIn12K5t9qor8fI2v1l+TJjMNom9+B7fBb26258lkW5ryVtr9dy5LX2nDxpm8/AjfZbMuZcCaPaU73gBAAYcrK9GYTUGQWwXOl1E6+1UdNDes6HknlkWqsp+dB9tBeRoN9K22uCppXdeWopx/nkDOLOtcDr3Hz7UzFq5Ycm22O8AAhpw5XtSfX7XGqNtulePPOo9jWfd9Lt8yjV75licVTgUqv1x2ppM3dCzCVjBuW/Vt9qMUvGXGqV/1mL/AoAVCpGp7lNuQHAjtRYjz3V6JOY2rPWnbXhrOXez7TP463mYy3EKJt92BrGlGNEmDOIO3eyPWT0tOXMxTmW0KSndUwh7Vri4ujxOVYJNouXI/2dz2+1/tow6v51tDeI+VGjRjFyWXu+bGUds1ZlP2OMmgbtNHE2/xcljGo/aVsvcwBgl6w7zntboR2IpdGUPCopWbG0DR+x7+2BeckI+lH5f58ttj0n2zvZ7MPeMKbWKKY1zWLButzJ9pA+VG8ci0WyPVXpkSXN3YjRp9xNKYvx9jc+2zdZNDzYtsYgZt9tAmJzWn+9rrmfOy8GPCr/9fnW/u2Vvm/XKv8+eXQtBgBUwmdkz6PGNFDAz1FT8qzGsiajpgf8xnifbNlRv46eJzm/vu052d7Ibh9a3bdzlBDpDeLOnWx/l/9ott44Dot+XKP8+3PJ9aFb+XkW9dstzpFbx3wrv3vHkrIF1sfZZXMLYgBiWXvetFmiDPeksgfzpCwZc66EUe3vshk8AAAoyCD7m0WfdAuAOh1UZ6mYy44xUx7ja/XryPlXUXf+Xft+OBlksw8tz+HUD/K9QcwlJNt9t8N6FLlVOQ+rYzOkvenxS+C1cVrU0w1N6lx7IXKQX0L8Xr32c01gzBYxALGsvY7WVle70dRvHJX/unytjR/xNTE2foFW+fcNC6MCwEa1inPj6BNuA1CLo6aO/aD8HdyQjnHuBVBx3Txq3ml6eOm1j9HyL9rf8ehTCuNaGwqMaWnrDWIuIdnuO6LcGcdhsT8luzJHIW3pi4Nx5eeGvpxqA7fr2rHyJL9jeNTyBE+s8kB7nqGEMqydcTKqnv6GU7mj2eeSMW2kbV+ilFHte+zDAsCuDIpzA+lTbgRQoPNR7KPyd+pCO8Y8GNdtTsh3+lz8dSsj5E/az2j3g2yuJ5brrjRKm7juDWIuIdn+Lr/rqjOOwWJ/SnFKFcbclrWf3az47EuhpWQuk+2N/Pvvg9YleGLcJ0bRp0B+ndYdt22OIFdoNCVwS7i33bqOOeVPMLfK/1x2UvnHEwDAQKt4N5M+3WYARdjCKPa55aqliPTOk/FzLflSH9jutVHbL3PUyWZfdYYxpbzevRrEW0qy3eclkTOOofeI4ZqD8r/AcytjXvPZ48rPPhe6b85Hgh8Udg3wKYdh/Tux3hNKsPYlWJclymWcyn3uOKmcdZ4OKmPUv1X5NgBAJWLepPuE2wGk1mjq6PYqI4ET2t5EyRh8OuhrmZpB+UcFLWmDtjlyqJHdeW4lVrmJW3GHXptKSbYPHrE74xh6jxhuyTk1/6T1L9rald8R8qKnX/ldl9s2J9ud/K+/PvtIsp+1QLIdpei07rgtTaOyR7OXts6Tb/kty7an2ZgAgDOxpwH3ooON7XjS1MnNPZrPqo0f28P0biw1J+KfNV3fSz0XBm3ruB5ks1+s9klomYw1bUvJ9pPHtli/2OhWfv89qev3X+5Ln+O5Xfk9ncd3SGHJ9ndN+9Yp7EVnyIJ8TWD8520QzwIoQ6N1x25J/Qinckezj8q7AOo1jcoY1T6orP0CAEgs9uikN3GjQZ2O+hzdm7vDZtXmuuwljT5B/VpN58qo/Mf4edvColRWSU2fkhK3pHqI3VKy/V3rZ1/0xt/vVn7/PSlfulgeF+3K71p7r7QoXXBS+L7tFX7uWPxWfWAMgKU119QSRiQ3Kns0e68yZxU+q4x91kXeTgBABawWYrvXfKe0AinNddhfVUZHzbLNddlrTz6iXCnuJT5tVJkPhEtY7dNRdud+qlHNW0u2r33h0Rt/v1v5/Y8MxvEtbYPCjot25fetGeHaKP+sn5PsfuvQY7AzigOw0GjddSYnp3IH+5RcgvKoMvZbyOwiAMAGtUpzA9rCaENsR6OpU7vFBHvpnWJsT6/8x/y91kXb8ng62Wy71QvvVC9VLJLtJdRtPd+epQ4qP9mesn7/eeuN4l/znUuVcLxZJ3kaz22yTPoDVpZeV0/KMzO7UZkzBed90qvcJHLootKWzXI2IQBgQzqluRGNqne0IerW6HOh0xI7tFbn17Mo44S0ciXg1rZX1fMCqpHdNltJsUCmRbLdJYhzaVtTa/wg2xHSMRKfsdf+udU6w21Y872PNCpjRGWvONe2tbNEGNmJEjVafgy7xLG1KqPW+K3z2ansflOrMp7pRpHfAAA8kHIqbKyHA2C25RIxl508Fj9FLk75z4E1zSKhm8Kg8G31WaTzlhSJ1q0l29+1vA5wI/tku/U9wfqFwNLmjLdjzTbcOh6PKmNWT4rR5EuT7sxiRamWJrQtX1Dfc9B0bxgXxpX6mtKr/GeKRuW8qODaBwBYJPUiWCfVOc0fZWo1HU9bT7C/iyQ7yuBk+8DSKU1Cr/Skeyub7bRc9G0wiulWG7S9ZPvS5I11rfkYyXYpzQyHy+1oI2xHvyKG83JMjaZzKned9vNzpjHaJ4/cK3XUi74IytVq+fUmdr+glBd111oNo9lnpSyKOopR7QCAlXJMFx5FvUesc9D0IPyiMqZzp2i1jDrBPlgtnnltUe1GU/I95gNVyUn3UeHbNxjG4wziudf6CmL0Oa6XHF/Wtb9jJdtTLZYbezukdcfKSdO5VEJy57x1xvtkqYOmBNPcSr2GArNBy84pq7VOrnEq50Xd5fWtVz3PFa3K2Y+MagcAeHPKc/MaReId183lYXqVOQUzdmc45oMAsJbViNxHSbV5IaxYya4Sk+6dbLbN6gE69kKpvUGMqUdeL2ntgrit1z6IVT+7UdqEc+w64IeE22LdBrFGC7BUq2XnVYyFLhvFHzgQco11Kq//c0uMxcR92yhGtQMADHTKdzObS800cTcRhWq0v9Hrl8d/L5LsKJNVsn1NUm1OvMc43/r1uyCaRjb7tjOMqTOIJ+a+7yPG59uWJG+s44758ijliMJUL8FKPG7utRS12oGtGfT43Bple81pVe71pVd9yeJSyse8i1HtAABjJXQYauwcYLlGU2K5U5nTtlO1USTZUT7LZLvPQ0ujOC/hnEcsMVgsADbK7oEw5rouvUF8/crvfIm4PUuP7YPsj+GYSerOONZ77TXidlxqEmxPr+mePs/Q8/mMeQAKSR5gnVbLzjGr2TRO5ZQ7OW+j6ryGtCpnf44iFwEAiKRX/hvdeYehibmxiKoRyfXLY5qFT1ELp7zJ9nMx6l43gTGFamWzLa1hTL1RTJetD4xrbdJ6Xnxzzd/xbfeu50fZl+fpFS+R0hrHGvOY8BGjFNG9GZqtll+3SLQDYZZc77vA72hUbtmYQXUO4impfMy7GNUOAEigpBvfu6aEzbPyJ0hwW6spQbfXsjC32iiS7KiPk92123L0teW15dUoLl+jwrehN4ynMYgnxjFw0LpRb3PpohSLfj7fidv6JZH1730p5uyGlNtxz9pj6V5bmiBvdL9P/aq6aisDJWr1+Jwd5X+etSrv2Xi+Dr2o3ufjksrHjGJUOwAgoRI7Fu+aHpZexE0xlzmR0Wl6UByV/5gorfGCCDVzsjkP+kjxdUbxvSvffcRi8cyTbJN0FuVtrl0LQ2I8an2y/aA0yePhTtwuwvfFWOTv3BAh5mvNRd6OR0LLZPmORD9out6cNwA2lly/Wo/PdQs/O3UbVfeLulbllI+Z76+17ksAQMU65b8JPnrwedWUvGAEsa1WU2eu07SPS+oYldjmUWrNyv0MlMTJ5nzoI8dpNXp4iBznNVbJYGcYU2sQz2WzSLav2U/n9cBjlA45b/dKEvURvs+t2G8+uggx59iOpRqt79NQ8gUoU6vH5++aF5bzou3jgs9N3V5V98u6RmUN6BtV9/4EAGyAU/4b4poHokFTR+lJPBg90upztHov6qyvPdZ6cZxhO5xszo0+UbxWC7o2ieKd9QYxD8YxWb9QDU22r32hcn7Mtcbbcq25KzEfZD9L4HTjuywdjWO+tR2l1Raek2qPYp9fpgMo06D75/CoZfejRtO9pLTnoHvrRNSkU1n7llHtAIBiWCU2cnVUBk03eqf9vMk+n77c6XPh0kcdU9rtNopyRtimXjbnSJ84botkYexSHedag3jfZfvgbVHe5ryFJtvdyu+7POZiz8a6Vvvfsjb43E6KP3PvoPijOFNsR4iDvq4/04tBG0AtWj2+BrULPqNf8Dmp25u28bLvSWXNFijxBTAAAF5TcEtucyL+VdPD1bM+E9QlP2Qd9Rnns35NppfUqdlCm0sWNQ9+F6BWvWzOlT514B9CE8ZjwliHwFjfNV3vrTSyfZkeWld+7bF4+bKkM9yWpdt3lP19d174NbYYdfsv91fJyXYAdXt0T+3v/F234O/naL22MbDnqPL273npOQAAVvtDgu940ZTg2ItvZ//+Q9L/XPz/PyV99/jcg64/iP7DxX+/9ecQxw9Nv/l/f/zzZ8ZYgNh62Yyg+k3Snw0+x9egsAfUf5bfdXwNp/CXEj8k/TE4kk+h++3cT0n/Iv/7Ya91o87+rOm4mzUKH13/yL9J+v3sf88JBcvv/K5pP8a+9zjFfUn2XdP++hHxOwDsV6v75dV+arpfXl5LnaR/V1kDaX5K+qume9qPrJGEO2jKFbjMcZz7qanP8PujPwgAQAmsFqyj0Upog1h4F/tykN3Ioy5t6Fe1CtuG2C+RrRZKbVd8Z//xd24t8NkZxDO3kJHMjdbPnnNXPsfqeL7VLkvJuAjf0S/cZ6Eaxe3DxX7xAQCPrvnnL3AblVdD/F3T7Cin7VwvO5W3j99U1ssVAAAWibFAGI2Woo2aRl9QoxV7ZFlv2qUN/a5B/ttxrS63pS4gtrmtqTV/WWZnuPj/nUE8FseBz/ow177ryXh7LttlKRkX4Tu65bstWMzygCTbAcTWatk9/Ull1md/1TbKxsxKq9N+3oaI2w0AQHSMdqeV3k6aOrdOjHLAvm012S6FJUHHiHE1AXGdX8PWJDGv3ZM7TQnuziAei+PArfye043vSrHw5/lIyd74s29tVyydcfznbRDJdgDxDbp/LXpVeQngk6b7R2O/O7IpsU77tdZG2n4AAJKY67XlvqHSaHMb9JlgArDtZLsUntiOZQiM613rapu3Bt+3tPVrdsSZfuX33CtZE7vvcT77YW3cIdsVw9E4fotjAQDWaJXuHmfRRk2zzrb0MrJRmTMHbrUhyl4AACCxWt5007bX3jQlXloBuNRo28n2Wch2xXgYbgNjetf6B0WL71x6zV3L56XPvaR0zATy/N3zcdEbf3aO0iuxSsn0KTcCwK4NSnOPC22Dyu4v+TiozDrtS5oz3xsAAGTiVN5UPtq22pxgpw47cJ9PnexbzaUNfbVB/tvWRohnDIjnXbcXPL2nDfzOpXGtve62Wn8cPlrsLGYt8nd9LqbbG39uv3SnGeo8Yy1xWwDsU6v49zeLa2IbZ/Ozcqr72d5nkAAAAEVzqvvmTCunkWAH1ttTsl0qK+F+uXCpT+s8vvdg8L3W+6rz+I5HI8At9u+9Nnx8T2/8uW7pTjMUayZAn3IjAOzeoPj3N5920vSM0kTb8nxabedZHgCATXLazs2alqYNmpI0rQD42FuyXSon4X5Q+L4PGY31Gvjd91q/Io6D/H6TXveT7Y3iT2lvZZtsH5VvTZEYMwHWHAcAEKJRmTXDR22vPvtsi2ViAQDYNKf4U8Bp9bXx/2fvfq8kx6087//mnH0/sRYsx4KJsWA4HqQsWMiCTVkgyoLUWMBeC1KPBayxIHssYMmCqLUgnxfMUEZlxR8SuBcAye/nHJxutaqCFwwSQV6CF5oSRM9ikVPAwh6T7VI9Cfc+IQ6LeBr5JKSXlJJ5ioyhn/HZng8U3jVdp1h8h+c2qFxCxuNNgGcBgL9WdSbaB63r2miJRnXuc4sGAMAutNrujzntcRv0WR6mEQBLe022S2l9tXrYZ1G+48UoDuukez9juwfFJ8TDjM9vjfvk3boZffJi8abF2scEAOvTqs7Z1a/a7pu35wVRS+9jrzaY7SkAAFbioGmm1KjyP8Q0nzZqStI8a7sXqUAtYmcVX2shb+jJGqX118qQGEfMgqS3NJrGX6tj4unB9kLktk4zPlua9sto1BfvdlL537xOtn0KOYMHsDut6ku0nzT9jjZuvS6vk3+ZttKNN7MAALt2lG1igJa/jZpmf3SaLpq3WNMQqFWQ3bkcskZu40lpfa4hhnfNSzzHOCr9pvqWVvFJklHz3y7oEmLP2QaV//2znt0eskYPYE9a1Zlo71R+LPcUtJ6H2Knf5Za/RwAAFnkSyffa27nGbSeS60BpQXbndsgauZ0Xxfd5MIphTIjhXdMDS28pJW++jvOt0pIkw5XPvKVJ2E7O1s3sjzer2u1z3z5Yk6OmY/dJ0/fVaRo/hgft9eLPB3HtA6QKqm9tr1HrvQ6a60n7SLTX9rsMAEB1jppuhGq7INtLO+mz5npQ+VfkAfwsyO58D1kjtzUqvt8Wie4uYfvnsbYxiGOO2N/TUdOD1lel36wvrVM/JG7Pu42qa9Fvi2umk+rq01wHTdcqQdN5+arp+PGaxHE+L4JIwANzBNWX8B207mugOVrV/VvqMU4zux0AgJkaTRdDveq7UFt7u0ysn+utc4EC1C3IbgwIWSO3lbpQaZe4fYvyHTnriw6Jsab+1oSF8YaC8c5pr6rv99Lie6o92X5OrD/rc4Z6DW9G9tp2vWcgVlB992+Dtj+Z6Kj6E+2t7N7Mumxd8t4DAGCnGk0Xb8yAn9/e9PladBCJdWCtguzGhZA1cnu90vrfFt7+W+L2lxoS403p59IkrnUtcssW8/Agh1b5vydvjT5LwFi8YZGjvYjrK0CqM9Hea/sPxhqlX594tjd9Xn8dZf9bPybtPQAA8ItWP892Kn0xkbudZ6p/Tao3kfsTQH2C7MaMkDVyexYJ2RSps+vflT+52RnEvLTFJh9TavN7tjfV+7vaKK1fpZPEjT6T64PqfeCylv0JlHBQ+kLd1u2k6Telcet1HRrVnWgf9eu1p8fEua2tPwIAQJUafSbiO003cGudET/os/RLp8+Eem2z0QD4CLIbT0LWyH0EpY+pKYbE7S+tZW7B4iHB3Jay6GabMc4lrYvsT04xSa5BZZLDrdY1cz1mvwJ7UWuivdP2H34dVO9D6vP3cK18nkfMORahBwAAM7T6eYGtTp+LbJ2bx4XH+GUb/cX2z3XUW21/JgaAeSxvSkLe0N2MStsPKbXT28RtjyqXAPD6Xft6w5vSv9oejNdYauWWTsv61meKq9E+SwHmXKMBKKHGRPuofSxmXOO+v2z3Hni0TttrFu1BAABQpfOiXbdakz8kABvUy+5mJOQN3U1Q+r5oErY/Jm675OvO7Y2YrG52U/vmsXjauY1a9t3dmpVXu7kJ7c4xhqOmfbfV2etLjiFgi2pM9o7aznXOPTXu+6+t1+3rLK81Wtb4ew0AAACggF52NyIhb+iuRqXti5TFSlMTwjW87uzxGrfFQpGN/BII55rac2/07yULanfQ46R7MN5mq8+3BGtOApVo1BPGltSY7B20rWucW2rc99e+i+ZBPwaH7eZehB4AAADASvWyuxEJeUN31Sl9f8TOgkqdlVXT685Wx9er7Pr0ahTT1zbq54cBR93+Hl81JY/X7lZi5iSb8jitPtfG8fjOttRKrNcAWKsx2TtoG+P1HJ3q2vdf25vmfRed0/bXUvYNAAAAQEG97G5CQt7QXVm9hhw7E7tL3G5trzunHGe9bBMdbUIsMTfizUcfBk1J9mfV8zDE0rn83Xl9mNhj/1wiZpDf9+TVTvpcM6fTr+vl3GrP+nyokDLuDHN3MlAhEu1lBdVdluuk+deZrVMM3cztAwAAANixXnY3ISFv6O4sZkD3kdtuErdb6+vOT5p/Mz9qurFtHOLwSijU9pBjLS5rsNeUaLvVzkn1F03HaCv7GY9BccfpYBwHkEONifZe+5nJHFR/or3T/Ie4XnXba722AgAAAFCRXnY3ISFv6O5a2eyXNnL7qd9N7UmCJ33O5r1sL/Kf/d3JJyFQQ738tWg0jRm96k7yvGs6Lnulz9qPMac+/rV4gbWoNdHe+HW5KkH1j8Ex38fgFEvt11YAAAAACutldwMS8obu7iCbG9Ahcvtt4napg1g34QAAIABJREFU4XxbI5+b8JPyJmLX6EnTsbk0gZyzDR8xBtWTWOmUZ9wBciLRXlZQ/Yn2QXHjcOcUTxcRCwAAAIAd6WV3AxLyhp7Fi2z2TRu5/SFhmyR+70vZtx7f9ZZdlokpnbi51kZ91tNvfXaBiaXj0VAmTGC2TiTaSwmqP9E+d0HUa46OMQEAAADATb3sbkBC3tCzaGWzb4bI7T8lbvcpcrt7kLpvbzXeKJgcNO3jXnUmdN40fVdPWldybem+jB17AG9BdY0NvdY1FsQ6qL59f62NSruutHo78Vqr5Y0nAAAAABXqZXfzEfKGnoXlIluxie+Um8Uhcpt74HUj/qZ9v1FwnsU+qHyy5tr5cE6wr/U7Clrebx4AoTZB9SR7z4tvNn7drUaNZXtufScWC473TvF1BrEBAAAA2CjLG5GQN/RsrEpfDJHbf07Y5kn7SCDEsioT9LXtcdbbuRb7qPKJmst2OYN9C2IfElkkrgALrep5GHdOtK/14dsSa0q0d7L5TrzeYKOUDAAAAICrDrKtoRyyRp9PSrL7a2sjtp86u76L2OZeeNV07TL2oaRG03lfWy32UeufwX5P7EOitkCswKWjSLSXsJZE+7um8c3qO2kc+7zHh+oAAAAAHjhomp1jdeMRskafj2VCdoiMoUvYJjOw7htkfxO+9X1+1HRMWo4fqe2kKekftP23OWJna55KBAt8aORX1iOmddpHor3RehLtvezH78Ep1s44TgAAAAAbQLJ9Hsu67e+Km13aJMYQs829CPK5Ed/irLcaFzx905T02OL+vuWo+PGgLxAvcJ5ZXXq8uDwPGsf+1qJRXQ84SnwnnVO8W3+oDgAAACACyfb5LPdTHxlDyg1z7Db3wPphyrl1Gfvg6aDPUjG1zIw8aTqmg/YxM/Wr1LF7K/XrsR5B9YwfvUi019YG+T0w9SoX9y4mMgAAAAD4wjrZvuUF+CxvWGMXLW0St7nHpORcHgulrn3WW6PpnK6pHvseZ7HfkvK9jAXixX61qudtmF77SLS3qmvsvtcG+Satra91L9uLY9wAAAAAVsj6BqTPG35WQbY3aF1kHEPCNkPkNvfAa+bbGpPCjaYke0312PdSi32JXmXGIGCJRvUsiNprH2NIq3r2+aM2KM/scI8H6u+aHiIxkQEAAADAP5Bsn6+V/Q1a7jiGyG3uhUdyosvZgURHTQmJWpLs51IxlDy5Lih9/5Ikgqea6rQP2keiPaietwjmfCetx064onXsR64+AAAAAFgBku3zpSxIaH2DNiRss4nc5h4E2d+Er6GUzDnJPqp88uX9I44XkcB4JCh9X3eZY8ZtB03H/GVbuyfVMa4M2sb+vOeg6Y2kGvb33HG+9dgRN3itzfIuSskAAAAAuECyfb6D7G9iY2/QnhK22UVucw+8bsZrLSVTW5KdeuzLWJQ+GrNHja8a3S/bdNI6x+1GdZQyGbSPRHunehagnTPuBIf98IhXDftRvCUEAAAA4APJ9vk8FthKuUEbC2xzDzzqunY5OzBDjUn2Z/HWxVJWb9u0mePGp1bLEoBDkSiXq6V8zKjtr1XSyHYB9y1/J+FBbCmNcmcAAAAAJJFsX2qQ/Q1aGxlLKLDNPfBYKLWWUjIk2bfFKtn+mjtwSJq+v9jflC5/uIu0Kj/OjNp+or2V32ztLX4njfxm/zOOAgAAAJBEsn2pXvY3aCm1PsfIbXJTeN8g+++5ZGmURiTZt8gq2T6Kt11yOyj9LZpT9qjnOaj8TOtz6Z0tH9dB9SxmPXecCQ77YalBfsfclo83AAAAADORbF/GI4HwpvgbtC5ymyeR6LwnyP577jLGf9bofi3o3I0kuy3LRZvbvKHv3pPsvrvayldY9i22vWi7ic9ziZ5R5cf0uW1UHYl2afoN8upnbeciAAAAgAJIti/Tyf7m7KT4Wc8pC3o+R25zDzwWSh0zx19Tkn0USXYPlsn2Lm/ou9bIvvRHlzH+ew4qX9bkVdsdaxpN11mlH2YsHf+D/a6I5lEq7tyGjP0AAAAAUCmS7csE+dyghYSYusht1lJHvFYeC6W2zjEfNB1LpZNd5zZq2o8lS+hsmWWynSRRPs/ySZbW8PvbqmwieNB239JoVc/YvuQ3INjviiQei92fG28NAgAAADC/6dh6AjfI5watT4gpZRZ2m7DdrWtk/z2n1Od/5En1zHg8fcRCkt2XZbJ91HbLbtSkkV/N6HeVfWhiUYc+9RgO3p0s4PwQdVT5sX0r30cvv37z1iAAAACwcx7J9i0nbIJ8bs5S91sXuV3P5O8WDLJPPlifH0fVtfhpL+rW5mKZbE8pZ4X5vGa11zCuH1WudNV5QdStaTR9nzU8RF3SRtWbaJf8ruXexVtCAAAAwO6RbF8myC9R0CTE1SRsd8vfV6on2X/XrVFsjeqqyz5oOj84nvJpZZuECzmD36FGvrPaL1uXpUc/CyqXFO61vbGn1frKxryr/kS7ZPug8lprsvUEAAAAQHVIti8T5HdzljqrtI/cbkjc7pYdZD9j/NUgrqB6kjCjWPy0lCDb75LyB75yzGq/bDnfMDnItzTHvTZoW29lrLVszPm7WMObTZ5129+1zbcsAAAAAMxEsn2ZIL+bs5AYWxO53SFxu1vXyfZ7Tnmb4CjqsuPTs2y/0z5v+LvSKN+s9svW+HdN+thOibdsTtrWA+OaxvilbdC61oHxfGC99fWLAAAAANxBsn2ZIL+bM4s6u33kthuDbW9VI/vEx9IZxAfVVTLmVdtKcK1V7Pl+73uFj6AyCdQxQ98k/7Ict1qn7VxzBJV5IGPRBq0r0S7ZP6z82tpsPQEAAABQFZLtywT53Zj1BvE1kdvuDLa9Zb3sExNzPTlsP7aNmo6VZkH88HGQ/czMrY/fpXh8V7l/Wx4JBfo1aBtjUaN1LoJ6+T20xvskh1a++4UF6AEAAICdsk62b33BzSC/GzOrRFcfse3RaNtb1cr++35UfqXRlNgeHbYd03qtM6GyVR41h0m2+3hS+USqdx3tLnN/tlI+Jmi9s9nPvwuN8T7JpZHveTmK8RQAAADYJY9k+5ZrOAf53ZhZJbqayO23BtveMuvE5r1Zb0+qZwHUN03HPUmDuniU7ThpvYmzWqXOaj+ff6njwcm5n31ifDHj55rHpEbrns3+rnUn2iX/RVLfxXUVAAAAsEsk25cJ8rsps9x3fcT2qdd8X5D99/01WXRUPQkYFkCtm8ds6a2P3yW0in87ZdBnsu6g9O+79+tm1mT7qPUmMQ9a/2z2k7ZTTsz7uOW6CgAAANghku3LBPnewFrtuyZy+43R9rfIItn1tZ0XSm1UV8kYZrPXz2Nxv62P37kdND08i/kuRv1a+iX2sy6b1/fbG8Q2t3VOffB21LSfaniYmjJGdNrOb4P3IqlbL60IAAAA4AqS7ctYJDvutdYw1j5i+53h9rfI4/vv5P8q+5LWa72zRvfiIJ/k5tbH79yOiju3zwnNr5qIz/ra3oz7eOZxPN6Kf23HaKMpqTuq/Pie0kZt7yFsK//9FjL1BQAAAEAlSLYv451QCIaxNhHbHw23v0VHlU94eLVRU0JoS4mUrfKsNdzm68bmdYr7Dl51+y0ji7Ucgl0X/yEYxDWndQ6xewqqZ/2NlDZom0ljj7Uvru07AAAAADvikbQJOTuQWS/fm7JQQbytcQxbU9MsdKv2Kr73NfFMEIV83di0RnFjxaj752Ib8Zlfm0dpiyeDuObsm7U8zG+1/pIxe/h9yLFIKiX6AAAAgJ0h2T6fV+kGz33XRMTQG8ewNd41XnO2LS10tydB6xmD9upZcYnWTo8T4Ra/2S8WnbzQyD+x3Kv+N2/Oi1yPKj++W/w+9Nr+78Mg/33Z5eoMAAAAgPJIts+XYwZU5xB3vzAGFvS6r9E2ZisO2u65unVLz2nG77wOikvgza1HbvXAr0ns51cxfV7yu/R1wdiaNJq+l628+TRqWwuh3uM5nl6e2wAAAAB2xPpGI2SNPp8cyfbeIe4mIo5nhzi2ZO01eHutpxwDftbIdxwKuTqyYU9a/kDupPnj7iHi83P83ni+9VPrwqiNtpVkf9f+HsQG5dmvNR6/AAAAAJz0sr2h2Gqi9qh1Jtul5d8xs7Duy1Gf2KONYhHUtWvl+2ZFyNWRjYotNzZo2UzzmG1ca5YJQKuHANdar7rGrUbbS7LvpWzMV63y7F/r0k0AAAAAKmZ10355U7xFnosSeu+7JiKW1imWLfBMKnm1QXWXYcA83msGhGw92aZWy+t1L5nVfrkdq3HBUm8U19fWGccZ66gpli0l2d+17wexOa7tzvt4j/sXAAAA2CXrm+M+b/jZtFpvsl1a/j1v9Xu0spZSMnudrbhFB/kfdyFXZzaq0/J9Piju/LRK+LYR276lMYqptuPySdtZ+PRre9W+H8TmKBF4bnvezwAAAMCu9LK9mejzhp9NkP+NmOe+Wzobm4VS7wsqnyR51Ebtd7biFuUoZRVydWaDYr6fmFntZ1ZvOQyR27+lM4qr9HHZfGz3Vet7k2nusfciHsRK+ZLtr7k6BAAAAKCsXrY3E1ut9+1dvuFd/g8quoXxbLX+voVcr57HtkHMotuaIP9jLmTqyxY9a/n3Myg+2WlZzqqNjOGW0Siu3MflQduexX553AWbXbYJvfLsdyYxAAAAADthfZPxpm3eTOS4Geud+7A0ObPVBycWcr56HnMcWS58iDrkGINCrs5szEFTAnPJvk6Z1X5mdUwMiXF8dTSK69w8F5e8TLDXOqZbtXNZMX4fftYp33fAJAYAAABgB6xu1s9ti8n2HLWS35WnBE+3MKY2Q0xrVGOy/aTp+63p/AuaYjq3tlgk69bI/3g7ibchYj0p76z2s3bhNnOO9ZZvg42yHdeOH/H12vYM9sv2pmk8run3oRZB+b6HIU+XAAAAAJTUy/ZG4qTt1QDNlVjtM/VnrDCmNTloShzXVEZmVH2zku+V1Tg/GMA8McncmLGbGa/LHTTNil66r61muFr9Ng1G8VzqjWJ7V/z+aj9a9xHPYBjTGhqz2R+zfhPjUeO7AAAAADbO8mb4fGO3tRuJo/LMfusz9ScsiIkaoz+rMdE+qM4Z43PHli2+DWNtaTKXsTufmN+HQXYPpS1nkLdGMV0aDOM7fXxed6MNF622N49KtEH1PYStUe41WLosvQIAAABQTCf7G4mtJWxy3Yj1uTqkZckhaoxOaky096r3fOu1rC+vZcKsXq43a0i2x+m0fF93httvZDcmDYZxXRqM4qPNa6OmY6x5/NVA+cvCjXm6BQAAAKCUIPsbiZAx/hyC8tyA9Zn6Iy2r9ctCqfUl2k+aZjs3fl1O1iuub22BWGvWKs9x9yaS7Us1Wp6k89jPlmuKtMaxnQ2GMdJut16svbBUiTVY2hwdAwAAAFBGkP1NRMgYfw6d8t0k5zQsiK3NHFtNaky0d6q/9Eqn9ZwLNeuU57iinM9yQcvHhc4hjnZhDPea5xsmS35zaMvaIBZATdEr7/fV5+kWAAAAgBKC7G8iXnJ2wNlB+W7Cct98NQti22uJDxLt8YLS+sobFdP3PCjPsUWyfZmDls8oH+Xz4PIg23VFGocYz3Idz3tpo6ZSb82C7wC/yrEuxmVjPRwAAABgw4LsbyL6nB1wlvP14hL7rZ8Z20n7u5mvLdE+al1vjVitdbBnrfIdf71I/izRanmC+0V++7hbGEvJ3yLLWPfaRk3HE6WfbATl/w5Dhn4BAAAAKCDI/gZiS7Ogj7KdMXiv9Zn6dOmg+cm8rkB8pdSWaD/PaF8TqwdVe57h3infMVZi/FmzTsvPYc9a2s3CeB61xjFWadoXpcfVNbaT6l4Ye61KHI9Dlp4BAAAAyK6V/Q3ElsoRPCnvzNISnmfGN2o73+s9jfLXb33UOq1z31vtxy09wJurUd5F+7ocndqIo5Z/N6/yP4eHhTHVcDzU8kCz9nZOsrP4qQ+rN7GWtiZD3wAAAABk5nGDMWqdicFr5iaiLVrJWvfjnbgu29Zv9BvVl2g/ab2zGC1nCz5njr20nA/63kVJgyWetey7OSnP8RsWxDQn5ly/451h3Ftro0iy51Aq2d5l6BsAAACAzDxuMNacHPyqV76brpCnS1fNTYoOpQLMoFF9ifZza9167auR7fjS5Ay+sJwL9nmXONmSmIVR35Tn2F1SFmxO6zLE7BX72tsoarLnlHN9nq/fMwAAAICNIdl+20G2r+U/aiFLr26bm0Dawnf7VaN6E+3vKvvWQyrLc2gv9dsb5U38bGXMzqHV8t/MLmN8lg9pRuV/Sy3n22Q1trePfcD5mFepZPu71vswHQAAAMANjXxmk4V8XXCTc3HUGvZZo3lx9oXi89Ko7kT7u9Zdmsk6eRayRl9G7hIyuWZeb8HSZPaovInTdmF8tZ5vtY/Jlu2k6WF30HrH+S1Y+saKVetzdA4AAABAPl6zeULGPnjJmfA6qY591mlerFtJCBy1nqRO67ML3DWyPY+2dPxdc1D+Y3LQtveplZiFUXvl37eWv+ml3yZZy/gcu287rXds35pSx9rWf9MAAACA3fFKtvc5O+Ek5+vsNZVxGPU43q5UcIZa5S0TtOdzyno/r7msziMxCd09H1s5xSyMWqIWfrcgxjmtzRn8Db3Kj8EWbdTngqckWOtSsoRR8O8eAAAAgJxItv8q9+zSmpLtcxZLHYtFZ6PVuhLt52NkrckZjyRGk7MDGS1N6Fq05yw9W7eYhVEHlTlnG9keQ0PW6O8LWt9Cqm+arieCtjtubUFQuWOkpnMMAAAAgIFePjeXa00MSvkXyxpVT7JdmndMhFLBJWq1vkT72vd5I/sEWZ+zA5nEJHRTWy0lrGrXavkxXPIhhvUYV9Pvk1T/WhuDpjcMmMG+HnMmGni22s4xAAAAAAk8bljXnmw/Kv8ChTXtr4PmJRPWptV6E+1r3ednHvu9ydmBDHIvyvyuut6qqdnShVHfVHa/WicO+7zhL3Jee6PUjPeTpvHtRdODK86ndcp93fe1de49BAAAAJBNJxI4XwXlvcmqLdkuzdsHbaHYYrRad6L93NZ6XnmUkumz9sBfp/zH05u299DCWqPlbzq9qOyYfpDtg5uT1nGcHDQ9aOjl83baqM/E+rOm35XafrsRp3SyfRTHEgAAALAZQT43DmtNCkr5X09/VZ03WYPuxz2UC22RVttItL9rvbPfGvkkMpp8XXB1UJljtNaxpyZB61gY9auls/G3OvZI02/Ak6Y+nNtwo13+mXNCvRXnydZZP6CKaa13JwEAAADk4VWnMmTsg6USSa8+S8+Wa/Q49qZQbHO12k6i/V3rnv3mUY+81nNnqSeVmVX5kqNzK7amhVG/OoqxB5gr91o919qrey8BAAAAZOH16myXsQ+WStRNrjnh9aj8R18utIdabSvRfm41zJqN4fVgr8nYBy/Ws5DntpChb2vWavnvQcmFUb+yTh6GrNEDeZVOtq+lXBMAAACAB7yS7X3OThgKyj/DNGToV4pB9+NvikV2W6s6Eu0n2T+8Gex2U1Zer+mvdaw5O6pMkmfta2vk0GnZPi29MOpX1mslvOUNH8iqV9nrhXfV9bAOAAAAQCSvBNhab8pzzzA9qf5k+0H3+9CXC+2qVvUk2jv5lCZqbHZVdh7n19pnAwaVKSFT48LMNWm0/LwtvTDqV43sj602Y/xATr3KXjOcx2UAAAAAK+dVp3KNiZwS9drXMrs06H4/mlKBfdGqvkT7OS7Lz++S91QZ1nWk174/YmqCW7Ve6xujc1paR7+WhVG/sj6+qCuNrbJ+EyS2tc79BAAAAJCBR7JnLUnkS14lde61UevZT73uJ+5Ka1Vnov3s3v6LOW7Wmij1+I5OWuf+KLFGxLlRruC2g5afr4PqPAY91kpocnYAyCSo3HXDZat5HR8AAAAAMy1NKsxtbcY+WAjKf1O1tjcARtWZgGlUd6L9HKPltmqcRTuH1+zBLmMfrJSaSXnS+sbnnGLq6HclAp3hIPuHyF3ODgCZBC07D8aFf37J+Lym60IAAAAAV3glfELGPljolT/pNWhdN1WNbvelLxhTie/u1j5o7sRqGeewdEdVwiP59671zfYvUbbq3GpbyLM2S38TR9W9P63XSiAZiC1aWubsJL8yYMG3qwAAAAC8BfncLPQZ+5CqkU/t+i3to7Og2/1pMsfSaD2J9nO8ltt8tL1aeX1nIWMfUrUqszDqu6YEEcnS62IegvSqe3+22ve5BsyxtJTg+Q0hj3F88O0qAAAAAG9eixauaSG1VmUSX51/11zcminZZ4whpq6yVxs0vyyHZczdzG3WppXP9zBm7EOqTuWO1869d+vVannCLRSIcynrh8lvecMH3MWs2/Mkv+uQxrW3AAAAAFx5LQy6pnrkpWonhwx98zLoep/aDNs+aEoYlpoZfNlGLetzY7jtNZdz8HqTpM3Yh1glS8ictN56/zksLbnypnUkxTrt81wD5jpo+e9SkP0ba+fWOfZ1qYOmvvb6+bdrEIttAwAAAFfF3GDMTeo0+boRrdQM6ZPqrvM7x6jrySdPtSXaQ0QfLI+3mO3XwOsB15CzE5GeVO74pV77bY22szDqV43sj7k1vb0GPBJzLdx9/N1h4d+b00bV8TC91bza9Py2AAAAAF94zTJdw4V3ozL12ketY/88cq1vwXF7z6oj0X7SdKMdczNsWbppiNh+DbwWSn1X/TNurResXNJ61ZHAqVFQXM3mtRhkfzw1OTsAOIpJtvcff7dd+PfmttJvIQVdn1Rxr43iNwYAAACQtO8FC0vNMl1TmZ1HriWhPPoWtPzGz6u9JPZxMIxlrQ9tvMadPmcnFmpU5uHeufHK/3UxbzitbaHZIPvjqcsYP+BtzgzuW78148K/O3eMKSUorU81/w4DAAAAWXTaX9LrrFOZpFevdSVqHvH+7lvVk2jvlT6jszWOZ41a+X1HTbZeLFOyhMzaZmLndNTyhyBre3Dh8TbJmteNAL7qtez4v5w04VEarVQ5xiC76y3GBwAAAOxWkE9yZ8jYhxgHLZ/JZNVeMvQvt699bI0+t1W5BSWvHdONUb+s+rTmhJfX99pl7MMSJUvIrGUxzxKWJsrWWp+4l/1xFXJ2AHC09Py4TLZ7lUbr3Hp7XSv7t6/ajPEDAAAA1bCsIX3rRqRGR5WbLR38u1fE5f4cDT6vUbkHIl/bINubxtYwtrXNsj0L8vmuanwAETN72rL1/l1cpZiHrr3qO77maGV/XHkvig3k0mn570xz8fc9HqaOLj29rpHfA/AmWy8AAACASjTymZFzUt2z/4LKlHTYejmHy8RVn/A5jfzqesfc8IaEvtxidWOb84bckudCqbU9gAgqW0ImeHdwpVotXxg1FIjTwkE+D5jbjH0AvAQtH1cvr3G9Jq60Hp394iDfN694KAcAAIDdOchvxuVTxn4sVaqkw1pLECxxWZYh5hg4aJplVio5+fWG2itx2xrG2TrF6K2Tz/c2ZuzDIzELcFrvi62PObE6LR+/mwJxWulkf3yVXMgRsBKU/rs7RHxGDefXs/yvt9oM/QAAAACq4lWqo8vYhyUalSvpUHt5HSuXs5aXynHjt+QY9vy+rI7DwTFGT438vrtaHvaVLiHzqn2MOUsdtDw5tvb1Njxm35ZayBGwFLT82A9fPuMp4jNKn1+t8pRU7B37AAAAAFTJa5Z3rRfXrcolc2vdJ16etCzp+aRytfSvfVdNRJ+XCIbxesfqxeth35CzE3cElX141Hl3cKWetLyETFsiUGODOMaAr45aPk6HL5/hVarJ6+26RvnWxdnLRBMAAADgH4L2dXHdKc/NRc6bpi1o5bdA19I2KF9ibTSKea2zblv5fY9ttl5cV7qEzFYSxB6WPmQeVOfv2VKXZb6s2qht7BvsV0yyvb/yOd3Cz5jTvGqed8r3ILjW+wEAAADATcxNxtxET5OvG7MclG8mz7X9UUtpi9o0qmtB1JzfUzCK+6T13syO8vkuS9eTPqrsmxokOK5rtLy0T1cgTg9eCxPz24Y1s0q2Nws/Y25rLTurfOVj+C0CAADAbnndfHvcIKQqmfwaxUKF19S2IGrn2dkbrI7JkDluKx6zbc+tydeNX3j2a05b69sO3paWkNna2O3xwHnI2gPAVkyy/daMc4/zqzfsa+MU46N9RbIdAAAAu+O1gF9tZVOC8t5gcLPxWFAdifZ3TcnJEt+RVVLW63Vzb54P/EolnEu+RfMu3qS5Jaa0z9YWmW3lc8xt6YEE9uWg5dfBt67p2oWfM3c8txqDOuW/5traGAoAAADMsjT5MLf1OTvxQOn6yTXti1q0qqtOe+PZ2Tssk81t3tDNeC3UXKq8Tg0lZEh+/uqo5Um12h4aW/A4NvusPQDsxCTb7/22DAs/K9c41KrM7xJvWQEAAGCXgvwSPrXMZolJsli24N7DdSn98OOyjSqfpO5k05fSdcpjNfL7frtsvfhUuoRMr3rG3poELXuwtdWHFp3sj7k1rxuBfYtNtt8aG8LCz5rTRoM+9g5xzWkhMXYAAABglY7yucCuaZHUoHLlSk4qn8ytzbPqKB9Tqk77V5az25u8oZvxKrsyKm8SsIYSMsG7kysUk2zqtc0EciOfY2+LbwFg+2KS7e+6nWw/yGcGeZvQx6Ay11yjtvnAEgAAAHjIs2ZyLXWDlyZZLNtWZ0fGKv2WwWXrVU8yrZNNn7q8YZtp5fc9h2y9KF9CZhTjzTVLx52tP7QY5HPsAWsU84A03Pm8LuLzHrXYN9calSvZN6ieaywAAAAgO6/kZ5exD7c0KpvcZXGoTwf51eeOuQmsKSnZyKZfay7n4HWejhn7ULqEDOPNdUGUkLkU5HP8tfm6AJjptfxYD3c+z2MSS+zbop1xHEtaFxEvAAAAsBkxNxpzEz+lPalsyRIWh/pU+rs4t1F1zlq1Og9D5ritBPl95219/9U5AAAgAElEQVSG+EuXkHkXpTyuoYTMr7zeaKvhNx9YKua3t3f4zEetW9ivVuXetKKEIgBgFf6pdAAANi3o8Y1DjO+S/k3SD4fPnutF5RJQPyT9SdJvhbZfk0bTMdaWDUOS9BdJf1XZ4/KaRjazsH/XdN6tzbl2buPw2d8k/YfD5146ako2Ns7bueW7pD9o+v7x6ahp7Jk7U30v47bHb+MPTWPPd+PPBTz1Wv6Q+jdJf7zz/zeyf6vqu6R/mflnD5L+rHLXv980/R7Vdp0FYF8aPb4un/NnUvyrtj2B4+y7pL8/+P+/X/zvH+KeBcAOeC6SWvJV/EZlS8iM2nYpgiU6lfseLtuguhcRtZoZ3WaO20onv+/e+1ykhEydgpaXkGkKxJlbK5/jsMvXBcBETHm7Nz0eb4eIz33U5q6FVPpNwm5mnABwzVHTdcq5dV/aq6Yx9rLV8PY0Lb6NH9/j68d3HLTe+1kA+IeD/F41Dfm68YvSNxuDSH5JZV9l/vojXsuivbe0sulrnzluK54LNnvuE0rI1CmmhMyeSn95PIwexe8e1iVo+XE+J9neRnzuozbM6E+jsr9Ho5hoAuBnl8nzZ30mzXt9JstLTpCj1d/eNB0vzyIJD2BlvC7M+5yd+KL0Ypx7StrcUtOiqJ3WkQQalN7X2MXUatDL7xhonGI+quwDJerjXnfUspu3k+p/IGfJ622MkLEPQKqguDF3zvWER/KoebDNZ5WdaNLP3DcA1q/9aE+6nkBntjnNu71pyjUErffeF8DGdfIbAEtcdDcq+4T8JBIOUvm3C85t0Hp+gFvZ9LnLG7aZRn7HQecUc+kSMoNIblwTRAmZe7zeJBlydgJIFLT8GJ9bJjHmsx+1exM5GvmUr1myX/b0wBLYqoN+nYn+os8k+qiy17002r026nM9Fu6PABTXymewK1W3vXSSdxSv0TYqe9N3+V2s7eZvlE2/13qB4XXczJ2NuEQNJWQ64z5tASVk5lm6j+a2NmMfgBRBcb8lc67xPMo03vsdKz2rfdC+HlgCa9To11rovT4T6aXGDxrNs72K5DuAQjxrJedOdMYkWazbIAbz0jd959Zpfd9FkE3fQ96wzbTyPR4sUUKmTku/l73OyGzlc1z2GfsApAjy/X3tIj//Xru2Rkej8omybuY+AeDj0Yz0Gu7LaLQaWi8mRgLIaJDPYJZ7tuDSOr1b6HNtjip/0/f+EcNaf0hH2fR/rbzO4dE4TkrI1Gnp97K3EjKXLMaar83jLRLAQ6u4YzzM/HyPySzXfseCw3aWjqFrvd4C1oBEOo3m016133sAAJl08hnA3jL2QSp/w0G9dr9jaU/fQyeb/bDWm98gv2MjGMVYw1s0e3+wd81Byx/29dpvcriTz7HZ5esCEO2ouGvGsGAbHgvFX26/hnJmL9rvGApYaD9aEIl0Gq1U6wQADlr5DFon5XtaWMMNx95n99TwZsG71p88s5oN1+cO3NAon2NjNIqv9LG+19Inj7Radu6s/cFcqkY+N/JW5xngKTbZvuS3tYn4/EdtuPj80usU8VsE3Hc5K737aK+azuMa7ploNNrP7VXrziMAqMwW6raXrp/M4FzHrPY3baOOdaf0fbHmcg6d/I6R1iC+oPKv7TcG/diapbNI9/6AVPJ7SE0CDrXLkWyXfN6CalXHJJNB673OACzcS6aPKnt+0mi0+Ja7QgOADfO6YO8zxV+6fvK79v36UavyF5Unbec7aGSzT64tprYGng8AB4P4eqfY5jZKyPwq5m2DXiSKWtV7nmGdjvosh3BOOg0f/7spFNM1uZLtbcQ25pxfrcov0r3WawxgLpLpNNq+G/dcAJJ5Javf5J/MiKnTa91O2saM6hgH+dQlXdoG1XUjn6pX+j4Zs0dtp5PfsdImxNWIEjI16rR8X4YCcdZolM+xuve3Bvak0XQd+ap5CewakrSxyfaY69ohYjtzft9L/Q6d9wPnOLbgqJ8XH+1FmRcajfZzawUAkY7yGZhO8r8YL12z8l37LuvQqvxN3xZrL1udk23muK008jte+oS4So83ex5rbmm0PJk1ikTRWaf6zjOsw0FTgio2KVXyGMmZbG8jtlN7Y7Yf1uLa7PRB5Sdq0Wi0dbVBABDhIL8n+N4zmGqYVd0797FWtcxq32q9/EE2+2atevkdM01kTJ1jTIw1cZ61PGk2aJtjRoxGPg+Q1rxuBObpZHPslEjcNsqXbJe2NUt2z29zok6NpmPySdO49CJmp9NoNJ/GZB0Ai3klTT2TfTF1eq3bFmdVz1XD/h+13Zu+Vjb7qMkbthmvN27eFZfcKV2yas9jzS2N4r6TLn+oVfNat6XL2Afk5fH7n7NEVuwkk9iHSCFiW7W2rU5wQN0aTdfFQT+XexlV/pyg0Wj7arzdBWCRVj6DkefstpgZjdZtz3UrO9XxY7flmz6LZEaXO2hDg+oZl44qe1O357HmmoPixiDq3v+qlc8xO2rb4/OeBflcf42Z4k9JtseOwyV/P6waC6PC07nky3mGei8S6jQarc729j8EAPMc5DcL/Q+Sfhh/5kHTRVjppMnfJP1R9v2r3VHT/i+Z/Ptd0p8kfSsYg7eg9H38XdJfkyMpo5Xfmwv/qWXnbVDZMi7Xxpr2458H/Xyc/HummJb4LunvM//c9yv//Yemc/4sSPqzlr+58bum/fj7oz+4M17H9l+0v9/HPejl96ZNo+na7m9Ony99vqm09Pf1h6T/UNz4EbTeN83OGD9hob345z9rOg+/XscAQO0YswDM5vUqucerNq3Kz2p/135n+HQqv+875z7W4CCbGT2lH0qlGORz/IxaNuu2d4pjSRsc98deGiUQruvkd8xiW3KV1Oqc+5B7ZvtBdVy3prStv00IO0dN92rPms7lV3H9QqPRttkA4KEn+QxAsQtK3VLLwpyj9vlEs1H5C+Y9ldTolL6/htxBGwryO47CzBg8F5Gm5W3UWbzOMxHY5usGMsg5HnYV9qFN2G4Xuc0aGiW4cE0ryr7QaLSdN0rKAHjkXJrFg2WplRpKmEj7LSHzrKl8Q8nZTX/RPma2S9N+/j8Gn/NHg88o5c9On/td0m8z/txR0w0kM/rW74+a953vkdes1d+07XJfe3PUNEu1KRxHitgyMtI0hnxL2K7F73kJ3+RTFhL1az7audzLv+qzvjoAX99KBzBTWzqA0ki4A3ikl8/N9l9kV+Oxk1/ybYk/ab21sGPVUCv/m6ab3e8FY8jNIgn2V613nwX5JXb+NHP7vD6/DX8RyfZbWvnU4f6hab/vxVGfiSlp+s36XdtJUpZ4+Pjd+PNSk+2/JWz7Wev8LdnjNe/enJPprailDpx91+3foP+68/e+PfjcR///lrU3/vu18eafv/y3qsekfyodAICqPclnodTfJf2bwec0mpK9rcFnpfiuaYbP3haJalW25vE5abO3G75G02u5KX5I+hetM+FzfuW/cfjsb5oWvLunUx0P+GDnPI6s8Xzw5FWiaw9vIzWaZi0H3f6N/E3TvvieIyAnpd70+Z+yO19LJtsb2ZdX9MbCqNvS6jNhdU5kNVr32yrAtyv/7bukv1/577cegG/pwfheXCbfL9++aVQmKf+twDYBrITVgozXmsWA96w6Fpja4yJ7NdTKH7Tfm4FB6fsv5A7aUCe/46p9sO3ecdu0sm3Uemeaegjy289b3seNlo0TJ613PD6qzHWY5USQlJrtwWD7S46VGlqvbZ+/W9Xq13rqNdxD0Wjn9qbpuLxs3Zf2rOlYvmzVzmxGdQ6ajqGcx/Vzlp4BWCWvhGqXGFej8gtz7nkQPar8IpF73O9nrdL335A7aEOeCzjeS+KcSyeVHnNo/u2k7c++fsTzPAv5upFdp/j91ucPN0mpZPu77N5qTEm2W3xfTeS2S42LLIxat1Yk1Wn520mPE+VPIkmOsg5Ku0aLbTygBnBVK59B5y0xrifVcfE4ap8XC7mfCl87fva43y+NSt+Pa96HnfyOr+bGNlOSMrT1tj2PN14P3FOvAWrVyGaMWMvD5JJj4lBBH3qjGPrI7ZfY541Rn5GmFUl1mn0bdDth/nVW+V6vi7BOjaZr2hLj5It/9wCsldeNVOyP9EHT7NPSFyTv2m8JmdL7v/Pu5AoE7fvH33PWbX9nu4PTNmnraEH70shvX7bZepFPkN24NOYNPUrpB5BN4T70BtuX1jO7vTPqL+Y7ahorO03XbINIqtPmteGiveh20rwRsG1HlX2oPWp/+SIAM3nNYu4i46llVvu71jP7zFKrsvt/z7NML1kkm9f+49/L5xg76fZ+Kb1WAa2O1ms/BvnsQ48F2EvzGB+anB2IUDLZ3hnEX0OyXSo/ieFRG7XNB2S1aDTt32d9JtVHlf/eaXW0r2VaOl0vz9IIwKVW5SdKnXSRu/gnt64CWKPzQqnWSbnvkv5Ny1b6PtdMrqFm5O+S/vjxzz3pJP254Pb/KulPBbdfkxelP/D5g6S/GcRSQiO/2Z9/0fVETqt117vP5Xf9PLZ/l/T3mX/33y/+vTWKx8vfNP0OLPkdW5sn+SXG/0XTsbEFntcn/yHpm8PnWuhV7o2P3zVdR6Y4aBrTYx7i/6bp/LfQqu7flj2MdTkcNB1rzUf794v/hn35rs/fv+/6vEb6+t/P/w5gmaApZ9GUDUM/NF3H7S1nBGAmr9mc7cI4aprV3mvds4JjNCr7dHhU/cm3nBql79Oab+7n6OU3C+HW+e21zTW0y9lVnX6dVeXloM9X6Wv5Dbhsb9r278Eon/3WZeyDN++SKm22nizTqey5l5qkTPnerNceGCLj8G4n7fNNzlStfq2rXvq7pPm34aO96nrplkYAPJVaCPVW4618AHc18hl8lsyWq6FW+LmdVMfs+txKP+zote2EVoxB6cdykztoQ438jrd7yYVaLuC82ps+E+rnm8RaLhQ96/Vb7LctjlGdfPbXvYdaa3OUf9mHNldnFgjyOY/mnuOpSeDUZLvl8dtGxpFjXKtl/K9Ro1/rqnuPBbQy58GgnycbBH0m0bfyWwasWen67NfaixgfADzgMXAtSfSVTvRetmFB3FtSsl71Xh9wPNIqfd92mWO2NsjnmBsfbLf0OGQ5nvWajoNW6xjbannweqttLenu+YBjKzNmj8pzjdJm6s9cHv0+J3fn/Nk+Mf6aku1SnbOfSRR8ajUlWDtNv0Ml1yyg2bVBP18LdfpMovOgCViHJ9X3Gzqovus2ABVq5TMIdTO23aiuwXNOzFvTqOxNxSBu9m5JPTesX4XPrZXfcRcebLv0WBTzXZ9fbW61jsT6Nb3ix5Gg6YI89jOW7u+tjFte+2vM2QlHuZLt76rrxu28ro/HefO84M+mxF9Tsr2NjMWr7XWiQ6NfZ6vXMuGHtqydZ6T3+jWR3gjA2p2vF0aVH28u26hya9oAWKFBPgPRI8+q5yJ3VF03urmUfLOAeqH3tUrfx23mmK15jE3vmvcgovSY9Cj+Xp+lYLYgNjn2puv7oJF/4r036ntJc2ca73H8kfIm22vbZ4Ns+3bS52zSR5+9tWS7VNfkkkHbT0i2Yrb6WtvlOjIv+rm0CzPSge1rNJ37teSJzu1NJNoBLNTIZ0C6N2vmqLpuPHptZ6biEp3K/mBx0Xxf6jnykj9kU638jr92xvZLj0vndtLPM9e3OFbFJse6GZ/dyHdRpbWfZ6njzK025OyEk9zJ9rljUw6d7Pt2+Zt/789tMdneRsbj0TqH/pXSaNq3z2K2+praoOuLsjcCsGet6qvP/v4RU+vWawCb5jGoDTe2dVDZOuFf215fpz2o7AOPtSeocmiVto9HrT8x63WM3hqfvhqdtj/nu+s1zaDYw0OpmIUoRy3fNwf5XcSHhbHU4kl+x/Haj90SyfZ31XFD18r3HLn3+VtMtkt1vA5/Uh3HV4yjpvGq0/QAelD5/Um73s5lXpiZDmCuoPreQho1jWGNV6cBbN9BPgNUc2VbQXXccJzbcCPOrSuVRHjXum/2cktdNLLNHrGtVn7H4dybvlwPB0d9JtibmbFtRUxJq1elJcU83rC6LJWxJqN8juk+ZycclPydbP27d5fHArpfj4f2xp9LPbdTku2nxG3fEyJjsmyDY/8stfosAzOorvsG2s+lXjr9XDMdAJY4yPcN1NgxrhdjGgAjcxatWtq6L9uorXzMu/ZbN9zj+57bBq3jZq8GjdL29Wv2iO2N8jkO+wUxNPK7CHzVdD42C+LZmqDl+60z3H4Xsf17bdS6xrhOPsf2Ses+rksm299V/iZvkG1/rs0a/5oYPyn9LZHUZLvnA7MxMi6rVts170GfZWA6kVivqZ0T6ucydud1Ytb4QBlAnY6qr2zMq9b7tiqAio2yv1A731g1qm8w3WvdcM9SCnNabTd7tesUv69HrSvpd02Q37HYFIpl1DRjfo8lrK5ZOh55lf+yTq6upVyWxyzmc+vydcNc6WT7u8om3K0fyt9LZJ+Trq1B3DUn20NkXBZtdO7bI5eJdeqr19MGfc5QJ6EOIJcn1TMJ87w+VtD675sBVOoo+8ErqM5E+7vWnQRI0ahcTbRRXMTHSPm+2vzhmhvlczzGJkND5PYGTeMO58CnmPUjvB+UpiTr1noO9vIb89d641JDsr3k8dPOiG1pCxnirjnZLpWbuZ1anmeJRtPx04nEeg3taw31Vuv4XQKwPQfVU1Z41HT9y+QnAFl08rnIKz2YXhtc95rwalXupifnzd6WNIrf52uZXXtPkM/xmFqf96j7dfXPr2F3ms47jv1fxSyOmmscsUy6jxniTdHIb9wP2Xphy3PG/9LW+nb1Ko/+5yhtVnuyPUTGltq83iq8XLi0Vz0zFffYBn2WfQmaxo3m6rcGAPnVUp/9TUx+AlDIHi6UX7TfxFepeu0WtVj37EnxFxRbMMrnuOyM4mv0WXc2iOT6XDGLo+Z+gGSZdA95Q19kkM85ttYxyPoNh9TWuvb2Vx79H+U/LsY8wDu3XIscx8aXst8t+tXqc+HSV9V1fuylnR/i9x/fw5OYpQ6gfo3KVjoY9TmLnfszAEWVvpj0Hmxbsz21LiXrte+1Rr6lTnE3ZlvY70E+x2Xq7HakiXn4F0oEKruFcsfMcc/Vym/8b7P1wk5tyfZ35R+resPYcx0LKeV/cv1ehsj4YtvSt4Gu1VcfM8e890ZSHcBWNCqTf7isxd74dhEA5mtV/kLTq+15VnvJ5EGv/e53S52W7/ut1KIb5XNshox9wKeYh381PDxqZXPctXnDnsXr9yFH+RBrNSbb3117/KsX49jf5f9myhqS7VLe5HV/J45Gn/XVe1FfPXcjqQ5gy1rlrZpwTrA/q/z9AgDcFFT+ItS6jdr3RWypBd8oIWMraNn+70oE6cCrBNKYsxP4h5hk5pvqmZ1ikYisLQkd5Pc70GTrhQ3PZPuotN/iXEJCjPf67vngfS3J9hAZY0w712s/z1jvRH31Em3QZ011kuoAtq5Vnt+ZUdNvWtD6rjUB7Fin8henlq3TvmdXB5XZ76N4umxtyeJ1faEYrXkuWBjydQMfYpJitS2yfJDNDNVa+mTVn2ttbYs1eybbB6WVdRsc+30pRMb3qLWOMa8l2S7lm91+nj2dY1u0adwYNN1zPIs1XADsT6Ppmt1rnB00XVdSgx3Aqnm8Rlzq4nfvCd9S32VtCbItCXq8//tSwTno5HfRhryCln9PtSZsg9KPweevH1pIJ59zbG3rI3gm289vNDQJn5FjXA8J8d1rnWPMMYsuXx6jOa8TQ2SctDra1xIwrbjPAICD7HMOo6ax9vwAEwA2Y1D5i9rUC+LOeqesTMnFUWtJIm3ZUddnEJy0rf3vObu9zdcNKG48CiUCXWBU2jH4lj/kX3ieY12+biTzTLa/6fPBQ8o2gkvPP4WE2Eod5ykxl1gTInXMoOVpo5itDgBzHJX+2zbqs+xWK8ZbABs3qPzFbmwbRA2vUou91bCg4d4cNCUcuo9/bu0CpZPfOIE8Dlr+m7KWscRibYHS52yv9D5ca2POTiTKlWxP3deNR+c/hMTY7jWvczkl5hJjTEq8NJ/2JmqrA0CKTsvH3V48zASwY73KXwQvbSzOOSm1OOplUgGw4DnztsnXjV2LmfVS0+KojxyUfiyG3EFfaK7EY9VCtl6ksZiZde+6pPnYTkj8rNGh72epsd1rXiWhUmIu9UDP6zijPW6DKAMDAB6uvXV9XtPiPO4+iXEXAP6hU/mL4yXtRSR7pekmokSyvdYay1i3Tj7Ha5+xD3sWtP7FUedIXRyq5PHotbDVkLMTCbwfUJ9vLoPBZ3n9zvbGfb5so3zO55SYSyXbQ0SstOVt0M+J9ebRFwMAAADkZPGafK4La56WToLy73/eKoAXZrevW8zCSV2JQA0EpR2PY/aIJ+3M+GJam60X8byT7eFjO09Gn2d9rZOj9NyTcczSOpPtErPbrdsgEusAAABYoVblL6Yf3TQFp76vUaf838EoHnbATyef47bL14Vdiq3X7pGYy6VR+nFZYlb/0u9pbnvN2YlIQb7J9v5jO1ZJ/dG4/61z/99l/5ZD6kLwJZPtYUZ8tNvHUS8S6wAAANiQEqVJ5rRO6ys54KlXmRsgvgN48ZrdfhLHraejls+YHbWNB3ej0o7NNnO8VrOur7UmXzeiBPn+Pr59bMdyBn1n2P/Ouf8ex0HqbPzSizCnjg97aJeLl7aqfxwBAAAAovUqfwF+2XpxAX7pIL/6u/ca9drhrZPPsdvl68LuPGl5cnHQdh6ADEo7Np8zxzsmxrvWcyym1NGSdl4k1bpcTWPQ95i3T2o4DtaebA9XYtpzG/WZWGcRPQAAAOzSUeUvzN813SC2vl1dnRy1V6+1kKFv2Dev2e2jtpPcrU2n5d/H1h7cdUo7PruMsYbEWG+12t8g6eX/G3lOIFqOYRYlemIeiNUw1qbuy9LJdmm/s9tPmq7fO01jTpu0FwEAAICN6VXuYn0QF+jXNMqfbK/hphX70MnnGA75urAbsW/ZhAKxeuuU/nuXg+dixLln6c+V6wH1i3xqw6esb3CQ/6x+r/N7C8n2oLz7vlQb9HOd9ZofvAEAAABV8Lw5v3fh3mbo2xpZz5yb097EzRPy8JzdDluNlicxa0iAeWmV/ruXQ5cY59rOsUZ5ku1v8kmupuzXmDUVUpvVcRwS46hlrBmUd//nOM4pBwMAAAAYyZXkfRWJ9ntKJNt7kWxHPp18juOUGaL4VavlY9HWH9y1SjtGTxli9HyAXuM5lvM30yux3UX2/TlTv7+2NjLeS11iDLUk21uV+Q6sjmcS6wAAAEAGXjeuo6bXnZtsPVmnEsn2LkfHgA9eycAhZyd2IGj5d9Br28l2ySa55q0ziHEt51hQ3t9Lr9Ys7HejcrOqLWrN94kx1JJsl9Yxu53EOgAAAFCB2Hq9X9uo6aaqxhlxNQrKm2w/aZs1llG3Tj7Hc5uvC5sXkwzrSgRaQKv0Y9VTYxDfWs6xTvl+Lz3bsLDfQfkfzF+2ZmG8lyzq7NeUbG9V/vi53C+Dfq6xXst+AgAAAHCh1XThPvfGbtSUqH8WF/lLBeW/MeM7Qm7Mbq9bTDLspH09VG2Vfrx66g3iu9YsZjVbOajsQu/WLSzot8VkiJTWz4z1Gos3+Gq7dhmU/zu4nK0exOKlAABU759KBwCgas1HO+rzwv6HpN8//v33j/+N5YLSbmKX+l3SHyR9z7hNQJoSBH92+Nx/EcdzqqOmJE6z4O981zSW/P7gz21Jq/QHPF7X3I38FjWt5Rw7aNr/NSVdU/yQ9D9n/LknlS/Z9EPSvynuOAhKv875Iek/VM9408r2Ye+3i3//Iem/P/79+0fjOhsAAAAAZgrKOzNqEDOhUIbX7PacD6u2KojFUefqlH7MeukNYrvWXhxjXqLEGife7dH4VcOs9nPrHsR6K36L47K2me1S+uz2mt4aAQAAAIDNCKrrxh7w1MnnuG7ydWGTOjGWLNEp/Zj10BrEdSvRWcODlaC8v5e5Wnunz0+q5wFDzHHQKL1e+3nbtSXbG6X3qckcMwAAAABsXlDem+UuR6eAG7xmt3cZ+7A1sTNPn0sEW5GYffa1eRgM4qr1HHtR3t/Lpe1NcYnl8UZ/a5rVHnscWD0sGFVfsl1KHwe67BEDAAAAwMYF5b1RDjk6BdzRyf64rmXm7Ro1YnHUWIPSj11rrUFMt5KdJdWYeP7a3hS//6+V6qlpVvvlub9krLV6QFJr2apG6edVjf0CAAAAgNUKynuTTIIMpTG7vS4xdbBH1TnLtITU43Z0iGkwiOtaCw6xznWUTTkSz3ZOCPeRf//ynGpU78OF7sZ39FUju++s1mS7lD67PWSPGAAAAAA2LCjfDXKNNU+xT53sj+9R9SZjaha0rcRXbo3Sj93BOKbWIKYccS7Rqr5Z3rfOi0Pk3z9d9PfZuL+xJW5uxTnn/LecmV/zmNNovecVAAAAAGxOUL5EwCiS7aiD1+z2kLEPWxFT5qEvEmm9npR+7Fon3AaDmK611jjOuZ5nxleyveozIRwb76umfWw9i/9cpsZq3O2uf03/kDLD/1qrOdkupT9A5toMAAAAAIy0ypcIqP1mFfvSyf4YH3N2YANi62DvfXHUayxqU3eG8QSDeK61V8MY57JO3Hq1/kvcY+TnWD+IvCwh1xh+7r3riTah/9da7dcvqQ+Qvx47AAAAAIBIMfWSt3qzin3xmt3OugTzNWJxVEsWs5EtH2RYJjsvW2MY4xwH1V+v/V2/JkyPFcT0/rHvmou4LN7EuNbfs4PsFkZ9tK2adIrvH4t8AwAAAICRnMn2QdzMoS6dfI5zzBMz/rD2w22xtbq/ttYonmAUT+nEZ87fSev9Yp10jmnnEjKXOqPPbq58div7Bz25j7kYqQ+Qu+wRAwAAAMAG5UwirOFmFfviNbu9zdiHNQtavm95Q+Y+q1nDjVE81knPd0sjOcQAACAASURBVOWfhRsc+uDRbr2V4PEdLPmu2htxDQaf//blMxvFlaZ61PobfahNUHwfx/zhAgAAAMD25Hw9fi03q9iXTvbH+pCzAysWuzgqyfb7etkkSS0Eg1iutc4ovjks9meOFm7E3xSM6XLR1mtGg22cHzI08vuuujt9qE3KPm3zhwsAAAAA20KyHfCZ3d7k7MAKxS6Oeq0kBX5lkcQcKorlaxuV56HLWuq1v+t2sl2ye+NhSTtp3hoAFtt6k81M+Zh9W5ug+H6WWIAYAAAAADbH45Xra63P1SFgoSCO99waxSUxQ/5QV8lqcczOIJZgFEuJY2Et9drn7I8uczyD5j10bCrYdzUca5ZiHxCdxINiAAAAAEjWK8/Nap+rQ0CEUfbHfJOzAysTuzhqWyDWtbJaHPPJIBaP82s0iOuRoO0k26V8C6bOndV+1maKK7Yva1uUuVV8f7vs0QIAAADAxgTluWHtM/UHiBFkf8xT8uS2oOVJzFHrS3qVNsrmWE4t2dIZxfG1tYlxPZIrOZ3aljyIGjLEM2j5w8Y2Q1yx+3aN407s9zyWCBYAAAAAtiRXLdc+V4eASKPskzQs5nldp+X7803sz6Va2RzLqQm4g3xmiA+JcT2KOTZhmbstTQh7lo87Kb7sSusYV2xb67iTUkqqzR8uAAAAAGxHrpq0fa4OAZGC7I/7LmP8a9IrbgxZY9KrtJh9fa2lvqnRGcWRKzF4lE/5G48WM/u6c4rlVWnnqdV6A7X0p6Re8X0GAAAAAEQ6KE9Coc/VISCB9bnA7PZfHRS3gB9leeIcZHc8p9Rv95rd7vXbEpzi9WixpU6s32wbZffwo/Q+Pbc1jzuN4vvdZI8WAAAAADZkkP8Na5+tN0C8IPtjP2SMfw1iZwyHArFuxbPsjueUh0edYRzeicHeKVaPllJX3PIhSBcZwy0x44T1frVYILik2HUHugKxAgAAAMBm5FgErs/WGyBNzKzre23MG371Wi1P7i1ZABLXWSUuU0pMeM1ut559HPv2Ran2pvQHDl1iDK8GMVzjWV8+x34tLfacG8VbWQAAAAAQLcciqX223gBpWtkf/yFj/LULikv8xM7cxaSV3fH8nBBHZxjHuVmXa2qV9lDgTXmTxJaLeA6R22+Ntn9NiIjJonWOfcqpU1z/Q/5QAQAAAGAbciyS2mfrDZAuJuF0rw15w69azJs0lsnEPbM8rpvIGLxmt3eR8VyTWnanV96FPq3Pj4Pml9EZlS8pm7OG/pu29YBv1PJ9MBSJFAAAAAA2IMcr82/ZegOka2V/DrQZ46/VkiTeZXsVyXYLjeoY0zvDOM5tlM0xclD6rPT+47NijvXY78Lr/Gh1/SHN20f/gtN2b+muxOLRujzdySYobj9s6YEDAAAAAGTlnRRgZirW5lqCKaUNecOvUuyDvf7ahyGK5VgfW07Ga3Z7iIzn0lHpD5+7i8/y/F29HFty/L4eNCXfa/gt95wgMGibSWbGXgAAAADIyLtuO8l2rE0r+/NgiwmcJY6KK2eQUiMcP2tke0zHjuudcRzvslmMOCj9QUC4+LzBoZ9fW2/Q7zXyeCvvpO3WKm8Vtz+4dgMAAACACI1866GeRKIR69OLpJilVnHjTMgf6qZZHtevCXF4/Oa0CfFIcWsK3DteW4c+Mq78zCrpftL0EGjLyeWYEkldiUABAAAAYAsG+SUDSLZjjRrZnwtNxvhrE8TYUYNGtsd0iIwjGMfxrrRyTY3Sk7YnTW+KXRod+nnZ+oQ+b02nuIc4o6Y3aLacaJfizv2xRKAAAAAAsAXP8k0IfE1AAGvQi8SYlZhZw6NItnuwPK5PCXF4JKLbyFielD7b/trDoeDQR8aU+w6armkePTwZNe2/PV2fxIzDbYlAAQAAAGDtvBdzC9l6AthpZHse7LUG7kFxCV7We/DRyPa4fomMIxjH8a740jadwbZvvYkxOvTz3FjT4LFGU8L4WdP3/Pzxv5tC8ZQUs0DxUCRSAAAAANiAQX4JgT5jPwBLMUnie63LGn0dYusqDyLZ7sX6uG4i4/BIRC+N5SCb379byXbPRcjDwr4CMW8yNiUCBQAAAIC18ywlM2TsB2ApZibgo4Tc3hLIR8Ul2/sSwe5EI9sxPnZGeTCOI+a4aWVzjt9bY2Bw6Oe7SLYjzqhlx1lXJEoAAAAAWLlGtknFyzZqfwlGbEcn2/Nhb6UfjoobW2LLk2Ae6wRwW0kcJy2bidsZbfftznYb4z6eW1jQT+Bs6dsWe3xIDAAAAAAmXuWTELg34w+onfXs9jFv+MUFkUisUSvbcT72uLaO413zZ+JalZB51+M1BqzfHjuJxSsRb+lxH4pECQAAAAArR21Z4DrrRFnIGn1ZMfvupH3to1JG1XFcWz/onTsT90l2D9LmLOi7NMH5qI88xEasRsuOt6FIlAAAAACwAdbJl3OjJATWzvLceMsce0m9SCTWyvoh0hgZR2Mcx7vmzW5/MdzenGS7ZJdw5xxBqqVjM8cbAAAAAEToZJ/02FtyEdsUZHtOtDmDL+SguFnLJBLzsC6RNDfJfc3SxN+cY+he8rtR3MK9t1q/oK+Dwfbu1YgH5lh6/i85xgEAAAAAHzySL+fER5OvG4CLUXbnxJA59hIOiktozp0ljHSWs7vnJLlv8fjtubcYcTDe3tJEZJ+4Pc4RWFjydgsLpQIAAABAJOvky7k95ewE4MB6XYM2a/T5HRX3gIJEYj5H2Y/1XWQsucraxL5xca/FlEprE7bXi3MENpaM0fceYAEAAAAAbmhkn3yJTUYAtRlkd068Zo49t6PiZg+TSMzLspzKu9JmwC5J/M1p4co22kzbmSsm8d8nbA+4tOSBGyUBAQAAACBSL9tExPkmjQQa1q6V7XnR5Aw+s6D4ZDvysZ5R/q742e3Wb4+MV7bh8fZWiOzv2dKSS6nbAy4tueZry4QIAAAAAOvWyD4Z8S4WPcQ2WJag2HJiOShun/AWTF6N7Oulp8xuty7xEi4++yifmfxWv21zku4sIAxrB/GbBQAAAADuetkn27ucHQCcNLJN1DU5g88odgwJBWLdO+sEd8p4vyTxN6eNF5/dOfRzlE/yu9P1cjeDeEsM9ua+4bLl3ywAAAAAcGWd8HgX9T6xHbGJZMukZO1i91EoEOveWZdv+ZrkXsq6tE2QT6328++ad/L7+BF/K2a1w8/c86MrFB8AAAAArF4n+8QEiQJsQSO7cyKl5EatltagvtwXbf5wd+8g+1Iy5yR3LOtyL9afd26v2t75i31qNe+YHwvFBwAAAACbYJ2AoR4ztqKT3XnRZY3cX0qynQdyZXiUkkl5m6lxiMej8ZuGLZk7DrSF4gMAAACA1QuyTUxscRYv9slyNvCYOXZvR8XtG5Lt5XiUkklNylmXk/FoIaF/QG0azTvuXwvFBwAAAACbMIjkBHCNZTIw5A3dVWyy/U0svleKVymZ1KSc9e+PZePhELboRfOO/aZQfAAAAACweo1sExRD1ugBX6Nszosxd+COguL2QY7FJnGbRymZd6Un5Uon1e8dr6l9A2oz98FbVyg+AAAAANgE69f526zRA36C7M6Lp7yhuwki2b5GQT5J6S4xrtYprtTWi+MV29Tp8fE/iuMfAAAAAJLELHh4qw2ZYwc8WZ0bWzkv5pQhIHlZn0Y+pWQsknKdQ1yp7TmxT0DNRj0+B7bygBgAAAAAimhkm6hocwYPOGrFeXGpV3yyHWUN8klMWyTlvMrcxLSTtnGuArcEPT4PhlLBAQCAffgfpQMAgAwsZzF9+2jAFvwfo8/5pnWfFwdNSfOYseI3SX80jQZLdfJJIn+T9DeDz6nlzYdvkv4g6UfhOABPf57xZ/7kHkXdjso3Lv0uxhwAwA6RcAewB/9u+Fl/MfwsoKRGdg+j1pxwPmia7XiM+Lt/FYmb0o6al2CLYXVcN0afk+IvYoFIbF/Q4/Ptr5qSwLkcdP335dZ/P5tz7drGBFSp7x/t63/7+8e//9Bn8j7n9wcAQJR/Kh0AAGRwks1Mnm+S/sPgc4Aa9JqSE6l+03oT7inJ9j9q6jvKOWhag6Bx+GzLBPW70efE+K7pWP1WMAYgl1H3x4Mfkv5Fy2ZcNxef+TVJ/r++bO9REh02fmh6W+db4TgAALiJGe4Ats7ytdn/NPocoLSD7Ga3r/Wtj6OmZHvM+ECyvQ69fJLt32U7G/x3lUnC/U3TsUo5B+xB0OPx4LuuLxj8r/r5t6CZ8Vko56Bpdv+3smEAAAAA+/Usm4XmxtyBA4462ZwXL5njtnLU9OZLTJ9D/nBxhdXYfq21xrEOjrHeWhjVcu0SoGbn5OuovOcZrVzrVc/aGAAAXMUMdwBb969Gn/N/jT4HqMH/NviMH1rn7Pag6UHB0pv1H5rqtf9mHA+W86zb/lfZz5r8L+WrtcysdmxRo88Z562kf9Y0Dlz+d2zPuWb7d0213L+JWe0AgJUg4Q5g6xqjz/nN6HOA0oJszov/1PqSekHTzLilfmhav4GF2so7yG9243f5PET6m/weEJx9F7XasS6Nfk6iSz/XRLcsCYiyvi50+l8X/35Oqt/63wAArBKLpgLYOosFU3+X9G8GsQA1eFN6PemYhedKCyLZvgWv8iuX8h/yS1gP8pnl/kPTw6+/al3nI7btcvHQ9uOf//7xTxLp23CZRP+uaQa69DmGfk2yAwCwK8xwB7B1Fjd1lJPBVrSyWbzxL1pXcq9XXO11ku11eZZfst2jlMylP2p62GWZaPxN07n43fAzgTnOCfXzP//5y//Gun0t5SJ9jo/MQAcAYAZmuAPYsqOmBEeqfxMJN2yDxezg75pmt68FyfZtsBrPr/muaZz3TiK1mma6p/pNJNrhr/lo50T6eYZ6WyYcGPl+0f6un2eifysREAAAW8QMdwBbZjGTkFdisRWNbGYHr2Wh1IOmxVFDxN/9LukP4tyvxUE2iepbci0y+k3TQ5xXxS3a+5um8jHfLYPCrp2T6a2Ypb4V3z7++buk/6fPGenMTAcAICMS7gBw37fSAQBG/o/BZ/yudSwgfE7QxiSNfteUFCUxUY9BfjWfvUvJfPVN02z6P+vxw6AfmhZc/f8+/gnEaPTrTPXzf8P6XCbQ/58+x69vN/48AAAogIQ7ANz336UDAAwcFDfT+6s/GXyGN5Lt29LLb7bt7yrzxsZ3TbPq/6Tr6yp81xQbb1hgrvOs9Oaj/as+k+xYl+/6ueQLM9QBAFghEu4AcN+30gEABoLSZwh/U/3nA8n2bQmyeVB0S65SMrecZ7Azex1zNR+tlfS/9PPMdazHOXn+X/o5mc5DNgAANoKEOwDcR/INW2BRTqb22u1HxZceIdlen1bT7HYvfxHJLdSr1eesdWarr9M3Tb8p/63PGevMUgcAYCdIuAPAfSRksHZPSq/V+zfVPbudZPu2NJoWFvXyTVLn+PnAXK0+Z61TW319vomkOgAAuIKEO4At44YHkP63wWfUXLudZPu2HDQl271KZPzQVEoGyOVrfXUS6+vyTSTVAQAAAOAn74kNWLNG6eeAZ1mPVEHSSfH9ou5xfV6Vfszea0/5uoIdajWNS52mB4GjfI9nmk0bP76vTtKzPt88AAAAiMIMdwBb90Mk1bBfW67dHhT/MOA3Mcu5Rr18E+J/FQuUwkYrZqyvzXlR0u+S/q7PmeuUDgQAAACAhQalzXoC1uqg+Nnf59blDnqmoPg+xSbp4SvIdwbrW7aeYEuOmh4CdZrevhhVfjY27fG5Pnx8Z0GfC9ACAAAAAIx0Srtxa3IHDBgJSjv2T6ozSREU36c+f7iY4Um+CbiTpsQpcEujKTHbaRon3lQ+cUy734aP76rTNIZwjgMAgGpQUgbA1qW+KnzU9PoxsDap5WT+U/UtCtdrSrjH+E2UkanRUf4PQv4kykbgU6spwf6vmo6/o+p8uIjPki+/ayoDc/732n6bAAAAAGBXDkqbQfWSP2Qg2VFpx32Ns9t7xffHO6GLOBZlj/jucUujn8vBMGu93jbq1zIwAAAAAICKvSrtJhBYm15pyY+QPeL7UvrTF4gXjx3knwClbvt+tJrGrRelr91C8z0nB5FYBwAAAIDVC0q7QWxzBwwkSJ01POYP+a5e8X3pC8SLeQb5JvZOYg2OLTros9Y6s9brbW8f308n6qsDAAAAwCalJiCH/CED0YLSEiUhd8A3HJSWlO3zh4yZevkn/J6y9QZejvosCTPIv/wQbXkbRWIdAAAAAHYrNcETskcMxEmZ8VlLCY7UciN9/pAx04v8k4Bdrs7AzFGUhKm5jaIUDAAAAADgi0ZpN5snMXML9UtdLLXNHvGvSLZvV5B/YnDI1RlEayU9azpXKQlTVzuJxDoAAAAAYIFe6TeiJN1Rs5RjfCgQ71ck27cryD9ZOGo6hlCPViTXa22DpjcKnj++J84dAAAAAMBijdJrwJ403ZwCNUo5vtv84f6EZPt2pb55MXds5oFoWa1IrtfYLhcwbcViwgAAAAAAY8+yuYEdVD5BCVwKij+eX/OH+5NGJNu36qg8i12GTP3BpBXJ9draqJ/LwfAACgAAAACQzSC7G9xBJHpQh5Tjuskf7j+kJmT7/CFjplzJ9pdcHdqpViTXa2vDx/dBORgAAAAAQBUa2SeBTppufplRhhIaxR+7ff5w/4Fk+3allgia20q/nbE1R00PkV9k+3CaFtdGfZaDeRLXGAAAAACAinnWFD4n35/ErDPk8aL447XJH64kku1blivZ/ibG2BSNpt+pTiTXa2iDmLUOAAAAAFi5oDw30W/6XKwM8DAq7tjsCsQqkWzfslzJdhZJXa7VdM6/Kn7MoNkcu4OYtQ4AAAAA2Kgn5akxfHmj3WtK9jN7DRaeFH8sljgGSbZv26A8Y+lTrg6tVKPP0jDUXS/X3vRZEqYVv/sAAAAAgJ04qkxC4px85wYcKXrFHX9dgVhJtm9b7LG4tD3n6tCKtPqcvZ7zITLtsw2aHnCcS8IAAAAAALB7ncokKlj0D7EOijvmSsxuJ9m+bb3yjJccB5+115m9XqZdloQJoiQMAAAAAAB3HZQ/8T7k6Bg2KSjumOsyx0myfdt6MVZ6OmqaNd2L2uu526if6603d78pAAAAAABw15PyJDhCpv5ge2Jmt+ae3R4iYrxsfcZYsdyL8iQ+37Sf8lvnBDvlYfK2UdRbB/7/9u71ynHjWsPw57P038zAcASmI1ApAvWJQJgIPIpAUAQtRcBxBD2OgFQEPY6AdATdjqDPDxCnORxi1xUokHyftWpZbg6qNm5FYqNQAAAAAIDZNHqfI3ejfsTbVmnJkOFx9I2Y5xXpGqUllboZY2wTYxzKZsZYEa/VPInQF932yGIS7POXvUiuAwAAAAAA4ETKyOI5R7e3CfGdls1McSJNq3kSoy+6vTmySbDPW/YiuQ4AAAAAAACPveITT91MsbUJsZ2WzUxxIk2r+ZKlD/Os0qQa9duMBPv0ZS+S6wAAAAAAAIjkFJ+Immt0e5sQ22nZzBAj0rWaL3nazrJG03hQ/xTKXvWT0Lda9iK5DgAAAAAAgAI2ik9OdTPE1SbEdVo2M8SIdK3mS6Z2s6xROY3ep4mpnYi+xfIikusAAAAAAACYSOy0FHOMbm8jYzovm4njQ55W8yVXr+VYWKsfxf6s+gnpWyrDi8U79U8KNGG7AwAAAAAAAIjXKj6B1S0wpmtMsN6rVvMlW5d+LAxJ9r3qJ6ZvpWyP27TV7b0gFwAAAAAAAAsXO2XF1KPb28h4ri3Beu9azZd4fdYypwohyV6u7NWf8x/VTw0DAAAAAAAAVLNSfIKrmzCeNiGe07KZMDbkWyt++qLUsrRke6M+KbxX/ST1tZbTqWGclrV/AQAAAAAAgOgE95Sj22NjWXqCFV+712R7K158mrMfmRoGAAAAAAAAV2OruARYN1EcbWQcS06w4ltzJttfVP+lmI36RPFc63wL5UX9jYlOTA0DAAAAAACAK9QoPiE2RVK7jYyDZPt1mTvZXnMktBOj2WPO22H0ehO9pQEAAAAAAICF+ai4BFk3QQxtZAwk26/LvSTbW/XHYu0k9lILc68DAAAAAADg5sUkCKcY3d5GtE+y/frcQ7K9FS9BvVT26l9g/FHMvQ4AAAAAAIA70CgugdYVbv8hsn2S7ddlzmT7m/rE95weRKL9/HxkehgAAAAAAADcrZjpZEqPbs9NxpJsX7ZWt5tsbxT/ouFbLFv1CfYHcS4CAAAAAAAAUdPJdAXbzU22T/XiVpTRat7EbzvHSh11E8R/LWWr9/nXAQAAAAAAAJxoVCfBXSLZznzQy9XqNpPtK0lPM6zPkgoJdgAAAAAAACBQzHQyXaE2Sbbftla3mWyX7mMKGRLsAAAAAAAAQKKY6WSaAu2RbL9trW432d5OEP8SyvCSU1dqQwEAAAAAAAD3qFF4Um5ToD2S7bet1byJ4sdZ1urdvmDsNctevOQUAAAAAAAAKC5mOpkms63cZPubSLYvWat5k8abWdbq3bpg7HOXF/Xzzrcq85QKAAAAAAAAgAtCp5PJTW42yk+2t5kxYDqtbjvZLsXdnFpCeVY/Dzs3qQAAAAAAAIAZNApP3jUZ7awUN088yfbr0un2k+3S/OsZW17Ub5tWTBMDAAAAAAAAzC50xG5OgpNk+23b6D6S7dIyE+7Dy04ZxQ4AAAAAAABUFpoIbxLrL5Fs/5jYNqZ3T8l2aTkJ9yf150Uz5coCAAAAAAAACNdo2iRniWR77QQrxt1bsl2SnOok2IepYh7EVDEAAAAAAADAIrUKS/a5xPpJtt+ue0y2D3Jf/BtamCoGAAAAAAAAuCJP8if9tol15yZkl5RgxbuV+mPiXpPt0rTTyjBVDAAAAAAAAHCFVgpLALqEunOT7c9pq4SJlZgi6NqT7VLZ7cBUMQAAAAAAAMANeJA/GbhNqLdEsp3E4/KQbP/aWulTyzBVDAAAAAAAAHBjQhLjLrLOx4A6SbZfn0Yk2y8JnV5nq/7caMVUMQAAAAAK+VPtAAAAwFdeZCe3D5L+GlFfq7wk6euxvdeMOlDeWn3CeM4bIZ8kfZixvVxr9U+MDF4lfTn5XwAAAAAAAAA3bC3/qNw2or42oD6rvIjpNZYoZ9qU1PI4y5oBAAAAAAAAQCG+qV/2EXW1nrpItl8np/mT7e0M6wUAAAAAAAAARfnm424D6wkZKe8rD9/UitpazZtoJ9kOAAAAAAAA4Co18o84D1FiupE2f3VQWCuS7QAAAAAAAAAQpJWd/OwC6iiRbP9YZnVQUCeS7QAAAAAAAAAQbCN7dPvKs/xK/RzvOUnWTckVQhHWcUGyHQAAAAAAAAAusEam+xLhK/nnfyfZfn1ItgMAAAAAAABAJN9LThtj2RLJ9ufC64M8JfZpbHkRL8oFAAAAAAAAcAM+Kn3kee4o6Gf5p6vBfGol29dzrBwAAAAAAAAATO1JaaPbc5PtL576Ma8SL70l2Q4AAAAAFX1XOwAAACA38vedpMPIZ53y5tt+lfSDUT/mtZa01bxPGwzHwJcZ2wQAIEWr8UEC3WxR3I9u5O8HSZ9miwJAqEbj14YHcd4CAIA7Y83f7kaWaY1lQstY3ZhfK0a2AwBg2Wr8Ow3ljW3rbc2gAIxy4rwFAAD4f2Pzt4/9MHoY+fcxpZ1kTZCi1byJ9jcxbz8A4PqQcJ8XiTvgujhx3i4KU8oAAFDX9yN///XC39byv0TV51fxSOFSbDT/zY8v6qeReZ25XQC3wx3/d1cxBgBAvJXen3B8FdMKApMh4Q4AQF2XpvXY6dtERok5vj+JeU6XYCXpUbedbG8U90LeL+ImALBUraQf1SfaL30H7ST9S/13zFLP47XGvz/pfwDcmrX6Pvt79b/HfNMIHtT3hX+o79NJxAMAAOBqrRQ2v/pK/TQgudOIoL4S+zKlPGneaWS6hBhfjnF+nDnWa7dSv723x/KouJsdwJgHSXvFncNdjUADWNORuHphIQJTysxrCVNTOPVPA27V/z5oZ2z7Gg2/B2L67bGyF7/Hro3TMs5bAACA6pz8P4hKJdv5wVzfWnWS7Zs5Vu5MlxjraXkUx63PWpdfuMtLcZHrUenn7lbLO3etZK2rFxYiWPsQ5dVO3HUj7fOb9ltDov3S74Hc8qI+8Y7lc6p/3gIAACxCJ/+F/+bCv4n9oUzirb6xxOjUZTPHyl3QBcbnK3tx/FqsBNRLxbhw3Vrln7tLu7i3zhVXLyxEsPYhyqt5bjuj/Tct90maGh40z+9LN9P6IJ3T9Xwn34X/qR0AAAB37M9n/3+nr+du3yj/8dkfxDyMtbWqM+LzV0kfZm6ztEb9tiPp/q1hftYxK8/nwCWNytyoc2JUJIA0zvP5T3MEcQUeNf+UgQACkXAHAKCe8yTiaXK0VX6y/YNIttf2UX3yau6LoQ+6nRFgK/VJ96ZyHEsTcky5qYPAzfnF8/mr3m8OHwLqIhEEINb3ns+bOYJYsJX635bc1AQW7LvaAQAAAEnSJ70nLx6UP8Lwt2OdqKfEEwopPuj29v1wcflD7UAW5DXg3+ymDgI3ZSW7z/pZ/XfLqVbj71tYqf8++5QfGoA78kX2DeOQ779b9qT4G+o7SX8c//ugfhsOA3++P/43N0gBAABwE07nI22Ofysx13eJ6QCQbhiRPfV8muflRcsZ0dxpPM5n9XEOpVWfsNsbyzCH6GXWNnsRF8+I86C0OZOdsdxSvo+sPtnVCwsRrH2I8mrOBe2M9pfUr9SwUdz1wENE3cOAH/rJ6+TEHO4AAACS+hEqp4mMlfKT7c8iyVZTo34fTJlYH0uuLmme805pP/o/Gsu9qT9n8M66QdfWCwtXqtP4uef7Xhnr95ZykW8la129sBDB2ocor3bibizxe8+/c32/kU73UZPRTqP3axT6yevhVP+8BQAAWIQH9SNUV8eSm6hlRGtdJZ5OSCl7LSvZLqUnBgbmYgAAIABJREFU3KU+UWwd4/jaWn1iYn8sKY+aA5J93vqMJUOXcpFPwv36kXCf1xISd+2xvRf1v5E73e/v3LXCrgPagm0+6P13rStYL6bhtIzzFgAAYFHOR5KkJNuXlnS9J63mT7S/abkjvTrl/ei3bj5xnAPT6DR+3jHCHbWRcJ8XibtlsY7/Ka8DhgFBboK6UZYT5+2i/E/tAAAAgB4VN8fiJT+rf8kU5tepznyiX9S/RPQWXx72L+OzJd5gAG6d9R3lNJ7oucX+CQDm9CD/S2R/0DTXAVPWDdw0Eu4AANTVqp+TMcdvkj5lR4JYK/WJ9l8qtP1J0t91u8msXe0AgDt0MD77RZdvdq3U3zQe80dOQAAA7+/MqQfdvOp2f28CkyHhDgBAPcPcyzk+q/+hjXmt1D+e2VZo+5OkDxXaBXDbPhufNfo2sd6o7wetaQysOgEANid/H/tplkgARCHhDgBAHY3y59P7IhKvNaxV70WlH3Qf+7ypHQBwh15lJ8hb9VNoSf0UB8+y+8HfZI+aBwDYfvJ8zqAbYKFIuAMAML+V+pek5sxF/ao+8cojnvNq1d8oqTGP+AfdzyimvxmfccwD0/nd8/kv6r+/fN9hXyT9WiooALhT1vszPombmsBifVc7AAAA7tBG+aOjP4gXGM3tUfnz7ae4txdWrTQ+Vc9B178dVnp/RPz7k7//oX7ddlreTYUH9fH+Te9J1i+S/qN+RPRhonbXx7b/rPc+81XSv49t7iZo2x3L+br+W/265u6bqevPtTvGYSV5fC/55obwZY36fd/o2/3/X/Xbfcr+7bT9877noGnOJ8vQr/xF7081HdSfCzvN29ev1W+blb7dNsOTH4cZ4hi2Sep3g9P8/UujPu6/6L2fPqj/fthp+e9kGfb9pfhrfyc72Tc2fTdIl6TR5f7voHm39elvsLl/04wZ4lmdxTTl753huP+bvu5/r+W8BQAA+MajpLfM0s0d9J0bnkjI3W8ppdbUNbk6ja+Tbyol6xzpCsbhIupJXZdTq2M8L0Z9b8fPu8A6nVGPr47OWNad/BtfvMN2GJbJNWynfUC7b+rPzRJtt4FtPirtCZep6y9ppbD9Pnb8LrHP2qpMX5DCedo/7/M7lT0G2oj2N/p6Sq8Sfd+p5thGyPH1rK9v7ljrkKpVeF/zrPT3tlj1Sv058+z5dy8av+kfuh4x/Ytv3zuFHVcx32mncvZ3yHE7TIuVcl7MpTNi2leIJ9ZK/TEbeo4N+6idIBan8N/yW339vVC6HxziCe0LQ/sgFxCrU9h5uxfXmwAA4Iq0Cv9RNVae5g76zoVcBE9VnlU/8ZaqU/wFykp2sv1F8dvDisNF1JN7sbVS/HG0lX99nbF851m2M5aNSUSclvOXasZ6UHqiN3WarpQbanuFJ5Wnrn8qa8XviyXEPWarMn1BjOHl2inH875AXE1i+y96T+rk9n0DX/9ulY382zLW8C6WlHi2ik++WvW1EW13Z/VO2b9Y65+yL58Vt91y9rcVe84girlviFpx5n7fTu2j0r/Ph+PUFYgjd3/L+HybEE+j9O+FoYxdCzpPrKnn7bVeiwAAgDuRkrzgR09dOcm/3JI7x39tnezj2J2UVmGjfHzTWMTG4SLqybnYSkm2h57zzli288TVGcvmHPepSYBNRps5fWRqu6EjuVMv9F9U/+XBMdtmq2X3WVuV6QtClfjOf1P6SM8S31+t8dk2IpacPvD03Lb2YQxrvUqf/4Pc9oY2z8+xmHM0Nv4SMYesw5ic/W0dRyWOxSZwHXJZ26CdKYZYOTcaL5WcGws5N9aGYp1j28h4WpX5Xhhr1xWoe+yYX/L3OwAAuGMr5f/gW+pj+req0zQ/WkN/3F+7TuW2x4vSku2+OFxEPTkXW7nTSFkXm85YrvPE1WXGZRXnafvcpmDbMReGbYG2atY/lUZxSamQ86C2rcodrz6lku1DaSPbbwu2nbvPSyTbQ0qotmCbMb/LSrS3Kbwuvv6l9rGzNerwmfp4m+uGqNWPuBnajzXV+X5+7Ico3Q/nHMtS2b5nrF034bryhDUAAFikEj8+UxOOiFNzvvY31Xkp6xQ6lb3QaiaIw0XUk3qx1RjLhhYrKeKM5TpPbF2B2MbK3tP2qY8TtB96YbjPbMeXdJm6/im0SktSLP07aqsyfYFPiRvsOcfBHEmmN4Unmuaaki1025RuN/QGX4m2mrM6c48z33E15f5yvg2mZSfcY/Z9Dqv9pY04nvrm2iYyltzzI6RsA+N5mKldN/H6MvAr0ne1AwAA4MZtlP8D5TdJnwvEAttaZfZXildJP0v6VKHtpWuPZSfpg6RDvVCiWUnInaR/qt/336tfx/ML6F9V/6VVXyT96+xvP8lO1DTqz6MvnrobSb94/s1O/XY6nPztR13eXoMH9ReeO6PetcbX4SDpd/Xxj7X1Wf3x+Fqp/tKGObbbxOU36tfLt89v3Ub2uXFQv29Pz6m1+nNq7Ltndaz3h8D2QxJxnyX9++T//03lb5p0Cvs+/aL+XP3v8f//Rf352xSMZbiZbjno/bwc/Kh+u4zFslZ/07DLiu5rr8cY1nrfl5/1dR+4pP7lcKxv2H8/yr/ff5LdP8/pVX38/zn5W8g6rNV/f/08UVw+c303hAr9/byT9MfJ//+z+vPdt2yrvs/6LaCNR4X1H+e/b/6i/nwveTNj6L9DnPfLodsmxUFp5+29f8cDAICFaDXf6AnkqTlf+y1OF9Rpuu3VForDRdSTen6OPS2xv/BvT0emPivsmHBGbJ1n2c5YNmRbbzzLhjytsTWWf5G9jxrZo+l80yVYI+ubs397OnIvdIqjbuL6Syo1MnGv5Y26HFjHmivUhjPaeJM/Ge572sMXZ+tZ/k19n9SMLD/cdAnZ176+rwmoY3ifh7U+od/LPp1neau/GhJmVl/lO+5D1uHSvmmObbuzv0/df4XEfPpy3XNO9r7bB7RvnbO5sQ/xW/vdKaxfbALiSZVzzM/Jyb+dNrK3lZN/7veQcy0klq0Ry0p9fxHS92w9sUhhU+Z1nvVqzuoZa9cFtGX1Ab5roVrT3AEAAHylxGPdMS+XQrrcObZzypwv35pTp2m3W1sgDhexPqkXW9uR5cZGWq4VN1LSGbH56umMZUOWl+xHtn0vOvNN7xByw8GXKLbq6EaWGbugHJKRoX1ySv2biPpLiUm2b+X/XvOdE1K/X3JehJdi7FyM7QtS29gE1mElUn11WOdjTL/ZeuoJ2c++79Wtwo71RmHHp2Ul+7htA+KQ7OnmfDcYffGHHh+DbqSekv2LL2ZfH+2bRsPHOp9yY48Z6LDx1BW772LkbL85Wfsq5hyT/Nvb991Ran+FXMf5+sHGs3zsgJu1+n5+rF3naS/kvG09ywMAAFRVau5AN3Pc92Yl/0XClGWr272h0ml8vffHz0/Lk/rtEbM/ckcZu4j1Sb3YGlufUk81OCO2zrNsZyz7prBj06rDt202GbGfckY91oW5FXsb0X6t+ksJeWfF6Yg4XxLtTXZC4zSJYf270qy+xRWovzHqj715bsU6xncDK/YGh2+0ve/89o1ujtkeIYkvS5uxHqesxL2vHiv2fUQMg86or02o75LUc/zU3qjDeZZNOQ9CYn9T3Pev76bkS0Rdsax1cBO2G8PX94Q87XbO+l6y+tOVJ5aY813yJ7B99W08y6f8Dhxu/qfEG/o9YJ23t/ZELgAAuDLWRUJo6eYO+s6UeAIhp2ymX8WqOuVd8DzIfx7t5U/aWHG44LVJXxdfMnOjvCccnFF351m2M5YNvSi12vfVYZ1/sTeixpIh1uPPndH+EL+LjGPO+ksISZ5fegqnC1iuvdDepcTVpX83Bas/cQXqtxLUXWRdbUKs1ojy1Kfl9kad1vntS8CNrYOl89Rpsfrh2Fg2iTHEnis+nafOEv2LVX+J0eG++KxzNif2LjD2U85T51TTgFmJ/rmnHhtj9T1WP2HxPZUytu6tscyb0n5vWcewb/2sdegSYvFxRnsx523JPhMAAKCYTvaPnZCS+gMVYXwj96Yu7eRrWF+nMse3VU/ItrSWdxFxpK5L6LG2UdqFoDPq7DzLdhnLDhqjDmvbWAm5F70/7RBarIvalBjO18P5N8Xs9Zew98T2rPFE7caz7Ju+vri3Rom25VZp1NaI001c/7PijmcrydYltD+2jE9r1Gmd352xXOocwL6Rqxbf+RdTrHPGJcbQ+Ff/G3P0L6nb+1Rn1OGLyzqmc2JvIuI/lXJe5rK2wdzTco2Z6qaAlcjfJCzje2nyGOtcs/pB3zk6xROuzmgv5kmMzqjHlQoWAAAgRshoQV/Z63anGanN9+KzqUuNlyHW0intAuUSa6SNL3ljxeEiYkhdF98orUsXkU1EXM6oq/Ms2xnLxhynKdtmzpte1oiubUQ9W8VfaE5df47WE4+VbJfC5n5/0fvx7Hvaoy2zWqOsfeEK1D/X8bxJaD91CgAryW2d3xtjuS4xFiktAeuMZUqX1ojDWi7V1P2L1TeE6ox6fPGk7O+SsZ+zvres8yFHZ7S5n6jNWFMc21LaE3TWMdNmxLKPjEOyv2NTk/8+zmgz5hjtjHpcqWDvwf/UDgAAgBvRqMw0IR8kvRaoB19bq/+x2VZq/yDpB0mfK7V/zX42Plv6XJKv6vd76Dndqr+w26jujbep+6A5181q638Vvq5O76NcQ4+7qevP8b3x2av8sYcc2yv1iYWN/Ddxvng+X7I5j+cmYZnUbfuq/rsrVmN8tksJ5OiPhGWWvm9y1Opfrvk36i5j2Rp9lNVmo/q/gaz2c7fXzvjMjfzdOt9z4klZtjE++3diHLgyJNwBACjjSfkXdr8q72IAl7WaL4l1yRdJf9d1J5RqOsjedm6eMJJ9UVzSXXpPvLsJ4lmCv9UO4OhV8eemUz9Ksl1A/Tmc8dnvCku0hiTd1/Kvywddd/9YO+ll2WUufygQQ01L3je5lty/LNV/M5at0Uf5Bmn8Y5YoxlnXPTVuzEx1A6B0gnxXuD4sFAl3AADyPSr/om4nXpRa2jCFTM3Rwp/UXxBf84iwJdjVDiDTF0l/lfRbxDIrLePFmlNY0rRZB/Xn6M+KO083CktaDfX/OlH9qRrjs08R9XyR/RSKz6+R7eG6HWoHcGMOmrb/wrtav+OspHur+Z+sABCIhDsAAHke1M/rmGN4fB/l1J5CRuovgD9UbP+W5IxKW4pX9cfEXxWXfC3x9Az8flO/b35WeFJwo/AbIp3e9/0U9ZeSMo3IJ8XdTDpdrktYDuGa2gGcaWoHcKOm7r9Q72mJ3z2fl5jO8lZMdVPkz4Xru+Unb3CChDsAAOkalfmhGzMPJ/xa1Z1CZphmISUBhcus+aavzUFfJ1995/5K+Tf1lsZ6tPt/Jf2pYNlFxPWq98TVB4Ulrn6JrL+bsP5QUzx2/7Pi3lGx0+3ckLTO4Z3KHs8/RMbWKO+GXcr3qLU9msQ4JOkvCctYsfyqsvumS4ivpKn7r1uQM51ZUyqISDvZ+9Kp3m8E3xzzOazlx9qdavrB0tcTKX0ZrhAJdwAA0pUYefqbrn+6jKVYwhQyw3zdu0rt36KV6o7Cm6rt0+Sr7+bMTxPFUIv1xMJSbq580vuIUStp55TW35zWb0mt3zJVkiR0LvYvuq2nupbwjokpYlgr7diz5jvOOb9dwjLWdllKXzOFT6rXvyxZTuL0R+OzlBf6xvDtx0dN29esdPm74VXj34/NyDKhnPHZIfLvkr3/fFzCMgfjM99LxHEjSLgDAJCmxLztuXPf4t0SppD5rD7Zfs0v/1si38it1KdDSiQZDgXqGKaa+dX4N02BdpbEOkdSL0RTk4M+v8mfHM75Lpi6/liN0rdjo9s7VkMdjM/ahPrGElxjrHMq9cWKqTf6fOd3yvHllHZs+W5EpNTZ6HqS1L/J/1TEPU1v0SgtebqS/d009e++z/IP5HjSNEn3tfoX7TYjn++MZduMdq3+Z+wGh3WzL/W3RZu4nO/GtkusF1eEhDsAAPGYt31ZWtWdQkbqk6VMDVReK/uR91elX+iGjm60jqv/RLS3ln2B1UXUde12xmeN4i9wG/V9wHPCsiFt7pSXUPHV/zmz/hRWeynfb8NNz5BE5Fq3N+/wzvgsJXG9kbRX+BNb/zI+c4pP7jRKTzRZUwutlDaNSerUJ753ErSR9Q0vs95rOX12o2n7r1uTcix9lH0e7tJCifJB9m/M4dgsOb3Mx2OdjfFvrL7nH0q/weaMz8f6GKvvaZS2bVL7ni+y+56c6Zzu6SYZAAC4IytJL5LeMsutzclcwzCFTO6+yCkv4tHQSzqNb7NtwPKNp46h+JJ2zlj2RWEXgnujjjZgead+nd+OdaW2NVb32L/vPG11xrLOs+yp1P38ZCy7V/hF+kp9ov287ZB1aPTeh/iOh2EfxmyvqevP8Wi096K4kb+t0r4Xu9yViDD19n0w6n9T3Hd+q2/3Ryf/OWHtg9xzKvb83shePuZ7s/PUNdY/Dqxj/U1xyavz9dor7HsgNXZLo2n7l9R9f6pLaDckZh/f8bKJWAdXsK5cvn7mdB/lJGWHG6gh+8t3XfSsuKR746nPd/xZfdeL8s732Fh8fU/KsTPcBLnEZcR6qjPqcfEhAwAAhLEuAELL0+xR35617OTkHOVZjDIZ08nebu5C6dRfnPgSPTE//Fee5X3nou9iqzGWdbrcX4wl3pzRzj5hmc5eteoJ99ZYdjhOfBfpjezjZew9G8MI6/N//zjSji+h0Exc/xTTV6yN9obt33jqWCksGWqVuW5YXjoXT89JF1ku7ZO90cabwhKzH43l9/I/JePbp77vrEZhfbDv/HYBdbSeOiR/wmoovnWylg1Jwvlu8G9lny+psV8ydf/li9m37091Rj3Os6x1zvqEHDObgHoe5L+Z6FuP0lpPPKflSXF97IPGb4Y7Y7nOE0fI94mObeRu79az/EtAHaEDenznQhNQx0Zh3/GN3vfNWLsuI9ZTnVGPi6gHAAAgWKfwH7nWD71rmftzqayExFylxAtzb1mn6ffBWHLhnDWSergQPL8gfZD/5tqz0WbjWfY86e5kJ+s2I+04Y5nOiE+qn3CX/AnKF/XbqjlbrjnG77swH9tHVruP+vrcbmQnIPcV6i/Fd4wPI6ubs+VW6pMavv0XUmJHHKbyrWtscRfaaAOW2+jb/maYHzokxkvtntYT8qTBpXfQrI9/D31SIeT8Dlmfrb7dHo3ijy+fTUAdl7ZLaCy+33Y5sZ+zYinZv+Ts+0Fn1OM8y1rHj0/ocbPX5e+Y0PNxExDLFNqA2M6Pz636/XF6g7E9/u1JeYnulcLOkbGXuz4o7BwNHbAU0ndsdLnv+Ri4fOi5EHLTcPiuPe9/hu+G820z1q7LjHXQGfW4iHoAAACC+EYDhhamH0k3zE9ZYj/klG7i9bwFnabdBzGPKLuJYmg97foS/cMF8D6gLZewbp0nvi6hvUvG6tgGLGvFn1usRG4XsPxWYSN9uwr1l+IC2h/KPiLm0/IxYJnYKQdSbCPjTj0nY7dPTAm5yTjXDeltQCyNykzBF1Jqx9J62s+J/VwXEM9W+f1Lzr4PidV5lt0ay/rMcczVHkDTXohpyuI88biJ24/Z3lPHEnMuhNyMKNWutd4hsQ46ox4XUQ8AAIBXqR9LoSNy8S2n+S7crR/7btrVvBmdptsPKcm5TeEYQi5cmhnacsZynSe+zljWBazfIGcbSeFTRsSW1mizVJ8+lgCYuv6SugJxjsU+3GBu5O+/p55qbVtw3axzpNE031Ux/d5mgvbPyzYwlnaGWN4CYwmd/zq2bALazo391Fz9S+6+l2474b6EKQVDprwpVVxAPO1Ebac8CdVNvD1izoW1yu6nsXZdgVglEu4AAGBGJRJCezEFSaqpEnIxJXT+SfQ6TbMfNko7j0JeAhhzLITG0GW25Xt5pTOW7TJic4HrJ6OOmIu7jVFPSmkD2nQF2rGeWJq6/pJKb/+9vk2OuIDluknWrrdNXJeUc6R0ciX2JmOp/i7nxYWn2kLbwYpn7liGsgls16ojhSsQu69/KbHvO6Me51l2ayzrM7bcXvnn5ovCvmPm0miepz9dYDxt4XZzph3bFI4l51wo+b0w1q4rFGtn1OMi6gEAADCVGhHlZo77Fqw17eP5oYUnE+J1Kn9R4zJjWsk/zUtIHHONrg+5yHTG8p1n2c5Y1gWum4w6Yi7upDI31k5HVYdoM9pqF1B/SV1GrKflfA7pU23A8lPdZNhGrENIcZ72SiVXNkq/Wb/JaHcveyq9bWQsrfK2R6u8BOx5LCWOgbEXYF9i1ZMqZz3ajJhj9n1n1OM8y+bsbyv2tdKfEBjOiyV6UPmpS4Z1ju2XXaFYtsof7JIzzdbwm6LEuSCVu64Za9cVirUz6nER9QAAAIwKfQGZr5CwjfdRy5hCpp14PW9VpzIXFJdeZparVfyxNby8M1UX2d5WYRf1zqijy4jJhazUUYmLu4FT+kX6RmmJydhH8veK2z5T11/SWumJ6a3C4t546pnqJaqp65VzjqyUnvTeq8zNh5Qk3Om5VPL8bhS/H571fjxYy8bKPdZjj1GrvhxT9i8l9n1n1OOLI2d/+2JfKe4m7/BSy2t4UrVVmf7uSXnfRSuFvdx87DhtM9o+l3K+n57nJc6FQc52Gdp0I3W7QrF2Rj1jbeOCP9UOAACABXtS/gXvF0k/SHrND+cuDAmK2i+X/SLpw/F/Ea9ReqL8cCxTayX9qP7i4dJF9KuknaR/SfpUoL1G0j/UH9uN0d4/JX0OrHOl8cTPQfZ2bEbikPrjPrTPciN/f1X6+fOg933TGPXvJP2hfv/k9LEr9cfDTxrfnju975vYtlbqb9j8GFD/p8i6p7BWvy2c7MTiTv0+/l1x56zzfH6IrC/EWmWTZTHnSKP+mLaOr6HOnfrjoPR3z3BOPejydjgc2/79rG03Ul/O+d2o7wudxrfHZ33b91r7cJcYy3Csj/XLp/UPfc0hoR3nqTtHTP/1KaJeN/L3mH3fKP17Jmd/jyXld+p/kw8a2d/LO70fh9f2O75Rvw+/V78tfTeJdur3yR/H/y65vu0xDif7eNip3967gm2fcnr/brsUx6v6vuefZzG4kfpy+sGVvv6tY30/7dTvl8+e9qzfhHOdtzhBwh0AgMseVOYlbn8XSdtQTv02rz2C6JOkn8UPyntyfpEy9QXF3O1dO3f2/3cztndQ+eTv1PWX1ujri2+O1zyNvt6eB81/DLiT/669P08TqwfVPR/Ok7y1t00Kd/LfBy2/f5lCaML91On3ck4idckuJWR3FeJwJ/9dc1ufxrGEc92d/f8lxAQAAFDUSmWmM+lmjvtaxT7aO2Vpp11VAAAATKjkFCAAAAAACsl9seKb+vkH4bfWMl6MutdyX4QFAACAMCTcAQAAgIV5UJkErps57mvUqX6i/U3LmMYGAAAA+Ui4AwAAAAtSaiqZx7kDvzKN+oue2on2N/UvMgQAAMBtIOEOAAAALMhG+QncvRgtbWlV5qZGif3EFDIAAAC3hYQ7AAAAsBBOZRK5DzPHfS1WKjM3fonCFDIAAAC3iYQ7AAAAsAAr9SOeSyRy8a0HLWNU+5uYQgYAAOCWkXAHAAAAFqBTfiL3Rf3c5Hi3pFHtz2IKGQAAgFtHwh0AAACorBEjp6fgVOapgRJlI6aQAQAAuAck3AEAAIDKtiozehq9laRH1U+yv6l/6qCddG0BAACwJCTcAQAAgIoeVCax62aOe6mcljOq/VlM8QMAAHBvSLgDAAAAlZR6Uepm7sAXaEmj2t+OsQAAAOD+kHAHAAAAKumUn9jlRanLGtX+Ip42AAAAuGck3AFU913tAAAAqKCR9EuBen6XdChQzzVaqd+GS3lZ7GdJHyS91g4EAAAA1fw68vfDnEEAAAAA9+ZJ+aOp97NHvRxOyxnV/qblJP0BAAAAAAAA4K44lUnytvOGvQhLm6v9WdJ60jUGAAAAAAAAAIzaKj/Re49zQDota1T7o/obAAAAAAAAAACACh5UJtnrZo67ppXKTMFTqvBiVAAAAAAAAABYgBIjtJ9mj7qeB/UJ7tpJ9tNtz6h2AAAAAAAAAKisVZmkbzNv2FU0Wt6o9nbC9QUAAAAAAAAARCgxun0ze9Tz+6hljWrf6j5ucgAAAAAAAADAVWjF6Haftcq8ULZk6aZcYQAAAAAAAABAPEa3j1upT2zXTq6flmf1NwAAAAAAAAAAAAvSitHtY5zK3IxgVDsAAAAAAAAA3IFnMbr93Er9OtVOrp+WvRjVDgAAAAAAAACL5cTo9nNLeynqm6RH9TcBAAAAAAAAAAAL9SRGtw+W+FLUvfqbIgAAAAAAAACABWvE6HapHzn+qPrJdUa1AwAAAAAAAMCVKpFkvvbR7a2WN30Mo9oBAAAAAAAA4MqUSDRf60s8lzh9DKPaAQAAAAAAAOAKtcpPDm/nDrqApU4f8yxGtQMAAAAAAADAVSrxstR27qAztVre9DFvkrrpVhkAAAAAAAAAMKWV8pPE+9mjTufUjyCvnVi/NKr9WqfkAQAAAAAAAABI+qj7GJXdqH+pa+3E+nl5Ub8PAAAAAAAAAABXbqv8pHEzd9ARVupvCCxx+pitlr3tAAAAAAAAAACBSkwn8zR71OFaLTPR/iLpYbrVBgAAAAAAAADMrVV+8niJiWOnfl752on1S+VR/Y0OAAAAAAAAAMAN2Sh/pPaSOJWZImeK8nyMDwAAAAAAAABwg3JHgW/mD/miRst8IepwU6KbasUBAAAAAAAAAPU1yk8m155OptFyE+1v6ue3byZadwAAAAAAAADAQjwoP6Fcay7yRstOtO/F9DEAAAAAAAAAcDc65SWVt7NHvPxEO9PHAAAAAAAAAMAdelJecrmbMdZGy060v4npYwAAAAAAAADgbm2Vl2CeY/52VyDOqcuzmD4GAABinHtoAAACLUlEQVQAAAAAAO7ai/ISzeuJ4lpJatXPg147mW6Vl2OcAAAAAAAAAIA7l5twLm2tftqY3BsBc5RO9V4YCwAAAAAAAABYmCUk3BtJH7X80exDYZ52AAAAAAAAAMA3cpPPqVPKrNWPEH8uEMNcZSvmaQcAAAAAAAAAjCgx2jvEWv0o9iddx3Qxp2Uv5mkHAAAAAGAyf6odAAAAhbwVqOMgaSfpP2d//5v6Oc5dgTZqeJX0s6RPleMAAAAAAAAAAFyBreqPIF9aeREvRAUAAAAAYDbf1Q4AAIBCXmsHsCCvkn6X9JvYLgAAAAAAAACASJ3qjyhfQnkUI9oBAAAAAAAAABnWqp/srlk2kprcjQgAAAAAAAAAgCTtVT/xPWd5UT+ivSmw7QAAAAAAAAAA+H+d6ifB50q0d2LqGAAAAAAAAADARFbqk9G1E+JTlb1ItAMAAAAAAAAAZtKpfmJ8ikR7W24TAQAAAAAAAAAQ5ln1k+QlylaSK7tpAAAAAAAAAAAIt9b1Ti3Di1ABAAAAAAAAAIvSqn7yPKY8H2NmfnYAAAAAAAAAwOK0qp9IDxnNvp5o/QEAAAAAAAAAKKZV/cT6eXmS9DDhOgMAAAAAAAAAMAmn+nO6P4kpYwAAAAAAAAAAN2ClPuk953QxG/Uj2UmyAwAAAAAAAABujpO01TQJ9idJH8Wc7AAAAAAA3KU/1Q4AAIBKGvVTvHyvPgkf41XSl2P598l/AwAAAACAO/Z/oKKPL2ka1PsAAAAASUVORK5CYII=";
 
 /**
- * Generates a PDF with the user's core leadership values and returns it as base64 string
+ * Generates a PDF with the user's core leadership values
  */
 export const generatePDF = (
-  coreValues: LeadershipValue[],
-  userInfo: UserInfo
-): string => {
+  coreValues: PdfValue[],
+  userInfo: PdfUserInfo,
+  completedAt: Date = new Date(),
+  comparison: ValueComparison | null = null
+): Buffer => {
   const { name, email } = userInfo;
-  const currentDate = new Date().toLocaleDateString("en-US", {
+  const currentDate = completedAt.toLocaleDateString("en-US", {
     year: "numeric",
     month: "long",
     day: "numeric",
@@ -119,6 +134,45 @@ export const generatePDF = (
     currentY += 10; // Space between values
   });
 
+  // Changes since the participant's previous assessment
+  if (comparison) {
+    if (currentY > 200) {
+      doc.addPage();
+      currentY = 20;
+    }
+
+    const previousDate = new Date(comparison.previousSubmittedAt).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+
+    doc.setFontSize(16);
+    doc.setTextColor(15, 23, 42);
+    doc.text("Compared with your previous results", 20, currentY);
+
+    doc.setFontSize(12);
+    doc.setTextColor(55, 65, 81);
+    doc.text(`Your core values from ${previousDate}: what you kept, dropped and added since then.`, 20, currentY + 8);
+
+    const rowCount = Math.max(comparison.kept.length, comparison.dropped.length, comparison.added.length);
+    autoTable(doc, {
+      startY: currentY + 14,
+      head: [["Kept", "Dropped", "Added"]],
+      body: Array.from({ length: rowCount }, (_, index) => [
+        comparison.kept[index] ?? "",
+        comparison.dropped[index] ?? "",
+        comparison.added[index] ?? "",
+      ]),
+      headStyles: {
+        fillColor: [15, 23, 42],
+        textColor: [255, 255, 255],
+        fontStyle: "bold",
+      },
+      theme: "grid",
+    });
+  }
+
   // ===== PAGE 2: Certificate =====
 
   // Add certificate page
@@ -195,6 +249,175 @@ export const generatePDF = (
     );
   }
 
-  // Return PDF as base64 string for email attachment
-  return doc.output("datauristring");
+  return Buffer.from(doc.output("arraybuffer"));
+};
+
+export const getPdfFilename = (name: string) => `${extractFirstName(name)}_Leadership_Values.pdf`;
+
+/**
+ * Resolves a submission's ordered core values to their names and descriptions.
+ * Uses the text captured at submission time when present; older submissions
+ * fall back to the value ids from the sorting journey, then to matching the stored names.
+ */
+export async function getSubmissionCoreValues(submission: Submission): Promise<PdfValue[]> {
+  if (submission.coreValueSnapshot) {
+    return submission.coreValueSnapshot.map(({ value, description }) => ({ value, description }));
+  }
+
+  const allValues = await storage.getAllLeadershipValues();
+  const names = Array.isArray(submission.coreValues) ? (submission.coreValues as string[]) : [];
+
+  if (submission.sortingJourney) {
+    return submission.sortingJourney.core.map((id, index) => {
+      const value = allValues.find(candidate => candidate.id === id);
+      return value
+        ? { value: value.value, description: value.description }
+        : { value: names[index] || "", description: "" };
+    });
+  }
+
+  return names.map(name => {
+    const value = allValues.find(candidate => candidate.value === name);
+    return { value: name, description: value?.description || "" };
+  });
+}
+
+/**
+ * Renders the results PDF for a stored submission. The comparison with the participant's
+ * previous submission reveals their earlier results, so only include it for the address's
+ * owner (the results email) or admins.
+ */
+export async function renderSubmissionPDF(submission: Submission, includeComparison: boolean): Promise<Buffer> {
+  const coreValues = await getSubmissionCoreValues(submission);
+  return generatePDF(
+    coreValues,
+    { name: submission.name, email: submission.email },
+    new Date(submission.createdAt),
+    includeComparison ? await getValueComparison(submission) : null
+  );
+}
+
+/**
+ * Generates the team values report for a company code
+ */
+export const generateTeamReportPDF = (report: TeamReport): Buffer => {
+  const teamName = report.organizationName ?? report.companyCode;
+  const generatedDate = new Date(report.generatedAt).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+  // Landscape leaves room for one matrix column per member
+  const doc = new jsPDF({ orientation: "landscape" });
+  const pageWidth = doc.internal.pageSize.width;
+
+  doc.addImage(logo, "PNG", 10, 0, 30, 30);
+
+  doc.setFontSize(20);
+  doc.setTextColor(15, 23, 42);
+  doc.text("Team Leadership Values", pageWidth / 2, 25, { align: "center" });
+
+  doc.setFontSize(12);
+  doc.setTextColor(75, 85, 99);
+  doc.text(`Team: ${teamName} (${report.companyCode})`, 20, 45);
+  doc.text(`Members: ${report.members.length}`, 20, 53);
+  doc.text(
+    `Alignment score: ${report.alignmentScore === null ? "n/a (fewer than two members)" : `${report.alignmentScore} / 100`}`,
+    20,
+    61
+  );
+  doc.text(`Date: ${generatedDate}`, 20, 69);
+
+  doc.setFontSize(10);
+  doc.setTextColor(55, 65, 81);
+  const description =
+    "The alignment score is the average overlap between every pair of members' core values: " +
+    "100 means everyone chose the same five values, 0 means no two members share any.";
+  doc.text(doc.splitTextToSize(description, pageWidth - 40), 20, 79);
+
+  const tableStyles = {
+    headStyles: {
+      fillColor: [15, 23, 42] as [number, number, number],
+      textColor: [255, 255, 255] as [number, number, number],
+      fontStyle: "bold" as const,
+    },
+    alternateRowStyles: {
+      fillColor: [240, 245, 255] as [number, number, number],
+    },
+    theme: "grid" as const,
+  };
+
+  // Most shared values
+  autoTable(doc, {
+    startY: 90,
+    head: [["Core Value", "Members", "Share of Team"]],
+    body: report.sharedValues.map((value) => [
+      value.value,
+      `${value.count}`,
+      `${Math.round(value.share * 100)}%`,
+    ]),
+    ...tableStyles,
+  });
+
+  // Values nobody chose
+  let currentY = (doc as any).lastAutoTable.finalY + 15;
+  if (currentY > doc.internal.pageSize.height - 30) {
+    doc.addPage();
+    currentY = 20;
+  }
+  doc.setFontSize(14);
+  doc.setTextColor(15, 23, 42);
+  doc.text("Values nobody chose", 20, currentY);
+  doc.setFontSize(10);
+  doc.setTextColor(55, 65, 81);
+  doc.text(
+    doc.splitTextToSize(report.unchosenValues.length > 0 ? report.unchosenValues.join(", ") : "Every value was chosen by someone.", pageWidth - 40),
+    20,
+    currentY + 8
+  );
+
+  // Member-by-value matrix, with each member's rank for the value
+  doc.addPage();
+  doc.setFontSize(14);
+  doc.setTextColor(15, 23, 42);
+  doc.text("Member-by-value matrix", 20, 20);
+  doc.setFontSize(10);
+  doc.setTextColor(55, 65, 81);
+  doc.text("Numbers show where each member ranked the value among their core values.", 20, 28);
+
+  autoTable(doc, {
+    startY: 34,
+    head: [["Member", ...report.sharedValues.map((value) => value.value)]],
+    body: report.members.map((member) => [
+      member.name,
+      ...report.sharedValues.map((value) => {
+        const rank = member.coreValues.indexOf(value.value);
+        return rank === -1 ? "" : `${rank + 1}`;
+      }),
+    ]),
+    styles: { fontSize: 8, halign: "center" },
+    columnStyles: { 0: { halign: "left" } },
+    horizontalPageBreak: true,
+    horizontalPageBreakRepeat: 0,
+    ...tableStyles,
+  });
+
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(10);
+    doc.setTextColor(150, 150, 150);
+    doc.text(
+      `Page ${i} of ${pageCount}`,
+      doc.internal.pageSize.width - 20,
+      doc.internal.pageSize.height - 10,
+      { align: "right" }
+    );
+  }
+
+  return Buffer.from(doc.output("arraybuffer"));
 };
+
+export const getTeamReportFilename = (companyCode: string) =>
+  `${companyCode.replace(/[^A-Za-z0-9_-]+/g, "_")}_Team_Values_Report.pdf`;
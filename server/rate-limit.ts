@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimiter {
+  /** Records a hit for the key; returns the seconds to wait if the limit is exceeded, otherwise 0 */
+  consume(key: string): number;
+}
+
+/**
+ * Creates an in-memory fixed-window rate limiter. Limits are per server
+ * instance, which is enough for the single API server this app runs on.
+ */
+export function createRateLimiter({ windowMs, max }: { windowMs: number; max: number }): RateLimiter {
+  const windows = new Map<string, RateLimitWindow>();
+
+  // Periodically drop expired windows so the map doesn't grow without bound
+  setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    });
+  }, windowMs).unref();
+
+  return {
+    consume(key: string): number {
+      const now = Date.now();
+      const window = windows.get(key);
+
+      if (!window || window.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + windowMs });
+        return 0;
+      }
+
+      window.count++;
+      if (window.count > max) {
+        return Math.ceil((window.resetAt - now) / 1000);
+      }
+      return 0;
+    }
+  };
+}
+
+// Middleware limiting requests per client IP
+export function rateLimitByIp(limiter: RateLimiter, message: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const retryAfter = limiter.consume(req.ip || 'unknown');
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', retryAfter.toString());
+      return res.status(429).json({ error: message });
+    }
+    next();
+  };
+}
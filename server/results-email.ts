@@ -0,0 +1,157 @@
+import { type EmailOutboxMessage, type EmailTemplate, type Submission } from "@shared/schema";
+import { storage } from "./storage";
+import { escapeHtml } from "./email";
+import { deliverOutboxMessage, enqueueEmail } from "./email-outbox";
+import { getSubmissionCoreValues, type PdfValue } from "./pdf-generator";
+import { getValueComparison } from "./participant-history";
+import { generateComparisonToken } from "./jwt-auth";
+import { extractFirstName } from "@/lib/utils";
+
+export type EmailTemplateContent = Pick<EmailTemplate, "subject" | "body">;
+
+// Placeholders admins can use in the results email subject and body
+export const RESULTS_EMAIL_PLACEHOLDERS = ["firstName", "name", "coreValues", "companyName", "comparisonLink"] as const;
+
+type ResultsEmailVariables = Record<(typeof RESULTS_EMAIL_PLACEHOLDERS)[number], string>;
+
+const CLIENT_URL = process.env.CLIENT_URL || "http://localhost:3000";
+
+// Used until an admin saves a template of their own
+export const DEFAULT_RESULTS_EMAIL_TEMPLATE: EmailTemplateContent = {
+  subject: "Your Leadership Values Results",
+  body: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  <h1 style="color: #3b82f6;">Your Leadership Values</h1>
+  <p>Hello {{firstName}},</p>
+  <p>Thank you for completing the Leadership Values Assessment. Your PDF is attached to this email.</p>
+  <h2 style="color: #3b82f6;">Your Core Leadership Values:</h2>
+  {{coreValues}}
+  <p>Use these values to guide your leadership journey and decision-making.</p>
+  {{comparisonLink}}
+  <p>Best regards,<br>The Leadership Values Team</p>
+</div>`,
+};
+
+/**
+ * Replaces {{placeholder}} tokens with their values. Unknown placeholders are
+ * left in place so a typo is visible in the preview rather than silently dropped.
+ */
+export const renderTemplate = (template: string, variables: Record<string, string>) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  );
+
+/**
+ * Finds the template for an organization, falling back to the default
+ * template and then to the built-in one
+ */
+export async function getResultsEmailTemplate(organizationId: number | null): Promise<EmailTemplateContent> {
+  const template =
+    (organizationId !== null ? await storage.getEmailTemplate("results", organizationId) : undefined) ??
+    (await storage.getEmailTemplate("results", null));
+  return template ? { subject: template.subject, body: template.body } : DEFAULT_RESULTS_EMAIL_TEMPLATE;
+}
+
+/**
+ * Renders a results email template. Values are HTML-escaped in the body,
+ * except for the core values list and comparison link which are generated here.
+ * The comparison link is left empty on a participant's first submission.
+ */
+export function renderResultsEmail(
+  template: EmailTemplateContent,
+  { name, coreValues, companyName, comparisonUrl }: {
+    name: string;
+    coreValues: PdfValue[];
+    companyName: string;
+    comparisonUrl: string | null;
+  }
+): { subject: string; html: string } {
+  const textVariables: ResultsEmailVariables = {
+    firstName: extractFirstName(name),
+    name,
+    coreValues: coreValues.map(value => value.value).join(", "),
+    companyName,
+    comparisonLink: comparisonUrl ?? "",
+  };
+
+  const valuesList = coreValues.map((value, index) =>
+    `<li>${index + 1}. <strong>${escapeHtml(value.value)}</strong>: ${escapeHtml(value.description)}</li>`
+  ).join("");
+
+  const htmlVariables: ResultsEmailVariables = {
+    firstName: escapeHtml(textVariables.firstName),
+    name: escapeHtml(name),
+    coreValues: `<ul>${valuesList}</ul>`,
+    companyName: escapeHtml(companyName),
+    comparisonLink: comparisonUrl
+      ? `<p>You've taken the assessment before. <a href="${escapeHtml(comparisonUrl)}">See how your core values have changed</a>.</p>`
+      : "",
+  };
+
+  return {
+    subject: renderTemplate(template.subject, textVariables),
+    html: renderTemplate(template.body, htmlVariables),
+  };
+}
+
+// Only the results email carries this link, since it proves the participant owns the address
+const getComparisonUrl = (submissionId: number) =>
+  `${CLIENT_URL}/compare?submission=${submissionId}&token=${generateComparisonToken(submissionId)}`;
+
+/**
+ * Builds the subject and body of the results email for a submission.
+ * The PDF itself is attached when the email is delivered.
+ */
+export async function composeResultsEmail(submission: Submission): Promise<{ subject: string; html: string }> {
+  const organization = submission.organizationId !== null
+    ? await storage.getOrganizationById(submission.organizationId)
+    : undefined;
+
+  return renderResultsEmail(await getResultsEmailTemplate(organization?.id ?? null), {
+    name: submission.name,
+    coreValues: await getSubmissionCoreValues(submission),
+    companyName: organization?.name ?? "",
+    comparisonUrl: (await getValueComparison(submission)) ? getComparisonUrl(submission.id) : null,
+  });
+}
+
+/**
+ * Queues the results email for a submission without trying to send it yet
+ */
+export async function queueResultsEmail(submission: Submission): Promise<EmailOutboxMessage> {
+  const { subject, html } = await composeResultsEmail(submission);
+  return enqueueEmail({
+    kind: "results",
+    submissionId: submission.id,
+    recipient: submission.email,
+    subject,
+    html
+  });
+}
+
+/**
+ * Queues the results email for a submission and tries to deliver it straight
+ * away, so a provider outage is retried instead of lost. Returns the outbox
+ * message as it stands after the first attempt.
+ */
+export async function sendResultsEmail(submission: Submission): Promise<EmailOutboxMessage> {
+  const queuedEmail = await queueResultsEmail(submission);
+  return (await deliverOutboxMessage(queuedEmail.id)) ?? queuedEmail;
+}
+
+/**
+ * Renders a template against a sample participant, for previewing edits before saving
+ */
+export async function previewResultsEmail(
+  template: EmailTemplateContent,
+  organizationId: number | null
+): Promise<{ subject: string; html: string }> {
+  const organization = organizationId !== null ? await storage.getOrganizationById(organizationId) : undefined;
+  const sampleValues = (await storage.getAllLeadershipValues()).filter(value => !value.archivedAt).slice(0, 5);
+
+  return renderResultsEmail(template, {
+    name: "Alex Sample",
+    coreValues: sampleValues.map(value => ({ value: value.value, description: value.description })),
+    companyName: organization?.name ?? "Sample Company",
+    comparisonUrl: `${CLIENT_URL}/compare`,
+  });
+}
@@ -0,0 +1,120 @@
+import cron from "node-cron";
+import {
+  normalizeCompanyCode,
+  type RetentionCutoffs,
+  type RetentionReport,
+  type RetentionRun,
+  type RetentionSettings
+} from "@shared/schema";
+import { storage } from "./storage";
+import { getRetentionSettings, saveLastRetentionRun } from "./settings";
+
+// Keeps each statement well under Postgres's parameter limit
+const BATCH_SIZE = 500;
+
+function monthsBefore(now: Date, months: number): Date {
+  const cutoff = new Date(now);
+  cutoff.setUTCMonth(cutoff.getUTCMonth() - months);
+  return cutoff;
+}
+
+function getCutoffs(settings: RetentionSettings, now: Date): RetentionCutoffs {
+  return {
+    default: settings.defaultMonths === null ? null : monthsBefore(now, settings.defaultMonths),
+    companyCodes: Object.fromEntries(settings.companyCodes.map(rule => [
+      rule.companyCode,
+      rule.months === null ? null : monthsBefore(now, rule.months)
+    ]))
+  };
+}
+
+// The period that applies to a company code, or the default
+function getRetentionMonths(settings: RetentionSettings, companyCode: string | null): number | null {
+  const rule = companyCode ? settings.companyCodes.find(rule => rule.companyCode === companyCode) : undefined;
+  return rule ? rule.months : settings.defaultMonths;
+}
+
+// Anonymized submissions only count again when the policy now deletes
+async function findExpiredSubmissions(settings: RetentionSettings, now: Date) {
+  return storage.getExpiredSubmissions(getCutoffs(settings, now), settings.action === "delete");
+}
+
+/**
+ * Reports what purging with these settings would do right now, without changing anything
+ */
+export async function previewRetention(settings: RetentionSettings): Promise<RetentionReport> {
+  const now = new Date();
+  const expired = await findExpiredSubmissions(settings, now);
+
+  // Candidates come oldest first, so the first one seen in each group is its oldest
+  const groups = new Map<string | null, RetentionReport["groups"][number]>();
+  for (const submission of expired) {
+    // Older submissions may have stored a code as it was typed, e.g. "acme"
+    const companyCode = submission.companyCode ? normalizeCompanyCode(submission.companyCode) : null;
+    const group = groups.get(companyCode);
+    if (group) {
+      group.count++;
+      continue;
+    }
+    const months = getRetentionMonths(settings, companyCode)!;
+    groups.set(companyCode, {
+      companyCode,
+      months,
+      cutoff: monthsBefore(now, months).toISOString(),
+      count: 1,
+      oldest: new Date(submission.createdAt).toISOString()
+    });
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    action: settings.action,
+    total: expired.length,
+    groups: Array.from(groups.values()).sort((a, b) => b.count - a.count)
+  };
+}
+
+/**
+ * Anonymizes or deletes every expired submission under the saved policy. Scheduled
+ * runs do nothing while the policy is turned off; manual runs always apply it.
+ */
+export async function runRetention(trigger: RetentionRun["trigger"], actorId: number | null = null): Promise<RetentionRun | undefined> {
+  const settings = await getRetentionSettings();
+  if (trigger === "schedule" && !settings.enabled) return undefined;
+
+  const expired = await findExpiredSubmissions(settings, new Date());
+  const ids = expired.map(submission => submission.id);
+
+  let purged = 0;
+  for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+    const batch = ids.slice(start, start + BATCH_SIZE);
+    purged += settings.action === "delete"
+      ? await storage.deleteSubmissions(batch)
+      : await storage.anonymizeSubmissions(batch);
+  }
+
+  const run: RetentionRun = {
+    ranAt: new Date().toISOString(),
+    action: settings.action,
+    submissions: purged,
+    trigger
+  };
+  await saveLastRetentionRun(run, actorId);
+  return run;
+}
+
+/**
+ * Starts the nightly job that applies the retention policy at 03:00 server time
+ */
+export function startRetentionWorker() {
+  return cron.schedule("0 3 * * *", async () => {
+    try {
+      const run = await runRetention("schedule");
+      if (run && run.submissions > 0) {
+        console.log(`Retention policy ${run.action === "delete" ? "deleted" : "anonymized"} ${run.submissions} submission(s)`);
+      }
+    } catch (error) {
+      console.error("Error applying the retention policy:", error);
+    }
+  });
+}
@@ -1,12 +1,168 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertSubmissionSchema, insertLeadershipValueSchema } from "@shared/schema";
+import {
+  insertSubmissionSchema,
+  insertLeadershipValueSchema,
+  leadershipValueStatusSchema,
+  leadershipValueOrderSchema,
+  valueExportSchema,
+  valueImportSchema,
+  type ValueImportResult,
+  insertDeckSchema,
+  insertOrganizationSchema,
+  insertUserInviteSchema,
+  changePasswordSchema,
+  requestPasswordResetSchema,
+  resetPasswordSchema,
+  updateAccountEmailSchema,
+  securitySettingsSchema,
+  retentionSettingsSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+  userRoles,
+  canManageRole,
+  hasRole,
+  insertEmailTemplateSchema,
+  analyticsFiltersSchema,
+  analyticsIntervalSchema,
+  auditLogFiltersSchema,
+  submissionFiltersSchema,
+  submissionExportSchema,
+  participantEmailSchema,
+  normalizeEmail,
+  type SubmissionPage,
+  type CoreValueSnapshot,
+  type SubmissionComparison,
+  type ExerciseSessionWithDeck,
+  exerciseStateSchema,
+  updateExerciseStateSchema
+} from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
-import { authenticateToken, loginUser, registerUser } from "./jwt-auth";
-import { sendEmail } from './email';
-import { extractFirstName } from "@/lib/utils";
+import {
+  authenticateAccount,
+  authenticateToken,
+  authenticateSubmissionAccess,
+  changePassword,
+  generateSubmissionToken,
+  generateOneTimeToken,
+  hashToken,
+  loginUser,
+  refreshSession,
+  registerUser,
+  revokeSession,
+  requireRole,
+  toCurrentUser,
+  toPublicUser,
+  verifyComparisonToken,
+  verifyTwoFactorChallenge
+} from "./jwt-auth";
+import {
+  beginTwoFactorSetup,
+  completeTwoFactorLogin,
+  disableTwoFactor,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  verifyTotpCode
+} from "./two-factor";
+import {
+  getSecuritySettings,
+  saveSecuritySettings,
+  getRetentionSettings,
+  saveRetentionSettings,
+  getLastRetentionRun
+} from "./settings";
+import { previewRetention, runRetention } from "./retention";
+import {
+  DEFAULT_RESULTS_EMAIL_TEMPLATE,
+  RESULTS_EMAIL_PLACEHOLDERS,
+  previewResultsEmail,
+  queueResultsEmail,
+  sendResultsEmail
+} from './results-email';
+import { deliverOutboxMessage, requeueOutboxMessage } from './email-outbox';
+import { buildSubmissionDetail } from './submission-detail';
+import { buildParticipantData } from './participant-data';
+import { buildParticipantHistory, getValueComparison } from './participant-history';
+import { exportSubmissions } from './submission-export';
+import { exportLeadershipValues, planValueImport } from './value-transfer';
+import { createRateLimiter, rateLimitByIp } from './rate-limit';
+import { audit } from './audit';
+import { requestPasswordReset, resetPassword } from './password-reset';
+import { validateCompanyCode } from './organizations';
+import { generateTeamReportPDF, getPdfFilename, getTeamReportFilename, renderSubmissionPDF } from './pdf-generator';
+import { buildTeamReport } from './team-report';
+import { randomInt } from "crypto";
+
+// Unambiguous characters only, so codes can be read aloud or typed on a phone
+const RESUME_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const RESUME_CODE_LENGTH = 8;
+
+// Invite links for new admin users stay valid for a week
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// The results email may only be requested shortly after submitting
+const EMAIL_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Results email limits protect the sending domain's reputation
+const emailIpLimiter = createRateLimiter({ windowMs: 60 * 60 * 1000, max: 50 }); // per IP per hour, allowing for workshops on shared Wi-Fi
+const emailRecipientLimiter = createRateLimiter({ windowMs: 24 * 60 * 60 * 1000, max: 3 }); // per recipient per day
+const passwordResetLimiter = createRateLimiter({ windowMs: 60 * 60 * 1000, max: 10 }); // per IP per hour
+const twoFactorLimiter = createRateLimiter({ windowMs: 15 * 60 * 1000, max: 10 }); // per IP per 15 minutes
+// Resume codes are short enough to type, so guessing them has to be slow
+const sessionResumeLimiter = createRateLimiter({ windowMs: 15 * 60 * 1000, max: 20 }); // per IP per 15 minutes
+const sessionSaveLimiter = createRateLimiter({ windowMs: 60 * 60 * 1000, max: 1000 }); // per IP per hour, allowing for autosave in workshops
+
+async function generateResumeCode(): Promise<string> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    let code = "";
+    for (let i = 0; i < RESUME_CODE_LENGTH; i++) {
+      code += RESUME_CODE_ALPHABET[randomInt(RESUME_CODE_ALPHABET.length)];
+    }
+
+    if (!(await storage.getExerciseSessionByCode(code))) {
+      return code;
+    }
+  }
+
+  throw new Error("Could not generate a unique resume code");
+}
+
+// Fisher-Yates shuffle, for decks that deal cards in random order
+function shuffled<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Audit snapshots of the record a route is about to change
+const userSnapshot = async (req: Request) => {
+  const user = await storage.getUser(parseInt(req.params.id));
+  return user && toPublicUser(user);
+};
+const leadershipValueSnapshot = (req: Request) => storage.getLeadershipValueById(parseInt(req.params.id));
+const leadershipValueOrderSnapshot = async () => ({ valueIds: (await storage.getAllLeadershipValues()).map(value => value.id) });
+const deckSnapshot = (req: Request) => storage.getDeckById(parseInt(req.params.id));
+const organizationSnapshot = (req: Request) => storage.getOrganizationById(parseInt(req.params.id));
+
+// Failed logins record the username that was tried, without linking it to an account
+function loginActor(req: Request, body: any) {
+  if (body?.user) return body.user;
+  return { id: null, username: typeof req.body?.username === "string" ? req.body.username : null };
+}
+
+async function twoFactorLoginActor(req: Request, body: any) {
+  if (body?.user) return body.user;
+  const challenge = typeof req.body?.challengeToken === "string" ? verifyTwoFactorChallenge(req.body.challengeToken) : null;
+  const user = challenge ? await storage.getUser(challenge.userId) : undefined;
+  return user && { id: user.id, username: user.username };
+}
+
+const AUDIT_LOG_PAGE_SIZE = 50;
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
@@ -43,7 +199,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Authentication endpoints
-  app.post("/api/login", async (req, res) => {
+  app.post("/api/login", audit("auth.login", { targetType: "user", targetId: (req, body) => body?.user?.id, actor: loginActor, recordFailures: true }), async (req, res) => {
     try {
       const { username, password } = req.body;
       
@@ -51,14 +207,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Username and password are required" });
       }
 
-      const result = await loginUser(username, password);
+      const result = await loginUser(username, password, req.get("user-agent"));
       if (!result) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
+      if ('twoFactorRequired' in result) {
+        return res.json(result);
+      }
+
       res.json({
         user: result.user,
-        token: result.token
+        token: result.token,
+        refreshToken: result.refreshToken
       });
     } catch (error) {
       console.error('Login error:', error);
@@ -66,22 +227,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/register", async (req, res) => {
+  app.post("/api/register", audit("auth.register", { targetType: "user", targetId: (req, body) => body?.user?.id, actor: (req, body) => body?.user, after: (req, body) => body?.user }), async (req, res) => {
     try {
-      const { username, password } = req.body;
+      const { username, password, inviteToken } = req.body;
       
       if (!username || !password) {
         return res.status(400).json({ message: "Username and password are required" });
       }
 
-      const result = await registerUser(username, password);
-      if (!result) {
-        return res.status(400).json({ message: "Username already exists" });
+      const result = await registerUser(
+        username,
+        password,
+        typeof inviteToken === 'string' ? inviteToken : undefined,
+        req.get("user-agent")
+      );
+      if ('error' in result) {
+        return res.status(400).json({ message: result.error });
       }
 
       res.status(201).json({
         user: result.user,
-        token: result.token
+        token: result.token,
+        refreshToken: result.refreshToken
       });
     } catch (error) {
       console.error('Registration error:', error);
@@ -89,316 +256,2089 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/user", authenticateToken, (req, res) => {
-    res.json(req.user);
+  // Registration is open without an invite only until the first (owner) account exists
+  app.get("/api/registration-status", async (req, res) => {
+    try {
+      res.json({ open: (await storage.countUsers()) === 0 });
+    } catch (error) {
+      console.error("Error checking registration status:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
   });
 
-  app.post("/api/logout", (req, res) => {
-    // With JWT, logout is handled client-side by removing the token
-    res.json({ message: "Logged out successfully" });
-  });
-  
-  // API routes
-  app.post("/api/submissions", async (req, res) => {
+  // Second login step for accounts with two-factor turned on
+  app.post("/api/login/two-factor", rateLimitByIp(twoFactorLimiter, 'Too many attempts. Please try again later.'), audit("auth.login_two_factor", { targetType: "user", targetId: (req, body) => body?.user?.id, actor: twoFactorLoginActor, recordFailures: true }), async (req, res) => {
     try {
-      // Validate the request body
-      const submissionData = insertSubmissionSchema.parse(req.body);
-      
-      // Store the submission data
-      const submission = await storage.createSubmission(submissionData);
-      
-      res.status(201).json({
-        message: "Submission recorded successfully",
-        data: submission
-      });
+      const { challengeToken, code } = twoFactorLoginSchema.parse(req.body);
+
+      const result = await completeTwoFactorLogin(challengeToken, code, req.get("user-agent"));
+      if (!result) {
+        return res.status(401).json({ message: "Invalid code" });
+      }
+
+      res.json(result);
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
         res.status(400).json({
-          message: "Invalid submission data",
+          message: "Invalid request",
           errors: validationError.message
         });
       } else {
-        console.error("Error handling submission:", error);
-        res.status(500).json({
-          message: "An error occurred while processing your submission"
-        });
+        console.error('Two-factor login error:', error);
+        res.status(500).json({ message: "Internal server error" });
       }
     }
   });
 
-  // Get all leadership values
-  app.get("/api/leadership-values", async (req, res) => {
+  app.get("/api/user", authenticateAccount, async (req, res) => {
     try {
-      const values = await storage.getAllLeadershipValues();
-      res.json(values);
+      res.json(await toCurrentUser(req.user!));
     } catch (error) {
-      console.error("Error fetching leadership values:", error);
-      res.status(500).json({
-        message: "An error occurred while fetching leadership values"
-      });
+      console.error("Error fetching current user:", error);
+      res.status(500).json({ message: "Internal server error" });
     }
   });
-  
-  // Create a new leadership value
-  app.post("/api/leadership-values", authenticateToken, async (req, res) => {
+
+  // Set or clear the email address password reset links are sent to
+  app.put("/api/user/email", authenticateAccount, audit("account.email_update", { targetType: "user", targetId: req => req.user!.id, before: req => ({ email: req.user!.email }) }), async (req, res) => {
     try {
-      // Validate the request body
-      const valueData = insertLeadershipValueSchema.parse(req.body);
-      
-      // Store the leadership value
-      const value = await storage.createLeadershipValue(valueData);
-      
-      res.status(201).json({
-        message: "Leadership value created successfully",
-        data: value
+      const { email } = updateAccountEmailSchema.parse(req.body);
+
+      if (email) {
+        const existingUser = await storage.getUserByEmail(email);
+        if (existingUser && existingUser.id !== req.user!.id) {
+          return res.status(409).json({ message: "This email address is already used by another account" });
+        }
+      }
+
+      const updatedUser = await storage.updateUserEmail(req.user!.id, email);
+
+      res.json({
+        message: "Email updated successfully",
+        data: toPublicUser(updatedUser)
       });
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
         res.status(400).json({
-          message: "Invalid leadership value data",
+          message: "Invalid email address",
           errors: validationError.message
         });
       } else {
-        console.error("Error creating leadership value:", error);
+        console.error("Error updating email:", error);
         res.status(500).json({
-          message: "An error occurred while creating the leadership value"
+          message: "An error occurred while updating the email address"
         });
       }
     }
   });
-  
-  // Get a specific leadership value by ID
-  app.get("/api/leadership-values/:id", authenticateToken, async (req, res) => {
+
+  // Change the signed-in user's password; their other sessions are signed out
+  app.post("/api/user/password", authenticateAccount, audit("account.password_change", { targetType: "user", targetId: req => req.user!.id, recordFailures: true }), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ID format" });
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+      const result = await changePassword(req.user!, currentPassword, newPassword, req.authSessionId);
+      if ('error' in result) {
+        return res.status(400).json({ message: result.error });
       }
-      
-      const value = await storage.getLeadershipValueById(id);
-      if (!value) {
-        return res.status(404).json({ message: "Leadership value not found" });
+
+      res.json({ message: "Password changed successfully" });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid password",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error changing password:", error);
+        res.status(500).json({
+          message: "An error occurred while changing the password"
+        });
       }
-      
-      res.json(value);
+    }
+  });
+
+  // Two-factor status for the signed-in user
+  app.get("/api/user/two-factor", authenticateAccount, async (req, res) => {
+    try {
+      res.json({
+        enabled: !!req.user!.totpEnabledAt,
+        required: (await getSecuritySettings()).requireTwoFactor,
+        recoveryCodesRemaining: await storage.countUnusedRecoveryCodes(req.user!.id)
+      });
     } catch (error) {
-      console.error("Error fetching leadership value:", error);
+      console.error("Error fetching two-factor status:", error);
       res.status(500).json({
-        message: "An error occurred while fetching the leadership value"
+        message: "An error occurred while fetching two-factor status"
       });
     }
   });
-  
-  // Update a leadership value
-  app.put("/api/leadership-values/:id", authenticateToken, async (req, res) => {
+
+  // Start two-factor enrolment: returns a new secret and its QR code
+  app.post("/api/user/two-factor/setup", authenticateAccount, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ID format" });
+      if (req.user!.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already on" });
       }
-      
-      // Check if the value exists
-      const existingValue = await storage.getLeadershipValueById(id);
-      if (!existingValue) {
-        return res.status(404).json({ message: "Leadership value not found" });
+
+      res.json(await beginTwoFactorSetup(req.user!));
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({
+        message: "An error occurred while starting two-factor setup"
+      });
+    }
+  });
+
+  // Finish enrolment with a code from the app; returns the recovery codes
+  app.post("/api/user/two-factor/enable", authenticateAccount, audit("account.two_factor_enable", { targetType: "user", targetId: req => req.user!.id }), async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+
+      const codes = await enableTwoFactor(req.user!, code);
+      if (!codes) {
+        return res.status(400).json({ message: "Invalid code" });
       }
-      
-      // Validate and update the value
-      const valueData = insertLeadershipValueSchema.parse(req.body);
-      
-      const updatedValue = await storage.updateLeadershipValue(id, valueData);
-      
+
       res.json({
-        message: "Leadership value updated successfully",
-        data: updatedValue
+        message: "Two-factor authentication turned on",
+        recoveryCodes: codes
       });
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
         res.status(400).json({
-          message: "Invalid leadership value data",
+          message: "Invalid code",
           errors: validationError.message
         });
       } else {
-        console.error("Error updating leadership value:", error);
+        console.error("Error enabling two-factor:", error);
         res.status(500).json({
-          message: "An error occurred while updating the leadership value"
+          message: "An error occurred while turning on two-factor authentication"
         });
       }
     }
   });
-  
-  // Delete a leadership value
-  app.delete("/api/leadership-values/:id", authenticateToken, async (req, res) => {
+
+  // Replace the recovery codes; needs a current code from the app
+  app.post("/api/user/two-factor/recovery-codes", authenticateAccount, audit("account.recovery_codes_regenerate", { targetType: "user", targetId: req => req.user!.id }), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ID format" });
-      }
-      
-      // Check if the value exists
-      const existingValue = await storage.getLeadershipValueById(id);
-      if (!existingValue) {
-        return res.status(404).json({ message: "Leadership value not found" });
+      const { code } = twoFactorCodeSchema.parse(req.body);
+
+      if (!req.user!.totpEnabledAt || !(await verifyTotpCode(req.user!, code))) {
+        return res.status(400).json({ message: "Invalid code" });
       }
-      
-      await storage.deleteLeadershipValue(id);
-      
-      res.json({
-        message: "Leadership value deleted successfully"
-      });
+
+      res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user!.id) });
     } catch (error) {
-      console.error("Error deleting leadership value:", error);
-      res.status(500).json({
-        message: "An error occurred while deleting the leadership value"
-      });
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid code",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error regenerating recovery codes:", error);
+        res.status(500).json({
+          message: "An error occurred while generating recovery codes"
+        });
+      }
     }
   });
 
-  app.post('/api/send-pdf-email', async (req, res) => {
+  // Turn off two-factor for the signed-in user; needs a current code from the app
+  app.delete("/api/user/two-factor", authenticateAccount, audit("account.two_factor_disable", { targetType: "user", targetId: req => req.user!.id }), async (req, res) => {
     try {
-      const { pdfBase64, userInfo, coreValues } = req.body;
+      const { code } = twoFactorCodeSchema.parse(req.body);
 
-      
-      if (!pdfBase64 || !userInfo || !userInfo.email || !userInfo.name || !coreValues) {
-        return res.status(400).json({ error: 'Missing required data' });
+      if ((await getSecuritySettings()).requireTwoFactor) {
+        return res.status(400).json({ message: "Two-factor authentication is required for all admins" });
       }
-      
-      const pdfBuffer = Buffer.from(pdfBase64.split(',')[1], 'base64');
-      
-      // Create HTML content
-      const valuesList = coreValues.map((value: any, index: number) => 
-        `<li>${index + 1}. <strong>${value.value}</strong>: ${value.description}</li>`
-      ).join('');
 
-      const firstName = extractFirstName(userInfo.name);
-      
-      const html = `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h1 style="color: #3b82f6;">Your Leadership Values</h1>
-          <p>Hello ${firstName},</p>
-          <p>Thank you for completing the Leadership Values Assessment. Your PDF is attached to this email.</p>
-          <h2 style="color: #3b82f6;">Your Core Leadership Values:</h2>
-          <ul>
-            ${valuesList}
-          </ul>
-          <p>Use these values to guide your leadership journey and decision-making.</p>
-          <p>Best regards,<br>The Leadership Values Team</p>
-        </div>
-      `;
-      
-      const result = await sendEmail({
-        to: userInfo.email,
-        subject: 'Your Leadership Values Results',
-        html,
-        attachments: [
-          {
-            filename: `${firstName}_Leadership_Values.pdf`,
-            content: pdfBuffer
-          }
-        ]
-      });
-      
-      if (result.success) {
-        res.json({ success: true });
+      if (!req.user!.totpEnabledAt || !(await verifyTotpCode(req.user!, code))) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      await disableTwoFactor(req.user!.id);
+
+      res.json({ message: "Two-factor authentication turned off" });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid code",
+          errors: validationError.message
+        });
       } else {
-        res.status(500).json({ error: 'Failed to send email', details: result.error });
+        console.error("Error disabling two-factor:", error);
+        res.status(500).json({
+          message: "An error occurred while turning off two-factor authentication"
+        });
       }
+    }
+  });
+
+  // Email a reset link. The response is the same whether or not an account matched.
+  app.post("/api/password-reset/request", rateLimitByIp(passwordResetLimiter, 'Too many password reset requests. Please try again later.'), async (req, res) => {
+    try {
+      const { identifier } = requestPasswordResetSchema.parse(req.body);
+      await requestPasswordReset(identifier);
+
+      res.json({ message: "If an account with an email address matches, a reset link has been sent" });
     } catch (error) {
-      console.error('Error sending email:', error);
-      res.status(500).json({ error: 'Failed to send email' });
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid request",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error requesting password reset:", error);
+        res.status(500).json({
+          message: "An error occurred while requesting a password reset"
+        });
+      }
     }
   });
 
-  // Get all submissions
-  app.get("/api/submissions", authenticateToken, async (req, res) => {
+  // Set a new password from a reset link; every session for the account is signed out
+  app.post("/api/password-reset/confirm", rateLimitByIp(passwordResetLimiter, 'Too many password reset requests. Please try again later.'), async (req, res) => {
     try {
-      const submissions = await storage.getAllSubmissions();
-      res.json(submissions);
+      const { token, password } = resetPasswordSchema.parse(req.body);
+
+      if (!(await resetPassword(token, password))) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      res.json({ message: "Password reset successfully" });
     } catch (error) {
-      console.error("Error fetching submissions:", error);
-      res.status(500).json({
-        message: "An error occurred while fetching submissions"
-      });
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid password",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error resetting password:", error);
+        res.status(500).json({
+          message: "An error occurred while resetting the password"
+        });
+      }
     }
   });
 
-  // Get submissions by company code
-  app.get("/api/submissions/company/:companyCode", authenticateToken, async (req, res) => {
+  // Exchange a refresh token for a new access token; the refresh token is rotated on every use
+  app.post("/api/token/refresh", async (req, res) => {
     try {
-      const { companyCode } = req.params;
-      const submissions = await storage.getSubmissionsByCompanyCode(companyCode);
-      res.json(submissions);
+      const { refreshToken } = req.body;
+      if (typeof refreshToken !== "string" || !refreshToken) {
+        return res.status(400).json({ message: "Refresh token is required" });
+      }
+
+      const tokens = await refreshSession(refreshToken);
+      if (!tokens) {
+        return res.status(401).json({ message: "Invalid or expired refresh token" });
+      }
+
+      res.json(tokens);
     } catch (error) {
-      console.error("Error fetching submissions by company code:", error);
-      res.status(500).json({
-        message: "An error occurred while fetching submissions"
-      });
+      console.error('Token refresh error:', error);
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Get unique company codes
-  app.get("/api/submissions/company-codes", authenticateToken, async (req, res) => {
+  // Revoke the session the refresh token belongs to. Works even after the access token has expired.
+  app.post("/api/logout", async (req, res) => {
     try {
-      const companyCodes = await storage.getUniqueCompanyCodes();
-      res.json(companyCodes);
+      const { refreshToken } = req.body ?? {};
+      if (typeof refreshToken === "string" && refreshToken) {
+        await revokeSession(refreshToken);
+      }
+
+      res.json({ message: "Logged out successfully" });
     } catch (error) {
-      console.error("Error fetching company codes:", error);
+      console.error('Logout error:', error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get all admin users
+  app.get("/api/users", authenticateToken, requireRole("admin"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
       res.status(500).json({
-        message: "An error occurred while fetching company codes"
+        message: "An error occurred while fetching users"
       });
     }
   });
 
-  // Export submissions as CSV
-  app.get("/api/submissions/export", authenticateToken, async (req, res) => {
+  // Change a user's role
+  app.put("/api/users/:id/role", authenticateToken, requireRole("admin"), audit("user.role_update", { targetType: "user", before: userSnapshot }), async (req, res) => {
     try {
-      const { companyCode } = req.query;
-      
-      let submissions;
-      if (companyCode && companyCode !== 'all') {
-        submissions = await storage.getSubmissionsByCompanyCode(companyCode as string);
-      } else {
-        submissions = await storage.getAllSubmissions();
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
       }
 
-      // Create CSV content
-      const csvHeader = 'Name,Email,Company Code,Core Values,Date Submitted\n';
-      const csvRows = submissions.map(submission => {
-        const coreValuesList = Array.isArray(submission.coreValues) 
-          ? submission.coreValues.join(', ')
-          : 'No values';
-        
-        return [
-          `"${submission.name}"`,
-          `"${submission.email}"`,
-          `"${submission.companyCode || ''}"`,
-          `"${coreValuesList}"`,
-          `"${new Date(submission.createdAt).toLocaleDateString('en-US', {
-            year: 'numeric',
-            month: 'short',
-            day: 'numeric',
-            hour: '2-digit',
-            minute: '2-digit'
-          })}"`
-        ].join(',');
-      });
+      const { role } = req.body;
+      if (!userRoles.includes(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
+
+      const existingUser = await storage.getUser(id);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!canManageRole(req.user, existingUser.role) || !canManageRole(req.user, role)) {
+        return res.status(403).json({ message: "You cannot manage users with this role" });
+      }
 
-      const csvContent = csvHeader + csvRows.join('\n');
+      const updatedUser = await storage.updateUserRole(id, role);
 
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', `attachment; filename="submissions${companyCode ? `_${companyCode}` : ''}.csv"`);
-      res.send(csvContent);
+      res.json({
+        message: "User role updated successfully",
+        data: toPublicUser(updatedUser)
+      });
     } catch (error) {
-      console.error("Error exporting submissions:", error);
+      console.error("Error updating user role:", error);
       res.status(500).json({
-        message: "An error occurred while exporting submissions"
+        message: "An error occurred while updating the user role"
       });
     }
   });
 
+  // Remove a user
+  app.delete("/api/users/:id", authenticateToken, requireRole("admin"), audit("user.delete", { targetType: "user", before: userSnapshot }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot remove yourself" });
+      }
+
+      const existingUser = await storage.getUser(id);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!canManageRole(req.user, existingUser.role)) {
+        return res.status(403).json({ message: "You cannot manage users with this role" });
+      }
+
+      await storage.deleteUser(id);
+
+      res.json({
+        message: "User removed successfully"
+      });
+    } catch (error) {
+      console.error("Error removing user:", error);
+      res.status(500).json({
+        message: "An error occurred while removing the user"
+      });
+    }
+  });
+
+  // Sign a user out of every browser. Anyone can do this for themselves; admins can for users they manage.
+  app.delete("/api/users/:id/sessions", authenticateToken, audit("user.sessions_revoke", { targetType: "user", after: (req, body) => ({ revoked: body?.revoked }) }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const existingUser = await storage.getUser(id);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (id !== req.user!.id && !canManageRole(req.user, existingUser.role)) {
+        return res.status(403).json({ message: "You cannot manage users with this role" });
+      }
+
+      const revoked = await storage.revokeUserAuthSessions(id);
+
+      res.json({
+        message: "Signed out of all sessions",
+        revoked
+      });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({
+        message: "An error occurred while signing out sessions"
+      });
+    }
+  });
+
+  // Reset two-factor for a user who has lost their phone and recovery codes
+  app.delete("/api/users/:id/two-factor", authenticateToken, requireRole("admin"), audit("user.two_factor_reset", { targetType: "user" }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "Turn off your own two-factor from your account page" });
+      }
+
+      const existingUser = await storage.getUser(id);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!canManageRole(req.user, existingUser.role)) {
+        return res.status(403).json({ message: "You cannot manage users with this role" });
+      }
+
+      await disableTwoFactor(id);
+      await storage.revokeUserAuthSessions(id);
+
+      res.json({ message: "Two-factor authentication reset" });
+    } catch (error) {
+      console.error("Error resetting two-factor:", error);
+      res.status(500).json({
+        message: "An error occurred while resetting two-factor authentication"
+      });
+    }
+  });
+
+  // Security settings: owners can require two-factor for every admin
+  app.get("/api/settings/security", authenticateToken, requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await getSecuritySettings());
+    } catch (error) {
+      console.error("Error fetching security settings:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching security settings"
+      });
+    }
+  });
+
+  app.put("/api/settings/security", authenticateToken, requireRole("owner"), audit("settings.security_update", { targetType: "settings", targetId: () => "security", before: () => getSecuritySettings() }), async (req, res) => {
+    try {
+      const settings = securitySettingsSchema.parse(req.body);
+
+      // Otherwise the owner would lock themselves out of everything but enrolment
+      if (settings.requireTwoFactor && !req.user!.totpEnabledAt) {
+        return res.status(400).json({ message: "Turn on two-factor for your own account first" });
+      }
+
+      res.json({
+        message: "Security settings updated successfully",
+        data: await saveSecuritySettings(settings, req.user!.id)
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid security settings",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error updating security settings:", error);
+        res.status(500).json({
+          message: "An error occurred while updating security settings"
+        });
+      }
+    }
+  });
+
+  // Retention policy: how long submissions are kept before they are anonymized or deleted
+  app.get("/api/settings/retention", authenticateToken, requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await getRetentionSettings());
+    } catch (error) {
+      console.error("Error fetching retention settings:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching retention settings"
+      });
+    }
+  });
+
+  app.put("/api/settings/retention", authenticateToken, requireRole("owner"), audit("settings.retention_update", { targetType: "settings", targetId: () => "retention", before: () => getRetentionSettings() }), async (req, res) => {
+    try {
+      const settings = retentionSettingsSchema.parse(req.body);
+
+      res.json({
+        message: "Retention settings updated successfully",
+        data: await saveRetentionSettings(settings, req.user!.id)
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid retention settings",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error updating retention settings:", error);
+        res.status(500).json({
+          message: "An error occurred while updating retention settings"
+        });
+      }
+    }
+  });
+
+  // Dry run: what purging with the given (possibly unsaved) settings would do right now
+  app.post("/api/retention/preview", authenticateToken, requireRole("admin"), async (req, res) => {
+    try {
+      const settings = retentionSettingsSchema.parse(req.body);
+      res.json(await previewRetention(settings));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid retention settings",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error previewing retention policy:", error);
+        res.status(500).json({
+          message: "An error occurred while previewing the retention policy"
+        });
+      }
+    }
+  });
+
+  // Get when the retention policy last ran and what it did
+  app.get("/api/retention/last-run", authenticateToken, requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await getLastRetentionRun());
+    } catch (error) {
+      console.error("Error fetching last retention run:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching the last retention run"
+      });
+    }
+  });
+
+  // Apply the saved retention policy now instead of waiting for the nightly run
+  app.post("/api/retention/run", authenticateToken, requireRole("owner"), audit("retention.run", { targetType: "settings", targetId: () => "retention" }), async (req, res) => {
+    try {
+      const run = await runRetention("manual", req.user!.id);
+      res.json({
+        message: "Retention policy applied",
+        data: run
+      });
+    } catch (error) {
+      console.error("Error applying retention policy:", error);
+      res.status(500).json({
+        message: "An error occurred while applying the retention policy"
+      });
+    }
+  });
+
+  // Get all invites, newest first
+  app.get("/api/invites", authenticateToken, requireRole("admin"), async (req, res) => {
+    try {
+      const invites = await storage.getAllUserInvites();
+      res.json(invites);
+    } catch (error) {
+      console.error("Error fetching invites:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching invites"
+      });
+    }
+  });
+
+  // Create an invite; the token is only returned here, so the link must be copied now
+  app.post("/api/invites", authenticateToken, requireRole("admin"), audit("invite.create", { targetType: "invite", targetId: (req, body) => body?.data?.id }), async (req, res) => {
+    try {
+      const inviteData = insertUserInviteSchema.parse(req.body);
+
+      if (!canManageRole(req.user, inviteData.role)) {
+        return res.status(403).json({ message: "You cannot invite users with this role" });
+      }
+
+      const { token, tokenHash } = generateOneTimeToken();
+      const invite = await storage.createUserInvite({
+        tokenHash,
+        role: inviteData.role,
+        note: inviteData.note ?? null,
+        createdBy: req.user!.id,
+        expiresAt: new Date(Date.now() + INVITE_TTL_MS)
+      });
+      const { tokenHash: _tokenHash, ...summary } = invite;
+
+      res.status(201).json({
+        message: "Invite created successfully",
+        data: summary,
+        token
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid invite data",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error creating invite:", error);
+        res.status(500).json({
+          message: "An error occurred while creating the invite"
+        });
+      }
+    }
+  });
+
+  // Revoke an invite
+  app.delete("/api/invites/:id", authenticateToken, requireRole("admin"), audit("invite.revoke", { targetType: "invite" }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const invite = await storage.getUserInviteById(id);
+      if (!invite) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+
+      if (!canManageRole(req.user, invite.role)) {
+        return res.status(403).json({ message: "You cannot manage invites with this role" });
+      }
+
+      await storage.deleteUserInvite(id);
+
+      res.json({
+        message: "Invite revoked successfully"
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("not found")) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      console.error("Error revoking invite:", error);
+      res.status(500).json({
+        message: "An error occurred while revoking the invite"
+      });
+    }
+  });
+
+  // Check an invite before showing the registration form
+  app.get("/api/invites/:token", async (req, res) => {
+    try {
+      const invite = await storage.getUserInviteByTokenHash(hashToken(req.params.token));
+      if (!invite || invite.acceptedAt || invite.expiresAt <= new Date()) {
+        return res.status(404).json({ message: "Invalid or expired invite" });
+      }
+
+      res.json({ role: invite.role, expiresAt: invite.expiresAt });
+    } catch (error) {
+      console.error("Error checking invite:", error);
+      res.status(500).json({
+        message: "An error occurred while checking the invite"
+      });
+    }
+  });
+  
+  // API routes
+  app.post("/api/submissions", async (req, res) => {
+    try {
+      // Validate the request body
+      const { consent, ...submissionData } = insertSubmissionSchema.parse(req.body);
+
+      const deck = submissionData.deckId != null ? await storage.getDeckById(submissionData.deckId) : undefined;
+      if (submissionData.deckId != null && !deck) {
+        return res.status(400).json({ message: "Invalid submission data", errors: "Unknown deck" });
+      }
+
+      // Every sorted value must be one the participant could have been dealt: active, and in the deck if there is one
+      const offeredValues = new Map((await storage.getAllLeadershipValues())
+        .filter(value => !value.archivedAt && (!deck || deck.valueIds.includes(value.id)))
+        .map(value => [value.id, value]));
+      const { definitelyMe, mostlyMe, notMe, core } = submissionData.sortingJourney;
+      if (![...definitelyMe, ...mostlyMe, ...notMe].every(id => offeredValues.has(id))) {
+        return res.status(400).json({
+          message: "Invalid submission data",
+          errors: deck ? "Leadership value isn't in this deck or has been archived" : "Unknown or archived leadership value"
+        });
+      }
+
+      // Keep the core values as they read right now, so later edits don't change these results
+      const coreValueSnapshot: CoreValueSnapshot[] = core.map(id => {
+        const value = offeredValues.get(id)!;
+        return { id: value.id, value: value.value, description: value.description };
+      });
+
+      // Link the submission to its organization using the canonical code
+      let organizationId: number | null = null;
+      if (submissionData.companyCode && submissionData.companyCode.trim()) {
+        const validation = await validateCompanyCode(submissionData.companyCode);
+        if (!validation.valid || !validation.organization) {
+          return res.status(400).json({ message: "Invalid submission data", errors: validation.message });
+        }
+        organizationId = validation.organization.id;
+        submissionData.companyCode = validation.organization.code;
+      } else {
+        submissionData.companyCode = null;
+      }
+      
+      // Link repeat assessments by the same person
+      const participant = await storage.upsertParticipant(normalizeEmail(submissionData.email), submissionData.name.trim());
+
+      // Store the submission data
+      const { token: emailToken, tokenHash: emailTokenHash } = generateOneTimeToken();
+      const storedSubmission = await storage.createSubmission({
+        ...submissionData,
+        organizationId,
+        coreValues: coreValueSnapshot.map(value => value.value),
+        coreValueSnapshot,
+        participantId: participant.id,
+        emailTokenHash,
+        consentVersion: consent.version,
+        marketingOptIn: consent.marketing,
+        consentedAt: new Date()
+      });
+      const { emailTokenHash: _, ...submission } = storedSubmission;
+      
+      res.status(201).json({
+        message: "Submission recorded successfully",
+        data: submission,
+        // Lets the participant download their PDF
+        pdfToken: generateSubmissionToken(submission.id),
+        // Lets the participant request the results email once
+        emailToken
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid submission data",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error handling submission:", error);
+        res.status(500).json({
+          message: "An error occurred while processing your submission"
+        });
+      }
+    }
+  });
+
+  // Start a resumable exercise session
+  app.post("/api/sessions", async (req, res) => {
+    try {
+      const state = exerciseStateSchema.parse(req.body);
+      if (state.deckId != null && !(await storage.getDeckById(state.deckId))) {
+        return res.status(400).json({ message: "Invalid exercise session data", errors: "Unknown deck" });
+      }
+
+      const resumeCode = await generateResumeCode();
+
+      const session = await storage.createExerciseSession({ ...state, resumeCode });
+
+      res.status(201).json({
+        message: "Exercise session created successfully",
+        data: session
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid exercise session data",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error creating exercise session:", error);
+        res.status(500).json({
+          message: "An error occurred while creating the exercise session"
+        });
+      }
+    }
+  });
+
+  // Get an exercise session by its resume code
+  app.get("/api/sessions/:code", rateLimitByIp(sessionResumeLimiter, 'Too many resume attempts. Please try again later.'), async (req, res) => {
+    try {
+      const session = await storage.getExerciseSessionByCode(req.params.code.trim().toUpperCase());
+      if (!session) {
+        return res.status(404).json({ message: "Exercise session not found" });
+      }
+
+      const deck = session.deckId !== null ? await storage.getDeckById(session.deckId) : undefined;
+      const result: ExerciseSessionWithDeck = { ...session, deckSlug: deck?.slug ?? null };
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching exercise session:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching the exercise session"
+      });
+    }
+  });
+
+  // Autosave the wizard state of an exercise session
+  app.patch("/api/sessions/:code", rateLimitByIp(sessionSaveLimiter, 'Too many requests. Please try again later.'), async (req, res) => {
+    try {
+      const resumeCode = req.params.code.trim().toUpperCase();
+
+      const existingSession = await storage.getExerciseSessionByCode(resumeCode);
+      if (!existingSession) {
+        return res.status(404).json({ message: "Exercise session not found" });
+      }
+
+      const state = updateExerciseStateSchema.parse(req.body);
+      if (state.deckId != null && !(await storage.getDeckById(state.deckId))) {
+        return res.status(400).json({ message: "Invalid exercise session data", errors: "Unknown deck" });
+      }
+
+      const updatedSession = await storage.updateExerciseSession(resumeCode, state);
+
+      res.json({
+        message: "Exercise session updated successfully",
+        data: updatedSession
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid exercise session data",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error updating exercise session:", error);
+        res.status(500).json({
+          message: "An error occurred while updating the exercise session"
+        });
+      }
+    }
+  });
+
+  // Get the active leadership values in card pile order, or only those in a deck when ?deck=<slug>
+  // is given (shuffled if the deck says so). The admin dashboard lists archived values with
+  // ?status=archived or ?status=all.
+  app.get("/api/leadership-values", async (req, res) => {
+    try {
+      const { deck: deckSlug } = req.query;
+
+      if (typeof deckSlug === "string" && deckSlug) {
+        const deck = await storage.getDeckBySlug(deckSlug.toLowerCase());
+        if (!deck) {
+          return res.status(404).json({ message: "Deck not found" });
+        }
+        const values = await storage.getLeadershipValuesByDeck(deck.id);
+        return res.json(deck.shuffle ? shuffled(values) : values);
+      }
+
+      const status = leadershipValueStatusSchema.parse(req.query.status);
+      const values = (await storage.getAllLeadershipValues()).filter(value =>
+        status === "all" || (status === "archived") === !!value.archivedAt
+      );
+      res.json(values);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid leadership value status",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error fetching leadership values:", error);
+        res.status(500).json({
+          message: "An error occurred while fetching leadership values"
+        });
+      }
+    }
+  });
+  
+  // Create a new leadership value
+  app.post("/api/leadership-values", authenticateToken, requireRole("editor"), audit("leadership_value.create", { targetType: "leadership_value", targetId: (req, body) => body?.data?.id }), async (req, res) => {
+    try {
+      // Validate the request body
+      const valueData = insertLeadershipValueSchema.parse(req.body);
+      
+      // Store the leadership value
+      const value = await storage.createLeadershipValue(valueData);
+      
+      res.status(201).json({
+        message: "Leadership value created successfully",
+        data: value
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid leadership value data",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error creating leadership value:", error);
+        res.status(500).json({
+          message: "An error occurred while creating the leadership value"
+        });
+      }
+    }
+  });
+  
+  // Set the card pile order; values left out follow the listed ones in their current order
+  app.put("/api/leadership-values/order", authenticateToken, requireRole("editor"), audit("leadership_value.reorder", { targetType: "leadership_value", targetId: () => null, before: leadershipValueOrderSnapshot, after: (req, body) => body?.data && { valueIds: body.data.map((value: { id: number }) => value.id) } }), async (req, res) => {
+    try {
+      const { valueIds } = leadershipValueOrderSchema.parse(req.body);
+
+      const existingIds = new Set((await storage.getAllLeadershipValues()).map(value => value.id));
+      if (!valueIds.every(id => existingIds.has(id))) {
+        return res.status(400).json({ message: "Invalid value order", errors: "Unknown leadership value" });
+      }
+
+      const values = await storage.reorderLeadershipValues(valueIds);
+
+      res.json({
+        message: "Leadership values reordered successfully",
+        data: values
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid value order",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error reordering leadership values:", error);
+        res.status(500).json({
+          message: "An error occurred while reordering leadership values"
+        });
+      }
+    }
+  });
+
+  // Download leadership values as CSV or JSON (?format=), in the layout the import accepts
+  app.get("/api/leadership-values/export", authenticateToken, async (req, res) => {
+    try {
+      const { format, status } = valueExportSchema.parse(req.query);
+      const values = (await storage.getAllLeadershipValues()).filter(value =>
+        status === "all" || (status === "archived") === !!value.archivedAt
+      );
+      const { contentType, extension, body } = exportLeadershipValues(values, format);
+
+      res.attachment(`leadership-values.${extension}`);
+      res.setHeader('Content-Type', contentType);
+      res.send(body);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid export options",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error exporting leadership values:", error);
+        res.status(500).json({
+          message: "An error occurred while exporting leadership values"
+        });
+      }
+    }
+  });
+
+  // Show what importing a CSV or JSON file of leadership values would change, without changing anything
+  app.post("/api/leadership-values/import/preview", authenticateToken, requireRole("editor"), async (req, res) => {
+    try {
+      const file = valueImportSchema.parse(req.body);
+      const { toCreate, toChange, ...preview } = planValueImport(file, await storage.getAllLeadershipValues());
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid import file",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error previewing leadership value import:", error);
+        res.status(500).json({
+          message: "An error occurred while reading the import file"
+        });
+      }
+    }
+  });
+
+  // Import a CSV or JSON file of leadership values: all of its changes are applied, or none
+  app.post("/api/leadership-values/import", authenticateToken, requireRole("editor"), audit("leadership_value.import", { targetType: "leadership_value", targetId: () => null }), async (req, res) => {
+    try {
+      const file = valueImportSchema.parse(req.body);
+      const plan = planValueImport(file, await storage.getAllLeadershipValues());
+      if (plan.errors.length > 0) {
+        return res.status(400).json({
+          message: "Invalid import file",
+          errors: plan.errors.map(error => (error.row === null ? error.message : `Row ${error.row}: ${error.message}`)).join("; ")
+        });
+      }
+
+      await storage.importLeadershipValues(plan.toCreate, plan.toChange, req.user!);
+
+      const result: ValueImportResult = {
+        created: plan.created.length,
+        changed: plan.changed.length,
+        unchanged: plan.unchanged,
+        duplicates: plan.duplicates.length
+      };
+      res.json({
+        message: "Leadership values imported successfully",
+        data: result
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid import file",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error importing leadership values:", error);
+        res.status(500).json({
+          message: "An error occurred while importing leadership values"
+        });
+      }
+    }
+  });
+  
+  // Get a specific leadership value by ID
+  app.get("/api/leadership-values/:id", authenticateToken, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const value = await storage.getLeadershipValueById(id);
+      if (!value) {
+        return res.status(404).json({ message: "Leadership value not found" });
+      }
+      
+      res.json(value);
+    } catch (error) {
+      console.error("Error fetching leadership value:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching the leadership value"
+      });
+    }
+  });
+  
+  // Update a leadership value
+  app.put("/api/leadership-values/:id", authenticateToken, requireRole("editor"), audit("leadership_value.update", { targetType: "leadership_value", before: leadershipValueSnapshot }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      // Check if the value exists
+      const existingValue = await storage.getLeadershipValueById(id);
+      if (!existingValue) {
+        return res.status(404).json({ message: "Leadership value not found" });
+      }
+      
+      // Validate and update the value
+      const valueData = insertLeadershipValueSchema.parse(req.body);
+      
+      const updatedValue = await storage.updateLeadershipValue(id, valueData, req.user!);
+      
+      res.json({
+        message: "Leadership value updated successfully",
+        data: updatedValue
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid leadership value data",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error updating leadership value:", error);
+        res.status(500).json({
+          message: "An error occurred while updating the leadership value"
+        });
+      }
+    }
+  });
+  
+  // Archive a leadership value: it's left out of new exercises, but past submissions and reports keep it
+  app.delete("/api/leadership-values/:id", authenticateToken, requireRole("editor"), audit("leadership_value.archive", { targetType: "leadership_value", before: leadershipValueSnapshot }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      // Check if the value exists
+      const existingValue = await storage.getLeadershipValueById(id);
+      if (!existingValue) {
+        return res.status(404).json({ message: "Leadership value not found" });
+      }
+      if (existingValue.archivedAt) {
+        return res.status(409).json({ message: "Leadership value is already archived" });
+      }
+      
+      const archivedValue = await storage.setLeadershipValueArchived(id, true);
+      
+      res.json({
+        message: "Leadership value archived successfully",
+        data: archivedValue
+      });
+    } catch (error) {
+      console.error("Error archiving leadership value:", error);
+      res.status(500).json({
+        message: "An error occurred while archiving the leadership value"
+      });
+    }
+  });
+
+  // Restore an archived leadership value to new exercises
+  app.post("/api/leadership-values/:id/restore", authenticateToken, requireRole("editor"), audit("leadership_value.restore", { targetType: "leadership_value", before: leadershipValueSnapshot }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const existingValue = await storage.getLeadershipValueById(id);
+      if (!existingValue) {
+        return res.status(404).json({ message: "Leadership value not found" });
+      }
+      if (!existingValue.archivedAt) {
+        return res.status(409).json({ message: "Leadership value is not archived" });
+      }
+      
+      const restoredValue = await storage.setLeadershipValueArchived(id, false);
+      
+      res.json({
+        message: "Leadership value restored successfully",
+        data: restoredValue
+      });
+    } catch (error) {
+      console.error("Error restoring leadership value:", error);
+      res.status(500).json({
+        message: "An error occurred while restoring the leadership value"
+      });
+    }
+  });
+
+  // Get the earlier wording of a leadership value, newest first
+  app.get("/api/leadership-values/:id/revisions", authenticateToken, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      if (!(await storage.getLeadershipValueById(id))) {
+        return res.status(404).json({ message: "Leadership value not found" });
+      }
+      
+      res.json(await storage.getLeadershipValueRevisions(id));
+    } catch (error) {
+      console.error("Error fetching leadership value revisions:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching the leadership value's revisions"
+      });
+    }
+  });
+
+  // Get all decks with their value membership
+  app.get("/api/decks", authenticateToken, async (req, res) => {
+    try {
+      const decks = await storage.getAllDecks();
+      res.json(decks);
+    } catch (error) {
+      console.error("Error fetching decks:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching decks"
+      });
+    }
+  });
+
+  // Get a deck by slug (used by participant links)
+  app.get("/api/decks/:slug", async (req, res) => {
+    try {
+      const deck = await storage.getDeckBySlug(req.params.slug.toLowerCase());
+      if (!deck) {
+        return res.status(404).json({ message: "Deck not found" });
+      }
+
+      res.json(deck);
+    } catch (error) {
+      console.error("Error fetching deck:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching the deck"
+      });
+    }
+  });
+
+  // Create a new deck
+  app.post("/api/decks", authenticateToken, requireRole("editor"), audit("deck.create", { targetType: "deck", targetId: (req, body) => body?.data?.id }), async (req, res) => {
+    try {
+      const deckData = insertDeckSchema.parse(req.body);
+
+      if (await storage.getDeckBySlug(deckData.slug)) {
+        return res.status(400).json({ message: "A deck with this slug already exists" });
+      }
+
+      const existingIds = new Set((await storage.getAllLeadershipValues()).map(value => value.id));
+      if (!deckData.valueIds.every(id => existingIds.has(id))) {
+        return res.status(400).json({ message: "Invalid deck data", errors: "Unknown leadership value" });
+      }
+
+      const deck = await storage.createDeck(deckData);
+
+      res.status(201).json({
+        message: "Deck created successfully",
+        data: deck
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid deck data",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error creating deck:", error);
+        res.status(500).json({
+          message: "An error occurred while creating the deck"
+        });
+      }
+    }
+  });
+
+  // Update a deck and its value membership
+  app.put("/api/decks/:id", authenticateToken, requireRole("editor"), audit("deck.update", { targetType: "deck", before: deckSnapshot }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const existingDeck = await storage.getDeckById(id);
+      if (!existingDeck) {
+        return res.status(404).json({ message: "Deck not found" });
+      }
+
+      const deckData = insertDeckSchema.parse(req.body);
+
+      const deckWithSlug = await storage.getDeckBySlug(deckData.slug);
+      if (deckWithSlug && deckWithSlug.id !== id) {
+        return res.status(400).json({ message: "A deck with this slug already exists" });
+      }
+
+      const existingIds = new Set((await storage.getAllLeadershipValues()).map(value => value.id));
+      if (!deckData.valueIds.every(id => existingIds.has(id))) {
+        return res.status(400).json({ message: "Invalid deck data", errors: "Unknown leadership value" });
+      }
+
+      const updatedDeck = await storage.updateDeck(id, deckData);
+
+      res.json({
+        message: "Deck updated successfully",
+        data: updatedDeck
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid deck data",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error updating deck:", error);
+        res.status(500).json({
+          message: "An error occurred while updating the deck"
+        });
+      }
+    }
+  });
+
+  // Delete a deck
+  app.delete("/api/decks/:id", authenticateToken, requireRole("editor"), audit("deck.delete", { targetType: "deck", before: deckSnapshot }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const existingDeck = await storage.getDeckById(id);
+      if (!existingDeck) {
+        return res.status(404).json({ message: "Deck not found" });
+      }
+
+      await storage.deleteDeck(id);
+
+      res.json({
+        message: "Deck deleted successfully"
+      });
+    } catch (error) {
+      console.error("Error deleting deck:", error);
+      res.status(500).json({
+        message: "An error occurred while deleting the deck"
+      });
+    }
+  });
+
+  // Check a company code before the participant submits
+  app.get("/api/organizations/validate/:code", async (req, res) => {
+    try {
+      const { organization, ...validation } = await validateCompanyCode(req.params.code);
+      res.json({
+        ...validation,
+        organization: organization ? { code: organization.code, name: organization.name } : undefined
+      });
+    } catch (error) {
+      console.error("Error validating company code:", error);
+      res.status(500).json({
+        message: "An error occurred while validating the company code"
+      });
+    }
+  });
+
+  // Get all organizations with their submission counts
+  app.get("/api/organizations", authenticateToken, async (req, res) => {
+    try {
+      const organizations = await storage.getAllOrganizations();
+      res.json(organizations);
+    } catch (error) {
+      console.error("Error fetching organizations:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching organizations"
+      });
+    }
+  });
+
+  // Create a new organization
+  app.post("/api/organizations", authenticateToken, requireRole("editor"), audit("organization.create", { targetType: "organization", targetId: (req, body) => body?.data?.id }), async (req, res) => {
+    try {
+      const organizationData = insertOrganizationSchema.parse(req.body);
+
+      if (await storage.getOrganizationByCode(organizationData.code)) {
+        return res.status(400).json({ message: "An organization with this company code already exists" });
+      }
+
+      const organization = await storage.createOrganization(organizationData);
+
+      res.status(201).json({
+        message: "Organization created successfully",
+        data: organization
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid organization data",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error creating organization:", error);
+        res.status(500).json({
+          message: "An error occurred while creating the organization"
+        });
+      }
+    }
+  });
+
+  // Update an organization
+  app.put("/api/organizations/:id", authenticateToken, requireRole("editor"), audit("organization.update", { targetType: "organization", before: organizationSnapshot }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const existingOrganization = await storage.getOrganizationById(id);
+      if (!existingOrganization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const organizationData = insertOrganizationSchema.parse(req.body);
+
+      const organizationWithCode = await storage.getOrganizationByCode(organizationData.code);
+      if (organizationWithCode && organizationWithCode.id !== id) {
+        return res.status(400).json({ message: "An organization with this company code already exists" });
+      }
+
+      const updatedOrganization = await storage.updateOrganization(id, organizationData);
+
+      res.json({
+        message: "Organization updated successfully",
+        data: updatedOrganization
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid organization data",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error updating organization:", error);
+        res.status(500).json({
+          message: "An error occurred while updating the organization"
+        });
+      }
+    }
+  });
+
+  // Delete an organization
+  app.delete("/api/organizations/:id", authenticateToken, requireRole("editor"), audit("organization.delete", { targetType: "organization", before: organizationSnapshot }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const existingOrganization = await storage.getOrganizationById(id);
+      if (!existingOrganization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      await storage.deleteOrganization(id);
+
+      res.json({
+        message: "Organization deleted successfully"
+      });
+    } catch (error) {
+      console.error("Error deleting organization:", error);
+      res.status(500).json({
+        message: "An error occurred while deleting the organization"
+      });
+    }
+  });
+
+  // Get the results email templates: the built-in default, the saved default and any organization overrides
+  app.get("/api/email-templates/results", authenticateToken, async (req, res) => {
+    try {
+      const templates = await storage.getEmailTemplates("results");
+      res.json({
+        builtIn: DEFAULT_RESULTS_EMAIL_TEMPLATE,
+        placeholders: RESULTS_EMAIL_PLACEHOLDERS,
+        templates
+      });
+    } catch (error) {
+      console.error("Error fetching email templates:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching email templates"
+      });
+    }
+  });
+
+  // Save the default results email template, or an organization's override when organizationId is set
+  app.put("/api/email-templates/results", authenticateToken, requireRole("editor"), audit("email_template.save", { targetType: "email_template", targetId: req => req.body?.organizationId ?? "default" }), async (req, res) => {
+    try {
+      const templateData = insertEmailTemplateSchema.parse(req.body);
+
+      if (templateData.organizationId !== null && !(await storage.getOrganizationById(templateData.organizationId))) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const template = await storage.saveEmailTemplate("results", templateData);
+
+      res.json({
+        message: "Email template saved successfully",
+        data: template
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid email template data",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error saving email template:", error);
+        res.status(500).json({
+          message: "An error occurred while saving the email template"
+        });
+      }
+    }
+  });
+
+  // Remove an organization's override (?organizationId=), or reset the default template to the built-in one
+  app.delete("/api/email-templates/results", authenticateToken, requireRole("editor"), audit("email_template.delete", { targetType: "email_template", targetId: req => (req.query.organizationId as string | undefined) ?? "default" }), async (req, res) => {
+    try {
+      const organizationId = req.query.organizationId ? parseInt(req.query.organizationId as string) : null;
+      if (organizationId !== null && isNaN(organizationId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      if (!(await storage.getEmailTemplate("results", organizationId))) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+
+      await storage.deleteEmailTemplate("results", organizationId);
+
+      res.json({
+        message: "Email template deleted successfully"
+      });
+    } catch (error) {
+      console.error("Error deleting email template:", error);
+      res.status(500).json({
+        message: "An error occurred while deleting the email template"
+      });
+    }
+  });
+
+  // Render an unsaved results email template against a sample submission
+  app.post("/api/email-templates/results/preview", authenticateToken, async (req, res) => {
+    try {
+      const templateData = insertEmailTemplateSchema.parse(req.body);
+      const preview = await previewResultsEmail(templateData, templateData.organizationId);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid email template data",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error previewing email template:", error);
+        res.status(500).json({
+          message: "An error occurred while previewing the email template"
+        });
+      }
+    }
+  });
+
+  app.post('/api/send-pdf-email', rateLimitByIp(emailIpLimiter, 'Too many email requests. Please try again later.'), async (req, res) => {
+    try {
+      const { submissionId, emailToken } = req.body;
+
+      if (typeof submissionId !== 'number' || typeof emailToken !== 'string') {
+        return res.status(400).json({ error: 'Missing required data' });
+      }
+
+      const submission = await storage.getSubmissionById(submissionId);
+      if (!submission || Date.now() - new Date(submission.createdAt).getTime() > EMAIL_TOKEN_TTL_MS) {
+        return res.status(403).json({ error: 'Invalid or expired token' });
+      }
+
+      // Only the participant who just submitted holds this token
+      const tokenHash = hashToken(emailToken);
+      if (submission.emailTokenHash !== tokenHash) {
+        return res.status(403).json({ error: 'Invalid or expired token' });
+      }
+
+      // Counted only once the token checks out, so guessing tokens can't use up the address's quota.
+      // Checked before the token is used, so the participant can try again later.
+      const retryAfter = emailRecipientLimiter.consume(submission.email.trim().toLowerCase());
+      if (retryAfter > 0) {
+        res.setHeader('Retry-After', retryAfter.toString());
+        return res.status(429).json({ error: 'Too many emails have been sent to this address. Please try again later.' });
+      }
+
+      // The token works once; a request racing this one fails here
+      if (!(await storage.consumeSubmissionEmailToken(submissionId, tokenHash))) {
+        return res.status(403).json({ error: 'Invalid or expired token' });
+      }
+
+      let queuedEmail;
+      try {
+        queuedEmail = await queueResultsEmail(submission);
+      } catch (error) {
+        // Nothing was queued, so give the token back for another try
+        await storage.restoreSubmissionEmailToken(submissionId, tokenHash);
+        throw error;
+      }
+
+      // Once queued, a failed send is retried by the outbox worker
+      const email = (await deliverOutboxMessage(queuedEmail.id)) ?? queuedEmail;
+
+      res.json({ success: true, queued: email.status !== 'sent' });
+    } catch (error) {
+      console.error('Error sending email:', error);
+      res.status(500).json({ error: 'Failed to send email' });
+    }
+  });
+
+  // Get the email outbox with each message's delivery status
+  app.get('/api/email-outbox', authenticateToken, requireRole('admin'), async (req, res) => {
+    try {
+      const messages = await storage.getOutboxSummaries();
+      res.json(messages);
+    } catch (error) {
+      console.error('Error fetching email outbox:', error);
+      res.status(500).json({ message: 'An error occurred while fetching the email outbox' });
+    }
+  });
+
+  // Get the delivery log for one outbox message
+  app.get('/api/email-outbox/:id/attempts', authenticateToken, requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid ID format' });
+      }
+
+      const attempts = await storage.getEmailDeliveryAttempts(id);
+      res.json(attempts);
+    } catch (error) {
+      console.error('Error fetching email delivery attempts:', error);
+      res.status(500).json({ message: 'An error occurred while fetching delivery attempts' });
+    }
+  });
+
+  // Re-queue an email that has not been delivered
+  app.post('/api/email-outbox/:id/retry', authenticateToken, requireRole('admin'), audit("email.retry", { targetType: "email" }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid ID format' });
+      }
+
+      const message = await storage.getOutboxMessageById(id);
+      if (!message) {
+        return res.status(404).json({ message: 'Email not found' });
+      }
+
+      if (message.status === 'sent') {
+        return res.status(409).json({ message: 'Email has already been sent' });
+      }
+
+      // Fails if the worker started sending it since it was loaded
+      if (!(await requeueOutboxMessage(id))) {
+        return res.status(409).json({ message: 'Email is being sent' });
+      }
+      const deliveredEmail = await deliverOutboxMessage(id);
+      const { html, ...summary } = deliveredEmail ?? (await storage.getOutboxMessageById(id))!;
+      res.json(summary);
+    } catch (error) {
+      console.error('Error retrying email:', error);
+      res.status(500).json({ message: 'An error occurred while retrying the email' });
+    }
+  });
+
+  // Get a page of submissions, newest first, filtered by search text, company code, date range or chosen value
+  app.get("/api/submissions", authenticateToken, async (req, res) => {
+    try {
+      const filters = submissionFiltersSchema.parse(req.query);
+      const { submissions, total } = await storage.searchSubmissions(filters, {
+        limit: filters.limit,
+        offset: (filters.page - 1) * filters.limit
+      });
+
+      const page: SubmissionPage = {
+        submissions: submissions.map(({ emailTokenHash, ...submission }) => submission),
+        total,
+        page: filters.page,
+        limit: filters.limit
+      };
+      res.json(page);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid submission filters",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error fetching submissions:", error);
+        res.status(500).json({
+          message: "An error occurred while fetching submissions"
+        });
+      }
+    }
+  });
+
+  // Get submissions by company code
+  app.get("/api/submissions/company/:companyCode", authenticateToken, async (req, res) => {
+    try {
+      const { companyCode } = req.params;
+      const submissions = await storage.getSubmissionsByCompanyCode(companyCode);
+      res.json(submissions.map(({ emailTokenHash, ...submission }) => submission));
+    } catch (error) {
+      console.error("Error fetching submissions by company code:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching submissions"
+      });
+    }
+  });
+
+  // Get unique company codes
+  app.get("/api/submissions/company-codes", authenticateToken, async (req, res) => {
+    try {
+      const companyCodes = await storage.getUniqueCompanyCodes();
+      res.json(companyCodes);
+    } catch (error) {
+      console.error("Error fetching company codes:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching company codes"
+      });
+    }
+  });
+
+  // Get submission and participant totals
+  app.get("/api/analytics/summary", authenticateToken, async (req, res) => {
+    try {
+      const filters = analyticsFiltersSchema.parse(req.query);
+      res.json(await storage.getAnalyticsSummary(filters));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid analytics filters",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error fetching the analytics summary:", error);
+        res.status(500).json({
+          message: "An error occurred while fetching the analytics summary"
+        });
+      }
+    }
+  });
+
+  // Get how often each leadership value was chosen as a core value
+  app.get("/api/analytics/core-values", authenticateToken, async (req, res) => {
+    try {
+      const filters = analyticsFiltersSchema.parse(req.query);
+      res.json(await storage.getCoreValueFrequency(filters));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid analytics filters",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error fetching core value frequency:", error);
+        res.status(500).json({
+          message: "An error occurred while fetching core value frequency"
+        });
+      }
+    }
+  });
+
+  // Get submission volume per day, week or month
+  app.get("/api/analytics/volume", authenticateToken, async (req, res) => {
+    try {
+      const filters = analyticsFiltersSchema.parse(req.query);
+      res.json(await storage.getSubmissionVolume(filters, analyticsIntervalSchema.parse(req.query.interval)));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid analytics filters",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error fetching submission volume:", error);
+        res.status(500).json({
+          message: "An error occurred while fetching submission volume"
+        });
+      }
+    }
+  });
+
+  // Get submission and participant counts per company code
+  app.get("/api/analytics/company-codes", authenticateToken, async (req, res) => {
+    try {
+      const filters = analyticsFiltersSchema.parse(req.query);
+      res.json(await storage.getCompanyCodeBreakdown(filters));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid analytics filters",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error fetching the company code breakdown:", error);
+        res.status(500).json({
+          message: "An error occurred while fetching the company code breakdown"
+        });
+      }
+    }
+  });
+
+  // Export the submissions matching the list filters as CSV, Excel, JSON or NDJSON (?format=)
+  app.get("/api/submissions/export", authenticateToken, requireRole("admin"), audit("submission.export", { targetType: "submission", targetId: req => (req.query.companyCode as string | undefined) || "all", after: req => ({ query: req.query }) }), async (req, res) => {
+    try {
+      const { format, ...filters } = submissionExportSchema.parse(req.query);
+      const { submissions } = await storage.searchSubmissions(filters);
+      const { contentType, extension, body } = await exportSubmissions(submissions, format);
+
+      res.attachment(`submissions${filters.companyCode ? `_${filters.companyCode}` : ''}.${extension}`);
+      res.setHeader('Content-Type', contentType);
+      res.send(body);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid export options",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error exporting submissions:", error);
+        res.status(500).json({
+          message: "An error occurred while exporting submissions"
+        });
+      }
+    }
+  });
+
+  // Get one submission with its ranked values, sorting journey and results emails
+  app.get("/api/submissions/:id", authenticateToken, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const submission = await storage.getSubmissionById(id);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      res.json(await buildSubmissionDetail(submission, hasRole(req.user, "admin")));
+    } catch (error) {
+      console.error("Error fetching submission:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching the submission"
+      });
+    }
+  });
+
+  // Send the results email to the participant again
+  app.post("/api/submissions/:id/resend-email", authenticateToken, requireRole("admin"), audit("submission.resend_email", { targetType: "submission" }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const submission = await storage.getSubmissionById(id);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      if (submission.anonymizedAt) {
+        return res.status(409).json({ message: "This submission has been anonymized and has no email address" });
+      }
+
+      const { html, ...summary } = await sendResultsEmail(submission);
+
+      res.json({
+        message: summary.status === "sent" ? "Results email sent" : "Results email queued",
+        data: summary
+      });
+    } catch (error) {
+      console.error("Error resending results email:", error);
+      res.status(500).json({
+        message: "An error occurred while resending the results email"
+      });
+    }
+  });
+
+  // Download everything stored about an email address (data-subject access request).
+  // The address itself is kept out of the audit log.
+  app.get("/api/participants/export", authenticateToken, requireRole("admin"), audit("participant.export", { targetType: "participant", targetId: () => null }), async (req, res) => {
+    try {
+      const { email } = participantEmailSchema.parse(req.query);
+      const data = await buildParticipantData(email);
+
+      res.attachment(`participant-data-${new Date().toISOString().slice(0, 10)}.json`);
+      res.send(JSON.stringify(data, null, 2));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: "Invalid email address",
+          errors: fromZodError(error).message
+        });
+      }
+
+      console.error("Error exporting participant data:", error);
+      res.status(500).json({
+        message: "An error occurred while exporting participant data"
+      });
+    }
+  });
+
+  // Erase an email address's submissions and emails (right to erasure)
+  app.post("/api/participants/erase", authenticateToken, requireRole("admin"), audit("participant.erase", { targetType: "participant", targetId: () => null }), async (req, res) => {
+    try {
+      const { email } = participantEmailSchema.parse(req.body);
+      const erasure = await storage.eraseParticipantData(email);
+
+      res.json({
+        message: erasure.submissions + erasure.emails > 0 ? "Participant data erased" : "No data is stored for this email address",
+        data: erasure
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: "Invalid email address",
+          errors: fromZodError(error).message
+        });
+      }
+
+      console.error("Error erasing participant data:", error);
+      res.status(500).json({
+        message: "An error occurred while erasing participant data"
+      });
+    }
+  });
+
+  // Get a participant's submissions over time, each compared with the one before
+  app.get("/api/participants/:id", authenticateToken, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const history = await buildParticipantHistory(id);
+      if (!history) {
+        return res.status(404).json({ message: "Participant not found" });
+      }
+
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching participant history:", error);
+      res.status(500).json({
+        message: "An error occurred while fetching the participant's history"
+      });
+    }
+  });
+
+  // Download the results PDF for a submission (participant token or admin login)
+  app.get("/api/submissions/:id/pdf", authenticateSubmissionAccess, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const submission = await storage.getSubmissionById(id);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      // Only admins see the comparison with earlier results here: anyone can submit with
+      // someone else's email address, so participants only get it in their results email
+      const pdfBuffer = await renderSubmissionPDF(submission, !!req.user);
+
+      res.attachment(getPdfFilename(submission.name));
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Error generating submission PDF:", error);
+      res.status(500).json({
+        message: "An error occurred while generating the PDF"
+      });
+    }
+  });
+
+  // Compare a submission with the participant's previous one, from the link in their results email
+  app.get("/api/submissions/:id/comparison", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+
+      const decoded = typeof req.query.token === "string" ? verifyComparisonToken(req.query.token) : null;
+      if (!decoded || decoded.submissionId !== id) {
+        return res.status(403).json({ message: "Invalid or expired token" });
+      }
+
+      const submission = await storage.getSubmissionById(id);
+      if (!submission || submission.anonymizedAt) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      const result: SubmissionComparison = {
+        name: submission.name,
+        submittedAt: new Date(submission.createdAt).toISOString(),
+        coreValues: Array.isArray(submission.coreValues) ? (submission.coreValues as string[]) : [],
+        comparison: await getValueComparison(submission)
+      };
+      res.json(result);
+    } catch (error) {
+      console.error("Error comparing submission:", error);
+      res.status(500).json({
+        message: "An error occurred while comparing the submission"
+      });
+    }
+  });
+
+  // Get the team values report for a company code
+  app.get("/api/team-report/:companyCode", authenticateToken, async (req, res) => {
+    try {
+      const report = await buildTeamReport(req.params.companyCode);
+      if (report.members.length === 0) {
+        return res.status(404).json({ message: "No submissions found for this company code" });
+      }
+
+      res.json(report);
+    } catch (error) {
+      console.error("Error building team report:", error);
+      res.status(500).json({
+        message: "An error occurred while building the team report"
+      });
+    }
+  });
+
+  // Download the team values report as a PDF
+  app.get("/api/team-report/:companyCode/pdf", authenticateToken, audit("team_report.export", { targetType: "company_code", targetId: req => req.params.companyCode, after: () => ({ format: "pdf" }) }), async (req, res) => {
+    try {
+      const report = await buildTeamReport(req.params.companyCode);
+      if (report.members.length === 0) {
+        return res.status(404).json({ message: "No submissions found for this company code" });
+      }
+
+      res.attachment(getTeamReportFilename(report.companyCode));
+      res.send(generateTeamReportPDF(report));
+    } catch (error) {
+      console.error("Error generating team report PDF:", error);
+      res.status(500).json({
+        message: "An error occurred while generating the team report PDF"
+      });
+    }
+  });
+
+  // Page through the audit log, newest first
+  app.get("/api/audit-log", authenticateToken, requireRole("admin"), async (req, res) => {
+    try {
+      const filters = auditLogFiltersSchema.parse(req.query);
+      const { entries, total } = await storage.getAuditLog(
+        filters,
+        AUDIT_LOG_PAGE_SIZE,
+        (filters.page - 1) * AUDIT_LOG_PAGE_SIZE
+      );
+
+      res.json({
+        entries,
+        total,
+        page: filters.page,
+        pageSize: AUDIT_LOG_PAGE_SIZE,
+        actions: await storage.getAuditLogActions()
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({
+          message: "Invalid audit log filters",
+          errors: validationError.message
+        });
+      } else {
+        console.error("Error fetching the audit log:", error);
+        res.status(500).json({
+          message: "An error occurred while fetching the audit log"
+        });
+      }
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
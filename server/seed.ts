@@ -17,11 +17,14 @@ async function seedDatabase() {
     // If no values exist, insert the initial values
     console.log(`Seeding database with ${initialValues.length} leadership values...`);
     
+    // Cards are dealt in the order they're listed
+    let position = 1;
     for (const value of initialValues) {
       await db.insert(leadershipValues).values({
         id: value.id,
         value: value.value,
-        description: value.description
+        description: value.description,
+        position: position++
       });
     }
     
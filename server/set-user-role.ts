@@ -0,0 +1,36 @@
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { users, userRoles, type UserRole } from "@shared/schema";
+
+// Usage: npx tsx server/set-user-role.ts <username> <role>
+// Grants a role from the command line, e.g. to make an existing admin account the owner after upgrading
+async function setUserRole() {
+  const [username, role] = process.argv.slice(2);
+
+  if (!username || !userRoles.includes(role as UserRole)) {
+    console.error(`Usage: npx tsx server/set-user-role.ts <username> <${userRoles.join("|")}>`);
+    process.exit(1);
+  }
+
+  try {
+    const [user] = await db
+      .update(users)
+      .set({ role: role as UserRole })
+      .where(eq(users.username, username))
+      .returning();
+
+    if (!user) {
+      console.error(`No user named "${username}" was found.`);
+      process.exit(1);
+    }
+
+    console.log(`${user.username} is now ${user.role === "viewer" ? "a" : "an"} ${user.role}.`);
+  } catch (error) {
+    console.error("Error setting user role:", error);
+    process.exit(1);
+  } finally {
+    process.exit(0);
+  }
+}
+
+setUserRole();
@@ -0,0 +1,65 @@
+import { storage } from "./storage";
+import {
+  securitySettingsSchema,
+  retentionSettingsSchema,
+  type SecuritySettings,
+  type RetentionSettings,
+  type RetentionRun
+} from "@shared/schema";
+
+const SECURITY_SETTINGS_KEY = "security";
+const RETENTION_SETTINGS_KEY = "retention";
+const LAST_RETENTION_RUN_KEY = "retention_last_run";
+
+const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  requireTwoFactor: false,
+};
+
+// Submissions are kept indefinitely until an admin sets a policy
+const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  enabled: false,
+  action: "anonymize",
+  defaultMonths: null,
+  companyCodes: [],
+};
+
+// Checked on every authenticated request, so cache briefly rather than query each time
+const CACHE_TTL_MS = 30 * 1000;
+
+let cachedSecuritySettings: { value: SecuritySettings; expiresAt: number } | undefined;
+
+export async function getSecuritySettings(): Promise<SecuritySettings> {
+  if (cachedSecuritySettings && cachedSecuritySettings.expiresAt > Date.now()) {
+    return cachedSecuritySettings.value;
+  }
+
+  // Fall back to the defaults if the stored value is missing or from an older shape
+  const parsed = securitySettingsSchema.safeParse(await storage.getAppSetting(SECURITY_SETTINGS_KEY));
+  const value = parsed.success ? parsed.data : DEFAULT_SECURITY_SETTINGS;
+  cachedSecuritySettings = { value, expiresAt: Date.now() + CACHE_TTL_MS };
+  return value;
+}
+
+export async function saveSecuritySettings(settings: SecuritySettings, updatedBy: number): Promise<SecuritySettings> {
+  await storage.saveAppSetting(SECURITY_SETTINGS_KEY, settings, updatedBy);
+  cachedSecuritySettings = { value: settings, expiresAt: Date.now() + CACHE_TTL_MS };
+  return settings;
+}
+
+export async function getRetentionSettings(): Promise<RetentionSettings> {
+  const parsed = retentionSettingsSchema.safeParse(await storage.getAppSetting(RETENTION_SETTINGS_KEY));
+  return parsed.success ? parsed.data : DEFAULT_RETENTION_SETTINGS;
+}
+
+export async function saveRetentionSettings(settings: RetentionSettings, updatedBy: number): Promise<RetentionSettings> {
+  await storage.saveAppSetting(RETENTION_SETTINGS_KEY, settings, updatedBy);
+  return settings;
+}
+
+export async function getLastRetentionRun(): Promise<RetentionRun | null> {
+  return ((await storage.getAppSetting(LAST_RETENTION_RUN_KEY)) as RetentionRun | undefined) ?? null;
+}
+
+export async function saveLastRetentionRun(run: RetentionRun, updatedBy: number | null): Promise<void> {
+  await storage.saveAppSetting(LAST_RETENTION_RUN_KEY, run, updatedBy);
+}
@@ -2,12 +2,60 @@ import {
   users, 
   type User, 
   type InsertUser, 
+  type UserRole,
+  userInvites,
+  type UserInvite,
+  type UserInviteSummary,
+  type AuthSession,
+  type PasswordResetToken,
+  type RecoveryCode,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type AuditLogFilters,
   leadershipValues, 
   type LeadershipValue, 
   type InsertLeadershipValue,
+  type LeadershipValueRevision,
+  decks,
+  deckValues,
+  type Deck,
+  type DeckWithValues,
+  type InsertDeck,
+  organizations,
+  type Organization,
+  type OrganizationWithStats,
+  type InsertOrganization,
   submissions,
   type Submission,
-  type InsertSubmission
+  type InsertSubmission,
+  type NewSubmission,
+  exerciseSessions,
+  type ExerciseSession,
+  type InsertExerciseSession,
+  type ExerciseState,
+  emailOutbox,
+  type EmailOutboxMessage,
+  type EmailOutboxSummary,
+  type InsertEmailOutboxMessage,
+  emailDeliveryAttempts,
+  type EmailDeliveryAttempt,
+  type InsertEmailDeliveryAttempt,
+  emailTemplates,
+  type EmailKind,
+  type EmailTemplate,
+  type InsertEmailTemplate,
+  type AnalyticsFilters,
+  type SubmissionSearch,
+  type AnalyticsInterval,
+  type AnalyticsSummary,
+  type CoreValueFrequency,
+  type SubmissionVolume,
+  type CompanyCodeBreakdown,
+  type Participant,
+  type ParticipantErasure,
+  type RetentionCutoffs,
+  type RetentionCandidate,
+  normalizeCompanyCode
 } from "@shared/schema";
 import { DatabaseStorage } from "./database-storage";
 
@@ -16,43 +64,244 @@ export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getAllUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
+  updateUserRole(id: number, role: UserRole): Promise<User>;
+  updateUserEmail(id: number, email: string | null): Promise<User>;
+  updateUserPassword(id: number, password: string): Promise<User>;
+  updateUserTwoFactor(id: number, fields: Partial<Pick<User, "totpSecret" | "totpEnabledAt" | "totpLastUsedStep">>): Promise<User>;
+  // Records a TOTP time step as used; returns false if it, or a later step, was already used
+  claimTotpStep(id: number, step: number): Promise<boolean>;
+  deleteUser(id: number): Promise<void>;
+
+  // User invite methods
+  createUserInvite(invite: Omit<UserInvite, "id" | "acceptedAt" | "acceptedBy" | "createdAt">): Promise<UserInvite>;
+  getUserInviteById(id: number): Promise<UserInvite | undefined>;
+  getUserInviteByTokenHash(tokenHash: string): Promise<UserInvite | undefined>;
+  getAllUserInvites(): Promise<UserInviteSummary[]>;
+  deleteUserInvite(id: number): Promise<void>;
+  // Marks a pending, unexpired invite accepted and creates the user with its role, or returns undefined
+  createUserFromInvite(tokenHash: string, user: Omit<InsertUser, "role">): Promise<User | undefined>;
+
+  // Auth session methods
+  createAuthSession(session: Omit<AuthSession, "id" | "previousTokenHash" | "rotatedAt" | "revokedAt" | "createdAt">): Promise<AuthSession>;
+  getAuthSession(id: number): Promise<AuthSession | undefined>;
+  // Finds the session whose current or previous refresh token has this hash
+  getAuthSessionByTokenHash(tokenHash: string): Promise<AuthSession | undefined>;
+  // Swaps in a new refresh token, only if the session is unrevoked and still holds currentTokenHash
+  rotateAuthSession(id: number, currentTokenHash: string, refreshTokenHash: string, expiresAt: Date): Promise<AuthSession | undefined>;
+  revokeAuthSession(id: number): Promise<void>;
+  // Revokes every active session for the user, optionally keeping one, and returns how many were revoked
+  revokeUserAuthSessions(userId: number, exceptSessionId?: number): Promise<number>;
+
+  // Password reset methods
+  createPasswordResetToken(token: Omit<PasswordResetToken, "id" | "usedAt" | "createdAt">): Promise<PasswordResetToken>;
+  // Marks an unused, unexpired reset token used and returns it, or returns undefined
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+
+  // Recovery code methods
+  // Deletes the user's recovery codes and stores these instead
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  // Marks an unused recovery code used; returns false if there was none
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
+
+  // App settings methods
+  getAppSetting(key: string): Promise<unknown | undefined>;
+  saveAppSetting(key: string, value: unknown, updatedBy: number | null): Promise<void>;
+
+  // Audit log methods
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  // Newest first
+  getAuditLog(filters: AuditLogFilters, limit: number, offset: number): Promise<{ entries: AuditLogEntry[]; total: number }>;
+  getAuditLogActions(): Promise<string[]>;
   
   // Leadership Values methods
+  // In card pile order. Includes archived values, which past submissions may still refer to
   getAllLeadershipValues(): Promise<LeadershipValue[]>;
   getLeadershipValueById(id: number): Promise<LeadershipValue | undefined>;
   createLeadershipValue(value: InsertLeadershipValue): Promise<LeadershipValue>;
-  updateLeadershipValue(id: number, value: InsertLeadershipValue): Promise<LeadershipValue>;
-  deleteLeadershipValue(id: number): Promise<void>;
+  // Records the previous text as a revision when the text changes
+  updateLeadershipValue(id: number, value: InsertLeadershipValue, editor: RevisionEditor | null): Promise<LeadershipValue>;
+  setLeadershipValueArchived(id: number, archived: boolean): Promise<LeadershipValue>;
+  // Puts the listed values first, in the given order; returns every value in the new order
+  reorderLeadershipValues(valueIds: number[]): Promise<LeadershipValue[]>;
+  // Adds and updates values in one transaction, recording revisions like updateLeadershipValue
+  importLeadershipValues(
+    created: InsertLeadershipValue[],
+    changed: { id: number; value: InsertLeadershipValue }[],
+    editor: RevisionEditor | null
+  ): Promise<void>;
+  // Newest first
+  getLeadershipValueRevisions(valueId: number): Promise<LeadershipValueRevision[]>;
+  // Active values only, in card pile order, for exercises
+  getLeadershipValuesByDeck(deckId: number): Promise<LeadershipValue[]>;
+
+  // Deck methods
+  getAllDecks(): Promise<DeckWithValues[]>;
+  getDeckById(id: number): Promise<DeckWithValues | undefined>;
+  getDeckBySlug(slug: string): Promise<DeckWithValues | undefined>;
+  createDeck(deck: InsertDeck): Promise<DeckWithValues>;
+  updateDeck(id: number, deck: InsertDeck): Promise<DeckWithValues>;
+  deleteDeck(id: number): Promise<void>;
   
+  // Organization methods
+  getAllOrganizations(): Promise<OrganizationWithStats[]>;
+  getOrganizationById(id: number): Promise<Organization | undefined>;
+  getOrganizationByCode(code: string): Promise<Organization | undefined>;
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  updateOrganization(id: number, organization: InsertOrganization): Promise<Organization>;
+  deleteOrganization(id: number): Promise<void>;
+  getSubmissionCountByOrganization(organizationId: number): Promise<number>;
+
+  // Participant methods; email must already be normalized
+  // Creates the participant for an email address, or returns them if they exist. Their name
+  // isn't updated, since anyone can submit with their email address.
+  upsertParticipant(email: string, name: string): Promise<Participant>;
+  getParticipantById(id: number): Promise<Participant | undefined>;
+  // Newest first
+  getSubmissionsByParticipant(participantId: number): Promise<Submission[]>;
+
   // Submission methods
-  createSubmission(submission: InsertSubmission): Promise<Submission>;
+  createSubmission(submission: NewSubmission): Promise<Submission>;
   getSubmissionById(id: number): Promise<Submission | undefined>;
+  consumeSubmissionEmailToken(id: number, tokenHash: string): Promise<boolean>;
+  // Undoes consumeSubmissionEmailToken when the email could not be queued
+  restoreSubmissionEmailToken(id: number, tokenHash: string): Promise<void>;
   getAllSubmissions(): Promise<Submission[]>;
+  // Newest first; every match unless a page is given
+  searchSubmissions(
+    filters: SubmissionSearch,
+    page?: { limit: number; offset: number }
+  ): Promise<{ submissions: Submission[]; total: number }>;
+  // Matches codes however they were typed, e.g. " acme" for ACME
   getSubmissionsByCompanyCode(companyCode: string): Promise<Submission[]>;
   getUniqueCompanyCodes(): Promise<string[]>;
+
+  // Exercise session methods
+  createExerciseSession(session: InsertExerciseSession): Promise<ExerciseSession>;
+  getExerciseSessionByCode(resumeCode: string): Promise<ExerciseSession | undefined>;
+  updateExerciseSession(resumeCode: string, state: Partial<ExerciseState>): Promise<ExerciseSession>;
+
+  // Email outbox methods
+  createOutboxMessage(message: InsertEmailOutboxMessage): Promise<EmailOutboxMessage>;
+  getOutboxMessageById(id: number): Promise<EmailOutboxMessage | undefined>;
+  // Newest first, optionally only the emails for one submission
+  getOutboxSummaries(submissionId?: number): Promise<EmailOutboxSummary[]>;
+  getDueOutboxMessageIds(now: Date, limit: number): Promise<number[]>;
+  claimOutboxMessage(id: number, now: Date, leaseUntil: Date): Promise<EmailOutboxMessage | undefined>;
+  updateOutboxMessage(id: number, update: Partial<InsertEmailOutboxMessage>): Promise<EmailOutboxMessage>;
+  // Only while the message is failed or waiting for a retry, never while it's being sent
+  requeueOutboxMessage(id: number, now: Date): Promise<EmailOutboxMessage | undefined>;
+  createEmailDeliveryAttempt(attempt: InsertEmailDeliveryAttempt): Promise<EmailDeliveryAttempt>;
+  getEmailDeliveryAttempts(outboxId: number): Promise<EmailDeliveryAttempt[]>;
+
+  // Email template methods
+  getEmailTemplates(kind: EmailKind): Promise<EmailTemplate[]>;
+  getEmailTemplate(kind: EmailKind, organizationId: number | null): Promise<EmailTemplate | undefined>;
+  saveEmailTemplate(kind: EmailKind, template: InsertEmailTemplate): Promise<EmailTemplate>;
+  deleteEmailTemplate(kind: EmailKind, organizationId: number | null): Promise<void>;
+
+  // Data-subject methods; email addresses match case-insensitively
+  getParticipantRecords(email: string): Promise<{ participant: Participant | undefined; submissions: Submission[]; emails: EmailOutboxMessage[] }>;
+  // Deletes the address's participant record, submissions and emails and clears audit snapshots that mention them, atomically
+  eraseParticipantData(email: string): Promise<ParticipantErasure>;
+
+  // Retention methods; anonymized submissions are only returned when includeAnonymized is set
+  getExpiredSubmissions(cutoffs: RetentionCutoffs, includeAnonymized: boolean): Promise<RetentionCandidate[]>;
+  // Both also remove the submissions' emails and clear audit snapshots about them; they return how many were changed
+  anonymizeSubmissions(ids: number[]): Promise<number>;
+  deleteSubmissions(ids: number[]): Promise<number>;
+
+  // Analytics methods
+  getAnalyticsSummary(filters: AnalyticsFilters): Promise<AnalyticsSummary>;
+  getCoreValueFrequency(filters: AnalyticsFilters): Promise<CoreValueFrequency[]>;
+  getSubmissionVolume(filters: AnalyticsFilters, interval: AnalyticsInterval): Promise<SubmissionVolume[]>;
+  getCompanyCodeBreakdown(filters: AnalyticsFilters): Promise<CompanyCodeBreakdown[]>;
 }
 
+// Card pile order: by position, then oldest first
+const byPosition = (a: LeadershipValue, b: LeadershipValue) => a.position - b.position || a.id - b.id;
+
+// Who made an edit that's kept in a revision history
+export type RevisionEditor = Pick<User, "id" | "username">;
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private leadershipValuesMap: Map<number, LeadershipValue>;
+  private leadershipValueRevisionsMap: Map<number, LeadershipValueRevision>;
+  private decksMap: Map<number, DeckWithValues>;
+  private organizationsMap: Map<number, Organization>;
   private submissions: Map<number, Submission>;
+  private participantsMap: Map<number, Participant>;
+  private exerciseSessionsMap: Map<string, ExerciseSession>;
+  private emailOutboxMap: Map<number, EmailOutboxMessage>;
+  private emailDeliveryAttemptsMap: Map<number, EmailDeliveryAttempt>;
+  private emailTemplatesMap: Map<number, EmailTemplate>;
+  private userInvitesMap: Map<number, UserInvite>;
+  private authSessionsMap: Map<number, AuthSession>;
+  private passwordResetTokensMap: Map<number, PasswordResetToken>;
+  private recoveryCodesMap: Map<number, RecoveryCode>;
+  private appSettingsMap: Map<string, unknown>;
+  private auditLogMap: Map<number, AuditLogEntry>;
   currentUserId: number;
   currentLeadershipValueId: number;
+  currentLeadershipValueRevisionId: number;
+  currentDeckId: number;
+  currentOrganizationId: number;
   currentSubmissionId: number;
+  currentParticipantId: number;
+  currentExerciseSessionId: number;
+  currentOutboxMessageId: number;
+  currentDeliveryAttemptId: number;
+  currentEmailTemplateId: number;
+  currentUserInviteId: number;
+  currentAuthSessionId: number;
+  currentPasswordResetTokenId: number;
+  currentRecoveryCodeId: number;
+  currentAuditLogEntryId: number;
 
   constructor() {
     this.users = new Map();
     this.leadershipValuesMap = new Map();
+    this.leadershipValueRevisionsMap = new Map();
+    this.decksMap = new Map();
+    this.organizationsMap = new Map();
     this.submissions = new Map();
+    this.participantsMap = new Map();
+    this.exerciseSessionsMap = new Map();
+    this.emailOutboxMap = new Map();
+    this.emailDeliveryAttemptsMap = new Map();
+    this.emailTemplatesMap = new Map();
+    this.userInvitesMap = new Map();
+    this.authSessionsMap = new Map();
+    this.passwordResetTokensMap = new Map();
+    this.recoveryCodesMap = new Map();
+    this.appSettingsMap = new Map();
+    this.auditLogMap = new Map();
     this.currentUserId = 1;
     this.currentLeadershipValueId = 1;
+    this.currentLeadershipValueRevisionId = 1;
+    this.currentDeckId = 1;
+    this.currentOrganizationId = 1;
     this.currentSubmissionId = 1;
+    this.currentParticipantId = 1;
+    this.currentExerciseSessionId = 1;
+    this.currentOutboxMessageId = 1;
+    this.currentDeliveryAttemptId = 1;
+    this.currentEmailTemplateId = 1;
+    this.currentUserInviteId = 1;
+    this.currentAuthSessionId = 1;
+    this.currentPasswordResetTokenId = 1;
+    this.currentRecoveryCodeId = 1;
+    this.currentAuditLogEntryId = 1;
     
     // Initialize with default leadership values
     import('@/lib/data').then(({ leadershipValues }) => {
       leadershipValues.forEach(value => {
-        this.leadershipValuesMap.set(value.id, value);
+        this.leadershipValuesMap.set(value.id, { ...value, archivedAt: null, position: value.id });
         this.currentLeadershipValueId = Math.max(this.currentLeadershipValueId, value.id + 1);
       });
     }).catch(err => {
@@ -71,16 +320,316 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      id,
+      username: insertUser.username,
+      password: insertUser.password,
+      role: insertUser.role ?? "viewer",
+      email: null,
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+      createdAt: new Date()
+    };
     this.users.set(id, user);
     return user;
   }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<User> {
+    const existingUser = await this.getUser(id);
+
+    if (!existingUser) {
+      throw new Error(`User with id ${id} not found`);
+    }
+
+    const updatedUser: User = { ...existingUser, role };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserEmail(id: number, email: string | null): Promise<User> {
+    const existingUser = await this.getUser(id);
+
+    if (!existingUser) {
+      throw new Error(`User with id ${id} not found`);
+    }
+
+    const updatedUser: User = { ...existingUser, email };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserPassword(id: number, password: string): Promise<User> {
+    const existingUser = await this.getUser(id);
+
+    if (!existingUser) {
+      throw new Error(`User with id ${id} not found`);
+    }
+
+    const updatedUser: User = { ...existingUser, password };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserTwoFactor(id: number, fields: Partial<Pick<User, "totpSecret" | "totpEnabledAt" | "totpLastUsedStep">>): Promise<User> {
+    const existingUser = await this.getUser(id);
+
+    if (!existingUser) {
+      throw new Error(`User with id ${id} not found`);
+    }
+
+    const updatedUser: User = { ...existingUser, ...fields };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async claimTotpStep(id: number, step: number): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user || (user.totpLastUsedStep !== null && user.totpLastUsedStep >= step)) {
+      return false;
+    }
+
+    this.users.set(id, { ...user, totpLastUsedStep: step });
+    return true;
+  }
+
+  async deleteUser(id: number): Promise<void> {
+    if (!this.users.delete(id)) {
+      throw new Error(`User with id ${id} not found`);
+    }
+
+    Array.from(this.authSessionsMap.values())
+      .filter(session => session.userId === id)
+      .forEach(session => this.authSessionsMap.delete(session.id));
+
+    Array.from(this.auditLogMap.values())
+      .filter(entry => entry.actorId === id)
+      .forEach(entry => { entry.actorId = null; });
+  }
+
+  // User invite methods
+  async createUserInvite(insertInvite: Omit<UserInvite, "id" | "acceptedAt" | "acceptedBy" | "createdAt">): Promise<UserInvite> {
+    const id = this.currentUserInviteId++;
+    const invite: UserInvite = {
+      ...insertInvite,
+      id,
+      acceptedAt: null,
+      acceptedBy: null,
+      createdAt: new Date()
+    };
+    this.userInvitesMap.set(id, invite);
+    return invite;
+  }
+
+  async getUserInviteById(id: number): Promise<UserInvite | undefined> {
+    return this.userInvitesMap.get(id);
+  }
+
+  async getUserInviteByTokenHash(tokenHash: string): Promise<UserInvite | undefined> {
+    return Array.from(this.userInvitesMap.values()).find(invite => invite.tokenHash === tokenHash);
+  }
+
+  async getAllUserInvites(): Promise<UserInviteSummary[]> {
+    return Array.from(this.userInvitesMap.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(({ tokenHash, ...summary }) => summary);
+  }
+
+  async deleteUserInvite(id: number): Promise<void> {
+    if (!this.userInvitesMap.delete(id)) {
+      throw new Error(`Invite with id ${id} not found`);
+    }
+  }
+
+  async createUserFromInvite(tokenHash: string, insertUser: Omit<InsertUser, "role">): Promise<User | undefined> {
+    const invite = await this.getUserInviteByTokenHash(tokenHash);
+    if (!invite || invite.acceptedAt || invite.expiresAt <= new Date()) {
+      return undefined;
+    }
+
+    const user = await this.createUser({ ...insertUser, role: invite.role });
+    this.userInvitesMap.set(invite.id, { ...invite, acceptedAt: new Date(), acceptedBy: user.id });
+    return user;
+  }
+
+  // Auth session methods
+  async createAuthSession(insertSession: Omit<AuthSession, "id" | "previousTokenHash" | "rotatedAt" | "revokedAt" | "createdAt">): Promise<AuthSession> {
+    const id = this.currentAuthSessionId++;
+    const session: AuthSession = {
+      ...insertSession,
+      id,
+      previousTokenHash: null,
+      rotatedAt: null,
+      revokedAt: null,
+      createdAt: new Date()
+    };
+    this.authSessionsMap.set(id, session);
+    return session;
+  }
+
+  async getAuthSession(id: number): Promise<AuthSession | undefined> {
+    return this.authSessionsMap.get(id);
+  }
+
+  async getAuthSessionByTokenHash(tokenHash: string): Promise<AuthSession | undefined> {
+    return Array.from(this.authSessionsMap.values()).find(
+      session => session.refreshTokenHash === tokenHash || session.previousTokenHash === tokenHash
+    );
+  }
+
+  async rotateAuthSession(id: number, currentTokenHash: string, refreshTokenHash: string, expiresAt: Date): Promise<AuthSession | undefined> {
+    const session = this.authSessionsMap.get(id);
+    if (!session || session.revokedAt || session.refreshTokenHash !== currentTokenHash) {
+      return undefined;
+    }
+
+    const rotatedSession: AuthSession = {
+      ...session,
+      refreshTokenHash,
+      previousTokenHash: currentTokenHash,
+      expiresAt,
+      rotatedAt: new Date()
+    };
+    this.authSessionsMap.set(id, rotatedSession);
+    return rotatedSession;
+  }
+
+  async revokeAuthSession(id: number): Promise<void> {
+    const session = this.authSessionsMap.get(id);
+    if (session && !session.revokedAt) {
+      this.authSessionsMap.set(id, { ...session, revokedAt: new Date() });
+    }
+  }
+
+  async revokeUserAuthSessions(userId: number, exceptSessionId?: number): Promise<number> {
+    const activeSessions = Array.from(this.authSessionsMap.values())
+      .filter(session => session.userId === userId && !session.revokedAt && session.id !== exceptSessionId);
+    activeSessions.forEach(session => this.authSessionsMap.set(session.id, { ...session, revokedAt: new Date() }));
+    return activeSessions.length;
+  }
+
+  // Password reset methods
+  async createPasswordResetToken(insertToken: Omit<PasswordResetToken, "id" | "usedAt" | "createdAt">): Promise<PasswordResetToken> {
+    const id = this.currentPasswordResetTokenId++;
+    const token: PasswordResetToken = {
+      ...insertToken,
+      id,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    this.passwordResetTokensMap.set(id, token);
+    return token;
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const token = Array.from(this.passwordResetTokensMap.values()).find(token => token.tokenHash === tokenHash);
+    if (!token || token.usedAt || token.expiresAt <= new Date()) {
+      return undefined;
+    }
+
+    const usedToken: PasswordResetToken = { ...token, usedAt: new Date() };
+    this.passwordResetTokensMap.set(token.id, usedToken);
+    return usedToken;
+  }
+
+  // Recovery code methods
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    Array.from(this.recoveryCodesMap.values())
+      .filter(code => code.userId === userId)
+      .forEach(code => this.recoveryCodesMap.delete(code.id));
+
+    codeHashes.forEach(codeHash => {
+      const id = this.currentRecoveryCodeId++;
+      this.recoveryCodesMap.set(id, { id, userId, codeHash, usedAt: null, createdAt: new Date() });
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const code = Array.from(this.recoveryCodesMap.values()).find(
+      code => code.userId === userId && code.codeHash === codeHash && !code.usedAt
+    );
+    if (!code) {
+      return false;
+    }
+
+    this.recoveryCodesMap.set(code.id, { ...code, usedAt: new Date() });
+    return true;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    return Array.from(this.recoveryCodesMap.values())
+      .filter(code => code.userId === userId && !code.usedAt)
+      .length;
+  }
+
+  // App settings methods
+  async getAppSetting(key: string): Promise<unknown | undefined> {
+    return this.appSettingsMap.get(key);
+  }
+
+  async saveAppSetting(key: string, value: unknown, updatedBy: number | null): Promise<void> {
+    this.appSettingsMap.set(key, value);
+  }
+
+  // Audit log methods
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const id = this.currentAuditLogEntryId++;
+    const auditLogEntry: AuditLogEntry = {
+      id,
+      actorId: entry.actorId ?? null,
+      actorUsername: entry.actorUsername ?? null,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      success: entry.success,
+      ip: entry.ip ?? null,
+      createdAt: new Date()
+    };
+    this.auditLogMap.set(id, auditLogEntry);
+    return auditLogEntry;
+  }
+
+  async getAuditLog(
+    { action, targetType, actorId, from, to }: AuditLogFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const matching = Array.from(this.auditLogMap.values())
+      .filter(entry => {
+        const day = entry.createdAt.toISOString().slice(0, 10);
+        return (!action || entry.action === action) &&
+          (!targetType || entry.targetType === targetType) &&
+          (!actorId || entry.actorId === actorId) &&
+          (!from || day >= from) &&
+          (!to || day <= to);
+      })
+      .sort((a, b) => b.id - a.id);
+    return { entries: matching.slice(offset, offset + limit), total: matching.length };
+  }
+
+  async getAuditLogActions(): Promise<string[]> {
+    return Array.from(new Set(Array.from(this.auditLogMap.values()).map(entry => entry.action))).sort();
+  }
   
   // Leadership Values methods
   async getAllLeadershipValues(): Promise<LeadershipValue[]> {
-    return Array.from(this.leadershipValuesMap.values());
+    return Array.from(this.leadershipValuesMap.values()).sort(byPosition);
   }
   
   async getLeadershipValueById(id: number): Promise<LeadershipValue | undefined> {
@@ -89,42 +638,285 @@ export class MemStorage implements IStorage {
   
   async createLeadershipValue(insertValue: InsertLeadershipValue): Promise<LeadershipValue> {
     const id = this.currentLeadershipValueId++;
-    const value: LeadershipValue = { ...insertValue, id };
+    const lastPosition = Math.max(0, ...Array.from(this.leadershipValuesMap.values(), value => value.position));
+    const value: LeadershipValue = { ...insertValue, id, archivedAt: null, position: lastPosition + 1 };
     this.leadershipValuesMap.set(id, value);
     return value;
   }
   
-  async updateLeadershipValue(id: number, insertValue: InsertLeadershipValue): Promise<LeadershipValue> {
+  async updateLeadershipValue(id: number, insertValue: InsertLeadershipValue, editor: RevisionEditor | null): Promise<LeadershipValue> {
     const existingValue = await this.getLeadershipValueById(id);
     
     if (!existingValue) {
       throw new Error(`Leadership value with id ${id} not found`);
     }
+
+    if (existingValue.value !== insertValue.value || existingValue.description !== insertValue.description) {
+      const revisionId = this.currentLeadershipValueRevisionId++;
+      this.leadershipValueRevisionsMap.set(revisionId, {
+        id: revisionId,
+        valueId: id,
+        value: existingValue.value,
+        description: existingValue.description,
+        replacedBy: editor?.id ?? null,
+        replacedByUsername: editor?.username ?? null,
+        replacedAt: new Date()
+      });
+    }
     
-    const updatedValue: LeadershipValue = { ...insertValue, id };
+    const updatedValue: LeadershipValue = { ...existingValue, ...insertValue };
     this.leadershipValuesMap.set(id, updatedValue);
     return updatedValue;
   }
   
-  async deleteLeadershipValue(id: number): Promise<void> {
-    const exists = this.leadershipValuesMap.has(id);
+  async setLeadershipValueArchived(id: number, archived: boolean): Promise<LeadershipValue> {
+    const existingValue = await this.getLeadershipValueById(id);
     
-    if (!exists) {
+    if (!existingValue) {
       throw new Error(`Leadership value with id ${id} not found`);
     }
     
-    this.leadershipValuesMap.delete(id);
+    const updatedValue: LeadershipValue = { ...existingValue, archivedAt: archived ? new Date() : null };
+    this.leadershipValuesMap.set(id, updatedValue);
+    return updatedValue;
+  }
+
+  async importLeadershipValues(
+    created: InsertLeadershipValue[],
+    changed: { id: number; value: InsertLeadershipValue }[],
+    editor: RevisionEditor | null
+  ): Promise<void> {
+    for (const { id } of changed) {
+      if (!this.leadershipValuesMap.has(id)) {
+        throw new Error(`Leadership value with id ${id} not found`);
+      }
+    }
+    for (const { id, value } of changed) {
+      await this.updateLeadershipValue(id, value, editor);
+    }
+    for (const value of created) {
+      await this.createLeadershipValue(value);
+    }
+  }
+
+  async reorderLeadershipValues(valueIds: number[]): Promise<LeadershipValue[]> {
+    const listed = valueIds.map(id => {
+      const value = this.leadershipValuesMap.get(id);
+      if (!value) {
+        throw new Error(`Leadership value with id ${id} not found`);
+      }
+      return value;
+    });
+    const rest = (await this.getAllLeadershipValues()).filter(value => !valueIds.includes(value.id));
+
+    return [...listed, ...rest].map((value, index) => {
+      const reordered: LeadershipValue = { ...value, position: index + 1 };
+      this.leadershipValuesMap.set(value.id, reordered);
+      return reordered;
+    });
+  }
+
+  async getLeadershipValueRevisions(valueId: number): Promise<LeadershipValueRevision[]> {
+    return Array.from(this.leadershipValueRevisionsMap.values())
+      .filter(revision => revision.valueId === valueId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getLeadershipValuesByDeck(deckId: number): Promise<LeadershipValue[]> {
+    const deck = this.decksMap.get(deckId);
+    if (!deck) {
+      return [];
+    }
+    return Array.from(this.leadershipValuesMap.values()).filter(
+      value => deck.valueIds.includes(value.id) && !value.archivedAt
+    ).sort(byPosition);
+  }
+
+  // Deck methods
+  async getAllDecks(): Promise<DeckWithValues[]> {
+    return Array.from(this.decksMap.values());
+  }
+
+  async getDeckById(id: number): Promise<DeckWithValues | undefined> {
+    return this.decksMap.get(id);
+  }
+
+  async getDeckBySlug(slug: string): Promise<DeckWithValues | undefined> {
+    return Array.from(this.decksMap.values()).find(deck => deck.slug === slug);
+  }
+
+  async createDeck(insertDeck: InsertDeck): Promise<DeckWithValues> {
+    const id = this.currentDeckId++;
+    const deck: DeckWithValues = {
+      id,
+      name: insertDeck.name,
+      slug: insertDeck.slug,
+      description: insertDeck.description || null,
+      shuffle: insertDeck.shuffle,
+      valueIds: [...insertDeck.valueIds],
+      createdAt: new Date()
+    };
+    this.decksMap.set(id, deck);
+    return deck;
+  }
+
+  async updateDeck(id: number, insertDeck: InsertDeck): Promise<DeckWithValues> {
+    const existingDeck = await this.getDeckById(id);
+
+    if (!existingDeck) {
+      throw new Error(`Deck with id ${id} not found`);
+    }
+
+    const updatedDeck: DeckWithValues = {
+      ...existingDeck,
+      name: insertDeck.name,
+      slug: insertDeck.slug,
+      description: insertDeck.description || null,
+      shuffle: insertDeck.shuffle,
+      valueIds: [...insertDeck.valueIds]
+    };
+    this.decksMap.set(id, updatedDeck);
+    return updatedDeck;
+  }
+
+  async deleteDeck(id: number): Promise<void> {
+    if (!this.decksMap.has(id)) {
+      throw new Error(`Deck with id ${id} not found`);
+    }
+
+    this.decksMap.delete(id);
+    this.submissions.forEach(submission => {
+      if (submission.deckId === id) {
+        submission.deckId = null;
+      }
+    });
+    this.exerciseSessionsMap.forEach(session => {
+      if (session.deckId === id) {
+        session.deckId = null;
+      }
+    });
   }
   
+  // Organization methods
+  async getAllOrganizations(): Promise<OrganizationWithStats[]> {
+    const allOrganizations = Array.from(this.organizationsMap.values());
+    return Promise.all(allOrganizations.map(async organization => ({
+      ...organization,
+      submissionCount: await this.getSubmissionCountByOrganization(organization.id)
+    })));
+  }
+
+  async getOrganizationById(id: number): Promise<Organization | undefined> {
+    return this.organizationsMap.get(id);
+  }
+
+  async getOrganizationByCode(code: string): Promise<Organization | undefined> {
+    return Array.from(this.organizationsMap.values()).find(
+      organization => organization.code === code
+    );
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const id = this.currentOrganizationId++;
+    const organization: Organization = {
+      id,
+      code: insertOrganization.code,
+      name: insertOrganization.name,
+      startsOn: insertOrganization.startsOn ?? null,
+      endsOn: insertOrganization.endsOn ?? null,
+      participantCap: insertOrganization.participantCap ?? null,
+      createdAt: new Date()
+    };
+    this.organizationsMap.set(id, organization);
+    return organization;
+  }
+
+  async updateOrganization(id: number, insertOrganization: InsertOrganization): Promise<Organization> {
+    const existingOrganization = await this.getOrganizationById(id);
+
+    if (!existingOrganization) {
+      throw new Error(`Organization with id ${id} not found`);
+    }
+
+    const updatedOrganization: Organization = {
+      ...existingOrganization,
+      code: insertOrganization.code,
+      name: insertOrganization.name,
+      startsOn: insertOrganization.startsOn ?? null,
+      endsOn: insertOrganization.endsOn ?? null,
+      participantCap: insertOrganization.participantCap ?? null
+    };
+    this.organizationsMap.set(id, updatedOrganization);
+    return updatedOrganization;
+  }
+
+  async deleteOrganization(id: number): Promise<void> {
+    if (!this.organizationsMap.has(id)) {
+      throw new Error(`Organization with id ${id} not found`);
+    }
+
+    this.organizationsMap.delete(id);
+    this.submissions.forEach(submission => {
+      if (submission.organizationId === id) {
+        submission.organizationId = null;
+      }
+    });
+  }
+
+  async getSubmissionCountByOrganization(organizationId: number): Promise<number> {
+    return Array.from(this.submissions.values()).filter(
+      submission => submission.organizationId === organizationId
+    ).length;
+  }
+
+  // Participant methods
+  async upsertParticipant(email: string, name: string): Promise<Participant> {
+    const now = new Date();
+    const existing = Array.from(this.participantsMap.values()).find(participant => participant.email === email);
+    const participant: Participant = existing
+      ? { ...existing, updatedAt: now }
+      : { id: this.currentParticipantId++, email, name, createdAt: now, updatedAt: now };
+    this.participantsMap.set(participant.id, participant);
+    return participant;
+  }
+
+  async getParticipantById(id: number): Promise<Participant | undefined> {
+    return this.participantsMap.get(id);
+  }
+
+  async getSubmissionsByParticipant(participantId: number): Promise<Submission[]> {
+    return Array.from(this.submissions.values())
+      .filter(submission => submission.participantId === participantId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  // Participants left without submissions once theirs were anonymized or deleted
+  private deleteOrphanedParticipants(participantIds: (number | null)[]) {
+    const remaining = new Set(Array.from(this.submissions.values()).map(submission => submission.participantId));
+    participantIds.forEach(id => {
+      if (id !== null && !remaining.has(id)) this.participantsMap.delete(id);
+    });
+  }
+
   // Submission methods
-  async createSubmission(insertSubmission: InsertSubmission): Promise<Submission> {
+  async createSubmission(insertSubmission: NewSubmission): Promise<Submission> {
     const id = this.currentSubmissionId++;
     const now = new Date();
     const submission: Submission = { 
       ...insertSubmission, 
       id, 
       createdAt: now,
-      companyCode: insertSubmission.companyCode || null
+      companyCode: insertSubmission.companyCode || null,
+      deckId: insertSubmission.deckId ?? null,
+      organizationId: insertSubmission.organizationId ?? null,
+      participantId: insertSubmission.participantId ?? null,
+      coreValueSnapshot: insertSubmission.coreValueSnapshot ?? null,
+      emailTokenHash: insertSubmission.emailTokenHash ?? null,
+      sortingJourney: insertSubmission.sortingJourney,
+      consentVersion: insertSubmission.consentVersion ?? null,
+      marketingOptIn: insertSubmission.marketingOptIn ?? false,
+      consentedAt: insertSubmission.consentedAt ?? null,
+      anonymizedAt: null
     };
     this.submissions.set(id, submission);
     return submission;
@@ -134,13 +926,48 @@ export class MemStorage implements IStorage {
     return this.submissions.get(id);
   }
   
+  async consumeSubmissionEmailToken(id: number, tokenHash: string): Promise<boolean> {
+    const submission = this.submissions.get(id);
+    if (!submission || !submission.emailTokenHash || submission.emailTokenHash !== tokenHash) {
+      return false;
+    }
+
+    submission.emailTokenHash = null;
+    return true;
+  }
+
+  async restoreSubmissionEmailToken(id: number, tokenHash: string): Promise<void> {
+    const submission = this.submissions.get(id);
+    if (submission && !submission.emailTokenHash) {
+      submission.emailTokenHash = tokenHash;
+    }
+  }
+
   async getAllSubmissions(): Promise<Submission[]> {
     return Array.from(this.submissions.values());
   }
 
+  async searchSubmissions(
+    filters: SubmissionSearch,
+    page?: { limit: number; offset: number }
+  ): Promise<{ submissions: Submission[]; total: number }> {
+    const search = filters.search?.toLowerCase();
+    const matching = this.filterSubmissions(filters)
+      .filter(submission =>
+        (!search || submission.name.toLowerCase().includes(search) || submission.email.toLowerCase().includes(search)) &&
+        (!filters.coreValue || (submission.coreValues as string[]).includes(filters.coreValue))
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return {
+      submissions: page ? matching.slice(page.offset, page.offset + page.limit) : matching,
+      total: matching.length
+    };
+  }
+
   async getSubmissionsByCompanyCode(companyCode: string): Promise<Submission[]> {
+    const code = normalizeCompanyCode(companyCode);
     return Array.from(this.submissions.values()).filter(
-      submission => submission.companyCode === companyCode
+      submission => submission.companyCode !== null && normalizeCompanyCode(submission.companyCode) === code
     );
   }
 
@@ -153,6 +980,353 @@ export class MemStorage implements IStorage {
     });
     return Array.from(codes);
   }
+
+  // Exercise session methods
+  async createExerciseSession(insertSession: InsertExerciseSession): Promise<ExerciseSession> {
+    const id = this.currentExerciseSessionId++;
+    const now = new Date();
+    const session: ExerciseSession = {
+      id,
+      resumeCode: insertSession.resumeCode,
+      currentStep: insertSession.currentStep,
+      sortedValues: insertSession.sortedValues || null,
+      selectedValues: insertSession.selectedValues || null,
+      coreValues: insertSession.coreValues || null,
+      deckId: insertSession.deckId ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.exerciseSessionsMap.set(session.resumeCode, session);
+    return session;
+  }
+
+  async getExerciseSessionByCode(resumeCode: string): Promise<ExerciseSession | undefined> {
+    return this.exerciseSessionsMap.get(resumeCode);
+  }
+
+  async updateExerciseSession(resumeCode: string, state: Partial<ExerciseState>): Promise<ExerciseSession> {
+    const existingSession = await this.getExerciseSessionByCode(resumeCode);
+
+    if (!existingSession) {
+      throw new Error(`Exercise session with code ${resumeCode} not found`);
+    }
+
+    const updatedSession: ExerciseSession = { ...existingSession, ...state, updatedAt: new Date() };
+    this.exerciseSessionsMap.set(resumeCode, updatedSession);
+    return updatedSession;
+  }
+
+  // Email outbox methods
+  async createOutboxMessage(insertMessage: InsertEmailOutboxMessage): Promise<EmailOutboxMessage> {
+    const id = this.currentOutboxMessageId++;
+    const now = new Date();
+    const message: EmailOutboxMessage = {
+      id,
+      kind: insertMessage.kind,
+      submissionId: insertMessage.submissionId ?? null,
+      recipient: insertMessage.recipient,
+      subject: insertMessage.subject,
+      html: insertMessage.html,
+      status: insertMessage.status ?? "pending",
+      attempts: insertMessage.attempts ?? 0,
+      lastError: insertMessage.lastError ?? null,
+      nextAttemptAt: insertMessage.nextAttemptAt ?? now,
+      sentAt: insertMessage.sentAt ?? null,
+      createdAt: now
+    };
+    this.emailOutboxMap.set(id, message);
+    return message;
+  }
+
+  async getOutboxMessageById(id: number): Promise<EmailOutboxMessage | undefined> {
+    return this.emailOutboxMap.get(id);
+  }
+
+  async getOutboxSummaries(submissionId?: number): Promise<EmailOutboxSummary[]> {
+    return Array.from(this.emailOutboxMap.values())
+      .filter(message => submissionId === undefined || message.submissionId === submissionId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(({ html, ...summary }) => summary);
+  }
+
+  async getDueOutboxMessageIds(now: Date, limit: number): Promise<number[]> {
+    return Array.from(this.emailOutboxMap.values())
+      .filter(message => (message.status === "pending" || message.status === "sending") && message.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit)
+      .map(message => message.id);
+  }
+
+  async claimOutboxMessage(id: number, now: Date, leaseUntil: Date): Promise<EmailOutboxMessage | undefined> {
+    const message = this.emailOutboxMap.get(id);
+    if (!message || (message.status !== "pending" && message.status !== "sending") || message.nextAttemptAt > now) {
+      return undefined;
+    }
+
+    const claimedMessage: EmailOutboxMessage = { ...message, status: "sending", nextAttemptAt: leaseUntil };
+    this.emailOutboxMap.set(id, claimedMessage);
+    return claimedMessage;
+  }
+
+  async updateOutboxMessage(id: number, update: Partial<InsertEmailOutboxMessage>): Promise<EmailOutboxMessage> {
+    const existingMessage = await this.getOutboxMessageById(id);
+
+    if (!existingMessage) {
+      throw new Error(`Outbox message with id ${id} not found`);
+    }
+
+    const updatedMessage: EmailOutboxMessage = { ...existingMessage, ...update, id };
+    this.emailOutboxMap.set(id, updatedMessage);
+    return updatedMessage;
+  }
+
+  async requeueOutboxMessage(id: number, now: Date): Promise<EmailOutboxMessage | undefined> {
+    const message = this.emailOutboxMap.get(id);
+    if (!message || (message.status !== "pending" && message.status !== "failed")) {
+      return undefined;
+    }
+
+    const requeuedMessage: EmailOutboxMessage = { ...message, status: "pending", attempts: 0, nextAttemptAt: now };
+    this.emailOutboxMap.set(id, requeuedMessage);
+    return requeuedMessage;
+  }
+
+  async createEmailDeliveryAttempt(insertAttempt: InsertEmailDeliveryAttempt): Promise<EmailDeliveryAttempt> {
+    const id = this.currentDeliveryAttemptId++;
+    const attempt: EmailDeliveryAttempt = {
+      id,
+      outboxId: insertAttempt.outboxId,
+      success: insertAttempt.success,
+      error: insertAttempt.error ?? null,
+      providerMessageId: insertAttempt.providerMessageId ?? null,
+      attemptedAt: insertAttempt.attemptedAt ?? new Date()
+    };
+    this.emailDeliveryAttemptsMap.set(id, attempt);
+    return attempt;
+  }
+
+  async getEmailDeliveryAttempts(outboxId: number): Promise<EmailDeliveryAttempt[]> {
+    return Array.from(this.emailDeliveryAttemptsMap.values()).filter(
+      attempt => attempt.outboxId === outboxId
+    );
+  }
+
+  // Email template methods
+  async getEmailTemplates(kind: EmailKind): Promise<EmailTemplate[]> {
+    return Array.from(this.emailTemplatesMap.values()).filter(template => template.kind === kind);
+  }
+
+  async getEmailTemplate(kind: EmailKind, organizationId: number | null): Promise<EmailTemplate | undefined> {
+    return Array.from(this.emailTemplatesMap.values()).find(
+      template => template.kind === kind && template.organizationId === organizationId
+    );
+  }
+
+  async saveEmailTemplate(kind: EmailKind, insertTemplate: InsertEmailTemplate): Promise<EmailTemplate> {
+    const existingTemplate = await this.getEmailTemplate(kind, insertTemplate.organizationId);
+    const template: EmailTemplate = {
+      id: existingTemplate?.id ?? this.currentEmailTemplateId++,
+      kind,
+      organizationId: insertTemplate.organizationId,
+      subject: insertTemplate.subject,
+      body: insertTemplate.body,
+      updatedAt: new Date()
+    };
+    this.emailTemplatesMap.set(template.id, template);
+    return template;
+  }
+
+  async deleteEmailTemplate(kind: EmailKind, organizationId: number | null): Promise<void> {
+    const existingTemplate = await this.getEmailTemplate(kind, organizationId);
+
+    if (!existingTemplate) {
+      throw new Error(`Email template for ${kind} not found`);
+    }
+
+    this.emailTemplatesMap.delete(existingTemplate.id);
+  }
+
+  // Analytics methods
+  // Data-subject methods
+  private findParticipantRecords(email: string): { participant: Participant | undefined; submissions: Submission[]; emails: EmailOutboxMessage[] } {
+    const address = email.toLowerCase();
+    const participantSubmissions = Array.from(this.submissions.values())
+      .filter(submission => submission.email.toLowerCase() === address)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const submissionIds = new Set(participantSubmissions.map(submission => submission.id));
+    const emails = Array.from(this.emailOutboxMap.values())
+      .filter(message =>
+        message.recipient.toLowerCase() === address ||
+        (message.submissionId !== null && submissionIds.has(message.submissionId))
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const participant = Array.from(this.participantsMap.values()).find(participant => participant.email === address);
+    return { participant, submissions: participantSubmissions, emails };
+  }
+
+  async getParticipantRecords(email: string): Promise<{ participant: Participant | undefined; submissions: Submission[]; emails: EmailOutboxMessage[] }> {
+    return this.findParticipantRecords(email);
+  }
+
+  async eraseParticipantData(email: string): Promise<ParticipantErasure> {
+    const address = email.toLowerCase();
+    const records = this.findParticipantRecords(email);
+    const submissionIds = new Set(records.submissions.map(submission => String(submission.id)));
+    const emailIds = new Set(records.emails.map(message => String(message.id)));
+
+    const auditEntries = this.clearAuditSnapshots(submissionIds, emailIds, entry =>
+      JSON.stringify([entry.before, entry.after]).toLowerCase().includes(address)
+    );
+
+    this.deleteOutboxMessages(emailIds);
+    records.submissions.forEach(submission => this.submissions.delete(submission.id));
+    if (records.participant) this.participantsMap.delete(records.participant.id);
+
+    return {
+      submissions: records.submissions.length,
+      emails: records.emails.length,
+      auditEntries
+    };
+  }
+
+  // Clears the snapshots of audit entries about the given submissions or emails, or matching `also`
+  private clearAuditSnapshots(submissionIds: Set<string>, emailIds: Set<string>, also?: (entry: AuditLogEntry) => boolean): number {
+    const entries = Array.from(this.auditLogMap.values()).filter(entry =>
+      (entry.targetType === "submission" && entry.targetId !== null && submissionIds.has(entry.targetId)) ||
+      (entry.targetType === "email" && entry.targetId !== null && emailIds.has(entry.targetId)) ||
+      (also?.(entry) ?? false)
+    );
+    entries.forEach(entry => {
+      entry.before = null;
+      entry.after = null;
+    });
+    return entries.length;
+  }
+
+  private deleteOutboxMessages(emailIds: Set<string>) {
+    Array.from(this.emailDeliveryAttemptsMap.values())
+      .filter(attempt => emailIds.has(String(attempt.outboxId)))
+      .forEach(attempt => this.emailDeliveryAttemptsMap.delete(attempt.id));
+    emailIds.forEach(id => this.emailOutboxMap.delete(Number(id)));
+  }
+
+  // Retention methods
+  async getExpiredSubmissions(cutoffs: RetentionCutoffs, includeAnonymized: boolean): Promise<RetentionCandidate[]> {
+    return Array.from(this.submissions.values())
+      .filter(submission => {
+        if (submission.anonymizedAt && !includeAnonymized) return false;
+        const companyCode = submission.companyCode && normalizeCompanyCode(submission.companyCode);
+        const cutoff = companyCode && companyCode in cutoffs.companyCodes
+          ? cutoffs.companyCodes[companyCode]
+          : cutoffs.default;
+        return cutoff !== null && submission.createdAt < cutoff;
+      })
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(({ id, companyCode, createdAt }) => ({ id, companyCode, createdAt }));
+  }
+
+  private submissionEmailIds(submissionIds: Set<string>): Set<string> {
+    return new Set(Array.from(this.emailOutboxMap.values())
+      .filter(message => message.submissionId !== null && submissionIds.has(String(message.submissionId)))
+      .map(message => String(message.id)));
+  }
+
+  async anonymizeSubmissions(ids: number[]): Promise<number> {
+    const matching = ids.flatMap(id => this.submissions.get(id) ?? []);
+    const submissionIds = new Set(matching.map(submission => String(submission.id)));
+    const emailIds = this.submissionEmailIds(submissionIds);
+
+    this.clearAuditSnapshots(submissionIds, emailIds);
+    this.deleteOutboxMessages(emailIds);
+    const anonymizedAt = new Date();
+    matching.forEach(submission => this.submissions.set(submission.id, {
+      ...submission,
+      name: "Anonymized participant",
+      // Unique per submission so participant counts in analytics don't collapse into one
+      email: `anonymized-${submission.id}@invalid`,
+      emailTokenHash: null,
+      participantId: null,
+      marketingOptIn: false,
+      anonymizedAt
+    }));
+    this.deleteOrphanedParticipants(matching.map(submission => submission.participantId));
+    return matching.length;
+  }
+
+  async deleteSubmissions(ids: number[]): Promise<number> {
+    const matching = ids.flatMap(id => this.submissions.get(id) ?? []);
+    const submissionIds = new Set(matching.map(submission => String(submission.id)));
+    const emailIds = this.submissionEmailIds(submissionIds);
+
+    this.clearAuditSnapshots(submissionIds, emailIds);
+    this.deleteOutboxMessages(emailIds);
+    matching.forEach(submission => this.submissions.delete(submission.id));
+    this.deleteOrphanedParticipants(matching.map(submission => submission.participantId));
+    return matching.length;
+  }
+
+  private filterSubmissions({ companyCode, from, to }: AnalyticsFilters): Submission[] {
+    return Array.from(this.submissions.values()).filter(submission => {
+      const day = submission.createdAt.toISOString().slice(0, 10);
+      return (!companyCode || submission.companyCode === companyCode) &&
+        (!from || day >= from) &&
+        (!to || day <= to);
+    });
+  }
+
+  async getAnalyticsSummary(filters: AnalyticsFilters): Promise<AnalyticsSummary> {
+    const filteredSubmissions = this.filterSubmissions(filters);
+    return {
+      submissions: filteredSubmissions.length,
+      participants: new Set(filteredSubmissions.map(submission => submission.email.toLowerCase())).size,
+      companyCodes: new Set(filteredSubmissions.map(submission => submission.companyCode).filter(Boolean)).size
+    };
+  }
+
+  async getCoreValueFrequency(filters: AnalyticsFilters): Promise<CoreValueFrequency[]> {
+    const counts = new Map<string, number>();
+    for (const submission of this.filterSubmissions(filters)) {
+      for (const value of submission.coreValues as string[]) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    }
+    return Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+
+  async getSubmissionVolume(filters: AnalyticsFilters, interval: AnalyticsInterval): Promise<SubmissionVolume[]> {
+    const counts = new Map<string, number>();
+    for (const submission of this.filterSubmissions(filters)) {
+      const start = new Date(submission.createdAt);
+      start.setUTCHours(0, 0, 0, 0);
+      if (interval === "week") {
+        // Weeks start on Monday, matching Postgres date_trunc
+        start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+      } else if (interval === "month") {
+        start.setUTCDate(1);
+      }
+      const period = start.toISOString().slice(0, 10);
+      counts.set(period, (counts.get(period) || 0) + 1);
+    }
+    return Array.from(counts, ([period, count]) => ({ period, count }))
+      .sort((a, b) => a.period.localeCompare(b.period));
+  }
+
+  async getCompanyCodeBreakdown(filters: AnalyticsFilters): Promise<CompanyCodeBreakdown[]> {
+    const breakdown = new Map<string | null, { submissions: number; emails: Set<string> }>();
+    for (const submission of this.filterSubmissions(filters)) {
+      const companyCode = submission.companyCode || null;
+      const entry = breakdown.get(companyCode) || { submissions: 0, emails: new Set<string>() };
+      entry.submissions++;
+      entry.emails.add(submission.email.toLowerCase());
+      breakdown.set(companyCode, entry);
+    }
+    return Array.from(breakdown, ([companyCode, entry]) => ({
+      companyCode,
+      submissions: entry.submissions,
+      participants: entry.emails.size
+    })).sort((a, b) => b.submissions - a.submissions);
+  }
 }
 
 // Use the DatabaseStorage implementation
@@ -0,0 +1,43 @@
+import type { Submission, SubmissionDetail } from "@shared/schema";
+import { storage } from "./storage";
+import { getSubmissionCoreValues } from "./pdf-generator";
+
+/**
+ * Gathers a submission's ranked core values, sorting journey, organization,
+ * deck, participant history size and (for admins) results email history for the admin detail page
+ */
+export async function buildSubmissionDetail(submission: Submission, includeEmails: boolean): Promise<SubmissionDetail> {
+  const { emailTokenHash, ...details } = submission;
+
+  let journey: SubmissionDetail["journey"] = null;
+  if (submission.sortingJourney) {
+    // Archived values are still listed; values deleted before archiving existed are left out rather than shown as blanks
+    const valueNames = new Map((await storage.getAllLeadershipValues()).map(value => [value.id, value.value]));
+    // Core values read as they did at submission time, like the rest of the page
+    for (const value of submission.coreValueSnapshot ?? []) {
+      valueNames.set(value.id, value.value);
+    }
+    const toNames = (ids: number[]) => ids.flatMap(id => valueNames.get(id) ?? []);
+    journey = {
+      definitelyMe: toNames(submission.sortingJourney.definitelyMe),
+      mostlyMe: toNames(submission.sortingJourney.mostlyMe),
+      notMe: toNames(submission.sortingJourney.notMe),
+      top10: toNames(submission.sortingJourney.top10)
+    };
+  }
+
+  const organization = submission.organizationId ? await storage.getOrganizationById(submission.organizationId) : undefined;
+  const deck = submission.deckId ? await storage.getDeckById(submission.deckId) : undefined;
+
+  return {
+    submission: details,
+    coreValues: await getSubmissionCoreValues(submission),
+    journey,
+    organization: organization ? { id: organization.id, code: organization.code, name: organization.name } : null,
+    deck: deck ? { id: deck.id, name: deck.name, slug: deck.slug } : null,
+    emails: includeEmails ? await storage.getOutboxSummaries(submission.id) : null,
+    participantSubmissions: submission.participantId
+      ? (await storage.getSubmissionsByParticipant(submission.participantId)).length
+      : 1
+  };
+}
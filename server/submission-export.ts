@@ -0,0 +1,131 @@
+import ExcelJS from "exceljs";
+import type { Submission, SubmissionExportFormat } from "@shared/schema";
+
+// Participants choose five core values; older or unusual submissions may hold more
+const MIN_CORE_VALUE_COLUMNS = 5;
+
+type ExportRow = {
+  id: number;
+  name: string;
+  email: string;
+  companyCode: string | null;
+  submittedAt: string; // ISO 8601, UTC
+  coreValues: string[]; // In ranked order
+};
+
+export type SubmissionExport = {
+  contentType: string;
+  extension: string;
+  body: string | Buffer;
+};
+
+function toExportRow(submission: Submission): ExportRow {
+  return {
+    id: submission.id,
+    name: submission.name,
+    email: submission.email,
+    companyCode: submission.companyCode,
+    submittedAt: new Date(submission.createdAt).toISOString(),
+    coreValues: Array.isArray(submission.coreValues) ? (submission.coreValues as string[]) : []
+  };
+}
+
+function getCoreValueColumnCount(rows: ExportRow[]): number {
+  return Math.max(MIN_CORE_VALUE_COLUMNS, ...rows.map(row => row.coreValues.length));
+}
+
+function getHeaders(coreValueColumns: number): string[] {
+  return [
+    "ID",
+    "Name",
+    "Email",
+    "Company Code",
+    "Submitted At",
+    ...Array.from({ length: coreValueColumns }, (_, index) => `Core Value ${index + 1}`)
+  ];
+}
+
+/**
+ * Quotes a CSV field when needed (RFC 4180). Text a spreadsheet would treat as a
+ * formula is prefixed with an apostrophe, since names and emails come from participants.
+ */
+export function escapeCsvField(value: string | number | null): string {
+  let text = value === null ? "" : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: ExportRow[]): string {
+  const coreValueColumns = getCoreValueColumnCount(rows);
+  const lines = [
+    getHeaders(coreValueColumns),
+    ...rows.map(row => [
+      row.id,
+      row.name,
+      row.email,
+      row.companyCode,
+      row.submittedAt,
+      ...Array.from({ length: coreValueColumns }, (_, index) => row.coreValues[index] ?? null)
+    ])
+  ];
+  // A byte order mark makes Excel read the file as UTF-8
+  return "\uFEFF" + lines.map(line => line.map(escapeCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+async function toWorkbook(rows: ExportRow[]): Promise<Buffer> {
+  const coreValueColumns = getCoreValueColumnCount(rows);
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Submissions", { views: [{ state: "frozen", ySplit: 1 }] });
+
+  sheet.columns = getHeaders(coreValueColumns).map((header, index) => ({
+    header,
+    width: index === 0 ? 8 : index === 4 ? 20 : 24
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.getColumn(5).numFmt = "yyyy-mm-dd hh:mm";
+
+  for (const row of rows) {
+    sheet.addRow([
+      row.id,
+      row.name,
+      row.email,
+      row.companyCode ?? "",
+      new Date(row.submittedAt), // A real date cell, so Excel can sort and group by it
+      ...Array.from({ length: coreValueColumns }, (_, index) => row.coreValues[index] ?? "")
+    ]);
+  }
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: sheet.columnCount } };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Renders submissions in one of the export formats
+ */
+export async function exportSubmissions(
+  submissions: Submission[],
+  format: SubmissionExportFormat
+): Promise<SubmissionExport> {
+  const rows = submissions.map(toExportRow);
+
+  switch (format) {
+    case "csv":
+      return { contentType: "text/csv; charset=utf-8", extension: "csv", body: toCsv(rows) };
+    case "xlsx":
+      return {
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        extension: "xlsx",
+        body: await toWorkbook(rows)
+      };
+    case "json":
+      return { contentType: "application/json; charset=utf-8", extension: "json", body: JSON.stringify(rows, null, 2) };
+    case "ndjson":
+      return {
+        contentType: "application/x-ndjson; charset=utf-8",
+        extension: "ndjson",
+        body: rows.map(row => JSON.stringify(row)).join("\n") + (rows.length > 0 ? "\n" : "")
+      };
+  }
+}
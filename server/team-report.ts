@@ -0,0 +1,89 @@
+import { normalizeCompanyCode, type TeamReport, type TeamReportMember } from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Average pairwise Jaccard similarity of the members' core value sets, as a
+ * 0-100 score: 100 when everyone chose the same values, 0 when nobody shares any
+ */
+export function calculateAlignmentScore(members: TeamReportMember[]): number | null {
+  if (members.length < 2) {
+    return null;
+  }
+
+  const valueSets = members.map(member => new Set(member.coreValues));
+  let total = 0;
+  let pairs = 0;
+
+  for (let i = 0; i < valueSets.length; i++) {
+    for (let j = i + 1; j < valueSets.length; j++) {
+      const shared = Array.from(valueSets[i]).filter(value => valueSets[j].has(value)).length;
+      const union = new Set([...Array.from(valueSets[i]), ...Array.from(valueSets[j])]).size;
+      total += union === 0 ? 0 : shared / union;
+      pairs++;
+    }
+  }
+
+  return Math.round((total / pairs) * 100);
+}
+
+/**
+ * Builds the team report for a company code from each participant's latest submission
+ */
+export async function buildTeamReport(rawCompanyCode: string): Promise<TeamReport> {
+  const organization = await storage.getOrganizationByCode(normalizeCompanyCode(rawCompanyCode));
+  const companyCode = organization?.code ?? normalizeCompanyCode(rawCompanyCode);
+
+  // Newest first, so the first submission seen for an email is that participant's latest.
+  // Anonymized submissions no longer say who made them, so they can't count as members.
+  const submissions = (await storage.getSubmissionsByCompanyCode(companyCode))
+    .filter(submission => !submission.anonymizedAt)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const membersByEmail = new Map<string, TeamReportMember>();
+  for (const submission of submissions) {
+    const email = submission.email.trim().toLowerCase();
+    if (!membersByEmail.has(email)) {
+      membersByEmail.set(email, {
+        name: submission.name,
+        email: submission.email,
+        coreValues: Array.isArray(submission.coreValues) ? (submission.coreValues as string[]) : [],
+        submittedAt: new Date(submission.createdAt).toISOString()
+      });
+    }
+  }
+  const members = Array.from(membersByEmail.values()).sort((a, b) => a.name.localeCompare(b.name));
+
+  const counts = new Map<string, number>();
+  for (const member of members) {
+    for (const value of member.coreValues) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  }
+  const sharedValues = Array.from(counts, ([value, count]) => ({ value, count, share: count / members.length }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+  // Values the team could have chosen: their decks' values, or every value if anyone used the full set.
+  // Archived values are no longer offered, so they aren't counted as unchosen.
+  const deckIds = new Set(submissions.map(submission => submission.deckId));
+  const activeValues = (await storage.getAllLeadershipValues()).filter(value => !value.archivedAt);
+  let availableValues: string[];
+  if (deckIds.has(null) || deckIds.size === 0) {
+    availableValues = activeValues.map(value => value.value);
+  } else {
+    const decks = await Promise.all(Array.from(deckIds, id => storage.getDeckById(id as number)));
+    const deckValueIds = new Set(decks.flatMap(deck => deck?.valueIds ?? []));
+    availableValues = activeValues
+      .filter(value => deckValueIds.has(value.id))
+      .map(value => value.value);
+  }
+  const unchosenValues = availableValues.filter(value => !counts.has(value)).sort((a, b) => a.localeCompare(b));
+
+  return {
+    companyCode,
+    organizationName: organization?.name ?? null,
+    generatedAt: new Date().toISOString(),
+    members,
+    sharedValues,
+    unchosenValues,
+    alignmentScore: calculateAlignmentScore(members)
+  };
+}
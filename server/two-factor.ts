@@ -0,0 +1,113 @@
+import { randomBytes } from "crypto";
+import * as OTPAuth from "otpauth";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { createSession, hashToken, toCurrentUser, verifyTwoFactorChallenge, type AuthTokens } from "./jwt-auth";
+import { type CurrentUser, type User } from "@shared/schema";
+
+const TOTP_ISSUER = "Leadership Values";
+const TOTP_PERIOD_SECONDS = 30;
+// Accept the previous and next code too, to allow for clock drift on the phone
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const createTotp = (user: User, secret: string) =>
+  new OTPAuth.TOTP({
+    issuer: TOTP_ISSUER,
+    label: user.username,
+    algorithm: "SHA1",
+    digits: 6,
+    period: TOTP_PERIOD_SECONDS,
+    secret: OTPAuth.Secret.fromBase32(secret),
+  });
+
+// Recovery codes are compared case- and separator-insensitively
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^0-9a-f]/g, "");
+
+const generateRecoveryCode = () => {
+  const code = randomBytes(5).toString("hex");
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+/**
+ * Checks a code against the user's secret (or a pending one during enrolment)
+ * and marks its time step used, so each code only works once.
+ */
+export async function verifyTotpCode(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret) {
+    return false;
+  }
+
+  const totp = createTotp(user, user.totpSecret);
+  const delta = totp.validate({ token: code, window: TOTP_WINDOW });
+  if (delta === null) {
+    return false;
+  }
+
+  const step = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS) + delta;
+  return storage.claimTotpStep(user.id, step);
+}
+
+/**
+ * Starts enrolment with a new secret. Two-factor stays off until the user
+ * confirms a code from their app with enableTwoFactor.
+ */
+export async function beginTwoFactorSetup(user: User): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+  const secret = new OTPAuth.Secret({ size: 20 }).base32;
+  await storage.updateUserTwoFactor(user.id, { totpSecret: secret, totpEnabledAt: null, totpLastUsedStep: null });
+
+  const otpauthUrl = createTotp(user, secret).toString();
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+// Replaces the user's recovery codes, returning the new codes; they can't be shown again
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  await storage.replaceRecoveryCodes(userId, codes.map(code => hashToken(normalizeRecoveryCode(code))));
+  return codes;
+}
+
+// Finishes enrolment once the user proves their app works. Returns recovery codes, or null if the code was wrong.
+export async function enableTwoFactor(user: User, code: string): Promise<string[] | null> {
+  if (user.totpEnabledAt || !(await verifyTotpCode(user, code))) {
+    return null;
+  }
+
+  await storage.updateUserTwoFactor(user.id, { totpEnabledAt: new Date() });
+  return regenerateRecoveryCodes(user.id);
+}
+
+export async function disableTwoFactor(userId: number): Promise<void> {
+  await storage.updateUserTwoFactor(userId, { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null });
+  await storage.replaceRecoveryCodes(userId, []);
+}
+
+/**
+ * Second login step: exchanges the challenge from a correct password plus an
+ * authenticator or recovery code for a session.
+ */
+export async function completeTwoFactorLogin(
+  challengeToken: string,
+  code: string,
+  userAgent?: string
+): Promise<({ user: CurrentUser } & AuthTokens) | null> {
+  const challenge = verifyTwoFactorChallenge(challengeToken);
+  if (!challenge) {
+    return null;
+  }
+
+  const user = await storage.getUser(challenge.userId);
+  if (!user?.totpEnabledAt) {
+    return null;
+  }
+
+  const isValid = /^\d{6}$/.test(code)
+    ? await verifyTotpCode(user, code)
+    : await storage.useRecoveryCode(user.id, hashToken(normalizeRecoveryCode(code)));
+  if (!isValid) {
+    return null;
+  }
+
+  const tokens = await createSession(user, userAgent);
+  return { user: await toCurrentUser(user), ...tokens };
+}
@@ -0,0 +1,214 @@
+import {
+  valueImportRowSchema,
+  type InsertLeadershipValue,
+  type LeadershipValue,
+  type ValueImport,
+  type ValueImportPreview,
+  type ValueImportRow,
+  type ValueTransferFormat
+} from "@shared/schema";
+import { fromZodError } from "zod-validation-error";
+import { escapeCsvField } from "./submission-export";
+
+const CSV_HEADERS = ["ID", "Value", "Description"];
+
+export type ValueImportPlan = ValueImportPreview & {
+  // What to write, ready for storage.importLeadershipValues
+  toCreate: InsertLeadershipValue[];
+  toChange: { id: number; value: InsertLeadershipValue }[];
+};
+
+export type ValueExport = {
+  contentType: string;
+  extension: string;
+  body: string;
+};
+
+type NumberedRow = { row: number; data: unknown };
+
+/**
+ * Renders leadership values in the same layout the import accepts, so a file can be
+ * exported, edited in a spreadsheet and imported again. Rows keep the order given.
+ */
+export function exportLeadershipValues(values: LeadershipValue[], format: ValueTransferFormat): ValueExport {
+  const rows = values.map(({ id, value, description }) => ({ id, value, description }));
+
+  if (format === "json") {
+    return { contentType: "application/json; charset=utf-8", extension: "json", body: JSON.stringify(rows, null, 2) };
+  }
+
+  const lines = [CSV_HEADERS, ...rows.map(row => [row.id, row.value, row.description])];
+  // A byte order mark makes Excel read the file as UTF-8
+  return {
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+    body: "\uFEFF" + lines.map(line => line.map(escapeCsvField).join(",")).join("\r\n") + "\r\n"
+  };
+}
+
+/**
+ * Splits CSV text into rows of fields (RFC 4180: quoted fields may hold commas,
+ * doubled quotes and line breaks)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Undoes the apostrophe escapeCsvField puts in front of text a spreadsheet would treat as a formula
+const unescapeCsvField = (field: string) => (/^'[=+\-@\t\r]/.test(field) ? field.slice(1) : field);
+
+function readCsvRows(content: string): { rows: NumberedRow[]; error?: string } {
+  const [header = [], ...lines] = parseCsv(content.replace(/^\uFEFF/, ""));
+  const columns = header.map(name => name.trim().toLowerCase());
+  const idColumn = columns.indexOf("id");
+  const valueColumn = columns.indexOf("value");
+  const descriptionColumn = columns.indexOf("description");
+  if (valueColumn === -1 || descriptionColumn === -1) {
+    return { rows: [], error: 'The first row must name the columns: "Value", "Description" and optionally "ID"' };
+  }
+
+  const rows: NumberedRow[] = [];
+  lines.forEach((fields, index) => {
+    if (fields.every(field => field.trim() === "")) return; // Blank lines, often at the end of the file
+
+    const id = idColumn === -1 ? "" : (fields[idColumn] ?? "").trim();
+    rows.push({
+      row: index + 2,
+      data: {
+        id: id === "" ? null : /^\d+$/.test(id) ? Number(id) : id,
+        value: unescapeCsvField(fields[valueColumn] ?? ""),
+        description: unescapeCsvField(fields[descriptionColumn] ?? "")
+      }
+    });
+  });
+  return { rows };
+}
+
+function readJsonRows(content: string): { rows: NumberedRow[]; error?: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return { rows: [], error: "The file isn't valid JSON" };
+  }
+  if (!Array.isArray(parsed)) {
+    return { rows: [], error: "The file must hold a JSON array of values" };
+  }
+  return { rows: parsed.map((data, index) => ({ row: index + 1, data })) };
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Works out what an import file would change: rows with an id update that value,
+ * rows without one update the value with the same name (ignoring case) or add a new
+ * value. A name that appears twice in the file is only imported from its first row.
+ */
+export function planValueImport(file: ValueImport, existingValues: LeadershipValue[]): ValueImportPlan {
+  const plan: ValueImportPlan = { created: [], changed: [], unchanged: 0, duplicates: [], errors: [], toCreate: [], toChange: [] };
+
+  const { rows, error } = file.format === "csv" ? readCsvRows(file.content) : readJsonRows(file.content);
+  if (error) {
+    plan.errors.push({ row: null, message: error });
+    return plan;
+  }
+  if (rows.length === 0) {
+    plan.errors.push({ row: null, message: "The file has no values" });
+    return plan;
+  }
+
+  const byId = new Map(existingValues.map(value => [value.id, value]));
+  const byName = new Map<string, LeadershipValue>();
+  for (const value of [...existingValues].sort((a, b) => a.id - b.id)) {
+    if (!byName.has(nameKey(value.value))) byName.set(nameKey(value.value), value);
+  }
+
+  const seenNames = new Map<string, number>(); // Name -> first row using it
+  const seenIds = new Set<number>();
+
+  for (const { row, data } of rows) {
+    const result = valueImportRowSchema.safeParse(data);
+    if (!result.success) {
+      plan.errors.push({ row, message: fromZodError(result.error, { prefix: null }).message });
+      continue;
+    }
+    const importRow: ValueImportRow = result.data;
+    const key = nameKey(importRow.value);
+
+    const firstRow = seenNames.get(key);
+    if (firstRow !== undefined) {
+      plan.duplicates.push({ row, value: importRow.value, firstRow });
+      continue;
+    }
+    seenNames.set(key, row);
+
+    const existing = importRow.id != null ? byId.get(importRow.id) : byName.get(key);
+    if (importRow.id != null && !existing) {
+      plan.errors.push({ row, message: `There's no value with ID ${importRow.id}` });
+      continue;
+    }
+
+    const after = { value: importRow.value, description: importRow.description };
+    if (!existing) {
+      plan.created.push({ row, ...after });
+      plan.toCreate.push(after);
+      continue;
+    }
+
+    if (seenIds.has(existing.id)) {
+      plan.errors.push({ row, message: `Another row already updates "${existing.value}"` });
+      continue;
+    }
+    seenIds.add(existing.id);
+
+    const namedValue = byName.get(key);
+    if (namedValue && namedValue.id !== existing.id) {
+      plan.errors.push({ row, message: `Another value is already named "${namedValue.value}"` });
+      continue;
+    }
+
+    if (existing.value === after.value && existing.description === after.description) {
+      plan.unchanged++;
+    } else {
+      plan.changed.push({ row, id: existing.id, before: { value: existing.value, description: existing.description }, after });
+      plan.toChange.push({ id: existing.id, value: after });
+    }
+  }
+
+  return plan;
+}
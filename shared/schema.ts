@@ -1,26 +1,178 @@
-import { pgTable, text, serial, integer, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, jsonb, primaryKey, date, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Admin roles, from least to most privileged. Each role can do everything the roles before it can:
+// viewers read admin data, editors manage values, decks, organizations and templates,
+// admins export submissions and manage users and invites, owners manage other admins and owners
+export const userRoles = ["viewer", "editor", "admin", "owner"] as const;
+export type UserRole = (typeof userRoles)[number];
+
+export const hasRole = (user: { role: UserRole } | null | undefined, minimum: UserRole) =>
+  !!user && userRoles.indexOf(user.role) >= userRoles.indexOf(minimum);
+
+// Whether a user may invite, promote to, demote from or remove the given role
+export const canManageRole = (user: { role: UserRole } | null | undefined, role: UserRole) =>
+  hasRole(user, "owner") || (hasRole(user, "admin") && userRoles.indexOf(role) < userRoles.indexOf("admin"));
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("viewer"),
+  email: text("email").unique(), // Where password reset links are sent; stored lowercase
+  // Set during two-factor enrolment; two-factor is only on once totpEnabledAt is set
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // Stops a code being replayed within its 30-second window
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+}).extend({
+  role: z.enum(userRoles).optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// User as sent to the client, without the password hash or two-factor secret
+export type PublicUser = Omit<User, "password" | "totpSecret" | "totpLastUsedStep">;
+// The signed-in user, flagged when an owner requires two-factor and they haven't enrolled yet
+export type CurrentUser = PublicUser & { twoFactorSetupRequired: boolean };
+
+// Invite-only registration: an admin creates an invite for a role and shares its link
+export const userInvites = pgTable("user_invites", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(), // Only the hash of the link's token is stored
+  role: text("role").$type<UserRole>().notNull(),
+  note: text("note"), // Who the invite is for, shown to admins
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: integer("accepted_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertUserInviteSchema = z.object({
+  role: z.enum(userRoles),
+  note: z.string().trim().max(200).nullable().optional(),
+});
+
+export type InsertUserInvite = z.infer<typeof insertUserInviteSchema>;
+export type UserInvite = typeof userInvites.$inferSelect;
+// Invite as listed to admins, without the token hash
+export type UserInviteSummary = Omit<UserInvite, "tokenHash">;
+
+// A signed-in browser. The refresh token rotates on every use; only hashes are stored.
+export const authSessions = pgTable("auth_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  // The refresh token this one replaced; seeing it again means it was stolen and replayed
+  previousTokenHash: text("previous_token_hash"),
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at").notNull(),
+  rotatedAt: timestamp("rotated_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AuthSession = typeof authSessions.$inferSelect;
+
+// Single-use password reset links; only the hash of the link's token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+// Single-use codes for signing in without the authenticator app; only hashes are stored
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+
+// Who did what to which record, written by the audit middleware in server/audit.ts
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id, { onDelete: "set null" }),
+  actorUsername: text("actor_username"), // Kept so entries still read sensibly after the user is removed
+  action: text("action").notNull(), // e.g. "leadership_value.update"
+  targetType: text("target_type").notNull(),
+  targetId: text("target_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  success: boolean("success").notNull(),
+  ip: text("ip"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type InsertAuditLogEntry = typeof auditLog.$inferInsert;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+// App-wide settings changed from the admin dashboard, one JSON value per key
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const securitySettingsSchema = z.object({
+  requireTwoFactor: z.boolean(),
+});
+
+export type SecuritySettings = z.infer<typeof securitySettingsSchema>;
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+// Second login step: a code from the authenticator app or one of the recovery codes
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().trim().min(1, "Code is required"),
+});
+
+const newPasswordSchema = z.string().min(8, "Password must be at least 8 characters");
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: newPasswordSchema,
+});
+
+export const requestPasswordResetSchema = z.object({
+  identifier: z.string().trim().min(1, "Username or email is required"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: newPasswordSchema,
+});
+
+export const updateAccountEmailSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Please enter a valid email address").nullable(),
+});
 
 // Leadership Value schema
 export const leadershipValues = pgTable("leadership_values", {
   id: serial("id").primaryKey(),
   value: text("value").notNull(),
   description: text("description").notNull(),
+  archivedAt: timestamp("archived_at"), // Archived values are left out of new exercises but kept for reporting
+  position: integer("position").notNull().default(0), // Order of the card pile, lowest first; ties fall back to id
 });
 
 export const insertLeadershipValueSchema = createInsertSchema(leadershipValues).pick({
@@ -31,13 +183,250 @@ export const insertLeadershipValueSchema = createInsertSchema(leadershipValues).
 export type InsertLeadershipValue = z.infer<typeof insertLeadershipValueSchema>;
 export type LeadershipValue = typeof leadershipValues.$inferSelect;
 
+// The full card pile order, first card first; values left out keep their relative order after the listed ones
+export const leadershipValueOrderSchema = z.object({
+  valueIds: z.array(z.number().int()).min(1, "List at least one value").refine(
+    ids => new Set(ids).size === ids.length,
+    "Each value can only appear once"
+  ),
+});
+
+// Which values GET /api/leadership-values lists; participants only ever see active ones
+export const leadershipValueStatusSchema = z.enum(["active", "archived", "all"]).default("active");
+export type LeadershipValueStatus = z.infer<typeof leadershipValueStatusSchema>;
+
+// Bulk import and export of leadership values, for content teams who keep them in spreadsheets
+export const valueTransferFormats = ["csv", "json"] as const;
+export type ValueTransferFormat = typeof valueTransferFormats[number];
+
+export const valueExportSchema = z.object({
+  format: z.enum(valueTransferFormats).default("csv"),
+  status: leadershipValueStatusSchema,
+});
+
+export const valueImportSchema = z.object({
+  format: z.enum(valueTransferFormats),
+  content: z.string().min(1, "The import file is empty"),
+});
+
+export type ValueImport = z.infer<typeof valueImportSchema>;
+
+// One row of an import file. Rows with an id update that value; rows without one
+// update the value with the same name, or add a new value.
+export const valueImportRowSchema = z.object({
+  id: z.number().int().positive().nullable().optional(),
+  value: z.string().trim().min(1, "Value name is required"),
+  description: z.string().trim().min(1, "Description is required"),
+});
+
+export type ValueImportRow = z.infer<typeof valueImportRowSchema>;
+
+// What an import would do. Rows are numbered as a spreadsheet shows them (the CSV
+// header is row 1) or by position in a JSON array, starting at 1.
+export type ValueImportPreview = {
+  created: { row: number; value: string; description: string }[];
+  changed: { row: number; id: number; before: InsertLeadershipValue; after: InsertLeadershipValue }[];
+  unchanged: number;
+  duplicates: { row: number; value: string; firstRow: number }[]; // Skipped: an earlier row already has this value
+  errors: { row: number | null; message: string }[]; // Null for problems with the whole file; nothing is applied until these are fixed
+};
+
+export type ValueImportResult = {
+  created: number;
+  changed: number;
+  unchanged: number;
+  duplicates: number;
+};
+
+// The text a leadership value had before each edit; its current text is on the value itself
+export const leadershipValueRevisions = pgTable("leadership_value_revisions", {
+  id: serial("id").primaryKey(),
+  valueId: integer("value_id").notNull().references(() => leadershipValues.id, { onDelete: "cascade" }),
+  value: text("value").notNull(),
+  description: text("description").notNull(),
+  replacedBy: integer("replaced_by").references(() => users.id, { onDelete: "set null" }),
+  replacedByUsername: text("replaced_by_username"), // Kept so revisions still read sensibly after the user is removed
+  replacedAt: timestamp("replaced_at").defaultNow().notNull(),
+});
+
+export type LeadershipValueRevision = typeof leadershipValueRevisions.$inferSelect;
+
+// A core value as it read when the participant submitted, so later edits don't rewrite their results
+export type CoreValueSnapshot = {
+  id: number;
+  value: string;
+  description: string;
+};
+
+// Deck schema for named sets of leadership values used by different programs
+export const decks = pgTable("decks", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  slug: text("slug").notNull().unique(), // Used in participant links, e.g. /?deck=executives
+  description: text("description"),
+  shuffle: boolean("shuffle").notNull().default(false), // Deal each participant the cards in random order instead of the set order
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const deckValues = pgTable("deck_values", {
+  deckId: integer("deck_id").notNull().references(() => decks.id, { onDelete: "cascade" }),
+  valueId: integer("value_id").notNull().references(() => leadershipValues.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.deckId, table.valueId] }),
+]);
+
+export const insertDeckSchema = createInsertSchema(decks).pick({
+  name: true,
+  slug: true,
+  description: true,
+}).extend({
+  shuffle: z.boolean().default(false),
+  name: z.string().trim().min(1, "Deck name is required"),
+  slug: z.string().trim().toLowerCase().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, numbers and dashes"),
+  valueIds: z.array(z.number().int()).default([]).refine(
+    ids => new Set(ids).size === ids.length,
+    "Each value can only appear once"
+  ),
+});
+
+export type InsertDeck = z.infer<typeof insertDeckSchema>;
+export type Deck = typeof decks.$inferSelect;
+export type DeckWithValues = Deck & { valueIds: number[] };
+
+// Organization schema for client company codes
+export const normalizeCompanyCode = (code: string) => code.trim().toUpperCase();
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // Canonical (normalized) company code participants enter
+  name: text("name").notNull(),
+  startsOn: date("starts_on", { mode: "string" }), // First day codes are accepted, inclusive
+  endsOn: date("ends_on", { mode: "string" }), // Last day codes are accepted, inclusive
+  participantCap: integer("participant_cap"), // Maximum number of submissions, if limited
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertOrganizationSchema = createInsertSchema(organizations).pick({
+  code: true,
+  name: true,
+  startsOn: true,
+  endsOn: true,
+  participantCap: true,
+}).extend({
+  code: z.string().transform(normalizeCompanyCode).pipe(z.string().min(1, "Company code is required")),
+  name: z.string().trim().min(1, "Organization name is required"),
+  startsOn: isoDateSchema.nullable().optional(),
+  endsOn: isoDateSchema.nullable().optional(),
+  participantCap: z.number().int().positive().nullable().optional(),
+}).refine(
+  (organization) => !organization.startsOn || !organization.endsOn || organization.startsOn <= organization.endsOn,
+  { message: "End date must be on or after the start date", path: ["endsOn"] }
+);
+
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type Organization = typeof organizations.$inferSelect;
+export type OrganizationWithStats = Organization & { submissionCount: number };
+
+export type OrganizationCodeStatus = "valid" | "not_found" | "not_started" | "ended" | "full";
+
+export interface OrganizationCodeValidation {
+  valid: boolean;
+  status: OrganizationCodeStatus;
+  message: string;
+  organization?: Pick<Organization, "code" | "name">;
+}
+
+// Everything the participant did during the exercise, by leadership value id
+export const sortingJourneySchema = z
+  .object({
+    definitelyMe: z.array(z.number().int()),
+    mostlyMe: z.array(z.number().int()),
+    notMe: z.array(z.number().int()),
+    top10: z.array(z.number().int()).length(10),
+    core: z.array(z.number().int()).length(5), // Ordered core five
+  })
+  .superRefine((journey, ctx) => {
+    const buckets = [...journey.definitelyMe, ...journey.mostlyMe, ...journey.notMe];
+    if (new Set(buckets).size !== buckets.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "A value can only be sorted into one bucket",
+      });
+    }
+
+    const accepted = new Set([...journey.definitelyMe, ...journey.mostlyMe]);
+    if (new Set(journey.top10).size !== journey.top10.length || !journey.top10.every(id => accepted.has(id))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["top10"],
+        message: "Top 10 must be unique values from the Definitely Me and Mostly Me buckets",
+      });
+    }
+
+    const top10 = new Set(journey.top10);
+    if (new Set(journey.core).size !== journey.core.length || !journey.core.every(id => top10.has(id))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["core"],
+        message: "Core values must be unique values from the top 10",
+      });
+    }
+  });
+
+export type SortingJourney = z.infer<typeof sortingJourneySchema>;
+
+// Consent wording shown when participants submit. Never edit a published version:
+// add a new one and point CURRENT_CONSENT_VERSION at it, so each submission records
+// exactly what the participant agreed to.
+export const CONSENT_VERSIONS = {
+  "2026-10-19": {
+    results: "I agree to my name, email address and value choices being stored so my results can be emailed to me and shared with the organization whose company code I entered.",
+    marketing: "I'd also like to receive occasional emails about leadership development resources and coaching. I can unsubscribe at any time.",
+  },
+} as const;
+
+export type ConsentVersion = keyof typeof CONSENT_VERSIONS;
+export const CURRENT_CONSENT_VERSION: ConsentVersion = "2026-10-19";
+
+export const consentSchema = z.object({
+  version: z.enum(Object.keys(CONSENT_VERSIONS) as [ConsentVersion, ...ConsentVersion[]]),
+  results: z.literal(true, { errorMap: () => ({ message: "Consent to store your results is required" }) }),
+  marketing: z.boolean(),
+});
+
+// Participants are matched across repeated assessments by email address, ignoring case and whitespace
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// One person who has taken the exercise, possibly several times
+export const participants = pgTable("participants", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull().unique(), // Normalized with normalizeEmail
+  name: text("name").notNull(), // As given on their first submission
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type Participant = typeof participants.$inferSelect;
+
 // Submission schema for user data + value selections
 export const submissions = pgTable("submissions", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   email: text("email").notNull(),
   companyCode: text("company_code"), // Optional company code field
+  organizationId: integer("organization_id").references(() => organizations.id, { onDelete: "set null" }),
+  participantId: integer("participant_id").references(() => participants.id, { onDelete: "set null" }), // Null once anonymized
+  deckId: integer("deck_id").references(() => decks.id, { onDelete: "set null" }), // Deck the exercise was taken against
   coreValues: jsonb("core_values").notNull(), // Array of value names
+  coreValueSnapshot: jsonb("core_value_snapshot").$type<CoreValueSnapshot[]>(), // Ranked core values by id with their text at submission time; null for older submissions
+  sortingJourney: jsonb("sorting_journey").$type<SortingJourney>(), // Null for submissions recorded before it was captured
+  emailTokenHash: text("email_token_hash"), // One-time token for sending the results email; cleared once used
+  consentVersion: text("consent_version"), // Key of CONSENT_VERSIONS agreed to; null for submissions recorded before consent was captured
+  marketingOptIn: boolean("marketing_opt_in").notNull().default(false), // False means results-only
+  consentedAt: timestamp("consented_at"),
+  anonymizedAt: timestamp("anonymized_at"), // Set when the retention policy stripped the name and email
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -45,8 +434,340 @@ export const insertSubmissionSchema = createInsertSchema(submissions).pick({
   name: true,
   email: true,
   companyCode: true,
+  deckId: true,
   coreValues: true,
+}).extend({
+  sortingJourney: sortingJourneySchema,
+  consent: consentSchema,
 });
 
 export type InsertSubmission = z.infer<typeof insertSubmissionSchema>;
+// Fields the server stores for a participant's submission; consent is flattened into its columns
+export type NewSubmission = Omit<InsertSubmission, "consent"> & {
+  organizationId?: number | null;
+  participantId?: number | null;
+  coreValueSnapshot?: CoreValueSnapshot[] | null;
+  emailTokenHash?: string | null;
+  consentVersion?: ConsentVersion | null;
+  marketingOptIn?: boolean;
+  consentedAt?: Date | null;
+};
+
+// Retention policy: how long submissions are kept before the scheduled purge
+// anonymizes or deletes them. Company codes can have their own period.
+export const retentionActions = ["anonymize", "delete"] as const;
+export type RetentionAction = typeof retentionActions[number];
+
+const retentionMonthsSchema = z.number().int().min(1, "Keep submissions for at least a month").max(240).nullable(); // Null keeps them indefinitely
+
+export const retentionSettingsSchema = z.object({
+  enabled: z.boolean(), // Whether the nightly purge runs; previews work either way
+  action: z.enum(retentionActions),
+  defaultMonths: retentionMonthsSchema,
+  companyCodes: z.array(z.object({
+    companyCode: z.string().transform(normalizeCompanyCode).pipe(z.string().min(1, "Company code is required")),
+    months: retentionMonthsSchema,
+  })).refine(
+    rules => new Set(rules.map(rule => rule.companyCode)).size === rules.length,
+    "Each company code can only have one retention period"
+  ),
+});
+
+export type RetentionSettings = z.infer<typeof retentionSettingsSchema>;
+
+// Submissions created before a cutoff have expired; null cutoffs never expire.
+// Codes without their own entry use the default.
+export type RetentionCutoffs = {
+  default: Date | null;
+  companyCodes: Record<string, Date | null>;
+};
+
+export type RetentionCandidate = Pick<Submission, "id" | "companyCode" | "createdAt">;
+
+// What a purge would do (or did) right now, per company code
+export type RetentionReport = {
+  generatedAt: string;
+  action: RetentionAction;
+  total: number;
+  groups: {
+    companyCode: string | null;
+    months: number;
+    cutoff: string; // Submissions before this are purged
+    count: number;
+    oldest: string;
+  }[];
+};
+
+export type RetentionRun = {
+  ranAt: string;
+  action: RetentionAction;
+  submissions: number;
+  trigger: "schedule" | "manual";
+};
 export type Submission = typeof submissions.$inferSelect;
+
+// Exercise session schema for resuming the card sorting wizard on another device
+const valueCardSchema = z.object({
+  id: z.number().int(),
+  value: z.string(),
+  description: z.string(),
+});
+
+export const sortedValuesSchema = z.object({
+  "card-pile": z.array(valueCardSchema),
+  "definitely-me": z.array(valueCardSchema),
+  "mostly-me": z.array(valueCardSchema),
+  "not-me": z.array(valueCardSchema),
+});
+
+export const selectedValuesSchema = z.object({
+  available: z.array(valueCardSchema),
+  selected: z.array(valueCardSchema),
+  core: z.array(valueCardSchema),
+});
+
+export type SortedValuesState = z.infer<typeof sortedValuesSchema>;
+export type SelectedValuesState = z.infer<typeof selectedValuesSchema>;
+
+export const exerciseSessions = pgTable("exercise_sessions", {
+  id: serial("id").primaryKey(),
+  resumeCode: text("resume_code").notNull().unique(),
+  currentStep: integer("current_step").notNull().default(0),
+  sortedValues: jsonb("sorted_values").$type<SortedValuesState>(),
+  selectedValues: jsonb("selected_values").$type<SelectedValuesState>(),
+  coreValues: jsonb("core_values").$type<SelectedValuesState>(),
+  deckId: integer("deck_id").references(() => decks.id, { onDelete: "set null" }), // Deck being sorted, so resuming deals the same cards
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertExerciseSessionSchema = createInsertSchema(exerciseSessions).pick({
+  resumeCode: true,
+  currentStep: true,
+  sortedValues: true,
+  selectedValues: true,
+  coreValues: true,
+  deckId: true,
+}).extend({
+  currentStep: z.number().int().min(0).max(4),
+  deckId: z.number().int().nullable().optional(),
+  sortedValues: sortedValuesSchema.nullable().optional(),
+  selectedValues: selectedValuesSchema.nullable().optional(),
+  coreValues: selectedValuesSchema.nullable().optional(),
+});
+
+// Wizard state as sent by the client; the resume code is always assigned by the server
+export const exerciseStateSchema = insertExerciseSessionSchema.omit({ resumeCode: true });
+export const updateExerciseStateSchema = exerciseStateSchema.partial();
+
+export type InsertExerciseSession = z.infer<typeof insertExerciseSessionSchema>;
+export type ExerciseState = z.infer<typeof exerciseStateSchema>;
+export type ExerciseSession = typeof exerciseSessions.$inferSelect;
+// As returned when resuming, with the slug the client loads the deck by
+export type ExerciseSessionWithDeck = ExerciseSession & { deckSlug: string | null };
+
+// Email outbox schema: every outgoing email is queued here and retried by the outbox worker
+export type EmailKind = "results";
+export type EmailStatus = "pending" | "sending" | "sent" | "failed";
+
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").$type<EmailKind>().notNull(), // "results" emails attach the submission's PDF when sent
+  submissionId: integer("submission_id").references(() => submissions.id, { onDelete: "cascade" }),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  status: text("status").$type<EmailStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(), // Also used as a lease while "sending"
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type InsertEmailOutboxMessage = typeof emailOutbox.$inferInsert;
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+// Outbox row without the rendered body, as listed to admins
+export type EmailOutboxSummary = Omit<EmailOutboxMessage, "html">;
+
+export const emailDeliveryAttempts = pgTable("email_delivery_attempts", {
+  id: serial("id").primaryKey(),
+  outboxId: integer("outbox_id").notNull().references(() => emailOutbox.id, { onDelete: "cascade" }),
+  success: boolean("success").notNull(),
+  error: text("error"),
+  providerMessageId: text("provider_message_id"),
+  attemptedAt: timestamp("attempted_at").defaultNow().notNull(),
+});
+
+export type InsertEmailDeliveryAttempt = typeof emailDeliveryAttempts.$inferInsert;
+export type EmailDeliveryAttempt = typeof emailDeliveryAttempts.$inferSelect;
+
+// Email template schema: admin-edited subject and body for each kind of email,
+// with an optional override per organization
+export const emailTemplates = pgTable("email_templates", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").$type<EmailKind>().notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id, { onDelete: "cascade" }), // Null for the default template
+  subject: text("subject").notNull(), // Plain text with {{placeholders}}
+  body: text("body").notNull(), // HTML with {{placeholders}}
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("email_templates_kind_organization_unique").on(table.kind, table.organizationId).nullsNotDistinct(),
+]);
+
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).pick({
+  subject: true,
+  body: true,
+}).extend({
+  subject: z.string().trim().min(1, "Subject is required"),
+  body: z.string().trim().min(1, "Body is required"),
+  organizationId: z.number().int().nullable(),
+});
+
+export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+
+// Analytics: filters shared by every aggregation endpoint, parsed from the query string
+export const analyticsFiltersSchema = z.object({
+  companyCode: z.string().trim().min(1).optional(),
+  from: isoDateSchema.optional(), // Inclusive
+  to: isoDateSchema.optional(), // Inclusive
+});
+
+export const analyticsIntervalSchema = z.enum(["day", "week", "month"]).default("week");
+
+export type AnalyticsFilters = z.infer<typeof analyticsFiltersSchema>;
+export type AnalyticsInterval = z.infer<typeof analyticsIntervalSchema>;
+
+export type AnalyticsSummary = {
+  submissions: number;
+  participants: number; // Distinct email addresses
+  companyCodes: number;
+};
+export type CoreValueFrequency = { value: string; count: number };
+export type SubmissionVolume = { period: string; count: number }; // period is the YYYY-MM-DD start of the interval
+export type CompanyCodeBreakdown = { companyCode: string | null; submissions: number; participants: number };
+
+// Filters shared by the admin submissions list and exports
+export const submissionSearchSchema = analyticsFiltersSchema.extend({
+  search: z.string().trim().min(1).optional(), // Part of the name or email, case-insensitive
+  coreValue: z.string().trim().min(1).optional(), // Only submissions that chose this core value
+});
+
+export type SubmissionSearch = z.infer<typeof submissionSearchSchema>;
+
+// Admin submissions list: one page of the newest submissions matching the filters
+export const submissionFiltersSchema = submissionSearchSchema.extend({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type SubmissionFilters = z.infer<typeof submissionFiltersSchema>;
+
+// "csv" has one column per core value; "ndjson" is one JSON object per line
+export const submissionExportFormats = ["csv", "xlsx", "json", "ndjson"] as const;
+export type SubmissionExportFormat = typeof submissionExportFormats[number];
+
+export const submissionExportSchema = submissionSearchSchema.extend({
+  format: z.enum(submissionExportFormats).default("csv"),
+});
+
+export type SubmissionPage = {
+  submissions: Omit<Submission, "emailTokenHash">[];
+  total: number;
+  page: number;
+  limit: number;
+};
+
+// Audit log filters; from/to are inclusive dates
+export const auditLogFiltersSchema = z.object({
+  action: z.string().trim().min(1).optional(),
+  targetType: z.string().trim().min(1).optional(),
+  actorId: z.coerce.number().int().positive().optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  page: z.coerce.number().int().positive().default(1),
+});
+
+export type AuditLogFilters = z.infer<typeof auditLogFiltersSchema>;
+
+export type AuditLogPage = {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  actions: string[]; // Every action recorded so far, for the filter
+};
+
+// Team report: the latest submission of each participant with a company code, synthesized for facilitators
+export type TeamReportMember = {
+  name: string;
+  email: string;
+  coreValues: string[]; // In ranked order
+  submittedAt: string;
+};
+
+export type TeamReport = {
+  companyCode: string;
+  organizationName: string | null;
+  generatedAt: string;
+  members: TeamReportMember[];
+  sharedValues: { value: string; count: number; share: number }[]; // Most shared first; share is 0-1
+  unchosenValues: string[]; // Values in play that no member chose
+  alignmentScore: number | null; // 0-100, null with fewer than two members
+};
+
+// One submission with everything a coach needs to prepare a debrief
+export type SubmissionDetail = {
+  submission: Omit<Submission, "emailTokenHash">;
+  coreValues: { value: string; description: string }[]; // In ranked order
+  journey: { definitelyMe: string[]; mostlyMe: string[]; notMe: string[]; top10: string[] } | null; // Value names; null for older submissions
+  organization: Pick<Organization, "id" | "code" | "name"> | null;
+  deck: Pick<Deck, "id" | "name" | "slug"> | null;
+  emails: EmailOutboxSummary[] | null; // Newest first; null for roles that can't see the outbox
+  participantSubmissions: number; // How many times this participant has taken the exercise, including this one
+};
+
+// How a participant's core values changed since their previous submission, by value name
+export type ValueComparison = {
+  previousSubmissionId: number;
+  previousSubmittedAt: string;
+  kept: string[]; // In the current ranking's order
+  dropped: string[]; // In the previous ranking's order
+  added: string[]; // In the current ranking's order
+};
+
+// What the comparison link in the results email shows the participant
+export type SubmissionComparison = {
+  name: string;
+  submittedAt: string;
+  coreValues: string[];
+  comparison: ValueComparison | null; // Null on a participant's first submission
+};
+
+// A participant's submissions, newest first, each compared with the one before it
+export type ParticipantHistory = {
+  participant: Participant;
+  submissions: (Omit<Submission, "emailTokenHash"> & { comparison: ValueComparison | null })[];
+};
+
+// Data-subject requests look a participant up by email address, case-insensitively
+export const participantEmailSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Please enter a valid email address"),
+});
+
+// Everything stored about one email address, as handed to the participant on request
+export type ParticipantData = {
+  email: string;
+  exportedAt: string;
+  participant: Participant | null;
+  submissions: Omit<Submission, "emailTokenHash">[]; // Newest first
+  emails: (EmailOutboxMessage & { deliveryAttempts: EmailDeliveryAttempt[] })[]; // Sent to the address or about its submissions
+};
+
+// How many records an erasure removed
+export type ParticipantErasure = {
+  submissions: number;
+  emails: number;
+  auditEntries: number; // Audit entries whose snapshots were cleared
+};